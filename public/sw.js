@@ -136,7 +136,7 @@ self.addEventListener('push', function(event) {
   }
 });
 
-// Notification click event
+// Notification click event - deep-link to the notification's data.url
 self.addEventListener('notificationclick', function(event) {
   console.log('[Service Worker] Notification click received.');
 
@@ -146,40 +146,58 @@ self.addEventListener('notificationclick', function(event) {
     return;
   }
 
-  const data = event.notification.data;
-  let url = '/';
-
-  if (event.action === 'view' || !event.action) {
-    if (data.url) {
-      url = data.url;
-    } else if (data.projectId) {
-      url = `/projects/${data.projectId}`;
-    } else if (data.taskId) {
-      url = `/tasks/${data.taskId}`;
-    } else if (data.messageId) {
-      url = `/messages`;
-    }
+  const data = event.notification.data || {};
+  let path = '/';
+
+  if (data.url) {
+    path = data.url;
+  } else if (data.projectId) {
+    path = `/projects/${data.projectId}`;
+  } else if (data.taskId) {
+    path = `/tasks/${data.taskId}`;
+  } else if (data.messageId) {
+    path = `/messages`;
   }
 
-  event.waitUntil(
-    clients.matchAll({
-      type: 'window',
-      includeUncontrolled: true
-    }).then(function(clientList) {
-      // Check if there's already a window/tab open with the target URL
-      for (let i = 0; i < clientList.length; i++) {
-        const client = clientList[i];
-        if (client.url.includes(url) && 'focus' in client) {
-          return client.focus();
-        }
+  const target = new URL(path, self.location.origin);
+
+  // Opening the notification from the OS counts as reading it in the app
+  const markRead = data.notificationId
+    ? fetch(`/api/notifications/${data.notificationId}/read`, {
+        method: 'PUT',
+        credentials: 'same-origin'
+      }).catch(function() {})
+    : Promise.resolve();
+
+  const openTarget = clients.matchAll({
+    type: 'window',
+    includeUncontrolled: true
+  }).then(function(clientList) {
+    // Focus a tab already showing the target page
+    for (let i = 0; i < clientList.length; i++) {
+      const client = clientList[i];
+      if (client.url === target.href && 'focus' in client) {
+        return client.focus();
       }
+    }
 
-      // If no window/tab is already open, open a new one
-      if (clients.openWindow) {
-        return clients.openWindow(url);
+    // Otherwise take over an open tab of the app
+    for (let i = 0; i < clientList.length; i++) {
+      const client = clientList[i];
+      if (new URL(client.url).origin === target.origin && 'navigate' in client) {
+        return client.navigate(target.href).then(function(navigated) {
+          return (navigated || client).focus();
+        });
       }
-    })
-  );
+    }
+
+    // If no window/tab is open, open a new one
+    if (clients.openWindow) {
+      return clients.openWindow(target.href);
+    }
+  });
+
+  event.waitUntil(Promise.all([markRead, openTarget]));
 });
 
 // Notification close event
@@ -0,0 +1,248 @@
+// FILE: scripts/migrateContractors.ts
+// Migration script to build the contractor/supplier directory from the free-text
+// names already stored on schedule activities, daily logs and procurement items,
+// and link those records to it.
+//
+// Names are processed most-used first, so the most common spelling becomes the
+// entry's name and rarer spellings ("Ben", "ben.", "Benn") become its aliases.
+// Supervisors are only linked when they match an entry; they don't create one.
+//
+// Usage: npm run migrate:contractors [-- --dry-run]
+
+import { connectToDatabase } from '@/lib/db';
+import { Db, ObjectId } from 'mongodb';
+import {
+  CONTRACTORS_COLLECTION,
+  DirectoryEntry,
+  findContractorMatch,
+  linkContractorNames,
+  linkDirectoryName,
+  normalizeContractorName,
+  tidyContractorName
+} from '@/lib/contractors';
+import { PROCUREMENT_COLLECTION } from '@/lib/procurement';
+import type { ContractorDocument, ContractorKind } from '@/lib/types/contractor';
+
+// Collections holding daily activities: mongoose DailyProgress and /api/daily-reports
+const DAILY_COLLECTIONS = ['dailyprogresses', 'dailyProgress'];
+
+interface ActivityNames {
+  contractor?: string;
+  contractorId?: ObjectId | null;
+  supervisor?: string;
+  supervisorId?: ObjectId | null;
+}
+
+interface ProjectRecord {
+  _id: ObjectId;
+  title: string;
+  siteSchedule?: { phases?: Array<{ activities?: ActivityNames[] }> };
+}
+
+interface DailyRecord {
+  _id: ObjectId;
+  activities?: ActivityNames[];
+}
+
+interface SupplyRecord {
+  _id: ObjectId;
+  supplier?: string;
+  supplierId?: ObjectId;
+}
+
+type DirectoryRecord = DirectoryEntry & { kind: ContractorKind };
+
+function countName(counts: Map<string, number>, name: unknown) {
+  if (typeof name !== 'string') return;
+  const tidy = tidyContractorName(name);
+  if (!normalizeContractorName(tidy)) return;
+  counts.set(tidy, (counts.get(tidy) || 0) + 1);
+}
+
+const sameId = (a?: ObjectId | null, b?: ObjectId | null) => (a ? !!b && a.equals(b) : !b);
+
+// The $set for one activity, or null when its names and links are already right
+function activityUpdate(activity: ActivityNames, directory: DirectoryEntry[], path: string) {
+  const links = linkContractorNames(
+    {
+      contractor: activity.contractor || undefined,
+      supervisor: activity.supervisor || undefined
+    },
+    directory
+  );
+  const set: Record<string, unknown> = {};
+  if (links.contractor !== undefined && (links.contractor !== activity.contractor || !sameId(links.contractorId, activity.contractorId))) {
+    set[`${path}.contractor`] = links.contractor;
+    set[`${path}.contractorId`] = links.contractorId;
+  }
+  if (links.supervisor !== undefined && (links.supervisor !== activity.supervisor || !sameId(links.supervisorId, activity.supervisorId))) {
+    set[`${path}.supervisor`] = links.supervisor;
+    set[`${path}.supervisorId`] = links.supervisorId;
+  }
+  return Object.keys(set).length > 0 ? set : null;
+}
+
+/**
+ * Match each name against the directory, most-used first. A match gains the
+ * spelling as an alias; anything else becomes a new entry.
+ */
+async function buildDirectory(
+  db: Db,
+  directory: DirectoryRecord[],
+  counts: Map<string, number>,
+  kind: ContractorKind,
+  dryRun: boolean
+) {
+  let created = 0;
+  let aliased = 0;
+  const names = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).map(([name]) => name);
+
+  for (const name of names) {
+    // Suppliers are matched among suppliers only, as procurement items are linked
+    const candidates = kind === 'supplier' ? directory.filter(entry => entry.kind === 'supplier') : directory;
+    const match = findContractorMatch(name, candidates);
+
+    if (!match) {
+      const now = new Date();
+      const entry: ContractorDocument = {
+        name,
+        kind,
+        rates: [],
+        documents: [],
+        aliases: [],
+        isActive: true,
+        createdAt: now,
+        updatedAt: now
+      };
+      const _id = dryRun
+        ? new ObjectId()
+        : (await db.collection<ContractorDocument>(CONTRACTORS_COLLECTION).insertOne(entry)).insertedId;
+      directory.push({ _id, name, aliases: [], kind });
+      created++;
+      console.log(`➕ ${kind}: ${name} (${counts.get(name)} records)`);
+      continue;
+    }
+
+    const normalized = normalizeContractorName(name);
+    const known = [match.name, ...(match.aliases || [])].some(candidate => normalizeContractorName(candidate) === normalized);
+    if (known) continue;
+
+    match.aliases = [...(match.aliases || []), name];
+    if (!dryRun) {
+      await db.collection<ContractorDocument>(CONTRACTORS_COLLECTION).updateOne(
+        { _id: match._id },
+        { $addToSet: { aliases: name }, $set: { updatedAt: new Date() } }
+      );
+    }
+    aliased++;
+    console.log(`🔗 ${name} → ${match.name}`);
+  }
+
+  return { created, aliased };
+}
+
+async function migrateContractors(dryRun = false) {
+  console.log(`🚀 Starting migration: contractor directory${dryRun ? ' (dry run)' : ''}...`);
+
+  try {
+    const { db } = await connectToDatabase();
+
+    const directory = await db.collection<ContractorDocument>(CONTRACTORS_COLLECTION)
+      .find({}, { projection: { name: 1, aliases: 1, kind: 1 } })
+      .toArray() as DirectoryRecord[];
+    console.log(`📊 ${directory.length} existing directory entries`);
+
+    const projects = await db.collection<ProjectRecord>('projects')
+      .find({ 'siteSchedule.phases.activities.0': { $exists: true } }, { projection: { title: 1, 'siteSchedule.phases.activities': 1 } })
+      .toArray();
+    const dailyLogs = await Promise.all(DAILY_COLLECTIONS.map(collection =>
+      db.collection<DailyRecord>(collection)
+        .find({ 'activities.0': { $exists: true } }, { projection: { activities: 1 } })
+        .toArray()
+    ));
+    const supplies = await db.collection<SupplyRecord>(PROCUREMENT_COLLECTION)
+      .find({ supplier: { $exists: true } }, { projection: { supplier: 1, supplierId: 1 } })
+      .toArray();
+
+    const contractorCounts = new Map<string, number>();
+    projects.forEach(project => project.siteSchedule?.phases?.forEach(phase =>
+      phase.activities?.forEach(activity => countName(contractorCounts, activity.contractor))
+    ));
+    dailyLogs.flat().forEach(log => log.activities?.forEach(activity => countName(contractorCounts, activity.contractor)));
+
+    const supplierCounts = new Map<string, number>();
+    supplies.forEach(item => countName(supplierCounts, item.supplier));
+
+    console.log(`📊 ${contractorCounts.size} contractor names, ${supplierCounts.size} supplier names in use`);
+
+    const contractors = await buildDirectory(db, directory, contractorCounts, 'contractor', dryRun);
+    const suppliers = await buildDirectory(db, directory, supplierCounts, 'supplier', dryRun);
+
+    // Link the records
+    let projectCount = 0;
+    const projectWrites = projects.flatMap(project => {
+      const set: Record<string, unknown> = {};
+      project.siteSchedule?.phases?.forEach((phase, phaseIndex) => phase.activities?.forEach((activity, activityIndex) => {
+        Object.assign(set, activityUpdate(activity, directory, `siteSchedule.phases.${phaseIndex}.activities.${activityIndex}`));
+      }));
+      if (Object.keys(set).length === 0) return [];
+      projectCount++;
+      return [{ updateOne: { filter: { _id: project._id }, update: { $set: set } } }];
+    });
+
+    const dailyWrites = dailyLogs.map(logs => logs.flatMap(log => {
+      const set: Record<string, unknown> = {};
+      log.activities?.forEach((activity, index) => Object.assign(set, activityUpdate(activity, directory, `activities.${index}`)));
+      return Object.keys(set).length > 0 ? [{ updateOne: { filter: { _id: log._id }, update: { $set: set } } }] : [];
+    }));
+
+    const supplierDirectory = directory.filter(entry => entry.kind === 'supplier');
+    const supplyWrites = supplies.flatMap(item => {
+      if (!item.supplier) return [];
+      const { name, id } = linkDirectoryName(item.supplier, supplierDirectory);
+      if (name === item.supplier && sameId(id, item.supplierId)) return [];
+      return [{
+        updateOne: {
+          filter: { _id: item._id },
+          update: id ? { $set: { supplier: name, supplierId: id } } : { $set: { supplier: name }, $unset: { supplierId: '' as const } }
+        }
+      }];
+    });
+
+    if (!dryRun) {
+      if (projectWrites.length > 0) await db.collection('projects').bulkWrite(projectWrites);
+      for (const [index, writes] of dailyWrites.entries()) {
+        if (writes.length > 0) await db.collection(DAILY_COLLECTIONS[index]).bulkWrite(writes);
+      }
+      if (supplyWrites.length > 0) await db.collection(PROCUREMENT_COLLECTION).bulkWrite(supplyWrites);
+    }
+
+    console.log(`\n📈 Migration Summary${dryRun ? ' (dry run, nothing written)' : ''}:`);
+    console.log(`   ➕ Directory entries created: ${contractors.created + suppliers.created}`);
+    console.log(`   🔗 Spellings added as aliases: ${contractors.aliased + suppliers.aliased}`);
+    console.log(`   🏗️  Projects relinked: ${projectCount}`);
+    DAILY_COLLECTIONS.forEach((collection, index) => {
+      console.log(`   📅 ${collection} documents relinked: ${dailyWrites[index].length}`);
+    });
+    console.log(`   📦 Procurement items relinked: ${supplyWrites.length}`);
+
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+// Run migration if executed directly
+if (require.main === module) {
+  migrateContractors(process.argv.includes('--dry-run'))
+    .then(() => {
+      console.log('\n✅ Migration script completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\n❌ Migration script failed:', error);
+      process.exit(1);
+    });
+}
+
+export { migrateContractors };
@@ -0,0 +1,54 @@
+// FILE: scripts/migrateSearchIndexes.ts
+// Migration script to set up the text indexes global search uses.
+//
+// MongoDB allows one text index per collection, so an older one (such as the
+// title/description index projects used to have) stops createIndexes from
+// adding the search index. This drops any text index that isn't the search
+// index and then creates all indexes. Run it once per database, not from
+// request handlers.
+//
+// Usage: npm run migrate:search
+
+import { connectToDatabase, createIndexes, SEARCH_TEXT_INDEX } from '@/lib/db';
+
+const SEARCH_COLLECTIONS = ['projects', 'dailyprogresses', 'messages', 'files', 'incidents', 'risks'];
+
+async function migrateSearchIndexes() {
+  console.log('🚀 Starting migration: search text indexes...');
+
+  try {
+    const { db } = await connectToDatabase();
+    const existing = new Set((await db.listCollections({}, { nameOnly: true }).toArray()).map(c => c.name));
+
+    for (const name of SEARCH_COLLECTIONS) {
+      if (!existing.has(name)) continue;
+      const indexes = await db.collection(name).indexes();
+      for (const index of indexes) {
+        if (index.name === SEARCH_TEXT_INDEX.name || !Object.values(index.key).includes('text')) continue;
+        await db.collection(name).dropIndex(index.name!);
+        console.log(`🗑️  ${name}: dropped old text index ${index.name}`);
+      }
+    }
+
+    await createIndexes();
+
+  } catch (error) {
+    console.error('❌ Migration failed:', error);
+    throw error;
+  }
+}
+
+// Run migration if executed directly
+if (require.main === module) {
+  migrateSearchIndexes()
+    .then(() => {
+      console.log('\n✅ Migration script completed');
+      process.exit(0);
+    })
+    .catch((error) => {
+      console.error('\n❌ Migration script failed:', error);
+      process.exit(1);
+    });
+}
+
+export { migrateSearchIndexes };
@@ -173,7 +173,18 @@ async function seedDatabase() {
             { key: { startDate: 1 } },
             { key: { endDate: 1 } },
             { key: { createdAt: -1 } },
-            { key: { title: 'text', description: 'text' } },
+            {
+              key: {
+                title: 'text',
+                description: 'text',
+                siteAddress: 'text',
+                'siteSchedule.phases.activities.title': 'text',
+                'siteSchedule.phases.activities.notes': 'text',
+                'siteSchedule.phases.activities.comments.content': 'text',
+              },
+              name: 'search_text',
+              default_language: 'english',
+            },
           ]);
           break;
           
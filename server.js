@@ -3,11 +3,20 @@ const { createServer } = require('http');
 const { parse } = require('url');
 const next = require('next');
 const { Server } = require('socket.io');
+const crypto = require('crypto');
 
 const dev = process.env.NODE_ENV !== 'production';
 const hostname = 'localhost';
 const port = process.env.PORT || 3000;
 
+// Scheduled jobs (digests, reminders, cleanup) run inside the app; this server
+// only triggers them, authenticated by a secret it shares with the app
+const JOBS_ENABLED = process.env.DISABLE_SCHEDULED_JOBS !== 'true';
+const JOB_TICK_INTERVAL_MS = 60 * 1000;
+if (!process.env.JOBS_SECRET) {
+  process.env.JOBS_SECRET = crypto.randomBytes(32).toString('hex');
+}
+
 // Initialize Next.js app
 const app = next({ dev, hostname, port });
 const handle = app.getRequestHandler();
@@ -35,6 +44,9 @@ app.prepare().then(() => {
     allowEIO3: true
   });
 
+  // API routes run in this process and emit through it (src/lib/realtime.ts)
+  global.io = io;
+
   // Store active users and their socket connections
   const activeUsers = new Map();
   const projectRooms = new Map();
@@ -116,22 +128,28 @@ app.prepare().then(() => {
       });
     });
 
-    // Handle typing indicators
-    socket.on('typing', (data) => {
-      socket.to(`project_${data.projectId}`).emit('user_typing', {
-        userId,
-        projectId: data.projectId,
-        isTyping: true
-      });
-    });
+    // Handle typing indicators. Project channels pass a projectId and reach
+    // the project's room; direct conversations pass the recipientId instead.
+    const relayTyping = (data, isTyping) => {
+      if (data.recipientId) {
+        socket.to(`user_${data.recipientId}`).emit('user_typing', {
+          userId,
+          recipientId: data.recipientId,
+          isTyping
+        });
+        return;
+      }
 
-    socket.on('stop_typing', (data) => {
       socket.to(`project_${data.projectId}`).emit('user_typing', {
         userId,
         projectId: data.projectId,
-        isTyping: false
+        isTyping
       });
-    });
+    };
+
+    socket.on('typing', (data) => relayTyping(data, true));
+
+    socket.on('stop_typing', (data) => relayTyping(data, false));
 
     // Handle real-time messages
     socket.on('send_message', (data) => {
@@ -283,6 +301,27 @@ app.prepare().then(() => {
     });
   }, 5 * 60 * 1000);
 
+  // Ask the app to run whichever scheduled jobs are due. Jobs are locked in
+  // the database, so every instance can tick without double-sending.
+  let jobTickRunning = false;
+  const runScheduledJobs = async () => {
+    if (jobTickRunning) return;
+    jobTickRunning = true;
+    try {
+      const response = await fetch(`http://127.0.0.1:${port}/api/jobs/run`, {
+        method: 'POST',
+        headers: { 'x-jobs-secret': process.env.JOBS_SECRET }
+      });
+      if (!response.ok) {
+        console.error('Scheduled jobs tick failed with status', response.status);
+      }
+    } catch (err) {
+      console.error('Error triggering scheduled jobs:', err);
+    } finally {
+      jobTickRunning = false;
+    }
+  };
+
   httpServer
     .once('error', (err) => {
       console.error(err);
@@ -291,5 +330,10 @@ app.prepare().then(() => {
     .listen(port, () => {
       console.log(`🚀 Server ready on http://${hostname}:${port}`);
       console.log(`📡 Socket.IO server initialized`);
+
+      if (JOBS_ENABLED) {
+        setInterval(runScheduledJobs, JOB_TICK_INTERVAL_MS);
+        console.log(`⏰ Scheduled jobs enabled`);
+      }
     });
 });
\ No newline at end of file
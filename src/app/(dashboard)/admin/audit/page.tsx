@@ -0,0 +1,28 @@
+// src/app/(dashboard)/admin/audit/page.tsx - ADMIN AUDIT TRAIL PAGE
+import { auth } from '@/lib/auth';
+import AuditLogViewer from '@/components/audit/AuditLogViewer';
+
+export default async function AdminAuditPage() {
+  const session = await auth();
+
+  if (!session?.user?.id || session.user.role !== 'super_admin') {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
+          <p className="text-gray-600">You don&apos;t have permission to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+        <p className="text-gray-600">Who changed what across projects, schedules, reports and users</p>
+      </div>
+      <AuditLogViewer />
+    </div>
+  );
+}
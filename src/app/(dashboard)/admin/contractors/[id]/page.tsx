@@ -0,0 +1,28 @@
+// src/app/(dashboard)/admin/contractors/[id]/page.tsx - ADMIN CONTRACTOR PROFILE PAGE
+import { auth } from '@/lib/auth';
+import ContractorProfile from '@/components/contractors/ContractorProfile';
+
+interface ContractorPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function AdminContractorPage({ params }: ContractorPageProps) {
+  const session = await auth();
+
+  if (!session?.user?.id || session.user.role !== 'super_admin') {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
+          <p className="text-gray-600">You don&apos;t have permission to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const { id } = await params;
+
+  return <ContractorProfile contractorId={id} roleBase="/admin" canDelete />;
+}
@@ -27,6 +27,15 @@ import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import DailyReportUpload from '@/components/reports/DailyReportUpload';
+import DailyReportReviewDialog from '@/components/reports/DailyReportReviewDialog';
+import DailyReportReviewQueue from '@/components/reports/DailyReportReviewQueue';
+import DailyReportStatusBadge from '@/components/reports/DailyReportStatusBadge';
+import {
+  DailyReportReviewComment,
+  DailyReportStatus,
+  DAILY_REPORT_STATUSES,
+  DAILY_REPORT_STATUS_LABELS
+} from '@/lib/types/daily-report';
 
 interface Project {
   _id: string;
@@ -83,7 +92,9 @@ interface DailyReport {
   createdBy: string;
   createdAt: string;
   updatedAt: string;
+  status: DailyReportStatus;
   approved: boolean;
+  reviewComments: DailyReportReviewComment[];
 }
 
 interface DashboardStats {
@@ -106,12 +117,6 @@ const getStatusColor = (status: string) => {
   }
 };
 
-const getApprovalColor = (approved: boolean) => {
-  return approved 
-    ? 'bg-green-100 text-green-800' 
-    : 'bg-yellow-100 text-yellow-800';
-};
-
 export default function AdminDailyProgressPage() {
   const { data: session } = useSession();
   const { toast } = useToast();
@@ -135,6 +140,8 @@ export default function AdminDailyProgressPage() {
   const [approvalFilter, setApprovalFilter] = useState<string>('all');
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedProjectForUpload, setSelectedProjectForUpload] = useState<string>('');
+  const [reviewing, setReviewing] = useState<DailyReport | null>(null);
+  const [queueKey, setQueueKey] = useState(0);
 
   const calculateStats = useCallback(() => {
     try {
@@ -143,8 +150,8 @@ export default function AdminDailyProgressPage() {
       const totalProjects = projects.length;
       const activeProjects = projects.filter(p => p.status === 'in_progress').length;
       const totalReports = reports.length;
-      const approvedReports = reports.filter(r => r.approved).length;
-      const pendingReports = reports.filter(r => !r.approved).length;
+      const approvedReports = reports.filter(r => r.status === 'approved').length;
+      const pendingReports = reports.filter(r => r.status === 'submitted').length;
       const todaysReports = reports.filter(r => r.date.startsWith(today)).length;
       
       const averageCompletion = reports.length > 0 
@@ -252,38 +259,6 @@ export default function AdminDailyProgressPage() {
     }
   }, [projects, reports, calculateStats]);
 
-  const handleApproveReport = async (reportId: string) => {
-    try {
-      const response = await fetch('/api/daily-reports', {
-        method: 'PUT',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          reportId,
-          approved: true
-        })
-      });
-
-      if (response.ok) {
-        toast({
-          title: "Success",
-          description: "Report approved successfully"
-        });
-        fetchReports();
-      } else {
-        throw new Error('Failed to approve report');
-      }
-    } catch (error) {
-      console.error('Error approving report:', error);
-      toast({
-        variant: "destructive",
-        title: "Error",
-        description: "Failed to approve report"
-      });
-    }
-  };
-
   const handleUploadSuccess = () => {
     setShowUploadForm(false);
     setSelectedProjectForUpload('');
@@ -300,9 +275,7 @@ export default function AdminDailyProgressPage() {
                          report.notes?.toLowerCase().includes(searchTerm.toLowerCase()) ||
                          report.createdBy.toLowerCase().includes(searchTerm.toLowerCase());
     
-    const matchesApproval = approvalFilter === 'all' || 
-                           (approvalFilter === 'approved' && report.approved) ||
-                           (approvalFilter === 'pending' && !report.approved);
+    const matchesApproval = approvalFilter === 'all' || report.status === approvalFilter;
 
     return matchesSearch && matchesApproval;
   });
@@ -557,8 +530,9 @@ export default function AdminDailyProgressPage() {
               </SelectTrigger>
               <SelectContent>
                 <SelectItem value="all">All Reports</SelectItem>
-                <SelectItem value="approved">Approved</SelectItem>
-                <SelectItem value="pending">Pending Review</SelectItem>
+                {DAILY_REPORT_STATUSES.map(status => (
+                  <SelectItem key={status} value={status}>{DAILY_REPORT_STATUS_LABELS[status]}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -693,6 +667,8 @@ export default function AdminDailyProgressPage() {
         </CardContent>
       </Card>
 
+      <DailyReportReviewQueue key={queueKey} onChange={fetchReports} />
+
       {/* Recent Reports */}
       <Card>
         <CardHeader>
@@ -720,9 +696,7 @@ export default function AdminDailyProgressPage() {
                         <h3 className="font-semibold text-gray-900">
                           {formatDate(report.date)}
                         </h3>
-                        <Badge className={getApprovalColor(report.approved)}>
-                          {report.approved ? 'Approved' : 'Pending Review'}
-                        </Badge>
+                        <DailyReportStatusBadge status={report.status} />
                       </div>
                       
                       <div className="space-y-1 text-sm text-gray-600">
@@ -732,18 +706,18 @@ export default function AdminDailyProgressPage() {
                     </div>
                     
                     <div className="flex items-center gap-2">
-                      {!report.approved && (
+                      {report.status === 'submitted' && (
                         <Button 
                           variant="outline" 
                           size="sm"
-                          onClick={() => handleApproveReport(report._id)}
+                          onClick={() => setReviewing(report)}
                           className="text-green-600 border-green-600 hover:bg-green-50"
                         >
                           <CheckCircle className="h-4 w-4 mr-2" />
-                          Approve
+                          Review
                         </Button>
                       )}
-                      <Button variant="outline" size="sm">
+                      <Button variant="outline" size="sm" onClick={() => setReviewing(report)}>
                         <Eye className="h-4 w-4 mr-2" />
                         View
                       </Button>
@@ -816,6 +790,16 @@ export default function AdminDailyProgressPage() {
           )}
         </CardContent>
       </Card>
+
+      <DailyReportReviewDialog
+        report={reviewing}
+        canReview
+        onOpenChange={(open) => { if (!open) setReviewing(null); }}
+        onReviewed={() => {
+          fetchReports();
+          setQueueKey(key => key + 1);
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
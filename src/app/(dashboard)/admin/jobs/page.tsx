@@ -0,0 +1,28 @@
+// src/app/(dashboard)/admin/jobs/page.tsx - ADMIN SCHEDULED JOBS PAGE
+import { auth } from '@/lib/auth';
+import ScheduledJobsViewer from '@/components/jobs/ScheduledJobsViewer';
+
+export default async function AdminJobsPage() {
+  const session = await auth();
+
+  if (!session?.user?.id || session.user.role !== 'super_admin') {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
+          <p className="text-gray-600">You don&apos;t have permission to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Scheduled Jobs</h1>
+        <p className="text-gray-600">Reminders, digests and cleanup that run in the background, and how each run went</p>
+      </div>
+      <ScheduledJobsViewer />
+    </div>
+  );
+}
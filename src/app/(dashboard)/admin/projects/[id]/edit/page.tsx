@@ -286,13 +286,14 @@ export default function ProjectEditPage() {
         
         router.push(`/admin/projects/${projectId}`);
       } else {
-        throw new Error('Failed to update project');
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to update project. Please try again.');
       }
     } catch (error) {
       console.error('Error updating project:', error);
       toast({
         title: "Error",
-        description: "Failed to update project. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to update project. Please try again.",
         variant: "destructive",
       });
     } finally {
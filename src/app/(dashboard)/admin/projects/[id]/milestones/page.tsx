@@ -27,6 +27,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { useToast } from '@/hooks/use-toast';
+import { toWorkingCalendar, workingDaysUntil, type WorkingCalendar } from '@/lib/working-calendar';
 import {
   Dialog,
   DialogContent,
@@ -121,6 +122,7 @@ export default function MilestonesPage() {
     dependencies: []
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
+  const [calendar, setCalendar] = useState<WorkingCalendar | null>(null);
 
   // Fetch milestones data
   const fetchMilestones = useCallback(async () => {
@@ -166,12 +168,28 @@ export default function MilestonesPage() {
     }
   }, []);
 
+  // Fetch the project's working calendar so due dates count working days
+  const fetchCalendar = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/calendar`);
+      if (response.ok) {
+        const result = await response.json();
+        if (result.success) {
+          setCalendar(toWorkingCalendar(result.data));
+        }
+      }
+    } catch (error) {
+      console.error('Error fetching project calendar:', error);
+    }
+  }, [projectId]);
+
   useEffect(() => {
     if (projectId && session?.user) {
       fetchMilestones();
       fetchUsers();
+      fetchCalendar();
     }
-  }, [projectId, session, fetchMilestones, fetchUsers]);
+  }, [projectId, session, fetchMilestones, fetchUsers, fetchCalendar]);
 
   // Handle form input changes
   const handleFormChange = (field: keyof CreateMilestoneForm, value: string) => {
@@ -321,17 +339,23 @@ export default function MilestonesPage() {
     });
   };
 
-  // Calculate days until due
+  // Calculate days until due (working days once the project calendar has loaded)
   const getDaysUntilDue = (dueDate: string) => {
     const due = new Date(dueDate);
     const today = new Date();
     const diffTime = due.getTime() - today.getTime();
     const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24));
     
-    if (diffDays < 0) return `${Math.abs(diffDays)} days overdue`;
     if (diffDays === 0) return 'Due today';
     if (diffDays === 1) return 'Due tomorrow';
-    return `${diffDays} days left`;
+    if (!calendar) {
+      return diffDays < 0 ? `${Math.abs(diffDays)} days overdue` : `${diffDays} days left`;
+    }
+
+    const workingDays = workingDaysUntil(due, calendar, today);
+    return workingDays < 0
+      ? `${Math.abs(workingDays)} working days overdue`
+      : `${workingDays} working days left`;
   };
 
   const canCreateMilestones = ['super_admin', 'project_manager'].includes(userRole || '');
@@ -0,0 +1,6 @@
+// src/app/(dashboard)/admin/projects/[id]/snags/page.tsx
+import SnagListPage from '@/components/snags/SnagListPage';
+
+export default function AdminProjectSnagsPage() {
+  return <SnagListPage basePath="/admin" />;
+}
@@ -1,7 +1,8 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, Suspense } from 'react';
 import { useSession } from 'next-auth/react';
+import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import Image from 'next/image';
 import { 
@@ -38,6 +39,7 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
+import ContractorDatalist, { CONTRACTOR_DATALIST_ID } from '@/components/contractors/ContractorDatalist';
 import ActivityModal from '@/components/ActivityModal'; // Updated import
 
 // TypeScript interfaces (unchanged)
@@ -114,14 +116,17 @@ const formatDateTimeForDisplay = (dateString: string): string => {
   }
 };
 
-export default function AdminDailySchedulePage() {
+function AdminDailySchedulePageContent() {
   const { data: session } = useSession();
   const { toast } = useToast();
+  const searchParams = useSearchParams();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const linkedActivityId = searchParams.get('activity');
+  const openedActivityLink = useRef<string | null>(null);
 
   const [projects, setProjects] = useState<Project[]>([]);
-  const [selectedProject, setSelectedProject] = useState<string>('');
-  const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [selectedProject, setSelectedProject] = useState<string>(() => searchParams.get('projectId') || '');
+  const [selectedDate, setSelectedDate] = useState<string>(() => searchParams.get('date') || new Date().toISOString().split('T')[0]);
   const [dailyProgress, setDailyProgress] = useState<DailyProgress | null>(null);
   const [loading, setLoading] = useState(false);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -204,6 +209,16 @@ export default function AdminDailySchedulePage() {
     }
   }, [selectedProject, selectedDate, fetchDailyProgress]);
 
+  // Deep link from global search: ?activity=<id> opens that day's activity
+  useEffect(() => {
+    if (!linkedActivityId || openedActivityLink.current === linkedActivityId || !dailyProgress) return;
+    const activity = dailyProgress.activities.find(a => a._id === linkedActivityId);
+    if (!activity) return;
+    openedActivityLink.current = linkedActivityId;
+    setSelectedActivity(activity);
+    setIsActivityModalOpen(true);
+  }, [linkedActivityId, dailyProgress]);
+
   // Image handlers for add (unchanged)
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
@@ -579,10 +594,12 @@ export default function AdminDailySchedulePage() {
                 />
               </div>
 
+              <ContractorDatalist />
               <div className="space-y-2">
                 <Label htmlFor="contractor">Contractor *</Label>
                 <Input
                   id="contractor"
+                  list={CONTRACTOR_DATALIST_ID}
                   value={newActivity.contractor || ''}
                   onChange={(e) => setNewActivity({ ...newActivity, contractor: e.target.value })}
                   placeholder="Contractor name"
@@ -593,6 +610,7 @@ export default function AdminDailySchedulePage() {
                 <Label htmlFor="supervisor">Supervisor</Label>
                 <Input
                   id="supervisor"
+                  list={CONTRACTOR_DATALIST_ID}
                   value={newActivity.supervisor || ''}
                   onChange={(e) => setNewActivity({ ...newActivity, supervisor: e.target.value })}
                   placeholder="Supervisor name"
@@ -768,4 +786,12 @@ export default function AdminDailySchedulePage() {
       />
     </div>
   );
-}
\ No newline at end of file
+}
+
+export default function AdminDailySchedulePage() {
+  return (
+    <Suspense fallback={<div className="p-6 text-sm text-gray-500">Loading...</div>}>
+      <AdminDailySchedulePageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,41 @@
+// src/app/(dashboard)/admin/site-schedule/import/page.tsx - SITE PROGRESS REPORT IMPORT
+import Link from 'next/link';
+import { ArrowLeft } from 'lucide-react';
+import { auth } from '@/lib/auth';
+import { Button } from '@/components/ui/button';
+import SiteReportImport from '@/components/reports/SiteReportImport';
+
+export default async function AdminSiteReportImportPage() {
+  const session = await auth();
+
+  if (!session?.user?.id || session.user.role !== 'super_admin') {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
+          <p className="text-gray-600">You don&apos;t have permission to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex items-center gap-3">
+        <Link href="/admin/site-schedule">
+          <Button variant="ghost" size="sm">
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+        </Link>
+        <div>
+          <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Import Site Report</h1>
+          <p className="text-sm sm:text-base text-gray-600 mt-1">
+            Load a legacy Site Progress Report spreadsheet into a project&apos;s schedule and daily reports
+          </p>
+        </div>
+      </div>
+
+      <SiteReportImport />
+    </div>
+  );
+}
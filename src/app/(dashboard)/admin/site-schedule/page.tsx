@@ -13,7 +13,8 @@ import {
   ChevronDown,
   ChevronUp,
   LayoutList,
-  Layers
+  Layers,
+  Upload
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -211,12 +212,20 @@ export default function AdminSiteSchedulePage() {
           <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Site Schedule</h1>
           <p className="text-sm sm:text-base text-gray-600 mt-1">Track progress across construction phases</p>
         </div>
-        <Link href="/admin/site-schedule/daily" className="w-full sm:w-auto">
-          <Button variant="outline" className="w-full sm:w-auto">
-            <Calendar className="h-4 w-4 mr-2" />
-            Daily View
-          </Button>
-        </Link>
+        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+          <Link href="/admin/site-schedule/import" className="w-full sm:w-auto">
+            <Button variant="outline" className="w-full sm:w-auto">
+              <Upload className="h-4 w-4 mr-2" />
+              Import Report
+            </Button>
+          </Link>
+          <Link href="/admin/site-schedule/daily" className="w-full sm:w-auto">
+            <Button variant="outline" className="w-full sm:w-auto">
+              <Calendar className="h-4 w-4 mr-2" />
+              Daily View
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Stats */}
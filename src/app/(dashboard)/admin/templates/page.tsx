@@ -0,0 +1,20 @@
+// src/app/(dashboard)/admin/templates/page.tsx - ADMIN PROJECT TEMPLATES PAGE
+import { auth } from '@/lib/auth';
+import ProjectTemplatesManager from '@/components/projects/ProjectTemplatesManager';
+
+export default async function AdminTemplatesPage() {
+  const session = await auth();
+
+  if (!session?.user?.id || session.user.role !== 'super_admin') {
+    return (
+      <div className="flex items-center justify-center min-h-96">
+        <div className="text-center">
+          <h2 className="text-2xl font-bold text-gray-900 mb-2">Access Denied</h2>
+          <p className="text-gray-600">You don&apos;t have permission to access this page.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return <ProjectTemplatesManager />;
+}
@@ -14,13 +14,15 @@ import {
   Bell,
   Eye,
   AlertCircle,
-  CheckCircle
+  CheckCircle,
+  FileText
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import MeetingMinutesDialog from '@/components/calendar/MeetingMinutesDialog';
 import Link from 'next/link';
 
 interface CalendarEvent {
@@ -29,22 +31,57 @@ interface CalendarEvent {
   description?: string;
   startDate: string;
   endDate: string;
-  type: 'meeting' | 'deadline' | 'inspection' | 'delivery' | 'milestone';
+  type: 'meeting' | 'deadline' | 'inspection' | 'delivery' | 'milestone' | 'reminder' | 'event';
   projectId?: string;
   projectTitle?: string;
   location?: string;
   attendees?: string[];
   isAllDay: boolean;
   status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
-  isClientVisible: boolean;
+  hasMinutes?: boolean;
 }
 
+// An event as /api/calendar returns it, already limited to what the client may see
+interface CalendarApiEvent {
+  _id: string;
+  title: string;
+  description?: string;
+  startDate: string;
+  endDate: string;
+  allDay: boolean;
+  type: CalendarEvent['type'];
+  projectId?: string;
+  project?: { title: string } | null;
+  location?: string;
+  attendees?: string[];
+  status: CalendarEvent['status'];
+  hasMinutes?: boolean;
+}
+
+const toCalendarEvent = (event: CalendarApiEvent): CalendarEvent => ({
+  _id: event._id,
+  title: event.title,
+  description: event.description,
+  startDate: event.startDate,
+  endDate: event.endDate,
+  type: event.type,
+  projectId: event.projectId,
+  projectTitle: event.project?.title,
+  location: event.location,
+  attendees: event.attendees,
+  isAllDay: event.allDay,
+  status: event.status,
+  hasMinutes: event.hasMinutes
+});
+
 const eventTypeColors = {
   meeting: 'bg-blue-100 text-blue-800 border-blue-200',
   deadline: 'bg-red-100 text-red-800 border-red-200',
   inspection: 'bg-purple-100 text-purple-800 border-purple-200',
   delivery: 'bg-green-100 text-green-800 border-green-200',
   milestone: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  reminder: 'bg-gray-100 text-gray-800 border-gray-200',
+  event: 'bg-indigo-100 text-indigo-800 border-indigo-200',
 };
 
 const eventTypeLabels = {
@@ -53,6 +90,8 @@ const eventTypeLabels = {
   inspection: 'Site Visit',
   delivery: 'Delivery',
   milestone: 'Milestone',
+  reminder: 'Reminder',
+  event: 'Event',
 };
 
 const monthNames = [
@@ -70,6 +109,7 @@ export default function ClientCalendarPage() {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [filterType, setFilterType] = useState<string>('all');
+  const [minutesEventId, setMinutesEventId] = useState<string | null>(null);
   // Removed unused 'projects' state variable
 
   const fetchEvents = useCallback(async () => {
@@ -79,12 +119,12 @@ export default function ClientCalendarPage() {
       const endDate = getMonthEndDate();
       
       const response = await fetch(
-        `/api/calendar/events?start=${startDate.toISOString()}&end=${endDate.toISOString()}&client=true`
+        `/api/calendar?startDate=${startDate.toISOString()}&endDate=${endDate.toISOString()}`
       );
       
       if (response.ok) {
         const data = await response.json();
-        setEvents(data.data || []);
+        setEvents((data.data?.events || []).map(toCalendarEvent));
       }
     } catch (error) {
       console.error('Error fetching events:', error);
@@ -148,10 +188,11 @@ export default function ClientCalendarPage() {
     });
   };
 
-  const filteredEvents = events.filter(event => {
-    const typeMatch = filterType === 'all' || event.type === filterType;
-    return typeMatch && event.isClientVisible;
-  });
+  const filteredEvents = events.filter(event => filterType === 'all' || event.type === filterType);
+
+  const minutesEvents = filteredEvents
+    .filter(event => event.hasMinutes)
+    .sort((a, b) => new Date(b.startDate).getTime() - new Date(a.startDate).getTime());
 
   const upcomingEvents = filteredEvents
     .filter(event => new Date(event.startDate) >= new Date())
@@ -382,6 +423,30 @@ export default function ClientCalendarPage() {
             </CardContent>
           </Card>
 
+          {minutesEvents.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg">Meeting Minutes</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {minutesEvents.map(event => (
+                  <button
+                    key={event._id}
+                    type="button"
+                    onClick={() => setMinutesEventId(event._id)}
+                    className="w-full flex items-center gap-2 p-2 text-left border border-gray-200 rounded-lg hover:border-gray-300 transition-colors"
+                  >
+                    <FileText className="h-4 w-4 text-blue-600 flex-shrink-0" />
+                    <span className="min-w-0">
+                      <span className="block text-sm font-medium text-gray-900 truncate">{event.title}</span>
+                      <span className="block text-xs text-gray-500">{new Date(event.startDate).toLocaleDateString()}</span>
+                    </span>
+                  </button>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
           {/* Legend */}
           <Card>
             <CardHeader>
@@ -474,6 +539,20 @@ export default function ClientCalendarPage() {
                         </div>
                       )}
                     </div>
+                    {event.hasMinutes && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        className="mt-2"
+                        onClick={() => {
+                          setSelectedDate(null);
+                          setMinutesEventId(event._id);
+                        }}
+                      >
+                        <FileText className="h-4 w-4 mr-2" />
+                        View Minutes
+                      </Button>
+                    )}
                   </div>
                 ))}
               </div>
@@ -490,6 +569,12 @@ export default function ClientCalendarPage() {
         />
       )}
 
+      <MeetingMinutesDialog
+        eventId={minutesEventId}
+        open={!!minutesEventId}
+        onOpenChange={(open) => !open && setMinutesEventId(null)}
+      />
+
       {/* Info Section */}
       <Card>
         <CardContent className="pt-6">
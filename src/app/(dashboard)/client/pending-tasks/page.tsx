@@ -23,6 +23,7 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import PendingChangeOrders from '@/components/change-orders/PendingChangeOrders';
 
 interface PendingTask {
   _id: string;
@@ -265,6 +266,9 @@ export default function ClientPendingTasksPage() {
         </div>
       )}
 
+      {/* Change orders need the client's sign-off before work changes */}
+      <PendingChangeOrders signerName={session?.user?.name || undefined} />
+
       {/* Search and Filters */}
       <Card>
         <CardHeader>
@@ -0,0 +1,6 @@
+// src/app/(dashboard)/client/projects/[id]/snags/page.tsx
+import SnagListPage from '@/components/snags/SnagListPage';
+
+export default function ClientProjectSnagsPage() {
+  return <SnagListPage basePath="/client" />;
+}
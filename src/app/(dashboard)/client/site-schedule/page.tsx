@@ -1,7 +1,8 @@
 "use client";
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef, Suspense } from 'react';
 import { useSession } from 'next-auth/react';
+import { useSearchParams } from 'next/navigation';
 import {
   Calendar,
   Clock,
@@ -86,9 +87,12 @@ const PHASE_PROGRESS_BAR: Record<ActivityPhase, string> = {
   post_handover: 'bg-rose-500',
 };
 
-export default function ClientSiteSchedulePage() {
+function ClientSiteSchedulePageContent() {
   const { data: session } = useSession();
   const { toast } = useToast();
+  const searchParams = useSearchParams();
+  const linkedActivityId = searchParams.get('activity');
+  const openedActivityLink = useRef<string | null>(null);
 
   const [activities, setActivities] = useState<DailyActivity[]>([]);
   const [loading, setLoading] = useState(true);
@@ -120,6 +124,16 @@ export default function ClientSiteSchedulePage() {
     if (session) fetchActivities();
   }, [session, fetchActivities]);
 
+  // Deep link from global search: ?activity=<id> opens that activity
+  useEffect(() => {
+    if (!linkedActivityId || openedActivityLink.current === linkedActivityId) return;
+    const activity = activities.find(a => a._id === linkedActivityId);
+    if (!activity) return;
+    openedActivityLink.current = linkedActivityId;
+    setSelectedActivity(activity);
+    setIsActivityModalOpen(true);
+  }, [linkedActivityId, activities]);
+
   const handleSuccess = useCallback(() => {
     fetchActivities();
   }, [fetchActivities]);
@@ -341,3 +355,11 @@ export default function ClientSiteSchedulePage() {
     </div>
   );
 }
+
+export default function ClientSiteSchedulePage() {
+  return (
+    <Suspense fallback={<div className="p-6 text-sm text-gray-500">Loading...</div>}>
+      <ClientSiteSchedulePageContent />
+    </Suspense>
+  );
+}
@@ -360,7 +360,7 @@ export default function ManagerAnalyticsPage() {
                         </span>
                         {project.daysRemaining > 0 && (
                           <span className="text-xs text-gray-500">
-                            {project.daysRemaining} days left
+                            {project.daysRemaining} working days left
                           </span>
                         )}
                       </div>
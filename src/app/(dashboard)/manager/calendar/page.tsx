@@ -10,13 +10,15 @@ import {
   Plus,
   MapPin,
   Download,
-  Eye
+  Eye,
+  FileText
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import MeetingMinutesDialog from '@/components/calendar/MeetingMinutesDialog';
 
 interface CalendarEvent {
   _id: string;
@@ -24,21 +26,60 @@ interface CalendarEvent {
   description?: string;
   startDate: string;
   endDate: string;
-  type: 'meeting' | 'deadline' | 'inspection' | 'delivery' | 'milestone';
+  type: 'meeting' | 'deadline' | 'inspection' | 'delivery' | 'milestone' | 'reminder' | 'event';
   projectId?: string;
   projectTitle?: string;
   location?: string;
   attendees?: string[];
   isAllDay: boolean;
   status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+  hasMinutes?: boolean;
+  isAutomatic?: boolean; // project and task deadlines, which can't carry minutes
 }
 
+// An event as /api/calendar returns it
+interface CalendarApiEvent {
+  _id: string;
+  title: string;
+  description?: string;
+  startDate: string;
+  endDate: string;
+  allDay: boolean;
+  type: CalendarEvent['type'];
+  projectId?: string;
+  project?: { title: string } | null;
+  location?: string;
+  attendees?: string[];
+  status: CalendarEvent['status'];
+  hasMinutes?: boolean;
+  isAutomatic?: boolean;
+}
+
+const toCalendarEvent = (event: CalendarApiEvent): CalendarEvent => ({
+  _id: event._id,
+  title: event.title,
+  description: event.description,
+  startDate: event.startDate,
+  endDate: event.endDate,
+  type: event.type,
+  projectId: event.projectId,
+  projectTitle: event.project?.title,
+  location: event.location,
+  attendees: event.attendees,
+  isAllDay: event.allDay,
+  status: event.status,
+  hasMinutes: event.hasMinutes,
+  isAutomatic: event.isAutomatic
+});
+
 const eventTypeColors = {
   meeting: 'bg-blue-100 text-blue-800 border-blue-200',
   deadline: 'bg-red-100 text-red-800 border-red-200',
   inspection: 'bg-purple-100 text-purple-800 border-purple-200',
   delivery: 'bg-green-100 text-green-800 border-green-200',
   milestone: 'bg-yellow-100 text-yellow-800 border-yellow-200',
+  reminder: 'bg-gray-100 text-gray-800 border-gray-200',
+  event: 'bg-indigo-100 text-indigo-800 border-indigo-200',
 };
 
 const statusColors = {
@@ -66,6 +107,7 @@ export default function ManagerCalendarPage() {
   const [filterType, setFilterType] = useState<string>('all');
   const [filterProject, setFilterProject] = useState<string>('all');
   const [projects, setProjects] = useState<Array<{_id: string, title: string}>>([]);
+  const [minutesEventId, setMinutesEventId] = useState<string | null>(null);
 
   const fetchEvents = useCallback(async () => {
     try {
@@ -74,12 +116,12 @@ export default function ManagerCalendarPage() {
       const endDate = getViewEndDate();
       
       const response = await fetch(
-        `/api/calendar/events?start=${startDate.toISOString()}&end=${endDate.toISOString()}&manager=true`
+        `/api/calendar?startDate=${startDate.toISOString()}&endDate=${endDate.toISOString()}`
       );
       
       if (response.ok) {
         const data = await response.json();
-        setEvents(data.data || []);
+        setEvents((data.data?.events || []).map(toCalendarEvent));
       }
     } catch (error) {
       console.error('Error fetching events:', error);
@@ -211,12 +253,18 @@ export default function ManagerCalendarPage() {
               {dayEvents.slice(0, 3).map((event) => (
                 <div
                   key={event._id}
-                  className={`text-xs p-1 rounded truncate cursor-pointer ${
+                  className={`flex items-center gap-1 text-xs p-1 rounded truncate cursor-pointer ${
                     eventTypeColors[event.type]
                   }`}
                   title={event.title}
+                  onClick={(e) => {
+                    if (event.isAutomatic) return;
+                    e.stopPropagation();
+                    setMinutesEventId(event._id);
+                  }}
                 >
-                  {event.title}
+                  {event.hasMinutes && <FileText className="h-3 w-3 flex-shrink-0" />}
+                  <span className="truncate">{event.title}</span>
                 </div>
               ))}
               {dayEvents.length > 3 && (
@@ -301,7 +349,13 @@ export default function ManagerCalendarPage() {
               </div>
               
               <div className="flex items-center gap-2 ml-4">
-                <Button variant="outline" size="sm">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={event.isAutomatic}
+                  title="Minutes"
+                  onClick={() => setMinutesEventId(event._id)}
+                >
                   <Eye className="h-4 w-4" />
                 </Button>
               </div>
@@ -490,6 +544,14 @@ export default function ManagerCalendarPage() {
           </Card>
         </div>
       </div>
+
+      <MeetingMinutesDialog
+        eventId={minutesEventId}
+        open={!!minutesEventId}
+        onOpenChange={(open) => !open && setMinutesEventId(null)}
+        onSaved={() => setEvents(current => current.map(event =>
+          event._id === minutesEventId ? { ...event, hasMinutes: true } : event))}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+// src/app/(dashboard)/manager/contractors/[id]/page.tsx
+import { auth } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import ContractorProfile from '@/components/contractors/ContractorProfile';
+
+interface ContractorPageProps {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+export default async function ManagerContractorPage({ params }: ContractorPageProps) {
+  const session = await auth();
+
+  if (!session?.user?.id || session.user.role !== 'project_manager') {
+    redirect('/login');
+  }
+
+  const { id } = await params;
+
+  return <ContractorProfile contractorId={id} roleBase="/manager" />;
+}
@@ -0,0 +1,14 @@
+// src/app/(dashboard)/manager/contractors/page.tsx
+import { auth } from '@/lib/auth';
+import { redirect } from 'next/navigation';
+import ContractorDirectory from '@/components/contractors/ContractorDirectory';
+
+export default async function ManagerContractorsPage() {
+  const session = await auth();
+
+  if (!session?.user?.id || session.user.role !== 'project_manager') {
+    redirect('/login');
+  }
+
+  return <ContractorDirectory roleBase="/manager" />;
+}
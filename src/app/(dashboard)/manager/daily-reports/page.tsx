@@ -16,14 +16,22 @@ import {
   AlertTriangle,
   X,
   Camera,
+  Send,
   Users
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
 import DailyReportUpload from '@/components/reports/DailyReportUpload';
+import DailyReportReviewDialog from '@/components/reports/DailyReportReviewDialog';
+import DailyReportStatusBadge from '@/components/reports/DailyReportStatusBadge';
+import {
+  DailyReportReviewComment,
+  DailyReportStatus,
+  DAILY_REPORT_STATUSES,
+  DAILY_REPORT_STATUS_LABELS
+} from '@/lib/types/daily-report';
 
 interface DailyReportActivity {
   _id?: string;
@@ -59,7 +67,9 @@ interface DailyReport {
   createdBy: string;
   createdAt: string;
   updatedAt: string;
+  status: DailyReportStatus;
   approved: boolean;
+  reviewComments: DailyReportReviewComment[];
 }
 
 interface ManagerProject {
@@ -71,12 +81,6 @@ interface ManagerProject {
   };
 }
 
-const getStatusColor = (approved: boolean) => {
-  return approved 
-    ? 'bg-green-100 text-green-800' 
-    : 'bg-yellow-100 text-yellow-800';
-};
-
 export default function ManagerDailyReportsPage() {
   const { data: session } = useSession();
   const { toast } = useToast();
@@ -87,6 +91,8 @@ export default function ManagerDailyReportsPage() {
   const [showUploadForm, setShowUploadForm] = useState(false);
   const [selectedProject, setSelectedProject] = useState<string>('all');
   const [dateFilter, setDateFilter] = useState<string>('all');
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [viewing, setViewing] = useState<DailyReport | null>(null);
 
   const fetchData = useCallback(async () => {
     try {
@@ -128,6 +134,10 @@ export default function ManagerDailyReportsPage() {
         }
       }
 
+      if (statusFilter !== 'all') {
+        params.append('status', statusFilter);
+      }
+
       const reportsResponse = await fetch(`${reportsUrl}${params.toString()}`);
       if (reportsResponse.ok) {
         const reportsData = await reportsResponse.json();
@@ -144,7 +154,7 @@ export default function ManagerDailyReportsPage() {
     } finally {
       setLoading(false);
     }
-  }, [selectedProject, dateFilter, toast]);
+  }, [selectedProject, dateFilter, statusFilter, toast]);
 
   useEffect(() => {
     fetchData();
@@ -188,12 +198,29 @@ export default function ManagerDailyReportsPage() {
     });
   };
 
-  const handleViewReport = (_reportId: string) => {
-    // Navigate to detailed view or show modal
-    toast({
-      title: "View Feature", 
-      description: "Detailed view will be implemented here"
-    });
+  const handleSubmitReport = async (reportId: string) => {
+    try {
+      const response = await fetch(`/api/daily-reports/${reportId}/submit`, {
+        method: 'POST'
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to submit report');
+      }
+      toast({
+        title: "Success",
+        description: data.message
+      });
+      fetchData();
+    } catch (error) {
+      console.error('Error submitting report:', error);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to submit report"
+      });
+    }
   };
 
   const handleDeleteReport = async (reportId: string) => {
@@ -329,14 +356,15 @@ export default function ManagerDailyReportsPage() {
             {/* Status Filter */}
             <div className="space-y-2">
               <label className="text-sm font-medium">Status</label>
-              <Select value={dateFilter} onValueChange={setDateFilter}>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
                 <SelectTrigger>
                   <SelectValue placeholder="All Status" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="all">All Reports</SelectItem>
-                  <SelectItem value="approved">Approved</SelectItem>
-                  <SelectItem value="pending">Pending Review</SelectItem>
+                  {DAILY_REPORT_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>{DAILY_REPORT_STATUS_LABELS[status]}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
@@ -372,7 +400,7 @@ export default function ManagerDailyReportsPage() {
               <div>
                 <p className="text-sm font-medium text-gray-600">Approved</p>
                 <p className="text-2xl font-bold text-green-600">
-                  {reports.filter(r => r.approved).length}
+                  {reports.filter(r => r.status === 'approved').length}
                 </p>
               </div>
               <CheckCircle className="h-6 w-6 text-green-600" />
@@ -386,7 +414,7 @@ export default function ManagerDailyReportsPage() {
               <div>
                 <p className="text-sm font-medium text-gray-600">Pending Review</p>
                 <p className="text-2xl font-bold text-yellow-600">
-                  {reports.filter(r => !r.approved).length}
+                  {reports.filter(r => r.status === 'submitted').length}
                 </p>
               </div>
               <Clock className="h-6 w-6 text-yellow-600" />
@@ -491,9 +519,7 @@ export default function ManagerDailyReportsPage() {
                         <h3 className="font-semibold text-gray-900">
                           {formatDate(report.date)}
                         </h3>
-                        <Badge className={getStatusColor(report.approved)}>
-                          {report.approved ? 'Approved' : 'Pending Review'}
-                        </Badge>
+                        <DailyReportStatusBadge status={report.status} />
                       </div>
                       
                       <p className="text-gray-600 text-sm mb-1">{report.projectTitle}</p>
@@ -503,10 +529,19 @@ export default function ManagerDailyReportsPage() {
                     </div>
                     
                     <div className="flex items-center gap-2">
+                      {(report.status === 'draft' || report.status === 'changes_requested') && (
+                        <Button 
+                          size="sm"
+                          onClick={() => handleSubmitReport(report._id)}
+                        >
+                          <Send className="h-4 w-4 mr-2" />
+                          Submit
+                        </Button>
+                      )}
                       <Button 
                         variant="outline" 
                         size="sm"
-                        onClick={() => handleViewReport(report._id)}
+                        onClick={() => setViewing(report)}
                       >
                         <Eye className="h-4 w-4 mr-2" />
                         View
@@ -604,6 +639,12 @@ export default function ManagerDailyReportsPage() {
           )}
         </CardContent>
       </Card>
+
+      <DailyReportReviewDialog
+        report={viewing}
+        onOpenChange={(open) => { if (!open) setViewing(null); }}
+        onReviewed={fetchData}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -15,6 +15,7 @@ interface Incident {
   category: string;
   severity: string;
   location: string;
+  contractor?: string;
   dateOccurred: string;
   timeOccurred: string;
   reportedBy: {
@@ -130,6 +131,7 @@ async function getManagerIncidents(managerId: string): Promise<Incident[]> {
       category: incident.category,
       severity: incident.severity,
       location: incident.location,
+      contractor: incident.contractor,
       dateOccurred: incident.dateOccurred.toISOString(),
       timeOccurred: incident.timeOccurred,
       reportedBy: {
@@ -231,13 +231,14 @@ export default function ProjectEditPage() {
         const backUrl = isManager ? `/manager/projects/${projectId}` : `/admin/projects/${projectId}`;
         router.push(backUrl);
       } else {
-        throw new Error('Failed to update project');
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || 'Failed to update project. Please try again.');
       }
     } catch (error) {
       console.error('Error updating project:', error);
       toast({
         title: "Error",
-        description: "Failed to update project. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to update project. Please try again.",
         variant: "destructive",
       });
     } finally {
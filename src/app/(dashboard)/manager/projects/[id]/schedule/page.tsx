@@ -2,9 +2,9 @@
 // Manager project schedule page with ActivityDetailModal integration
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import { useSession } from 'next-auth/react';
-import { useParams } from 'next/navigation';
+import { useParams, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -18,6 +18,8 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import ActivityModal from '@/components/ActivityModal';
+import GanttChart, { GanttMilestone } from '@/components/projects/GanttChart';
+import ScheduleVariance from '@/components/projects/ScheduleVariance';
 import { useToast } from '@/hooks/use-toast';
 import {
   ChevronDown,
@@ -30,6 +32,9 @@ import {
   CheckCircle,
   AlertCircle,
   TrendingUp,
+  LayoutList,
+  ChartGantt,
+  GitCompareArrows,
 } from 'lucide-react';
 import type { Activity, Phase } from '@/types/activity';
 
@@ -61,6 +66,7 @@ interface ProjectData {
   progress: number;
   startDate?: string;
   endDate?: string;
+  milestones?: GanttMilestone[];
   client?: {
     name: string;
     email: string;
@@ -71,6 +77,9 @@ export default function ManagerProjectSchedulePage() {
   const { data: session } = useSession();
   const { toast } = useToast();
   const params = useParams<{ id: string }>();
+  const searchParams = useSearchParams();
+  const linkedActivityId = searchParams.get('activity');
+  const openedActivityLink = useRef<string | null>(null);
 
   const [project, setProject] = useState<ProjectData | null>(null);
   const [phases, setPhases] = useState<Phase[]>([]);
@@ -78,6 +87,7 @@ export default function ManagerProjectSchedulePage() {
   const [expandedPhases, setExpandedPhases] = useState<Set<string>>(new Set());
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [view, setView] = useState<'list' | 'gantt' | 'variance'>('list');
 
   // Modal state
   const [selectedActivity, setSelectedActivity] = useState<DailyActivity | null>(null);
@@ -136,7 +146,7 @@ export default function ManagerProjectSchedulePage() {
     setExpandedPhases(newExpanded);
   };
 
-const handleActivityClick = async (activityId: string) => {
+const handleActivityClick = useCallback(async (activityId: string) => {
   try {
     const response = await fetch(`/api/site-schedule/activity/${activityId}`, { cache: 'no-store' });
     if (response.ok) {
@@ -150,7 +160,18 @@ const handleActivityClick = async (activityId: string) => {
     console.error('Error fetching activity:', error);
     toast({ variant: 'destructive', title: 'Error', description: 'Failed to load activity' });
   }
-};
+}, [toast]);
+
+  // Deep link from global search: ?activity=<id> expands its phase and opens it
+  useEffect(() => {
+    if (!linkedActivityId || openedActivityLink.current === linkedActivityId) return;
+    const phase = phases.find(p => p.activities.some(a => a._id === linkedActivityId));
+    if (!phase) return;
+    openedActivityLink.current = linkedActivityId;
+    setView('list');
+    setExpandedPhases(prev => new Set(prev).add(phase._id));
+    handleActivityClick(linkedActivityId);
+  }, [linkedActivityId, phases, handleActivityClick]);
 
 const handleSuccess = useCallback(() => {
   fetchSchedule(); // Refetch phases/project after update
@@ -365,8 +386,39 @@ const handleSuccess = useCallback(() => {
         </Select>
       </div>
 
+      {/* View Toggle */}
+      <div className="flex justify-end gap-2 mb-4">
+        <Button variant={view === 'list' ? 'default' : 'outline'} size="sm" onClick={() => setView('list')}>
+          <LayoutList className="h-4 w-4 mr-2" />
+          List
+        </Button>
+        <Button variant={view === 'gantt' ? 'default' : 'outline'} size="sm" onClick={() => setView('gantt')}>
+          <ChartGantt className="h-4 w-4 mr-2" />
+          Gantt
+        </Button>
+        <Button variant={view === 'variance' ? 'default' : 'outline'} size="sm" onClick={() => setView('variance')}>
+          <GitCompareArrows className="h-4 w-4 mr-2" />
+          Variance
+        </Button>
+      </div>
+
       {/* Phases List */}
-      {filteredPhases.length === 0 ? (
+      {view === 'variance' ? (
+        <ScheduleVariance projectId={params.id} canManage />
+      ) : view === 'gantt' ? (
+        <Card>
+          <CardContent className="pt-6">
+            <GanttChart
+              projectId={params.id}
+              phases={filteredPhases}
+              milestones={project?.milestones}
+              editable
+              onActivityClick={handleActivityClick}
+              onScheduleChange={fetchSchedule}
+            />
+          </CardContent>
+        </Card>
+      ) : filteredPhases.length === 0 ? (
         <Card>
           <CardContent className="py-12 text-center">
             <p className="text-gray-500">
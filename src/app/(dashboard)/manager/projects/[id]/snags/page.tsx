@@ -0,0 +1,6 @@
+// src/app/(dashboard)/manager/projects/[id]/snags/page.tsx
+import SnagListPage from '@/components/snags/SnagListPage';
+
+export default function ManagerProjectSnagsPage() {
+  return <SnagListPage basePath="/manager" />;
+}
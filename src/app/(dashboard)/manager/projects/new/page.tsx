@@ -14,7 +14,8 @@ import {
   Tag,
   FileText,
   AlertTriangle,
-  Loader2
+  Loader2,
+  LayoutTemplate
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -29,6 +30,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import type { ProjectTemplateSummary } from '@/lib/types/template';
 
 interface User {
   _id: string;
@@ -53,8 +55,12 @@ interface FormData {
   siteAddress: string;
   scopeOfWork: string;
   designStyle: string;
+  templateId: string;
 }
 
+// Radix Select items can't have an empty value
+const NO_TEMPLATE = 'none';
+
 interface ValidationErrors {
   [key: string]: string;
 }
@@ -70,6 +76,7 @@ export default function NewProjectPage() {
   const [managers, setManagers] = useState<User[]>([]);
   const [errors, setErrors] = useState<ValidationErrors>({});
   const [usersFetchError, setUsersFetchError] = useState<string>('');
+  const [templates, setTemplates] = useState<ProjectTemplateSummary[]>([]);
 
   const [formData, setFormData] = useState<FormData>({
     title: '',
@@ -85,7 +92,8 @@ export default function NewProjectPage() {
     notes: '',
     siteAddress: '',
     scopeOfWork: '',
-    designStyle: ''
+    designStyle: '',
+    templateId: NO_TEMPLATE
   });
 
   // ENHANCED: Fetch users with better error handling and fallback strategies
@@ -200,6 +208,24 @@ export default function NewProjectPage() {
     }
   }, [fetchUsers, session]);
 
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const response = await fetch('/api/project-templates');
+        const data = await response.json();
+        if (response.ok && data.success) {
+          setTemplates(data.data);
+        }
+      } catch (error) {
+        console.error('Error fetching project templates:', error);
+      }
+    };
+
+    if (session?.user) {
+      fetchTemplates();
+    }
+  }, [session]);
+
   // Validation function
   const validateForm = (): boolean => {
     const newErrors: ValidationErrors = {};
@@ -224,6 +250,10 @@ export default function NewProjectPage() {
       newErrors.managerId = 'Please select a project manager';
     }
 
+    if (formData.templateId !== NO_TEMPLATE && !formData.startDate) {
+      newErrors.startDate = 'A start date is required to schedule the template';
+    }
+
     if (formData.startDate && formData.endDate) {
       const startDate = new Date(formData.startDate);
       const endDate = new Date(formData.endDate);
@@ -263,6 +293,7 @@ export default function NewProjectPage() {
         description: formData.description.trim(),
         clientId: formData.clientId,
         managerId: formData.managerId,
+        managerIds: formData.managerId ? [formData.managerId] : [],
         status: formData.status,
         priority: formData.priority,
         startDate: formData.startDate ? new Date(formData.startDate).toISOString() : undefined,
@@ -273,6 +304,7 @@ export default function NewProjectPage() {
         siteAddress: formData.siteAddress.trim() || undefined,
         scopeOfWork: formData.scopeOfWork.trim() || undefined,
         designStyle: formData.designStyle.trim() || undefined,
+        templateId: formData.templateId !== NO_TEMPLATE ? formData.templateId : undefined,
       };
 
       const response = await fetch('/api/projects', {
@@ -628,7 +660,9 @@ export default function NewProjectPage() {
                     type="date"
                     value={formData.startDate}
                     onChange={(e) => handleInputChange('startDate', e.target.value)}
+                    className={errors.startDate ? 'border-red-500' : ''}
                   />
+                  {errors.startDate && <p className="text-sm text-red-600">{errors.startDate}</p>}
                 </div>
 
                 <div className="space-y-2">
@@ -671,6 +705,39 @@ export default function NewProjectPage() {
             </CardContent>
           </Card>
 
+          {/* Schedule Template */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <LayoutTemplate className="h-5 w-5" />
+                Schedule Template
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="templateId">Start from a template</Label>
+              <Select value={formData.templateId} onValueChange={(value) => handleInputChange('templateId', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TEMPLATE}>Empty schedule</SelectItem>
+                  {templates.map((template) => (
+                    <SelectItem key={template._id} value={template._id}>
+                      {template.name} - {template.phaseCount} phases, {template.activityCount} activities
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-gray-500">
+                {formData.templateId === NO_TEMPLATE
+                  ? 'The site schedule starts empty; phases and activities are added later.'
+                  : `Phases, activities and milestones are scheduled from the start date over about ${
+                      templates.find(t => t._id === formData.templateId)?.totalDuration ?? 0
+                    } working days. Leave the end date empty to use the template's finish date.`}
+              </p>
+            </CardContent>
+          </Card>
+
           {/* Actions */}
           <div className="flex items-center justify-end gap-4 pt-6 border-t">
             <Link href="/manager/projects">
@@ -21,6 +21,7 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import ContractorDatalist, { CONTRACTOR_DATALIST_ID } from '@/components/contractors/ContractorDatalist';
 
 // ==================== TYPES ====================
 
@@ -385,10 +386,12 @@ export default function EditActivityPage({ params }: PageProps) {
                 />
               </div>
 
+              <ContractorDatalist />
               <div className="space-y-2">
                 <Label htmlFor="contractor">Contractor *</Label>
                 <Input
                   id="contractor"
+                  list={CONTRACTOR_DATALIST_ID}
                   value={formData.contractor}
                   onChange={(e) => updateFormField('contractor', e.target.value)}
                   placeholder="Contractor name"
@@ -399,6 +402,7 @@ export default function EditActivityPage({ params }: PageProps) {
                 <Label htmlFor="supervisor">Supervisor</Label>
                 <Input
                   id="supervisor"
+                  list={CONTRACTOR_DATALIST_ID}
                   value={formData.supervisor}
                   onChange={(e) => updateFormField('supervisor', e.target.value)}
                   placeholder="Supervisor name"
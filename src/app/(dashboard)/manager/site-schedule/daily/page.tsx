@@ -1,7 +1,8 @@
 "use client";
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, Suspense } from 'react';
 import { useSession } from 'next-auth/react';
+import { useSearchParams } from 'next/navigation';
 import Link from 'next/link';
 import { 
   Plus, 
@@ -36,7 +37,10 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
+import ContractorDatalist, { CONTRACTOR_DATALIST_ID } from '@/components/contractors/ContractorDatalist';
 import ActivityModal from '@/components/ActivityModal'; // Updated import
+import LaborLogCard from '@/components/labor/LaborLogCard';
+import SiteConditionsCard from '@/components/site-conditions/SiteConditionsCard';
 import { ActivityPhase, PHASE_LABELS, PHASE_ORDER } from '@/types/activity';
 
 // TypeScript interfaces (unchanged)
@@ -103,13 +107,16 @@ const formatDateTimeLocal = (date: Date): string => {
   return `${year}-${month}-${day}T${hours}:${minutes}`;
 };
 
-export default function ManagerDailySchedulePage() {
+function ManagerDailySchedulePageContent() {
   const { data: session } = useSession();
   const { toast } = useToast();
+  const searchParams = useSearchParams();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const linkedActivityId = searchParams.get('activity');
+  const openedActivityLink = useRef<string | null>(null);
   
   const [projects, setProjects] = useState<ManagerProject[]>([]);
-  const [selectedProject, setSelectedProject] = useState<string>('all');
+  const [selectedProject, setSelectedProject] = useState<string>(() => searchParams.get('projectId') || 'all');
   const [dailyProgress, setDailyProgress] = useState<DailyProgress[]>([]);
   const [loading, setLoading] = useState(true);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -123,7 +130,7 @@ export default function ManagerDailySchedulePage() {
   const [imagePreview, setImagePreview] = useState<string[]>([]);
   const [uploadingImages, setUploadingImages] = useState(false);
 
-  const [selectedDate, setSelectedDate] = useState<string>(new Date().toISOString().split('T')[0]);
+  const [selectedDate, setSelectedDate] = useState<string>(() => searchParams.get('date') || new Date().toISOString().split('T')[0]);
 
 
   const now = new Date();
@@ -193,6 +200,18 @@ export default function ManagerDailySchedulePage() {
     }
   }, [session, fetchDailyProgress]);
 
+  // Deep link from global search: ?activity=<id> opens that activity
+  useEffect(() => {
+    if (!linkedActivityId || openedActivityLink.current === linkedActivityId) return;
+    const activity = dailyProgress
+      .flatMap(day => day.activities)
+      .find(a => a._id === linkedActivityId);
+    if (!activity) return;
+    openedActivityLink.current = linkedActivityId;
+    setSelectedActivity(activity);
+    setIsActivityModalOpen(true);
+  }, [linkedActivityId, dailyProgress]);
+
   // Image handlers for add (unchanged)
   const handleImageSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []);
@@ -405,6 +424,14 @@ const handleSuccess = useCallback(() => {
         </CardContent>
       </Card>
 
+      {/* Labor log and site conditions for the selected project and day */}
+      {selectedProject !== 'all' && (
+        <>
+          <LaborLogCard projectId={selectedProject} date={selectedDate} onDateChange={setSelectedDate} />
+          <SiteConditionsCard projectId={selectedProject} date={selectedDate} />
+        </>
+      )}
+
       {/* Statistics (unchanged) */}
       <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-4 mb-6">
         <Card>
@@ -592,10 +619,12 @@ const handleSuccess = useCallback(() => {
                 />
               </div>
 
+              <ContractorDatalist />
               <div className="space-y-2">
                 <Label htmlFor="contractor">Contractor *</Label>
                 <Input
                   id="contractor"
+                  list={CONTRACTOR_DATALIST_ID}
                   value={newActivity.contractor}
                   onChange={(e) => setNewActivity({...newActivity, contractor: e.target.value})}
                   placeholder="Contractor name"
@@ -606,6 +635,7 @@ const handleSuccess = useCallback(() => {
                 <Label htmlFor="supervisor">Supervisor</Label>
                 <Input
                   id="supervisor"
+                  list={CONTRACTOR_DATALIST_ID}
                   value={newActivity.supervisor || ''}
                   onChange={(e) => setNewActivity({...newActivity, supervisor: e.target.value})}
                   placeholder="Supervisor name"
@@ -840,4 +870,12 @@ const handleSuccess = useCallback(() => {
       />
     </div>
   );
-}
\ No newline at end of file
+}
+
+export default function ManagerDailySchedulePage() {
+  return (
+    <Suspense fallback={<div className="p-6 text-sm text-gray-500">Loading...</div>}>
+      <ManagerDailySchedulePageContent />
+    </Suspense>
+  );
+}
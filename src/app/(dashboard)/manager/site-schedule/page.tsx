@@ -20,6 +20,7 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { formatDate } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import ActivityModal from '@/components/ActivityModal';
@@ -129,6 +130,18 @@ export default function ManagerSiteSchedulePage() {
     fetchData();
   }, [fetchData]);
 
+  // Download the Site Progress Report spreadsheet for the selected project
+  const handleExport = (format: 'csv' | 'xlsx') => {
+    if (selectedProject === 'all') {
+      toast({
+        title: "Select a project",
+        description: "Choose a project in the filters to export its site progress report",
+      });
+      return;
+    }
+    window.location.href = `/api/daily-reports/export?projectId=${selectedProject}&format=${format}`;
+  };
+
   // Filter activities based on selected filters and search
   const filteredActivities = activities.filter(activity => {
     const projectMatch = selectedProject === 'all' || activity.projectId === selectedProject;
@@ -404,10 +417,18 @@ export default function ManagerSiteSchedulePage() {
           Showing {filteredActivities.length} of {activities.length} activities
         </p>
         <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
-          <Button variant="outline" className="flex items-center justify-center gap-2">
-            <Download className="h-4 w-4" />
-            Export Report
-          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" className="flex items-center justify-center gap-2">
+                <Download className="h-4 w-4" />
+                Export Report
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExport('xlsx')}>Excel (.xlsx)</DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExport('csv')}>CSV (.csv)</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
           <Link href="/manager/site-schedule/daily" className="w-full sm:w-auto">
             <Button className="w-full flex items-center justify-center gap-2">
               <Plus className="h-4 w-4" />
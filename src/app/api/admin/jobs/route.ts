@@ -0,0 +1,68 @@
+// src/app/api/admin/jobs/route.ts - SCHEDULED JOBS API (ADMIN)
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { findJobRuns, loadScheduledJobs } from '@/lib/jobs';
+import { JOB_NAMES, JobName, JobRunStatus } from '@/lib/types/jobs';
+
+const MAX_LIMIT = 100;
+const RUN_STATUSES: JobRunStatus[] = ['running', 'succeeded', 'failed'];
+
+// GET /api/admin/jobs?job=&status=&page=&limit= - Job schedule and run history
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only administrators can view scheduled jobs'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const job = searchParams.get('job');
+    const status = searchParams.get('status');
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '25', 10) || 25, 1), MAX_LIMIT);
+
+    const { db } = await connectToDatabase();
+    const [jobs, { runs, total }] = await Promise.all([
+      loadScheduledJobs(db),
+      findJobRuns(db, {
+        job: JOB_NAMES.includes(job as JobName) ? job as JobName : undefined,
+        status: RUN_STATUSES.includes(status as JobRunStatus) ? status as JobRunStatus : undefined
+      }, { page, limit })
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        jobs,
+        runs,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrev: page > 1
+        }
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching scheduled jobs:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
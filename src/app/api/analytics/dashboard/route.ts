@@ -3,6 +3,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId, Filter } from 'mongodb';
+import {
+  BUDGET_LINES_COLLECTION,
+  PROJECT_COSTS_COLLECTION,
+  computeBudgetBurn,
+  summarizeBudget
+} from '@/lib/budget';
+import { COST_CATEGORY_LABELS, BudgetBurnPoint, CostEntryDocument } from '@/lib/types/budget';
 
 // FIXED: Proper interface definitions without 'any'
 interface DashboardAnalytics {
@@ -24,6 +31,7 @@ interface DashboardAnalytics {
     monthlyActivity: Array<{ month: string; projects: number; tasks: number; files: number }>;
     userActivity: Array<{ name: string; role: string; lastActive: string; projectsCount: number }>;
     budgetAnalysis: Array<{ category: string; allocated: number; spent: number }>;
+    budgetBurn: BudgetBurnPoint[];
   };
   trends: {
     projectCompletionRate: number;
@@ -131,7 +139,7 @@ export async function GET(request: NextRequest) {
     const overview = await getOverviewStats(db, projectFilter, taskFilter);
 
     // Get chart data
-    const charts = await getChartData(db, projectFilter, taskFilter);
+    const charts = await getChartData(db, projectFilter, taskFilter, role !== 'client');
 
     // Get trend analysis
     const trends = await getTrendAnalysis(db, projectFilter, taskFilter);
@@ -231,7 +239,8 @@ async function getChartData(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   db: any, 
   projectFilter: Filter<ProjectDocument>, 
-  taskFilter: Filter<TaskDocument>
+  taskFilter: Filter<TaskDocument>,
+  includeCosts: boolean
 ) {
   // Projects by status - FIXED: Proper typing for aggregation results
   const projectsByStatus = await db.collection('projects').aggregate([
@@ -362,28 +371,38 @@ async function getChartData(
     projectsCount: user.projectsCount
   }));
 
-  // Budget analysis - FIXED: Proper typing
-  const budgetAnalysis = await db.collection('projects').aggregate([
-    { 
-      $match: { 
-        ...projectFilter, 
-        budget: { $exists: true, $gt: 0 } 
-      } 
-    },
-    {
-      $group: {
-        _id: '$status',
-        allocated: { $sum: '$budget' },
-        count: { $sum: 1 }
-      }
-    }
-  ]).toArray();
+  // Budget analysis - budget lines vs recorded expenses per cost category.
+  // Internal costs are never shown to clients.
+  let budgetAnalysisChart: Array<{ category: string; allocated: number; spent: number }> = [];
+  let budgetBurn: BudgetBurnPoint[] = [];
+  if (includeCosts) {
+    const budgetProjects = await db.collection('projects')
+      .find(projectFilter, { projection: { _id: 1 } })
+      .toArray();
+    const projectIds = budgetProjects.map((project: { _id: ObjectId }) => project._id);
+
+    const [lines, costs] = await Promise.all([
+      db.collection(BUDGET_LINES_COLLECTION)
+        .find({ projectId: { $in: projectIds } }, { projection: { category: 1, amount: 1 } })
+        .toArray(),
+      db.collection(PROJECT_COSTS_COLLECTION)
+        .find({ projectId: { $in: projectIds } }, { projection: { kind: 1, category: 1, amount: 1, date: 1 } })
+        .toArray()
+    ]);
 
-  const budgetAnalysisChart = budgetAnalysis.map((item: { _id: string; allocated: number }) => ({
-    category: item._id.replace('_', ' ').replace(/\b\w/g, (l: string) => l.toUpperCase()),
-    allocated: item.allocated,
-    spent: Math.round(item.allocated * 0.75),
-  }));
+    const summary = summarizeBudget(0, lines, costs);
+    budgetAnalysisChart = summary.categories
+      .filter(category => category.budgeted > 0 || category.actual > 0)
+      .map(category => ({
+        category: COST_CATEGORY_LABELS[category.category],
+        allocated: category.budgeted,
+        spent: category.actual
+      }));
+    budgetBurn = computeBudgetBurn(
+      costs.filter((cost: Pick<CostEntryDocument, 'kind'>) => cost.kind === 'expense'),
+      summary.budgeted
+    );
+  }
 
   return {
     projectsByStatus: projectsByStatusChart,
@@ -391,7 +410,8 @@ async function getChartData(
     projectProgress,
     monthlyActivity,
     userActivity: userActivityChart,
-    budgetAnalysis: budgetAnalysisChart
+    budgetAnalysis: budgetAnalysisChart,
+    budgetBurn
   };
 }
 
@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
+import { CalendarProject, loadProjectCalendar, workingDaysUntil } from '@/lib/working-calendar';
 import { ObjectId } from 'mongodb';
 
 interface AnalyticsData {
@@ -210,10 +211,10 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Generate project breakdown from all projects
-    const projectBreakdown = allProjects.slice(0, 10).map(project => {
+    // Generate project breakdown from all projects (days remaining counts each project's working days)
+    const projectBreakdown = await Promise.all(allProjects.slice(0, 10).map(async project => {
       const daysRemaining = project.endDate 
-        ? Math.max(0, Math.ceil((new Date(project.endDate).getTime() - nowTime) / (1000 * 60 * 60 * 24)))
+        ? Math.max(0, workingDaysUntil(project.endDate, await loadProjectCalendar(db, project as CalendarProject)))
         : 0;
 
       return {
@@ -222,7 +223,7 @@ export async function GET(request: NextRequest) {
         status: project.status,
         daysRemaining,
       };
-    });
+    }));
 
     const analyticsData: AnalyticsData = {
       projectMetrics: {
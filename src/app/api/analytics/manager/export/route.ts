@@ -2,6 +2,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
+import { loadProjectCalendar, workingDaysUntil } from '@/lib/working-calendar';
 import { ObjectId, Filter } from 'mongodb';
 
 // Define proper TypeScript interfaces
@@ -510,10 +511,10 @@ export async function GET(request: NextRequest) {
       });
     }
 
-    // Generate project breakdown
-    const projectBreakdown = allProjects.slice(0, 10).map(project => {
+    // Generate project breakdown (days remaining counts each project's working days)
+    const projectBreakdown = await Promise.all(allProjects.slice(0, 10).map(async project => {
       const daysRemaining = project.endDate 
-        ? Math.max(0, Math.ceil((new Date(project.endDate).getTime() - nowTime) / (1000 * 60 * 60 * 24)))
+        ? Math.max(0, workingDaysUntil(project.endDate, await loadProjectCalendar(db, project)))
         : 0;
 
       return {
@@ -522,7 +523,7 @@ export async function GET(request: NextRequest) {
         status: project.status,
         daysRemaining,
       };
-    });
+    }));
 
     const analyticsData: AnalyticsData = {
       projectMetrics: {
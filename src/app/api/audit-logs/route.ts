@@ -0,0 +1,58 @@
+// src/app/api/audit-logs/route.ts - AUDIT TRAIL API (ADMIN)
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { buildAuditQuery, findAuditLogs, parseAuditFilters } from '@/lib/audit';
+
+const MAX_LIMIT = 100;
+
+// GET /api/audit-logs?entityType=&action=&actorId=&projectId=&from=&to=&search=&page=&limit= - Filter the audit trail
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only administrators can view the audit trail'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '25', 10) || 25, 1), MAX_LIMIT);
+
+    const { db } = await connectToDatabase();
+    const query = buildAuditQuery(parseAuditFilters(searchParams));
+    const { logs, total } = await findAuditLogs(db, query, { page, limit });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        logs,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrev: page > 1
+        }
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching audit logs:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
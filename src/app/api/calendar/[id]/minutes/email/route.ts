@@ -0,0 +1,114 @@
+// src/app/api/calendar/[id]/minutes/email/route.ts - Email the minutes to attendees
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { diffFields, recordAudit } from '@/lib/audit';
+import { sendEmail } from '@/lib/email';
+import {
+  buildMinutesEmail,
+  loadMeetingPeople,
+  loadMinutesEvent,
+  loadMinutesView,
+  MEETING_MINUTES_COLLECTION
+} from '@/lib/meeting-minutes';
+import type { MeetingMinutesDocument } from '@/lib/types/meeting-minutes';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// POST /api/calendar/[id]/minutes/email - Send the saved minutes to the event's attendees
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { db } = await connectToDatabase();
+    const access = await loadMinutesEvent(db, id, session.user);
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+    if (!access.canEdit) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only staff on the project or at the meeting can send its minutes'
+      }, { status: 403 });
+    }
+
+    const { event, project } = access;
+    const collection = db.collection<MeetingMinutesDocument>(MEETING_MINUTES_COLLECTION);
+    const minutes = await collection.findOne({ eventId: event._id });
+    if (!minutes) {
+      return NextResponse.json({
+        success: false,
+        error: 'Save the minutes before sending them'
+      }, { status: 400 });
+    }
+
+    const people = await loadMeetingPeople(db, event);
+    const recipients = people
+      .filter(person => event.attendees.some(attendee => attendee.toString() === person._id) && person.email)
+      .map(person => person.email);
+    if (recipients.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'The event has no attendees to send the minutes to'
+      }, { status: 400 });
+    }
+
+    const sent = await sendEmail({ to: recipients, ...buildMinutesEmail(event, project, minutes) });
+    if (!sent) {
+      return NextResponse.json({
+        success: false,
+        error: 'The minutes could not be emailed. Please try again later.'
+      }, { status: 500 });
+    }
+
+    const now = new Date();
+    await collection.updateOne(
+      { _id: minutes._id },
+      { $set: { emailedAt: now, emailedTo: recipients.length } }
+    );
+
+    await recordAudit({
+      actor: session.user,
+      action: 'updated',
+      entityType: 'meeting_minutes',
+      entityId: minutes._id!,
+      entityLabel: `Minutes: ${event.title}`,
+      projectId: event.projectId,
+      changes: diffFields({ emailedAt: minutes.emailedAt }, { emailedAt: now }),
+      metadata: { eventId: id, recipients: recipients.length },
+      request
+    });
+
+    const data = await loadMinutesView(db, access);
+    return NextResponse.json({
+      success: true,
+      data,
+      message: `Minutes emailed to ${recipients.length} attendee${recipients.length === 1 ? '' : 's'}`
+    });
+
+  } catch (error: unknown) {
+    console.error('Error emailing meeting minutes:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,181 @@
+// src/app/api/calendar/[id]/minutes/route.ts - Meeting minutes for a calendar event
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { diffFields, recordAudit } from '@/lib/audit';
+import {
+  loadMeetingPeople,
+  loadMinutesEvent,
+  loadMinutesView,
+  parseMeetingMinutes,
+  syncActionItemTasks,
+  MEETING_MINUTES_COLLECTION
+} from '@/lib/meeting-minutes';
+import type { MeetingMinutesDocument } from '@/lib/types/meeting-minutes';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// How minutes read in the audit trail
+const minutesSummary = (minutes: Pick<MeetingMinutesDocument, 'kind' | 'attendees' | 'agenda' | 'notes' | 'decisions' | 'actionItems'>) => ({
+  kind: minutes.kind,
+  present: minutes.attendees.filter(attendee => attendee.present).map(attendee => attendee.name),
+  agenda: minutes.agenda,
+  notes: minutes.notes,
+  decisions: minutes.decisions,
+  actionItems: minutes.actionItems.map(item =>
+    `${item.description} (${item.ownerName}, due ${item.dueDate.toISOString().slice(0, 10)})`)
+});
+
+// GET /api/calendar/[id]/minutes - The event's minutes, attendees and whether the user can edit them
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { db } = await connectToDatabase();
+    const access = await loadMinutesEvent(db, id, session.user);
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const data = await loadMinutesView(db, access);
+
+    return NextResponse.json({
+      success: true,
+      data
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching meeting minutes:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// PUT /api/calendar/[id]/minutes - Record or update the event's minutes
+// Body: { kind, present: [userId], agenda, notes, decisions, actionItems: [{ _id?, description, ownerId, dueDate }] }
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    const { db } = await connectToDatabase();
+    const access = await loadMinutesEvent(db, id, session.user);
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+    if (!access.canEdit) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only staff on the project or at the meeting can record its minutes'
+      }, { status: 403 });
+    }
+
+    const { event } = access;
+    const collection = db.collection<MeetingMinutesDocument>(MEETING_MINUTES_COLLECTION);
+    const [people, existing] = await Promise.all([
+      loadMeetingPeople(db, event),
+      collection.findOne({ eventId: event._id })
+    ]);
+
+    const body = await request.json();
+    const parsed = parseMeetingMinutes(body, event, people, existing?.actionItems);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const userId = new ObjectId(session.user.id);
+    const newTasks = parsed.minutes.actionItems.filter(item => !item.taskId).length;
+    const actionItems = await syncActionItemTasks(
+      db,
+      event,
+      parsed.minutes.actionItems,
+      existing?.actionItems || [],
+      userId
+    );
+    const minutes = { ...parsed.minutes, actionItems };
+
+    const now = new Date();
+    const saved = await collection.findOneAndUpdate(
+      { eventId: event._id },
+      {
+        $set: {
+          ...minutes,
+          ...(event.projectId ? { projectId: event.projectId } : {}),
+          updatedAt: now
+        },
+        $setOnInsert: {
+          eventId: event._id,
+          recordedBy: userId,
+          ...(session.user.name ? { recordedByName: session.user.name } : {}),
+          createdAt: now
+        }
+      },
+      { upsert: true, returnDocument: 'after' }
+    );
+
+    await recordAudit({
+      actor: session.user,
+      action: existing ? 'updated' : 'created',
+      entityType: 'meeting_minutes',
+      entityId: saved!._id!,
+      entityLabel: `Minutes: ${event.title}`,
+      projectId: event.projectId,
+      changes: diffFields(existing ? minutesSummary(existing) : null, minutesSummary(minutes)),
+      metadata: { eventId: id },
+      request
+    });
+
+    const data = await loadMinutesView(db, access);
+    return NextResponse.json({
+      success: true,
+      data,
+      message: newTasks > 0
+        ? `Minutes saved and ${newTasks} action item${newTasks === 1 ? '' : 's'} added to tasks`
+        : 'Minutes saved'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error saving meeting minutes:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -4,6 +4,7 @@ import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId, Db, Collection, Filter } from 'mongodb';
 import { z } from 'zod';
+import { MEETING_MINUTES_COLLECTION } from '@/lib/meeting-minutes';
 
 // Event validation schema
 const createEventSchema = z.object({
@@ -95,6 +96,7 @@ interface AggregatedEvent extends CalendarEventDocument {
   attendeeDetails?: UserDocument[];
   project?: Pick<ProjectDocument, '_id' | 'title' | 'status'>;
   task?: Pick<TaskDocument, '_id' | 'title' | 'status'>;
+  hasMinutes?: boolean;
 }
 
 // GET /api/calendar - Get calendar events
@@ -236,13 +238,24 @@ export async function GET(request: NextRequest) {
           pipeline: [{ $project: { title: 1, status: 1 } }]
         }
       },
+      {
+        $lookup: {
+          from: MEETING_MINUTES_COLLECTION,
+          localField: '_id',
+          foreignField: 'eventId',
+          as: 'minutes',
+          pipeline: [{ $project: { _id: 1 } }]
+        }
+      },
       {
         $addFields: {
           creator: { $arrayElemAt: ['$creator', 0] },
           project: { $arrayElemAt: ['$project', 0] },
-          task: { $arrayElemAt: ['$task', 0] }
+          task: { $arrayElemAt: ['$task', 0] },
+          hasMinutes: { $gt: [{ $size: '$minutes' }, 0] }
         }
       },
+      { $project: { minutes: 0 } },
       { $sort: { startDate: 1 } }
     ];
 
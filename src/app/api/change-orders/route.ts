@@ -0,0 +1,71 @@
+// src/app/api/change-orders/route.ts - Change orders across the current user's projects
+import { NextRequest, NextResponse } from 'next/server';
+import { Filter, ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { CHANGE_ORDERS_COLLECTION, withChangeOrderNames } from '@/lib/change-orders';
+import { CHANGE_ORDER_STATUSES, ChangeOrderDocument, ChangeOrderStatus } from '@/lib/types/change-order';
+
+// GET /api/change-orders?status=pending_approval
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { role, id: userId } = session.user;
+    const status = request.nextUrl.searchParams.get('status');
+    if (status && !CHANGE_ORDER_STATUSES.includes(status as ChangeOrderStatus)) {
+      return NextResponse.json({
+        success: false,
+        error: `Status must be one of: ${CHANGE_ORDER_STATUSES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const query: Filter<ChangeOrderDocument> = {};
+
+    if (role !== 'super_admin') {
+      const projectFilter = role === 'project_manager'
+        ? { managers: new ObjectId(userId) }
+        : { client: new ObjectId(userId) };
+      const projects = await db.collection('projects')
+        .find(projectFilter, { projection: { _id: 1 } })
+        .toArray();
+      query.projectId = { $in: projects.map(project => project._id) };
+    }
+
+    // Drafts stay between the managers until they are submitted
+    if (role === 'client' && status === 'draft') {
+      return NextResponse.json({ success: true, data: [] });
+    }
+    if (status) {
+      query.status = status as ChangeOrderStatus;
+    } else if (role === 'client') {
+      query.status = { $ne: 'draft' };
+    }
+
+    const documents = await db.collection<ChangeOrderDocument>(CHANGE_ORDERS_COLLECTION)
+      .find(query)
+      .sort({ submittedAt: -1, createdAt: -1 })
+      .limit(200)
+      .toArray();
+
+    return NextResponse.json({
+      success: true,
+      data: await withChangeOrderNames(db, documents)
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching change orders:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
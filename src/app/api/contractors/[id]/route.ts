@@ -0,0 +1,251 @@
+// src/app/api/contractors/[id]/route.ts - Directory entry with performance history
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { diffFields, recordAudit } from '@/lib/audit';
+import {
+  CONTRACTORS_COLLECTION,
+  findConflictingContractor,
+  loadContractorPerformance,
+  parseContractorInput,
+  syncLinkedRecords
+} from '@/lib/contractors';
+import { ContractorDocument, transformContractor } from '@/lib/types/contractor';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/contractors/[id] - Profile: details plus activities, delays and incidents across all projects
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin' && session.user.role !== 'project_manager') {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view the contractor directory'
+      }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid contractor ID'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const contractor = await db.collection<ContractorDocument>(CONTRACTORS_COLLECTION).findOne({ _id: new ObjectId(id) });
+    if (!contractor) {
+      return NextResponse.json({
+        success: false,
+        error: 'Contractor not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        contractor: transformContractor(contractor),
+        performance: await loadContractorPerformance(db, contractor._id)
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching contractor:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// PATCH /api/contractors/[id] - Update an entry; a new name is copied to everything linked to it
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin' && session.user.role !== 'project_manager') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only administrators and project managers can manage the contractor directory'
+      }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid contractor ID'
+      }, { status: 400 });
+    }
+
+    const parsed = parseContractorInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<ContractorDocument>(CONTRACTORS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(id) });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Contractor not found'
+      }, { status: 404 });
+    }
+
+    const conflict = await findConflictingContractor(db, [parsed.contractor.name, ...parsed.contractor.aliases], existing._id);
+    if (conflict) {
+      return NextResponse.json({
+        success: false,
+        error: `"${conflict.name}" is already in the directory under this name`
+      }, { status: 409 });
+    }
+
+    const { trade, company, phone, email, notes, ...fields } = parsed.contractor;
+    const optional = { trade, company, phone, email, notes };
+    const updated = await collection.findOneAndUpdate(
+      { _id: existing._id },
+      {
+        $set: {
+          ...fields,
+          ...Object.fromEntries(Object.entries(optional).filter(([, value]) => value !== undefined)),
+          updatedAt: new Date()
+        },
+        $unset: Object.fromEntries(
+          Object.entries(optional).filter(([, value]) => value === undefined).map(([field]) => [field, '' as const])
+        )
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: 'Contractor not found'
+      }, { status: 404 });
+    }
+
+    if (updated.name !== existing.name) {
+      await syncLinkedRecords(db, updated._id, updated.name);
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'updated',
+      entityType: 'contractor',
+      entityId: id,
+      entityLabel: updated.name,
+      changes: diffFields(existing, parsed.contractor, [
+        'name', 'kind', 'trade', 'company', 'phone', 'email', 'rates', 'documents', 'aliases', 'notes', 'isActive'
+      ]),
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: transformContractor(updated),
+      message: 'Directory entry updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating contractor:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/contractors/[id] - Remove an entry (admin only); linked records keep the name as text
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only administrators can delete directory entries'
+      }, { status: 403 });
+    }
+
+    const { id } = await context.params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid contractor ID'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const deleted = await db.collection<ContractorDocument>(CONTRACTORS_COLLECTION).findOneAndDelete({ _id: new ObjectId(id) });
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Contractor not found'
+      }, { status: 404 });
+    }
+
+    await syncLinkedRecords(db, deleted._id, null);
+
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'contractor',
+      entityId: id,
+      entityLabel: deleted.name,
+      metadata: { kind: deleted.kind, trade: deleted.trade },
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Directory entry deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting contractor:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,144 @@
+// src/app/api/contractors/route.ts - CONTRACTOR & SUPPLIER DIRECTORY API
+// Admins and project managers keep one entry per contractor or supplier; the
+// names typed on activities, daily logs and procurement items link to it.
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  CONTRACTORS_COLLECTION,
+  findConflictingContractor,
+  normalizeContractorName,
+  parseContractorInput
+} from '@/lib/contractors';
+import { ContractorDocument, ContractorKind, transformContractor } from '@/lib/types/contractor';
+
+// GET /api/contractors?kind=&search=&active=true - List directory entries
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin' && session.user.role !== 'project_manager') {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view the contractor directory'
+      }, { status: 403 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const kind = searchParams.get('kind') as ContractorKind | null;
+    if (kind && kind !== 'contractor' && kind !== 'supplier') {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid type'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const contractors = await db.collection<ContractorDocument>(CONTRACTORS_COLLECTION)
+      .find({
+        ...(kind ? { kind } : {}),
+        ...(searchParams.get('active') === 'true' ? { isActive: true } : {})
+      })
+      .sort({ name: 1 })
+      .toArray();
+
+    // Search the same way names are matched, so "ben." finds "Ben"
+    const search = normalizeContractorName(searchParams.get('search') || '');
+    const matches = search
+      ? contractors.filter(contractor =>
+          [contractor.name, contractor.trade || '', contractor.company || '', ...(contractor.aliases || [])]
+            .some(value => normalizeContractorName(value).includes(search)))
+      : contractors;
+
+    return NextResponse.json({
+      success: true,
+      data: matches.map(transformContractor)
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching contractors:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// POST /api/contractors - Add a contractor or supplier
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin' && session.user.role !== 'project_manager') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only administrators and project managers can manage the contractor directory'
+      }, { status: 403 });
+    }
+
+    const parsed = parseContractorInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const conflict = await findConflictingContractor(db, [parsed.contractor.name, ...parsed.contractor.aliases]);
+    if (conflict) {
+      return NextResponse.json({
+        success: false,
+        error: `"${conflict.name}" is already in the directory under this name`
+      }, { status: 409 });
+    }
+
+    const now = new Date();
+    const contractor: ContractorDocument = {
+      ...parsed.contractor,
+      createdBy: new ObjectId(session.user.id),
+      createdAt: now,
+      updatedAt: now
+    };
+    const result = await db.collection<ContractorDocument>(CONTRACTORS_COLLECTION).insertOne(contractor);
+    contractor._id = result.insertedId;
+
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'contractor',
+      entityId: result.insertedId,
+      entityLabel: contractor.name,
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: transformContractor(contractor),
+      message: `${contractor.kind === 'supplier' ? 'Supplier' : 'Contractor'} added successfully`
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error creating contractor:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
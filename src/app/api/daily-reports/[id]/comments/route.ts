@@ -0,0 +1,133 @@
+// src/app/api/daily-reports/[id]/comments/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import {
+  toDailyReportReview,
+  DailyReportRecord,
+  DAILY_REPORTS_COLLECTION
+} from '@/lib/daily-reports';
+import { authorizeProject } from '@/lib/project-access';
+import { DailyReportReviewCommentDocument } from '@/lib/types/daily-report';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// Longest review comment we accept
+const MAX_COMMENT_LENGTH = 2000;
+
+// POST /api/daily-reports/[id]/comments - Review comment on the report or one of its activities
+// Body: { activityId?: string, text: string }
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid report ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    if (!text) {
+      return NextResponse.json({
+        success: false,
+        error: 'Comment text is required'
+      }, { status: 400 });
+    }
+    if (text.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json({
+        success: false,
+        error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters`
+      }, { status: 400 });
+    }
+    if (body.activityId !== undefined && (typeof body.activityId !== 'string' || !ObjectId.isValid(body.activityId))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid activity ID'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<DailyReportRecord>(DAILY_REPORTS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(id) });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Report not found'
+      }, { status: 404 });
+    }
+
+    const access = await authorizeProject(existing.project.toString(), session.user, 'approve_report');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    let activity: { _id?: ObjectId; title: string } | undefined;
+    if (body.activityId) {
+      activity = existing.activities?.find(item => item._id?.equals(body.activityId));
+      if (!activity) {
+        return NextResponse.json({
+          success: false,
+          error: 'Activity not found in this report'
+        }, { status: 404 });
+      }
+    }
+
+    const now = new Date();
+    const comment: DailyReportReviewCommentDocument = {
+      _id: new ObjectId(),
+      ...(activity && { activityId: activity._id, activityTitle: activity.title }),
+      by: new ObjectId(session.user.id),
+      byName: session.user.name || 'Unknown',
+      text,
+      createdAt: now
+    };
+
+    // Once approved the report is what the client sees; the review is closed
+    const updated = await collection.findOneAndUpdate(
+      { _id: existing._id, approved: { $ne: true } },
+      { $push: { reviewComments: comment }, $set: { updatedAt: now } },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: 'Approved reports are closed to review comments'
+      }, { status: 409 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: toDailyReportReview(updated),
+      message: 'Comment added'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error adding daily report comment:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
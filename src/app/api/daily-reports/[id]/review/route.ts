@@ -0,0 +1,163 @@
+// src/app/api/daily-reports/[id]/review/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  dailyReportLabel,
+  dailyReportStatus,
+  dailyReportStatusFilter,
+  notifyDailyReport,
+  toDailyReportReview,
+  DailyReportProject,
+  DailyReportRecord,
+  DAILY_REPORTS_COLLECTION
+} from '@/lib/daily-reports';
+import { authorizeProject } from '@/lib/project-access';
+import { DailyReportReviewCommentDocument } from '@/lib/types/daily-report';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// Longest review note we accept
+const MAX_COMMENT_LENGTH = 2000;
+
+// POST /api/daily-reports/[id]/review - Approve a submitted report or send it back
+// Body: { decision: 'approve' | 'request_changes', comment?: string }
+// Approving makes the report visible to the client; sending it back needs a comment.
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid report ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    if (body.decision !== 'approve' && body.decision !== 'request_changes') {
+      return NextResponse.json({
+        success: false,
+        error: 'Decision must be approve or request_changes'
+      }, { status: 400 });
+    }
+    const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+    if (body.decision === 'request_changes' && !comment) {
+      return NextResponse.json({
+        success: false,
+        error: 'Say what needs to change'
+      }, { status: 400 });
+    }
+    if (comment.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json({
+        success: false,
+        error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters`
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<DailyReportRecord>(DAILY_REPORTS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(id) });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Report not found'
+      }, { status: 404 });
+    }
+
+    const access = await authorizeProject<DailyReportProject>(existing.project.toString(), session.user, 'approve_report');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    // A second pair of eyes, unless there's nobody above the author
+    if (existing.createdBy.equals(session.user.id) && access.relation !== 'admin') {
+      return NextResponse.json({
+        success: false,
+        error: "You can't review your own report"
+      }, { status: 403 });
+    }
+
+    const now = new Date();
+    const approve = body.decision === 'approve';
+    const note: DailyReportReviewCommentDocument | null = comment
+      ? {
+          _id: new ObjectId(),
+          by: new ObjectId(session.user.id),
+          byName: session.user.name || 'Unknown',
+          text: comment,
+          createdAt: now
+        }
+      : null;
+
+    const reviewed = await collection.findOneAndUpdate(
+      { _id: existing._id, ...dailyReportStatusFilter('submitted') },
+      {
+        $set: approve
+          ? {
+              status: 'approved',
+              approved: true,
+              approvedBy: new ObjectId(session.user.id),
+              approvedAt: now,
+              updatedAt: now
+            }
+          : { status: 'changes_requested', updatedAt: now },
+        ...(note && { $push: { reviewComments: note } })
+      },
+      { returnDocument: 'after' }
+    );
+    if (!reviewed) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only reports awaiting review can be approved or sent back'
+      }, { status: 409 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: approve ? 'approved' : 'rejected',
+      entityType: 'daily_report',
+      entityId: id,
+      entityLabel: dailyReportLabel(existing.date),
+      projectId: existing.project,
+      changes: [{ field: 'status', before: dailyReportStatus(existing), after: reviewed.status }],
+      metadata: comment ? { comment } : undefined,
+      request
+    });
+
+    await notifyDailyReport(db, access.project, reviewed, approve ? 'approved' : 'changes_requested', session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: toDailyReportReview(reviewed),
+      message: approve ? 'Report approved and shared with the client' : 'Report sent back for changes'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error reviewing daily report:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
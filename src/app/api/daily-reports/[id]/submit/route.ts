@@ -0,0 +1,107 @@
+// src/app/api/daily-reports/[id]/submit/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  dailyReportLabel,
+  dailyReportStatus,
+  toDailyReportReview,
+  DailyReportRecord,
+  DAILY_REPORTS_COLLECTION
+} from '@/lib/daily-reports';
+import { authorizeProject } from '@/lib/project-access';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// POST /api/daily-reports/[id]/submit - Send a draft, or a report sent back with changes, for review
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id } = await context.params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid report ID'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<DailyReportRecord>(DAILY_REPORTS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(id) });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Report not found'
+      }, { status: 404 });
+    }
+
+    const access = await authorizeProject(existing.project.toString(), session.user, 'submit_report');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const now = new Date();
+    const submitted = await collection.findOneAndUpdate(
+      { _id: existing._id, status: { $in: ['draft', 'changes_requested'] } },
+      {
+        $set: {
+          status: 'submitted',
+          submittedAt: now,
+          submittedBy: new ObjectId(session.user.id),
+          updatedAt: now
+        }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!submitted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only drafts and reports with requested changes can be submitted'
+      }, { status: 409 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'submitted',
+      entityType: 'daily_report',
+      entityId: id,
+      entityLabel: dailyReportLabel(existing.date),
+      projectId: existing.project,
+      changes: [{ field: 'status', before: dailyReportStatus(existing), after: 'submitted' }],
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: toDailyReportReview(submitted),
+      message: 'Report submitted for review'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error submitting daily report:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,172 @@
+// src/app/api/daily-reports/export/route.ts
+// Export a project's daily progress in the OliveHaus "Site Progress Report" spreadsheet layout
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { connectToDatabase, connectToMongoose } from "@/lib/db";
+import { clientVisibleDailyLogs } from "@/lib/daily-reports";
+import { authorizeProject } from "@/lib/project-access";
+import DailyProgress, { IDailyProgress } from "@/models/DailyProgress";
+import Project from "@/models/Project";
+import User from "@/models/User";
+import { Types } from "mongoose";
+import { ObjectId } from "mongodb";
+import {
+  buildSiteReportSheet,
+  toCsv,
+  SiteReportSheetRowKind
+} from "@/lib/site-report";
+import { buildXlsx, XlsxCellStyle } from "@/lib/xlsx";
+
+const SHEET_STYLES: Record<SiteReportSheetRowKind, XlsxCellStyle> = {
+  title: 'title',
+  header: 'normal',
+  blank: 'normal',
+  columns: 'header',
+  banner: 'banner',
+  week: 'bold',
+  activity: 'normal'
+};
+
+// DATE, TASK, CONTRACTOR, TASK STATUS, COMMENTS, IMAGES, INCIDENCE REPORT, SUPERVISOR
+const COLUMN_WIDTHS = [12, 40, 18, 14, 50, 40, 20, 16];
+
+// GET /api/daily-reports/export?projectId=&startDate=&endDate=&format=csv|xlsx
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get('projectId');
+    const startDate = searchParams.get('startDate');
+    const endDate = searchParams.get('endDate');
+    const format = searchParams.get('format') || 'csv';
+
+    if (!projectId || !Types.ObjectId.isValid(projectId)) {
+      return NextResponse.json(
+        { success: false, error: "A valid project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json(
+        { success: false, error: "Format must be csv or xlsx" },
+        { status: 400 }
+      );
+    }
+
+    const dateFilter: { $gte?: Date; $lte?: Date } = {};
+    if (startDate) dateFilter.$gte = new Date(startDate);
+    if (endDate) {
+      const end = new Date(endDate);
+      end.setUTCHours(23, 59, 59, 999);
+      dateFilter.$lte = end;
+    }
+
+    if (Object.values(dateFilter).some(date => isNaN(date.getTime()))) {
+      return NextResponse.json(
+        { success: false, error: "Invalid date range" },
+        { status: 400 }
+      );
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'view_daily_progress');
+    if (!access.ok) {
+      return NextResponse.json(
+        { success: false, error: access.error },
+        { status: access.status }
+      );
+    }
+
+    await connectToMongoose();
+
+    const project = await Project.findById(projectId);
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    const managerIds: string[] = (project.managers || []).map((m: unknown) => String(m));
+
+    const people = await User.find({ _id: { $in: [project.client, ...managerIds] } })
+      .select('name')
+      .lean() as unknown as Array<{ _id: Types.ObjectId; name: string }>;
+    const nameOf = (id: string) => people.find(person => person._id.toString() === id)?.name;
+
+    const logs = await DailyProgress.find({
+      project: new Types.ObjectId(projectId),
+      ...(Object.keys(dateFilter).length > 0 ? { date: dateFilter } : {})
+    })
+      .sort({ date: 1 })
+      .lean() as unknown as IDailyProgress[];
+
+    // Clients only see days whose daily report has been approved
+    const { db } = await connectToDatabase();
+    const reports = access.relation === 'client'
+      ? await clientVisibleDailyLogs(db, new ObjectId(projectId), logs)
+      : logs;
+
+    const sheet = buildSiteReportSheet(
+      {
+        title: project.title,
+        clientName: nameOf(project.client?.toString()),
+        siteAddress: project.siteAddress,
+        commencementDate: project.startDate,
+        projectDuration: project.projectDuration,
+        scopeOfWork: project.scopeOfWork,
+        designStyle: project.designStyle,
+        projectCoordinator: project.projectCoordinator,
+        projectManager: Array.from(new Set(managerIds))
+          .map(nameOf)
+          .filter(Boolean)
+          .join(', '),
+        siteOfficer: project.siteOfficer,
+        workDays: project.workDays
+      },
+      reports.map(report => ({ date: report.date, activities: report.activities || [] }))
+    );
+
+    const slug = project.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project';
+    const fileName = `${slug}-site-progress-report-${new Date().toISOString().split('T')[0]}.${format}`;
+
+    if (format === 'xlsx') {
+      const workbook = buildXlsx({
+        name: 'Site Progress Report',
+        columnWidths: COLUMN_WIDTHS,
+        rows: sheet.map(row => ({ cells: row.cells, style: SHEET_STYLES[row.kind] }))
+      });
+
+      return new NextResponse(new Uint8Array(workbook), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+          'Cache-Control': 'no-store'
+        }
+      });
+    }
+
+    return new NextResponse(toCsv(sheet), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error) {
+    console.error("Error exporting daily reports:", error);
+    return NextResponse.json(
+      { success: false, error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
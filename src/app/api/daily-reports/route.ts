@@ -3,6 +3,21 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { auditUpdateAction, diffFields, recordAudit } from '@/lib/audit';
+import { checkProjectPermission, ProjectAccessRecord } from '@/lib/project-access';
+import { linkContractorNames, loadContractorDirectory } from '@/lib/contractors';
+import {
+  dailyReportLabel,
+  dailyReportStatus,
+  dailyReportStatusFilter,
+  DAILY_REPORTS_COLLECTION
+} from '@/lib/daily-reports';
+import {
+  transformReviewComment,
+  DailyReportReviewComment,
+  DailyReportStatus,
+  DAILY_REPORT_STATUSES
+} from '@/lib/types/daily-report';
 import { writeFile, mkdir } from 'fs/promises';
 import { join } from 'path';
 
@@ -47,9 +62,19 @@ interface DailyReportResponse {
   createdBy: string;
   createdAt: string;
   updatedAt: string;
+  status: DailyReportStatus;
   approved: boolean;
+  reviewComments: DailyReportReviewComment[];
+  submittedAt?: string;
+  approvedAt?: string;
 }
 
+// Set only through the submit and review endpoints, never by a plain update
+const PROTECTED_FIELDS = [
+  '_id', 'project', 'createdBy', 'createdAt', 'status', 'approved', 'approvedBy', 'approvedAt',
+  'submittedAt', 'submittedBy', 'reviewComments'
+];
+
 // GET daily reports - with filtering and pagination
 export async function GET(request: NextRequest) {
   try {
@@ -72,24 +97,33 @@ export async function GET(request: NextRequest) {
     const endDate = searchParams.get('endDate');
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
+    const status = searchParams.get('status') as DailyReportStatus | null;
     const userRole = session.user.role;
     const userId = session.user.id;
 
     // Build filter based on user role
     const baseFilter: Record<string, unknown> = {};
 
+    if (status && !DAILY_REPORT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: "Invalid report status" },
+        { status: 400 }
+      );
+    }
+
     if (userRole === 'client') {
-      // Client can only see reports for their projects
+      // Client can only see approved reports for their projects
       const clientProjects = await db.collection('projects')
         .find({ client: new ObjectId(userId) })
         .project({ _id: 1 })
         .toArray();
       const projectIds = clientProjects.map(p => p._id);
       baseFilter.project = { $in: projectIds };
+      baseFilter.approved = true;
     } else if (userRole === 'project_manager') {
       // Project manager can see reports for their managed projects
       const managerProjects = await db.collection('projects')
-        .find({ manager: new ObjectId(userId) })
+        .find({ managers: new ObjectId(userId) })
         .project({ _id: 1 })
         .toArray();
       const projectIds = managerProjects.map(p => p._id);
@@ -99,9 +133,27 @@ export async function GET(request: NextRequest) {
 
     // Add specific filters with proper typing
     if (projectId) {
+      if (!ObjectId.isValid(projectId)) {
+        return NextResponse.json(
+          { error: "Invalid project ID" },
+          { status: 400 }
+        );
+      }
+      // Narrow within the projects the user can see, never widen past them
+      const visible = baseFilter.project as { $in: ObjectId[] } | undefined;
+      if (visible && !visible.$in.some(id => id.equals(projectId))) {
+        return NextResponse.json(
+          { error: "Access denied" },
+          { status: 403 }
+        );
+      }
       baseFilter.project = new ObjectId(projectId);
     }
 
+    if (status && userRole !== 'client') {
+      Object.assign(baseFilter, dailyReportStatusFilter(status));
+    }
+
     if (date) {
       const targetDate = new Date(date);
       const startOfDay = new Date(targetDate.setHours(0, 0, 0, 0));
@@ -154,8 +206,8 @@ export async function GET(request: NextRequest) {
       { $unset: ['projectData', 'creatorData'] }
     ];
 
-    const reports = await db.collection('dailyProgress').aggregate(pipeline).toArray();
-    const totalCount = await db.collection('dailyProgress').countDocuments(baseFilter);
+    const reports = await db.collection(DAILY_REPORTS_COLLECTION).aggregate(pipeline).toArray();
+    const totalCount = await db.collection(DAILY_REPORTS_COLLECTION).countDocuments(baseFilter);
 
     // Transform data for client consumption
     const transformedReports: DailyReportResponse[] = reports.map(report => ({
@@ -179,7 +231,11 @@ export async function GET(request: NextRequest) {
       createdBy: report.creator?.name || 'Unknown',
       createdAt: report.createdAt.toISOString(),
       updatedAt: report.updatedAt.toISOString(),
-      approved: report.approved || false
+      status: dailyReportStatus(report),
+      approved: report.approved || false,
+      reviewComments: (report.reviewComments || []).map(transformReviewComment),
+      submittedAt: report.submittedAt?.toISOString(),
+      approvedAt: report.approvedAt?.toISOString()
     }));
 
     return NextResponse.json({
@@ -216,14 +272,6 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Only project managers and super admins can create reports
-    if (!['project_manager', 'super_admin'].includes(session.user.role)) {
-      return NextResponse.json(
-        { error: "Only project managers and admins can create daily reports" },
-        { status: 403 }
-      );
-    }
-
     const { db } = await connectToDatabase();
     
     // Handle FormData for file uploads
@@ -235,6 +283,8 @@ export async function POST(request: NextRequest) {
     const activitiesStr = formData.get('activities') as string;
     const summaryStr = formData.get('summary') as string;
     const notes = formData.get('notes') as string;
+    // Reports go straight to review unless saved as a draft
+    const status: DailyReportStatus = formData.get('status') === 'draft' ? 'draft' : 'submitted';
 
     // Validate required fields
     if (!projectId || !date || !activitiesStr) {
@@ -259,7 +309,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify project exists and user has access
-    const project = await db.collection('projects')
+    const project = await db.collection<ProjectAccessRecord>('projects')
       .findOne({ _id: new ObjectId(projectId) });
 
     if (!project) {
@@ -269,12 +319,11 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Check authorization for project managers
-    if (session.user.role === 'project_manager' && 
-        project.manager.toString() !== session.user.id) {
+    const denied = checkProjectPermission(project, session.user, 'submit_report');
+    if (denied) {
       return NextResponse.json(
-        { error: "Unauthorized to create reports for this project" },
-        { status: 403 }
+        { error: denied.error },
+        { status: denied.status }
       );
     }
 
@@ -282,7 +331,7 @@ export async function POST(request: NextRequest) {
     const currentDate = new Date();
 
     // Check if report already exists for this date
-    const existingReport = await db.collection('dailyProgress')
+    const existingReport = await db.collection(DAILY_REPORTS_COLLECTION)
       .findOne({
         project: new ObjectId(projectId),
         date: {
@@ -346,11 +395,13 @@ export async function POST(request: NextRequest) {
     };
 
     // Create new daily report
+    const directory = await loadContractorDirectory(db);
     const newReport = {
       project: new ObjectId(projectId),
       date: new Date(date),
       activities: activities.map(activity => ({
         ...activity,
+        ...linkContractorNames({ contractor: activity.contractor, supervisor: activity.supervisor }, directory),
         _id: new ObjectId(),
         createdAt: currentDate,
         updatedAt: currentDate
@@ -361,17 +412,32 @@ export async function POST(request: NextRequest) {
       createdBy: new ObjectId(session.user.id),
       createdAt: currentDate,
       updatedAt: currentDate,
-      approved: false // Requires approval for client visibility
+      status,
+      approved: false, // Clients only see a report once it is approved
+      reviewComments: [],
+      ...(status === 'submitted' && { submittedAt: currentDate, submittedBy: new ObjectId(session.user.id) })
     };
 
-    const result = await db.collection('dailyProgress')
+    const result = await db.collection(DAILY_REPORTS_COLLECTION)
       .insertOne(newReport);
 
+    await recordAudit({
+      actor: session.user,
+      action: status === 'draft' ? 'created' : 'submitted',
+      entityType: 'daily_report',
+      entityId: result.insertedId,
+      entityLabel: dailyReportLabel(date),
+      projectId,
+      metadata: { activities: activities.length, photos: photoUrls.length },
+      request
+    });
+
     return NextResponse.json({
       success: true,
       data: {
         reportId: result.insertedId.toString(),
-        message: "Daily report created successfully"
+        status,
+        message: status === 'draft' ? "Daily report saved as draft" : "Daily report submitted for review"
       }
     });
 
@@ -396,14 +462,6 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Only project managers and super admins can update reports
-    if (!['project_manager', 'super_admin'].includes(session.user.role)) {
-      return NextResponse.json(
-        { error: "Only project managers and admins can update daily reports" },
-        { status: 403 }
-      );
-    }
-
     const { db } = await connectToDatabase();
     const body = await request.json();
     
@@ -415,7 +473,7 @@ export async function PUT(request: NextRequest) {
     }
 
     // Find existing report
-    const existingReport = await db.collection('dailyProgress')
+    const existingReport = await db.collection(DAILY_REPORTS_COLLECTION)
       .findOne({ _id: new ObjectId(body.reportId) });
 
     if (!existingReport) {
@@ -425,23 +483,37 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    // Check authorization for project managers
-    if (session.user.role === 'project_manager') {
-      const project = await db.collection('projects')
-        .findOne({ _id: existingReport.project });
-      
-      if (project?.manager.toString() !== session.user.id) {
-        return NextResponse.json(
-          { error: "Unauthorized to update this report" },
-          { status: 403 }
-        );
-      }
+    const project = await db.collection<ProjectAccessRecord>('projects')
+      .findOne({ _id: existingReport.project });
+    const denied = project
+      ? checkProjectPermission(project, session.user, 'submit_report')
+      : { status: 404, error: "Project not found" };
+    if (denied) {
+      return NextResponse.json(
+        { error: denied.error },
+        { status: denied.status }
+      );
+    }
+
+    if (existingReport.approved) {
+      return NextResponse.json(
+        { error: "Approved reports can't be edited" },
+        { status: 409 }
+      );
     }
 
     // Update summary if activities are provided
     const updateData = { ...body };
+    for (const field of PROTECTED_FIELDS) {
+      delete updateData[field];
+    }
     if (body.activities) {
-      const activities = body.activities;
+      const directory = await loadContractorDirectory(db);
+      const activities = (body.activities as DailyActivity[]).map(activity => ({
+        ...activity,
+        ...linkContractorNames({ contractor: activity.contractor, supervisor: activity.supervisor }, directory)
+      }));
+      updateData.activities = activities;
       updateData.summary = {
         ...existingReport.summary,
         totalActivities: activities.length,
@@ -459,11 +531,31 @@ export async function PUT(request: NextRequest) {
     // Remove reportId from update data
     delete updateData.reportId;
 
-    await db.collection('dailyProgress')
+    // A reviewer may have approved it since it was read
+    const result = await db.collection(DAILY_REPORTS_COLLECTION)
       .updateOne(
-        { _id: new ObjectId(body.reportId) },
+        { _id: new ObjectId(body.reportId), approved: { $ne: true } },
         { $set: updateData }
       );
+    if (result.matchedCount === 0) {
+      return NextResponse.json(
+        { error: "Approved reports can't be edited" },
+        { status: 409 }
+      );
+    }
+
+    const changes = diffFields(existingReport, updateData)
+      .filter(change => change.field !== 'updatedBy');
+    await recordAudit({
+      actor: session.user,
+      action: auditUpdateAction(changes),
+      entityType: 'daily_report',
+      entityId: body.reportId,
+      entityLabel: dailyReportLabel(existingReport.date),
+      projectId: existingReport.project,
+      changes,
+      request
+    });
 
     return NextResponse.json({
       success: true,
@@ -491,14 +583,6 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Only project managers and super admins can delete reports
-    if (!['project_manager', 'super_admin'].includes(session.user.role)) {
-      return NextResponse.json(
-        { error: "Only project managers and admins can delete daily reports" },
-        { status: 403 }
-      );
-    }
-
     const { searchParams } = new URL(request.url);
     const reportId = searchParams.get('id');
 
@@ -512,7 +596,7 @@ export async function DELETE(request: NextRequest) {
     const { db } = await connectToDatabase();
 
     // Find existing report
-    const existingReport = await db.collection('dailyProgress')
+    const existingReport = await db.collection(DAILY_REPORTS_COLLECTION)
       .findOne({ _id: new ObjectId(reportId) });
 
     if (!existingReport) {
@@ -522,23 +606,32 @@ export async function DELETE(request: NextRequest) {
       );
     }
 
-    // Check authorization for project managers
-    if (session.user.role === 'project_manager') {
-      const project = await db.collection('projects')
-        .findOne({ _id: existingReport.project });
-      
-      if (project?.manager.toString() !== session.user.id) {
-        return NextResponse.json(
-          { error: "Unauthorized to delete this report" },
-          { status: 403 }
-        );
-      }
+    const project = await db.collection<ProjectAccessRecord>('projects')
+      .findOne({ _id: existingReport.project });
+    const denied = project
+      ? checkProjectPermission(project, session.user, 'delete_report')
+      : { status: 404, error: "Project not found" };
+    if (denied) {
+      return NextResponse.json(
+        { error: denied.error },
+        { status: denied.status }
+      );
     }
 
     // Delete the report
-    await db.collection('dailyProgress')
+    await db.collection(DAILY_REPORTS_COLLECTION)
       .deleteOne({ _id: new ObjectId(reportId) });
 
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'daily_report',
+      entityId: reportId,
+      entityLabel: dailyReportLabel(existingReport.date),
+      projectId: existingReport.project,
+      request
+    });
+
     return NextResponse.json({
       success: true,
       message: "Daily report deleted successfully"
@@ -4,6 +4,7 @@ import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
 import { deleteFromCloudinary, extractCloudinaryPublicId } from '@/lib/cloudinary';
+import { recordAudit } from '@/lib/audit';
 
 interface RouteContext {
   params: Promise<{ id: string }>;
@@ -64,6 +65,14 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
       );
     }
 
+    // Approved designs are the record of what the client signed off
+    if (fileDoc.locked) {
+      return NextResponse.json(
+        { success: false, error: 'This file was approved by the client and is locked' },
+        { status: 409 }
+      );
+    }
+
     // Delete from Cloudinary (try cloudinaryId first, fall back to extracting from URL)
     let cloudinaryPublicId: string | null = fileDoc.cloudinaryId || null;
 
@@ -90,6 +99,17 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
       return NextResponse.json({ success: false, error: 'File record not found in database' }, { status: 404 });
     }
 
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'file',
+      entityId: fileId,
+      entityLabel: fileDoc.originalName || fileDoc.filename,
+      projectId: fileDoc.projectId,
+      metadata: { size: fileDoc.size, mimeType: fileDoc.mimeType },
+      request
+    });
+
     return NextResponse.json({ success: true, message: 'File deleted successfully' });
   } catch (error: unknown) {
     console.error('Error deleting file:', error);
@@ -19,6 +19,9 @@ interface FileDocument {
   description: string;
   isPublic: boolean;
   uploadedBy: ObjectId;
+  version: number;
+  parentFileId: ObjectId | null;
+  locked?: boolean;
   downloadCount: number;
   lastAccessedAt?: Date;
   createdAt: Date;
@@ -169,6 +172,7 @@ export async function POST(request: NextRequest) {
     const description = (formData.get('description') as string) || '';
     const tags = (formData.get('tags') as string) || '';
     const isPublic = formData.get('isPublic') === 'true';
+    const parentFileId = (formData.get('parentFileId') as string) || '';
 
     if (!file) {
       return NextResponse.json({ success: false, error: 'No file provided' }, { status: 400 });
@@ -178,6 +182,10 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: 'Valid project ID is required' }, { status: 400 });
     }
 
+    if (parentFileId && !ObjectId.isValid(parentFileId)) {
+      return NextResponse.json({ success: false, error: 'Invalid parent file ID' }, { status: 400 });
+    }
+
     if (!ALLOWED_TYPES.has(file.type)) {
       return NextResponse.json({ success: false, error: `File type "${file.type}" is not allowed` }, { status: 400 });
     }
@@ -200,6 +208,24 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ success: false, error: 'Project not found' }, { status: 404 });
     }
 
+    // A new version of an existing file continues its version history
+    let parent: FileDocument | null = null;
+    if (parentFileId) {
+      parent = await db.collection<FileDocument>('files').findOne({
+        _id: new ObjectId(parentFileId),
+        projectId: new ObjectId(projectId)
+      });
+      if (!parent) {
+        return NextResponse.json({ success: false, error: 'Parent file not found in this project' }, { status: 404 });
+      }
+      if (parent.locked) {
+        return NextResponse.json(
+          { success: false, error: 'This file was approved by the client and is locked' },
+          { status: 409 }
+        );
+      }
+    }
+
     // Upload to Cloudinary
     const arrayBuffer = await file.arrayBuffer();
     const buffer = Buffer.from(arrayBuffer);
@@ -228,6 +254,8 @@ export async function POST(request: NextRequest) {
       description,
       isPublic,
       uploadedBy: new ObjectId(session.user.id),
+      version: parent ? (parent.version || 1) + 1 : 1,
+      parentFileId: parent?._id || null,
       downloadCount: 0,
       createdAt: new Date(),
       updatedAt: new Date(),
@@ -251,6 +279,8 @@ export async function POST(request: NextRequest) {
           description: fileData.description,
           isPublic: fileData.isPublic,
           uploadedBy: { _id: session.user.id, name: session.user.name, email: session.user.email },
+          version: fileData.version,
+          parentFileId: fileData.parentFileId?.toString() || null,
           downloadCount: fileData.downloadCount,
           createdAt: fileData.createdAt.toISOString(),
           updatedAt: fileData.updatedAt.toISOString(),
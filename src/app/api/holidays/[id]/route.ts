@@ -0,0 +1,155 @@
+// src/app/api/holidays/[id]/route.ts - SINGLE PUBLIC HOLIDAY API (admin only)
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { ObjectId } from 'mongodb';
+import {
+  dateKey,
+  transformPublicHoliday,
+  PublicHolidayDocument
+} from '@/lib/working-calendar';
+
+interface HolidayPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// PUT /api/holidays/[id] - Correct a holiday's date or name; confirms tentative dates
+export async function PUT(
+  request: NextRequest,
+  { params }: HolidayPageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only administrators can manage public holidays'
+      }, { status: 403 });
+    }
+
+    const { id } = await params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid holiday ID'
+      }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const updateFields: Partial<PublicHolidayDocument> = {
+      tentative: false,
+      updatedAt: new Date()
+    };
+
+    if (body.name !== undefined) {
+      const name = typeof body.name === 'string' ? body.name.trim() : '';
+      if (!name) {
+        return NextResponse.json({
+          success: false,
+          error: 'Holiday name cannot be empty'
+        }, { status: 400 });
+      }
+      updateFields.name = name;
+    }
+
+    if (body.date !== undefined) {
+      const date = new Date(body.date);
+      if (isNaN(date.getTime())) {
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid holiday date'
+        }, { status: 400 });
+      }
+      updateFields.date = new Date(`${dateKey(date)}T00:00:00.000Z`);
+    }
+
+    const { db } = await connectToDatabase();
+    const holiday = await db.collection<PublicHolidayDocument>('public_holidays').findOneAndUpdate(
+      { _id: new ObjectId(id) },
+      { $set: updateFields },
+      { returnDocument: 'after' }
+    );
+
+    if (!holiday) {
+      return NextResponse.json({
+        success: false,
+        error: 'Holiday not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: transformPublicHoliday(holiday),
+      message: 'Holiday updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating public holiday:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/holidays/[id] - Remove a holiday
+export async function DELETE(
+  request: NextRequest,
+  { params }: HolidayPageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only administrators can manage public holidays'
+      }, { status: 403 });
+    }
+
+    const { id } = await params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid holiday ID'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const result = await db.collection('public_holidays').deleteOne({ _id: new ObjectId(id) });
+
+    if (result.deletedCount === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Holiday not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Holiday deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting public holiday:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,126 @@
+// src/app/api/holidays/route.ts - PUBLIC HOLIDAYS API
+// Nigerian public holidays are preloaded per year; admins confirm the tentative
+// Islamic dates and add any holidays the Federal Government declares.
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { ObjectId } from 'mongodb';
+import {
+  dateKey,
+  loadPublicHolidays,
+  transformPublicHoliday,
+  PublicHolidayDocument
+} from '@/lib/working-calendar';
+
+// GET /api/holidays?year=2026 - Public holidays for a year (defaults to the current year)
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const yearParam = new URL(request.url).searchParams.get('year');
+    const year = yearParam ? parseInt(yearParam, 10) : new Date().getUTCFullYear();
+
+    if (isNaN(year) || year < 2000 || year > 2100) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid year'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const holidays = await loadPublicHolidays(
+      db,
+      new Date(Date.UTC(year, 0, 1)),
+      new Date(Date.UTC(year, 11, 31))
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: holidays.map(transformPublicHoliday)
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching public holidays:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// POST /api/holidays - Add a public holiday (admin only)
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only administrators can manage public holidays'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const date = new Date(body.date);
+
+    if (!name || isNaN(date.getTime())) {
+      return NextResponse.json({
+        success: false,
+        error: 'Holiday name and a valid date are required'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const day = new Date(`${dateKey(date)}T00:00:00.000Z`);
+
+    // Make sure the year's presets exist first so they aren't seeded on top later
+    await loadPublicHolidays(db, day, day);
+
+    const existing = await db.collection<PublicHolidayDocument>('public_holidays').findOne({ date: day, name });
+    if (existing) {
+      return NextResponse.json({
+        success: false,
+        error: `${name} is already listed on ${dateKey(day)}`
+      }, { status: 409 });
+    }
+
+    const holiday: PublicHolidayDocument = {
+      date: day,
+      name,
+      source: 'custom',
+      tentative: false,
+      createdBy: new ObjectId(session.user.id),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    const result = await db.collection<PublicHolidayDocument>('public_holidays').insertOne(holiday);
+
+    return NextResponse.json({
+      success: true,
+      data: transformPublicHoliday({ ...holiday, _id: result.insertedId }),
+      message: 'Holiday added successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error adding public holiday:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+// src/app/api/jobs/run/route.ts - SCHEDULED JOB RUNNER (called by server.js)
+import { NextRequest, NextResponse } from 'next/server';
+import { connectToDatabase } from '@/lib/db';
+import { isSchedulerSecret, runDueJobs } from '@/lib/jobs';
+
+// POST /api/jobs/run - Run whichever scheduled jobs are due
+export async function POST(request: NextRequest) {
+  try {
+    if (!isSchedulerSecret(request.headers.get('x-jobs-secret'))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const results = await runDueJobs(db);
+
+    return NextResponse.json({
+      success: true,
+      data: { results }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error running scheduled jobs:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
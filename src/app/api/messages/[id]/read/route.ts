@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { broadcastDirectMessagesRead } from '@/lib/messages';
 
 interface MessageReadProps {
   params: Promise<{ id: string }>;
@@ -32,8 +33,9 @@ export async function PUT(
     }
 
     const { db } = await connectToDatabase();
+    const readAt = new Date();
     
-    const result = await db.collection('messages').updateOne(
+    const message = await db.collection('messages').findOneAndUpdate(
       { 
         _id: new ObjectId(id),
         recipientId: new ObjectId(session.user.id)
@@ -41,18 +43,22 @@ export async function PUT(
       { 
         $set: { 
           isRead: true,
-          readAt: new Date()
+          readAt
         }
       }
     );
 
-    if (result.matchedCount === 0) {
+    if (!message) {
       return NextResponse.json({ 
         success: false, 
         error: 'Message not found or access denied' 
       }, { status: 404 });
     }
 
+    if (!message.isRead) {
+      broadcastDirectMessagesRead(message.senderId.toString(), session.user.id, readAt);
+    }
+
     return NextResponse.json({
       success: true,
       data: { message: 'Message marked as read' }
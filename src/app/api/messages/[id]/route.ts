@@ -0,0 +1,106 @@
+// src/app/api/messages/[id]/route.ts - Edit or delete a direct message
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { ObjectId } from 'mongodb';
+import { deleteDirectMessage, editDirectMessage } from '@/lib/messages';
+
+interface MessageProps {
+  params: Promise<{ id: string }>;
+}
+
+// PATCH /api/messages/[id] - Edit your own message
+export async function PATCH(
+  request: NextRequest,
+  { params }: MessageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid message ID'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const result = await editDirectMessage(db, id, session.user.id, await request.json());
+
+    if ('error' in result) {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.message
+    });
+
+  } catch (error: unknown) {
+    console.error('Error editing message:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/messages/[id] - Delete your own message, leaving a placeholder
+export async function DELETE(
+  request: NextRequest,
+  { params }: MessageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id } = await params;
+
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid message ID'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const result = await deleteDirectMessage(db, id, session.user.id);
+
+    if ('error' in result) {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.message
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting message:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+// src/app/api/messages/channels/route.ts
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { loadProjectChannels } from '@/lib/project-channels';
+
+// GET /api/messages/channels - The project channels the current user belongs to
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+
+    return NextResponse.json({
+      success: true,
+      data: await loadProjectChannels(db, session.user)
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching project channels:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -78,6 +78,8 @@ export async function GET() {
               { senderId: currentUserId },
               { recipientId: currentUserId }
             ],
+            // Project channel messages (no recipient) are listed by /api/messages/channels
+            recipientId: { $ne: null },
             isDeleted: false
           }
         },
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { broadcastDirectMessagesRead } from '@/lib/messages';
 
 interface MarkReadRequest {
   participantId: string;
@@ -28,6 +29,7 @@ export async function POST(request: NextRequest) {
     const participantObjectId = new ObjectId(participantId);
 
     // Mark all messages from the participant as read
+    const readAt = new Date();
     const result = await db.collection('messages').updateMany(
       {
         senderId: participantObjectId,
@@ -38,11 +40,16 @@ export async function POST(request: NextRequest) {
       {
         $set: {
           isRead: true,
-          updatedAt: new Date()
+          readAt,
+          updatedAt: readAt
         }
       }
     );
 
+    if (result.modifiedCount > 0) {
+      broadcastDirectMessagesRead(participantId, session.user.id, readAt);
+    }
+
     return NextResponse.json({
       success: true,
       markedCount: result.modifiedCount
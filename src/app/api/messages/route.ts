@@ -41,7 +41,7 @@ interface MessageReaction {
 // Database query filter types
 interface ProjectMessageFilter {
   projectId: ObjectId;
-  isDeleted: boolean;
+  isDeleted?: boolean;
   $or: Array<{
     senderId: ObjectId;
     recipientId: ObjectId;
@@ -55,7 +55,7 @@ interface DirectMessageFilter {
     senderId: ObjectId;
     recipientId: ObjectId;
   }>;
-  isDeleted: boolean;
+  isDeleted?: boolean;
   projectId: { $exists: false };
   recipientId?: ObjectId;
   isRead?: boolean;
@@ -107,6 +107,14 @@ interface PopulatedMessage extends Omit<MessageDocument, 'senderId' | 'recipient
   project?: Pick<DatabaseProject, '_id' | 'title'>;
 }
 
+// Deleted messages stay in the conversation as placeholders, without their content
+const redactDeleted = {
+  $set: {
+    content: { $cond: ['$isDeleted', '', '$content'] },
+    attachments: { $cond: ['$isDeleted', [], '$attachments'] }
+  }
+};
+
 // GET /api/messages - Retrieve messages for a project or direct conversation
 export async function GET(request: NextRequest) {
   try {
@@ -174,7 +182,6 @@ export async function GET(request: NextRequest) {
       // Build type-safe query for project messages
       const projectQuery: ProjectMessageFilter = {
         projectId: projectObjectId,
-        isDeleted: false,
         $or: [
           { senderId: currentUserId, recipientId: participantObjectId },
           { senderId: participantObjectId, recipientId: currentUserId }
@@ -184,6 +191,7 @@ export async function GET(request: NextRequest) {
       if (unreadOnly) {
         projectQuery.recipientId = currentUserId;
         projectQuery.isRead = false;
+        projectQuery.isDeleted = false;
       }
 
       const projectMessages = await db.collection('messages')
@@ -192,6 +200,7 @@ export async function GET(request: NextRequest) {
           { $sort: { createdAt: 1 } },
           { $skip: (page - 1) * limit },
           { $limit: limit },
+          redactDeleted,
           {
             $lookup: {
               from: 'users',
@@ -283,13 +292,13 @@ export async function GET(request: NextRequest) {
           { senderId: currentUserId, recipientId: participantObjectId },
           { senderId: participantObjectId, recipientId: currentUserId }
         ],
-        isDeleted: false,
         projectId: { $exists: false } // Only direct messages without project context
       };
 
       if (unreadOnly) {
         directQuery.recipientId = currentUserId;
         directQuery.isRead = false;
+        directQuery.isDeleted = false;
       }
 
       const directMessages = await db.collection('messages')
@@ -298,6 +307,7 @@ export async function GET(request: NextRequest) {
           { $sort: { createdAt: 1 } },
           { $skip: (page - 1) * limit },
           { $limit: limit },
+          redactDeleted,
           {
             $lookup: {
               from: 'users',
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { dispatchNotifications } from '@/lib/notifications';
 
 interface NotificationDocument {
   _id?: ObjectId;
@@ -55,6 +56,8 @@ export async function GET(request: NextRequest) {
     // Build query
     const query: Record<string, unknown> = {
       recipientId: new ObjectId(session.user.id),
+      // Types the user routed away from in-app (email-only, digest-only) stay out of the list
+      inApp: { $ne: false },
       $or: [
         { expiresAt: { $exists: false } },
         { expiresAt: { $gt: new Date() } }
@@ -102,6 +105,7 @@ export async function GET(request: NextRequest) {
     const unreadCount = await db.collection('notifications').countDocuments({
       recipientId: new ObjectId(session.user.id),
       isRead: false,
+      inApp: { $ne: false },
       $or: [
         { expiresAt: { $exists: false } },
         { expiresAt: { $gt: new Date() } }
@@ -199,12 +203,12 @@ export async function POST(request: NextRequest) {
       updatedAt: new Date()
     };
 
-    const result = await db.collection('notifications').insertOne(notificationData);
+    const [insertedId] = await dispatchNotifications(db, [notificationData]);
 
     // Get created notification with sender info
     const createdNotification = await db.collection('notifications')
       .aggregate([
-        { $match: { _id: result.insertedId } },
+        { $match: { _id: insertedId } },
         {
           $lookup: {
             from: 'users',
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { PUSH_SUBSCRIPTIONS_COLLECTION, PushSubscriptionRecord } from '@/lib/push';
 
 // POST /api/notifications/subscribe - Subscribe to push notifications
 export async function POST(request: NextRequest) {
@@ -27,14 +28,20 @@ export async function POST(request: NextRequest) {
 
     const { db } = await connectToDatabase();
     
-    // Store or update push subscription
-    await db.collection('push_subscriptions').replaceOne(
-      { userId: new ObjectId(session.user.id) },
+    // One subscription per browser, so a user can get pushes on every device
+    // they signed in from; a browser that changes hands moves to the new user
+    const now = new Date();
+    const userAgent = request.headers.get('user-agent');
+    await db.collection<PushSubscriptionRecord>(PUSH_SUBSCRIPTIONS_COLLECTION).updateOne(
+      { 'subscription.endpoint': subscription.endpoint },
       {
-        userId: new ObjectId(session.user.id),
-        subscription,
-        createdAt: new Date(),
-        updatedAt: new Date()
+        $set: {
+          userId: new ObjectId(session.user.id),
+          subscription,
+          ...(userAgent ? { userAgent } : {}),
+          updatedAt: now
+        },
+        $setOnInsert: { createdAt: now }
       },
       { upsert: true }
     );
@@ -55,6 +62,7 @@ export async function POST(request: NextRequest) {
 }
 
 // DELETE /api/notifications/subscribe - Unsubscribe from push notifications
+// Body (optional): { endpoint }
 export async function DELETE(request: NextRequest) {
   try {
     const session = await auth();
@@ -65,10 +73,15 @@ export async function DELETE(request: NextRequest) {
       }, { status: 401 });
     }
 
+    // Without an endpoint every browser the user subscribed from is removed
+    const body = await request.json().catch(() => ({}));
+    const endpoint = typeof body.endpoint === 'string' ? body.endpoint : null;
+
     const { db } = await connectToDatabase();
     
-    await db.collection('push_subscriptions').deleteOne({
-      userId: new ObjectId(session.user.id)
+    await db.collection<PushSubscriptionRecord>(PUSH_SUBSCRIPTIONS_COLLECTION).deleteMany({
+      userId: new ObjectId(session.user.id),
+      ...(endpoint ? { 'subscription.endpoint': endpoint } : {})
     });
 
     return NextResponse.json({
@@ -0,0 +1,34 @@
+// src/app/api/notifications/vapid-key/route.ts - Public key browsers subscribe to push with
+import { NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { getVapidKeys } from '@/lib/push';
+
+// GET /api/notifications/vapid-key - The VAPID public key push messages are signed with
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { db } = await connectToDatabase();
+    const { publicKey } = await getVapidKeys(db);
+
+    return NextResponse.json({
+      success: true,
+      data: { publicKey }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching VAPID public key:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
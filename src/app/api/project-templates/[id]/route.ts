@@ -0,0 +1,208 @@
+// src/app/api/project-templates/[id]/route.ts - SINGLE PROJECT TEMPLATE API
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { ObjectId } from 'mongodb';
+import { parseTemplateInput } from '@/lib/project-templates';
+import { ProjectTemplateDocument, transformProjectTemplate } from '@/lib/types/template';
+
+interface TemplatePageProps {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/project-templates/[id] - Full template with phases, activities and milestones
+export async function GET(
+  request: NextRequest,
+  { params }: TemplatePageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin' && session.user.role !== 'project_manager') {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view project templates'
+      }, { status: 403 });
+    }
+
+    const { id } = await params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid template ID'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const template = await db.collection<ProjectTemplateDocument>('project_templates').findOne({ _id: new ObjectId(id) });
+
+    if (!template) {
+      return NextResponse.json({
+        success: false,
+        error: 'Template not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: transformProjectTemplate(template)
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching project template:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// PUT /api/project-templates/[id] - Replace a template (admin only)
+// Projects already created from the template keep their own schedule
+export async function PUT(
+  request: NextRequest,
+  { params }: TemplatePageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only administrators can manage project templates'
+      }, { status: 403 });
+    }
+
+    const { id } = await params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid template ID'
+      }, { status: 400 });
+    }
+
+    const parsed = parseTemplateInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const templateId = new ObjectId(id);
+
+    const duplicate = await db.collection<ProjectTemplateDocument>('project_templates').findOne({
+      name: parsed.template.name,
+      _id: { $ne: templateId }
+    });
+    if (duplicate) {
+      return NextResponse.json({
+        success: false,
+        error: `A template named "${parsed.template.name}" already exists`
+      }, { status: 409 });
+    }
+
+    const template = await db.collection<ProjectTemplateDocument>('project_templates').findOneAndUpdate(
+      { _id: templateId },
+      {
+        $set: {
+          name: parsed.template.name,
+          description: parsed.template.description,
+          phases: parsed.template.phases,
+          milestones: parsed.template.milestones,
+          updatedAt: new Date()
+        }
+      },
+      { returnDocument: 'after' }
+    );
+
+    if (!template) {
+      return NextResponse.json({
+        success: false,
+        error: 'Template not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: transformProjectTemplate(template),
+      message: 'Template updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating project template:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/project-templates/[id] - Remove a template (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: TemplatePageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only administrators can manage project templates'
+      }, { status: 403 });
+    }
+
+    const { id } = await params;
+    if (!ObjectId.isValid(id)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid template ID'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const result = await db.collection('project_templates').deleteOne({ _id: new ObjectId(id) });
+
+    if (result.deletedCount === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Template not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Template deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting project template:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
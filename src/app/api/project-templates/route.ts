@@ -0,0 +1,155 @@
+// src/app/api/project-templates/route.ts - PROJECT TEMPLATES API
+// Templates hold the phases, activities and milestones a new project starts with.
+// Admins maintain them; managers can list them when setting up a project.
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { ObjectId } from 'mongodb';
+import {
+  ensureDefaultTemplate,
+  parseTemplateInput,
+  templateFromProject,
+  TemplateSourceProject
+} from '@/lib/project-templates';
+import { CalendarProject, loadProjectCalendar } from '@/lib/working-calendar';
+import type { MilestoneDocument } from '@/lib/types/milestone';
+import {
+  ProjectTemplateDocument,
+  summarizeProjectTemplate,
+  transformProjectTemplate
+} from '@/lib/types/template';
+
+// GET /api/project-templates - List templates (admin and project managers)
+export async function GET() {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin' && session.user.role !== 'project_manager') {
+      return NextResponse.json({
+        success: false,
+        error: 'Insufficient permissions to view project templates'
+      }, { status: 403 });
+    }
+
+    const { db } = await connectToDatabase();
+    await ensureDefaultTemplate(db);
+
+    const templates = await db.collection<ProjectTemplateDocument>('project_templates')
+      .find({})
+      .sort({ name: 1 })
+      .toArray();
+
+    return NextResponse.json({
+      success: true,
+      data: templates.map(summarizeProjectTemplate)
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching project templates:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// POST /api/project-templates - Create a template (admin only)
+// Accepts a full template, or { fromProjectId, name, description } to save an
+// existing project's schedule and milestones as a template
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    if (session.user.role !== 'super_admin') {
+      return NextResponse.json({
+        success: false,
+        error: 'Only administrators can manage project templates'
+      }, { status: 403 });
+    }
+
+    const body = await request.json();
+    const { db } = await connectToDatabase();
+
+    let input: unknown = body;
+    if (body.fromProjectId !== undefined) {
+      if (!ObjectId.isValid(body.fromProjectId)) {
+        return NextResponse.json({
+          success: false,
+          error: 'Invalid project ID'
+        }, { status: 400 });
+      }
+
+      const projectId = new ObjectId(body.fromProjectId);
+      const project = await db.collection<TemplateSourceProject & CalendarProject>('projects').findOne({ _id: projectId });
+      if (!project) {
+        return NextResponse.json({
+          success: false,
+          error: 'Project not found'
+        }, { status: 404 });
+      }
+
+      const trackerMilestones = await db.collection<MilestoneDocument>('milestones')
+        .find({ projectId })
+        .sort({ createdAt: 1 })
+        .toArray();
+
+      const calendar = await loadProjectCalendar(db, project);
+      input = {
+        name: body.name,
+        description: body.description,
+        ...templateFromProject(project, trackerMilestones, calendar)
+      };
+    }
+
+    const parsed = parseTemplateInput(input);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const existing = await db.collection<ProjectTemplateDocument>('project_templates').findOne({ name: parsed.template.name });
+    if (existing) {
+      return NextResponse.json({
+        success: false,
+        error: `A template named "${parsed.template.name}" already exists`
+      }, { status: 409 });
+    }
+
+    const template: ProjectTemplateDocument = {
+      ...parsed.template,
+      createdBy: new ObjectId(session.user.id),
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    const result = await db.collection<ProjectTemplateDocument>('project_templates').insertOne(template);
+
+    return NextResponse.json({
+      success: true,
+      data: transformProjectTemplate({ ...template, _id: result.insertedId }),
+      message: 'Template saved successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error creating project template:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -8,6 +8,7 @@ import { connectToMongoose } from '@/lib/db';
 import Project from '@/models/Project';
 import User from '@/models/User';
 import { Types } from 'mongoose';
+import { checkProjectPermission } from '@/lib/project-access';
 import type {
   AddCommentRequest,
   ActivityComment,
@@ -107,18 +108,11 @@ export async function POST(
       );
     }
 
-    // Check access rights
-    const hasAccess =
-      session.user.role === 'super_admin' ||
-      project.client.toString() === session.user.id ||
-      (project.managers && project.managers.some(
-        (m: Types.ObjectId) => m.toString() === session.user.id
-      ));
-
-    if (!hasAccess) {
+    const denied = checkProjectPermission(project, session.user, 'comment_activity');
+    if (denied) {
       return NextResponse.json<ActivityApiError>(
-        { success: false, error: 'Access denied to this project' },
-        { status: 403 }
+        { success: false, error: denied.error },
+        { status: denied.status }
       );
     }
 
@@ -252,17 +246,11 @@ export async function GET(
       );
     }
 
-    const hasAccess =
-      session.user.role === 'super_admin' ||
-      project.client.toString() === session.user.id ||
-      (project.managers && project.managers.some(
-        (m: Types.ObjectId) => m.toString() === session.user.id
-      ));
-
-    if (!hasAccess) {
+    const denied = checkProjectPermission(project, session.user, 'view_schedule');
+    if (denied) {
       return NextResponse.json<ActivityApiError>(
-        { success: false, error: 'Access denied to this project' },
-        { status: 403 }
+        { success: false, error: denied.error },
+        { status: denied.status }
       );
     }
 
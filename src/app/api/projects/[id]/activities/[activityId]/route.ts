@@ -4,9 +4,16 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
-import { connectToMongoose } from '@/lib/db';
+import { connectToDatabase, connectToMongoose } from '@/lib/db';
 import Project from '@/models/Project';
 import { Types } from 'mongoose';
+import { auditUpdateAction, diffFields, recordAudit, snapshotFields } from '@/lib/audit';
+import { checkProjectPermission } from '@/lib/project-access';
+import { resolveContractorLinks } from '@/lib/contractors';
+import { checkDeliveryConflicts } from '@/lib/procurement';
+import { ActivityShift, SchedulePhaseInput } from '@/lib/scheduling';
+import { applyScheduleShifts, planScheduleChange } from '@/lib/schedule-changes';
+import { loadProjectCalendar } from '@/lib/working-calendar';
 import type {
   UpdateActivityRequest,
   ActivityApiResponse,
@@ -26,10 +33,8 @@ interface AuthSession {
   user: SessionUser;
 }
 
-// Helper: Validate authentication
-async function validateAuth(
-  allowedRoles: string[]
-): Promise<{ error: NextResponse<ActivityApiError> | null; session: AuthSession | null }> {
+// Helper: Validate authentication (project permissions are checked per route)
+async function validateAuth(): Promise<{ error: NextResponse<ActivityApiError> | null; session: AuthSession | null }> {
   const session = await auth() as AuthSession | null;
   
   if (!session) {
@@ -42,19 +47,15 @@ async function validateAuth(
     };
   }
 
-  if (!allowedRoles.includes(session.user.role)) {
-    return {
-      error: NextResponse.json<ActivityApiError>(
-        { success: false, error: `Access denied - ${session.user.role} not allowed` },
-        { status: 403 }
-      ),
-      session: null
-    };
-  }
-
   return { error: null, session };
 }
 
+// Activity fields tracked in the audit trail
+const AUDITED_ACTIVITY_FIELDS = [
+  'title', 'description', 'status', 'priority', 'category', 'progress',
+  'contractor', 'supervisor', 'startDate', 'endDate', 'estimatedDuration', 'actualDuration'
+];
+
 // Helper: Transform MongoDB activity to API response format
 function transformActivity(
   projectId: string,
@@ -123,11 +124,7 @@ export async function GET(
   { params }: { params: Promise<{ id: string; activityId: string }> }
 ): Promise<NextResponse<ActivityApiResponse | ActivityApiError>> {
   try {
-    const { error: authError, session } = await validateAuth([
-      'super_admin',
-      'project_manager',
-      'client'
-    ]);
+    const { error: authError, session } = await validateAuth();
     if (authError || !session) {
       return authError as NextResponse<ActivityApiError>;
     }
@@ -156,18 +153,11 @@ export async function GET(
       );
     }
 
-    // Check access rights
-    const hasAccess =
-      session.user.role === 'super_admin' ||
-      project.client.toString() === session.user.id ||
-      (project.managers && project.managers.some(
-        (m: Types.ObjectId) => m.toString() === session.user.id
-      ));
-
-    if (!hasAccess) {
+    const denied = checkProjectPermission(project, session.user, 'view_schedule');
+    if (denied) {
       return NextResponse.json<ActivityApiError>(
-        { success: false, error: 'Access denied to this project' },
-        { status: 403 }
+        { success: false, error: denied.error },
+        { status: denied.status }
       );
     }
 
@@ -223,10 +213,7 @@ export async function PUT(
   { params }: { params: Promise<{ id: string; activityId: string }> }
 ): Promise<NextResponse<ActivityApiResponse | ActivityApiError>> {
   try {
-    const { error: authError, session } = await validateAuth([
-      'super_admin',
-      'project_manager'
-    ]);
+    const { error: authError, session } = await validateAuth();
     if (authError || !session) {
       return authError as NextResponse<ActivityApiError>;
     }
@@ -276,23 +263,27 @@ export async function PUT(
       );
     }
 
-    // Check authorization
-    const isAuthorized =
-      session.user.role === 'super_admin' ||
-      (project.managers && project.managers.some(
-        (m: Types.ObjectId) => m.toString() === session.user.id
-      ));
-
-    if (!isAuthorized) {
+    const denied = checkProjectPermission(project, session.user, 'edit_activity');
+    if (denied) {
       return NextResponse.json<ActivityApiError>(
-        { success: false, error: 'Not authorized to edit this project' },
-        { status: 403 }
+        { success: false, error: denied.error },
+        { status: denied.status }
       );
     }
 
+    const { db } = await connectToDatabase();
+    const contractorLinks = await resolveContractorLinks(db, {
+      contractor: body.contractor,
+      supervisor: body.supervisor
+    });
+
+    // The schedule as it was, to check the edit against
+    const previousPhases: SchedulePhaseInput[] = project.toObject().siteSchedule?.phases || [];
+
     // Find and update the activity
     let updated = false;
     let updatedActivity: Record<string, unknown> | null = null;
+    let previousFields: Record<string, unknown> = {};
     let phaseId = '';
 
     if (project.siteSchedule && project.siteSchedule.phases) {
@@ -304,6 +295,7 @@ export async function PUT(
 
           if (activityIndex !== -1) {
             const activity = phase.activities[activityIndex];
+            previousFields = snapshotFields(activity, AUDITED_ACTIVITY_FIELDS);
 
             // Update fields
             if (body.title !== undefined) activity.title = body.title;
@@ -312,8 +304,7 @@ export async function PUT(
             if (body.priority !== undefined) activity.priority = body.priority;
             if (body.category !== undefined) activity.category = body.category;
             if (body.progress !== undefined) activity.progress = body.progress;
-            if (body.contractor !== undefined) activity.contractor = body.contractor;
-            if (body.supervisor !== undefined) activity.supervisor = body.supervisor;
+            Object.assign(activity, contractorLinks);
             if (body.estimatedDuration !== undefined) activity.estimatedDuration = body.estimatedDuration;
             if (body.actualDuration !== undefined) activity.actualDuration = body.actualDuration;
 
@@ -355,15 +346,53 @@ export async function PUT(
       );
     }
 
+    // A date or dependency change must not make the schedule circular, and
+    // dependents of a later finish move with it
+    let shifts: ActivityShift[] = [];
+    if (body.startDate !== undefined || body.endDate !== undefined || body.dependencies !== undefined) {
+      const phases = project.siteSchedule!.phases as SchedulePhaseInput[];
+      const plan = planScheduleChange(previousPhases, phases, await loadProjectCalendar(db, project));
+      if ('error' in plan) {
+        return NextResponse.json<ActivityApiError>(
+          { success: false, error: plan.error },
+          { status: plan.status }
+        );
+      }
+      applyScheduleShifts(phases, plan.shifts);
+      shifts = plan.shifts;
+    }
+
     // Save the project (triggers middleware to update progress)
     await project.save();
 
+    const changes = diffFields(previousFields, snapshotFields(updatedActivity, AUDITED_ACTIVITY_FIELDS), AUDITED_ACTIVITY_FIELDS);
+    await recordAudit({
+      actor: session.user,
+      action: auditUpdateAction(changes),
+      entityType: 'activity',
+      entityId: activityId,
+      entityLabel: updatedActivity.title as string,
+      projectId,
+      changes,
+      metadata: shifts.length > 0
+        ? { shiftedActivities: shifts.map(shift => shift.title) }
+        : undefined,
+      request
+    });
+
+    // A moved start can leave linked procurement items arriving too late
+    if (changes.some(change => change.field === 'startDate') || shifts.length > 0) {
+      await checkDeliveryConflicts(db, new Types.ObjectId(projectId), session.user.id);
+    }
+
     const activityData = transformActivity(projectId, phaseId, updatedActivity);
 
     return NextResponse.json<ActivityApiResponse>({
       success: true,
       data: activityData,
-      message: 'Activity updated successfully'
+      message: shifts.length > 0
+        ? `Activity updated; ${shifts.length} dependent activities moved`
+        : 'Activity updated successfully'
     });
 
   } catch (error) {
@@ -385,10 +414,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string; activityId: string }> }
 ): Promise<NextResponse<ActivityApiResponse | ActivityApiError>> {
   try {
-    const { error: authError, session } = await validateAuth([
-      'super_admin',
-      'project_manager'
-    ]);
+    const { error: authError, session } = await validateAuth();
     if (authError || !session) {
       return authError as NextResponse<ActivityApiError>;
     }
@@ -415,16 +441,11 @@ export async function DELETE(
       );
     }
 
-    const isAuthorized =
-      session.user.role === 'super_admin' ||
-      (project.managers && project.managers.some(
-        (m: Types.ObjectId) => m.toString() === session.user.id
-      ));
-
-    if (!isAuthorized) {
+    const denied = checkProjectPermission(project, session.user, 'delete_activity');
+    if (denied) {
       return NextResponse.json<ActivityApiError>(
-        { success: false, error: 'Not authorized to delete activities' },
-        { status: 403 }
+        { success: false, error: denied.error },
+        { status: denied.status }
       );
     }
 
@@ -457,6 +478,16 @@ export async function DELETE(
 
     await project.save();
 
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'activity',
+      entityId: activityId,
+      entityLabel: deletedActivity.title as string,
+      projectId,
+      request
+    });
+
     return NextResponse.json<ActivityApiResponse>({
       success: true,
       data: transformActivity(projectId, '', deletedActivity),
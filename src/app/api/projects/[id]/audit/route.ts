@@ -0,0 +1,68 @@
+// src/app/api/projects/[id]/audit/route.ts - PROJECT HISTORY API
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { authorizeProject } from '@/lib/project-access';
+import { buildAuditQuery, findAuditLogs, parseAuditFilters, redactAuditLog, scopeAuditQuery } from '@/lib/audit';
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const MAX_LIMIT = 100;
+
+// GET /api/projects/[id]/audit?entityType=&action=&from=&to=&search=&page=&limit= - Change history for one project
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id } = await params;
+    const access = await authorizeProject(id, session.user, 'view_history');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '25', 10) || 25, 1), MAX_LIMIT);
+
+    // The project filter always wins over anything in the query string
+    const filters = { ...parseAuditFilters(searchParams), projectId: id };
+
+    const { db } = await connectToDatabase();
+    const query = scopeAuditQuery(buildAuditQuery(filters), access.relation);
+    const { logs, total } = await findAuditLogs(db, query, { page, limit });
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        logs: access.relation === 'client' ? logs.map(redactAuditLog) : logs,
+        pagination: {
+          page,
+          limit,
+          total,
+          pages: Math.ceil(total / limit),
+          hasNext: page < Math.ceil(total / limit),
+          hasPrev: page > 1
+        }
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching project history:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,203 @@
+// src/app/api/projects/[id]/budget/costs/[costId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { diffFields, recordAudit } from '@/lib/audit';
+import { parseCostInput, PROJECT_COSTS_COLLECTION } from '@/lib/budget';
+import { deleteFromCloudinary, extractCloudinaryPublicId } from '@/lib/cloudinary';
+import { authorizeProject } from '@/lib/project-access';
+import { CostEntryDocument, transformCostEntry } from '@/lib/types/budget';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    costId: string;
+  }>;
+}
+
+// Receipts are images or PDFs; Cloudinary stores PDFs as images too
+async function removeReceipt(cost: Pick<CostEntryDocument, 'receiptUrl' | 'receiptKey'>): Promise<void> {
+  const publicId = cost.receiptKey ||
+    (cost.receiptUrl?.includes('res.cloudinary.com') ? extractCloudinaryPublicId(cost.receiptUrl) : null);
+  if (!publicId) return;
+
+  try {
+    const resourceType = cost.receiptUrl?.includes('/raw/upload/') ? 'raw' : 'image';
+    await deleteFromCloudinary(publicId, resourceType);
+  } catch (err) {
+    console.warn('Cloudinary deletion warning (proceeding with DB update):', err);
+  }
+}
+
+// PATCH /api/projects/[id]/budget/costs/[costId] - Update a cost entry
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, costId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(costId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'manage_budget');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parseCostInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<CostEntryDocument>(PROJECT_COSTS_COLLECTION);
+    const filter = { _id: new ObjectId(costId), projectId: access.project._id };
+
+    const existing = await collection.findOne(filter);
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Cost entry not found'
+      }, { status: 404 });
+    }
+
+    const { receiptUrl, receiptKey, ...fields } = parsed.cost;
+    const update = receiptUrl
+      ? { $set: { ...fields, receiptUrl, receiptKey, updatedAt: new Date() } }
+      : { $set: { ...fields, updatedAt: new Date() }, $unset: { receiptUrl: '' as const, receiptKey: '' as const } };
+
+    const updated = await collection.findOneAndUpdate(filter, update, { returnDocument: 'after' });
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: 'Cost entry not found'
+      }, { status: 404 });
+    }
+
+    if (existing.receiptUrl && existing.receiptUrl !== receiptUrl) {
+      await removeReceipt(existing);
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'updated',
+      entityType: 'cost',
+      entityId: costId,
+      entityLabel: updated.description,
+      projectId,
+      changes: diffFields(existing, parsed.cost, [
+        'kind', 'category', 'description', 'amount', 'vendor', 'reference', 'date', 'receiptUrl'
+      ]),
+      request
+    });
+
+    const creator = await db.collection('users').findOne(
+      { _id: updated.createdBy },
+      { projection: { name: 1 } }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: transformCostEntry(updated, creator?.name),
+      message: 'Cost entry updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating cost entry:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[id]/budget/costs/[costId] - Remove a cost entry and its receipt
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, costId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(costId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'manage_budget');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const deleted = await db.collection<CostEntryDocument>(PROJECT_COSTS_COLLECTION).findOneAndDelete({
+      _id: new ObjectId(costId),
+      projectId: access.project._id
+    });
+
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Cost entry not found'
+      }, { status: 404 });
+    }
+
+    await removeReceipt(deleted);
+
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'cost',
+      entityId: costId,
+      entityLabel: deleted.description,
+      projectId,
+      metadata: { kind: deleted.kind, amount: deleted.amount },
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Cost entry deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting cost entry:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
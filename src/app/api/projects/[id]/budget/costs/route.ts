@@ -0,0 +1,86 @@
+// src/app/api/projects/[id]/budget/costs/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import { parseCostInput, PROJECT_COSTS_COLLECTION } from '@/lib/budget';
+import { authorizeProject } from '@/lib/project-access';
+import { CostEntryDocument, transformCostEntry } from '@/lib/types/budget';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// POST /api/projects/[id]/budget/costs - Record a commitment or expense
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject(projectId, session.user, 'manage_budget');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parseCostInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const now = new Date();
+    const cost: CostEntryDocument = {
+      ...parsed.cost,
+      projectId: access.project._id,
+      createdBy: new ObjectId(session.user.id),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const { db } = await connectToDatabase();
+    const result = await db.collection<CostEntryDocument>(PROJECT_COSTS_COLLECTION).insertOne(cost);
+
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'cost',
+      entityId: result.insertedId,
+      entityLabel: cost.description,
+      projectId,
+      metadata: { kind: cost.kind, amount: cost.amount },
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: transformCostEntry({ ...cost, _id: result.insertedId }, session.user.name || undefined),
+      message: cost.kind === 'expense' ? 'Expense recorded successfully' : 'Commitment recorded successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error recording cost:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
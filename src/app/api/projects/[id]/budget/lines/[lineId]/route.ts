@@ -0,0 +1,173 @@
+// src/app/api/projects/[id]/budget/lines/[lineId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { diffFields, recordAudit } from '@/lib/audit';
+import { BUDGET_LINES_COLLECTION, parseBudgetLineInput } from '@/lib/budget';
+import { authorizeProject } from '@/lib/project-access';
+import { BudgetLineDocument, transformBudgetLine } from '@/lib/types/budget';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    lineId: string;
+  }>;
+}
+
+// PATCH /api/projects/[id]/budget/lines/[lineId] - Update a budget line
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, lineId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(lineId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'manage_budget');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parseBudgetLineInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<BudgetLineDocument>(BUDGET_LINES_COLLECTION);
+    const filter = { _id: new ObjectId(lineId), projectId: access.project._id };
+
+    const existing = await collection.findOne(filter);
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Budget line not found'
+      }, { status: 404 });
+    }
+
+    const updated = await collection.findOneAndUpdate(
+      filter,
+      { $set: { ...parsed.line, updatedAt: new Date() } },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: 'Budget line not found'
+      }, { status: 404 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'updated',
+      entityType: 'budget_line',
+      entityId: lineId,
+      entityLabel: updated.description,
+      projectId,
+      changes: diffFields(existing, parsed.line, ['category', 'description', 'amount', 'notes']),
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: transformBudgetLine(updated),
+      message: 'Budget line updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating budget line:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[id]/budget/lines/[lineId] - Remove a budget line
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, lineId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(lineId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'manage_budget');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const deleted = await db.collection<BudgetLineDocument>(BUDGET_LINES_COLLECTION).findOneAndDelete({
+      _id: new ObjectId(lineId),
+      projectId: access.project._id
+    });
+
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Budget line not found'
+      }, { status: 404 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'budget_line',
+      entityId: lineId,
+      entityLabel: deleted.description,
+      projectId,
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Budget line deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting budget line:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
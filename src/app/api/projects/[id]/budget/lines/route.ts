@@ -0,0 +1,85 @@
+// src/app/api/projects/[id]/budget/lines/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import { BUDGET_LINES_COLLECTION, parseBudgetLineInput } from '@/lib/budget';
+import { authorizeProject } from '@/lib/project-access';
+import { BudgetLineDocument, transformBudgetLine } from '@/lib/types/budget';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// POST /api/projects/[id]/budget/lines - Add a budget line
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject(projectId, session.user, 'manage_budget');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parseBudgetLineInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const now = new Date();
+    const line: BudgetLineDocument = {
+      ...parsed.line,
+      projectId: access.project._id,
+      createdBy: new ObjectId(session.user.id),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const { db } = await connectToDatabase();
+    const result = await db.collection<BudgetLineDocument>(BUDGET_LINES_COLLECTION).insertOne(line);
+
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'budget_line',
+      entityId: result.insertedId,
+      entityLabel: line.description,
+      projectId,
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: transformBudgetLine({ ...line, _id: result.insertedId }),
+      message: 'Budget line added successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error creating budget line:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
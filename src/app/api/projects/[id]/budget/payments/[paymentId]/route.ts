@@ -0,0 +1,205 @@
+// src/app/api/projects/[id]/budget/payments/[paymentId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { auditUpdateAction, diffFields, recordAudit } from '@/lib/audit';
+import {
+  BudgetProjectRecord,
+  findPhaseName,
+  parsePaymentInput,
+  PAYMENT_MILESTONES_COLLECTION
+} from '@/lib/budget';
+import { authorizeProject, ProjectAccessRecord } from '@/lib/project-access';
+import { PaymentMilestoneDocument, transformPaymentMilestone } from '@/lib/types/budget';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    paymentId: string;
+  }>;
+}
+
+// PATCH /api/projects/[id]/budget/payments/[paymentId] - Update a payment milestone or mark it paid
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, paymentId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(paymentId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<ProjectAccessRecord & BudgetProjectRecord>(
+      projectId,
+      session.user,
+      'manage_payments'
+    );
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parsePaymentInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<PaymentMilestoneDocument>(PAYMENT_MILESTONES_COLLECTION);
+    const filter = { _id: new ObjectId(paymentId), projectId: access.project._id };
+
+    const existing = await collection.findOne(filter);
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Payment milestone not found'
+      }, { status: 404 });
+    }
+
+    // Keep the stored phase name if the phase has since been removed from the schedule
+    const { phaseId } = parsed.payment;
+    const phaseName = findPhaseName(access.project, phaseId) ||
+      (phaseId && existing.phaseId?.equals(phaseId) ? existing.phaseName : undefined);
+    if (phaseId && !phaseName) {
+      return NextResponse.json({
+        success: false,
+        error: 'Phase not found in this project schedule'
+      }, { status: 400 });
+    }
+
+    const next = { ...parsed.payment, phaseName };
+    const cleared = Object.entries(next).filter(([, value]) => value === undefined).map(([key]) => key);
+    const set = Object.fromEntries(Object.entries(next).filter(([, value]) => value !== undefined));
+
+    const updated = await collection.findOneAndUpdate(
+      filter,
+      {
+        $set: { ...set, updatedAt: new Date() },
+        ...(cleared.length > 0 ? { $unset: Object.fromEntries(cleared.map(key => [key, ''])) } : {})
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: 'Payment milestone not found'
+      }, { status: 404 });
+    }
+
+    const changes = diffFields(existing, next, [
+      'title', 'description', 'phaseName', 'amount', 'dueDate', 'status', 'paidAt', 'paidAmount', 'reference'
+    ]);
+    await recordAudit({
+      actor: session.user,
+      action: auditUpdateAction(changes),
+      entityType: 'payment',
+      entityId: paymentId,
+      entityLabel: updated.title,
+      projectId,
+      changes,
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: transformPaymentMilestone(updated),
+      message: existing.status !== 'paid' && updated.status === 'paid'
+        ? 'Payment marked as received'
+        : 'Payment milestone updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating payment milestone:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[id]/budget/payments/[paymentId] - Remove a payment milestone
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, paymentId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(paymentId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'manage_payments');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const deleted = await db.collection<PaymentMilestoneDocument>(PAYMENT_MILESTONES_COLLECTION).findOneAndDelete({
+      _id: new ObjectId(paymentId),
+      projectId: access.project._id
+    });
+
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Payment milestone not found'
+      }, { status: 404 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'payment',
+      entityId: paymentId,
+      entityLabel: deleted.title,
+      projectId,
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Payment milestone deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting payment milestone:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,104 @@
+// src/app/api/projects/[id]/budget/payments/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  BudgetProjectRecord,
+  findPhaseName,
+  parsePaymentInput,
+  PAYMENT_MILESTONES_COLLECTION
+} from '@/lib/budget';
+import { authorizeProject, ProjectAccessRecord } from '@/lib/project-access';
+import { PaymentMilestoneDocument, transformPaymentMilestone } from '@/lib/types/budget';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// POST /api/projects/[id]/budget/payments - Schedule a client payment milestone
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject<ProjectAccessRecord & BudgetProjectRecord>(
+      projectId,
+      session.user,
+      'manage_payments'
+    );
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parsePaymentInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const phaseName = findPhaseName(access.project, parsed.payment.phaseId);
+    if (parsed.payment.phaseId && !phaseName) {
+      return NextResponse.json({
+        success: false,
+        error: 'Phase not found in this project schedule'
+      }, { status: 400 });
+    }
+
+    const now = new Date();
+    const payment: PaymentMilestoneDocument = {
+      ...parsed.payment,
+      phaseName,
+      projectId: access.project._id,
+      createdBy: new ObjectId(session.user.id),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const { db } = await connectToDatabase();
+    const result = await db.collection<PaymentMilestoneDocument>(PAYMENT_MILESTONES_COLLECTION).insertOne(payment);
+
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'payment',
+      entityId: result.insertedId,
+      entityLabel: payment.title,
+      projectId,
+      metadata: { amount: payment.amount },
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: transformPaymentMilestone({ ...payment, _id: result.insertedId }),
+      message: 'Payment milestone added successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error creating payment milestone:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+// src/app/api/projects/[id]/budget/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { BudgetProjectRecord, loadClientBudget, loadProjectBudget } from '@/lib/budget';
+import { authorizeProject, ProjectAccessRecord, relationHasPermission } from '@/lib/project-access';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/projects/[id]/budget - Budget vs actual for staff, payment schedule for clients
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject<ProjectAccessRecord & BudgetProjectRecord>(
+      projectId,
+      session.user,
+      'view_payments'
+    );
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const data = relationHasPermission(access.relation, 'view_budget')
+      ? await loadProjectBudget(db, access.project)
+      : await loadClientBudget(db, access.project);
+
+    return NextResponse.json({
+      success: true,
+      data
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching project budget:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
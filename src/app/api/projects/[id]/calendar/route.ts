@@ -0,0 +1,209 @@
+// src/app/api/projects/[id]/calendar/route.ts - PROJECT WORKING CALENDAR API
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { authorizeProject } from '@/lib/project-access';
+import { ObjectId } from 'mongodb';
+import {
+  dateKey,
+  describeWorkingDays,
+  loadProjectCalendar,
+  loadPublicHolidays,
+  parseWorkDays,
+  transformPublicHoliday,
+  workingDaysUntil,
+  ProjectWorkCalendar,
+  SiteClosure
+} from '@/lib/working-calendar';
+
+interface ProjectDocument {
+  _id: ObjectId;
+  title: string;
+  client: ObjectId;
+  managers?: ObjectId[];
+  startDate?: Date;
+  endDate?: Date;
+  workDays?: string;
+  workCalendar?: ProjectWorkCalendar;
+}
+
+interface CalendarPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// GET /api/projects/[id]/calendar - Working days, holidays and closures for the project
+export async function GET(
+  request: NextRequest,
+  { params }: CalendarPageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'view_schedule');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+    const { project } = access;
+
+    const { db } = await connectToDatabase();
+    const calendar = await loadProjectCalendar(db, project);
+    const parsed = parseWorkDays(project.workDays);
+    const observePublicHolidays = project.workCalendar?.observePublicHolidays ?? parsed.observePublicHolidays;
+
+    // Holidays over the project span, for display alongside closures
+    const now = new Date();
+    const from = project.startDate || now;
+    const to = new Date(Math.max(project.endDate?.getTime() ?? now.getTime(), now.getTime()) + 90 * DAY_MS);
+    const holidays = observePublicHolidays ? await loadPublicHolidays(db, from, to) : [];
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        workingDays: calendar.workingDays,
+        observePublicHolidays,
+        closures: (project.workCalendar?.closures || []).map(closure => ({
+          date: dateKey(closure.date),
+          reason: closure.reason
+        })),
+        holidays: holidays.map(transformPublicHoliday),
+        nonWorkingDates: Array.from(calendar.nonWorkingDates).sort(),
+        summary: describeWorkingDays(calendar.workingDays),
+        configured: !!project.workCalendar?.workingDays?.length,
+        workingDaysRemaining: project.endDate
+          ? Math.max(0, workingDaysUntil(project.endDate, calendar))
+          : undefined
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching project calendar:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// PUT /api/projects/[id]/calendar - Update working days and site closures
+export async function PUT(
+  request: NextRequest,
+  { params }: CalendarPageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'manage_calendar');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+    const { project } = access;
+
+    const body = await request.json();
+    const parsed = parseWorkDays(project.workDays);
+    const workCalendar: ProjectWorkCalendar = {
+      workingDays: project.workCalendar?.workingDays?.length ? project.workCalendar.workingDays : parsed.workingDays,
+      observePublicHolidays: project.workCalendar?.observePublicHolidays ?? parsed.observePublicHolidays,
+      closures: project.workCalendar?.closures || []
+    };
+
+    if (body.workingDays !== undefined) {
+      const workingDays = Array.isArray(body.workingDays) ? body.workingDays : [];
+      if (workingDays.length === 0 || !workingDays.every((day: unknown) => Number.isInteger(day) && (day as number) >= 0 && (day as number) <= 6)) {
+        return NextResponse.json({
+          success: false,
+          error: 'Working days must be a non-empty list of weekdays (0 = Sunday to 6 = Saturday)'
+        }, { status: 400 });
+      }
+      workCalendar.workingDays = Array.from(new Set<number>(workingDays)).sort((a, b) => a - b);
+    }
+
+    if (body.observePublicHolidays !== undefined) {
+      workCalendar.observePublicHolidays = !!body.observePublicHolidays;
+    }
+
+    if (body.closures !== undefined) {
+      if (!Array.isArray(body.closures)) {
+        return NextResponse.json({
+          success: false,
+          error: 'Closures must be a list'
+        }, { status: 400 });
+      }
+
+      const closures: SiteClosure[] = [];
+      for (const closure of body.closures) {
+        const date = new Date(closure?.date);
+        if (isNaN(date.getTime())) {
+          return NextResponse.json({
+            success: false,
+            error: `Invalid closure date: ${closure?.date}`
+          }, { status: 400 });
+        }
+        closures.push({
+          date: new Date(`${dateKey(date)}T00:00:00.000Z`),
+          reason: typeof closure.reason === 'string' ? closure.reason.trim() : ''
+        });
+      }
+      workCalendar.closures = closures.sort((a, b) => a.date.getTime() - b.date.getTime());
+    }
+
+    // Keep the free-text workDays (shown on reports and exports) in step
+    const workDays = `${describeWorkingDays(workCalendar.workingDays)}${workCalendar.observePublicHolidays ? ' except public holidays' : ''}`;
+
+    const { db } = await connectToDatabase();
+    await db.collection<ProjectDocument>('projects').updateOne(
+      { _id: project._id },
+      {
+        $set: {
+          workCalendar,
+          workDays,
+          updatedAt: new Date()
+        }
+      }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        workingDays: workCalendar.workingDays,
+        observePublicHolidays: workCalendar.observePublicHolidays,
+        closures: workCalendar.closures.map(closure => ({
+          date: dateKey(closure.date),
+          reason: closure.reason
+        })),
+        workDays
+      },
+      message: 'Project calendar updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating project calendar:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,176 @@
+// src/app/api/projects/[id]/change-orders/[orderId]/decision/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  CHANGE_ORDERS_COLLECTION,
+  ChangeOrderProject,
+  applyChangeOrder,
+  notifyChangeOrder,
+  withChangeOrderNames
+} from '@/lib/change-orders';
+import { checkDeliveryConflicts } from '@/lib/procurement';
+import { authorizeProject } from '@/lib/project-access';
+import { ChangeOrderDocument } from '@/lib/types/change-order';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    orderId: string;
+  }>;
+}
+
+// POST /api/projects/[id]/change-orders/[orderId]/decision - Client approves or rejects
+// Body: { decision: 'approve' | 'reject', name: string, comment?: string }
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, orderId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(orderId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<ChangeOrderProject>(projectId, session.user, 'decide_change_orders');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const body = await request.json();
+    if (body.decision !== 'approve' && body.decision !== 'reject') {
+      return NextResponse.json({
+        success: false,
+        error: 'Decision must be approve or reject'
+      }, { status: 400 });
+    }
+
+    // The typed name is the client's signature on the decision
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return NextResponse.json({
+        success: false,
+        error: 'Type your full name to sign the decision'
+      }, { status: 400 });
+    }
+    const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+    if (body.decision === 'reject' && !comment) {
+      return NextResponse.json({
+        success: false,
+        error: 'Please give a reason for rejecting the change order'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<ChangeOrderDocument>(CHANGE_ORDERS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(orderId), projectId: access.project._id });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Change order not found'
+      }, { status: 404 });
+    }
+
+    // Guarding on the current status means a double-submit can't apply the order twice
+    const status = body.decision === 'approve' ? 'approved' : 'rejected';
+    const now = new Date();
+    const decided = await collection.findOneAndUpdate(
+      { _id: existing._id, status: 'pending_approval' },
+      {
+        $set: {
+          status,
+          decision: {
+            by: new ObjectId(session.user.id),
+            name,
+            at: now,
+            ...(comment ? { comment } : {})
+          },
+          updatedAt: now
+        }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!decided) {
+      return NextResponse.json({
+        success: false,
+        error: 'This change order is not awaiting your approval'
+      }, { status: 409 });
+    }
+
+    let result = decided;
+    if (status === 'approved') {
+      let applied;
+      try {
+        applied = await applyChangeOrder(db, access.project, decided);
+      } catch (error) {
+        // Put the order back in front of the client so the approval can be retried
+        await collection.updateOne(
+          { _id: decided._id, status: 'approved' },
+          { $set: { status: 'pending_approval', updatedAt: new Date() }, $unset: { decision: '' } }
+        );
+        throw error;
+      }
+      result = await collection.findOneAndUpdate(
+        { _id: decided._id },
+        { $set: { applied } },
+        { returnDocument: 'after' }
+      ) || { ...decided, applied };
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: status,
+      entityType: 'change_order',
+      entityId: orderId,
+      entityLabel: `${result.number} ${result.title}`,
+      projectId,
+      changes: [{ field: 'status', before: 'pending_approval', after: status }],
+      metadata: {
+        signedName: name,
+        ...(comment ? { comment } : {}),
+        ...(result.applied ? {
+          budgetBefore: result.applied.budgetBefore,
+          budgetAfter: result.applied.budgetAfter,
+          shiftedActivities: result.applied.shiftedActivities.length
+        } : {})
+      },
+      request
+    });
+
+    await notifyChangeOrder(db, access.project, result, status, session.user.id);
+    if (result.applied?.shiftedActivities.length) {
+      await checkDeliveryConflicts(db, access.project._id, session.user.id);
+    }
+
+    const [order] = await withChangeOrderNames(db, [result]);
+    return NextResponse.json({
+      success: true,
+      data: order,
+      message: status === 'approved' ? 'Change order approved' : 'Change order rejected'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deciding change order:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,189 @@
+// src/app/api/projects/[id]/change-orders/[orderId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { diffFields, recordAudit } from '@/lib/audit';
+import {
+  CHANGE_ORDERS_COLLECTION,
+  ChangeOrderProject,
+  parseChangeOrderInput,
+  withChangeOrderNames
+} from '@/lib/change-orders';
+import { authorizeProject } from '@/lib/project-access';
+import { ChangeOrderDocument } from '@/lib/types/change-order';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    orderId: string;
+  }>;
+}
+
+// PATCH /api/projects/[id]/change-orders/[orderId] - Edit a draft change order
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, orderId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(orderId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<ChangeOrderProject>(projectId, session.user, 'manage_change_orders');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parseChangeOrderInput(await request.json(), access.project);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<ChangeOrderDocument>(CHANGE_ORDERS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(orderId), projectId: access.project._id });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Change order not found'
+      }, { status: 404 });
+    }
+
+    // Once the client has it, the order is frozen
+    const { reason, ...fields } = parsed.order;
+    const updated = await collection.findOneAndUpdate(
+      { _id: existing._id, status: 'draft' },
+      reason
+        ? { $set: { ...fields, reason, updatedAt: new Date() } }
+        : { $set: { ...fields, updatedAt: new Date() }, $unset: { reason: '' as const } },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only draft change orders can be edited'
+      }, { status: 409 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'updated',
+      entityType: 'change_order',
+      entityId: orderId,
+      entityLabel: `${updated.number} ${updated.title}`,
+      projectId,
+      changes: diffFields(existing, parsed.order, [
+        'title', 'description', 'reason', 'costDelta', 'scheduleDeltaDays', 'activities', 'attachments'
+      ]),
+      request
+    });
+
+    const [order] = await withChangeOrderNames(db, [updated]);
+    return NextResponse.json({
+      success: true,
+      data: order,
+      message: 'Change order updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating change order:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[id]/change-orders/[orderId] - Discard a draft change order
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, orderId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(orderId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'manage_change_orders');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<ChangeOrderDocument>(CHANGE_ORDERS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(orderId), projectId: access.project._id });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Change order not found'
+      }, { status: 404 });
+    }
+
+    // Submitted orders are part of the record with the client
+    const deleted = await collection.findOneAndDelete({ _id: existing._id, status: 'draft' });
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only draft change orders can be deleted'
+      }, { status: 409 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'change_order',
+      entityId: orderId,
+      entityLabel: `${deleted.number} ${deleted.title}`,
+      projectId,
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Change order deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting change order:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+// src/app/api/projects/[id]/change-orders/[orderId]/submit/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  CHANGE_ORDERS_COLLECTION,
+  ChangeOrderProject,
+  notifyChangeOrder,
+  withChangeOrderNames
+} from '@/lib/change-orders';
+import { authorizeProject } from '@/lib/project-access';
+import { ChangeOrderDocument } from '@/lib/types/change-order';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    orderId: string;
+  }>;
+}
+
+// POST /api/projects/[id]/change-orders/[orderId]/submit - Send a draft to the client for approval
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, orderId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(orderId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<ChangeOrderProject>(projectId, session.user, 'manage_change_orders');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    if (!access.project.client) {
+      return NextResponse.json({
+        success: false,
+        error: 'Assign a client to this project before submitting change orders'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<ChangeOrderDocument>(CHANGE_ORDERS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(orderId), projectId: access.project._id });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Change order not found'
+      }, { status: 404 });
+    }
+
+    const now = new Date();
+    const submitted = await collection.findOneAndUpdate(
+      { _id: existing._id, status: 'draft' },
+      {
+        $set: {
+          status: 'pending_approval',
+          submittedAt: now,
+          submittedBy: new ObjectId(session.user.id),
+          updatedAt: now
+        }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!submitted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only draft change orders can be submitted'
+      }, { status: 409 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'submitted',
+      entityType: 'change_order',
+      entityId: orderId,
+      entityLabel: `${submitted.number} ${submitted.title}`,
+      projectId,
+      changes: [{ field: 'status', before: 'draft', after: 'pending_approval' }],
+      request
+    });
+
+    await notifyChangeOrder(db, access.project, submitted, 'submitted', session.user.id);
+
+    const [order] = await withChangeOrderNames(db, [submitted]);
+    return NextResponse.json({
+      success: true,
+      data: order,
+      message: 'Change order sent to the client for approval'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error submitting change order:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
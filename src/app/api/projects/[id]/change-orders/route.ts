@@ -0,0 +1,146 @@
+// src/app/api/projects/[id]/change-orders/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Filter, ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  CHANGE_ORDERS_COLLECTION,
+  ChangeOrderProject,
+  nextChangeOrderNumber,
+  parseChangeOrderInput,
+  withChangeOrderNames
+} from '@/lib/change-orders';
+import { authorizeProject, relationHasPermission } from '@/lib/project-access';
+import { ChangeOrderDocument, transformChangeOrder } from '@/lib/types/change-order';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/projects/[id]/change-orders - List change orders (clients don't see drafts)
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject(projectId, session.user, 'view_change_orders');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const query: Filter<ChangeOrderDocument> = { projectId: access.project._id };
+    if (!relationHasPermission(access.relation, 'manage_change_orders')) {
+      query.status = { $ne: 'draft' };
+    }
+
+    const { db } = await connectToDatabase();
+    const documents = await db.collection<ChangeOrderDocument>(CHANGE_ORDERS_COLLECTION)
+      .find(query)
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return NextResponse.json({
+      success: true,
+      data: await withChangeOrderNames(db, documents)
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching change orders:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// POST /api/projects/[id]/change-orders - Draft a change order
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject<ChangeOrderProject>(projectId, session.user, 'manage_change_orders');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parseChangeOrderInput(await request.json(), access.project);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const now = new Date();
+    const order: ChangeOrderDocument = {
+      ...parsed.order,
+      projectId: access.project._id,
+      number: await nextChangeOrderNumber(db, access.project._id),
+      status: 'draft',
+      createdBy: new ObjectId(session.user.id),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const result = await db.collection<ChangeOrderDocument>(CHANGE_ORDERS_COLLECTION).insertOne(order);
+
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'change_order',
+      entityId: result.insertedId,
+      entityLabel: `${order.number} ${order.title}`,
+      projectId,
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: transformChangeOrder({ ...order, _id: result.insertedId }, {
+        createdByName: session.user.name || undefined,
+        projectTitle: access.project.title
+      }),
+      message: 'Change order drafted successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error creating change order:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,130 @@
+// src/app/api/projects/[id]/channel/[messageId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { ObjectId } from 'mongodb';
+import { authorizeProject } from '@/lib/project-access';
+import { ChannelProject, deleteChannelMessage, editChannelMessage } from '@/lib/project-channels';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    messageId: string;
+  }>;
+}
+
+// PATCH /api/projects/[id]/channel/[messageId] - Edit your own message
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, messageId } = await context.params;
+
+    if (!ObjectId.isValid(messageId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid message ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<ChannelProject>(projectId, session.user, 'use_channel');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const result = await editChannelMessage(db, access.project, {
+      id: session.user.id,
+      role: session.user.role,
+      name: session.user.name || 'Unknown'
+    }, messageId, await request.json());
+
+    if ('error' in result) {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.message
+    });
+
+  } catch (error: unknown) {
+    console.error('Error editing channel message:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[id]/channel/[messageId] - Delete your own message
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, messageId } = await context.params;
+
+    if (!ObjectId.isValid(messageId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid message ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<ChannelProject>(projectId, session.user, 'use_channel');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const result = await deleteChannelMessage(db, access.project, session.user.id, messageId);
+
+    if ('error' in result) {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: result.status });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.message
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting channel message:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,53 @@
+// src/app/api/projects/[id]/channel/read/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { authorizeProject } from '@/lib/project-access';
+import { ChannelProject, markChannelRead } from '@/lib/project-channels';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// POST /api/projects/[id]/channel/read - Mark the whole channel as read
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject<ChannelProject>(projectId, session.user, 'use_channel');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+
+    return NextResponse.json({
+      success: true,
+      data: { markedCount: await markChannelRead(db, access.project._id, session.user.id) }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error marking channel as read:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,115 @@
+// src/app/api/projects/[id]/channel/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { authorizeProject } from '@/lib/project-access';
+import { ChannelProject, loadChannelView, postChannelMessage } from '@/lib/project-channels';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/projects/[id]/channel - Members and the latest threads (?before=<ISO date> for older ones)
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject<ChannelProject>(projectId, session.user, 'use_channel');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const beforeParam = request.nextUrl.searchParams.get('before');
+    const before = beforeParam ? new Date(beforeParam) : undefined;
+    if (before && isNaN(before.getTime())) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid before date'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+
+    return NextResponse.json({
+      success: true,
+      data: await loadChannelView(db, access.project, before)
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching project channel:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// POST /api/projects/[id]/channel - Post a message or a reply to a thread
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject<ChannelProject>(projectId, session.user, 'use_channel');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const result = await postChannelMessage(db, access.project, {
+      id: session.user.id,
+      role: session.user.role,
+      name: session.user.name || 'Unknown'
+    }, await request.json());
+
+    if ('error' in result) {
+      return NextResponse.json({
+        success: false,
+        error: result.error
+      }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: result.message
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error posting channel message:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -2,7 +2,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
-import { ObjectId, Filter } from 'mongodb';
+import { ObjectId } from 'mongodb';
+import { authorizeProject, relationHasPermission } from '@/lib/project-access';
 
 // Interface for route params
 interface ProjectCommentActivityParams {
@@ -48,32 +49,15 @@ export async function GET(
 
     const { id } = await params;
     
-    if (!ObjectId.isValid(id)) {
+    const access = await authorizeProject(id, session.user, 'view_project');
+    if (!access.ok) {
       return NextResponse.json({ 
         success: false, 
-        error: 'Invalid project ID' 
-      }, { status: 400 });
+        error: access.error 
+      }, { status: access.status });
     }
 
     const { db } = await connectToDatabase();
-    const userId = new ObjectId(session.user.id);
-
-    // Check project access
-    const projectFilter: Filter<Record<string, unknown>> = { _id: new ObjectId(id) };
-    
-    if (session.user.role === 'client') {
-      projectFilter.client = userId;
-    } else if (session.user.role === 'project_manager') {
-      projectFilter.manager = userId;
-    }
-
-    const project = await db.collection('projects').findOne(projectFilter);
-    if (!project) {
-      return NextResponse.json({ 
-        success: false, 
-        error: 'Project not found or access denied' 
-      }, { status: 404 });
-    }
 
     // Get project tasks
     const tasks = await db.collection('tasks')
@@ -87,7 +71,7 @@ export async function GET(
     const comments = await db.collection<CommentDocument>('comments')
       .find({ 
         taskId: { $in: taskIds },
-        ...(session.user.role === 'client' ? { isInternal: false } : {})
+        ...(relationHasPermission(access.relation, 'view_internal_comments') ? {} : { isInternal: false })
       })
       .sort({ createdAt: -1 })
       .limit(20)
@@ -6,6 +6,7 @@ import { auth } from '@/lib/auth';
 import { connectToMongoose } from '@/lib/db';
 import DailyProgress from '@/models/DailyProgress';
 import { Types } from 'mongoose';
+import { authorizeProject } from '@/lib/project-access';
 
 interface SessionUser {
   id: string;
@@ -39,10 +40,11 @@ export async function GET(
     
     const { id: projectId } = await params;
 
-    if (!Types.ObjectId.isValid(projectId)) {
+    const access = await authorizeProject(projectId, session.user, 'view_daily_progress');
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Invalid project ID' },
-        { status: 400 }
+        { success: false, error: access.error },
+        { status: access.status }
       );
     }
 
@@ -0,0 +1,65 @@
+// src/app/api/projects/[id]/delays/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { parseLogDate } from '@/lib/labor';
+import { loadDelayReport } from '@/lib/site-conditions';
+import { authorizeProject } from '@/lib/project-access';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/projects/[id]/delays?from=&to= - Days lost by cause and by responsible
+// party, from site conditions and from the causes delayed activities cite
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+    const access = await authorizeProject(projectId, session.user, 'view_delays');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') ? parseLogDate(searchParams.get('from')) : undefined;
+    const to = searchParams.get('to') ? parseLogDate(searchParams.get('to')) : undefined;
+    if (from === null || to === null) {
+      return NextResponse.json({
+        success: false,
+        error: 'Dates must be YYYY-MM-DD'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const data = await loadDelayReport(db, access.project._id, { from, to });
+
+    return NextResponse.json({
+      success: true,
+      data
+    });
+
+  } catch (error: unknown) {
+    console.error('Error building delay report:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
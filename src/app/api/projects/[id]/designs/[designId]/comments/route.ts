@@ -0,0 +1,135 @@
+// src/app/api/projects/[id]/designs/[designId]/comments/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { DESIGNS_COLLECTION, withDesignNames } from '@/lib/designs';
+import { authorizeProject } from '@/lib/project-access';
+import { DesignCommentDocument, DesignSubmissionDocument } from '@/lib/types/design';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    designId: string;
+  }>;
+}
+
+// Longest comment we accept on a design file
+const MAX_COMMENT_LENGTH = 2000;
+
+// POST /api/projects/[id]/designs/[designId]/comments - Comment on one file of a submission
+// Body: { fileId: string, text: string }
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, designId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(designId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'comment_designs');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const body = await request.json();
+    const text = typeof body.text === 'string' ? body.text.trim() : '';
+    if (!text) {
+      return NextResponse.json({
+        success: false,
+        error: 'Comment text is required'
+      }, { status: 400 });
+    }
+    if (text.length > MAX_COMMENT_LENGTH) {
+      return NextResponse.json({
+        success: false,
+        error: `Comments are limited to ${MAX_COMMENT_LENGTH} characters`
+      }, { status: 400 });
+    }
+    if (typeof body.fileId !== 'string' || !ObjectId.isValid(body.fileId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid file ID'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<DesignSubmissionDocument>(DESIGNS_COLLECTION);
+    // Clients only see submissions once they've been sent to them
+    const existing = await collection.findOne({
+      _id: new ObjectId(designId),
+      projectId: access.project._id,
+      ...(access.relation === 'client' ? { status: { $ne: 'draft' as const } } : {})
+    });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Design submission not found'
+      }, { status: 404 });
+    }
+
+    const fileId = new ObjectId(body.fileId);
+    const file = existing.files.find(item => item.fileId.equals(fileId));
+    if (!file) {
+      return NextResponse.json({
+        success: false,
+        error: 'File not found in this submission'
+      }, { status: 404 });
+    }
+
+    const now = new Date();
+    const comment: DesignCommentDocument = {
+      _id: new ObjectId(),
+      fileId,
+      version: file.version,
+      by: new ObjectId(session.user.id),
+      byName: session.user.name || 'Unknown',
+      text,
+      createdAt: now
+    };
+
+    // Approved submissions are locked, discussion included
+    const updated = await collection.findOneAndUpdate(
+      { _id: existing._id, status: { $ne: 'approved' } },
+      { $push: { comments: comment }, $set: { updatedAt: now } },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: 'Approved designs are locked'
+      }, { status: 409 });
+    }
+
+    const [design] = await withDesignNames(db, [updated]);
+    return NextResponse.json({
+      success: true,
+      data: design,
+      message: 'Comment added'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error adding design comment:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
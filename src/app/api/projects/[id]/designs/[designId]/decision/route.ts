@@ -0,0 +1,206 @@
+// src/app/api/projects/[id]/designs/[designId]/decision/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  DESIGNS_COLLECTION,
+  DesignProject,
+  lockDesignFiles,
+  notifyDesign,
+  withDesignNames
+} from '@/lib/designs';
+import { authorizeProject } from '@/lib/project-access';
+import { DesignSubmissionDocument } from '@/lib/types/design';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    designId: string;
+  }>;
+}
+
+// POST /api/projects/[id]/designs/[designId]/decision - Client approves or rejects one file
+// Body: { fileId: string, decision: 'approve' | 'reject', name: string, comment?: string }
+// Once every file is decided the submission is approved (and locked) or sent back for changes.
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, designId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(designId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<DesignProject>(projectId, session.user, 'approve_designs');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const body = await request.json();
+    if (typeof body.fileId !== 'string' || !ObjectId.isValid(body.fileId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid file ID'
+      }, { status: 400 });
+    }
+    if (body.decision !== 'approve' && body.decision !== 'reject') {
+      return NextResponse.json({
+        success: false,
+        error: 'Decision must be approve or reject'
+      }, { status: 400 });
+    }
+
+    // The typed name is the client's signature on the decision
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name) {
+      return NextResponse.json({
+        success: false,
+        error: 'Type your full name to sign the decision'
+      }, { status: 400 });
+    }
+    const comment = typeof body.comment === 'string' ? body.comment.trim() : '';
+    if (body.decision === 'reject' && !comment) {
+      return NextResponse.json({
+        success: false,
+        error: 'Please say what should change'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<DesignSubmissionDocument>(DESIGNS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(designId), projectId: access.project._id });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Design submission not found'
+      }, { status: 404 });
+    }
+
+    const fileId = new ObjectId(body.fileId);
+    const file = existing.files.find(item => item.fileId.equals(fileId));
+    if (!file) {
+      return NextResponse.json({
+        success: false,
+        error: 'File not found in this submission'
+      }, { status: 404 });
+    }
+
+    // Guarding on the status and an undecided file means a double-submit records one decision
+    const status = body.decision === 'approve' ? 'approved' : 'rejected';
+    const now = new Date();
+    const by = new ObjectId(session.user.id);
+    const decided = await collection.findOneAndUpdate(
+      {
+        _id: existing._id,
+        status: 'pending_approval',
+        files: { $elemMatch: { fileId, decision: { $exists: false } } }
+      },
+      {
+        $set: {
+          'files.$.decision': { status, by, name, at: now, ...(comment ? { comment } : {}) },
+          updatedAt: now
+        },
+        $push: {
+          records: {
+            round: existing.round,
+            fileId,
+            fileName: file.name,
+            version: file.version,
+            status,
+            by,
+            signedName: name,
+            at: now,
+            ...(comment ? { comment } : {})
+          }
+        }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!decided) {
+      return NextResponse.json({
+        success: false,
+        error: 'This file is not awaiting your approval'
+      }, { status: 409 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: status,
+      entityType: 'design_submission',
+      entityId: designId,
+      entityLabel: decided.title,
+      projectId,
+      metadata: {
+        file: file.name,
+        version: file.version,
+        signedName: name,
+        ...(comment ? { comment } : {})
+      },
+      request
+    });
+
+    // Close the round when this was the last file waiting on the client
+    let result = decided;
+    if (decided.files.every(item => item.decision)) {
+      const outcome = decided.files.every(item => item.decision!.status === 'approved') ? 'approved' : 'changes_requested';
+      const closed = await collection.findOneAndUpdate(
+        { _id: decided._id, status: 'pending_approval' },
+        { $set: { status: outcome, updatedAt: now, ...(outcome === 'approved' ? { approvedAt: now } : {}) } },
+        { returnDocument: 'after' }
+      );
+      if (closed) {
+        result = closed;
+        if (outcome === 'approved') await lockDesignFiles(db, closed);
+
+        await recordAudit({
+          actor: session.user,
+          action: 'status_changed',
+          entityType: 'design_submission',
+          entityId: designId,
+          entityLabel: closed.title,
+          projectId,
+          changes: [{ field: 'status', before: 'pending_approval', after: outcome }],
+          metadata: { round: closed.round },
+          request
+        });
+        await notifyDesign(db, access.project, closed, outcome, session.user.id);
+      }
+    }
+
+    const [design] = await withDesignNames(db, [result]);
+    return NextResponse.json({
+      success: true,
+      data: design,
+      message: result.status === 'approved'
+        ? 'All designs approved'
+        : result.status === 'changes_requested'
+          ? 'Your feedback has been sent to the project team'
+          : status === 'approved' ? `${file.name} approved` : `${file.name} rejected`
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deciding design submission:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+// src/app/api/projects/[id]/designs/[designId]/record/route.ts
+// Download the approval record of a design submission: who decided each file, when, and on which version
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import {
+  DESIGNS_COLLECTION,
+  DESIGN_RECORD_COLUMNS,
+  DesignProject,
+  buildDesignRecordRows,
+  designRecordCsv
+} from '@/lib/designs';
+import { authorizeProject } from '@/lib/project-access';
+import { DesignSubmissionDocument } from '@/lib/types/design';
+import { buildXlsx } from '@/lib/xlsx';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    designId: string;
+  }>;
+}
+
+// ROUND, FILE, VERSION, DECISION, SIGNED BY, DATE, COMMENT
+const COLUMN_WIDTHS = [8, 40, 10, 12, 24, 20, 50];
+
+// GET /api/projects/[id]/designs/[designId]/record?format=csv|xlsx
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, designId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(designId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const format = new URL(request.url).searchParams.get('format') || 'csv';
+    if (format !== 'csv' && format !== 'xlsx') {
+      return NextResponse.json({
+        success: false,
+        error: 'Format must be csv or xlsx'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<DesignProject>(projectId, session.user, 'view_designs');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const design = await db.collection<DesignSubmissionDocument>(DESIGNS_COLLECTION).findOne({
+      _id: new ObjectId(designId),
+      projectId: access.project._id,
+      status: { $ne: 'draft' }
+    });
+    if (!design) {
+      return NextResponse.json({
+        success: false,
+        error: 'Design submission not found'
+      }, { status: 404 });
+    }
+
+    const rows = buildDesignRecordRows(design, access.project.title);
+    const slug = design.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'design';
+    const fileName = `${slug}-approval-record-${new Date().toISOString().split('T')[0]}.${format}`;
+
+    if (format === 'xlsx') {
+      const workbook = buildXlsx({
+        name: 'Approval Record',
+        columnWidths: COLUMN_WIDTHS,
+        rows: rows.map((cells, index) => ({
+          cells,
+          style: index === 0 ? 'title' : cells === DESIGN_RECORD_COLUMNS ? 'header' : 'normal'
+        }))
+      });
+
+      return new NextResponse(new Uint8Array(workbook), {
+        headers: {
+          'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+          'Cache-Control': 'no-store'
+        }
+      });
+    }
+
+    return new NextResponse(designRecordCsv(rows), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error exporting design approval record:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,215 @@
+// src/app/api/projects/[id]/designs/[designId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { diffFields, recordAudit } from '@/lib/audit';
+import {
+  DESIGNS_COLLECTION,
+  DesignProject,
+  parseDesignInput,
+  resolveDesignFiles,
+  withDesignNames
+} from '@/lib/designs';
+import { authorizeProject } from '@/lib/project-access';
+import { DesignSubmissionDocument } from '@/lib/types/design';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    designId: string;
+  }>;
+}
+
+// PATCH /api/projects/[id]/designs/[designId] - Edit a draft, or swap in new versions after the client asked for changes
+// Body: { title, description?, category, fileIds: string[] }
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, designId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(designId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<DesignProject>(projectId, session.user, 'manage_designs');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parseDesignInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<DesignSubmissionDocument>(DESIGNS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(designId), projectId: access.project._id });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Design submission not found'
+      }, { status: 404 });
+    }
+
+    // Approved files are part of the record and stay in the submission
+    const approvedIds = existing.files
+      .filter(file => file.decision?.status === 'approved')
+      .map(file => file.fileId);
+    const resolved = await resolveDesignFiles(db, access.project._id, parsed.design.fileIds, existing.files);
+    if ('error' in resolved) {
+      return NextResponse.json({
+        success: false,
+        error: resolved.error
+      }, { status: 400 });
+    }
+    if (approvedIds.some(fileId => !resolved.files.some(file => file.fileId.equals(fileId)))) {
+      return NextResponse.json({
+        success: false,
+        error: 'Approved files cannot be removed from the submission'
+      }, { status: 400 });
+    }
+
+    // While the client is reviewing, and once approved, the submission is frozen
+    const { title, description, category } = parsed.design;
+    const now = new Date();
+    const updated = await collection.findOneAndUpdate(
+      { _id: existing._id, status: { $in: ['draft', 'changes_requested'] } },
+      description
+        ? { $set: { title, description, category, files: resolved.files, updatedAt: now } }
+        : { $set: { title, category, files: resolved.files, updatedAt: now }, $unset: { description: '' as const } },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only drafts and submissions with requested changes can be edited'
+      }, { status: 409 });
+    }
+
+    const fileList = (files: DesignSubmissionDocument['files']) =>
+      files.map(file => `${file.name} v${file.version}`).join(', ');
+    const changes = diffFields(existing, parsed.design, ['title', 'description', 'category']);
+    if (fileList(existing.files) !== fileList(updated.files)) {
+      changes.push({ field: 'files', before: fileList(existing.files), after: fileList(updated.files) });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'updated',
+      entityType: 'design_submission',
+      entityId: designId,
+      entityLabel: updated.title,
+      projectId,
+      changes,
+      request
+    });
+
+    const [design] = await withDesignNames(db, [updated]);
+    return NextResponse.json({
+      success: true,
+      data: design,
+      message: 'Design submission updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating design submission:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[id]/designs/[designId] - Discard a draft design submission
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, designId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(designId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'manage_designs');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<DesignSubmissionDocument>(DESIGNS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(designId), projectId: access.project._id });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Design submission not found'
+      }, { status: 404 });
+    }
+
+    // Anything the client has seen is part of the approval record; the files themselves stay in the project
+    const deleted = await collection.findOneAndDelete({ _id: existing._id, status: 'draft' });
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only draft design submissions can be deleted'
+      }, { status: 409 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'design_submission',
+      entityId: designId,
+      entityLabel: deleted.title,
+      projectId,
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Design submission deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting design submission:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,127 @@
+// src/app/api/projects/[id]/designs/[designId]/submit/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  DESIGNS_COLLECTION,
+  DesignProject,
+  notifyDesign,
+  withDesignNames
+} from '@/lib/designs';
+import { authorizeProject } from '@/lib/project-access';
+import { DesignSubmissionDocument } from '@/lib/types/design';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    designId: string;
+  }>;
+}
+
+// POST /api/projects/[id]/designs/[designId]/submit - Send a submission to the client for approval
+// Files the client already approved stay approved; rejected ones go back for review.
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, designId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(designId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<DesignProject>(projectId, session.user, 'manage_designs');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    if (!access.project.client) {
+      return NextResponse.json({
+        success: false,
+        error: 'Assign a client to this project before submitting designs'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<DesignSubmissionDocument>(DESIGNS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(designId), projectId: access.project._id });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Design submission not found'
+      }, { status: 404 });
+    }
+
+    const files = existing.files.map(({ decision, ...file }) =>
+      decision?.status === 'approved' ? { ...file, decision } : file
+    );
+
+    // Guarding on updatedAt too means an edit made meanwhile isn't overwritten
+    const now = new Date();
+    const submitted = await collection.findOneAndUpdate(
+      { _id: existing._id, status: { $in: ['draft', 'changes_requested'] }, updatedAt: existing.updatedAt },
+      {
+        $set: {
+          status: 'pending_approval',
+          files,
+          round: existing.round + 1,
+          submittedAt: now,
+          submittedBy: new ObjectId(session.user.id),
+          updatedAt: now
+        }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!submitted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Only drafts and submissions with requested changes can be sent to the client'
+      }, { status: 409 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'submitted',
+      entityType: 'design_submission',
+      entityId: designId,
+      entityLabel: submitted.title,
+      projectId,
+      changes: [{ field: 'status', before: existing.status, after: 'pending_approval' }],
+      metadata: { round: submitted.round, files: submitted.files.map(file => `${file.name} v${file.version}`) },
+      request
+    });
+
+    await notifyDesign(db, access.project, submitted, 'submitted', session.user.id);
+
+    const [design] = await withDesignNames(db, [submitted]);
+    return NextResponse.json({
+      success: true,
+      data: design,
+      message: 'Designs sent to the client for approval'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error submitting design submission:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,162 @@
+// src/app/api/projects/[id]/designs/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { Filter, ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  DESIGNS_COLLECTION,
+  DesignProject,
+  parseDesignInput,
+  resolveDesignFiles,
+  withDesignNames
+} from '@/lib/designs';
+import { authorizeProject, relationHasPermission } from '@/lib/project-access';
+import { DesignSubmissionDocument, transformDesignSubmission } from '@/lib/types/design';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/projects/[id]/designs - List design submissions (clients don't see drafts)
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject(projectId, session.user, 'view_designs');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const query: Filter<DesignSubmissionDocument> = { projectId: access.project._id };
+    if (!relationHasPermission(access.relation, 'manage_designs')) {
+      query.status = { $ne: 'draft' };
+    }
+
+    const { db } = await connectToDatabase();
+    const documents = await db.collection<DesignSubmissionDocument>(DESIGNS_COLLECTION)
+      .find(query)
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    return NextResponse.json({
+      success: true,
+      data: await withDesignNames(db, documents)
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching design submissions:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// POST /api/projects/[id]/designs - Draft a design submission from uploaded project files
+// Body: { title, description?, category, fileIds: string[] }
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject<DesignProject>(projectId, session.user, 'manage_designs');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parseDesignInput(await request.json());
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const resolved = await resolveDesignFiles(db, access.project._id, parsed.design.fileIds);
+    if ('error' in resolved) {
+      return NextResponse.json({
+        success: false,
+        error: resolved.error
+      }, { status: 400 });
+    }
+
+    const { title, description, category } = parsed.design;
+    const now = new Date();
+    const design: DesignSubmissionDocument = {
+      title,
+      ...(description ? { description } : {}),
+      category,
+      projectId: access.project._id,
+      files: resolved.files,
+      comments: [],
+      records: [],
+      status: 'draft',
+      round: 0,
+      createdBy: new ObjectId(session.user.id),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const result = await db.collection<DesignSubmissionDocument>(DESIGNS_COLLECTION).insertOne(design);
+
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'design_submission',
+      entityId: result.insertedId,
+      entityLabel: design.title,
+      projectId,
+      metadata: { files: design.files.length },
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: transformDesignSubmission({ ...design, _id: result.insertedId }, {
+        createdByName: session.user.name || undefined,
+        projectTitle: access.project.title
+      }),
+      message: 'Design submission drafted successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error creating design submission:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
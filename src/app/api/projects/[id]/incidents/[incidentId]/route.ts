@@ -3,6 +3,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { auditUpdateAction, diffFields, recordAudit } from '@/lib/audit';
+import { authorizeProject } from '@/lib/project-access';
+import { linkDirectoryName, loadContractorDirectory } from '@/lib/contractors';
 
 interface RouteContext {
   params: Promise<{
@@ -35,12 +38,12 @@ export async function PATCH(
       }, { status: 400 });
     }
 
-    // Only admins and managers can update incidents
-    if (!['super_admin', 'project_manager'].includes(session.user.role)) {
+    const access = await authorizeProject(projectId, session.user, 'manage_incidents');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Only administrators and project managers can update incident reports'
-      }, { status: 403 });
+        error: access.error
+      }, { status: access.status });
     }
 
     const body = await request.json();
@@ -69,6 +72,11 @@ export async function PATCH(
     if (body.category !== undefined) updateData.category = body.category;
     if (body.severity !== undefined) updateData.severity = body.severity;
     if (body.location !== undefined) updateData.location = body.location;
+    if (typeof body.contractor === 'string') {
+      const { name, id } = linkDirectoryName(body.contractor, await loadContractorDirectory(db));
+      updateData.contractor = name;
+      updateData.contractorId = id;
+    }
     if (body.dateOccurred !== undefined) updateData.dateOccurred = new Date(body.dateOccurred);
     if (body.timeOccurred !== undefined) updateData.timeOccurred = body.timeOccurred;
     if (body.witnessNames !== undefined) updateData.witnessNames = body.witnessNames;
@@ -101,6 +109,18 @@ export async function PATCH(
       { $set: updateData }
     );
 
+    const changes = diffFields(existingIncident, updateData);
+    await recordAudit({
+      actor: session.user,
+      action: auditUpdateAction(changes),
+      entityType: 'incident',
+      entityId: incidentId,
+      entityLabel: existingIncident.incidentCode || existingIncident.title,
+      projectId,
+      changes,
+      request
+    });
+
     // Get updated incident
     const updatedIncident = await db.collection('incidents')
       .aggregate([
@@ -151,6 +171,8 @@ export async function PATCH(
         category: incident.category,
         severity: incident.severity,
         location: incident.location,
+        contractor: incident.contractor,
+        contractorId: incident.contractorId?.toString(),
         dateOccurred: incident.dateOccurred.toISOString(),
         timeOccurred: incident.timeOccurred,
         reportedBy: {
@@ -232,28 +254,38 @@ export async function DELETE(
       }, { status: 400 });
     }
 
-    // Only super admins can delete incidents
-    if (session.user.role !== 'super_admin') {
+    const access = await authorizeProject(projectId, session.user, 'delete_incident');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Only administrators can delete incident reports'
-      }, { status: 403 });
+        error: access.error
+      }, { status: access.status });
     }
 
     const { db } = await connectToDatabase();
 
-    const result = await db.collection('incidents').deleteOne({
+    const deleted = await db.collection('incidents').findOneAndDelete({
       _id: new ObjectId(incidentId),
       projectId: new ObjectId(projectId)
     });
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       return NextResponse.json({
         success: false,
         error: 'Incident not found'
       }, { status: 404 });
     }
 
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'incident',
+      entityId: incidentId,
+      entityLabel: deleted.incidentCode || deleted.title,
+      projectId,
+      request
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Incident deleted successfully'
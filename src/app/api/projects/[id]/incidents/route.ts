@@ -3,6 +3,9 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { recordAudit } from '@/lib/audit';
+import { authorizeProject } from '@/lib/project-access';
+import { linkDirectoryName, loadContractorDirectory } from '@/lib/contractors';
 
 // FIXED: Proper interface definitions
 interface InjuryDetails {
@@ -30,6 +33,8 @@ interface IncidentDocument {
   category: 'safety' | 'equipment' | 'environmental' | 'security' | 'quality' | 'other';
   severity: 'low' | 'medium' | 'high' | 'critical';
   location: string;
+  contractor?: string; // contractor involved, linked to the directory when it matches
+  contractorId?: ObjectId;
   dateOccurred: Date;
   timeOccurred: string;
   reportedBy: ObjectId;
@@ -59,27 +64,6 @@ interface RouteContext {
   }>;
 }
 
-// Validate project access
-async function validateProjectAccess(
-  projectId: string,
-  userId: string,
-  userRole: string
-): Promise<boolean> {
-  const { db } = await connectToDatabase();
-
-  const project = await db.collection('projects').findOne({
-    _id: new ObjectId(projectId)
-  });
-
-  if (!project) return false;
-
-  if (userRole === 'super_admin') return true;
-  if (userRole === 'project_manager' && project.manager.equals(new ObjectId(userId))) return true;
-  if (userRole === 'client' && project.client.equals(new ObjectId(userId))) return true;
-
-  return false;
-}
-
 // GET /api/projects/[id]/incidents - Get all incidents for a project
 export async function GET(
   request: NextRequest,
@@ -97,25 +81,12 @@ export async function GET(
     const params = await context.params;
     const projectId = params.id;
 
-    if (!ObjectId.isValid(projectId)) {
+    const access = await authorizeProject(projectId, session.user, 'view_incidents');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Invalid project ID'
-      }, { status: 400 });
-    }
-
-    // Validate access
-    const hasAccess = await validateProjectAccess(
-      projectId,
-      session.user.id,
-      session.user.role
-    );
-
-    if (!hasAccess) {
-      return NextResponse.json({
-        success: false,
-        error: 'Access denied'
-      }, { status: 403 });
+        error: access.error
+      }, { status: access.status });
     }
 
     const { db } = await connectToDatabase();
@@ -168,6 +139,8 @@ export async function GET(
       category: incident.category,
       severity: incident.severity,
       location: incident.location,
+      contractor: incident.contractor,
+      contractorId: incident.contractorId?.toString(),
       dateOccurred: incident.dateOccurred.toISOString(),
       timeOccurred: incident.timeOccurred,
       reportedBy: {
@@ -239,33 +212,12 @@ export async function POST(
     const params = await context.params;
     const projectId = params.id;
 
-    if (!ObjectId.isValid(projectId)) {
+    const access = await authorizeProject(projectId, session.user, 'report_incident');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Invalid project ID'
-      }, { status: 400 });
-    }
-
-    // Only admins and managers can create incidents
-    if (!['super_admin', 'project_manager'].includes(session.user.role)) {
-      return NextResponse.json({
-        success: false,
-        error: 'Only administrators and project managers can create incident reports'
-      }, { status: 403 });
-    }
-
-    // Validate access
-    const hasAccess = await validateProjectAccess(
-      projectId,
-      session.user.id,
-      session.user.role
-    );
-
-    if (!hasAccess) {
-      return NextResponse.json({
-        success: false,
-        error: 'Access denied'
-      }, { status: 403 });
+        error: access.error
+      }, { status: access.status });
     }
 
     const body = await request.json();
@@ -275,6 +227,7 @@ export async function POST(
       category,
       severity,
       location,
+      contractor,
       dateOccurred,
       timeOccurred,
       witnessNames,
@@ -320,6 +273,12 @@ export async function POST(
       assignedTo = new ObjectId(assignedToId);
     }
 
+    let contractorLink: Pick<IncidentDocument, 'contractor' | 'contractorId'> = {};
+    if (typeof contractor === 'string' && contractor.trim()) {
+      const { name, id } = linkDirectoryName(contractor, await loadContractorDirectory(db));
+      contractorLink = { contractor: name, contractorId: id || undefined };
+    }
+
     // Determine priority based on severity and injury type
     let priority: 'low' | 'medium' | 'high' | 'urgent' = 'medium';
     if (severity === 'critical' || injuryDetails?.injuryType === 'fatality') {
@@ -339,6 +298,7 @@ export async function POST(
       category,
       severity,
       location,
+      ...contractorLink,
       dateOccurred: new Date(dateOccurred),
       timeOccurred: timeOccurred || '',
       reportedBy: new ObjectId(session.user.id),
@@ -364,6 +324,16 @@ export async function POST(
 
     const result = await db.collection('incidents').insertOne(incidentData);
 
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'incident',
+      entityId: result.insertedId,
+      entityLabel: incidentData.incidentCode,
+      projectId,
+      request
+    });
+
     // Get created incident with reporter details
     const createdIncident = await db.collection('incidents')
       .aggregate([
@@ -401,6 +371,8 @@ export async function POST(
         category: incident.category,
         severity: incident.severity,
         location: incident.location,
+        contractor: incident.contractor,
+        contractorId: incident.contractorId?.toString(),
         dateOccurred: incident.dateOccurred.toISOString(),
         timeOccurred: incident.timeOccurred,
         reportedBy: {
@@ -0,0 +1,80 @@
+// src/app/api/projects/[id]/labor/plan/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { diffFields, recordAudit } from '@/lib/audit';
+import { loadLaborSummary, parseLaborPlan, LaborProject } from '@/lib/labor';
+import { authorizeProject } from '@/lib/project-access';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// PUT /api/projects/[id]/labor/plan - Set the planned manpower per phase
+// Body: { phases: [{ phase, plannedWorkerDays, plannedCrew? }] }
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+    const access = await authorizeProject<LaborProject>(projectId, session.user, 'plan_labor');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const body = await request.json();
+    const parsed = parseLaborPlan(body.phases);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    await db.collection('projects').updateOne(
+      { _id: access.project._id },
+      { $set: { laborPlan: parsed.plan, updatedAt: new Date() } }
+    );
+
+    await recordAudit({
+      actor: session.user,
+      action: 'updated',
+      entityType: 'project',
+      entityId: projectId,
+      entityLabel: access.project.title,
+      projectId,
+      changes: diffFields({ laborPlan: access.project.laborPlan || [] }, { laborPlan: parsed.plan }),
+      request
+    });
+
+    const data = await loadLaborSummary(db, { ...access.project, laborPlan: parsed.plan });
+    return NextResponse.json({
+      success: true,
+      data,
+      message: 'Manpower plan saved'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error saving manpower plan:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,159 @@
+// src/app/api/projects/[id]/labor/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  linkLaborEntries,
+  loadLaborDay,
+  parseLogDate,
+  parseLaborEntries,
+  saveLaborDay,
+  LaborLogRecord,
+  LaborProject
+} from '@/lib/labor';
+import { DAILY_LOGS_COLLECTION } from '@/lib/contractors';
+import { authorizeProject } from '@/lib/project-access';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/projects/[id]/labor?date=YYYY-MM-DD - One day's labor log
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+    const access = await authorizeProject<LaborProject>(projectId, session.user, 'view_labor');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const date = parseLogDate(new URL(request.url).searchParams.get('date'));
+    if (!date) {
+      return NextResponse.json({
+        success: false,
+        error: 'A date (YYYY-MM-DD) is required'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const data = await loadLaborDay(db, access.project, date);
+
+    return NextResponse.json({
+      success: true,
+      data
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching labor log:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// PUT /api/projects/[id]/labor - Replace one day's labor log
+// Body: { date: 'YYYY-MM-DD', entries: [{ contractor, workerName?, trade?, headcount?, hours?, dayRate?, phase?, notes? }] }
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+    const access = await authorizeProject<LaborProject>(projectId, session.user, 'log_labor');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const body = await request.json();
+    const date = parseLogDate(body.date);
+    if (!date) {
+      return NextResponse.json({
+        success: false,
+        error: 'A date (YYYY-MM-DD) is required'
+      }, { status: 400 });
+    }
+    if (date.getTime() > Date.now()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Labor can\'t be logged for a future date'
+      }, { status: 400 });
+    }
+
+    const parsed = parseLaborEntries(body.entries);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const existing = await db.collection<LaborLogRecord>(DAILY_LOGS_COLLECTION)
+      .findOne({ project: access.project._id, date }, { projection: { labor: 1 } });
+    const before = existing?.labor || [];
+
+    const entries = await linkLaborEntries(db, parsed.entries);
+    const saved = await saveLaborDay(db, access.project._id, date, entries, session.user.id);
+
+    const crewSize = (list: typeof entries) => list.reduce((total, entry) => total + entry.headcount, 0);
+    await recordAudit({
+      actor: session.user,
+      action: before.length === 0 ? 'created' : 'updated',
+      entityType: 'labor_log',
+      entityId: saved._id,
+      entityLabel: `Labor log ${body.date}`,
+      projectId,
+      changes: [
+        { field: 'lines', before: before.length, after: entries.length },
+        { field: 'crewSize', before: crewSize(before), after: crewSize(entries) }
+      ].filter(change => change.before !== change.after),
+      metadata: { date: body.date },
+      request
+    });
+
+    const data = await loadLaborDay(db, access.project, date);
+    return NextResponse.json({
+      success: true,
+      data,
+      message: 'Labor log saved'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error saving labor log:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+// src/app/api/projects/[id]/labor/summary/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { loadLaborSummary, parseLogDate, LaborProject } from '@/lib/labor';
+import { authorizeProject } from '@/lib/project-access';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/projects/[id]/labor/summary?from=&to= - Weekly labor-hours, per contractor
+// and per phase against the manpower plan; costs only when the project has a cost budget
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+    const access = await authorizeProject<LaborProject>(projectId, session.user, 'view_labor');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const from = searchParams.get('from') ? parseLogDate(searchParams.get('from')) : undefined;
+    const to = searchParams.get('to') ? parseLogDate(searchParams.get('to')) : undefined;
+    if (from === null || to === null) {
+      return NextResponse.json({
+        success: false,
+        error: 'Dates must be YYYY-MM-DD'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const data = await loadLaborSummary(db, access.project, { from, to });
+
+    return NextResponse.json({
+      success: true,
+      data
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching labor summary:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { authorizeProject } from '@/lib/project-access';
 
 // Import our types and utilities
 import type { MilestoneDocument } from '@/lib/types/milestone';
@@ -43,33 +44,15 @@ export async function GET(
 
     const { id } = await params;
     
-    if (!ObjectId.isValid(id)) {
+    const access = await authorizeProject(id, session.user, 'view_project');
+    if (!access.ok) {
       return NextResponse.json({ 
         success: false, 
-        error: 'Invalid project ID' 
-      }, { status: 400 });
+        error: access.error 
+      }, { status: access.status });
     }
 
     const { db } = await connectToDatabase();
-    const userId = new ObjectId(session.user.id);
-
-    // Check if user has access to this project
-    const projectFilter: Record<string, unknown> = { _id: new ObjectId(id) };
-    
-    if (session.user.role === 'client') {
-      projectFilter.client = userId;
-    } else if (session.user.role === 'project_manager') {
-      projectFilter.managers = userId;
-    }
-    // Super admin has access to all projects
-
-    const project = await db.collection('projects').findOne(projectFilter);
-    if (!project) {
-      return NextResponse.json({ 
-        success: false, 
-        error: 'Project not found or access denied' 
-      }, { status: 404 });
-    }
 
     // Get milestones for this project
     const milestones = await db.collection<MilestoneDocument>('milestones')
@@ -108,20 +91,21 @@ export async function POST(
 ) {
   try {
     const session = await auth();
-    if (!session?.user?.id || (session.user.role !== 'super_admin' && session.user.role !== 'project_manager')) {
+    if (!session?.user?.id) {
       return NextResponse.json({ 
         success: false, 
-        error: 'Unauthorized - Admin or Manager access required' 
+        error: 'Unauthorized' 
       }, { status: 401 });
     }
 
     const { id } = await params;
     
-    if (!ObjectId.isValid(id)) {
+    const access = await authorizeProject(id, session.user, 'manage_milestones');
+    if (!access.ok) {
       return NextResponse.json({ 
         success: false, 
-        error: 'Invalid project ID' 
-      }, { status: 400 });
+        error: access.error 
+      }, { status: access.status });
     }
 
     const body: CreateMilestoneRequest = await request.json();
@@ -143,22 +127,6 @@ export async function POST(
     }
 
     const { db } = await connectToDatabase();
-    const userId = new ObjectId(session.user.id);
-
-    // Check if user has access to this project
-    const projectFilter: Record<string, unknown> = { _id: new ObjectId(id) };
-    
-    if (session.user.role === 'project_manager') {
-      projectFilter.manager = userId;
-    }
-
-    const project = await db.collection('projects').findOne(projectFilter);
-    if (!project) {
-      return NextResponse.json({ 
-        success: false, 
-        error: 'Project not found or access denied' 
-      }, { status: 404 });
-    }
 
     // Check if milestone for this phase already exists
     const existingMilestone = await db.collection('milestones').findOne({
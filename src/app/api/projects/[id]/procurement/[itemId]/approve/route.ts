@@ -0,0 +1,104 @@
+// src/app/api/projects/[id]/procurement/[itemId]/approve/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  PROCUREMENT_COLLECTION,
+  ProcurementProject,
+  notifyProcurementApproved,
+  toProcurementItem
+} from '@/lib/procurement';
+import { authorizeProject } from '@/lib/project-access';
+import { ProcurementItemDocument } from '@/lib/types/procurement';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    itemId: string;
+  }>;
+}
+
+// POST /api/projects/[id]/procurement/[itemId]/approve - Client approves a specified item for order
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, itemId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(itemId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<ProcurementProject>(projectId, session.user, 'approve_procurement');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const now = new Date();
+    const approved = await db.collection<ProcurementItemDocument>(PROCUREMENT_COLLECTION).findOneAndUpdate(
+      { _id: new ObjectId(itemId), projectId: access.project._id, status: 'specified' },
+      {
+        $set: {
+          status: 'client_approved',
+          clientApproval: {
+            by: new ObjectId(session.user.id),
+            name: session.user.name || 'Client',
+            at: now
+          },
+          updatedAt: now
+        }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!approved) {
+      return NextResponse.json({
+        success: false,
+        error: 'This item is not awaiting your approval'
+      }, { status: 409 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'approved',
+      entityType: 'procurement_item',
+      entityId: itemId,
+      entityLabel: approved.name,
+      projectId,
+      changes: [{ field: 'status', before: 'specified', after: 'client_approved' }],
+      request
+    });
+
+    await notifyProcurementApproved(db, access.project, approved, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: toProcurementItem(approved, access.project, { includeCosts: false }),
+      message: 'Item approved'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error approving procurement item:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
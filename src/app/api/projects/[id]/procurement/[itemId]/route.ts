@@ -0,0 +1,217 @@
+// src/app/api/projects/[id]/procurement/[itemId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { auditUpdateAction, diffFields, recordAudit } from '@/lib/audit';
+import {
+  PROCUREMENT_COLLECTION,
+  ProcurementInput,
+  ProcurementProject,
+  checkDeliveryConflicts,
+  checkProcurementStatusChange,
+  linkProcurementSupplier,
+  parseProcurementInput,
+  toProcurementItem
+} from '@/lib/procurement';
+import { authorizeProject } from '@/lib/project-access';
+import { ProcurementItemDocument } from '@/lib/types/procurement';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    itemId: string;
+  }>;
+}
+
+// Fields that are removed from the item when left blank
+const OPTIONAL_FIELDS = [
+  'description', 'supplier', 'supplierId', 'unit', 'orderDate', 'expectedDelivery', 'actualDelivery',
+  'activityId', 'phaseId', 'activityTitle', 'notes'
+] as const;
+
+// PATCH /api/projects/[id]/procurement/[itemId] - Edit an item or move it along
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, itemId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(itemId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<ProcurementProject>(projectId, session.user, 'manage_procurement');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parseProcurementInput(await request.json(), access.project);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<ProcurementItemDocument>(PROCUREMENT_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(itemId), projectId: access.project._id });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Item not found'
+      }, { status: 404 });
+    }
+
+    const statusError = checkProcurementStatusChange(access.project, existing.status, parsed.item.status);
+    if (statusError) {
+      return NextResponse.json({
+        success: false,
+        error: statusError
+      }, { status: 400 });
+    }
+
+    const set: Partial<ProcurementInput> = {};
+    const unset: Record<string, ''> = {};
+    const input = await linkProcurementSupplier(db, parsed.item);
+    for (const [field, value] of Object.entries(input) as Array<[keyof ProcurementInput, unknown]>) {
+      if (value === undefined) {
+        if ((OPTIONAL_FIELDS as readonly string[]).includes(field)) unset[field] = '';
+      } else {
+        (set as Record<string, unknown>)[field] = value;
+      }
+    }
+    // Sending an item back to specified means it needs approving again
+    if (parsed.item.status === 'specified') unset.clientApproval = '';
+
+    // Guard on the status so a client approval in between isn't overwritten
+    const updated = await collection.findOneAndUpdate(
+      { _id: existing._id, status: existing.status },
+      {
+        $set: { ...set, updatedAt: new Date() },
+        ...(Object.keys(unset).length > 0 ? { $unset: unset } : {})
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: 'This item was changed by someone else. Reload and try again.'
+      }, { status: 409 });
+    }
+
+    const changes = diffFields(existing, input, [
+      'name', 'description', 'category', 'supplier', 'quantity', 'unit', 'unitCost',
+      'orderDate', 'expectedDelivery', 'actualDelivery', 'status', 'activityTitle', 'notes'
+    ]);
+    await recordAudit({
+      actor: session.user,
+      action: auditUpdateAction(changes),
+      entityType: 'procurement_item',
+      entityId: itemId,
+      entityLabel: updated.name,
+      projectId,
+      changes,
+      request
+    });
+
+    await checkDeliveryConflicts(db, access.project._id, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: toProcurementItem(updated, access.project, { includeCosts: true }),
+      message: 'Item updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating procurement item:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[id]/procurement/[itemId] - Remove an item from the register
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, itemId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(itemId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'manage_procurement');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const deleted = await db.collection<ProcurementItemDocument>(PROCUREMENT_COLLECTION).findOneAndDelete({
+      _id: new ObjectId(itemId),
+      projectId: access.project._id
+    });
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Item not found'
+      }, { status: 404 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'procurement_item',
+      entityId: itemId,
+      entityLabel: deleted.name,
+      projectId,
+      metadata: { status: deleted.status, supplier: deleted.supplier },
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Item deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting procurement item:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
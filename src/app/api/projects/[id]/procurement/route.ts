@@ -0,0 +1,148 @@
+// src/app/api/projects/[id]/procurement/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  PROCUREMENT_COLLECTION,
+  ProcurementProject,
+  checkDeliveryConflicts,
+  checkProcurementStatusChange,
+  linkProcurementSupplier,
+  loadProjectProcurement,
+  parseProcurementInput,
+  toProcurementItem
+} from '@/lib/procurement';
+import { authorizeProject, relationHasPermission } from '@/lib/project-access';
+import { ProcurementItemDocument } from '@/lib/types/procurement';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/projects/[id]/procurement - Procurement register with summary
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject<ProcurementProject>(projectId, session.user, 'view_procurement');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+
+    return NextResponse.json({
+      success: true,
+      data: await loadProjectProcurement(db, access.project, {
+        includeCosts: relationHasPermission(access.relation, 'view_budget')
+      })
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching procurement items:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// POST /api/projects/[id]/procurement - Add an item to the register
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject<ProcurementProject>(projectId, session.user, 'manage_procurement');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parseProcurementInput(await request.json(), access.project);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const statusError = checkProcurementStatusChange(access.project, 'specified', parsed.item.status);
+    if (statusError) {
+      return NextResponse.json({
+        success: false,
+        error: statusError
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const now = new Date();
+    const item: ProcurementItemDocument = {
+      ...await linkProcurementSupplier(db, parsed.item),
+      projectId: access.project._id,
+      createdBy: new ObjectId(session.user.id),
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const result = await db.collection<ProcurementItemDocument>(PROCUREMENT_COLLECTION).insertOne(item);
+    item._id = result.insertedId;
+
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'procurement_item',
+      entityId: result.insertedId,
+      entityLabel: item.name,
+      projectId,
+      request
+    });
+
+    await checkDeliveryConflicts(db, access.project._id, session.user.id);
+
+    return NextResponse.json({
+      success: true,
+      data: toProcurementItem(item, access.project, { includeCosts: true }),
+      message: 'Item added successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error creating procurement item:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { authorizeProject } from '@/lib/project-access';
 
 interface RouteContext {
   params: Promise<{
@@ -50,6 +51,14 @@ export async function POST(
       }, { status: 400 });
     }
 
+    const access = await authorizeProject(projectId, session.user, 'comment_risk');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
     const body = await request.json();
     const { content } = body;
 
@@ -62,7 +71,7 @@ export async function POST(
 
     const { db } = await connectToDatabase();
 
-    // Verify risk exists and user has access
+    // Verify risk exists
     const risk = await db.collection('risks').findOne({
       _id: new ObjectId(riskId),
       projectId: new ObjectId(projectId)
@@ -75,31 +84,6 @@ export async function POST(
       }, { status: 404 });
     }
 
-    // Verify project access
-    const project = await db.collection('projects').findOne({
-      _id: new ObjectId(projectId)
-    });
-
-    if (!project) {
-      return NextResponse.json({
-        success: false,
-        error: 'Project not found'
-      }, { status: 404 });
-    }
-
-    // Check access
-    const hasAccess = 
-      session.user.role === 'super_admin' ||
-      (session.user.role === 'project_manager' && project.manager.equals(new ObjectId(session.user.id))) ||
-      (session.user.role === 'client' && project.client.equals(new ObjectId(session.user.id)));
-
-    if (!hasAccess) {
-      return NextResponse.json({
-        success: false,
-        error: 'Access denied'
-      }, { status: 403 });
-    }
-
     const comment: CommentData = {
       _id: new ObjectId(),
       userId: new ObjectId(session.user.id),
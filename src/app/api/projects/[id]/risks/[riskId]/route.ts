@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { auditUpdateAction, diffFields, recordAudit } from '@/lib/audit';
+import { authorizeProject } from '@/lib/project-access';
 
 interface RouteContext {
   params: Promise<{
@@ -47,12 +49,12 @@ export async function PATCH(
       }, { status: 400 });
     }
 
-    // Only admins and managers can update risks
-    if (!['super_admin', 'project_manager'].includes(session.user.role)) {
+    const access = await authorizeProject(projectId, session.user, 'manage_risks');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Only administrators and project managers can update risks'
-      }, { status: 403 });
+        error: access.error
+      }, { status: access.status });
     }
 
     const body = await request.json();
@@ -121,6 +123,19 @@ export async function PATCH(
       { $set: updateData }
     );
 
+    const changes = diffFields(existingRisk, updateData)
+      .filter(change => change.field !== 'lastReviewDate');
+    await recordAudit({
+      actor: session.user,
+      action: auditUpdateAction(changes),
+      entityType: 'risk',
+      entityId: riskId,
+      entityLabel: existingRisk.riskCode,
+      projectId,
+      changes,
+      request
+    });
+
     // Get updated risk
     const updatedRisk = await db.collection('risks')
       .aggregate([
@@ -227,28 +242,38 @@ export async function DELETE(
       }, { status: 400 });
     }
 
-    // Only super admins can delete risks
-    if (session.user.role !== 'super_admin') {
+    const access = await authorizeProject(projectId, session.user, 'delete_risk');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Only administrators can delete risks'
-      }, { status: 403 });
+        error: access.error
+      }, { status: access.status });
     }
 
     const { db } = await connectToDatabase();
 
-    const result = await db.collection('risks').deleteOne({
+    const deleted = await db.collection('risks').findOneAndDelete({
       _id: new ObjectId(riskId),
       projectId: new ObjectId(projectId)
     });
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       return NextResponse.json({
         success: false,
         error: 'Risk not found'
       }, { status: 404 });
     }
 
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'risk',
+      entityId: riskId,
+      entityLabel: deleted.riskCode,
+      projectId,
+      request
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Risk deleted successfully'
@@ -3,6 +3,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { recordAudit } from '@/lib/audit';
+import { authorizeProject } from '@/lib/project-access';
 
 interface RiskDocument {
   _id?: ObjectId;
@@ -66,27 +68,6 @@ function calculateRiskScore(
   return probabilityScores[probability] * impactScores[impact];
 }
 
-// Validate project access
-async function validateProjectAccess(
-  projectId: string,
-  userId: string,
-  userRole: string
-): Promise<boolean> {
-  const { db } = await connectToDatabase();
-
-  const project = await db.collection('projects').findOne({
-    _id: new ObjectId(projectId)
-  });
-
-  if (!project) return false;
-
-  if (userRole === 'super_admin') return true;
-  if (userRole === 'project_manager' && project.manager.equals(new ObjectId(userId))) return true;
-  if (userRole === 'client' && project.client.equals(new ObjectId(userId))) return true;
-
-  return false;
-}
-
 // GET /api/projects/[id]/risks - Get all risks for a project
 export async function GET(
   request: NextRequest,
@@ -104,25 +85,12 @@ export async function GET(
     const params = await context.params;
     const projectId = params.id;
 
-    if (!ObjectId.isValid(projectId)) {
-      return NextResponse.json({
-        success: false,
-        error: 'Invalid project ID'
-      }, { status: 400 });
-    }
-
-    // Validate access
-    const hasAccess = await validateProjectAccess(
-      projectId,
-      session.user.id,
-      session.user.role
-    );
-
-    if (!hasAccess) {
+    const access = await authorizeProject(projectId, session.user, 'view_risks');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Access denied'
-      }, { status: 403 });
+        error: access.error
+      }, { status: access.status });
     }
 
     const { db } = await connectToDatabase();
@@ -239,33 +207,12 @@ export async function POST(
     const params = await context.params;
     const projectId = params.id;
 
-    if (!ObjectId.isValid(projectId)) {
+    const access = await authorizeProject(projectId, session.user, 'manage_risks');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Invalid project ID'
-      }, { status: 400 });
-    }
-
-    // Only admins and managers can create risks
-    if (!['super_admin', 'project_manager'].includes(session.user.role)) {
-      return NextResponse.json({
-        success: false,
-        error: 'Only administrators and project managers can create risks'
-      }, { status: 403 });
-    }
-
-    // Validate access
-    const hasAccess = await validateProjectAccess(
-      projectId,
-      session.user.id,
-      session.user.role
-    );
-
-    if (!hasAccess) {
-      return NextResponse.json({
-        success: false,
-        error: 'Access denied'
-      }, { status: 403 });
+        error: access.error
+      }, { status: access.status });
     }
 
     const body = await request.json();
@@ -341,6 +288,16 @@ export async function POST(
 
     const result = await db.collection('risks').insertOne(riskData);
 
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'risk',
+      entityId: result.insertedId,
+      entityLabel: riskData.riskCode,
+      projectId,
+      request
+    });
+
     // Get created risk with owner details
     const createdRisk = await db.collection('risks')
       .aggregate([
@@ -2,6 +2,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
+import { auditUpdateAction, diffFields, recordAudit } from '@/lib/audit';
+import { authorizeProject, relationHasPermission } from '@/lib/project-access';
+import { countOutstandingSnags } from '@/lib/snags';
 import { ObjectId } from 'mongodb';
 
 interface ProjectDocument {
@@ -31,34 +34,6 @@ interface RouteContext {
   params: Promise<{ id: string }>;
 }
 
-// ✅ UPDATED: Helper function to check access with multiple managers support
-async function checkProjectAccess(projectId: string, userId: string, userRole: string): Promise<boolean> {
-  const { db } = await connectToDatabase();
-  
-  if (userRole === 'super_admin') {
-    return true;
-  }
-
-  const project = await db.collection<ProjectDocument>('projects').findOne({
-    _id: new ObjectId(projectId)
-  });
-
-  if (!project) {
-    return false;
-  }
-
-  if (userRole === 'client') {
-    return project.client.equals(new ObjectId(userId));
-  }
-
-  if (userRole === 'project_manager') {
-    // ✅ UPDATED: Check if user is in managers array
-    return project.managers.some(managerId => managerId.equals(new ObjectId(userId)));
-  }
-
-  return false;
-}
-
 // GET /api/projects/[id] - Get single project
 export async function GET(
   request: NextRequest,
@@ -77,19 +52,11 @@ export async function GET(
     const params = await context.params;
     const projectId = params.id;
 
-    if (!ObjectId.isValid(projectId)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid project ID' },
-        { status: 400 }
-      );
-    }
-
-    // Check access
-    const hasAccess = await checkProjectAccess(projectId, session.user.id, session.user.role);
-    if (!hasAccess) {
+    const access = await authorizeProject(projectId, session.user, 'view_project');
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Access denied' },
-        { status: 403 }
+        { success: false, error: access.error },
+        { status: access.status }
       );
     }
 
@@ -167,25 +134,31 @@ export async function PUT(
     const params = await context.params;
     const projectId = params.id;
 
-    if (!ObjectId.isValid(projectId)) {
-      return NextResponse.json(
-        { success: false, error: 'Invalid project ID' },
-        { status: 400 }
-      );
-    }
-
-    // Check access - ✅ Now supports multiple managers
-    const hasAccess = await checkProjectAccess(projectId, session.user.id, session.user.role);
-    if (!hasAccess) {
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'edit_project');
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Access denied' },
-        { status: 403 }
+        { success: false, error: access.error },
+        { status: access.status }
       );
     }
 
     const updateData = await request.json();
     const { db } = await connectToDatabase();
 
+    // Final handover waits until every snag is verified by the client or waived
+    if (updateData.status === 'completed' && access.project.status !== 'completed') {
+      const outstanding = await countOutstandingSnags(db, access.project._id);
+      if (outstanding > 0) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: `${outstanding} snag${outstanding === 1 ? ' is' : 's are'} still open or awaiting client sign-off. Every snag must be verified or waived before handover.`
+          },
+          { status: 409 }
+        );
+      }
+    }
+
     // Build update object
     const updateFields: Record<string, unknown> = {
       updatedAt: new Date()
@@ -211,7 +184,7 @@ export async function PUT(
     if (updateData.notes) updateFields.notes = updateData.notes;
 
     // ✅ NEW: Handle updating managers array (only super_admin can do this)
-    if (updateData.managerIds && session.user.role === 'super_admin') {
+    if (updateData.managerIds && relationHasPermission(access.relation, 'manage_managers')) {
       const managerIds = updateData.managerIds.map((id: string) => new ObjectId(id));
       
       // Verify all managers exist
@@ -231,19 +204,32 @@ export async function PUT(
       updateFields.managers = managerIds;
     }
 
-    // Update project
-    const result = await db.collection<ProjectDocument>('projects').updateOne(
+    // Update project, keeping the previous version for the audit trail
+    const previous = await db.collection<ProjectDocument>('projects').findOneAndUpdate(
       { _id: new ObjectId(projectId) },
-      { $set: updateFields }
+      { $set: updateFields },
+      { returnDocument: 'before' }
     );
 
-    if (result.matchedCount === 0) {
+    if (!previous) {
       return NextResponse.json(
         { success: false, error: 'Project not found' },
         { status: 404 }
       );
     }
 
+    const changes = diffFields(previous, updateFields);
+    await recordAudit({
+      actor: session.user,
+      action: auditUpdateAction(changes),
+      entityType: 'project',
+      entityId: projectId,
+      entityLabel: (updateFields.title as string | undefined) || previous.title,
+      projectId,
+      changes,
+      request
+    });
+
     // Get updated project with populated managers
     const updatedProject = await db.collection<ProjectDocument>('projects')
       .aggregate([
@@ -307,37 +293,41 @@ export async function DELETE(
       );
     }
 
-    // Only super admins can delete projects
-    if (session.user.role !== 'super_admin') {
-      return NextResponse.json(
-        { success: false, error: 'Only super admins can delete projects' },
-        { status: 403 }
-      );
-    }
-
     const params = await context.params;
     const projectId = params.id;
 
-    if (!ObjectId.isValid(projectId)) {
+    const access = await authorizeProject(projectId, session.user, 'delete_project');
+    if (!access.ok) {
       return NextResponse.json(
-        { success: false, error: 'Invalid project ID' },
-        { status: 400 }
+        { success: false, error: access.error },
+        { status: access.status }
       );
     }
 
     const { db } = await connectToDatabase();
 
-    const result = await db.collection<ProjectDocument>('projects').deleteOne({
+    const deleted = await db.collection<ProjectDocument>('projects').findOneAndDelete({
       _id: new ObjectId(projectId)
     });
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       return NextResponse.json(
         { success: false, error: 'Project not found' },
         { status: 404 }
       );
     }
 
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'project',
+      entityId: projectId,
+      entityLabel: deleted.title,
+      projectId,
+      metadata: { status: deleted.status },
+      request
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Project deleted successfully'
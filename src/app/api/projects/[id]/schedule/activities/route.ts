@@ -2,7 +2,23 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
-import { ObjectId, Filter } from 'mongodb';
+import { authorizeProject } from '@/lib/project-access';
+import { ObjectId } from 'mongodb';
+import { getActivityDates } from '@/lib/scheduling';
+import {
+  planScheduleChange,
+  scheduleShiftOperations,
+  ScheduleChangeError,
+  ScheduleChangePlan
+} from '@/lib/schedule-changes';
+import {
+  countWorkingDays,
+  loadProjectCalendar,
+  ProjectWorkCalendar
+} from '@/lib/working-calendar';
+import { auditUpdateAction, diffFields, recordAudit } from '@/lib/audit';
+import { checkDeliveryConflicts } from '@/lib/procurement';
+import { resolveContractorLinks } from '@/lib/contractors';
 
 // Define schedule activity structure for database operations
 interface ScheduleActivityDocument {
@@ -11,8 +27,13 @@ interface ScheduleActivityDocument {
   description?: string;
   contractor: string;
   supervisor?: string;
-  plannedStartDate: Date;
-  plannedEndDate: Date;
+  contractorId?: ObjectId | null;
+  supervisorId?: ObjectId | null;
+  plannedStartDate?: Date;
+  plannedEndDate?: Date;
+  // Activities created through the site-schedule (mongoose) routes
+  startDate?: Date;
+  endDate?: Date;
   actualStartDate?: Date;
   actualEndDate?: Date;
   status: 'pending' | 'in_progress' | 'completed' | 'delayed';
@@ -33,7 +54,11 @@ interface ProjectDocument {
   _id: ObjectId;
   title: string;
   client: ObjectId;
-  manager: ObjectId;
+  managers?: ObjectId[];
+  startDate?: Date;
+  endDate?: Date;
+  workDays?: string;
+  workCalendar?: ProjectWorkCalendar;
   siteSchedule?: {
     phases: Array<{
       _id: ObjectId;
@@ -71,36 +96,18 @@ interface CreateActivityRequest {
   dependencies?: string[];
   resources?: string[];
   notes?: string;
-  estimatedDuration?: number;
 }
 
 interface ActivitiesPageProps {
   params: Promise<{ id: string }>;
 }
 
-async function validateProjectAccess(
-  projectId: string,
-  userId: string,
-  userRole: string
-): Promise<ProjectDocument | null> {
-  const { db } = await connectToDatabase();
-
-  if (!ObjectId.isValid(projectId)) {
-    return null;
-  }
-
-  const projectFilter: Filter<ProjectDocument> = { _id: new ObjectId(projectId) };
+type SchedulePhaseDocument = NonNullable<ProjectDocument['siteSchedule']>['phases'][number];
 
-  // Role-based access control
-  if (userRole === 'client') {
-    projectFilter.client = new ObjectId(userId);
-  } else if (userRole === 'project_manager') {
-    projectFilter.manager = new ObjectId(userId);
-  }
-  // super_admin can access all projects
+const ACTIVITY_DATE_FIELDS = ['plannedStartDate', 'plannedEndDate', 'startDate', 'endDate', 'actualStartDate', 'actualEndDate'];
 
-  return await db.collection<ProjectDocument>('projects').findOne(projectFilter);
-}
+// Fields that place an activity in the dependency graph
+const SCHEDULE_FIELDS = ['plannedStartDate', 'plannedEndDate', 'startDate', 'endDate', 'dependencies'];
 
 // POST /api/projects/[id]/schedule/activities - Create new activity
 export async function POST(
@@ -116,23 +123,15 @@ export async function POST(
       }, { status: 401 });
     }
 
-    // Only project managers and super admins can create activities
-    if (!['project_manager', 'super_admin'].includes(session.user.role)) {
-      return NextResponse.json({
-        success: false,
-        error: 'Insufficient permissions to create activities'
-      }, { status: 403 });
-    }
-
     const { id: projectId } = await params;
-    const project = await validateProjectAccess(projectId, session.user.id, session.user.role);
-
-    if (!project) {
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'edit_schedule');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Project not found or access denied'
-      }, { status: 404 });
+        error: access.error
+      }, { status: access.status });
     }
+    const { project } = access;
 
     const body = await request.json() as CreateActivityRequest;
 
@@ -189,20 +188,27 @@ export async function POST(
       }, { status: 404 });
     }
 
+    // Durations are counted in the project's working days
+    const { db } = await connectToDatabase();
+    const calendar = await loadProjectCalendar(db, project);
+    const links = await resolveContractorLinks(db, { contractor: body.contractor, supervisor: body.supervisor });
+
     // Create new activity
     const newActivity: ScheduleActivityDocument = {
       _id: new ObjectId(),
       title: body.title.trim(),
       description: body.description?.trim() || '',
-      contractor: body.contractor.trim(),
-      supervisor: body.supervisor?.trim(),
+      contractor: links.contractor!,
+      contractorId: links.contractorId,
+      supervisor: links.supervisor,
+      supervisorId: links.supervisorId,
       plannedStartDate: startDate,
       plannedEndDate: endDate,
       status: 'pending',
       priority: body.priority || 'medium',
       category: body.category || 'other',
       progress: 0,
-      estimatedDuration: body.estimatedDuration,
+      estimatedDuration: countWorkingDays(startDate, endDate, calendar),
       dependencies: body.dependencies || [],
       resources: body.resources || [],
       notes: body.notes?.trim(),
@@ -210,8 +216,22 @@ export async function POST(
       updatedAt: new Date()
     };
 
+    // Reject dependencies that would make the schedule circular
+    if (newActivity.dependencies?.length) {
+      const plan = planScheduleChange(project.siteSchedule!.phases, project.siteSchedule!.phases.map(phase =>
+        phase._id.equals(targetPhaseId)
+          ? { ...phase, activities: [...phase.activities, newActivity] }
+          : phase
+      ), calendar);
+      if ('error' in plan) {
+        return NextResponse.json({
+          success: false,
+          error: plan.error
+        }, { status: plan.status });
+      }
+    }
+
     // Add activity to the specific phase
-    const { db } = await connectToDatabase();
     const result = await db.collection<ProjectDocument>('projects').updateOne(
       { 
         _id: new ObjectId(projectId),
@@ -233,6 +253,16 @@ export async function POST(
       }, { status: 500 });
     }
 
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'activity',
+      entityId: newActivity._id,
+      entityLabel: newActivity.title,
+      projectId,
+      request
+    });
+
     // Return created activity
     return NextResponse.json({
       success: true,
@@ -242,8 +272,8 @@ export async function POST(
         description: newActivity.description,
         contractor: newActivity.contractor,
         supervisor: newActivity.supervisor,
-        plannedStartDate: newActivity.plannedStartDate.toISOString(),
-        plannedEndDate: newActivity.plannedEndDate.toISOString(),
+        plannedStartDate: startDate.toISOString(),
+        plannedEndDate: endDate.toISOString(),
         status: newActivity.status,
         priority: newActivity.priority,
         category: newActivity.category,
@@ -281,23 +311,15 @@ export async function PUT(
       }, { status: 401 });
     }
 
-    // Only project managers and super admins can update activities
-    if (!['project_manager', 'super_admin'].includes(session.user.role)) {
-      return NextResponse.json({
-        success: false,
-        error: 'Insufficient permissions to update activities'
-      }, { status: 403 });
-    }
-
     const { id: projectId } = await params;
-    const project = await validateProjectAccess(projectId, session.user.id, session.user.role);
-
-    if (!project) {
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'edit_activity');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Project not found or access denied'
-      }, { status: 404 });
+        error: access.error
+      }, { status: access.status });
     }
+    const { project } = access;
 
     const body = await request.json();
     const { activityId, phaseId, updates } = body;
@@ -316,32 +338,84 @@ export async function PUT(
       }, { status: 400 });
     }
 
+    const phases = project.siteSchedule?.phases || [];
+    const targetPhase = phases.find(phase => phase._id.equals(new ObjectId(phaseId)));
+    const currentActivity = targetPhase?.activities.find(activity => activity._id.equals(new ObjectId(activityId)));
+
+    if (!targetPhase || !currentActivity) {
+      return NextResponse.json({
+        success: false,
+        error: 'Activity not found'
+      }, { status: 404 });
+    }
+
     // Build update object
     const updateFields: Record<string, unknown> = {};
+    const changes: Partial<ScheduleActivityDocument> = {};
     const allowedFields = [
       'title', 'description', 'contractor', 'supervisor',
-      'plannedStartDate', 'plannedEndDate', 'actualStartDate', 'actualEndDate',
-      'status', 'priority', 'category', 'progress', 'estimatedDuration',
+      'plannedStartDate', 'plannedEndDate', 'startDate', 'endDate', 'actualStartDate', 'actualEndDate',
+      'status', 'priority', 'category', 'progress',
       'actualDuration', 'dependencies', 'resources', 'notes'
     ];
 
     for (const field of allowedFields) {
       if (updates[field] !== undefined) {
-        if (['plannedStartDate', 'plannedEndDate', 'actualStartDate', 'actualEndDate'].includes(field)) {
-          updateFields[`siteSchedule.phases.$[phase].activities.$[activity].${field}`] = 
-            updates[field] ? new Date(updates[field]) : null;
-        } else {
-          updateFields[`siteSchedule.phases.$[phase].activities.$[activity].${field}`] = updates[field];
-        }
+        const value = ACTIVITY_DATE_FIELDS.includes(field)
+          ? (updates[field] ? new Date(updates[field]) : null)
+          : updates[field];
+        updateFields[`siteSchedule.phases.$[phase].activities.$[activity].${field}`] = value;
+        (changes as Record<string, unknown>)[field] = value ?? undefined;
       }
     }
 
-    updateFields['siteSchedule.phases.$[phase].activities.$[activity].updatedAt'] = new Date();
-    updateFields['siteSchedule.lastUpdated'] = new Date();
-    updateFields['updatedAt'] = new Date();
+    const { db } = await connectToDatabase();
+    const calendar = await loadProjectCalendar(db, project);
+
+    // Typed names are stored as the matching directory entry's name, with its ID
+    const links = await resolveContractorLinks(db, { contractor: updates.contractor, supervisor: updates.supervisor });
+    for (const [field, value] of Object.entries(links)) {
+      updateFields[`siteSchedule.phases.$[phase].activities.$[activity].${field}`] = value;
+      if (field === 'contractor' || field === 'supervisor') changes[field] = value;
+    }
+
+    // Keep the working-day duration in step with the dates
+    const changedDates = getActivityDates({ ...currentActivity, ...changes });
+    if (changedDates && ['plannedStartDate', 'plannedEndDate', 'startDate', 'endDate'].some(field => field in changes)) {
+      changes.estimatedDuration = countWorkingDays(changedDates.start, changedDates.end, calendar);
+      updateFields['siteSchedule.phases.$[phase].activities.$[activity].estimatedDuration'] = changes.estimatedDuration;
+    }
+
+    const updatedActivity: ScheduleActivityDocument = { ...currentActivity, ...changes };
+    const updatedPhases: SchedulePhaseDocument[] = phases.map(phase =>
+      phase === targetPhase
+        ? {
+            ...phase,
+            activities: phase.activities.map(activity =>
+              activity === currentActivity ? updatedActivity : activity
+            )
+          }
+        : phase
+    );
+
+    // Check the edited schedule before saving anything: a cycle is refused and
+    // activities that depend on a later finish are moved in the same write
+    const plan: ScheduleChangePlan | ScheduleChangeError = SCHEDULE_FIELDS.some(field => field in changes)
+      ? planScheduleChange(phases, updatedPhases, calendar)
+      : { shifts: [], handover: { slipDays: 0 } };
+    if ('error' in plan) {
+      return NextResponse.json({
+        success: false,
+        error: plan.error
+      }, { status: plan.status });
+    }
+
+    const now = new Date();
+    updateFields['siteSchedule.phases.$[phase].activities.$[activity].updatedAt'] = now;
+    updateFields['siteSchedule.lastUpdated'] = now;
+    updateFields['updatedAt'] = now;
 
     // Update activity using positional operators
-    const { db } = await connectToDatabase();
     const result = await db.collection<ProjectDocument>('projects').updateOne(
       { _id: new ObjectId(projectId) },
       { $set: updateFields },
@@ -360,9 +434,57 @@ export async function PUT(
       }, { status: 404 });
     }
 
+    if (plan.shifts.length > 0) {
+      await db.collection('projects').bulkWrite(
+        scheduleShiftOperations(new ObjectId(projectId), updatedPhases, plan.shifts, now)
+      );
+    }
+
+    // Report the moved dependents and whether the handover date moved as a result
+    const previousDates = getActivityDates(currentActivity);
+    const updatedDates = getActivityDates(updatedActivity);
+    const schedule = plan.shifts.length > 0 || (previousDates && updatedDates && updatedDates.end > previousDates.end)
+      ? {
+          shiftedActivities: plan.shifts.map(shift => ({
+            _id: shift.id,
+            title: shift.title,
+            startDate: shift.start.toISOString(),
+            endDate: shift.end.toISOString()
+          })),
+          handover: {
+            previousFinish: plan.handover.previousFinish?.toISOString(),
+            projectedFinish: plan.handover.projectedFinish?.toISOString(),
+            slipDays: plan.handover.slipDays
+          }
+        }
+      : undefined;
+
+    const auditChanges = diffFields(currentActivity, changes, Object.keys(changes));
+    await recordAudit({
+      actor: session.user,
+      action: auditUpdateAction(auditChanges),
+      entityType: 'activity',
+      entityId: activityId,
+      entityLabel: updatedActivity.title,
+      projectId,
+      changes: auditChanges,
+      metadata: schedule?.shiftedActivities.length
+        ? { shiftedActivities: schedule.shiftedActivities.map(activity => activity.title) }
+        : undefined,
+      request
+    });
+
+    // A moved start can leave linked procurement items arriving too late
+    if (previousDates?.start.getTime() !== updatedDates?.start.getTime() || schedule?.shiftedActivities.length) {
+      await checkDeliveryConflicts(db, new ObjectId(projectId), session.user.id);
+    }
+
     return NextResponse.json({
       success: true,
-      message: 'Activity updated successfully'
+      data: schedule,
+      message: schedule?.shiftedActivities.length
+        ? `Activity updated; ${schedule.shiftedActivities.length} dependent activities moved`
+        : 'Activity updated successfully'
     });
 
   } catch (error: unknown) {
@@ -389,23 +511,15 @@ export async function DELETE(
       }, { status: 401 });
     }
 
-    // Only project managers and super admins can delete activities
-    if (!['project_manager', 'super_admin'].includes(session.user.role)) {
-      return NextResponse.json({
-        success: false,
-        error: 'Insufficient permissions to delete activities'
-      }, { status: 403 });
-    }
-
     const { id: projectId } = await params;
-    const project = await validateProjectAccess(projectId, session.user.id, session.user.role);
-
-    if (!project) {
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'delete_activity');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Project not found or access denied'
-      }, { status: 404 });
+        error: access.error
+      }, { status: access.status });
     }
+    const { project } = access;
 
     const { searchParams } = new URL(request.url);
     const activityId = searchParams.get('activityId');
@@ -452,6 +566,19 @@ export async function DELETE(
       }, { status: 404 });
     }
 
+    const removedActivity = project.siteSchedule?.phases
+      .find(phase => phase._id.equals(new ObjectId(phaseId)))
+      ?.activities.find(activity => activity._id.equals(new ObjectId(activityId)));
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'activity',
+      entityId: activityId,
+      entityLabel: removedActivity?.title,
+      projectId,
+      request
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Activity deleted successfully'
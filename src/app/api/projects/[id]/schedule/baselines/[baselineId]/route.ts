@@ -0,0 +1,143 @@
+// src/app/api/projects/[id]/schedule/baselines/[baselineId]/route.ts - SINGLE BASELINE API
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { authorizeProject } from '@/lib/project-access';
+import { ObjectId } from 'mongodb';
+import {
+  ScheduleBaselineDocument,
+  transformScheduleBaseline
+} from '@/lib/types/baseline';
+
+interface ProjectDocument {
+  _id: ObjectId;
+  client: ObjectId;
+  managers?: ObjectId[];
+}
+
+interface BaselinePageProps {
+  params: Promise<{ id: string; baselineId: string }>;
+}
+
+// GET /api/projects/[id]/schedule/baselines/[baselineId] - Full baseline snapshot
+export async function GET(
+  request: NextRequest,
+  { params }: BaselinePageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, baselineId } = await params;
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'view_schedule');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+    const { project } = access;
+
+    if (!ObjectId.isValid(baselineId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid baseline ID'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const baseline = await db.collection<ScheduleBaselineDocument>('schedule_baselines').findOne({
+      _id: new ObjectId(baselineId),
+      projectId: project._id
+    });
+
+    if (!baseline) {
+      return NextResponse.json({
+        success: false,
+        error: 'Baseline not found'
+      }, { status: 404 });
+    }
+
+    const creator = await db.collection('users').findOne(
+      { _id: baseline.createdBy },
+      { projection: { name: 1 } }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: transformScheduleBaseline(baseline, creator?.name)
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching schedule baseline:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[id]/schedule/baselines/[baselineId] - Remove a baseline (admin only)
+export async function DELETE(
+  request: NextRequest,
+  { params }: BaselinePageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, baselineId } = await params;
+
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(baselineId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid project or baseline ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'delete_baseline');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const result = await db.collection('schedule_baselines').deleteOne({
+      _id: new ObjectId(baselineId),
+      projectId: new ObjectId(projectId)
+    });
+
+    if (result.deletedCount === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'Baseline not found'
+      }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Baseline deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting schedule baseline:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
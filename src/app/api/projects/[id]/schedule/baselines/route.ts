@@ -0,0 +1,156 @@
+// src/app/api/projects/[id]/schedule/baselines/route.ts - SCHEDULE BASELINES API
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { authorizeProject } from '@/lib/project-access';
+import { ObjectId } from 'mongodb';
+import { snapshotSchedule, BaselinePhaseInput } from '@/lib/baselines';
+import {
+  ScheduleBaselineDocument,
+  summarizeScheduleBaseline
+} from '@/lib/types/baseline';
+
+interface ProjectDocument {
+  _id: ObjectId;
+  title: string;
+  client: ObjectId;
+  managers?: ObjectId[];
+  siteSchedule?: {
+    phases: BaselinePhaseInput[];
+  };
+}
+
+interface BaselinesPageProps {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/[id]/schedule/baselines - List saved baselines, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: BaselinesPageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'view_schedule');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+    const { project } = access;
+
+    const { db } = await connectToDatabase();
+    const baselines = await db.collection<ScheduleBaselineDocument>('schedule_baselines')
+      .find({ projectId: project._id })
+      .sort({ createdAt: -1 })
+      .toArray();
+
+    const creators = await db.collection('users')
+      .find({ _id: { $in: baselines.map(baseline => baseline.createdBy) } })
+      .project({ name: 1 })
+      .toArray();
+    const creatorName = (id: ObjectId) => creators.find(user => user._id.equals(id))?.name as string | undefined;
+
+    return NextResponse.json({
+      success: true,
+      // The list only needs summaries; GET [baselineId] returns the full snapshot
+      data: baselines.map(baseline => summarizeScheduleBaseline(baseline, creatorName(baseline.createdBy)))
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching schedule baselines:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// POST /api/projects/[id]/schedule/baselines - Freeze the current schedule under a name
+export async function POST(
+  request: NextRequest,
+  { params }: BaselinesPageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'manage_baselines');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+    const { project } = access;
+
+    const body = await request.json();
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    const description = typeof body.description === 'string' ? body.description.trim() : '';
+
+    if (!name) {
+      return NextResponse.json({
+        success: false,
+        error: 'Baseline name is required'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const existing = await db.collection('schedule_baselines').findOne({ projectId: project._id, name });
+    if (existing) {
+      return NextResponse.json({
+        success: false,
+        error: `A baseline named "${name}" already exists for this project`
+      }, { status: 409 });
+    }
+
+    const snapshot = snapshotSchedule(project.siteSchedule?.phases || []);
+    if (snapshot.phases.length === 0) {
+      return NextResponse.json({
+        success: false,
+        error: 'The schedule has no dated phases or activities to baseline'
+      }, { status: 400 });
+    }
+
+    const baseline: ScheduleBaselineDocument = {
+      projectId: project._id,
+      name,
+      ...(description && { description }),
+      ...snapshot,
+      createdBy: new ObjectId(session.user.id),
+      createdAt: new Date()
+    };
+
+    const result = await db.collection<ScheduleBaselineDocument>('schedule_baselines').insertOne(baseline);
+
+    return NextResponse.json({
+      success: true,
+      data: summarizeScheduleBaseline({ ...baseline, _id: result.insertedId }, session.user.name || undefined),
+      message: 'Baseline saved successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error saving schedule baseline:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,118 @@
+// src/app/api/projects/[id]/schedule/critical-path/route.ts - CRITICAL PATH API
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { authorizeProject } from '@/lib/project-access';
+import { ObjectId } from 'mongodb';
+import {
+  buildScheduleGraph,
+  computeCriticalPath,
+  describeCycle,
+  findDependencyCycle,
+  SchedulePhaseInput
+} from '@/lib/scheduling';
+
+interface ProjectDocument {
+  _id: ObjectId;
+  title: string;
+  client: ObjectId;
+  managers?: ObjectId[];
+  endDate?: Date;
+  siteSchedule?: {
+    phases: SchedulePhaseInput[];
+  };
+}
+
+interface CriticalPathPageProps {
+  params: Promise<{ id: string }>;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// GET /api/projects/[id]/schedule/critical-path - Early/late dates, float and delay impact
+export async function GET(
+  request: NextRequest,
+  { params }: CriticalPathPageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'view_schedule');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+    const { project } = access;
+
+    const nodes = buildScheduleGraph(project.siteSchedule?.phases || []);
+    const cycle = findDependencyCycle(nodes);
+
+    if (cycle) {
+      return NextResponse.json({
+        success: false,
+        error: `Circular dependency: ${describeCycle(cycle, nodes)}`
+      }, { status: 409 });
+    }
+
+    const result = computeCriticalPath(nodes);
+    const now = Date.now();
+
+    // A late activity only moves handover by the part of the delay its float can't absorb
+    const delays = result.activities
+      .filter(activity => activity.status !== 'completed' && activity.end.getTime() < now)
+      .map(activity => {
+        const overdueDays = Math.ceil((now - activity.end.getTime()) / DAY_MS);
+        return {
+          _id: activity.id,
+          title: activity.title,
+          overdueDays,
+          totalFloat: activity.totalFloat,
+          handoverImpactDays: Math.max(0, Math.ceil(overdueDays - activity.totalFloat)),
+          critical: activity.critical
+        };
+      })
+      .sort((a, b) => b.handoverImpactDays - a.handoverImpactDays);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        projectStart: result.projectStart?.toISOString(),
+        projectFinish: result.projectFinish?.toISOString(),
+        contractEndDate: project.endDate?.toISOString(),
+        criticalPath: result.criticalPath,
+        activities: result.activities.map(activity => ({
+          _id: activity.id,
+          phaseId: activity.phaseId,
+          title: activity.title,
+          status: activity.status,
+          startDate: activity.start.toISOString(),
+          endDate: activity.end.toISOString(),
+          predecessors: activity.predecessors,
+          earlyStart: activity.earlyStart.toISOString(),
+          earlyFinish: activity.earlyFinish.toISOString(),
+          lateStart: activity.lateStart.toISOString(),
+          lateFinish: activity.lateFinish.toISOString(),
+          totalFloat: activity.totalFloat,
+          critical: activity.critical
+        })),
+        delays
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error computing critical path:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
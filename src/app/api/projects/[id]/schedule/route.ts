@@ -2,7 +2,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
-import { ObjectId, Filter } from 'mongodb';
+import { authorizeProject } from '@/lib/project-access';
+import { ObjectId } from 'mongodb';
+import { planScheduleChange } from '@/lib/schedule-changes';
+import { loadProjectCalendar, ProjectWorkCalendar, workingDaysUntil } from '@/lib/working-calendar';
 
 // Define schedule activity structure
 interface ScheduleActivity {
@@ -53,6 +56,8 @@ interface ProjectDocument {
   endDate?: Date;
   status: string;
   progress: number;
+  workDays?: string;
+  workCalendar?: ProjectWorkCalendar;
   siteSchedule?: {
     phases: SchedulePhase[];
     lastUpdated: Date;
@@ -106,30 +111,6 @@ interface SchedulePageProps {
   params: Promise<{ id: string }>;
 }
 
-async function validateProjectAccess(
-  projectId: string,
-  userId: string,
-  userRole: string
-): Promise<ProjectDocument | null> {
-  const { db } = await connectToDatabase();
-
-  if (!ObjectId.isValid(projectId)) {
-    return null;
-  }
-
-  const projectFilter: Filter<ProjectDocument> = { _id: new ObjectId(projectId) };
-
-  // Role-based access control
-  if (userRole === 'client') {
-    projectFilter.client = new ObjectId(userId);
-  } else if (userRole === 'project_manager') {
-    projectFilter.manager = new ObjectId(userId);
-  }
-  // super_admin can access all projects
-
-  return await db.collection<ProjectDocument>('projects').findOne(projectFilter);
-}
-
 function calculatePhaseStatus(phase: SchedulePhase): 'upcoming' | 'active' | 'completed' | 'delayed' {
   const now = new Date();
   const startDate = new Date(phase.startDate);
@@ -184,14 +165,14 @@ export async function GET(
     }
 
     const { id: projectId } = await params;
-    const project = await validateProjectAccess(projectId, session.user.id, session.user.role);
-
-    if (!project) {
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'view_schedule');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Project not found or access denied'
-      }, { status: 404 });
+        error: access.error
+      }, { status: access.status });
     }
+    const { project } = access;
 
     // Initialize empty schedule if none exists
     if (!project.siteSchedule || !project.siteSchedule.phases) {
@@ -304,8 +285,10 @@ export async function GET(
       ? Math.round((completedActivities.length / allActivities.length) * 100)
       : 0;
 
+    // Working days, so weekends, public holidays and site closures don't count
+    const { db } = await connectToDatabase();
     const daysRemaining = project.endDate 
-      ? Math.max(0, Math.ceil((project.endDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24)))
+      ? Math.max(0, workingDaysUntil(project.endDate, await loadProjectCalendar(db, project)))
       : undefined;
 
     const onSchedule = delayedActivities.length === 0 && 
@@ -373,22 +356,13 @@ export async function POST(
       }, { status: 401 });
     }
 
-    // Only project managers and super admins can create phases
-    if (!['project_manager', 'super_admin'].includes(session.user.role)) {
-      return NextResponse.json({
-        success: false,
-        error: 'Insufficient permissions to create schedule phases'
-      }, { status: 403 });
-    }
-
     const { id: projectId } = await params;
-    const project = await validateProjectAccess(projectId, session.user.id, session.user.role);
-
-    if (!project) {
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'edit_schedule');
+    if (!access.ok) {
       return NextResponse.json({
         success: false,
-        error: 'Project not found or access denied'
-      }, { status: 404 });
+        error: access.error
+      }, { status: access.status });
     }
 
     const body = await request.json();
@@ -423,6 +397,18 @@ export async function POST(
       updatedAt: new Date()
     };
 
+    // Phase dependencies must not make the schedule circular
+    if (newPhase.dependencies?.length) {
+      const phases = access.project.siteSchedule?.phases || [];
+      const plan = planScheduleChange(phases, [...phases, newPhase]);
+      if ('error' in plan) {
+        return NextResponse.json({
+          success: false,
+          error: plan.error
+        }, { status: plan.status });
+      }
+    }
+
     // Add phase to project
     const { db } = await connectToDatabase();
     const result = await db.collection<ProjectDocument>('projects').updateOne(
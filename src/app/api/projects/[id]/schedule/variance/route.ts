@@ -0,0 +1,118 @@
+// src/app/api/projects/[id]/schedule/variance/route.ts - BASELINE VARIANCE API
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase, connectToMongoose } from '@/lib/db';
+import { authorizeProject } from '@/lib/project-access';
+import DailyProgress, { IDailyProgress } from '@/models/DailyProgress';
+import { ObjectId } from 'mongodb';
+import {
+  computeScheduleVariance,
+  BaselinePhaseInput,
+  DailyActivityRecord
+} from '@/lib/baselines';
+import {
+  ScheduleBaselineDocument,
+  ScheduleVarianceReport,
+  summarizeScheduleBaseline
+} from '@/lib/types/baseline';
+
+interface ProjectDocument {
+  _id: ObjectId;
+  client: ObjectId;
+  managers?: ObjectId[];
+  siteSchedule?: {
+    phases: BaselinePhaseInput[];
+  };
+}
+
+interface VariancePageProps {
+  params: Promise<{ id: string }>;
+}
+
+// GET /api/projects/[id]/schedule/variance?baselineId= - Slip against a baseline (latest by default)
+export async function GET(
+  request: NextRequest,
+  { params }: VariancePageProps
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await params;
+    const access = await authorizeProject<ProjectDocument>(projectId, session.user, 'view_schedule');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+    const { project } = access;
+
+    const baselineId = new URL(request.url).searchParams.get('baselineId');
+    if (baselineId && !ObjectId.isValid(baselineId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid baseline ID'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const baselines = db.collection<ScheduleBaselineDocument>('schedule_baselines');
+    const baseline = baselineId
+      ? await baselines.findOne({ _id: new ObjectId(baselineId), projectId: project._id })
+      : await baselines.findOne({ projectId: project._id }, { sort: { createdAt: -1 } });
+
+    if (!baseline) {
+      return NextResponse.json({
+        success: false,
+        error: baselineId ? 'Baseline not found' : 'No baseline has been saved for this project'
+      }, { status: 404 });
+    }
+
+    await connectToMongoose();
+    const reports = await DailyProgress.find({
+      project: project._id,
+      'activities.linkedActivityId': { $exists: true }
+    })
+      .select('date activities.linkedActivityId activities.status activities.plannedDate activities.actualDate')
+      .lean() as unknown as Pick<IDailyProgress, 'date' | 'activities'>[];
+
+    const dailyActivities: DailyActivityRecord[] = reports.flatMap(report =>
+      (report.activities || []).map(activity => ({
+        reportDate: report.date,
+        linkedActivityId: activity.linkedActivityId?.toString(),
+        status: activity.status,
+        plannedDate: activity.plannedDate,
+        actualDate: activity.actualDate
+      }))
+    );
+
+    const creator = await db.collection('users').findOne(
+      { _id: baseline.createdBy },
+      { projection: { name: 1 } }
+    );
+
+    const report: ScheduleVarianceReport = {
+      baseline: summarizeScheduleBaseline(baseline, creator?.name),
+      ...computeScheduleVariance(baseline, project.siteSchedule?.phases || [], dailyActivities)
+    };
+
+    return NextResponse.json({
+      success: true,
+      data: report
+    });
+
+  } catch (error: unknown) {
+    console.error('Error computing schedule variance:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
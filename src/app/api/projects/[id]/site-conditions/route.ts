@@ -0,0 +1,159 @@
+// src/app/api/projects/[id]/site-conditions/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { diffFields, recordAudit } from '@/lib/audit';
+import { DAILY_LOGS_COLLECTION } from '@/lib/contractors';
+import { parseLogDate } from '@/lib/labor';
+import {
+  loadSiteConditionsDay,
+  parseSiteConditions,
+  saveSiteConditionsDay,
+  SiteConditionsLogRecord
+} from '@/lib/site-conditions';
+import { authorizeProject } from '@/lib/project-access';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// How a day's conditions read in the audit trail
+const conditionSummary = (conditions: SiteConditionsLogRecord['conditions'] = []) =>
+  conditions.map(condition => `${condition.type} (${condition.hoursLost}h, ${condition.responsibleParty})`);
+
+// GET /api/projects/[id]/site-conditions?date=YYYY-MM-DD - One day's site conditions
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+    const access = await authorizeProject(projectId, session.user, 'view_delays');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const date = parseLogDate(new URL(request.url).searchParams.get('date'));
+    if (!date) {
+      return NextResponse.json({
+        success: false,
+        error: 'A date (YYYY-MM-DD) is required'
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const data = await loadSiteConditionsDay(db, access.project._id, date);
+
+    return NextResponse.json({
+      success: true,
+      data
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching site conditions:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// PUT /api/projects/[id]/site-conditions - Replace one day's site conditions
+// Body: { date: 'YYYY-MM-DD', conditions: [{ type, hoursLost, responsibleParty?, description? }] }
+export async function PUT(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+    const access = await authorizeProject(projectId, session.user, 'log_site_conditions');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const body = await request.json();
+    const date = parseLogDate(body.date);
+    if (!date) {
+      return NextResponse.json({
+        success: false,
+        error: 'A date (YYYY-MM-DD) is required'
+      }, { status: 400 });
+    }
+    if (date.getTime() > Date.now()) {
+      return NextResponse.json({
+        success: false,
+        error: 'Site conditions can\'t be recorded for a future date'
+      }, { status: 400 });
+    }
+
+    const parsed = parseSiteConditions(body.conditions, session.user);
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const existing = await db.collection<SiteConditionsLogRecord>(DAILY_LOGS_COLLECTION)
+      .findOne({ project: access.project._id, date }, { projection: { conditions: 1 } });
+    const before = existing?.conditions || [];
+
+    const saved = await saveSiteConditionsDay(db, access.project._id, date, parsed.conditions, before);
+
+    await recordAudit({
+      actor: session.user,
+      action: before.length === 0 ? 'created' : 'updated',
+      entityType: 'site_conditions',
+      entityId: saved._id,
+      entityLabel: `Site conditions ${body.date}`,
+      projectId,
+      changes: diffFields(
+        { conditions: conditionSummary(before) },
+        { conditions: conditionSummary(saved.conditions) }
+      ),
+      metadata: { date: body.date },
+      request
+    });
+
+    const data = await loadSiteConditionsDay(db, access.project._id, date);
+    return NextResponse.json({
+      success: true,
+      data,
+      message: 'Site conditions saved'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error saving site conditions:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
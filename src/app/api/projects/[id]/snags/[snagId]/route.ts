@@ -0,0 +1,190 @@
+// src/app/api/projects/[id]/snags/[snagId]/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { diffFields, recordAudit } from '@/lib/audit';
+import { SNAGS_COLLECTION, parseSnagInput, removeSnagPhotos } from '@/lib/snags';
+import { authorizeProject } from '@/lib/project-access';
+import { SnagDocument, transformSnag } from '@/lib/types/snag';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    snagId: string;
+  }>;
+}
+
+// PATCH /api/projects/[id]/snags/[snagId] - Edit a snag's details and photos
+export async function PATCH(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, snagId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(snagId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'manage_snags');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const parsed = parseSnagInput(await request.json(), { staff: true });
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<SnagDocument>(SNAGS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(snagId), projectId: access.project._id });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Snag not found'
+      }, { status: 404 });
+    }
+
+    const { contractor, dueDate, ...fields } = parsed.snag;
+    const updated = await collection.findOneAndUpdate(
+      { _id: existing._id },
+      {
+        $set: {
+          ...fields,
+          ...(contractor ? { contractor } : {}),
+          ...(dueDate ? { dueDate } : {}),
+          updatedAt: new Date()
+        },
+        $unset: {
+          ...(contractor ? {} : { contractor: '' as const }),
+          ...(dueDate ? {} : { dueDate: '' as const })
+        }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: 'Snag not found'
+      }, { status: 404 });
+    }
+
+    const kept = new Set([...updated.beforePhotos, ...updated.afterPhotos].map(photo => photo.url));
+    await removeSnagPhotos([...existing.beforePhotos, ...existing.afterPhotos].filter(photo => !kept.has(photo.url)));
+
+    await recordAudit({
+      actor: session.user,
+      action: 'updated',
+      entityType: 'snag',
+      entityId: snagId,
+      entityLabel: `${updated.number} ${updated.location}`,
+      projectId,
+      changes: diffFields(existing, parsed.snag, [
+        'location', 'description', 'contractor', 'dueDate', 'beforePhotos', 'afterPhotos'
+      ]),
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: transformSnag(updated),
+      message: 'Snag updated successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating snag:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// DELETE /api/projects/[id]/snags/[snagId] - Remove a snag logged in error
+export async function DELETE(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, snagId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(snagId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject(projectId, session.user, 'manage_snags');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const deleted = await db.collection<SnagDocument>(SNAGS_COLLECTION).findOneAndDelete({
+      _id: new ObjectId(snagId),
+      projectId: access.project._id
+    });
+    if (!deleted) {
+      return NextResponse.json({
+        success: false,
+        error: 'Snag not found'
+      }, { status: 404 });
+    }
+
+    await removeSnagPhotos([...deleted.beforePhotos, ...deleted.afterPhotos]);
+
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'snag',
+      entityId: snagId,
+      entityLabel: `${deleted.number} ${deleted.location}`,
+      projectId,
+      metadata: { status: deleted.status, description: deleted.description },
+      request
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Snag deleted successfully'
+    });
+
+  } catch (error: unknown) {
+    console.error('Error deleting snag:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
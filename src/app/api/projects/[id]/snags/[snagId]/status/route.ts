@@ -0,0 +1,177 @@
+// src/app/api/projects/[id]/snags/[snagId]/status/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  SNAGS_COLLECTION,
+  SNAG_TRANSITIONS,
+  SnagProject,
+  notifySnag,
+  parseSnagPhotos
+} from '@/lib/snags';
+import { authorizeProject, permissionDeniedMessage, relationHasPermission } from '@/lib/project-access';
+import {
+  SNAG_STATUSES,
+  SNAG_STATUS_LABELS,
+  SnagDocument,
+  SnagEventDocument,
+  transformSnag
+} from '@/lib/types/snag';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+    snagId: string;
+  }>;
+}
+
+// POST /api/projects/[id]/snags/[snagId]/status - Mark fixed, verify, reopen or waive
+// Body: { status, note?, afterPhotos? } - afterPhotos are added when marking fixed
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId, snagId } = await context.params;
+    if (!ObjectId.isValid(projectId) || !ObjectId.isValid(snagId)) {
+      return NextResponse.json({
+        success: false,
+        error: 'Invalid ID'
+      }, { status: 400 });
+    }
+
+    const access = await authorizeProject<SnagProject>(projectId, session.user, 'view_snags');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const body = await request.json();
+    const status = SNAG_STATUSES.find(value => value === body.status);
+    if (!status) {
+      return NextResponse.json({
+        success: false,
+        error: `Status must be one of: ${SNAG_STATUSES.join(', ')}`
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const collection = db.collection<SnagDocument>(SNAGS_COLLECTION);
+    const existing = await collection.findOne({ _id: new ObjectId(snagId), projectId: access.project._id });
+    if (!existing) {
+      return NextResponse.json({
+        success: false,
+        error: 'Snag not found'
+      }, { status: 404 });
+    }
+
+    const permission = SNAG_TRANSITIONS[existing.status][status];
+    if (!permission) {
+      return NextResponse.json({
+        success: false,
+        error: `A ${SNAG_STATUS_LABELS[existing.status].toLowerCase()} snag can't be marked ${SNAG_STATUS_LABELS[status].toLowerCase()}`
+      }, { status: 400 });
+    }
+    if (!relationHasPermission(access.relation, permission)) {
+      return NextResponse.json({
+        success: false,
+        error: permissionDeniedMessage(permission)
+      }, { status: 403 });
+    }
+
+    const note = typeof body.note === 'string' ? body.note.trim() : '';
+    if (status === 'waived' && !note) {
+      return NextResponse.json({
+        success: false,
+        error: 'Give a reason for waiving this snag'
+      }, { status: 400 });
+    }
+    if (existing.status === 'fixed' && status === 'open' && !note) {
+      return NextResponse.json({
+        success: false,
+        error: 'Say what is still wrong so the team can fix it'
+      }, { status: 400 });
+    }
+
+    let afterPhotos = existing.afterPhotos;
+    if (status === 'fixed') {
+      const added = parseSnagPhotos(body.afterPhotos);
+      if ('error' in added) {
+        return NextResponse.json({
+          success: false,
+          error: added.error
+        }, { status: 400 });
+      }
+      afterPhotos = [...existing.afterPhotos, ...added];
+    }
+
+    const now = new Date();
+    const event: SnagEventDocument = {
+      status,
+      by: new ObjectId(session.user.id),
+      byName: session.user.name || 'Unknown',
+      at: now,
+      ...(note ? { note } : {})
+    };
+
+    // Guarding on the current status stops two people deciding the same snag at once
+    const updated = await collection.findOneAndUpdate(
+      { _id: existing._id, status: existing.status },
+      {
+        $set: { status, afterPhotos, updatedAt: now },
+        $push: { history: event }
+      },
+      { returnDocument: 'after' }
+    );
+    if (!updated) {
+      return NextResponse.json({
+        success: false,
+        error: 'This snag was updated by someone else. Refresh and try again.'
+      }, { status: 409 });
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'status_changed',
+      entityType: 'snag',
+      entityId: snagId,
+      entityLabel: `${updated.number} ${updated.location}`,
+      projectId,
+      changes: [{ field: 'status', before: existing.status, after: status }],
+      metadata: note ? { note } : undefined,
+      request
+    });
+
+    if (status === 'fixed') {
+      await notifySnag(db, access.project, updated, 'fixed', session.user.id);
+    } else if (status === 'open' && access.relation === 'client') {
+      await notifySnag(db, access.project, updated, 'reopened', session.user.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: transformSnag(updated, now),
+      message: `Snag marked ${SNAG_STATUS_LABELS[status].toLowerCase()}`
+    });
+
+  } catch (error: unknown) {
+    console.error('Error updating snag status:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
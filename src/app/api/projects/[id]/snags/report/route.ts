@@ -0,0 +1,58 @@
+// src/app/api/projects/[id]/snags/report/route.ts - Printable snag report (HTML)
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { SnagProject, generateSnagReportHtml, loadProjectSnags } from '@/lib/snags';
+import { authorizeProject } from '@/lib/project-access';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/projects/[id]/snags/report
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject<SnagProject>(projectId, session.user, 'view_snags');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+    const data = await loadProjectSnags(db, access.project._id);
+    const html = generateSnagReportHtml(access.project, data, session.user.name || 'Unknown');
+
+    // Served inline so it opens in a tab ready to print or save as PDF
+    return new NextResponse(html, {
+      headers: {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-store'
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error generating snag report:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,146 @@
+// src/app/api/projects/[id]/snags/route.ts
+import { NextRequest, NextResponse } from 'next/server';
+import { ObjectId } from 'mongodb';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { recordAudit } from '@/lib/audit';
+import {
+  SNAGS_COLLECTION,
+  SnagProject,
+  loadProjectSnags,
+  nextSnagNumber,
+  notifySnag,
+  parseSnagInput
+} from '@/lib/snags';
+import { authorizeProject, relationHasPermission } from '@/lib/project-access';
+import { SnagDocument, transformSnag } from '@/lib/types/snag';
+
+interface RouteContext {
+  params: Promise<{
+    id: string;
+  }>;
+}
+
+// GET /api/projects/[id]/snags - Snag list with handover summary
+export async function GET(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject(projectId, session.user, 'view_snags');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const { db } = await connectToDatabase();
+
+    return NextResponse.json({
+      success: true,
+      data: await loadProjectSnags(db, access.project._id)
+    });
+
+  } catch (error: unknown) {
+    console.error('Error fetching snags:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
+
+// POST /api/projects/[id]/snags - Raise a snag (site staff or the client)
+export async function POST(
+  request: NextRequest,
+  context: RouteContext
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { id: projectId } = await context.params;
+
+    const access = await authorizeProject<SnagProject>(projectId, session.user, 'raise_snags');
+    if (!access.ok) {
+      return NextResponse.json({
+        success: false,
+        error: access.error
+      }, { status: access.status });
+    }
+
+    const staff = relationHasPermission(access.relation, 'manage_snags');
+    const parsed = parseSnagInput(await request.json(), { staff });
+    if ('error' in parsed) {
+      return NextResponse.json({
+        success: false,
+        error: parsed.error
+      }, { status: 400 });
+    }
+
+    const { db } = await connectToDatabase();
+    const now = new Date();
+    const raisedBy = new ObjectId(session.user.id);
+    const raisedByName = session.user.name || 'Unknown';
+    const snag: SnagDocument = {
+      ...parsed.snag,
+      projectId: access.project._id,
+      number: await nextSnagNumber(db, access.project._id),
+      status: 'open',
+      raisedBy,
+      raisedByName,
+      raisedByClient: access.relation === 'client',
+      history: [{ status: 'open', by: raisedBy, byName: raisedByName, at: now }],
+      createdAt: now,
+      updatedAt: now
+    };
+
+    const result = await db.collection<SnagDocument>(SNAGS_COLLECTION).insertOne(snag);
+    snag._id = result.insertedId;
+
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'snag',
+      entityId: result.insertedId,
+      entityLabel: `${snag.number} ${snag.location}`,
+      projectId,
+      request
+    });
+
+    if (snag.raisedByClient) {
+      await notifySnag(db, access.project, snag, 'raised', session.user.id);
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: transformSnag(snag, now),
+      message: 'Snag added successfully'
+    }, { status: 201 });
+
+  } catch (error: unknown) {
+    console.error('Error creating snag:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -3,6 +3,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId, Filter } from 'mongodb';
+import { instantiateTemplate, InstantiatedTemplate } from '@/lib/project-templates';
+import { loadProjectCalendar } from '@/lib/working-calendar';
+import { recordAudit } from '@/lib/audit';
+import { dispatchNotifications } from '@/lib/notifications';
+import type { ProjectTemplateDocument } from '@/lib/types/template';
 
 interface ProjectDocument {
   _id: ObjectId;
@@ -50,6 +55,7 @@ interface CreateProjectData {
   budget?: number;
   tags?: string[];
   notes?: string;
+  templateId?: string;
 }
 
 export async function GET(request: NextRequest) {
@@ -255,6 +261,39 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // Lay out the chosen template's phases, activities and milestones from the start date
+    let instantiated: InstantiatedTemplate | null = null;
+    if (projectData.templateId) {
+      if (!ObjectId.isValid(projectData.templateId)) {
+        return NextResponse.json(
+          { success: false, error: 'Invalid template ID' },
+          { status: 400 }
+        );
+      }
+
+      if (!projectData.startDate) {
+        return NextResponse.json(
+          { success: false, error: 'A start date is required to create a project from a template' },
+          { status: 400 }
+        );
+      }
+
+      const template = await db.collection<ProjectTemplateDocument>('project_templates').findOne({
+        _id: new ObjectId(projectData.templateId)
+      });
+
+      if (!template) {
+        return NextResponse.json(
+          { success: false, error: 'Template not found' },
+          { status: 404 }
+        );
+      }
+
+      const startDate = new Date(projectData.startDate);
+      const calendar = await loadProjectCalendar(db, { startDate });
+      instantiated = instantiateTemplate(template, startDate, calendar);
+    }
+
     // Create project document - ✅ UPDATED WITH MANAGERS ARRAY
     const newProject = {
       title: projectData.title,
@@ -264,16 +303,36 @@ export async function POST(request: NextRequest) {
       status: projectData.status || 'planning',
       priority: projectData.priority || 'medium',
       startDate: projectData.startDate ? new Date(projectData.startDate) : undefined,
-      endDate: projectData.endDate ? new Date(projectData.endDate) : undefined,
+      endDate: projectData.endDate ? new Date(projectData.endDate) : instantiated?.finishDate,
       budget: projectData.budget,
       progress: 0,
       tags: projectData.tags || [],
+      ...(instantiated && {
+        siteSchedule: instantiated.siteSchedule,
+        milestones: instantiated.projectMilestones
+      }),
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
     const result = await db.collection('projects').insertOne(newProject);
 
+    const trackerMilestones = instantiated?.trackerMilestones(result.insertedId) || [];
+    if (trackerMilestones.length > 0) {
+      await db.collection('milestones').insertMany(trackerMilestones);
+    }
+
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'project',
+      entityId: result.insertedId,
+      entityLabel: newProject.title,
+      projectId: result.insertedId,
+      metadata: projectData.templateId ? { templateId: projectData.templateId } : undefined,
+      request
+    });
+
     // ✅ UPDATED: Create notifications for client and ALL managers
     const notifications = [
       {
@@ -282,7 +341,10 @@ export async function POST(request: NextRequest) {
         type: 'project_created',
         title: 'New Project Assigned',
         message: `You have been assigned to project: ${projectData.title}`,
-        data: { projectId: result.insertedId.toString() },
+        data: {
+          projectId: result.insertedId.toString(),
+          url: `/client/projects/${result.insertedId}`
+        },
         isRead: false,
         priority: 'medium',
         category: 'info',
@@ -295,7 +357,10 @@ export async function POST(request: NextRequest) {
         type: 'project_created',
         title: 'New Project Assignment',
         message: `You have been assigned as manager for: ${projectData.title}`,
-        data: { projectId: result.insertedId.toString() },
+        data: {
+          projectId: result.insertedId.toString(),
+          url: `/manager/projects/${result.insertedId}`
+        },
         isRead: false,
         priority: 'medium',
         category: 'info',
@@ -304,7 +369,7 @@ export async function POST(request: NextRequest) {
       }))
     ];
 
-    await db.collection('notifications').insertMany(notifications);
+    await dispatchNotifications(db, notifications);
 
     // Return the created project with populated user data
     const createdProject = await db.collection<ProjectDocumentWithId>('projects')
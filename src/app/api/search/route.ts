@@ -0,0 +1,68 @@
+// src/app/api/search/route.ts - GLOBAL SEARCH API
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/lib/auth';
+import { connectToDatabase } from '@/lib/db';
+import { globalSearch, SEARCH_RESULT_TYPES, SearchResultType } from '@/lib/search';
+
+const MAX_QUERY_LENGTH = 200;
+const MAX_LIMIT = 20;
+
+// GET /api/search?q=tiling&types=activity,file&limit=5 - Search everything the user can access
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({
+        success: false,
+        error: 'Unauthorized'
+      }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const query = (searchParams.get('q') || '').trim();
+
+    if (query.length > MAX_QUERY_LENGTH) {
+      return NextResponse.json({
+        success: false,
+        error: `Search is limited to ${MAX_QUERY_LENGTH} characters`
+      }, { status: 400 });
+    }
+
+    const types = (searchParams.get('types') || '')
+      .split(',')
+      .filter((type): type is SearchResultType => SEARCH_RESULT_TYPES.includes(type as SearchResultType));
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '5', 10) || 5, 1), MAX_LIMIT);
+
+    if (!query) {
+      return NextResponse.json({
+        success: true,
+        data: { query, groups: [], total: 0 }
+      });
+    }
+
+    const { db } = await connectToDatabase();
+    const groups = await globalSearch(
+      db,
+      { id: session.user.id, role: session.user.role },
+      query,
+      { types, limit }
+    );
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        query,
+        groups,
+        total: groups.reduce((sum, group) => sum + group.results.length, 0)
+      }
+    });
+
+  } catch (error: unknown) {
+    console.error('Error searching:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Internal server error';
+    return NextResponse.json({
+      success: false,
+      error: errorMessage
+    }, { status: 500 });
+  }
+}
@@ -7,6 +7,7 @@ import { connectToMongoose } from "@/lib/db";
 import DailyProgress, { IDailyActivity } from "@/models/DailyProgress";
 import Project from "@/models/Project";
 import { Types } from "mongoose";
+import type { ActivityDelay } from "@/lib/types/site-conditions";
 
 // UPDATED: Response interface with 'to-do' status + phase fields
 interface ActivityResponse {
@@ -25,6 +26,7 @@ interface ActivityResponse {
   comments?: string;
   images?: string[];
   incidentReport?: string;
+  delay?: ActivityDelay;
   projectId: string;
   projectTitle: string;
   date: Date;
@@ -125,6 +127,7 @@ export async function GET(request: NextRequest) {
           comments: activity.comments,
           images: activity.images || [],
           incidentReport: activity.incidentReport,
+          delay: activity.delay,
           projectId: populatedProject._id.toString(),
           projectTitle: populatedProject.title,
           date: doc.date,
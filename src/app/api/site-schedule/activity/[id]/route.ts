@@ -3,9 +3,14 @@
 
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { connectToMongoose } from "@/lib/db";
+import { connectToDatabase, connectToMongoose } from "@/lib/db";
 import DailyProgress, { IDailyActivity, IDailyProgressDocument } from "@/models/DailyProgress";
 import { Types, HydratedDocument } from "mongoose";
+import { auditUpdateAction, diffFields, recordAudit, snapshotFields } from "@/lib/audit";
+import { resolveContractorLinks } from "@/lib/contractors";
+import { checkDeliveryConflicts } from "@/lib/procurement";
+import { DELAY_STATUSES, parseActivityDelay } from "@/lib/site-conditions";
+import type { ActivityDelay } from "@/lib/types/site-conditions";
 
 interface PopulatedProject {
   _id: Types.ObjectId;
@@ -33,6 +38,7 @@ interface ActivityResponse {
   plannedDate?: string;
   actualDate?: string;
   progress?: number;
+  delay?: ActivityDelay;
   projectId: string;
   projectTitle: string;
   date: string;
@@ -213,6 +219,7 @@ function transformActivityToResponse(
     plannedDate: activity.plannedDate?.toISOString(),
     actualDate: activity.actualDate?.toISOString(),
     progress: activity.progress,
+    delay: activity.delay,
     projectId: dailyProgress.project._id.toString(),
     projectTitle: dailyProgress.project.title,
     date: dailyProgress.date.toISOString(),
@@ -341,18 +348,64 @@ export async function PUT(
       'comments', 'images', 'incidentReport', 'progress'
     ];
 
+    // Photos and incident reports have their own history; everything else is audited
+    const auditedFields = [...allowedFields.filter(field => field !== 'images' && field !== 'incidentReport'), 'delay'];
+    const previousFields = snapshotFields(currentActivity, auditedFields);
+
     allowedFields.forEach(field => {
       if (body[field] !== undefined) {
         updateActivityField(currentActivity, field, body[field]);
       }
     });
 
+    // Delayed and on-hold activities can cite what is holding them up
+    if (body.delay !== undefined) {
+      const parsedDelay = parseActivityDelay(body.delay);
+      if ('error' in parsedDelay) {
+        return NextResponse.json({ error: parsedDelay.error }, { status: 400 });
+      }
+      if (parsedDelay.delay && !DELAY_STATUSES.includes(currentActivity.status)) {
+        return NextResponse.json(
+          { error: "Only delayed or on-hold activities can cite a delay cause" },
+          { status: 400 }
+        );
+      }
+      currentActivity.delay = parsedDelay.delay || undefined;
+    }
+
+    if (body.contractor !== undefined || body.supervisor !== undefined) {
+      const { db } = await connectToDatabase();
+      Object.assign(currentActivity, await resolveContractorLinks(db, {
+        contractor: body.contractor,
+        supervisor: body.supervisor
+      }));
+    }
+
     currentActivity.updatedBy = new Types.ObjectId(session.user.id);
     currentActivity.updatedAt = new Date();
 
     dailyProgress.markModified(`activities.${activityIndex}`);
     await dailyProgress.save();
 
+    const changes = diffFields(previousFields, snapshotFields(currentActivity, auditedFields), auditedFields);
+    await recordAudit({
+      actor: session.user,
+      action: auditUpdateAction(changes),
+      entityType: 'activity',
+      entityId: activityId,
+      entityLabel: currentActivity.title,
+      projectId,
+      changes,
+      metadata: { reportDate: dailyProgress.date.toISOString().split('T')[0] },
+      request
+    });
+
+    // A moved start can leave linked procurement items arriving too late
+    if (changes.some(change => change.field === 'startDate')) {
+      const { db } = await connectToDatabase();
+      await checkDeliveryConflicts(db, new Types.ObjectId(projectId), session.user.id);
+    }
+
     if (currentActivity.status === 'completed' && oldStatus !== 'completed') {
       const { updateProjectProgress, notifyClientOfTaskCompletion, notifyClientOfProgressUpdate } = 
         await import('@/lib/projectUtils');
@@ -417,6 +470,9 @@ export async function DELETE(
       return NextResponse.json({ error: "Activity not found" }, { status: 404 });
     }
 
+    const removedActivity = dailyProgress.activities.find(
+      (a: IDailyActivity) => a._id?.toString() === activityId
+    );
     dailyProgress.activities = dailyProgress.activities.filter(
       (a: IDailyActivity) => a._id?.toString() !== activityId
     );
@@ -424,6 +480,17 @@ export async function DELETE(
     dailyProgress.markModified('activities');
     await dailyProgress.save();
 
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'activity',
+      entityId: activityId,
+      entityLabel: removedActivity?.title,
+      projectId: dailyProgress.project.toString(),
+      metadata: { reportDate: dailyProgress.date.toISOString().split('T')[0] },
+      request
+    });
+
     return NextResponse.json({
       success: true,
       data: null,
@@ -1,13 +1,16 @@
 // src/app/api/site-schedule/daily/route.ts - UPDATED: Added 'to-do' status support
 import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@/lib/auth";
-import { connectToMongoose } from "@/lib/db";
+import { connectToDatabase, connectToMongoose } from "@/lib/db";
 import DailyProgress, { 
   IDailyProgressDocument, 
   IDailyActivity, 
   IDailyProgress 
 } from "@/models/DailyProgress";
 import { Types } from "mongoose";
+import { auditUpdateAction, diffFields, recordAudit, snapshotFields } from "@/lib/audit";
+import { resolveContractorLinks } from "@/lib/contractors";
+import { DELAY_STATUSES, parseActivityDelay } from "@/lib/site-conditions";
 
 // For populated documents
 interface IPopulatedDailyActivity extends Omit<IDailyActivity, 'contractor' | 'supervisor'> {
@@ -15,6 +18,13 @@ interface IPopulatedDailyActivity extends Omit<IDailyActivity, 'contractor' | 's
   supervisor: { name: string } | string;
 }
 
+// Daily activity fields tracked in the audit trail
+const AUDITED_ACTIVITY_FIELDS = [
+  'title', 'description', 'contractor', 'supervisor', 'comments',
+  'startDate', 'endDate', 'plannedDate', 'actualDate',
+  'status', 'priority', 'category', 'phase', 'weekNumber', 'progress', 'delay'
+];
+
 interface IPopulatedDailyProgress extends Omit<IDailyProgress, 'activities'> {
   activities: IPopulatedDailyActivity[];
 }
@@ -162,12 +172,18 @@ export async function POST(request: NextRequest) {
       }) as IDailyProgressDocument;
     }
 
+    // Typed names are stored as the matching directory entry's name, with its ID
+    const { db } = await connectToDatabase();
+    const links = await resolveContractorLinks(db, { contractor: activity.contractor, supervisor: activity.supervisor });
+
     // Create new activity
     const newActivity: IDailyActivity = {
       title: activity.title,
       description: activity.description || '',
-      contractor: activity.contractor,
-      supervisor: activity.supervisor,
+      contractor: links.contractor!,
+      contractorId: links.contractorId,
+      supervisor: links.supervisor,
+      supervisorId: links.supervisorId,
       startDate: new Date(activity.startDate),
       endDate: new Date(activity.endDate),
       // UPDATED: Default to 'to-do' if not specified
@@ -216,6 +232,18 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const createdActivity = dailyProgress.activities[dailyProgress.activities.length - 1];
+    await recordAudit({
+      actor: session.user,
+      action: 'created',
+      entityType: 'activity',
+      entityId: createdActivity._id?.toString() || '',
+      entityLabel: createdActivity.title,
+      projectId,
+      metadata: { reportDate: date },
+      request
+    });
+
     return NextResponse.json({
       success: true,
       data: dailyProgress,
@@ -306,12 +334,18 @@ export async function PUT(request: NextRequest) {
 
     // Type-safe field updates
     const activity = activities[activityIndex];
+    const previousFields = snapshotFields(activity, AUDITED_ACTIVITY_FIELDS);
     
     // Update string fields
     if (updates.title !== undefined) activity.title = updates.title;
     if (updates.description !== undefined) activity.description = updates.description;
-    if (updates.contractor !== undefined) activity.contractor = updates.contractor;
-    if (updates.supervisor !== undefined) activity.supervisor = updates.supervisor;
+    if (updates.contractor !== undefined || updates.supervisor !== undefined) {
+      const { db } = await connectToDatabase();
+      Object.assign(activity, await resolveContractorLinks(db, {
+        contractor: updates.contractor,
+        supervisor: updates.supervisor
+      }));
+    }
     if (updates.comments !== undefined) activity.comments = updates.comments;
     if (updates.incidentReport !== undefined) activity.incidentReport = updates.incidentReport;
     
@@ -335,6 +369,21 @@ export async function PUT(request: NextRequest) {
     if (updates.category !== undefined) activity.category = updates.category;
     if (updates.phase !== undefined) activity.phase = updates.phase;
     if (updates.weekNumber !== undefined) activity.weekNumber = updates.weekNumber;
+
+    // Delayed and on-hold activities can cite what is holding them up
+    if (updates.delay !== undefined) {
+      const parsedDelay = parseActivityDelay(updates.delay);
+      if ('error' in parsedDelay) {
+        return NextResponse.json({ error: parsedDelay.error }, { status: 400 });
+      }
+      if (parsedDelay.delay && !DELAY_STATUSES.includes(activity.status)) {
+        return NextResponse.json(
+          { error: "Only delayed or on-hold activities can cite a delay cause" },
+          { status: 400 }
+        );
+      }
+      activity.delay = parsedDelay.delay || undefined;
+    }
     
     // Update number field
     if (updates.progress !== undefined) activity.progress = updates.progress;
@@ -372,6 +421,19 @@ export async function PUT(request: NextRequest) {
       );
     }
 
+    const changes = diffFields(previousFields, snapshotFields(activity, AUDITED_ACTIVITY_FIELDS), AUDITED_ACTIVITY_FIELDS);
+    await recordAudit({
+      actor: session.user,
+      action: auditUpdateAction(changes),
+      entityType: 'activity',
+      entityId: activityId,
+      entityLabel: activity.title,
+      projectId,
+      changes,
+      metadata: { reportDate: date },
+      request
+    });
+
     return NextResponse.json({
       success: true,
       data: dailyProgress,
@@ -0,0 +1,409 @@
+// src/app/api/site-schedule/import/route.ts
+// Import legacy "Site Progress Report" spreadsheets into Project.siteSchedule and DailyProgress
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@/lib/auth";
+import { connectToDatabase, connectToMongoose } from "@/lib/db";
+import DailyProgress, { IDailyActivity, IDailyProgressDocument } from "@/models/DailyProgress";
+import Project from "@/models/Project";
+import { Types } from "mongoose";
+import {
+  parseCsv,
+  parseSiteReport,
+  buildSchedulePhases,
+  groupRowsByDate,
+  scheduleActivityKey,
+  SiteReportWarning,
+  SiteReportRow
+} from "@/lib/site-report";
+import { DirectoryEntry, linkContractorNames, loadContractorDirectory } from "@/lib/contractors";
+
+const MAX_IMPORT_SIZE = 2 * 1024 * 1024; // 2MB is plenty for a text spreadsheet
+
+// Project header fields the importer fills in
+const HEADER_FIELDS = ['projectCoordinator', 'siteOfficer', 'workDays', 'scopeOfWork', 'designStyle'] as const;
+
+interface ScheduleActivityLike {
+  _id: Types.ObjectId;
+  title: string;
+  images?: string[];
+}
+
+interface SchedulePhaseLike {
+  _id: Types.ObjectId;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  activities: ScheduleActivityLike[];
+}
+
+function buildDailyActivity(
+  row: SiteReportRow,
+  projectId: Types.ObjectId,
+  userId: Types.ObjectId,
+  directory: DirectoryEntry[],
+  link?: { phaseId: Types.ObjectId; activityId: Types.ObjectId }
+): IDailyActivity {
+  const description = row.imageCaption ? `Image: ${row.imageCaption}` : '';
+  const { contractor = '', ...links } = linkContractorNames(
+    { contractor: row.contractor, supervisor: row.supervisor },
+    directory
+  );
+
+  return {
+    title: row.title,
+    description,
+    contractor,
+    ...links,
+    startDate: row.date,
+    endDate: new Date(row.date.getTime() + 24 * 60 * 60 * 1000 - 1),
+    status: row.status,
+    priority: 'medium',
+    category: row.category,
+    plannedDate: row.date,
+    actualDate: row.status === 'completed' ? row.date : undefined,
+    comments: row.comments,
+    clientComments: [],
+    images: row.images,
+    incidentReport: row.incidentReport,
+    progress: row.status === 'completed' ? 100 : 0,
+    phase: row.phase,
+    weekNumber: row.weekNumber,
+    linkedActivityId: link?.activityId,
+    linkedPhaseId: link?.phaseId,
+    linkedProjectId: projectId,
+    syncEnabled: false,
+    createdBy: userId,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+}
+
+// POST /api/site-schedule/import - Preview (default) or commit a spreadsheet import
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+
+    if (!session?.user?.id) {
+      return NextResponse.json(
+        { success: false, error: "Unauthorized" },
+        { status: 401 }
+      );
+    }
+
+    if (session.user.role !== 'super_admin') {
+      return NextResponse.json(
+        { success: false, error: "Only administrators can import site reports" },
+        { status: 403 }
+      );
+    }
+
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const projectId = formData.get('projectId') as string | null;
+    const commit = formData.get('commit') === 'true';
+    const replaceSchedule = formData.get('replaceSchedule') === 'true';
+
+    if (!projectId || !Types.ObjectId.isValid(projectId)) {
+      return NextResponse.json(
+        { success: false, error: "A valid project ID is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!(file instanceof File)) {
+      return NextResponse.json(
+        { success: false, error: "A CSV file is required" },
+        { status: 400 }
+      );
+    }
+
+    if (!file.name.toLowerCase().endsWith('.csv')) {
+      return NextResponse.json(
+        { success: false, error: "Only .csv exports of the site report are supported" },
+        { status: 400 }
+      );
+    }
+
+    if (file.size > MAX_IMPORT_SIZE) {
+      return NextResponse.json(
+        { success: false, error: "File is too large (max 2MB)" },
+        { status: 400 }
+      );
+    }
+
+    await connectToMongoose();
+
+    const project = await Project.findById(projectId);
+    if (!project) {
+      return NextResponse.json(
+        { success: false, error: "Project not found" },
+        { status: 404 }
+      );
+    }
+
+    const report = parseSiteReport(parseCsv(await file.text()));
+
+    if (report.rows.length === 0) {
+      return NextResponse.json(
+        { success: false, error: "No activity rows were found. Is this a Site Progress Report?" },
+        { status: 400 }
+      );
+    }
+
+    const plannedPhases = buildSchedulePhases(report.rows);
+    const days = groupRowsByDate(report.rows);
+    const projectObjectId = new Types.ObjectId(projectId);
+
+    // Flag dates that already have a daily report; rows update the activities
+    // already on it and the rest are added, so importing a file twice is harmless
+    const existingReports = await DailyProgress.find({
+      project: projectObjectId,
+      date: { $in: Array.from(days.keys()).map(day => new Date(day)) }
+    }) as IDailyProgressDocument[];
+    const existingByDate = new Map(
+      existingReports.map(doc => [doc.date.toISOString().split('T')[0], doc])
+    );
+
+    const warnings: SiteReportWarning[] = [...report.warnings];
+    existingByDate.forEach((doc, day) => {
+      const firstRow = days.get(day)?.[0]?.row || 0;
+      warnings.push({
+        row: firstRow,
+        code: 'existing_report',
+        message: `A daily report already exists for ${day} (${doc.activities.length} activities); matching activities will be updated and new ones added`
+      });
+    });
+    warnings.sort((a, b) => a.row - b.row);
+
+    const headerChanges = HEADER_FIELDS
+      .filter(field => report.header[field] && report.header[field] !== project[field])
+      .map(field => ({ field, current: project[field] || '', imported: report.header[field] as string }));
+
+    const preview = {
+      header: {
+        ...report.header,
+        commencementDate: report.header.commencementDate?.toISOString()
+      },
+      headerChanges,
+      phases: plannedPhases.map(phase => ({
+        phase: phase.phase,
+        name: phase.name,
+        startDate: phase.startDate.toISOString(),
+        endDate: phase.endDate.toISOString(),
+        activities: phase.activities.map(activity => ({
+          title: activity.title,
+          contractor: activity.contractor,
+          status: activity.status,
+          category: activity.category,
+          startDate: activity.startDate.toISOString(),
+          endDate: activity.endDate.toISOString()
+        }))
+      })),
+      weeks: report.weeks,
+      // Imported history is recorded as approved by the importing admin, so
+      // clients see it; days that already have a report keep their review state
+      dailyReportReview: {
+        approved: true,
+        approvedBy: session.user.name || null
+      },
+      days: Array.from(days.entries()).map(([date, rows]) => ({
+        date,
+        activities: rows.length,
+        existing: existingByDate.has(date),
+        approved: existingByDate.get(date)?.approved ?? true
+      })),
+      notes: report.notes,
+      warnings,
+      stats: {
+        rows: report.rows.length,
+        days: days.size,
+        phases: plannedPhases.length,
+        scheduleActivities: plannedPhases.reduce((sum, phase) => sum + phase.activities.length, 0),
+        warnings: warnings.length
+      }
+    };
+
+    if (!commit) {
+      return NextResponse.json({
+        success: true,
+        data: { committed: false, preview }
+      });
+    }
+
+    // Header fields
+    HEADER_FIELDS.forEach(field => {
+      if (report.header[field]) project[field] = report.header[field];
+    });
+    if (!project.startDate && report.header.commencementDate) {
+      project.startDate = report.header.commencementDate;
+    }
+    if (!project.projectDuration && report.header.projectDuration) {
+      project.projectDuration = report.header.projectDuration;
+    }
+
+    // siteSchedule phases: merge into same-named phases unless replacing
+    if (!project.siteSchedule) project.siteSchedule = { phases: [] };
+    if (replaceSchedule) project.siteSchedule.phases = [];
+
+    const userId = new Types.ObjectId(session.user.id);
+    const activityLinks = new Map<string, { phaseId: Types.ObjectId; activityId: Types.ObjectId }>();
+    let addedActivities = 0;
+    let updatedActivities = 0;
+    const { db } = await connectToDatabase();
+    const directory = await loadContractorDirectory(db);
+
+    plannedPhases.forEach(planned => {
+      let phase = (project.siteSchedule.phases as SchedulePhaseLike[])
+        .find(existing => existing.name === planned.name);
+
+      if (!phase) {
+        project.siteSchedule.phases.push({
+          name: planned.name,
+          description: `Imported from site progress report`,
+          startDate: planned.startDate,
+          endDate: planned.endDate,
+          activities: []
+        });
+        phase = project.siteSchedule.phases[project.siteSchedule.phases.length - 1] as SchedulePhaseLike;
+      } else {
+        if (planned.startDate < phase.startDate) phase.startDate = planned.startDate;
+        if (planned.endDate > phase.endDate) phase.endDate = planned.endDate;
+      }
+
+      planned.activities.forEach(activity => {
+        const fields = {
+          status: activity.status,
+          category: activity.category,
+          startDate: activity.startDate,
+          endDate: activity.endDate,
+          progress: activity.status === 'completed' ? 100 : 0,
+          ...linkContractorNames({ contractor: activity.contractor, supervisor: activity.supervisor }, directory),
+          updatedBy: userId
+        };
+
+        // An activity imported before is updated in place rather than added again
+        const title = activity.title.toLowerCase();
+        const existing = phase!.activities.find(item => item.title.toLowerCase() === title);
+        if (existing) {
+          Object.assign(existing, fields, {
+            images: Array.from(new Set([...(existing.images || []), ...activity.images]))
+          });
+          activityLinks.set(activity.key, { phaseId: phase!._id, activityId: existing._id });
+          updatedActivities++;
+          return;
+        }
+
+        phase!.activities.push({
+          _id: new Types.ObjectId(),
+          title: activity.title,
+          description: '',
+          priority: 'medium',
+          ...fields,
+          images: activity.images,
+          comments: [],
+          createdBy: userId
+        } as ScheduleActivityLike);
+
+        const created = phase!.activities[phase!.activities.length - 1];
+        activityLinks.set(activity.key, { phaseId: phase!._id, activityId: created._id });
+        addedActivities++;
+      });
+    });
+
+    await project.save();
+
+    // One DailyProgress document per date
+    let createdReports = 0;
+    let appendedReports = 0;
+
+    for (const [day, rows] of days.entries()) {
+      const activities = rows.map(row =>
+        buildDailyActivity(row, projectObjectId, userId, directory, activityLinks.get(scheduleActivityKey(row)))
+      );
+      const existing = existingByDate.get(day);
+
+      if (existing) {
+        // Same task in the same phase on the same day: take the imported values
+        activities.forEach((activity, index) => {
+          const key = scheduleActivityKey(rows[index]);
+          const match = existing.activities.find(item =>
+            item.phase !== undefined && scheduleActivityKey({ phase: item.phase, title: item.title }) === key
+          );
+          if (!match) {
+            existing.activities.push(activity);
+            return;
+          }
+          Object.assign(match, {
+            description: activity.description,
+            contractor: activity.contractor,
+            contractorId: activity.contractorId,
+            supervisor: activity.supervisor,
+            supervisorId: activity.supervisorId,
+            status: activity.status,
+            category: activity.category,
+            actualDate: activity.actualDate,
+            comments: activity.comments,
+            images: Array.from(new Set([...(match.images || []), ...(activity.images || [])])),
+            incidentReport: activity.incidentReport,
+            progress: activity.progress,
+            weekNumber: activity.weekNumber,
+            linkedActivityId: activity.linkedActivityId,
+            linkedPhaseId: activity.linkedPhaseId,
+            updatedAt: activity.updatedAt
+          });
+        });
+        existing.updatedAt = new Date();
+        await existing.save();
+        appendedReports++;
+      } else {
+        await DailyProgress.create({
+          project: projectObjectId,
+          date: new Date(day),
+          activities,
+          summary: {
+            totalActivities: 0,
+            completed: 0,
+            inProgress: 0,
+            pending: 0,
+            delayed: 0,
+            onHold: 0,
+            toDo: 0
+          },
+          submittedBy: userId,
+          submittedAt: new Date(),
+          approved: true,
+          approvedBy: userId,
+          approvedAt: new Date()
+        });
+        createdReports++;
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        committed: true,
+        preview,
+        result: {
+          phases: plannedPhases.length,
+          scheduleActivities: addedActivities,
+          scheduleActivitiesUpdated: updatedActivities,
+          dailyReportsCreated: createdReports,
+          dailyReportsUpdated: appendedReports
+        }
+      },
+      message: "Site report imported successfully"
+    });
+
+  } catch (error) {
+    console.error("Error importing site report:", error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: "Internal server error",
+        details: error instanceof Error ? error.message : "Unknown error"
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,7 +4,7 @@ import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { updateTaskSchema } from '@/lib/validation';
 import { ObjectId, Filter } from 'mongodb';
-import { sendNotificationEmail } from '@/lib/email';
+import { dispatchNotifications } from '@/lib/notifications';
 
 interface TaskDetailPageProps {
   params: Promise<{ id: string }>;
@@ -43,6 +43,7 @@ interface ProjectDocument {
   title: string;
   client?: ObjectId;
   manager?: ObjectId;
+  managers?: ObjectId[];
 }
 
 interface UserDocument {
@@ -372,46 +373,35 @@ export async function PUT(
       }, { status: 404 });
     }
 
-    // Send notification if task was completed
-    if (data.status === 'completed' && currentTask.status !== 'completed') {
-      // Notify project manager and client
-      const notificationPromises = [];
-      
-      if (project?.manager && !project.manager.equals(userId)) {
-        notificationPromises.push(
-          sendNotificationEmail({
-            recipientId: project.manager.toString(),
-            type: 'task_completed',
-            projectId: currentTask.projectId.toString(),
-            taskId: id,
-            data: {
-              taskTitle: currentTask.title,
-              projectTitle: project.title,
-              completedBy: session.user.name,
-              completionDate: new Date().toLocaleDateString()
-            }
-          })
-        );
-      }
-
-      if (project?.client && !project.client.equals(userId)) {
-        notificationPromises.push(
-          sendNotificationEmail({
-            recipientId: project.client.toString(),
-            type: 'task_completed',
-            projectId: currentTask.projectId.toString(),
-            taskId: id,
-            data: {
-              taskTitle: currentTask.title,
-              projectTitle: project.title,
-              completedBy: session.user.name,
-              completionDate: new Date().toLocaleDateString()
-            }
-          })
-        );
-      }
-
-      await Promise.allSettled(notificationPromises);
+    // Notify the project managers and client if the task was completed
+    if (data.status === 'completed' && currentTask.status !== 'completed' && project) {
+      const managerIds = [...(project.managers || []), ...(project.manager ? [project.manager] : [])];
+      const recipients = [
+        ...managerIds.map(recipientId => ({ recipientId, path: 'manager' })),
+        ...(project.client ? [{ recipientId: project.client, path: 'client' }] : [])
+      ].filter(({ recipientId }, index, all) =>
+        !recipientId.equals(userId) && all.findIndex(item => item.recipientId.equals(recipientId)) === index
+      );
+
+      const now = new Date();
+      await dispatchNotifications(db, recipients.map(({ recipientId, path }) => ({
+        recipientId,
+        senderId: userId,
+        type: 'task_completed',
+        title: 'Task Completed',
+        message: `${session.user.name} completed "${currentTask.title}" on ${project.title}`,
+        data: {
+          projectId: currentTask.projectId.toString(),
+          taskId: id,
+          url: `/${path}/projects/${currentTask.projectId}`
+        },
+        isRead: false,
+        priority: 'medium',
+        category: 'success',
+        actionRequired: false,
+        createdAt: now,
+        updatedAt: now
+      })));
     }
 
     return NextResponse.json({
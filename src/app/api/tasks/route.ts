@@ -4,7 +4,7 @@ import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { createTaskSchema } from '@/lib/validation';
 import { ObjectId, Filter } from 'mongodb';
-import { sendNotificationEmail } from '@/lib/email';
+import { dispatchNotifications } from '@/lib/notifications';
 
 // Define clean task interface without extending Document
 interface TaskData {
@@ -399,22 +399,27 @@ export async function POST(request: NextRequest) {
     // Insert the task - this should work now
     const result = await db.collection<TaskData>('tasks').insertOne(taskDoc);
 
-    // Send notification email to assignee
+    // Notify the assignee on the channels they chose
     if (data.assigneeId) {
-      await sendNotificationEmail({
-        recipientId: data.assigneeId,
+      const now = new Date();
+      await dispatchNotifications(db, [{
+        recipientId: new ObjectId(data.assigneeId),
+        senderId: new ObjectId(session.user.id),
         type: 'task_assigned',
-        projectId: data.projectId,
-        taskId: result.insertedId.toString(),
+        title: 'New Task Assigned',
+        message: `You have been assigned "${data.title}" on ${project.title}${data.deadline ? `, due ${new Date(data.deadline).toLocaleDateString()}` : ''}`,
         data: {
-          taskTitle: data.title,
-          taskDescription: data.description,
-          projectTitle: project.title,
-          dueDate: data.deadline ? new Date(data.deadline).toLocaleDateString() : 'No deadline',
-          priority: data.priority,
-          taskUrl: `${process.env.NEXTAUTH_URL || 'http://localhost:3000'}/tasks/${result.insertedId}`
-        }
-      });
+          projectId: data.projectId,
+          taskId: result.insertedId.toString(),
+          url: `/tasks/${result.insertedId}`
+        },
+        isRead: false,
+        priority: data.priority,
+        category: 'info',
+        actionRequired: true,
+        createdAt: now,
+        updatedAt: now
+      }]);
     }
 
     return NextResponse.json({
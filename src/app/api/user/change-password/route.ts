@@ -5,6 +5,7 @@ import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
 import { hashPassword, verifyPassword } from '@/lib/auth';
 import { changePasswordSchema } from '@/lib/validation';
+import { recordAudit } from '@/lib/audit';
 
 // Define proper TypeScript interfaces
 interface UserDocument {
@@ -108,15 +109,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Failed to update password' }, { status: 500 });
     }
 
-    // Log password change (optional - for security audit)
-    await db.collection('audit_logs').insertOne({
-      userId: new ObjectId(session.user.id),
+    // Log password change for the security audit trail
+    await recordAudit({
+      actor: session.user,
       action: 'password_changed',
-      ipAddress: request.headers.get('x-forwarded-for') || 
-                 request.headers.get('x-real-ip') || 
-                 'unknown',
-      userAgent: request.headers.get('user-agent') || 'unknown',
-      timestamp: new Date(),
+      entityType: 'user',
+      entityId: session.user.id,
+      entityLabel: session.user.name || session.user.email || undefined,
+      metadata: { userAgent: request.headers.get('user-agent') || 'unknown' },
+      request
     });
 
     return NextResponse.json({
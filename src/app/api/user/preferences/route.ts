@@ -3,6 +3,14 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import {
+  DEFAULT_USER_PREFERENCES,
+  isValidTimezone,
+  parseNotificationRouting,
+  parseQuietHours,
+  resolveUserPreferences
+} from '@/lib/user-preferences';
+import type { NotificationRouting, QuietHours } from '@/lib/types/notification-routing';
 
 // Define proper TypeScript interfaces
 interface UserPreferencesDocument {
@@ -13,11 +21,14 @@ interface UserPreferencesDocument {
   projectUpdates: boolean;
   taskReminders: boolean;
   messageAlerts: boolean;
+  dailyDigest: boolean;
   weeklyReports: boolean;
   theme: 'light' | 'dark' | 'system';
   timezone: string;
   language: string;
   dateFormat: string;
+  notificationRouting?: NotificationRouting;
+  quietHours?: QuietHours;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -30,11 +41,14 @@ interface UserPreferencesInsertDocument {
   projectUpdates: boolean;
   taskReminders: boolean;
   messageAlerts: boolean;
+  dailyDigest: boolean;
   weeklyReports: boolean;
   theme: 'light' | 'dark' | 'system';
   timezone: string;
   language: string;
   dateFormat: string;
+  notificationRouting?: NotificationRouting;
+  quietHours?: QuietHours;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -45,11 +59,14 @@ interface UpdatePreferencesData {
   projectUpdates?: boolean;
   taskReminders?: boolean;
   messageAlerts?: boolean;
+  dailyDigest?: boolean;
   weeklyReports?: boolean;
   theme?: 'light' | 'dark' | 'system';
   timezone?: string;
   language?: string;
   dateFormat?: string;
+  notificationRouting?: Partial<NotificationRouting>;
+  quietHours?: Partial<QuietHours>;
 }
 
 interface ClientPreferences {
@@ -58,25 +75,22 @@ interface ClientPreferences {
   projectUpdates: boolean;
   taskReminders: boolean;
   messageAlerts: boolean;
+  dailyDigest: boolean;
   weeklyReports: boolean;
   theme: 'light' | 'dark' | 'system';
   timezone: string;
   language: string;
   dateFormat: string;
+  notificationRouting: NotificationRouting;
+  quietHours: QuietHours;
 }
 
-const defaultPreferences: Omit<UserPreferencesInsertDocument, 'userId' | 'createdAt' | 'updatedAt'> = {
-  emailNotifications: true,
-  pushNotifications: true,
-  projectUpdates: true,
-  taskReminders: true,
-  messageAlerts: true,
-  weeklyReports: false,
-  theme: 'light',
-  timezone: 'Africa/Lagos',
-  language: 'en',
-  dateFormat: 'DD/MM/YYYY'
-};
+const defaultPreferences: Omit<UserPreferencesInsertDocument, 'userId' | 'createdAt' | 'updatedAt'> = DEFAULT_USER_PREFERENCES;
+
+// Fields the user never saved, including a routing matrix from before it existed, are filled in
+function toClientPreferences(document: UserPreferencesDocument): ClientPreferences {
+  return resolveUserPreferences(document);
+}
 
 // GET /api/user/preferences - Get user preferences
 export async function GET() {
@@ -114,19 +128,7 @@ export async function GET() {
       throw new Error('Failed to create or retrieve preferences');
     }
 
-    // Convert to client-compatible format
-    const clientPreferences: ClientPreferences = {
-      emailNotifications: preferences.emailNotifications,
-      pushNotifications: preferences.pushNotifications,
-      projectUpdates: preferences.projectUpdates,
-      taskReminders: preferences.taskReminders,
-      messageAlerts: preferences.messageAlerts,
-      weeklyReports: preferences.weeklyReports,
-      theme: preferences.theme,
-      timezone: preferences.timezone,
-      language: preferences.language,
-      dateFormat: preferences.dateFormat
-    };
+    const clientPreferences = toClientPreferences(preferences);
 
     return NextResponse.json({
       success: true,
@@ -152,6 +154,11 @@ export async function PUT(request: NextRequest) {
     const { db } = await connectToDatabase();
     const userId = new ObjectId(session.user.id);
 
+    // Partial routing and quiet hours updates keep the rest of what is stored
+    const current = resolveUserPreferences(
+      await db.collection<UserPreferencesDocument>('user_preferences').findOne({ userId }) || {}
+    );
+
     // Validate boolean fields
     const booleanFields = [
       'emailNotifications', 
@@ -159,6 +166,7 @@ export async function PUT(request: NextRequest) {
       'projectUpdates', 
       'taskReminders', 
       'messageAlerts', 
+      'dailyDigest',
       'weeklyReports'
     ];
 
@@ -176,7 +184,20 @@ export async function PUT(request: NextRequest) {
         if (['light', 'dark', 'system'].includes(value as string)) {
           updateData[key] = value;
         }
-      } else if (key === 'timezone' || key === 'language' || key === 'dateFormat') {
+      } else if (key === 'timezone') {
+        // Digests go out by this timezone, so only accept ones Intl knows
+        if (typeof value === 'string' && isValidTimezone(value.trim())) {
+          updateData[key] = value.trim();
+        }
+      } else if (key === 'notificationRouting') {
+        if (value && typeof value === 'object') {
+          updateData[key] = parseNotificationRouting(value, current.notificationRouting);
+        }
+      } else if (key === 'quietHours') {
+        if (value && typeof value === 'object') {
+          updateData[key] = parseQuietHours(value, current.quietHours);
+        }
+      } else if (key === 'language' || key === 'dateFormat') {
         if (typeof value === 'string' && value.trim()) {
           updateData[key] = value.trim();
         }
@@ -212,19 +233,7 @@ export async function PUT(request: NextRequest) {
       throw new Error('Failed to retrieve updated preferences');
     }
 
-    // Convert to client-compatible format
-    const clientPreferences: ClientPreferences = {
-      emailNotifications: updatedPreferences.emailNotifications,
-      pushNotifications: updatedPreferences.pushNotifications,
-      projectUpdates: updatedPreferences.projectUpdates,
-      taskReminders: updatedPreferences.taskReminders,
-      messageAlerts: updatedPreferences.messageAlerts,
-      weeklyReports: updatedPreferences.weeklyReports,
-      theme: updatedPreferences.theme,
-      timezone: updatedPreferences.timezone,
-      language: updatedPreferences.language,
-      dateFormat: updatedPreferences.dateFormat
-    };
+    const clientPreferences = toClientPreferences(updatedPreferences);
 
     return NextResponse.json({
       success: true,
@@ -4,6 +4,7 @@ import { auth } from '@/lib/auth';
 import { connectToDatabase } from '@/lib/db';
 import { updateProfileSchema } from '@/lib/validation';
 import { ObjectId } from 'mongodb';
+import { diffFields, recordAudit } from '@/lib/audit';
 import { z } from 'zod';
 
 interface RouteContext {
@@ -172,6 +173,17 @@ export async function PATCH(request: NextRequest, context: RouteContext) {
       );
     }
 
+    const changes = diffFields(existingUser, update).filter(change => change.field !== 'password');
+    await recordAudit({
+      actor: session.user,
+      action: changes.some(change => change.field === 'role') ? 'role_changed' : 'updated',
+      entityType: 'user',
+      entityId: userId,
+      entityLabel: existingUser.name || existingUser.email,
+      changes,
+      request
+    });
+
     // Return updated user data (without password)
     const updatedUser = await db.collection('users').findOne(
       { _id: new ObjectId(userId) },
@@ -286,17 +298,27 @@ export async function DELETE(request: NextRequest, context: RouteContext) {
     ]);
 
     // Delete user
-    const result = await db.collection('users').deleteOne({
+    const deleted = await db.collection('users').findOneAndDelete({
       _id: new ObjectId(userId)
     });
 
-    if (result.deletedCount === 0) {
+    if (!deleted) {
       return NextResponse.json(
         { error: 'User not found' },
         { status: 404 }
       );
     }
 
+    await recordAudit({
+      actor: session.user,
+      action: 'deleted',
+      entityType: 'user',
+      entityId: userId,
+      entityLabel: deleted.name || deleted.email,
+      metadata: { role: deleted.role },
+      request
+    });
+
     return NextResponse.json({
       success: true,
       message: 'User deleted successfully',
@@ -27,6 +27,17 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import ContractorDatalist, { CONTRACTOR_DATALIST_ID } from '@/components/contractors/ContractorDatalist';
+import {
+  ActivityDelay,
+  DEFAULT_DELAY_PARTY,
+  DELAY_PARTIES,
+  DELAY_PARTY_LABELS,
+  DelayParty,
+  SITE_CONDITION_LABELS,
+  SITE_CONDITION_TYPES,
+  SiteConditionType
+} from '@/lib/types/site-conditions';
 import {
   X,
   ZoomIn,
@@ -60,11 +71,27 @@ interface DailyActivity {
   comments?: string;
   images?: string[];
   progress?: number;
+  delay?: ActivityDelay;
   projectId?: string;
   projectTitle?: string;
   date?: string;
 }
 
+// The delay cause form; an empty cause means none is cited
+interface DelayDraft {
+  cause: SiteConditionType | '';
+  responsibleParty: DelayParty;
+  daysLost: string;
+  note: string;
+}
+
+const toDelayDraft = (delay?: ActivityDelay): DelayDraft => ({
+  cause: delay?.cause || '',
+  responsibleParty: delay?.responsibleParty || 'contractor',
+  daysLost: delay ? String(delay.daysLost) : '',
+  note: delay?.note || ''
+});
+
 interface ClientComment {
   _id?: string;
   userId: string;
@@ -163,6 +190,9 @@ const getPriorityColor = (priority: string): string => {
   return colors[priority] || 'bg-gray-100 text-gray-700';
 };
 
+// Delayed and on-hold activities can cite a delay cause
+const isHeldUp = (status: string): boolean => status === 'delayed' || status === 'on_hold';
+
 // ==================== MAIN COMPONENT ====================
 
 export default function ActivityModal({
@@ -190,6 +220,7 @@ export default function ActivityModal({
   const [lightboxOpen, setLightboxOpen] = useState(false);
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [delay, setDelay] = useState<DelayDraft>(toDelayDraft());
 
   const canEdit = (session?.user?.role as 'super_admin' | 'project_manager' | 'client' | undefined) === 'super_admin' || 
                   (session?.user?.role as 'super_admin' | 'project_manager' | 'client' | undefined) === 'project_manager' ||
@@ -247,6 +278,7 @@ export default function ActivityModal({
         comments: activity.comments || '',
         progress: activity.progress || 0,
       });
+      setDelay(toDelayDraft(activity.delay));
       setImagesToDelete([]);
       setSelectedImages([]);
       setImagePreviews([]);
@@ -333,6 +365,10 @@ export default function ActivityModal({
       try {
         const imageUrls = await uploadImages();
         const actualDate = activity.date || date; // Use activity date if exists for match
+        // A cause is only cited while the activity is held up; clearing the cause removes it
+        const delayUpdate = isHeldUp(formData.status)
+          ? { delay: delay.cause ? { ...delay, daysLost: delay.daysLost || 0 } : null }
+          : {};
         const response = await fetch('/api/site-schedule/daily', {
           method: 'PUT',
           headers: { 'Content-Type': 'application/json' },
@@ -344,6 +380,7 @@ export default function ActivityModal({
               ...formData,
               images: [...currentImages, ...imageUrls],
               progress: formData.status === 'completed' ? 100 : formData.progress,
+              ...delayUpdate,
             },
             deleteImages: imagesToDelete,
           }),
@@ -367,7 +404,7 @@ export default function ActivityModal({
         setSaving(false);
       }
     },
-    [activity, canEdit, projectId, date, currentImages, imagesToDelete, uploadImages, toast, onSuccess]
+    [activity, canEdit, projectId, date, currentImages, imagesToDelete, delay, uploadImages, toast, onSuccess]
   );
 
   // Add comment
@@ -480,6 +517,7 @@ export default function ActivityModal({
           </DialogHeader>
 
           <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+            {canEdit && <ContractorDatalist />}
             {/* Details Grid */}
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
               <div>
@@ -490,6 +528,7 @@ export default function ActivityModal({
                 <Input
                   {...register('contractor')}
                   value={watch('contractor')}
+                  list={CONTRACTOR_DATALIST_ID}
                   disabled={!editMode || !canEdit}
                   className="font-medium mt-1"
                 />
@@ -503,6 +542,7 @@ export default function ActivityModal({
                   <Input
                     {...register('supervisor')}
                     value={watch('supervisor')}
+                    list={CONTRACTOR_DATALIST_ID}
                     disabled={!editMode || !canEdit}
                     className="font-medium mt-1"
                   />
@@ -617,6 +657,72 @@ export default function ActivityModal({
               </Badge>
             </div>
 
+            {/* Delay cause, for the delay attribution report */}
+            {canEdit && isHeldUp(watchedStatus) && (
+              <div className="rounded-lg border border-amber-200 bg-amber-50 p-3 space-y-3">
+                <Label>Delay Cause</Label>
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                  <Select
+                    value={delay.cause || undefined}
+                    onValueChange={(value: string) => setDelay(current => ({
+                      ...current,
+                      cause: value as SiteConditionType,
+                      responsibleParty: DEFAULT_DELAY_PARTY[value as SiteConditionType]
+                    }))}
+                    disabled={!editMode}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="No cause cited" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SITE_CONDITION_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{SITE_CONDITION_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={delay.responsibleParty}
+                    onValueChange={(value: string) => setDelay(current => ({ ...current, responsibleParty: value as DelayParty }))}
+                    disabled={!editMode || !delay.cause}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DELAY_PARTIES.map(party => (
+                        <SelectItem key={party} value={party}>{DELAY_PARTY_LABELS[party]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={delay.daysLost}
+                    onChange={(e) => setDelay(current => ({ ...current, daysLost: e.target.value }))}
+                    placeholder="Days lost"
+                    disabled={!editMode || !delay.cause}
+                  />
+                </div>
+                <Input
+                  value={delay.note}
+                  onChange={(e) => setDelay(current => ({ ...current, note: e.target.value }))}
+                  placeholder="What is holding this activity up?"
+                  disabled={!editMode || !delay.cause}
+                />
+                {delay.cause && editMode && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setDelay(toDelayDraft())}
+                  >
+                    Clear cause
+                  </Button>
+                )}
+              </div>
+            )}
+
             {/* Images Section */}
             <div>
               <Label className="flex items-center gap-2 mb-3">
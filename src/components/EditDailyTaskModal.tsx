@@ -28,6 +28,7 @@ import {
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/hooks/use-toast';
+import ContractorDatalist, { CONTRACTOR_DATALIST_ID } from '@/components/contractors/ContractorDatalist';
 import {
   Save,
   X,
@@ -321,6 +322,7 @@ export default function EditDailyTaskModal({
         </DialogHeader>
 
         <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+          {canEdit && <ContractorDatalist />}
           {/* Basic Information */}
           <div className="space-y-4">
             <h3 className="text-lg font-semibold">Basic Information</h3>
@@ -368,6 +370,7 @@ export default function EditDailyTaskModal({
                 <Input
                   id="contractor"
                   {...register('contractor')}
+                  list={CONTRACTOR_DATALIST_ID}
                   placeholder="Contractor name"
                   disabled={!canEdit}
                 />
@@ -384,6 +387,7 @@ export default function EditDailyTaskModal({
                 <Input
                   id="supervisor"
                   {...register('supervisor')}
+                  list={CONTRACTOR_DATALIST_ID}
                   placeholder="Supervisor name"
                   disabled={!canEdit}
                 />
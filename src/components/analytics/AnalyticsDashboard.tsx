@@ -68,6 +68,7 @@ interface DashboardAnalytics {
     monthlyActivity: Array<{ month: string; projects: number; tasks: number; files: number }>;
     userActivity: Array<{ name: string; role: string; lastActive: string; projectsCount: number }>;
     budgetAnalysis: Array<{ category: string; allocated: number; spent: number }>;
+    budgetBurn: Array<{ month: string; spent: number; cumulative: number; budget: number }>;
   };
   trends: {
     projectCompletionRate: number;
@@ -383,6 +384,32 @@ export default function AnalyticsDashboard() {
     </Card>
   );
 
+  // Budget Burn Chart - cumulative expenses against the total cost budget
+  const BudgetBurnChart = () => (
+    <Card className="mb-8">
+      <CardHeader>
+        <CardTitle>Budget Burn</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {analytics.charts.budgetBurn.length === 0 ? (
+          <p className="text-sm text-gray-500 py-12 text-center">No expenses have been recorded yet.</p>
+        ) : (
+          <ResponsiveContainer width="100%" height={300}>
+            <AreaChart data={analytics.charts.budgetBurn}>
+              <CartesianGrid strokeDasharray="3 3" />
+              <XAxis dataKey="month" />
+              <YAxis tickFormatter={(value) => formatCurrency(Number(value))} width={110} />
+              <Tooltip formatter={(value) => formatCurrency(Number(value))} />
+              <Legend />
+              <Area type="monotone" dataKey="cumulative" stroke="#82ca9d" fill="#82ca9d" fillOpacity={0.4} name="Spent to date" />
+              <Area type="stepAfter" dataKey="budget" stroke="#ef4444" strokeDasharray="5 5" fill="none" name="Budget" />
+            </AreaChart>
+          </ResponsiveContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+
   // User Activity Table
   const UserActivityTable = () => (
     <Card className="mb-8">
@@ -531,6 +558,7 @@ export default function AnalyticsDashboard() {
         
         <TabsContent value="budget" className="mt-6">
           <BudgetAnalysisChart />
+          <BudgetBurnChart />
         </TabsContent>
       </Tabs>
     </div>
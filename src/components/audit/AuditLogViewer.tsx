@@ -0,0 +1,321 @@
+// src/components/audit/AuditLogViewer.tsx - Filterable audit trail (admin) and project history tab
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { ArrowRight, ChevronLeft, ChevronRight, History, Search } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_LABELS,
+  AUDIT_ENTITY_TYPES,
+  AuditAction,
+  AuditLog
+} from '@/lib/types/audit';
+
+interface AuditLogViewerProps {
+  // When set, only this project's history is shown and the project filter is hidden
+  projectId?: string;
+}
+
+interface Pagination {
+  page: number;
+  pages: number;
+  total: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+interface ProjectOption {
+  _id: string;
+  title: string;
+}
+
+const ALL = 'all';
+const PAGE_SIZE = 25;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+  created: 'Created',
+  updated: 'Updated',
+  deleted: 'Deleted',
+  status_changed: 'Status changed',
+  submitted: 'Submitted',
+  approved: 'Approved',
+  rejected: 'Rejected',
+  role_changed: 'Role changed',
+  password_changed: 'Password changed'
+};
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  created: 'bg-green-100 text-green-800',
+  updated: 'bg-blue-100 text-blue-800',
+  deleted: 'bg-red-100 text-red-800',
+  status_changed: 'bg-purple-100 text-purple-800',
+  submitted: 'bg-cyan-100 text-cyan-800',
+  approved: 'bg-emerald-100 text-emerald-800',
+  rejected: 'bg-rose-100 text-rose-800',
+  role_changed: 'bg-orange-100 text-orange-800',
+  password_changed: 'bg-gray-100 text-gray-800'
+};
+
+const ROLE_LABELS: Record<string, string> = {
+  super_admin: 'Admin',
+  project_manager: 'Project Manager',
+  client: 'Client'
+};
+
+// camelCase field names read better as words: "plannedEndDate" -> "Planned end date"
+function fieldLabel(field: string): string {
+  const words = field.replace(/([a-z])([A-Z])/g, '$1 $2').replace(/_/g, ' ').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'string') {
+    // ISO timestamps are stored as strings in the diff
+    if (/^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)) {
+      const date = new Date(value);
+      if (!isNaN(date.getTime())) return format(date, 'MMM d, yyyy');
+    }
+    return value.replace(/_/g, ' ');
+  }
+  if (Array.isArray(value)) return value.length === 0 ? '—' : value.map(formatValue).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export default function AuditLogViewer({ projectId }: AuditLogViewerProps) {
+  const [logs, setLogs] = useState<AuditLog[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+
+  const [page, setPage] = useState(1);
+  const [entityType, setEntityType] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [projectFilter, setProjectFilter] = useState(ALL);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+
+  // Debounce the free-text search so typing doesn't fire a request per key
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    setPage(1);
+  }, [entityType, action, projectFilter, from, to, search]);
+
+  useEffect(() => {
+    if (projectId) return;
+    fetch('/api/projects?limit=100')
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setProjects(data.data.projects);
+      })
+      .catch(err => console.error('Error fetching projects:', err));
+  }, [projectId]);
+
+  const fetchLogs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (entityType !== ALL) params.set('entityType', entityType);
+      if (action !== ALL) params.set('action', action);
+      if (!projectId && projectFilter !== ALL) params.set('projectId', projectFilter);
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      if (search) params.set('search', search);
+
+      const url = projectId ? `/api/projects/${projectId}/audit` : '/api/audit-logs';
+      const response = await fetch(`${url}?${params}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load history');
+      }
+      setLogs(data.data.logs);
+      setPagination(data.data.pagination);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching audit logs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, page, entityType, action, projectFilter, from, to, search]);
+
+  useEffect(() => {
+    fetchLogs();
+  }, [fetchLogs]);
+
+  const hasFilters = entityType !== ALL || action !== ALL || projectFilter !== ALL || from || to || searchInput;
+
+  const clearFilters = () => {
+    setEntityType(ALL);
+    setAction(ALL);
+    setProjectFilter(ALL);
+    setFrom('');
+    setTo('');
+    setSearchInput('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className={`grid grid-cols-1 sm:grid-cols-2 gap-3 ${projectId ? 'lg:grid-cols-5' : 'lg:grid-cols-6'}`}>
+        <div className="relative sm:col-span-2 lg:col-span-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={searchInput}
+            onChange={(e) => setSearchInput(e.target.value)}
+            placeholder="Search entity, person, field..."
+            className="pl-9"
+          />
+        </div>
+        <Select value={entityType} onValueChange={setEntityType}>
+          <SelectTrigger>
+            <SelectValue placeholder="All records" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All records</SelectItem>
+            {AUDIT_ENTITY_TYPES.map(type => (
+              <SelectItem key={type} value={type}>{AUDIT_ENTITY_LABELS[type]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={action} onValueChange={setAction}>
+          <SelectTrigger>
+            <SelectValue placeholder="All actions" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL}>All actions</SelectItem>
+            {AUDIT_ACTIONS.map(value => (
+              <SelectItem key={value} value={value}>{ACTION_LABELS[value]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {!projectId && (
+          <Select value={projectFilter} onValueChange={setProjectFilter}>
+            <SelectTrigger>
+              <SelectValue placeholder="All projects" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL}>All projects</SelectItem>
+              {projects.map(project => (
+                <SelectItem key={project._id} value={project._id}>{project.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label="From date" />
+        <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label="To date" />
+      </div>
+
+      {hasFilters && (
+        <div className="flex justify-end">
+          <Button variant="ghost" size="sm" onClick={clearFilters}>Clear filters</Button>
+        </div>
+      )}
+
+      {error ? (
+        <Card>
+          <CardContent className="py-8 text-center text-red-600">{error}</CardContent>
+        </Card>
+      ) : loading && logs.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading history...</p>
+      ) : logs.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            <History className="h-10 w-10 mx-auto mb-3 text-gray-400" />
+            {hasFilters ? 'No changes match these filters.' : 'No changes have been recorded yet.'}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className={`space-y-3 ${loading ? 'opacity-60' : ''}`}>
+          {logs.map(log => (
+            <Card key={log._id}>
+              <CardContent className="p-4">
+                <div className="flex flex-wrap items-start justify-between gap-2">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge className={ACTION_COLORS[log.action] || 'bg-gray-100 text-gray-800'}>
+                        {ACTION_LABELS[log.action] || log.action}
+                      </Badge>
+                      {log.entityType && (
+                        <span className="text-xs font-medium uppercase tracking-wide text-gray-500">
+                          {AUDIT_ENTITY_LABELS[log.entityType]}
+                        </span>
+                      )}
+                      {log.entityLabel && (
+                        <span className="font-medium text-gray-900 truncate">{log.entityLabel}</span>
+                      )}
+                    </div>
+                    <p className="mt-1 text-sm text-gray-600">
+                      {log.actorName}
+                      {log.actorRole && ` (${ROLE_LABELS[log.actorRole] || log.actorRole})`}
+                      {!projectId && log.projectTitle && <> · {log.projectTitle}</>}
+                    </p>
+                  </div>
+                  <span
+                    className="text-xs text-gray-500 whitespace-nowrap"
+                    title={format(new Date(log.timestamp), 'PPpp')}
+                  >
+                    {formatDistanceToNow(new Date(log.timestamp), { addSuffix: true })}
+                  </span>
+                </div>
+
+                {log.changes.length > 0 && (
+                  <ul className="mt-3 space-y-1 border-t border-gray-100 pt-3">
+                    {log.changes.map(change => (
+                      <li key={change.field} className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="font-medium text-gray-700">{fieldLabel(change.field)}:</span>
+                        <span className="text-gray-500 line-through break-all">{formatValue(change.before)}</span>
+                        <ArrowRight className="h-3 w-3 text-gray-400 shrink-0" />
+                        <span className="text-gray-900 break-all">{formatValue(change.after)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {pagination && pagination.pages > 1 && (
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-gray-500">
+            Page {pagination.page} of {pagination.pages} · {pagination.total} changes
+          </p>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!pagination.hasPrev || loading}
+              onClick={() => setPage(current => current - 1)}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={!pagination.hasNext || loading}
+              onClick={() => setPage(current => current + 1)}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,413 @@
+// src/components/calendar/MeetingMinutesDialog.tsx - Minutes for one calendar event
+// Staff record attendance, agenda, notes, decisions and action items (each
+// becomes a task for its owner) and email them to attendees; clients read them.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Mail, Plus, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  MEETING_RECORD_KIND_LABELS,
+  MEETING_RECORD_KINDS,
+  MeetingMinutesView,
+  MeetingRecordKind
+} from '@/lib/types/meeting-minutes';
+
+interface ActionRow {
+  key: string;
+  _id?: string;
+  description: string;
+  ownerId: string;
+  dueDate: string; // YYYY-MM-DD
+  taskStatus?: string;
+}
+
+interface MinutesForm {
+  kind: MeetingRecordKind;
+  present: string[];
+  agenda: string;
+  notes: string;
+  decisions: string;
+  actionItems: ActionRow[];
+}
+
+let nextRowKey = 0;
+const newRowKey = () => `action-${nextRowKey++}`;
+
+const formatDay = (value: string) => format(new Date(value), 'MMM d, yyyy');
+
+// Until minutes are recorded, everyone invited is assumed to have attended
+const toForm = (view: MeetingMinutesView): MinutesForm => {
+  const { minutes, event } = view;
+  return {
+    kind: minutes?.kind || (event.type === 'meeting' ? 'meeting' : 'site_visit'),
+    present: minutes
+      ? minutes.attendees.filter(attendee => attendee.present).map(attendee => attendee.userId)
+      : view.people.map(person => person._id),
+    agenda: minutes?.agenda.join('\n') || '',
+    notes: minutes?.notes || '',
+    decisions: minutes?.decisions.join('\n') || '',
+    actionItems: (minutes?.actionItems || []).map(item => ({
+      key: newRowKey(),
+      _id: item._id,
+      description: item.description,
+      ownerId: item.ownerId,
+      dueDate: format(new Date(item.dueDate), 'yyyy-MM-dd'),
+      taskStatus: item.taskStatus
+    }))
+  };
+};
+
+function MinutesList({ title, items }: { title: string; items: string[] }) {
+  if (items.length === 0) return null;
+  return (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-900 mb-1">{title}</h4>
+      <ul className="list-disc pl-5 space-y-0.5 text-sm text-gray-700">
+        {items.map((item, index) => <li key={index}>{item}</li>)}
+      </ul>
+    </div>
+  );
+}
+
+interface MeetingMinutesDialogProps {
+  eventId: string | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+export default function MeetingMinutesDialog({ eventId, open, onOpenChange, onSaved }: MeetingMinutesDialogProps) {
+  const { toast } = useToast();
+  const [view, setView] = useState<MeetingMinutesView | null>(null);
+  const [form, setForm] = useState<MinutesForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMinutes = useCallback(async () => {
+    if (!eventId) return;
+    try {
+      setView(null);
+      setError(null);
+      const response = await fetch(`/api/calendar/${eventId}/minutes`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load minutes');
+      }
+      setView(result.data);
+      setForm(toForm(result.data));
+    } catch (err) {
+      console.error('Error fetching meeting minutes:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load minutes');
+    }
+  }, [eventId]);
+
+  useEffect(() => {
+    if (open) fetchMinutes();
+  }, [open, fetchMinutes]);
+
+  const updateForm = (changes: Partial<MinutesForm>) => {
+    setForm(current => current ? { ...current, ...changes } : current);
+  };
+
+  const updateRow = (key: string, changes: Partial<ActionRow>) => {
+    setForm(current => current ? {
+      ...current,
+      actionItems: current.actionItems.map(row => row.key === key ? { ...row, ...changes } : row)
+    } : current);
+  };
+
+  const togglePresent = (userId: string, present: boolean) => {
+    setForm(current => current ? {
+      ...current,
+      present: present ? [...current.present, userId] : current.present.filter(id => id !== userId)
+    } : current);
+  };
+
+  const handleSave = async () => {
+    if (!form || !eventId) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/calendar/${eventId}/minutes`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          kind: form.kind,
+          present: form.present,
+          agenda: form.agenda,
+          notes: form.notes,
+          decisions: form.decisions,
+          actionItems: form.actionItems.map(({ _id, description, ownerId, dueDate }) => ({
+            _id,
+            description,
+            ownerId,
+            dueDate: dueDate ? new Date(`${dueDate}T00:00:00`).toISOString() : ''
+          }))
+        })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save minutes');
+      }
+      toast({ title: 'Success', description: result.message });
+      setView(result.data);
+      setForm(toForm(result.data));
+      onSaved?.();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save minutes'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEmail = async () => {
+    if (!eventId) return;
+    setSending(true);
+    try {
+      const response = await fetch(`/api/calendar/${eventId}/minutes/email`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to email minutes');
+      }
+      toast({ title: 'Success', description: result.message });
+      setView(result.data);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to email minutes'
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const minutes = view?.minutes;
+  const ownerName = (ownerId: string) => view?.people.find(person => person._id === ownerId)?.name || 'Unassigned';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{view ? view.event.title : 'Minutes'}</DialogTitle>
+          {view && (
+            <DialogDescription>
+              {format(new Date(view.event.startDate), 'EEEE, MMM d, yyyy')}
+              {view.event.location && ` · ${view.event.location}`}
+              {view.event.projectTitle && ` · ${view.event.projectTitle}`}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        {error ? (
+          <p className="text-sm text-red-600 py-4">{error}</p>
+        ) : !view || !form ? (
+          <p className="text-sm text-gray-500">Loading minutes...</p>
+        ) : view.canEdit ? (
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Record</Label>
+              <Select value={form.kind} onValueChange={(value) => updateForm({ kind: value as MeetingRecordKind })}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MEETING_RECORD_KINDS.map(kind => (
+                    <SelectItem key={kind} value={kind}>{MEETING_RECORD_KIND_LABELS[kind]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-1">
+              <Label>Attendance</Label>
+              {view.people.length === 0 ? (
+                <p className="text-xs text-gray-500">Nobody was invited to this event.</p>
+              ) : (
+                <div className="flex flex-wrap gap-x-4 gap-y-1">
+                  {view.people.map(person => (
+                    <label key={person._id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={form.present.includes(person._id)}
+                        onChange={(e) => togglePresent(person._id, e.target.checked)}
+                        className="h-4 w-4 rounded border-gray-300"
+                      />
+                      {person.name}
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="minutes-agenda">Agenda</Label>
+              <Textarea
+                id="minutes-agenda"
+                rows={3}
+                value={form.agenda}
+                onChange={(e) => updateForm({ agenda: e.target.value })}
+                placeholder="One item per line"
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="minutes-notes">Notes</Label>
+              <Textarea
+                id="minutes-notes"
+                rows={5}
+                value={form.notes}
+                onChange={(e) => updateForm({ notes: e.target.value })}
+                placeholder={form.kind === 'site_visit' ? 'What was inspected and found on site' : 'Discussion'}
+              />
+            </div>
+
+            <div className="space-y-1">
+              <Label htmlFor="minutes-decisions">Decisions</Label>
+              <Textarea
+                id="minutes-decisions"
+                rows={3}
+                value={form.decisions}
+                onChange={(e) => updateForm({ decisions: e.target.value })}
+                placeholder="One decision per line"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Action Items</Label>
+              {!view.event.projectId ? (
+                <p className="text-xs text-gray-500">Link this event to a project to add action items; they are tracked as project tasks.</p>
+              ) : (
+                <>
+                  {form.actionItems.map(row => (
+                    <div key={row.key} className="grid grid-cols-2 sm:grid-cols-12 gap-2 items-center">
+                      <Input
+                        className="col-span-2 sm:col-span-6"
+                        value={row.description}
+                        maxLength={100}
+                        onChange={(e) => updateRow(row.key, { description: e.target.value })}
+                        placeholder="Action"
+                      />
+                      <div className="sm:col-span-3">
+                        <Select value={row.ownerId} onValueChange={(value) => updateRow(row.key, { ownerId: value })}>
+                          <SelectTrigger title="Owner">
+                            <SelectValue placeholder="Owner" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {view.people.map(person => (
+                              <SelectItem key={person._id} value={person._id}>{person.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <Input
+                        className="sm:col-span-2"
+                        type="date"
+                        value={row.dueDate}
+                        onChange={(e) => updateRow(row.key, { dueDate: e.target.value })}
+                        title="Due date"
+                      />
+                      <div className="col-span-2 sm:col-span-1 flex items-center justify-end gap-1">
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => updateForm({ actionItems: form.actionItems.filter(item => item.key !== row.key) })}
+                        >
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                      {row.taskStatus && (
+                        <p className="col-span-2 sm:col-span-12 -mt-1 text-xs text-gray-500">
+                          Task {row.taskStatus.replace('_', ' ')}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => updateForm({
+                      actionItems: [...form.actionItems, { key: newRowKey(), description: '', ownerId: '', dueDate: '' }]
+                    })}
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Action Item
+                  </Button>
+                </>
+              )}
+            </div>
+
+            {minutes?.emailedAt && (
+              <p className="text-xs text-gray-500">
+                Last emailed to {minutes.emailedTo} attendee{minutes.emailedTo === 1 ? '' : 's'} on {format(new Date(minutes.emailedAt), 'MMM d, yyyy h:mm a')}
+              </p>
+            )}
+
+            <DialogFooter className="gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={handleEmail}
+                disabled={!minutes || sending || saving}
+                title="Sends the last saved minutes"
+              >
+                <Mail className="h-4 w-4 mr-2" />
+                {sending ? 'Sending...' : 'Email Attendees'}
+              </Button>
+              <Button type="button" onClick={handleSave} disabled={saving}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Minutes'}
+              </Button>
+            </DialogFooter>
+          </div>
+        ) : !minutes ? (
+          <p className="text-sm text-gray-500 py-4">No minutes have been recorded for this event yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <Badge variant="outline">{MEETING_RECORD_KIND_LABELS[minutes.kind]}</Badge>
+            <MinutesList title="Present" items={minutes.attendees.filter(attendee => attendee.present).map(attendee => attendee.name)} />
+            <MinutesList title="Apologies" items={minutes.attendees.filter(attendee => !attendee.present).map(attendee => attendee.name)} />
+            <MinutesList title="Agenda" items={minutes.agenda} />
+            {minutes.notes && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-1">Notes</h4>
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{minutes.notes}</p>
+              </div>
+            )}
+            <MinutesList title="Decisions" items={minutes.decisions} />
+            <MinutesList
+              title="Action Items"
+              items={minutes.actionItems.map(item =>
+                `${item.description} (${item.ownerName || ownerName(item.ownerId)}, due ${formatDay(item.dueDate)})`)}
+            />
+            <p className="text-xs text-gray-400">
+              {minutes.recordedByName ? `Recorded by ${minutes.recordedByName} · ` : ''}Updated {format(new Date(minutes.updatedAt), 'MMM d, yyyy')}
+            </p>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
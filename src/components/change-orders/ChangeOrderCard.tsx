@@ -0,0 +1,138 @@
+// src/components/change-orders/ChangeOrderCard.tsx - One change order: scope, deltas, attachments and decision
+'use client';
+
+import { ReactNode } from 'react';
+import { format } from 'date-fns';
+import { ArrowRight, CalendarClock, FolderOpen, Paperclip } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { formatCurrency } from '@/lib/utils';
+import { CHANGE_ORDER_STATUS_LABELS, ChangeOrder, ChangeOrderStatus } from '@/lib/types/change-order';
+
+const STATUS_COLORS: Record<ChangeOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  pending_approval: 'bg-yellow-100 text-yellow-800',
+  approved: 'bg-green-100 text-green-800',
+  rejected: 'bg-rose-100 text-rose-800'
+};
+
+const formatDate = (value: string) => format(new Date(value), 'MMM d, yyyy');
+const formatDateTime = (value: string) => format(new Date(value), 'MMM d, yyyy h:mm a');
+
+export function formatCostDelta(amount: number): string {
+  if (amount === 0) return 'No cost change';
+  return `${amount > 0 ? '+' : '−'}${formatCurrency(Math.abs(amount))}`;
+}
+
+export function formatScheduleDelta(days: number): string {
+  if (days === 0) return 'No schedule change';
+  const count = Math.abs(days);
+  return `${days > 0 ? '+' : '−'}${count} working day${count === 1 ? '' : 's'}`;
+}
+
+interface ChangeOrderCardProps {
+  order: ChangeOrder;
+  showProject?: boolean;
+  actions?: ReactNode;
+}
+
+export default function ChangeOrderCard({ order, showProject = false, actions }: ChangeOrderCardProps) {
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs font-mono text-gray-500">{order.number}</span>
+            <h4 className="font-semibold text-gray-900">{order.title}</h4>
+            <Badge className={STATUS_COLORS[order.status]}>{CHANGE_ORDER_STATUS_LABELS[order.status]}</Badge>
+          </div>
+          {showProject && order.projectTitle && (
+            <p className="flex items-center gap-1 text-xs text-gray-500 mt-1">
+              <FolderOpen className="h-3 w-3" />
+              {order.projectTitle}
+            </p>
+          )}
+        </div>
+        {actions && <div className="flex flex-wrap gap-2 shrink-0">{actions}</div>}
+      </div>
+
+      <p className="text-sm text-gray-700 whitespace-pre-line">{order.description}</p>
+      {order.reason && (
+        <p className="text-sm text-gray-600">
+          <span className="font-medium">Reason:</span> {order.reason}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-2 text-sm">
+        <Badge variant="outline" className={order.costDelta > 0 ? 'text-red-700' : order.costDelta < 0 ? 'text-green-700' : ''}>
+          {formatCostDelta(order.costDelta)}
+        </Badge>
+        <Badge variant="outline" className="gap-1">
+          <CalendarClock className="h-3 w-3" />
+          {formatScheduleDelta(order.scheduleDeltaDays)}
+        </Badge>
+      </div>
+
+      {order.activities.length > 0 && (
+        <div>
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-1">Affected Activities</p>
+          <ul className="text-sm text-gray-700 list-disc pl-5">
+            {order.activities.map(activity => (
+              <li key={activity.activityId}>{activity.title}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {order.attachments.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {order.attachments.map(attachment => (
+            <a
+              key={attachment.url}
+              href={attachment.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 text-sm text-blue-600 hover:underline"
+            >
+              <Paperclip className="h-3 w-3" />
+              {attachment.name}
+            </a>
+          ))}
+        </div>
+      )}
+
+      {order.applied && order.applied.shiftedActivities.length > 0 && (
+        <div>
+          <p className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-1">Schedule Adjusted</p>
+          <ul className="space-y-1 text-xs text-gray-600">
+            {order.applied.shiftedActivities.map(shift => (
+              <li key={shift.activityId} className="flex flex-wrap items-center gap-1">
+                <span className="font-medium text-gray-700">{shift.title}:</span>
+                {formatDate(shift.previousStart)} – {formatDate(shift.previousEnd)}
+                <ArrowRight className="h-3 w-3" />
+                {formatDate(shift.start)} – {formatDate(shift.end)}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="border-t border-gray-100 pt-2 text-xs text-gray-500 space-y-1">
+        <p>
+          Drafted by {order.createdByName} on {formatDate(order.createdAt)}
+          {order.submittedAt && <> · Sent to client {formatDate(order.submittedAt)}</>}
+        </p>
+        {order.decision && (
+          <p className={order.status === 'approved' ? 'text-green-700' : 'text-rose-700'}>
+            {order.status === 'approved' ? 'Approved' : 'Rejected'} by {order.decision.name} on {formatDateTime(order.decision.at)}
+            {order.decision.comment && <> — “{order.decision.comment}”</>}
+          </p>
+        )}
+        {order.applied && (
+          <p>
+            Contract value {formatCurrency(order.applied.budgetBefore)} → {formatCurrency(order.applied.budgetAfter)}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
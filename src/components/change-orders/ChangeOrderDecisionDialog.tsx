@@ -0,0 +1,119 @@
+// src/components/change-orders/ChangeOrderDecisionDialog.tsx - Client signs an approval or rejection
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { ChangeOrder } from '@/lib/types/change-order';
+import { formatCostDelta, formatScheduleDelta } from './ChangeOrderCard';
+
+interface ChangeOrderDecisionDialogProps {
+  order: ChangeOrder | null;
+  decision: 'approve' | 'reject';
+  defaultName?: string;
+  onOpenChange: (open: boolean) => void;
+  onDecided: (order: ChangeOrder) => Promise<void> | void;
+}
+
+export default function ChangeOrderDecisionDialog({
+  order,
+  decision,
+  defaultName = '',
+  onOpenChange,
+  onDecided
+}: ChangeOrderDecisionDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!order) return;
+    setName(defaultName);
+    setComment('');
+  }, [order, defaultName]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/projects/${order.projectId}/change-orders/${order._id}/decision`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decision, name, comment })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast({ title: 'Success', description: data.message });
+      onOpenChange(false);
+      await onDecided(data.data);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to record your decision'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const approving = decision === 'approve';
+
+  return (
+    <Dialog open={order !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{approving ? 'Approve' : 'Reject'} {order?.number}</DialogTitle>
+          <DialogDescription>
+            {order && `${formatCostDelta(order.costDelta)} · ${formatScheduleDelta(order.scheduleDeltaDays)}. `}
+            {approving
+              ? 'Approving updates your contract value and moves the affected work on the schedule.'
+              : 'The project team will be told you rejected this change and why.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="decision-comment">{approving ? 'Comment' : 'Reason for rejecting *'}</Label>
+            <Textarea
+              id="decision-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              required={!approving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="decision-name">Type your full name to sign *</Label>
+            <Input id="decision-name" value={name} onChange={(e) => setName(e.target.value)} required />
+            <p className="text-xs text-gray-500">Your name and the time of this decision are recorded on the change order.</p>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button
+              type="submit"
+              disabled={saving || !name.trim()}
+              variant={approving ? 'default' : 'destructive'}
+            >
+              {saving ? 'Saving...' : approving ? 'Approve Change' : 'Reject Change'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
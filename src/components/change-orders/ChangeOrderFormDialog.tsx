@@ -0,0 +1,236 @@
+// src/components/change-orders/ChangeOrderFormDialog.tsx - Draft or edit a change order
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Paperclip, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { ChangeOrder, ChangeOrderAttachment } from '@/lib/types/change-order';
+
+interface SchedulePhaseOption {
+  _id: string;
+  name: string;
+  activities: Array<{ _id: string; title: string; status: string }>;
+}
+
+interface ChangeOrderFormDialogProps {
+  projectId: string;
+  open: boolean;
+  initial: ChangeOrder | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => Promise<void>;
+}
+
+export default function ChangeOrderFormDialog({ projectId, open, initial, onOpenChange, onSaved }: ChangeOrderFormDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [reason, setReason] = useState('');
+  const [activityIds, setActivityIds] = useState<string[]>([]);
+  const [costDelta, setCostDelta] = useState('0');
+  const [scheduleDeltaDays, setScheduleDeltaDays] = useState('0');
+  const [attachments, setAttachments] = useState<ChangeOrderAttachment[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [phases, setPhases] = useState<SchedulePhaseOption[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(initial?.title || '');
+    setDescription(initial?.description || '');
+    setReason(initial?.reason || '');
+    setActivityIds(initial?.activities.map(activity => activity.activityId) || []);
+    setCostDelta(initial ? String(initial.costDelta) : '0');
+    setScheduleDeltaDays(initial ? String(initial.scheduleDeltaDays) : '0');
+    setAttachments(initial?.attachments || []);
+    setFiles([]);
+
+    fetch(`/api/projects/${projectId}/schedule`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setPhases(data.data.phases || []);
+      })
+      .catch(err => console.error('Error fetching schedule activities:', err));
+  }, [open, initial, projectId]);
+
+  const toggleActivity = (activityId: string) => {
+    setActivityIds(current => current.includes(activityId)
+      ? current.filter(id => id !== activityId)
+      : [...current, activityId]);
+  };
+
+  const uploadAttachment = async (file: File): Promise<ChangeOrderAttachment> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('folder', 'change-orders');
+    formData.append('projectId', projectId);
+    const response = await fetch('/api/upload', { method: 'POST', body: formData });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Upload of ${file.name} failed`);
+    }
+    return { url: data.url as string, key: data.key as string, name: file.name };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const uploaded = await Promise.all(files.map(uploadAttachment));
+      const response = await fetch(
+        initial ? `/api/projects/${projectId}/change-orders/${initial._id}` : `/api/projects/${projectId}/change-orders`,
+        {
+          method: initial ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            title,
+            description,
+            reason,
+            activityIds,
+            costDelta: Number(costDelta || 0),
+            scheduleDeltaDays: Number(scheduleDeltaDays || 0),
+            attachments: [...attachments, ...uploaded]
+          })
+        }
+      );
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast({ title: 'Success', description: data.message });
+      onOpenChange(false);
+      await onSaved();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save change order'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const schedulable = phases.filter(phase => phase.activities?.length > 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initial ? `Edit ${initial.number}` : 'New Change Order'}</DialogTitle>
+          <DialogDescription>
+            Drafts are only visible to the project team until you send them to the client.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="co-title">Title *</Label>
+            <Input
+              id="co-title"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+              placeholder="e.g. Relocate sockets & switches in master bedroom"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="co-description">Description *</Label>
+            <Textarea id="co-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={4} required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="co-reason">Reason</Label>
+            <Input
+              id="co-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Client request during site walk"
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="co-cost">Cost Change (₦)</Label>
+              <Input id="co-cost" type="number" step="0.01" value={costDelta} onChange={(e) => setCostDelta(e.target.value)} />
+              <p className="text-xs text-gray-500">Negative for a credit to the client</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="co-days">Schedule Change (working days)</Label>
+              <Input id="co-days" type="number" step="1" value={scheduleDeltaDays} onChange={(e) => setScheduleDeltaDays(e.target.value)} />
+              <p className="text-xs text-gray-500">Moves the selected activities and their dependents</p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Affected Activities</Label>
+            {schedulable.length === 0 ? (
+              <p className="text-sm text-gray-500">This project has no scheduled activities.</p>
+            ) : (
+              <div className="max-h-56 overflow-y-auto rounded-md border p-3 space-y-3">
+                {schedulable.map(phase => (
+                  <div key={phase._id}>
+                    <p className="text-xs font-medium uppercase tracking-wide text-gray-500 mb-1">{phase.name}</p>
+                    {phase.activities.map(activity => (
+                      <label key={activity._id} className="flex items-center gap-2 py-0.5 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={activityIds.includes(activity._id)}
+                          onChange={() => toggleActivity(activity._id)}
+                          className="h-4 w-4 rounded border-gray-300"
+                        />
+                        <span className={activity.status === 'completed' ? 'text-gray-400 line-through' : 'text-gray-700'}>
+                          {activity.title}
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="co-attachments">Attachments</Label>
+            {attachments.map(attachment => (
+              <div key={attachment.url} className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                <a href={attachment.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-blue-600 hover:underline">
+                  <Paperclip className="h-4 w-4" />
+                  {attachment.name}
+                </a>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setAttachments(current => current.filter(item => item.url !== attachment.url))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Input
+              id="co-attachments"
+              type="file"
+              multiple
+              accept="image/*,application/pdf"
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save Draft'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,85 @@
+// src/components/change-orders/PendingChangeOrders.tsx - Change orders waiting on the client, across their projects
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Check, FileDiff, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ChangeOrder } from '@/lib/types/change-order';
+import ChangeOrderCard from './ChangeOrderCard';
+import ChangeOrderDecisionDialog from './ChangeOrderDecisionDialog';
+
+interface PendingChangeOrdersProps {
+  signerName?: string;
+}
+
+export default function PendingChangeOrders({ signerName }: PendingChangeOrdersProps) {
+  const [orders, setOrders] = useState<ChangeOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [deciding, setDeciding] = useState<{ order: ChangeOrder | null; decision: 'approve' | 'reject' }>({ order: null, decision: 'approve' });
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const response = await fetch('/api/change-orders?status=pending_approval');
+      const data = await response.json();
+      if (response.ok && data.success) {
+        setOrders(data.data);
+      }
+    } catch (error) {
+      console.error('Error fetching pending change orders:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  // Nothing to ask the client for - keep the page as it was
+  if (loading || orders.length === 0) return null;
+
+  return (
+    <Card className="border-l-4 border-l-yellow-500">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center gap-2">
+            <FileDiff className="h-5 w-5" />
+            Change Orders Awaiting Your Approval
+          </span>
+          <Badge className="bg-yellow-100 text-yellow-800">{orders.length}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {orders.map(order => (
+          <ChangeOrderCard
+            key={order._id}
+            order={order}
+            showProject
+            actions={
+              <>
+                <Button size="sm" variant="outline" onClick={() => setDeciding({ order, decision: 'reject' })}>
+                  <X className="h-4 w-4 mr-1" />
+                  Reject
+                </Button>
+                <Button size="sm" onClick={() => setDeciding({ order, decision: 'approve' })}>
+                  <Check className="h-4 w-4 mr-1" />
+                  Approve
+                </Button>
+              </>
+            }
+          />
+        ))}
+      </CardContent>
+
+      <ChangeOrderDecisionDialog
+        order={deciding.order}
+        decision={deciding.decision}
+        defaultName={signerName}
+        onOpenChange={(open) => { if (!open) setDeciding(current => ({ ...current, order: null })); }}
+        onDecided={fetchOrders}
+      />
+    </Card>
+  );
+}
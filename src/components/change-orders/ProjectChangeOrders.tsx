@@ -0,0 +1,192 @@
+// src/components/change-orders/ProjectChangeOrders.tsx - Change orders tab on the project page
+// Managers draft and submit; the client approves or rejects submitted orders.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Check, Edit, FileDiff, Plus, Send, Trash2, X } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import { ChangeOrder } from '@/lib/types/change-order';
+import ChangeOrderCard from './ChangeOrderCard';
+import ChangeOrderDecisionDialog from './ChangeOrderDecisionDialog';
+import ChangeOrderFormDialog from './ChangeOrderFormDialog';
+
+interface ProjectChangeOrdersProps {
+  projectId: string;
+  editable?: boolean;
+  canDecide?: boolean;
+  signerName?: string;
+  // Approvals move the budget and the schedule
+  onApplied?: () => Promise<void> | void;
+}
+
+export default function ProjectChangeOrders({
+  projectId,
+  editable = false,
+  canDecide = false,
+  signerName,
+  onApplied
+}: ProjectChangeOrdersProps) {
+  const { toast } = useToast();
+  const [orders, setOrders] = useState<ChangeOrder[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formDialog, setFormDialog] = useState<{ open: boolean; order: ChangeOrder | null }>({ open: false, order: null });
+  const [deciding, setDeciding] = useState<{ order: ChangeOrder | null; decision: 'approve' | 'reject' }>({ order: null, decision: 'approve' });
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/change-orders`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load change orders');
+      }
+      setOrders(data.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching change orders:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load change orders');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const send = async (order: ChangeOrder, method: 'POST' | 'DELETE', path = '') => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/change-orders/${order._id}${path}`, { method });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast({ title: 'Success', description: data.message });
+      await fetchOrders();
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Request failed'
+      });
+    }
+  };
+
+  const submit = (order: ChangeOrder) => {
+    if (!confirm(`Send ${order.number} to the client for approval? It can no longer be edited afterwards.`)) return;
+    send(order, 'POST', '/submit');
+  };
+
+  const remove = (order: ChangeOrder) => {
+    if (!confirm(`Delete draft ${order.number}?`)) return;
+    send(order, 'DELETE');
+  };
+
+  const handleDecided = async (order: ChangeOrder) => {
+    await fetchOrders();
+    if (order.status === 'approved') await onApplied?.();
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-red-600">{error}</CardContent>
+      </Card>
+    );
+  }
+
+  const approvedTotal = orders
+    .filter(order => order.status === 'approved')
+    .reduce((total, order) => total + order.costDelta, 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold">Change Orders</h3>
+          <p className="text-xs sm:text-sm text-gray-500">
+            Approved changes: {approvedTotal >= 0 ? '+' : '−'}{formatCurrency(Math.abs(approvedTotal))} to the contract
+          </p>
+        </div>
+        {editable && (
+          <Button size="sm" onClick={() => setFormDialog({ open: true, order: null })}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Change Order
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading change orders...</p>
+      ) : orders.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <FileDiff className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+            <p className="text-sm text-gray-500">No change orders on this project.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {orders.map(order => (
+            <ChangeOrderCard
+              key={order._id}
+              order={order}
+              actions={
+                <>
+                  {editable && order.status === 'draft' && (
+                    <>
+                      <Button size="sm" variant="ghost" onClick={() => setFormDialog({ open: true, order })}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => remove(order)}>
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                      <Button size="sm" onClick={() => submit(order)}>
+                        <Send className="h-4 w-4 mr-1" />
+                        Send to Client
+                      </Button>
+                    </>
+                  )}
+                  {canDecide && order.status === 'pending_approval' && (
+                    <>
+                      <Button size="sm" variant="outline" onClick={() => setDeciding({ order, decision: 'reject' })}>
+                        <X className="h-4 w-4 mr-1" />
+                        Reject
+                      </Button>
+                      <Button size="sm" onClick={() => setDeciding({ order, decision: 'approve' })}>
+                        <Check className="h-4 w-4 mr-1" />
+                        Approve
+                      </Button>
+                    </>
+                  )}
+                </>
+              }
+            />
+          ))}
+        </div>
+      )}
+
+      {editable && (
+        <ChangeOrderFormDialog
+          projectId={projectId}
+          open={formDialog.open}
+          initial={formDialog.order}
+          onOpenChange={(open) => setFormDialog(current => ({ ...current, open }))}
+          onSaved={fetchOrders}
+        />
+      )}
+      {canDecide && (
+        <ChangeOrderDecisionDialog
+          order={deciding.order}
+          decision={deciding.decision}
+          defaultName={signerName}
+          onOpenChange={(open) => { if (!open) setDeciding(current => ({ ...current, order: null })); }}
+          onDecided={handleDecided}
+        />
+      )}
+    </div>
+  );
+}
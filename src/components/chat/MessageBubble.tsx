@@ -1,11 +1,13 @@
 // src/components/chat/MessageBubble.tsx - Fixed Message Component
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import { format } from 'date-fns';
-import { Download, Eye } from 'lucide-react';
+import { Download, Eye, Pencil, Trash2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import Image from 'next/image';
+import { isWithinEditWindow } from '@/lib/types/message';
 
 interface MessageAttachment {
   fileId: string;
@@ -29,15 +31,55 @@ interface Message {
   attachments: MessageAttachment[];
   sender: MessageSender;
   isRead: boolean;
+  readAt?: string;
+  editedAt?: string;
+  isDeleted?: boolean;
   createdAt: string;
 }
 
 interface MessageBubbleProps {
   message: Message;
   isOwnMessage: boolean;
+  // Offered on the user's own messages while they are still within the edit window
+  onEdit?: (messageId: string, content: string) => Promise<boolean>;
+  onDelete?: (messageId: string) => void;
 }
 
-export default function MessageBubble({ message, isOwnMessage }: MessageBubbleProps) {
+export default function MessageBubble({ message, isOwnMessage, onEdit, onDelete }: MessageBubbleProps) {
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState(message.content);
+  const [saving, setSaving] = useState(false);
+
+  const canChange = isOwnMessage && !message.isDeleted && isWithinEditWindow(message.createdAt);
+
+  const startEditing = () => {
+    setDraft(message.content);
+    setEditing(true);
+  };
+
+  const saveEdit = async () => {
+    const content = draft.trim();
+    if (!onEdit || !content || saving) return;
+    if (content === message.content) {
+      setEditing(false);
+      return;
+    }
+
+    setSaving(true);
+    const saved = await onEdit(message._id, content);
+    setSaving(false);
+    if (saved) setEditing(false);
+  };
+
+  const handleEditKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault();
+      saveEdit();
+    } else if (event.key === 'Escape') {
+      setEditing(false);
+    }
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return '0 Bytes';
     const k = 1024;
@@ -61,7 +103,7 @@ export default function MessageBubble({ message, isOwnMessage }: MessageBubblePr
   };
 
   const renderAttachments = () => {
-    if (message.attachments.length === 0) return null;
+    if (message.isDeleted || message.attachments.length === 0) return null;
 
     return (
       <div className="mt-2 space-y-2">
@@ -118,11 +160,28 @@ export default function MessageBubble({ message, isOwnMessage }: MessageBubblePr
   };
 
   return (
-    <div className={`flex ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
+    <div className={`group flex items-center gap-1 ${isOwnMessage ? 'justify-end' : 'justify-start'}`}>
+      {canChange && !editing && (onEdit || onDelete) && (
+        <div className="flex opacity-0 transition-opacity group-hover:opacity-100">
+          {onEdit && (
+            <Button size="sm" variant="ghost" onClick={startEditing} className="h-7 w-7 p-0" title="Edit message">
+              <Pencil className="h-3 w-3" />
+            </Button>
+          )}
+          {onDelete && (
+            <Button size="sm" variant="ghost" onClick={() => onDelete(message._id)} className="h-7 w-7 p-0" title="Delete message">
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+      )}
+
       <div className={`max-w-xs lg:max-w-md px-4 py-2 rounded-lg ${
-        isOwnMessage 
-          ? 'bg-blue-500 text-white' 
-          : 'bg-gray-100 text-gray-900'
+        message.isDeleted
+          ? 'bg-gray-50 text-gray-500 border border-dashed'
+          : isOwnMessage 
+            ? 'bg-blue-500 text-white' 
+            : 'bg-gray-100 text-gray-900'
       }`}>
         {!isOwnMessage && (
           <p className="text-xs font-medium mb-1 opacity-75">
@@ -130,20 +189,47 @@ export default function MessageBubble({ message, isOwnMessage }: MessageBubblePr
           </p>
         )}
         
-        {message.content && (
+        {message.isDeleted ? (
+          <p className="text-sm italic">Message deleted</p>
+        ) : editing ? (
+          <div className="space-y-2">
+            <Input
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              onKeyDown={handleEditKeyDown}
+              disabled={saving}
+              autoFocus
+              className="text-gray-900"
+            />
+            <div className="flex justify-end gap-1">
+              <Button size="sm" variant="ghost" onClick={() => setEditing(false)} disabled={saving} className="h-7 text-xs">
+                Cancel
+              </Button>
+              <Button size="sm" variant="secondary" onClick={saveEdit} disabled={!draft.trim() || saving} className="h-7 text-xs">
+                {saving ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        ) : message.content && (
           <p className="text-sm whitespace-pre-wrap">{message.content}</p>
         )}
         
         {renderAttachments()}
         
-        <div className={`flex items-center justify-between mt-1 ${
-          isOwnMessage ? 'text-blue-100' : 'text-gray-500'
+        <div className={`flex items-center justify-between gap-2 mt-1 ${
+          message.isDeleted ? 'text-gray-400' : isOwnMessage ? 'text-blue-100' : 'text-gray-500'
         }`}>
           <span className="text-xs">
             {format(new Date(message.createdAt), 'HH:mm')}
+            {message.editedAt && !message.isDeleted && ' · edited'}
           </span>
-          {isOwnMessage && (
-            <span className="text-xs">
+          {isOwnMessage && !message.isDeleted && (
+            <span
+              className="text-xs"
+              title={message.isRead
+                ? `Seen${message.readAt ? ` at ${format(new Date(message.readAt), 'HH:mm')}` : ''}`
+                : 'Delivered'}
+            >
               {message.isRead ? '✓✓' : '✓'}
             </span>
           )}
@@ -152,4 +238,3 @@ export default function MessageBubble({ message, isOwnMessage }: MessageBubblePr
     </div>
   );
 }
-
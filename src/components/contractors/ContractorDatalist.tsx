@@ -0,0 +1,39 @@
+// src/components/contractors/ContractorDatalist.tsx - Directory suggestions for name inputs
+// Rendered once per form; inputs opt in with list={CONTRACTOR_DATALIST_ID}. The
+// field stays free text: the server links the name to the directory when it matches.
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Contractor, ContractorKind } from '@/lib/types/contractor';
+
+export const CONTRACTOR_DATALIST_ID = 'contractor-directory';
+export const SUPPLIER_DATALIST_ID = 'supplier-directory';
+
+interface ContractorDatalistProps {
+  kind?: ContractorKind;
+}
+
+export default function ContractorDatalist({ kind = 'contractor' }: ContractorDatalistProps) {
+  const [entries, setEntries] = useState<Contractor[]>([]);
+
+  useEffect(() => {
+    // Contractor fields also accept suppliers that do their own installation
+    const query = kind === 'supplier' ? '?active=true&kind=supplier' : '?active=true';
+    fetch(`/api/contractors${query}`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setEntries(data.data);
+      })
+      .catch(err => console.error('Error fetching contractor directory:', err));
+  }, [kind]);
+
+  return (
+    <datalist id={kind === 'supplier' ? SUPPLIER_DATALIST_ID : CONTRACTOR_DATALIST_ID}>
+      {entries.map(entry => (
+        <option key={entry._id} value={entry.name}>
+          {[entry.trade, entry.company].filter(Boolean).join(' · ')}
+        </option>
+      ))}
+    </datalist>
+  );
+}
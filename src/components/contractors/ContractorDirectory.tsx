@@ -0,0 +1,149 @@
+// src/components/contractors/ContractorDirectory.tsx - Contractor and supplier directory list
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { HardHat, Mail, Phone, Plus, Search } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import { CONTRACTOR_KIND_LABELS, Contractor, ContractorKind } from '@/lib/types/contractor';
+import ContractorFormDialog from './ContractorFormDialog';
+
+interface ContractorDirectoryProps {
+  roleBase: '/admin' | '/manager';
+}
+
+export default function ContractorDirectory({ roleBase }: ContractorDirectoryProps) {
+  const { toast } = useToast();
+  const [contractors, setContractors] = useState<Contractor[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [kind, setKind] = useState<ContractorKind | 'all'>('all');
+  const [search, setSearch] = useState('');
+  const [formOpen, setFormOpen] = useState(false);
+
+  const fetchContractors = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (kind !== 'all') params.set('kind', kind);
+      if (search.trim()) params.set('search', search.trim());
+      const response = await fetch(`/api/contractors?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load the directory');
+      }
+      setContractors(data.data);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load the directory'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [kind, search, toast]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchContractors, 300);
+    return () => clearTimeout(timer);
+  }, [fetchContractors]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Contractors & Suppliers</h1>
+          <p className="text-gray-600">Everyone who works on or supplies our sites, with their track record</p>
+        </div>
+        <Button onClick={() => setFormOpen(true)}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add Entry
+        </Button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search by name, trade or company"
+            className="pl-9"
+          />
+        </div>
+        <div className="flex gap-2">
+          {(['all', 'contractor', 'supplier'] as const).map(option => (
+            <Button
+              key={option}
+              size="sm"
+              variant={kind === option ? 'default' : 'outline'}
+              onClick={() => setKind(option)}
+            >
+              {option === 'all' ? 'All' : `${CONTRACTOR_KIND_LABELS[option]}s`}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading directory...</p>
+      ) : contractors.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            <HardHat className="h-10 w-10 mx-auto mb-3 text-gray-400" />
+            {search || kind !== 'all' ? 'No entries match your search.' : 'The directory is empty. Add your first contractor or supplier.'}
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+          {contractors.map(contractor => (
+            <Link key={contractor._id} href={`${roleBase}/contractors/${contractor._id}`}>
+              <Card className={`h-full hover:shadow-md transition-shadow ${contractor.isActive ? '' : 'opacity-60'}`}>
+                <CardContent className="p-4 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-semibold text-gray-900 truncate">{contractor.name}</p>
+                      {(contractor.trade || contractor.company) && (
+                        <p className="text-sm text-gray-600 truncate">
+                          {[contractor.trade, contractor.company].filter(Boolean).join(' · ')}
+                        </p>
+                      )}
+                    </div>
+                    <div className="flex shrink-0 gap-1">
+                      <Badge variant="outline">{CONTRACTOR_KIND_LABELS[contractor.kind]}</Badge>
+                      {!contractor.isActive && <Badge className="bg-gray-100 text-gray-700">Inactive</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                    {contractor.phone && (
+                      <span className="flex items-center gap-1">
+                        <Phone className="h-3 w-3" />
+                        {contractor.phone}
+                      </span>
+                    )}
+                    {contractor.email && (
+                      <span className="flex items-center gap-1">
+                        <Mail className="h-3 w-3" />
+                        {contractor.email}
+                      </span>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
+            </Link>
+          ))}
+        </div>
+      )}
+
+      <ContractorFormDialog
+        open={formOpen}
+        initial={null}
+        onOpenChange={setFormOpen}
+        onSaved={fetchContractors}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,298 @@
+// src/components/contractors/ContractorFormDialog.tsx - Add or edit a directory entry
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Paperclip, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  CONTRACTOR_KIND_LABELS,
+  Contractor,
+  ContractorFile,
+  ContractorKind
+} from '@/lib/types/contractor';
+
+interface RateRow {
+  description: string;
+  amount: string;
+  unit: string;
+}
+
+interface ContractorFormDialogProps {
+  open: boolean;
+  initial: Contractor | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => Promise<void>;
+}
+
+const emptyRate = (): RateRow => ({ description: '', amount: '', unit: '' });
+
+export default function ContractorFormDialog({ open, initial, onOpenChange, onSaved }: ContractorFormDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<ContractorKind>('contractor');
+  const [trade, setTrade] = useState('');
+  const [company, setCompany] = useState('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [rates, setRates] = useState<RateRow[]>([]);
+  const [documents, setDocuments] = useState<ContractorFile[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [aliases, setAliases] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isActive, setIsActive] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(initial?.name || '');
+    setKind(initial?.kind || 'contractor');
+    setTrade(initial?.trade || '');
+    setCompany(initial?.company || '');
+    setPhone(initial?.phone || '');
+    setEmail(initial?.email || '');
+    setRates(initial?.rates.map(rate => ({
+      description: rate.description,
+      amount: String(rate.amount),
+      unit: rate.unit || ''
+    })) || []);
+    setDocuments(initial?.documents || []);
+    setFiles([]);
+    setAliases(initial?.aliases.join(', ') || '');
+    setNotes(initial?.notes || '');
+    setIsActive(initial?.isActive ?? true);
+  }, [open, initial]);
+
+  const updateRate = (index: number, field: keyof RateRow, value: string) => {
+    setRates(current => current.map((rate, i) => i === index ? { ...rate, [field]: value } : rate));
+  };
+
+  const uploadDocument = async (file: File): Promise<ContractorFile> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('folder', 'contractors');
+    const response = await fetch('/api/upload', { method: 'POST', body: formData });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Upload of ${file.name} failed`);
+    }
+    return { url: data.url as string, key: data.key as string, name: file.name };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const uploaded = await Promise.all(files.map(uploadDocument));
+      const response = await fetch(initial ? `/api/contractors/${initial._id}` : '/api/contractors', {
+        method: initial ? 'PATCH' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name,
+          kind,
+          trade,
+          company,
+          phone,
+          email,
+          rates: rates.map(rate => ({ ...rate, amount: Number(rate.amount || 0) })),
+          documents: [...documents, ...uploaded],
+          aliases: aliases.split(','),
+          notes,
+          isActive
+        })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast({ title: 'Success', description: data.message });
+      onOpenChange(false);
+      await onSaved();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save directory entry'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initial ? `Edit ${initial.name}` : 'Add to Directory'}</DialogTitle>
+          <DialogDescription>
+            Activities and daily logs that use this name, or one of its other spellings, are linked to this entry.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ct-name">Name *</Label>
+              <Input id="ct-name" value={name} onChange={(e) => setName(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as ContractorKind)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(CONTRACTOR_KIND_LABELS) as ContractorKind[]).map(option => (
+                    <SelectItem key={option} value={option}>{CONTRACTOR_KIND_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ct-trade">Trade</Label>
+              <Input
+                id="ct-trade"
+                value={trade}
+                onChange={(e) => setTrade(e.target.value)}
+                placeholder={kind === 'supplier' ? 'e.g. Lighting, Tiles' : 'e.g. Electrician, Tiler'}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ct-company">Company</Label>
+              <Input id="ct-company" value={company} onChange={(e) => setCompany(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="ct-phone">Phone</Label>
+              <Input id="ct-phone" type="tel" value={phone} onChange={(e) => setPhone(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ct-email">Email</Label>
+              <Input id="ct-email" type="email" value={email} onChange={(e) => setEmail(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Rates</Label>
+              <Button type="button" variant="ghost" size="sm" onClick={() => setRates(current => [...current, emptyRate()])}>
+                <Plus className="h-4 w-4 mr-1" />
+                Add Rate
+              </Button>
+            </div>
+            {rates.map((rate, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2">
+                <Input
+                  className="col-span-6"
+                  value={rate.description}
+                  onChange={(e) => updateRate(index, 'description', e.target.value)}
+                  placeholder="Day rate, Tiling..."
+                />
+                <Input
+                  className="col-span-3"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={rate.amount}
+                  onChange={(e) => updateRate(index, 'amount', e.target.value)}
+                  placeholder="₦"
+                />
+                <Input
+                  className="col-span-2"
+                  value={rate.unit}
+                  onChange={(e) => updateRate(index, 'unit', e.target.value)}
+                  placeholder="day, m²"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="col-span-1"
+                  onClick={() => setRates(current => current.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4 text-red-500" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ct-documents">Documents</Label>
+            {documents.map(document => (
+              <div key={document.url} className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                <a href={document.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-blue-600 hover:underline">
+                  <Paperclip className="h-4 w-4" />
+                  {document.name}
+                </a>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setDocuments(current => current.filter(item => item.url !== document.url))}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Input
+              id="ct-documents"
+              type="file"
+              multiple
+              accept="image/*,application/pdf"
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+            />
+            <p className="text-xs text-gray-500">Insurance, certifications, contracts...</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ct-aliases">Other Spellings</Label>
+            <Input
+              id="ct-aliases"
+              value={aliases}
+              onChange={(e) => setAliases(e.target.value)}
+              placeholder="Comma separated, e.g. Benn, B. Okafor"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="ct-notes">Notes</Label>
+            <Textarea id="ct-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Switch id="ct-active" checked={isActive} onCheckedChange={setIsActive} />
+            <Label htmlFor="ct-active">Active (suggested on activity forms)</Label>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,325 @@
+// src/components/contractors/ContractorProfile.tsx - A contractor or supplier and their track record
+// Everything the entry is linked to across projects: activities with their
+// on-time record, delays logged on site, incidents and supplied items.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { AlertTriangle, ArrowLeft, Edit, Mail, Paperclip, Phone, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import { INCIDENT_SEVERITY_COLORS } from '@/lib/types/incident';
+import { PROCUREMENT_STATUS_LABELS, ProcurementStatus } from '@/lib/types/procurement';
+import { CONTRACTOR_KIND_LABELS, Contractor, ContractorPerformance } from '@/lib/types/contractor';
+import ContractorFormDialog from './ContractorFormDialog';
+
+interface ContractorProfileProps {
+  contractorId: string;
+  roleBase: '/admin' | '/manager';
+  canDelete?: boolean;
+}
+
+const formatDay = (value: string) => format(new Date(value), 'MMM d, yyyy');
+const statusLabel = (status: string) => status.replace(/[_-]/g, ' ').replace(/^\w/, letter => letter.toUpperCase());
+
+function OnTimeBadge({ onTime }: { onTime?: boolean }) {
+  if (onTime === undefined) return null;
+  return onTime
+    ? <Badge className="bg-green-100 text-green-800">On time</Badge>
+    : <Badge className="bg-red-100 text-red-800">Late</Badge>;
+}
+
+export default function ContractorProfile({ contractorId, roleBase, canDelete = false }: ContractorProfileProps) {
+  const { toast } = useToast();
+  const router = useRouter();
+  const [contractor, setContractor] = useState<Contractor | null>(null);
+  const [performance, setPerformance] = useState<ContractorPerformance | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+
+  const fetchContractor = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/contractors/${contractorId}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load contractor');
+      }
+      setContractor(data.data.contractor);
+      setPerformance(data.data.performance);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching contractor:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load contractor');
+    }
+  }, [contractorId]);
+
+  useEffect(() => {
+    fetchContractor();
+  }, [fetchContractor]);
+
+  const handleDelete = async () => {
+    if (!contractor) return;
+    if (!confirm(`Delete ${contractor.name}? Linked activities keep the name but lose the link.`)) return;
+    try {
+      const response = await fetch(`/api/contractors/${contractorId}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to delete');
+      }
+      toast({ title: 'Success', description: data.message });
+      router.push(`${roleBase}/contractors`);
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to delete'
+      });
+    }
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-red-600">{error}</CardContent>
+      </Card>
+    );
+  }
+
+  if (!contractor || !performance) {
+    return <p className="text-sm text-gray-500">Loading...</p>;
+  }
+
+  const projectLink = (projectId: string, title: string) => (
+    <Link href={`${roleBase}/projects/${projectId}`} className="text-blue-600 hover:underline">{title}</Link>
+  );
+
+  return (
+    <div className="space-y-6">
+      <Link href={`${roleBase}/contractors`} className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="h-4 w-4 mr-1" />
+        Directory
+      </Link>
+
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div>
+          <div className="flex flex-wrap items-center gap-2">
+            <h1 className="text-2xl font-bold text-gray-900">{contractor.name}</h1>
+            <Badge variant="outline">{CONTRACTOR_KIND_LABELS[contractor.kind]}</Badge>
+            {!contractor.isActive && <Badge className="bg-gray-100 text-gray-700">Inactive</Badge>}
+          </div>
+          {(contractor.trade || contractor.company) && (
+            <p className="text-gray-600">{[contractor.trade, contractor.company].filter(Boolean).join(' · ')}</p>
+          )}
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-1 text-sm text-gray-600">
+            {contractor.phone && (
+              <a href={`tel:${contractor.phone}`} className="flex items-center gap-1 hover:underline">
+                <Phone className="h-4 w-4" />
+                {contractor.phone}
+              </a>
+            )}
+            {contractor.email && (
+              <a href={`mailto:${contractor.email}`} className="flex items-center gap-1 hover:underline">
+                <Mail className="h-4 w-4" />
+                {contractor.email}
+              </a>
+            )}
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setFormOpen(true)}>
+            <Edit className="h-4 w-4 mr-2" />
+            Edit
+          </Button>
+          {canDelete && (
+            <Button variant="outline" onClick={handleDelete}>
+              <Trash2 className="h-4 w-4 text-red-500" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600">On-time Completion</p>
+            <p className="text-2xl font-bold">{performance.onTimeRate === null ? '—' : `${performance.onTimeRate}%`}</p>
+            <p className="text-xs text-gray-500">
+              {performance.completedOnTime} of {performance.completed} completed
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600">Days Delayed</p>
+            <p className="text-2xl font-bold text-amber-600">{performance.delayedDays}</p>
+            <p className="text-xs text-gray-500">{performance.onHoldDays} on hold</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600">Incidents</p>
+            <p className="text-2xl font-bold text-red-600">{performance.incidents.length}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-600">Projects</p>
+            <p className="text-2xl font-bold">{performance.projects}</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {(contractor.rates.length > 0 || contractor.documents.length > 0 || contractor.notes || contractor.aliases.length > 0) && (
+        <Card>
+          <CardContent className="p-4 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            {contractor.rates.length > 0 && (
+              <div>
+                <p className="font-medium text-gray-700 mb-1">Rates</p>
+                {contractor.rates.map((rate, index) => (
+                  <p key={index} className="text-gray-600">
+                    {rate.description}: {formatCurrency(rate.amount)}{rate.unit && ` / ${rate.unit}`}
+                  </p>
+                ))}
+              </div>
+            )}
+            {contractor.documents.length > 0 && (
+              <div>
+                <p className="font-medium text-gray-700 mb-1">Documents</p>
+                {contractor.documents.map(document => (
+                  <a
+                    key={document.url}
+                    href={document.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-blue-600 hover:underline"
+                  >
+                    <Paperclip className="h-3 w-3" />
+                    {document.name}
+                  </a>
+                ))}
+              </div>
+            )}
+            {contractor.aliases.length > 0 && (
+              <div>
+                <p className="font-medium text-gray-700 mb-1">Also Written As</p>
+                <p className="text-gray-600">{contractor.aliases.join(', ')}</p>
+              </div>
+            )}
+            {contractor.notes && (
+              <div>
+                <p className="font-medium text-gray-700 mb-1">Notes</p>
+                <p className="text-gray-600 whitespace-pre-wrap">{contractor.notes}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Activities</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {performance.activities.length === 0 ? (
+            <p className="text-sm text-gray-500">No activities are linked to this entry yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {performance.activities.map(activity => (
+                <div key={`${activity.role}-${activity.activityId}`} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 border-b border-gray-100 pb-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">{activity.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {projectLink(activity.projectId, activity.projectTitle)}
+                      {activity.role === 'supervisor' && ' · Supervisor'}
+                      {activity.plannedEnd && ` · Due ${formatDay(activity.plannedEnd)}`}
+                      {activity.actualEnd && ` · Finished ${formatDay(activity.actualEnd)}`}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Badge variant="outline">{statusLabel(activity.status)}</Badge>
+                    <OnTimeBadge onTime={activity.onTime} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg">Incidents</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {performance.incidents.length === 0 ? (
+            <p className="text-sm text-gray-500">No incidents recorded.</p>
+          ) : (
+            <div className="space-y-2">
+              {performance.incidents.map((incident, index) => (
+                <div key={incident.incidentId || index} className="flex items-start gap-2 border-b border-gray-100 pb-2 text-sm">
+                  <AlertTriangle className="h-4 w-4 mt-0.5 text-red-500 shrink-0" />
+                  <div className="min-w-0 flex-1">
+                    <p className="text-gray-900">
+                      {incident.code && <span className="font-medium">{incident.code} · </span>}
+                      {incident.title}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {projectLink(incident.projectId, incident.projectTitle)}
+                      {` · ${formatDay(incident.date)}`}
+                      {incident.source === 'site_log' && ' · Noted on the daily log'}
+                    </p>
+                  </div>
+                  {incident.severity && (
+                    <Badge className={INCIDENT_SEVERITY_COLORS[incident.severity]}>{statusLabel(incident.severity)}</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {performance.supplies.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Supplied Items</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {performance.supplies.map(item => (
+                <div key={item.itemId} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 border-b border-gray-100 pb-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">{item.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {projectLink(item.projectId, item.projectTitle)}
+                      {item.expectedDelivery && ` · Expected ${formatDay(item.expectedDelivery)}`}
+                      {item.actualDelivery && ` · Delivered ${formatDay(item.actualDelivery)}`}
+                    </p>
+                  </div>
+                  <div className="flex shrink-0 gap-1">
+                    <Badge variant="outline">
+                      {PROCUREMENT_STATUS_LABELS[item.status as ProcurementStatus] || statusLabel(item.status)}
+                    </Badge>
+                    <OnTimeBadge onTime={item.onTime} />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <ContractorFormDialog
+        open={formOpen}
+        initial={contractor}
+        onOpenChange={setFormOpen}
+        onSaved={fetchContractor}
+      />
+    </div>
+  );
+}
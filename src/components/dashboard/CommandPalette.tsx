@@ -0,0 +1,270 @@
+// src/components/dashboard/CommandPalette.tsx - Global search and navigation palette (⌘K)
+'use client';
+
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  AlertTriangle,
+  ClipboardList,
+  CornerDownLeft,
+  FileText,
+  FolderOpen,
+  ListChecks,
+  Loader2,
+  MessageSquare,
+  Search,
+  ShieldAlert,
+} from 'lucide-react';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import type { SearchResultGroup, SearchResultType } from '@/lib/search';
+
+type IconComponent = React.ComponentType<{ className?: string; style?: React.CSSProperties }>;
+
+export interface PaletteCommand {
+  name: string;
+  href: string;
+  icon: IconComponent;
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  commands: PaletteCommand[];
+}
+
+interface PaletteItem {
+  key: string;
+  index: number;
+  title: string;
+  subtitle?: string;
+  href: string;
+  icon: IconComponent;
+}
+
+interface PaletteSection {
+  label: string;
+  items: PaletteItem[];
+}
+
+const RESULT_ICONS: Record<SearchResultType, IconComponent> = {
+  project: FolderOpen,
+  activity: ListChecks,
+  daily_report: ClipboardList,
+  message: MessageSquare,
+  file: FileText,
+  incident: AlertTriangle,
+  risk: ShieldAlert
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+export default function CommandPalette({ open, onOpenChange, commands }: CommandPaletteProps) {
+  const router = useRouter();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState('');
+  const [groups, setGroups] = useState<SearchResultGroup[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    if (!open) {
+      setQuery('');
+      setGroups([]);
+      setError(null);
+      setActiveIndex(0);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < MIN_QUERY_LENGTH) {
+      setGroups([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/search?q=${encodeURIComponent(trimmed)}`, {
+          signal: controller.signal
+        });
+        const data = await response.json();
+        if (!response.ok || !data.success) {
+          throw new Error(data.error || 'Search failed');
+        }
+        setGroups(data.data.groups);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Error searching:', err);
+        setGroups([]);
+        setError(err instanceof Error ? err.message : 'Search failed');
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const sections = useMemo<PaletteSection[]>(() => {
+    const needle = query.trim().toLowerCase();
+    const matchingCommands = commands.filter(command =>
+      !needle || command.name.toLowerCase().includes(needle)
+    );
+
+    const result: PaletteSection[] = [];
+    if (matchingCommands.length > 0) {
+      result.push({
+        label: 'Go to',
+        items: matchingCommands.map(command => ({
+          key: `command:${command.href}`,
+          index: 0,
+          title: command.name,
+          href: command.href,
+          icon: command.icon
+        }))
+      });
+    }
+
+    for (const group of groups) {
+      result.push({
+        label: group.label,
+        items: group.results.map(item => ({
+          key: `${item.type}:${item.id}`,
+          index: 0,
+          title: item.title,
+          subtitle: [item.projectTitle, item.snippet].filter(Boolean).join(' · ') || undefined,
+          href: item.href,
+          icon: RESULT_ICONS[item.type]
+        }))
+      });
+    }
+
+    // Keyboard navigation runs over one flat list spanning every section
+    let index = 0;
+    for (const section of result) {
+      for (const item of section.items) item.index = index++;
+    }
+    return result;
+  }, [commands, groups, query]);
+
+  const flatItems = useMemo(() => sections.flatMap(section => section.items), [sections]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [flatItems.length, query]);
+
+  useEffect(() => {
+    const active = listRef.current?.querySelector<HTMLElement>(`[data-index="${activeIndex}"]`);
+    active?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const select = (item: PaletteItem) => {
+    onOpenChange(false);
+    router.push(item.href);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (flatItems.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(index => (index + 1) % flatItems.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(index => (index - 1 + flatItems.length) % flatItems.length);
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const item = flatItems[activeIndex];
+      if (item) select(item);
+    }
+  };
+
+  const trimmedLength = query.trim().length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="max-w-xl p-0 gap-0 overflow-hidden top-[15%] translate-y-0 data-[state=open]:slide-in-from-top-[10%] data-[state=closed]:slide-out-to-top-[10%]"
+        onOpenAutoFocus={(e) => {
+          e.preventDefault();
+          inputRef.current?.focus();
+        }}
+      >
+        <DialogTitle className="sr-only">Search</DialogTitle>
+        <div className="flex items-center gap-2 px-4 pr-12" style={{ borderBottom: '1px solid #F0F0F0' }}>
+          <Search className="h-4 w-4 text-gray-400 shrink-0" />
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search projects, activities, messages, files..."
+            className="w-full py-3.5 text-[14px] outline-none bg-transparent text-gray-900"
+            aria-label="Search"
+          />
+          {loading && <Loader2 className="h-4 w-4 text-gray-400 animate-spin shrink-0" />}
+        </div>
+
+        <div ref={listRef} className="max-h-[60vh] overflow-y-auto py-2">
+          {sections.map(section => (
+            <div key={section.label} className="px-2 pb-1">
+              <p className="px-2 pt-2 pb-1 text-[11px] font-semibold uppercase tracking-wide text-gray-400">
+                {section.label}
+              </p>
+              {section.items.map(item => {
+                const isActive = item.index === activeIndex;
+                return (
+                  <button
+                    key={item.key}
+                    type="button"
+                    data-index={item.index}
+                    onMouseMove={() => setActiveIndex(item.index)}
+                    onClick={() => select(item)}
+                    className={`w-full flex items-center gap-3 rounded-lg px-2 py-2 text-left transition-colors ${isActive ? 'bg-gray-100' : ''}`}
+                  >
+                    <item.icon className="h-4 w-4 shrink-0 text-gray-500" />
+                    <div className="min-w-0 flex-1">
+                      <p className="text-[13px] font-medium text-gray-900 truncate">{item.title}</p>
+                      {item.subtitle && (
+                        <p className="text-[12px] text-gray-500 truncate">{item.subtitle}</p>
+                      )}
+                    </div>
+                    {isActive && <CornerDownLeft className="h-3.5 w-3.5 shrink-0 text-gray-400" />}
+                  </button>
+                );
+              })}
+            </div>
+          ))}
+
+          {error && (
+            <p className="px-4 py-6 text-center text-[13px] text-red-600">{error}</p>
+          )}
+          {!error && !loading && trimmedLength >= MIN_QUERY_LENGTH && flatItems.length === 0 && (
+            <p className="px-4 py-6 text-center text-[13px] text-gray-500">
+              No results for &ldquo;{query.trim()}&rdquo;
+            </p>
+          )}
+          {!error && trimmedLength > 0 && trimmedLength < MIN_QUERY_LENGTH && flatItems.length === 0 && (
+            <p className="px-4 py-6 text-center text-[13px] text-gray-500">Keep typing to search</p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-4 px-4 py-2 text-[11px] text-gray-400" style={{ borderTop: '1px solid #F0F0F0' }}>
+          <span>↑↓ to navigate</span>
+          <span>↵ to open</span>
+          <span>esc to close</span>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
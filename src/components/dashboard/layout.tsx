@@ -7,6 +7,7 @@ import { usePathname, useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { useSocket } from '@/contexts/SocketContext';
 import { NotificationBell } from '@/components/notifications/NotificationSystem';
+import CommandPalette from '@/components/dashboard/CommandPalette';
 import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Plus_Jakarta_Sans } from 'next/font/google';
@@ -26,6 +27,10 @@ import {
   Calendar,
   Users,
   BarChart,
+  History,
+  Timer,
+  LayoutTemplate,
+  HardHat,
   Settings,
   LogOut,
   Wifi,
@@ -62,6 +67,7 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [messageStats, setMessageStats] = useState<MessageStats>({ unreadCount: 0 });
   const [showMoreMenu, setShowMoreMenu] = useState(false);
+  const [isPaletteOpen, setIsPaletteOpen] = useState(false);
 
   const userRole = session?.user?.role || '';
   const userName = session?.user?.name || '';
@@ -106,6 +112,17 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
 
   useEffect(() => { loadMessageStats(); }, [loadMessageStats]);
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.metaKey || e.ctrlKey) && e.key.toLowerCase() === 'k') {
+        e.preventDefault();
+        setIsPaletteOpen(open => !open);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const getNavItems = (): NavItem[] => {
     const baseRoute = userRole === 'super_admin' ? '/admin'
       : userRole === 'project_manager' ? '/manager' : '/client';
@@ -119,10 +136,19 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
       { name: 'Calendar', href: `${baseRoute}/calendar`, icon: Calendar, roles: ['super_admin', 'project_manager', 'client'] },
     ];
 
+    if (userRole === 'super_admin' || userRole === 'project_manager') {
+      commonRoutes.push(
+        { name: 'Contractors', href: `${baseRoute}/contractors`, icon: HardHat, roles: ['super_admin', 'project_manager'] }
+      );
+    }
+
     if (userRole === 'super_admin') {
       commonRoutes.push(
         { name: 'Users', href: '/admin/users', icon: Users, roles: ['super_admin'] },
-        { name: 'Analytics', href: '/admin/analytics', icon: BarChart, roles: ['super_admin'] }
+        { name: 'Templates', href: '/admin/templates', icon: LayoutTemplate, roles: ['super_admin'] },
+        { name: 'Analytics', href: '/admin/analytics', icon: BarChart, roles: ['super_admin'] },
+        { name: 'Audit Log', href: '/admin/audit', icon: History, roles: ['super_admin'] },
+        { name: 'Scheduled Jobs', href: '/admin/jobs', icon: Timer, roles: ['super_admin'] }
       );
     }
 
@@ -167,8 +193,8 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
     else root.classList.remove('mobile-more-open');
   }, [showMoreMenu]);
 
-  const workspaceItems = navItems.filter(item => !['Users', 'Analytics'].includes(item.name));
-  const adminItems = navItems.filter(item => ['Users', 'Analytics'].includes(item.name));
+  const workspaceItems = navItems.filter(item => !['Users', 'Analytics', 'Audit Log', 'Scheduled Jobs'].includes(item.name));
+  const adminItems = navItems.filter(item => ['Users', 'Analytics', 'Audit Log', 'Scheduled Jobs'].includes(item.name));
 
   const renderNavItem = (item: NavItem) => {
     const isActive = pathname === item.href || (item.href.includes('/', 1) && pathname.startsWith(item.href + '/'));
@@ -323,34 +349,20 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
                   <p className="text-[13px] font-bold text-gray-900">OliveHaus</p>
                 </div>
 
-                {/* Desktop search — Equa style pill */}
+                {/* Desktop search — Equa style pill, opens the command palette */}
                 <div className="hidden lg:flex items-center w-full max-w-md">
-                  <div className="relative w-full">
+                  <button
+                    type="button"
+                    onClick={() => setIsPaletteOpen(true)}
+                    className="relative w-full rounded-full pl-9 pr-16 py-2.5 text-left text-[13px] text-gray-400 transition-colors hover:bg-gray-100"
+                    style={{ background: '#F5F5F5', border: '1.5px solid transparent' }}
+                  >
                     <Search className="absolute left-3.5 top-1/2 -translate-y-1/2 h-[14px] w-[14px] text-gray-400" />
-                    <input
-                      type="search"
-                      placeholder="Search or type a command"
-                      className="w-full rounded-full pl-9 pr-16 py-2.5 text-[13px] outline-none transition-all"
-                      style={{
-                        background: '#F5F5F5',
-                        border: '1.5px solid transparent',
-                        color: '#111',
-                      }}
-                      onFocus={e => {
-                        e.currentTarget.style.background = '#fff';
-                        e.currentTarget.style.border = '1.5px solid #E5E7EB';
-                        e.currentTarget.style.boxShadow = '0 0 0 3px rgba(107,124,59,0.08)';
-                      }}
-                      onBlur={e => {
-                        e.currentTarget.style.background = '#F5F5F5';
-                        e.currentTarget.style.border = '1.5px solid transparent';
-                        e.currentTarget.style.boxShadow = '';
-                      }}
-                    />
+                    Search or type a command
                     <span className="absolute right-3.5 top-1/2 -translate-y-1/2 text-[11px] font-medium text-gray-400 bg-gray-200 rounded px-1.5 py-0.5">
-                      ⌘F
+                      ⌘K
                     </span>
-                  </div>
+                  </button>
                 </div>
               </div>
 
@@ -366,6 +378,15 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
                   </Link>
                 )}
 
+                <button
+                  type="button"
+                  onClick={() => setIsPaletteOpen(true)}
+                  className="lg:hidden p-2 rounded-full transition-colors hover:bg-gray-100"
+                  aria-label="Search"
+                >
+                  <Search className="h-[18px] w-[18px] text-gray-600" />
+                </button>
+
                 <NotificationBell />
 
                 {/* Avatar pill */}
@@ -407,6 +428,16 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
           </div>
         </header>
 
+        <CommandPalette
+          open={isPaletteOpen}
+          onOpenChange={setIsPaletteOpen}
+          commands={[
+            ...navItems.map(({ name, href, icon }) => ({ name, href, icon })),
+            ...(userRole !== 'client' ? [{ name: 'New Project', href: getNewProjectRoute(), icon: Plus }] : []),
+            { name: 'Settings', href: getSettingsRoute(), icon: Settings },
+          ]}
+        />
+
         {/* Main content */}
         <main className="flex-1 overflow-auto pb-20 lg:pb-6">
           <div className="mx-auto w-full max-w-7xl px-4 lg:px-6 py-6">
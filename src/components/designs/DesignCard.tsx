@@ -0,0 +1,213 @@
+// src/components/designs/DesignCard.tsx - One design submission: files, versions, decisions and comments
+'use client';
+
+import { ReactNode, useState } from 'react';
+import Image from 'next/image';
+import { format } from 'date-fns';
+import { Check, Download, FileText, History, Lock, MessageSquare, X } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DESIGN_CATEGORY_LABELS,
+  DESIGN_STATUS_LABELS,
+  DesignFile,
+  DesignStatus,
+  DesignSubmission
+} from '@/lib/types/design';
+
+const STATUS_COLORS: Record<DesignStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  pending_approval: 'bg-yellow-100 text-yellow-800',
+  changes_requested: 'bg-rose-100 text-rose-800',
+  approved: 'bg-green-100 text-green-800'
+};
+
+const formatDate = (value: string) => format(new Date(value), 'MMM d, yyyy');
+const formatDateTime = (value: string) => format(new Date(value), 'MMM d, yyyy h:mm a');
+
+interface DesignCardProps {
+  design: DesignSubmission;
+  canDecide?: boolean;
+  canComment?: boolean;
+  actions?: ReactNode;
+  onDecide?: (file: DesignFile, decision: 'approve' | 'reject') => void;
+  onChange: (design: DesignSubmission) => void;
+}
+
+export default function DesignCard({
+  design,
+  canDecide = false,
+  canComment = false,
+  actions,
+  onDecide,
+  onChange
+}: DesignCardProps) {
+  const { toast } = useToast();
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [posting, setPosting] = useState<string | null>(null);
+
+  const locked = design.status === 'approved';
+  const recordUrl = `/api/projects/${design.projectId}/designs/${design._id}/record`;
+
+  const postComment = async (file: DesignFile) => {
+    const text = drafts[file.fileId]?.trim();
+    if (!text) return;
+    setPosting(file.fileId);
+    try {
+      const response = await fetch(`/api/projects/${design.projectId}/designs/${design._id}/comments`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileId: file.fileId, text })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+      setDrafts(current => ({ ...current, [file.fileId]: '' }));
+      onChange(data.data);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add comment'
+      });
+    } finally {
+      setPosting(null);
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-2">
+        <div className="min-w-0">
+          <div className="flex flex-wrap items-center gap-2">
+            <h4 className="font-semibold text-gray-900">{design.title}</h4>
+            <Badge variant="outline">{DESIGN_CATEGORY_LABELS[design.category]}</Badge>
+            <Badge className={STATUS_COLORS[design.status]}>
+              {locked && <Lock className="h-3 w-3 mr-1" />}
+              {DESIGN_STATUS_LABELS[design.status]}
+            </Badge>
+            {design.round > 1 && <span className="text-xs text-gray-500">Round {design.round}</span>}
+          </div>
+        </div>
+        {actions && <div className="flex flex-wrap gap-2 shrink-0">{actions}</div>}
+      </div>
+
+      {design.description && <p className="text-sm text-gray-700 whitespace-pre-line">{design.description}</p>}
+
+      <div className="space-y-3">
+        {design.files.map(file => {
+          // Discussion carries over from earlier versions of the file
+          const versionIds = [file.fileId, ...file.previousVersions.map(previous => previous.fileId)];
+          const comments = design.comments.filter(comment => versionIds.includes(comment.fileId));
+          const awaiting = design.status === 'pending_approval' && !file.decision;
+          return (
+            <div key={file.fileId} className="rounded-md bg-gray-50 p-3 space-y-2">
+              <div className="flex flex-col sm:flex-row sm:items-start gap-3">
+                <a href={file.url} target="_blank" rel="noopener noreferrer" className="shrink-0">
+                  {file.mimeType?.startsWith('image/') ? (
+                    <div className="relative h-20 w-28 overflow-hidden rounded border">
+                      <Image src={file.url} alt={file.name} fill sizes="112px" className="object-cover" />
+                    </div>
+                  ) : (
+                    <div className="flex h-20 w-28 items-center justify-center rounded border bg-white">
+                      <FileText className="h-8 w-8 text-gray-400" />
+                    </div>
+                  )}
+                </a>
+                <div className="min-w-0 flex-1 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <a href={file.url} target="_blank" rel="noopener noreferrer" className="text-sm font-medium text-blue-600 hover:underline truncate">
+                      {file.name}
+                    </a>
+                    <Badge variant="outline">v{file.version}</Badge>
+                  </div>
+                  {file.decision ? (
+                    <p className={`text-xs ${file.decision.status === 'approved' ? 'text-green-700' : 'text-rose-700'}`}>
+                      {file.decision.status === 'approved' ? 'Approved' : 'Rejected'} by {file.decision.name} on {formatDateTime(file.decision.at)}
+                      {file.decision.comment && <> — “{file.decision.comment}”</>}
+                    </p>
+                  ) : awaiting ? (
+                    <p className="text-xs text-yellow-700">Awaiting client decision</p>
+                  ) : null}
+                  {file.previousVersions.length > 0 && (
+                    <p className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+                      <History className="h-3 w-3" />
+                      {file.previousVersions.map(previous => (
+                        <a key={previous.fileId} href={previous.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                          v{previous.version}
+                        </a>
+                      ))}
+                    </p>
+                  )}
+                </div>
+                {canDecide && awaiting && onDecide && (
+                  <div className="flex gap-2 shrink-0">
+                    <Button size="sm" variant="outline" onClick={() => onDecide(file, 'reject')}>
+                      <X className="h-4 w-4 mr-1" />
+                      Reject
+                    </Button>
+                    <Button size="sm" onClick={() => onDecide(file, 'approve')}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                  </div>
+                )}
+              </div>
+
+              {comments.length > 0 && (
+                <ul className="space-y-1 border-l-2 border-gray-200 pl-3">
+                  {comments.map(comment => (
+                    <li key={comment._id} className="text-xs text-gray-700">
+                      <span className="font-medium">{comment.byName}</span>
+                      <span className="text-gray-400"> · v{comment.version} · {formatDateTime(comment.createdAt)}</span>
+                      <p className="whitespace-pre-line">{comment.text}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              {canComment && !locked && design.status !== 'draft' && (
+                <form
+                  className="flex gap-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    postComment(file);
+                  }}
+                >
+                  <Input
+                    value={drafts[file.fileId] || ''}
+                    onChange={(e) => setDrafts(current => ({ ...current, [file.fileId]: e.target.value }))}
+                    placeholder="Comment on this file"
+                    className="h-8 text-sm"
+                  />
+                  <Button type="submit" size="sm" variant="outline" disabled={posting === file.fileId || !drafts[file.fileId]?.trim()}>
+                    <MessageSquare className="h-4 w-4" />
+                  </Button>
+                </form>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="border-t border-gray-100 pt-2 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 text-xs text-gray-500">
+        <p>
+          Prepared by {design.createdByName} on {formatDate(design.createdAt)}
+          {design.submittedAt && <> · Sent to client {formatDate(design.submittedAt)}</>}
+          {design.approvedAt && <> · Approved {formatDateTime(design.approvedAt)}</>}
+        </p>
+        {design.records.length > 0 && (
+          <div className="flex items-center gap-2">
+            <Download className="h-3 w-3" />
+            <span>Approval record:</span>
+            <a href={`${recordUrl}?format=xlsx`} className="text-blue-600 hover:underline">Excel</a>
+            <a href={`${recordUrl}?format=csv`} className="text-blue-600 hover:underline">CSV</a>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+// src/components/designs/DesignDecisionDialog.tsx - Client signs an approval or rejection of one design file
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { DesignFile, DesignSubmission } from '@/lib/types/design';
+
+interface DesignDecisionDialogProps {
+  design: DesignSubmission | null;
+  file: DesignFile | null;
+  decision: 'approve' | 'reject';
+  defaultName?: string;
+  onOpenChange: (open: boolean) => void;
+  onDecided: (design: DesignSubmission) => Promise<void> | void;
+}
+
+export default function DesignDecisionDialog({
+  design,
+  file,
+  decision,
+  defaultName = '',
+  onOpenChange,
+  onDecided
+}: DesignDecisionDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!file) return;
+    setName(defaultName);
+    setComment('');
+  }, [file, defaultName]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!design || !file) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/projects/${design.projectId}/designs/${design._id}/decision`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ fileId: file.fileId, decision, name, comment })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast({ title: 'Success', description: data.message });
+      onOpenChange(false);
+      await onDecided(data.data);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to record your decision'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const approving = decision === 'approve';
+
+  return (
+    <Dialog open={file !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{approving ? 'Approve' : 'Reject'} {file?.name}</DialogTitle>
+          <DialogDescription>
+            {file && `Version ${file.version}. `}
+            {approving
+              ? 'Approved designs are locked and the team will build to this version.'
+              : 'The project team will revise the design and send you a new version.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="design-decision-comment">{approving ? 'Comment' : 'What should change? *'}</Label>
+            <Textarea
+              id="design-decision-comment"
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+              rows={3}
+              required={!approving}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="design-decision-name">Type your full name to sign *</Label>
+            <Input id="design-decision-name" value={name} onChange={(e) => setName(e.target.value)} required />
+            <p className="text-xs text-gray-500">Your name, the time and the file version are kept in the approval record.</p>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button
+              type="submit"
+              disabled={saving || !name.trim()}
+              variant={approving ? 'default' : 'destructive'}
+            >
+              {saving ? 'Saving...' : approving ? 'Approve Design' : 'Request Changes'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,228 @@
+// src/components/designs/DesignFormDialog.tsx - Draft a design submission, or upload new versions of rejected files
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Paperclip, Upload, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DESIGN_CATEGORIES,
+  DESIGN_CATEGORY_LABELS,
+  DesignCategory,
+  DesignFile,
+  DesignSubmission
+} from '@/lib/types/design';
+
+interface DesignFormDialogProps {
+  projectId: string;
+  open: boolean;
+  initial: DesignSubmission | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => Promise<void>;
+}
+
+export default function DesignFormDialog({ projectId, open, initial, onOpenChange, onSaved }: DesignFormDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState('');
+  const [category, setCategory] = useState<DesignCategory>('drawing');
+  const [description, setDescription] = useState('');
+  const [current, setCurrent] = useState<DesignFile[]>([]);
+  // New versions of files already in the submission, keyed by the file they replace
+  const [replacements, setReplacements] = useState<Record<string, File>>({});
+  const [files, setFiles] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(initial?.title || '');
+    setCategory(initial?.category || 'drawing');
+    setDescription(initial?.description || '');
+    setCurrent(initial?.files || []);
+    setReplacements({});
+    setFiles([]);
+  }, [open, initial]);
+
+  // Uploaded through the project file system so every version is kept
+  const uploadFile = async (file: File, parentFileId?: string): Promise<string> => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('projectId', projectId);
+    formData.append('tags', 'design');
+    if (parentFileId) formData.append('parentFileId', parentFileId);
+    const response = await fetch('/api/files', { method: 'POST', body: formData });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || `Upload of ${file.name} failed`);
+    }
+    return data.data._id as string;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const keptIds = await Promise.all(current.map(file =>
+        replacements[file.fileId] ? uploadFile(replacements[file.fileId], file.fileId) : file.fileId
+      ));
+      const newIds = await Promise.all(files.map(file => uploadFile(file)));
+
+      const response = await fetch(
+        initial ? `/api/projects/${projectId}/designs/${initial._id}` : `/api/projects/${projectId}/designs`,
+        {
+          method: initial ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ title, category, description, fileIds: [...keptIds, ...newIds] })
+        }
+      );
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast({ title: 'Success', description: data.message });
+      onOpenChange(false);
+      await onSaved();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save design submission'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initial ? 'Edit Design Submission' : 'New Design Submission'}</DialogTitle>
+          <DialogDescription>
+            The client approves or rejects each file. Replace rejected files with a new version before sending again.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="design-title">Title *</Label>
+              <Input
+                id="design-title"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                placeholder="e.g. Kitchen layout and finishes"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={(value) => setCategory(value as DesignCategory)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DESIGN_CATEGORIES.map(option => (
+                    <SelectItem key={option} value={option}>{DESIGN_CATEGORY_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="design-description">Notes for the client</Label>
+            <Textarea id="design-description" value={description} onChange={(e) => setDescription(e.target.value)} rows={3} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="design-files">Files</Label>
+            {current.map(file => {
+              const approved = file.decision?.status === 'approved';
+              const replacement = replacements[file.fileId];
+              return (
+                <div key={file.fileId} className="rounded-md border px-3 py-2 text-sm space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <a href={file.url} target="_blank" rel="noopener noreferrer" className="flex min-w-0 items-center gap-2 text-blue-600 hover:underline">
+                      <Paperclip className="h-4 w-4 shrink-0" />
+                      <span className="truncate">{file.name}</span>
+                    </a>
+                    <div className="flex shrink-0 items-center gap-1">
+                      <Badge variant="outline">v{file.version}</Badge>
+                      {file.decision && (
+                        <Badge className={approved ? 'bg-green-100 text-green-800' : 'bg-rose-100 text-rose-800'}>
+                          {approved ? 'Approved' : 'Rejected'}
+                        </Badge>
+                      )}
+                      {!approved && (
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setCurrent(items => items.filter(item => item.fileId !== file.fileId))}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                  {file.decision?.status === 'rejected' && (
+                    <>
+                      {file.decision.comment && (
+                        <p className="text-xs text-rose-700">“{file.decision.comment}”</p>
+                      )}
+                      <label className="flex w-fit cursor-pointer items-center gap-2 text-xs text-blue-600 hover:underline">
+                        <Upload className="h-3 w-3" />
+                        {replacement ? `v${file.version + 1}: ${replacement.name}` : `Upload v${file.version + 1}`}
+                        <input
+                          type="file"
+                          accept="image/*,application/pdf"
+                          className="hidden"
+                          onChange={(e) => {
+                            const selected = e.target.files?.[0];
+                            if (selected) setReplacements(items => ({ ...items, [file.fileId]: selected }));
+                          }}
+                        />
+                      </label>
+                    </>
+                  )}
+                </div>
+              );
+            })}
+            <Input
+              id="design-files"
+              type="file"
+              multiple
+              accept="image/*,application/pdf"
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+            />
+            <p className="text-xs text-gray-500">Drawings, layouts, mood boards and material boards (images or PDF)</p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={saving || (current.length === 0 && files.length === 0)}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
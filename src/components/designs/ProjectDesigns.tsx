@@ -0,0 +1,183 @@
+// src/components/designs/ProjectDesigns.tsx - Designs tab on the project page
+// Managers send drawings, layouts and mood boards for sign-off; the client
+// approves or rejects each file, and approved submissions are locked.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Edit, Palette, Plus, Send, Trash2 } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { DesignFile, DesignSubmission } from '@/lib/types/design';
+import DesignCard from './DesignCard';
+import DesignDecisionDialog from './DesignDecisionDialog';
+import DesignFormDialog from './DesignFormDialog';
+
+interface ProjectDesignsProps {
+  projectId: string;
+  editable?: boolean;
+  canDecide?: boolean;
+  signerName?: string;
+}
+
+export default function ProjectDesigns({
+  projectId,
+  editable = false,
+  canDecide = false,
+  signerName
+}: ProjectDesignsProps) {
+  const { toast } = useToast();
+  const [designs, setDesigns] = useState<DesignSubmission[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [formDialog, setFormDialog] = useState<{ open: boolean; design: DesignSubmission | null }>({ open: false, design: null });
+  const [deciding, setDeciding] = useState<{ design: DesignSubmission | null; file: DesignFile | null; decision: 'approve' | 'reject' }>({
+    design: null,
+    file: null,
+    decision: 'approve'
+  });
+
+  const fetchDesigns = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/designs`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load designs');
+      }
+      setDesigns(data.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching designs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load designs');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchDesigns();
+  }, [fetchDesigns]);
+
+  const replaceDesign = (design: DesignSubmission) => {
+    setDesigns(current => current.map(item => item._id === design._id ? design : item));
+  };
+
+  const send = async (design: DesignSubmission, method: 'POST' | 'DELETE', path = '') => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/designs/${design._id}${path}`, { method });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast({ title: 'Success', description: data.message });
+      await fetchDesigns();
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Request failed'
+      });
+    }
+  };
+
+  const submit = (design: DesignSubmission) => {
+    if (!confirm(`Send "${design.title}" to the client for approval? It can't be edited while they review it.`)) return;
+    send(design, 'POST', '/submit');
+  };
+
+  const remove = (design: DesignSubmission) => {
+    if (!confirm(`Delete draft "${design.title}"? The uploaded files stay in the project.`)) return;
+    send(design, 'DELETE');
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-red-600">{error}</CardContent>
+      </Card>
+    );
+  }
+
+  const awaiting = designs.filter(design => design.status === 'pending_approval').length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold">Design Approvals</h3>
+          <p className="text-xs sm:text-sm text-gray-500">
+            {awaiting > 0
+              ? `${awaiting} submission${awaiting === 1 ? '' : 's'} awaiting ${canDecide ? 'your' : 'client'} approval`
+              : 'Drawings, layouts, material selections and mood boards'}
+          </p>
+        </div>
+        {editable && (
+          <Button size="sm" onClick={() => setFormDialog({ open: true, design: null })}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Submission
+          </Button>
+        )}
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading designs...</p>
+      ) : designs.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <Palette className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+            <p className="text-sm text-gray-500">No designs have been shared on this project.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {designs.map(design => (
+            <DesignCard
+              key={design._id}
+              design={design}
+              canDecide={canDecide}
+              canComment
+              onDecide={(file, decision) => setDeciding({ design, file, decision })}
+              onChange={replaceDesign}
+              actions={editable && (design.status === 'draft' || design.status === 'changes_requested') && (
+                <>
+                  <Button size="sm" variant="ghost" onClick={() => setFormDialog({ open: true, design })}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  {design.status === 'draft' && (
+                    <Button size="sm" variant="ghost" onClick={() => remove(design)}>
+                      <Trash2 className="h-4 w-4 text-red-500" />
+                    </Button>
+                  )}
+                  <Button size="sm" onClick={() => submit(design)}>
+                    <Send className="h-4 w-4 mr-1" />
+                    {design.status === 'draft' ? 'Send to Client' : 'Send Again'}
+                  </Button>
+                </>
+              )}
+            />
+          ))}
+        </div>
+      )}
+
+      {editable && (
+        <DesignFormDialog
+          projectId={projectId}
+          open={formDialog.open}
+          initial={formDialog.design}
+          onOpenChange={(open) => setFormDialog(current => ({ ...current, open }))}
+          onSaved={fetchDesigns}
+        />
+      )}
+      {canDecide && (
+        <DesignDecisionDialog
+          design={deciding.design}
+          file={deciding.file}
+          decision={deciding.decision}
+          defaultName={signerName}
+          onOpenChange={(open) => { if (!open) setDeciding(current => ({ ...current, design: null, file: null })); }}
+          onDecided={replaceDesign}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 'use client';
 
 import { useState } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { 
   File, 
   Image as ImageIcon, 
@@ -58,8 +59,10 @@ interface FilesListProps {
 
 export default function FilesList({ files, userRole }: FilesListProps) {
   const { toast } = useToast();
+  const searchParams = useSearchParams();
   const [loading, setLoading] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
+  // ?search= pre-fills the filter when arriving from global search
+  const [searchQuery, setSearchQuery] = useState(() => searchParams.get('search') || '');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
 
   // Filter files based on search and category
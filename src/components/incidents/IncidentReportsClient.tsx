@@ -2,6 +2,7 @@
 'use client';
 
 import { useState, useMemo } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -50,6 +51,7 @@ interface Incident {
   category: string;
   severity: string;
   location: string;
+  contractor?: string;
   dateOccurred: string;
   timeOccurred: string;
   reportedBy: {
@@ -105,9 +107,13 @@ export default function IncidentReportsClient({
   canEdit 
 }: IncidentReportsClientProps) {
   const { toast } = useToast();
+  const searchParams = useSearchParams();
   const [incidents, setIncidents] = useState<Incident[]>(initialIncidents);
-  const [selectedIncident, setSelectedIncident] = useState<Incident | null>(null);
-  const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  // ?incident=<id> opens that incident when arriving from global search
+  const [selectedIncident, setSelectedIncident] = useState<Incident | null>(
+    () => initialIncidents.find(item => item._id === searchParams.get('incident')) || null
+  );
+  const [isDetailsOpen, setIsDetailsOpen] = useState(() => selectedIncident !== null);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [categoryFilter, setCategoryFilter] = useState('all');
@@ -540,6 +546,12 @@ export default function IncidentReportsClient({
                         <p className="text-sm font-medium text-gray-700">Reported By</p>
                         <p className="text-sm text-gray-600">{selectedIncident.reportedBy.name}</p>
                       </div>
+                      {selectedIncident.contractor && (
+                        <div>
+                          <p className="text-sm font-medium text-gray-700">Contractor</p>
+                          <p className="text-sm text-gray-600">{selectedIncident.contractor}</p>
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -0,0 +1,244 @@
+// src/components/jobs/ScheduledJobsViewer.tsx - Scheduled job status and run history (admin)
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { AlertTriangle, ChevronLeft, ChevronRight, Clock, RefreshCw } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  JOB_LABELS,
+  JOB_NAMES,
+  JOB_RUN_STATUS_LABELS,
+  JobRun,
+  JobRunStatus,
+  ScheduledJob
+} from '@/lib/types/jobs';
+
+interface Pagination {
+  page: number;
+  pages: number;
+  total: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+const ALL = 'all';
+const PAGE_SIZE = 25;
+
+const STATUS_COLORS: Record<JobRunStatus, string> = {
+  running: 'bg-blue-100 text-blue-800',
+  succeeded: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+};
+
+function formatInterval(minutes: number): string {
+  if (minutes % 1440 === 0) return minutes === 1440 ? 'Daily' : `Every ${minutes / 1440} days`;
+  if (minutes % 60 === 0) return minutes === 60 ? 'Hourly' : `Every ${minutes / 60} hours`;
+  return minutes === 1 ? 'Every minute' : `Every ${minutes} minutes`;
+}
+
+function formatDuration(ms?: number): string {
+  if (ms === undefined) return '';
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+function relative(value?: string): string {
+  return value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : 'Never';
+}
+
+export default function ScheduledJobsViewer() {
+  const [jobs, setJobs] = useState<ScheduledJob[]>([]);
+  const [runs, setRuns] = useState<JobRun[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [page, setPage] = useState(1);
+  const [jobFilter, setJobFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+
+  useEffect(() => {
+    setPage(1);
+  }, [jobFilter, statusFilter]);
+
+  const fetchJobs = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), limit: String(PAGE_SIZE) });
+      if (jobFilter !== ALL) params.set('job', jobFilter);
+      if (statusFilter !== ALL) params.set('status', statusFilter);
+
+      const response = await fetch(`/api/admin/jobs?${params}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load scheduled jobs');
+      }
+      setJobs(data.data.jobs);
+      setRuns(data.data.runs);
+      setPagination(data.data.pagination);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching scheduled jobs:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load scheduled jobs');
+    } finally {
+      setLoading(false);
+    }
+  }, [page, jobFilter, statusFilter]);
+
+  useEffect(() => {
+    fetchJobs();
+  }, [fetchJobs]);
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-red-600">{error}</CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {jobs.map(job => (
+          <Card key={job.name} className={job.consecutiveFailures > 0 ? 'border-red-200' : undefined}>
+            <CardHeader className="pb-2">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <CardTitle className="text-base">{job.label}</CardTitle>
+                  <p className="text-sm text-gray-600 mt-1">{job.description}</p>
+                </div>
+                {job.running ? (
+                  <Badge className={STATUS_COLORS.running}>Running</Badge>
+                ) : job.lastStatus ? (
+                  <Badge className={STATUS_COLORS[job.lastStatus]}>{JOB_RUN_STATUS_LABELS[job.lastStatus]}</Badge>
+                ) : (
+                  <Badge variant="outline">Not run yet</Badge>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-1 text-sm text-gray-600">
+              <p className="flex items-center gap-1">
+                <Clock className="h-3.5 w-3.5" />
+                {formatInterval(job.intervalMinutes)}
+                {job.nextRunAt && !job.running && <> · next {relative(job.nextRunAt)}</>}
+              </p>
+              <p>Last run {relative(job.lastRunAt)}{job.lastSuccessAt && <> · last success {relative(job.lastSuccessAt)}</>}</p>
+              {job.running && job.lockedBy && <p>Running on {job.lockedBy}</p>}
+              {job.consecutiveFailures > 0 && job.lastError && (
+                <p className="flex items-start gap-1 text-red-600">
+                  <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                  <span>
+                    Failed {job.consecutiveFailures} time{job.consecutiveFailures === 1 ? '' : 's'} in a row: {job.lastError}
+                  </span>
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <h2 className="text-lg font-semibold text-gray-900">Run History</h2>
+          <div className="flex flex-wrap gap-2">
+            <Select value={jobFilter} onValueChange={setJobFilter}>
+              <SelectTrigger className="w-48">
+                <SelectValue placeholder="All jobs" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All jobs</SelectItem>
+                {JOB_NAMES.map(name => (
+                  <SelectItem key={name} value={name}>{JOB_LABELS[name]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue placeholder="All results" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All results</SelectItem>
+                {(Object.keys(JOB_RUN_STATUS_LABELS) as JobRunStatus[]).map(status => (
+                  <SelectItem key={status} value={status}>{JOB_RUN_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" size="sm" onClick={fetchJobs} disabled={loading} className="h-10">
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+
+        {loading && runs.length === 0 ? (
+          <p className="text-sm text-gray-500">Loading runs...</p>
+        ) : runs.length === 0 ? (
+          <Card>
+            <CardContent className="py-12 text-center text-gray-500">
+              <Clock className="h-10 w-10 mx-auto mb-3 text-gray-400" />
+              {jobFilter !== ALL || statusFilter !== ALL ? 'No runs match these filters.' : 'No jobs have run yet.'}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className={`space-y-2 ${loading ? 'opacity-60' : ''}`}>
+            {runs.map(run => (
+              <Card key={run._id}>
+                <CardContent className="p-4">
+                  <div className="flex flex-wrap items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <Badge className={STATUS_COLORS[run.status]}>{JOB_RUN_STATUS_LABELS[run.status]}</Badge>
+                        <span className="font-medium text-gray-900">{JOB_LABELS[run.job] || run.job}</span>
+                        {run.durationMs !== undefined && (
+                          <span className="text-xs text-gray-500">{formatDuration(run.durationMs)}</span>
+                        )}
+                      </div>
+                      {run.summary && <p className="mt-1 text-sm text-gray-600">{run.summary}</p>}
+                      {run.error && <p className="mt-1 text-sm text-red-600 break-words">{run.error}</p>}
+                      <p className="mt-1 text-xs text-gray-400">{run.instance}</p>
+                    </div>
+                    <span
+                      className="text-xs text-gray-500 whitespace-nowrap"
+                      title={format(new Date(run.startedAt), 'PPpp')}
+                    >
+                      {formatDistanceToNow(new Date(run.startedAt), { addSuffix: true })}
+                    </span>
+                  </div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        {pagination && pagination.pages > 1 && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-gray-500">
+              Page {pagination.page} of {pagination.pages} · {pagination.total} runs
+            </p>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!pagination.hasPrev || loading}
+                onClick={() => setPage(current => current - 1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={!pagination.hasNext || loading}
+                onClick={() => setPage(current => current + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
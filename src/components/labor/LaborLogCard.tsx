@@ -0,0 +1,302 @@
+// src/components/labor/LaborLogCard.tsx - Quick entry for one day's labor log
+// Site officers list who was on site: a contractor gang or a named worker per
+// row, with trade, hours and day rate. Yesterday's crew can be copied in.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Copy, HardHat, Plus, Save, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import ContractorDatalist, { CONTRACTOR_DATALIST_ID } from '@/components/contractors/ContractorDatalist';
+import { ActivityPhase, PHASE_LABELS, PHASE_ORDER } from '@/types/activity';
+import type { LaborDay, LaborEntry } from '@/lib/types/labor';
+
+interface LaborRow {
+  key: string;
+  _id?: string;
+  contractor: string;
+  workerName: string;
+  trade: string;
+  headcount: string;
+  hours: string;
+  dayRate: string;
+  phase: ActivityPhase;
+}
+
+let nextRowKey = 0;
+const newRowKey = () => `row-${nextRowKey++}`;
+
+const emptyRow = (phase: ActivityPhase = 'construction'): LaborRow => ({
+  key: newRowKey(),
+  contractor: '',
+  workerName: '',
+  trade: '',
+  headcount: '1',
+  hours: '8',
+  dayRate: '',
+  phase
+});
+
+// Copied rows drop their ids so they save as new lines for the day
+const toRow = (entry: LaborEntry, keepId: boolean): LaborRow => ({
+  key: newRowKey(),
+  _id: keepId ? entry._id : undefined,
+  contractor: entry.contractor,
+  workerName: entry.workerName || '',
+  trade: entry.trade || '',
+  headcount: String(entry.headcount),
+  hours: String(entry.hours),
+  dayRate: entry.dayRate !== undefined ? String(entry.dayRate) : '',
+  phase: entry.phase
+});
+
+interface LaborLogCardProps {
+  projectId: string;
+  date: string; // YYYY-MM-DD
+  onDateChange: (date: string) => void;
+}
+
+export default function LaborLogCard({ projectId, date, onDateChange }: LaborLogCardProps) {
+  const { toast } = useToast();
+  const [day, setDay] = useState<LaborDay | null>(null);
+  const [rows, setRows] = useState<LaborRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchLaborDay = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/projects/${projectId}/labor?date=${date}`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load labor log');
+      }
+      setDay(result.data);
+      setRows(result.data.entries.map((entry: LaborEntry) => toRow(entry, true)));
+    } catch (error) {
+      console.error('Error fetching labor log:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load labor log'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, date, toast]);
+
+  useEffect(() => {
+    fetchLaborDay();
+  }, [fetchLaborDay]);
+
+  const updateRow = (key: string, changes: Partial<LaborRow>) => {
+    setRows(current => current.map(row => row.key === key ? { ...row, ...changes } : row));
+  };
+
+  const copyPrevious = () => {
+    if (!day?.previous) return;
+    setRows(current => [...current, ...day.previous!.entries.map(entry => toRow(entry, false))]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const entries = rows
+        .filter(row => row.contractor.trim() || row.workerName.trim())
+        .map(row => ({
+          _id: row._id,
+          contractor: row.contractor,
+          workerName: row.workerName,
+          trade: row.trade,
+          headcount: row.headcount,
+          hours: row.hours,
+          dayRate: row.dayRate,
+          phase: row.phase
+        }));
+      const response = await fetch(`/api/projects/${projectId}/labor`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date, entries })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save labor log');
+      }
+      toast({ title: 'Success', description: result.message });
+      setDay(result.data);
+      setRows(result.data.entries.map((entry: LaborEntry) => toRow(entry, true)));
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save labor log'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const crewSize = rows.reduce((total, row) => total + (Number(row.headcount) || 0), 0);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <HardHat className="h-5 w-5" />
+            Labor on Site
+          </CardTitle>
+          {day && (
+            <p className="text-xs sm:text-sm text-gray-500 mt-1">
+              {day.crewSize} worker{day.crewSize === 1 ? '' : 's'} · {day.hours} hours logged
+              {day.cost !== undefined && ` · ${formatCurrency(day.cost)}`}
+            </p>
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <Label htmlFor="labor-date" className="sr-only">Date</Label>
+          <Input
+            id="labor-date"
+            type="date"
+            value={date}
+            max={new Date().toISOString().split('T')[0]}
+            onChange={(e) => e.target.value && onDateChange(e.target.value)}
+            className="w-auto"
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <ContractorDatalist />
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading labor log...</p>
+        ) : (
+          <>
+            {rows.length === 0 && (
+              <p className="text-sm text-gray-500">Nobody has been logged on site for this day.</p>
+            )}
+            {rows.map(row => (
+              <div key={row.key} className="grid grid-cols-2 sm:grid-cols-12 gap-2 items-end border-b pb-3 sm:border-0 sm:pb-0">
+                <div className="col-span-2 sm:col-span-3 space-y-1">
+                  <Label className="text-xs sm:hidden">Contractor</Label>
+                  <Input
+                    value={row.contractor}
+                    onChange={(e) => updateRow(row.key, { contractor: e.target.value })}
+                    list={CONTRACTOR_DATALIST_ID}
+                    placeholder="Contractor"
+                  />
+                </div>
+                <div className="sm:col-span-2 space-y-1">
+                  <Label className="text-xs sm:hidden">Worker</Label>
+                  <Input
+                    value={row.workerName}
+                    onChange={(e) => updateRow(row.key, { workerName: e.target.value })}
+                    placeholder="Worker (optional)"
+                  />
+                </div>
+                <div className="sm:col-span-2 space-y-1">
+                  <Label className="text-xs sm:hidden">Trade</Label>
+                  <Input
+                    value={row.trade}
+                    onChange={(e) => updateRow(row.key, { trade: e.target.value })}
+                    placeholder="Trade"
+                  />
+                </div>
+                <div className="sm:col-span-1 space-y-1">
+                  <Label className="text-xs sm:hidden">Workers</Label>
+                  <Input
+                    type="number"
+                    min="1"
+                    step="1"
+                    value={row.headcount}
+                    onChange={(e) => updateRow(row.key, { headcount: e.target.value })}
+                    title="Workers"
+                  />
+                </div>
+                <div className="sm:col-span-1 space-y-1">
+                  <Label className="text-xs sm:hidden">Hours</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="24"
+                    step="0.5"
+                    value={row.hours}
+                    onChange={(e) => updateRow(row.key, { hours: e.target.value })}
+                    title="Hours per worker"
+                  />
+                </div>
+                <div className="sm:col-span-1 space-y-1">
+                  <Label className="text-xs sm:hidden">Day rate</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={row.dayRate}
+                    onChange={(e) => updateRow(row.key, { dayRate: e.target.value })}
+                    placeholder="Rate"
+                    title="Day rate per worker (blank uses the directory rate)"
+                  />
+                </div>
+                <div className="sm:col-span-1 space-y-1">
+                  <Label className="text-xs sm:hidden">Phase</Label>
+                  <Select value={row.phase} onValueChange={(phase) => updateRow(row.key, { phase: phase as ActivityPhase })}>
+                    <SelectTrigger title="Phase">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PHASE_ORDER.map(phase => (
+                        <SelectItem key={phase} value={phase}>{PHASE_LABELS[phase]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="sm:col-span-1 flex justify-end">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setRows(current => current.filter(item => item.key !== row.key))}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap items-center justify-between gap-2 pt-2">
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => setRows(current => [...current, emptyRow(current[current.length - 1]?.phase)])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Row
+                </Button>
+                {day?.previous && (
+                  <Button type="button" size="sm" variant="outline" onClick={copyPrevious}>
+                    <Copy className="h-4 w-4 mr-2" />
+                    Copy from {format(new Date(`${day.previous.date}T00:00:00`), 'MMM d')}
+                  </Button>
+                )}
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="text-xs text-gray-500">{crewSize} on site</span>
+                <Button type="button" size="sm" onClick={handleSave} disabled={saving}>
+                  <Save className="h-4 w-4 mr-2" />
+                  {saving ? 'Saving...' : 'Save Labor Log'}
+                </Button>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,312 @@
+// src/components/labor/ProjectLabor.tsx - Labor tab on the project page
+// Weekly labor-hours for the project and each contractor, and actual manpower
+// per phase against the plan an administrator sets.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Edit, HardHat } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import { ActivityPhase, PHASE_LABELS, PHASE_ORDER } from '@/types/activity';
+import type { LaborPlanEntry, LaborSummary } from '@/lib/types/labor';
+
+interface ProjectLaborProps {
+  projectId: string;
+  canPlan?: boolean;
+}
+
+const formatWeek = (weekStart: string) => `w/c ${format(new Date(`${weekStart}T00:00:00`), 'MMM d, yyyy')}`;
+
+interface PlanDialogProps {
+  projectId: string;
+  open: boolean;
+  plan: LaborPlanEntry[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: (summary: LaborSummary) => void;
+}
+
+function LaborPlanDialog({ projectId, open, plan, onOpenChange, onSaved }: PlanDialogProps) {
+  const { toast } = useToast();
+  const [values, setValues] = useState<Record<string, { plannedWorkerDays: string; plannedCrew: string }>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setValues(Object.fromEntries(PHASE_ORDER.map(phase => {
+      const entry = plan.find(item => item.phase === phase);
+      return [phase, {
+        plannedWorkerDays: entry ? String(entry.plannedWorkerDays) : '',
+        plannedCrew: entry?.plannedCrew !== undefined ? String(entry.plannedCrew) : ''
+      }];
+    })));
+  }, [open, plan]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const phases = PHASE_ORDER.map(phase => ({ phase, ...values[phase] }));
+      const response = await fetch(`/api/projects/${projectId}/labor/plan`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ phases })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save manpower plan');
+      }
+      toast({ title: 'Success', description: result.message });
+      onOpenChange(false);
+      onSaved(result.data);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save manpower plan'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setValue = (phase: ActivityPhase, field: 'plannedWorkerDays' | 'plannedCrew', value: string) => {
+    setValues(current => ({ ...current, [phase]: { ...current[phase], [field]: value } }));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Manpower Plan</DialogTitle>
+          <DialogDescription>Planned worker-days and average crew for each phase. Leave a phase blank to leave it unplanned.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-3">
+          <div className="grid grid-cols-3 gap-2 text-xs font-medium text-gray-500">
+            <span>Phase</span>
+            <span>Worker-days</span>
+            <span>Average crew</span>
+          </div>
+          {PHASE_ORDER.map(phase => (
+            <div key={phase} className="grid grid-cols-3 gap-2 items-center">
+              <Label htmlFor={`plan-${phase}`} className="text-sm">{PHASE_LABELS[phase]}</Label>
+              <Input
+                id={`plan-${phase}`}
+                type="number"
+                min="0"
+                step="0.5"
+                value={values[phase]?.plannedWorkerDays || ''}
+                onChange={(e) => setValue(phase, 'plannedWorkerDays', e.target.value)}
+              />
+              <Input
+                type="number"
+                min="0"
+                step="0.5"
+                value={values[phase]?.plannedCrew || ''}
+                onChange={(e) => setValue(phase, 'plannedCrew', e.target.value)}
+              />
+            </div>
+          ))}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save Plan'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function ProjectLabor({ projectId, canPlan = false }: ProjectLaborProps) {
+  const [summary, setSummary] = useState<LaborSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [planOpen, setPlanOpen] = useState(false);
+
+  const fetchSummary = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/labor/summary`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load labor summary');
+      }
+      setSummary(result.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching labor summary:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load labor summary');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-red-600">{error}</CardContent>
+      </Card>
+    );
+  }
+
+  if (!summary) {
+    return <p className="text-sm text-gray-500">Loading labor summary...</p>;
+  }
+
+  const { totals, tracksCosts } = summary;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold">Labor</h3>
+          <p className="text-xs sm:text-sm text-gray-500">
+            {totals.hours} hours · {totals.workerDays} worker-days over {totals.daysLogged} day{totals.daysLogged === 1 ? '' : 's'}
+            {totals.cost !== undefined && ` · ${formatCurrency(totals.cost)}`}
+          </p>
+        </div>
+        {canPlan && (
+          <Button size="sm" variant="outline" onClick={() => setPlanOpen(true)}>
+            <Edit className="h-4 w-4 mr-2" />
+            Edit Manpower Plan
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Planned vs Actual Manpower</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {summary.phases.length === 0 ? (
+            <p className="text-sm text-gray-500">No manpower has been planned or logged yet.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b">
+                    <th className="py-2 pr-3 font-medium">Phase</th>
+                    <th className="py-2 pr-3 font-medium text-right">Planned</th>
+                    <th className="py-2 pr-3 font-medium text-right">Actual</th>
+                    <th className="py-2 pr-3 font-medium text-right">Variance</th>
+                    <th className="py-2 pr-3 font-medium text-right">Avg crew</th>
+                    <th className="py-2 font-medium text-right">Peak</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.phases.map(phase => (
+                    <tr key={phase.phase} className="border-b last:border-0">
+                      <td className="py-2 pr-3">{PHASE_LABELS[phase.phase]}</td>
+                      <td className="py-2 pr-3 text-right">{phase.plannedWorkerDays ?? '—'}</td>
+                      <td className="py-2 pr-3 text-right">{phase.actualWorkerDays}</td>
+                      <td className={`py-2 pr-3 text-right ${phase.variance !== undefined && phase.variance > 0 ? 'text-red-600' : 'text-gray-700'}`}>
+                        {phase.variance === undefined ? '—' : `${phase.variance > 0 ? '+' : ''}${phase.variance}`}
+                      </td>
+                      <td className="py-2 pr-3 text-right">
+                        {phase.averageCrew}
+                        {phase.plannedCrew !== undefined && <span className="text-gray-400"> / {phase.plannedCrew}</span>}
+                      </td>
+                      <td className="py-2 text-right">{phase.peakCrew}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs text-gray-400 mt-2">Planned, actual and variance are in worker-days.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {summary.weeks.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <HardHat className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+            <p className="text-sm text-gray-500">No labor has been logged yet. Site officers log it from the daily site schedule.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Weekly Labor</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500 border-b">
+                    <th className="py-2 pr-3 font-medium">Week</th>
+                    <th className="py-2 pr-3 font-medium text-right">Hours</th>
+                    <th className="py-2 pr-3 font-medium text-right">Worker-days</th>
+                    {tracksCosts && <th className="py-2 font-medium text-right">Cost</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {summary.weeks.map(week => (
+                    <tr key={week.weekStart} className="border-b last:border-0">
+                      <td className="py-2 pr-3">{formatWeek(week.weekStart)}</td>
+                      <td className="py-2 pr-3 text-right">{week.hours}</td>
+                      <td className="py-2 pr-3 text-right">{week.workerDays}</td>
+                      {tracksCosts && <td className="py-2 text-right">{formatCurrency(week.cost || 0)}</td>}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">By Contractor</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {summary.contractors.map(contractor => (
+                <details key={contractor.contractorId || contractor.contractor} className="border border-gray-200 rounded-lg p-3">
+                  <summary className="flex cursor-pointer flex-wrap items-center justify-between gap-2 text-sm">
+                    <span className="font-medium text-gray-900">{contractor.contractor}</span>
+                    <span className="text-xs text-gray-500">
+                      {contractor.hours} hours · {contractor.workerDays} worker-days
+                      {contractor.cost !== undefined && ` · ${formatCurrency(contractor.cost)}`}
+                    </span>
+                  </summary>
+                  <ul className="mt-2 space-y-1 text-xs text-gray-600">
+                    {contractor.weeks.map(week => (
+                      <li key={week.weekStart} className="flex justify-between gap-2">
+                        <span>{formatWeek(week.weekStart)}</span>
+                        <span>
+                          {week.hours} hours · {week.workerDays} worker-days
+                          {week.cost !== undefined && ` · ${formatCurrency(week.cost)}`}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              ))}
+            </CardContent>
+          </Card>
+        </>
+      )}
+
+      {canPlan && (
+        <LaborPlanDialog
+          projectId={projectId}
+          open={planOpen}
+          plan={summary.plan}
+          onOpenChange={setPlanOpen}
+          onSaved={setSummary}
+        />
+      )}
+    </div>
+  );
+}
@@ -2,16 +2,22 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import { useSocketSafe } from '@/contexts/SocketContext';
+import ProjectChannel from '@/components/messaging/ProjectChannel';
+import MessageBubble from '@/components/chat/MessageBubble';
+import type { ChannelSummary } from '@/lib/types/channel';
+import type { DirectMessageUpdate } from '@/lib/types/message';
 import { 
+  Hash,
   MessageSquare, 
   Send, 
   Search, 
-  CheckCircle,
   AlertCircle,
   Plus,
   ArrowLeft,
@@ -38,9 +44,12 @@ interface MessageProject {
 }
 
 interface MessageAttachment {
+  fileId: string;
   filename: string;
+  originalName: string;
   url: string;
-  type: string;
+  mimeType: string;
+  size: number;
 }
 
 interface Message {
@@ -51,8 +60,11 @@ interface Message {
   project?: MessageProject;
   createdAt: string;
   isRead: boolean;
-  messageType: 'text' | 'file' | 'system';
-  attachments?: MessageAttachment[];
+  readAt?: string;
+  editedAt?: string;
+  isDeleted?: boolean;
+  messageType: 'text' | 'image' | 'file' | 'audio' | 'video';
+  attachments: MessageAttachment[];
 }
 
 interface Conversation {
@@ -124,15 +136,27 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
   const [messagesLoading, setMessagesLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showSidebar, setShowSidebar] = useState(false);
+  const [channels, setChannels] = useState<ChannelSummary[]>([]);
+  const [selectedChannel, setSelectedChannel] = useState<string | null>(null);
+  const [sidebarTab, setSidebarTab] = useState<'direct' | 'channels'>('direct');
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const searchParams = useSearchParams();
+  const linkedParticipantId = searchParams.get('with');
+  const linkedChannelId = searchParams.get('channel');
+  const openedConversationLink = useRef<string | null>(null);
+  const openedChannelLink = useRef<string | null>(null);
+  const socket = useSocketSafe();
+  const typingSentAt = useRef(0);
+  const hasSelection = !!selectedConversation || !!selectedChannel;
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, []);
 
+  // Edits and read receipts update messages in place without scrolling
   useEffect(() => {
     scrollToBottom();
-  }, [messages, scrollToBottom]);
+  }, [messages.length, scrollToBottom]);
 
   const fetchConversations = useCallback(async () => {
     try {
@@ -173,6 +197,19 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
     }
   }, [toast]);
 
+  // A failure here leaves the direct messages usable, so it only logs
+  const fetchChannels = useCallback(async () => {
+    try {
+      const response = await fetch('/api/messages/channels');
+      const result = await response.json();
+      if (response.ok && result.success) {
+        setChannels(result.data || []);
+      }
+    } catch (error) {
+      console.error('Error fetching project channels:', error);
+    }
+  }, []);
+
   const fetchMessages = useCallback(async (participantId: string) => {
     if (!participantId) return;
     
@@ -255,6 +292,8 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
     const messageContent = newMessage.trim();
     setNewMessage(''); // Clear input immediately for better UX
     setSending(true);
+    typingSentAt.current = 0;
+    socket?.stopDirectTyping(selectedConversation);
     
     try {
       // Find the conversation to determine if it has a projectId
@@ -324,7 +363,66 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
     } finally {
       setSending(false);
     }
-  }, [newMessage, selectedConversation, sending, conversations, fetchConversations, toast]);
+  }, [newMessage, selectedConversation, sending, conversations, fetchConversations, toast, socket]);
+
+  // Let the other participant see we are typing, at most every couple of seconds
+  const handleMessageChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    setNewMessage(e.target.value);
+    if (!socket || !selectedConversation || !e.target.value.trim()) return;
+    if (Date.now() - typingSentAt.current < 2000) return;
+    typingSentAt.current = Date.now();
+    socket.startDirectTyping(selectedConversation);
+  }, [socket, selectedConversation]);
+
+  const applyMessageUpdate = useCallback((update: DirectMessageUpdate) => {
+    setMessages(prev => prev.map(message =>
+      message._id === update._id
+        ? { ...message, content: update.content, editedAt: update.editedAt, isDeleted: update.isDeleted }
+        : message
+    ));
+  }, []);
+
+  const editMessage = useCallback(async (messageId: string, content: string): Promise<boolean> => {
+    try {
+      const response = await fetch(`/api/messages/${messageId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to edit message');
+      }
+      applyMessageUpdate(result.data as DirectMessageUpdate);
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to edit message',
+      });
+      return false;
+    }
+  }, [applyMessageUpdate, toast]);
+
+  const deleteMessage = useCallback(async (messageId: string) => {
+    if (!confirm('Delete this message for everyone in the conversation?')) return;
+
+    try {
+      const response = await fetch(`/api/messages/${messageId}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to delete message');
+      }
+      applyMessageUpdate(result.data as DirectMessageUpdate);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to delete message',
+      });
+    }
+  }, [applyMessageUpdate, toast]);
 
   const handleKeyPress = useCallback((e: React.KeyboardEvent<HTMLInputElement>) => {
     if (e.key === 'Enter' && !e.shiftKey) {
@@ -334,11 +432,24 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
   }, [sendMessage]);
 
   const selectConversation = useCallback((participantId: string) => {
+    setSelectedChannel(null);
     setSelectedConversation(participantId);
     setShowSidebar(false); // Hide sidebar on mobile after selection
     fetchMessages(participantId);
   }, [fetchMessages]);
 
+  const selectChannel = useCallback((projectId: string) => {
+    setSelectedConversation(null);
+    setSelectedChannel(projectId);
+    setShowSidebar(false);
+  }, []);
+
+  const markChannelRead = useCallback((projectId: string) => {
+    setChannels(prev => prev.map(channel =>
+      channel.projectId === projectId ? { ...channel, unreadCount: 0, unreadMentions: 0 } : channel
+    ));
+  }, []);
+
   const startNewConversation = useCallback(async () => {
     // This could open a modal to select from available contacts
     toast({
@@ -353,13 +464,85 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
 
   const goBackToConversations = useCallback(() => {
     setSelectedConversation(null);
+    setSelectedChannel(null);
     setShowSidebar(true);
   }, []);
 
   // Initial load
   useEffect(() => {
     fetchConversations();
-  }, [fetchConversations]);
+    fetchChannels();
+  }, [fetchConversations, fetchChannels]);
+
+  // Join every channel's project room so the sidebar stays current too
+  const channelIds = channels.map(channel => channel.projectId).join(',');
+  useEffect(() => {
+    if (!socket?.isConnected || !channelIds) return;
+    const projectIds = channelIds.split(',');
+    projectIds.forEach(projectId => socket.joinProject(projectId));
+    return () => projectIds.forEach(projectId => socket.leaveProject(projectId));
+  }, [socket, channelIds]);
+
+  useEffect(() => {
+    if (!socket) return;
+    return socket.onChannelMessage(message => {
+      const unread = message.senderId !== userId && message.projectId !== selectedChannel;
+      setChannels(prev => prev
+        .map(channel => channel.projectId === message.projectId
+          ? {
+            ...channel,
+            lastMessage: message.content,
+            lastSenderName: message.senderName,
+            lastMessageAt: message.createdAt,
+            unreadCount: channel.unreadCount + (unread ? 1 : 0),
+            unreadMentions: channel.unreadMentions + (unread && message.mentions.includes(userId) ? 1 : 0)
+          }
+          : channel)
+        .sort((a, b) => (b.lastMessageAt || '').localeCompare(a.lastMessageAt || '')));
+    });
+  }, [socket, userId, selectedChannel]);
+
+  // A channel message edited or deleted may be the one the sidebar shows
+  useEffect(() => {
+    if (!socket) return;
+    return socket.onChannelMessageUpdated(() => {
+      fetchChannels();
+    });
+  }, [socket, fetchChannels]);
+
+  // Edits, deletions and read receipts from the other side of the conversation
+  useEffect(() => {
+    if (!socket) return;
+    return socket.onDirectMessageUpdated(applyMessageUpdate);
+  }, [socket, applyMessageUpdate]);
+
+  useEffect(() => {
+    if (!socket) return;
+    return socket.onDirectMessagesRead(receipt => {
+      setMessages(prev => prev.map(message =>
+        message.sender._id === userId && message.recipient._id === receipt.readerId && !message.isRead
+          ? { ...message, isRead: true, readAt: receipt.readAt }
+          : message
+      ));
+    });
+  }, [socket, userId]);
+
+  // Deep link from a mention notification: ?channel=<projectId> opens that channel
+  useEffect(() => {
+    if (!linkedChannelId || openedChannelLink.current === linkedChannelId) return;
+    if (!channels.some(channel => channel.projectId === linkedChannelId)) return;
+    openedChannelLink.current = linkedChannelId;
+    setSidebarTab('channels');
+    selectChannel(linkedChannelId);
+  }, [linkedChannelId, channels, selectChannel]);
+
+  // Deep link from global search: ?with=<participantId> opens that conversation
+  useEffect(() => {
+    if (!linkedParticipantId || openedConversationLink.current === linkedParticipantId) return;
+    if (!conversations.some(c => c.participantId === linkedParticipantId)) return;
+    openedConversationLink.current = linkedParticipantId;
+    selectConversation(linkedParticipantId);
+  }, [linkedParticipantId, conversations, selectConversation]);
 
   // Filter conversations
   const filteredConversations = conversations.filter(conversation => {
@@ -374,6 +557,16 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
   });
 
   const selectedConversationData = conversations.find(c => c.participantId === selectedConversation);
+  const participantTyping = !!socket?.typingUsers.some(typing =>
+    typing.userId === selectedConversation && typing.recipientId === userId
+  );
+
+  const filteredChannels = channels.filter(channel =>
+    (channel.projectTitle.toLowerCase().includes(searchQuery.toLowerCase()) ||
+      (channel.lastMessage || '').toLowerCase().includes(searchQuery.toLowerCase())) &&
+    (filterBy !== 'unread' || channel.unreadCount > 0)
+  );
+  const channelUnreadCount = channels.reduce((total, channel) => total + channel.unreadCount, 0);
 
   const formatTime = (dateString: string): string => {
     try {
@@ -444,7 +637,7 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
     <div className="flex h-[600px] bg-white rounded-lg shadow-lg overflow-hidden">
       {/* Sidebar - Conversations List */}
       <div className={`
-        ${showSidebar || !selectedConversation ? 'flex' : 'hidden'} 
+        ${showSidebar || !hasSelection ? 'flex' : 'hidden'} 
         md:flex flex-col w-full md:w-80 border-r border-gray-200
       `}>
         {/* Header */}
@@ -461,6 +654,24 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
             </Button>
           </div>
           
+          {/* Direct messages or project channels */}
+          <div className="mt-3 grid grid-cols-2 gap-1 rounded-md bg-gray-200 p-1">
+            <button
+              type="button"
+              onClick={() => setSidebarTab('direct')}
+              className={`rounded px-2 py-1 text-xs font-medium ${sidebarTab === 'direct' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600'}`}
+            >
+              Direct
+            </button>
+            <button
+              type="button"
+              onClick={() => setSidebarTab('channels')}
+              className={`rounded px-2 py-1 text-xs font-medium ${sidebarTab === 'channels' ? 'bg-white text-gray-900 shadow-sm' : 'text-gray-600'}`}
+            >
+              Project Channels{channelUnreadCount > 0 ? ` (${channelUnreadCount})` : ''}
+            </button>
+          </div>
+
           {/* Search */}
           <div className="mt-3 relative">
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-gray-400" />
@@ -495,7 +706,57 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
 
         {/* Conversations List */}
         <div className="flex-1 overflow-y-auto">
-          {filteredConversations.length === 0 ? (
+          {sidebarTab === 'channels' ? (
+            filteredChannels.length === 0 ? (
+              <div className="p-6 text-center">
+                <Hash className="h-12 w-12 text-gray-400 mx-auto mb-3" />
+                <p className="text-gray-500">
+                  {searchQuery ? 'No channels found' : 'You are not on any projects yet'}
+                </p>
+              </div>
+            ) : (
+              filteredChannels.map((channel) => (
+                <div
+                  key={channel.projectId}
+                  onClick={() => selectChannel(channel.projectId)}
+                  className={`
+                    p-4 border-b border-gray-100 cursor-pointer hover:bg-gray-50 transition-colors
+                    ${selectedChannel === channel.projectId ? 'bg-blue-50 border-blue-200' : ''}
+                  `}
+                >
+                  <div className="flex items-start space-x-3">
+                    <div className="flex h-10 w-10 flex-shrink-0 items-center justify-center rounded-full bg-blue-100 text-blue-600">
+                      <Hash className="h-5 w-5" />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center justify-between">
+                        <h3 className="text-sm font-medium text-gray-900 truncate">
+                          {channel.projectTitle}
+                        </h3>
+                        {channel.lastMessageAt && (
+                          <span className="text-xs text-gray-500">
+                            {formatTime(channel.lastMessageAt)}
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center justify-between mt-1">
+                        <p className="text-sm text-gray-600 truncate">
+                          {channel.lastMessage
+                            ? `${channel.lastSenderName}: ${channel.lastMessage}`
+                            : 'No messages yet'}
+                        </p>
+                        {channel.unreadCount > 0 && (
+                          <Badge variant="default" className="ml-2 text-xs">
+                            {channel.unreadMentions > 0 ? '@ ' : ''}{channel.unreadCount}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              ))
+            )
+          ) : filteredConversations.length === 0 ? (
             <div className="p-6 text-center">
               <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-3" />
               <p className="text-gray-500">
@@ -565,10 +826,19 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
 
       {/* Chat Area */}
       <div className={`
-        ${selectedConversation ? 'flex' : 'hidden'} 
+        ${hasSelection ? 'flex' : 'hidden'} 
         md:flex flex-col flex-1
       `}>
-        {selectedConversation ? (
+        {selectedChannel ? (
+          <ProjectChannel
+            key={selectedChannel}
+            projectId={selectedChannel}
+            userId={userId}
+            onRead={markChannelRead}
+            onBack={goBackToConversations}
+            onToggleSidebar={toggleSidebar}
+          />
+        ) : selectedConversation ? (
           <>
             {/* Chat Header */}
             <div className="p-4 border-b border-gray-200 bg-gray-50">
@@ -597,7 +867,9 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
                       <Badge variant="secondary" className={`text-xs ${getRoleColor(selectedConversationData?.participantRole || '')}`}>
                         {getRoleBadge(selectedConversationData?.participantRole || '')}
                       </Badge>
-                      {selectedConversationData?.isOnline && (
+                      {participantTyping ? (
+                        <span className="text-xs text-gray-500 italic">typing...</span>
+                      ) : selectedConversationData?.isOnline && (
                         <span className="text-xs text-green-600">Online</span>
                       )}
                     </div>
@@ -639,33 +911,13 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
                 </div>
               ) : (
                 messages.map((message) => (
-                  <div
+                  <MessageBubble
                     key={message._id}
-                    className={`flex ${message.sender._id === userId ? 'justify-end' : 'justify-start'}`}
-                  >
-                    <div className={`
-                      max-w-xs lg:max-w-md px-4 py-2 rounded-lg
-                      ${message.sender._id === userId
-                        ? 'bg-blue-600 text-white'
-                        : 'bg-gray-100 text-gray-900'
-                      }
-                    `}>
-                      {message.sender._id !== userId && (
-                        <div className="text-xs font-medium mb-1 opacity-75">
-                          {message.sender.name}
-                        </div>
-                      )}
-                      <p className="text-sm whitespace-pre-wrap">{message.content}</p>
-                      <div className={`text-xs mt-1 flex items-center justify-end gap-1 ${
-                        message.sender._id === userId ? 'text-blue-200' : 'text-gray-500'
-                      }`}>
-                        <span>{formatTime(message.createdAt)}</span>
-                        {message.sender._id === userId && (
-                          <CheckCircle className="h-3 w-3" />
-                        )}
-                      </div>
-                    </div>
-                  </div>
+                    message={message}
+                    isOwnMessage={message.sender._id === userId}
+                    onEdit={editMessage}
+                    onDelete={deleteMessage}
+                  />
                 ))
               )}
               <div ref={messagesEndRef} />
@@ -676,7 +928,7 @@ export default function MessagesClient({ userId, userRole, userName }: MessagesC
               <div className="flex space-x-2">
                 <Input
                   value={newMessage}
-                  onChange={(e) => setNewMessage(e.target.value)}
+                  onChange={handleMessageChange}
                   onKeyPress={handleKeyPress}
                   placeholder="Type your message..."
                   disabled={sending}
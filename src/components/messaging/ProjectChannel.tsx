@@ -0,0 +1,673 @@
+// src/components/messaging/ProjectChannel.tsx - Group channel for one project
+'use client';
+
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { useSocketSafe } from '@/contexts/SocketContext';
+import { ArrowLeft, CornerDownRight, Hash, Menu, MessageSquare, Pencil, Send, Trash2, Users, X } from 'lucide-react';
+import type { ChannelMember, ChannelMessage, ChannelView } from '@/lib/types/channel';
+import { isWithinEditWindow } from '@/lib/types/message';
+
+interface ProjectChannelProps {
+  projectId: string;
+  userId: string;
+  onRead: (projectId: string) => void;
+  onBack: () => void;
+  onToggleSidebar: () => void;
+}
+
+// Most members the @mention list offers at once
+const MAX_SUGGESTIONS = 6;
+// Names a read receipt lists before summing up the rest
+const MAX_RECEIPT_NAMES = 3;
+// How often typing is announced to the rest of the channel
+const TYPING_INTERVAL_MS = 2000;
+
+const formatTime = (dateString: string): string => {
+  const date = new Date(dateString);
+  const sameDay = date.toDateString() === new Date().toDateString();
+  return sameDay
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+};
+
+const getRoleBadge = (role: string): string => {
+  switch (role) {
+    case 'super_admin': return 'Admin';
+    case 'project_manager': return 'Manager';
+    case 'client': return 'Client';
+    default: return 'User';
+  }
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Message text with every @member highlighted
+function MessageContent({ content, members }: { content: string; members: ChannelMember[] }) {
+  const names = members.map(member => member.name).sort((a, b) => b.length - a.length);
+  if (names.length === 0) return <>{content}</>;
+
+  const pattern = new RegExp(`(@(?:${names.map(escapeRegExp).join('|')}))(?![\\p{L}\\p{N}])`, 'giu');
+  return (
+    <>
+      {content.split(pattern).map((part, index) =>
+        index % 2 === 1
+          ? <span key={index} className="rounded bg-blue-100 px-0.5 font-medium text-blue-700">{part}</span>
+          : part
+      )}
+    </>
+  );
+}
+
+export default function ProjectChannel({ projectId, userId, onRead, onBack, onToggleSidebar }: ProjectChannelProps) {
+  const { toast } = useToast();
+  const socket = useSocketSafe();
+  const [view, setView] = useState<ChannelView | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const [replyingTo, setReplyingTo] = useState<ChannelMessage | null>(null);
+  const [expandedThreads, setExpandedThreads] = useState<Set<string>>(new Set());
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [suggestionIndex, setSuggestionIndex] = useState(0);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const typingSentAt = useRef(0);
+
+  const markRead = useCallback(async () => {
+    try {
+      await fetch(`/api/projects/${projectId}/channel/read`, { method: 'POST' });
+      onRead(projectId);
+    } catch (error) {
+      console.warn('Failed to mark channel as read:', error);
+    }
+  }, [projectId, onRead]);
+
+  const fetchChannel = useCallback(async (before?: string) => {
+    const query = before ? `?before=${encodeURIComponent(before)}` : '';
+    const response = await fetch(`/api/projects/${projectId}/channel${query}`);
+    const result = await response.json();
+    if (!response.ok || !result.success) {
+      throw new Error(result.error || 'Failed to load channel');
+    }
+    return result.data as ChannelView;
+  }, [projectId]);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setView(null);
+    setReplyingTo(null);
+    setExpandedThreads(new Set());
+
+    fetchChannel()
+      .then(data => {
+        if (cancelled) return;
+        setView(data);
+        markRead();
+      })
+      .catch(error => {
+        if (cancelled) return;
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: error instanceof Error ? error.message : 'Failed to load channel',
+        });
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [fetchChannel, markRead, toast]);
+
+  // Messages others post arrive through the project's socket room
+  useEffect(() => {
+    if (!socket) return;
+    return socket.onChannelMessage(message => {
+      if (message.projectId !== projectId) return;
+      setView(prev => {
+        if (!prev || prev.messages.some(item => item._id === message._id)) return prev;
+        return { ...prev, messages: addMessage(prev.messages, message) };
+      });
+      if (message.senderId !== userId) markRead();
+    });
+  }, [socket, projectId, userId, markRead]);
+
+  useEffect(() => {
+    if (!socket) return;
+    return socket.onChannelMessageUpdated(message => {
+      if (message.projectId !== projectId) return;
+      setView(prev => prev && { ...prev, messages: updateMessage(prev.messages, message) });
+    });
+  }, [socket, projectId]);
+
+  // Read receipts: another member caught up, so they have seen everything sent before
+  useEffect(() => {
+    if (!socket) return;
+    return socket.onChannelRead(receipt => {
+      if (receipt.projectId !== projectId) return;
+      setView(prev => prev && {
+        ...prev,
+        messages: prev.messages.map(message =>
+          message.senderId === receipt.userId ||
+          message.createdAt > receipt.readAt ||
+          message.readBy.some(read => read.userId === receipt.userId)
+            ? message
+            : { ...message, readBy: [...message.readBy, { userId: receipt.userId, readAt: receipt.readAt }] }
+        )
+      });
+    });
+  }, [socket, projectId]);
+
+  const threads = useMemo(() => {
+    const messages = view?.messages || [];
+    return messages
+      .filter(message => !message.replyTo)
+      .map(root => ({ root, replies: messages.filter(message => message.replyTo === root._id) }));
+  }, [view]);
+
+  // Follow new messages, but stay put when earlier ones are loaded above
+  const latestMessageId = view?.messages[view.messages.length - 1]?._id;
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [latestMessageId]);
+
+  const typingNames = useMemo(() => {
+    const members = view?.members || [];
+    return (socket?.typingUsers || [])
+      .filter(typing => typing.projectId === projectId && typing.userId !== userId)
+      .map(typing => members.find(member => member._id === typing.userId)?.name)
+      .filter((name): name is string => !!name);
+  }, [socket?.typingUsers, view, projectId, userId]);
+
+  const suggestions = useMemo(() => {
+    if (mentionQuery === null || !view) return [];
+    const query = mentionQuery.toLowerCase();
+    return view.members
+      .filter(member => member._id !== userId && member.name.toLowerCase().includes(query))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [mentionQuery, view, userId]);
+
+  const loadOlder = async () => {
+    const oldest = threads[0]?.root;
+    if (!oldest || !view) return;
+
+    setLoadingOlder(true);
+    try {
+      const older = await fetchChannel(oldest.createdAt);
+      setView(prev => prev && {
+        ...prev,
+        messages: [...older.messages, ...prev.messages.filter(item => !older.messages.some(o => o._id === item._id))],
+        hasMore: older.hasMore
+      });
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to load earlier messages',
+      });
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleDraftChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const value = event.target.value;
+    setDraft(value);
+
+    if (socket && value.trim() && Date.now() - typingSentAt.current >= TYPING_INTERVAL_MS) {
+      typingSentAt.current = Date.now();
+      socket.startTyping(projectId);
+    }
+
+    // An @ at the start of a word opens the member list until a space is typed
+    const beforeCaret = value.slice(0, event.target.selectionStart ?? value.length);
+    const match = beforeCaret.match(/(?:^|\s)@([^\s@]*)$/);
+    setMentionQuery(match ? match[1] : null);
+    setSuggestionIndex(0);
+  };
+
+  const insertMention = (member: ChannelMember) => {
+    const input = inputRef.current;
+    const caret = input?.selectionStart ?? draft.length;
+    const before = draft.slice(0, caret).replace(/@([^\s@]*)$/, `@${member.name} `);
+    const next = before + draft.slice(caret);
+
+    setDraft(next);
+    setMentionQuery(null);
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(before.length, before.length);
+    });
+  };
+
+  const sendMessage = async () => {
+    const content = draft.trim();
+    if (!content || sending) return;
+
+    setSending(true);
+    typingSentAt.current = 0;
+    socket?.stopTyping(projectId);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/channel`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content, replyTo: replyingTo?._id })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to send message');
+      }
+
+      const message = result.data as ChannelMessage;
+      setView(prev => {
+        if (!prev || prev.messages.some(item => item._id === message._id)) return prev;
+        return { ...prev, messages: addMessage(prev.messages, message) };
+      });
+      if (message.replyTo) {
+        setExpandedThreads(prev => new Set(prev).add(message.replyTo!));
+      }
+      setDraft('');
+      setReplyingTo(null);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to send message',
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length > 0) {
+      if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+        event.preventDefault();
+        const step = event.key === 'ArrowDown' ? 1 : -1;
+        setSuggestionIndex(prev => (prev + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (event.key === 'Enter' || event.key === 'Tab') {
+        event.preventDefault();
+        insertMention(suggestions[suggestionIndex]);
+        return;
+      }
+      if (event.key === 'Escape') {
+        setMentionQuery(null);
+        return;
+      }
+    }
+
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      sendMessage();
+    }
+  };
+
+  const startReply = (message: ChannelMessage) => {
+    const root = message.replyTo ? threads.find(thread => thread.root._id === message.replyTo)?.root : message;
+    if (!root) return;
+    setReplyingTo(root);
+    setExpandedThreads(prev => new Set(prev).add(root._id));
+    inputRef.current?.focus();
+  };
+
+  const toggleThread = (rootId: string) => {
+    setExpandedThreads(prev => {
+      const next = new Set(prev);
+      if (next.has(rootId)) next.delete(rootId);
+      else next.add(rootId);
+      return next;
+    });
+  };
+
+  const startEditing = (message: ChannelMessage) => {
+    setEditingId(message._id);
+    setEditDraft(message.content);
+  };
+
+  const saveEdit = async (message: ChannelMessage) => {
+    const content = editDraft.trim();
+    if (!content || savingEdit) return;
+    if (content === message.content) {
+      setEditingId(null);
+      return;
+    }
+
+    setSavingEdit(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/channel/${message._id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ content })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to edit message');
+      }
+      const updated = result.data as ChannelMessage;
+      setView(prev => prev && { ...prev, messages: updateMessage(prev.messages, updated) });
+      setEditingId(null);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to edit message',
+      });
+    } finally {
+      setSavingEdit(false);
+    }
+  };
+
+  const deleteMessage = async (message: ChannelMessage) => {
+    if (!confirm('Delete this message for everyone in the channel?')) return;
+
+    try {
+      const response = await fetch(`/api/projects/${projectId}/channel/${message._id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to delete message');
+      }
+      const updated = result.data as ChannelMessage;
+      setView(prev => prev && { ...prev, messages: updateMessage(prev.messages, updated) });
+      if (replyingTo?._id === message._id) setReplyingTo(null);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to delete message',
+      });
+    }
+  };
+
+  // "Seen by" for the user's own messages, naming the first few readers
+  const renderReceipt = (message: ChannelMessage) => {
+    const readers = message.readBy
+      .filter(read => read.userId !== userId)
+      .map(read => ({ ...read, name: view?.members.find(member => member._id === read.userId)?.name }))
+      .filter((read): read is { userId: string; readAt: string; name: string } => !!read.name);
+    if (readers.length === 0) return null;
+
+    const shown = readers.slice(0, MAX_RECEIPT_NAMES).map(read => read.name).join(', ');
+    const others = readers.length - MAX_RECEIPT_NAMES;
+    return (
+      <p
+        className="mt-0.5 text-[11px] text-gray-400"
+        title={readers.map(read => `${read.name} · ${formatTime(read.readAt)}`).join('\n')}
+      >
+        Seen by {shown}{others > 0 ? ` and ${others} other${others === 1 ? '' : 's'}` : ''}
+      </p>
+    );
+  };
+
+  const renderMessage = (message: ChannelMessage, isReply: boolean) => {
+    const mentionsMe = message.mentions.includes(userId);
+    const isOwn = message.senderId === userId;
+    const canChange = isOwn && !message.isDeleted && isWithinEditWindow(message.createdAt);
+    const editing = editingId === message._id;
+    return (
+      <div
+        key={message._id}
+        className={`group flex items-start gap-3 rounded-lg px-2 py-1.5 ${mentionsMe ? 'bg-yellow-50' : 'hover:bg-gray-50'}`}
+      >
+        <Avatar className={isReply ? 'h-6 w-6' : 'h-8 w-8'}>
+          <AvatarFallback className="bg-blue-100 text-xs text-blue-600">
+            {message.senderName.charAt(0).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        <div className="min-w-0 flex-1">
+          <div className="flex items-center gap-2">
+            <span className="text-sm font-medium text-gray-900">
+              {message.senderId === userId ? 'You' : message.senderName}
+            </span>
+            <Badge variant="secondary" className="text-[10px]">{getRoleBadge(message.senderRole)}</Badge>
+            <span className="text-xs text-gray-500">
+              {formatTime(message.createdAt)}
+              {message.editedAt && !message.isDeleted && ' (edited)'}
+            </span>
+          </div>
+          {message.isDeleted ? (
+            <p className="text-sm italic text-gray-400">Message deleted</p>
+          ) : editing ? (
+            <div className="mt-1 space-y-1">
+              <Input
+                value={editDraft}
+                onChange={(event) => setEditDraft(event.target.value)}
+                onKeyDown={(event) => {
+                  if (event.key === 'Enter') {
+                    event.preventDefault();
+                    saveEdit(message);
+                  } else if (event.key === 'Escape') {
+                    setEditingId(null);
+                  }
+                }}
+                disabled={savingEdit}
+                autoFocus
+              />
+              <div className="flex gap-1">
+                <Button size="sm" onClick={() => saveEdit(message)} disabled={!editDraft.trim() || savingEdit} className="h-7 text-xs">
+                  {savingEdit ? 'Saving...' : 'Save'}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setEditingId(null)} disabled={savingEdit} className="h-7 text-xs">
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <p className="whitespace-pre-wrap break-words text-sm text-gray-800">
+              <MessageContent content={message.content} members={view?.members || []} />
+            </p>
+          )}
+          {isOwn && !message.isDeleted && !editing && renderReceipt(message)}
+        </div>
+        {!message.isDeleted && !editing && (
+          <div className="flex opacity-0 group-hover:opacity-100">
+            {canChange && (
+              <>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => startEditing(message)}
+                  className="h-7 w-7 p-0 text-gray-500"
+                  title="Edit message"
+                >
+                  <Pencil className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMessage(message)}
+                  className="h-7 w-7 p-0 text-gray-500"
+                  title="Delete message"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => startReply(message)}
+              className="h-7 px-2 text-xs text-gray-500"
+            >
+              <CornerDownRight className="mr-1 h-3 w-3" />
+              Reply
+            </Button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <>
+      {/* Channel Header */}
+      <div className="p-4 border-b border-gray-200 bg-gray-50">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <Button variant="ghost" size="sm" onClick={onBack} className="md:hidden p-2">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div className="flex h-8 w-8 items-center justify-center rounded-full bg-blue-100 text-blue-600">
+              <Hash className="h-4 w-4" />
+            </div>
+            <div>
+              <h3 className="font-medium text-gray-900">{view?.projectTitle || 'Project channel'}</h3>
+              {view && (
+                <p className="flex items-center gap-1 text-xs text-gray-500" title={view.members.map(member => member.name).join(', ')}>
+                  <Users className="h-3 w-3" />
+                  {view.members.length} member{view.members.length === 1 ? '' : 's'}
+                </p>
+              )}
+            </div>
+          </div>
+          <Button variant="ghost" size="sm" onClick={onToggleSidebar} className="md:hidden p-2">
+            <Menu className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Threads */}
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {loading ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+          </div>
+        ) : threads.length === 0 ? (
+          <div className="flex items-center justify-center h-32">
+            <div className="text-center">
+              <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-3" />
+              <p className="text-gray-500">No messages in this channel yet</p>
+              <p className="text-sm text-gray-400">Type @ to mention someone on the project</p>
+            </div>
+          </div>
+        ) : (
+          <>
+            {view?.hasMore && (
+              <div className="text-center">
+                <Button variant="outline" size="sm" onClick={loadOlder} disabled={loadingOlder}>
+                  {loadingOlder ? 'Loading...' : 'Load earlier messages'}
+                </Button>
+              </div>
+            )}
+            {threads.map(({ root, replies }) => (
+              <div key={root._id}>
+                {renderMessage(root, false)}
+                {replies.length > 0 && (
+                  <div className="ml-11">
+                    <button
+                      type="button"
+                      onClick={() => toggleThread(root._id)}
+                      className="text-xs font-medium text-blue-600 hover:underline"
+                    >
+                      {expandedThreads.has(root._id)
+                        ? 'Hide replies'
+                        : `${replies.length} repl${replies.length === 1 ? 'y' : 'ies'}`}
+                    </button>
+                    {expandedThreads.has(root._id) && (
+                      <div className="mt-1 space-y-1 border-l-2 border-gray-200 pl-3">
+                        {replies.map(reply => renderMessage(reply, true))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </>
+        )}
+        <div ref={messagesEndRef} />
+      </div>
+
+      {/* Composer */}
+      <div className="relative p-4 border-t border-gray-200 bg-gray-50">
+        {typingNames.length > 0 && (
+          <p className="mb-1 text-xs italic text-gray-500">
+            {typingNames.length === 1
+              ? `${typingNames[0]} is typing...`
+              : typingNames.length === 2
+                ? `${typingNames[0]} and ${typingNames[1]} are typing...`
+                : 'Several people are typing...'}
+          </p>
+        )}
+        {replyingTo && (
+          <div className="mb-2 flex items-center justify-between rounded-md bg-white px-3 py-1.5 text-xs text-gray-600 border">
+            <span className="truncate">
+              Replying to <span className="font-medium">{replyingTo.senderName}</span>: {replyingTo.content}
+            </span>
+            <Button variant="ghost" size="sm" onClick={() => setReplyingTo(null)} className="h-6 w-6 p-0">
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="absolute bottom-full left-4 mb-1 w-64 overflow-hidden rounded-md border bg-white shadow-lg">
+            {suggestions.map((member, index) => (
+              <button
+                key={member._id}
+                type="button"
+                onMouseDown={(event) => {
+                  event.preventDefault();
+                  insertMention(member);
+                }}
+                className={`flex w-full items-center justify-between px-3 py-2 text-left text-sm ${
+                  index === suggestionIndex ? 'bg-blue-50 text-blue-700' : 'hover:bg-gray-50'
+                }`}
+              >
+                <span className="truncate">{member.name}</span>
+                <span className="text-xs text-gray-500">{getRoleBadge(member.role)}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex space-x-2">
+          <Input
+            ref={inputRef}
+            value={draft}
+            onChange={handleDraftChange}
+            onKeyDown={handleKeyDown}
+            onBlur={() => setMentionQuery(null)}
+            placeholder={replyingTo ? 'Reply to thread...' : 'Message the project team, @ to mention'}
+            disabled={sending || loading}
+            className="flex-1"
+          />
+          <Button onClick={sendMessage} disabled={!draft.trim() || sending} className="px-4">
+            {sending ? (
+              <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white"></div>
+            ) : (
+              <Send className="h-4 w-4" />
+            )}
+          </Button>
+        </div>
+      </div>
+    </>
+  );
+}
+
+// Take in an edit or deletion, keeping the thread's own reply count and receipts
+function updateMessage(messages: ChannelMessage[], updated: ChannelMessage): ChannelMessage[] {
+  return messages.map(item => item._id === updated._id
+    ? { ...item, content: updated.content, mentions: updated.mentions, editedAt: updated.editedAt, isDeleted: updated.isDeleted }
+    : item);
+}
+
+// Append a new message, counting it against its thread if it is a reply
+function addMessage(messages: ChannelMessage[], message: ChannelMessage): ChannelMessage[] {
+  if (!message.replyTo) return [...messages, message];
+  return messages
+    .map(item => item._id === message.replyTo ? { ...item, replyCount: item.replyCount + 1 } : item)
+    .concat(message);
+}
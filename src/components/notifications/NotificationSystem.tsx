@@ -52,9 +52,33 @@ interface SocketNotification {
 
 // Web Push Notification service
 class WebPushService {
-  private vapidPublicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
   private subscription: PushSubscription | null = null;
 
+  // The server's key wins so subscriptions match what pushes are signed with
+  private async getVapidPublicKey(): Promise<string | undefined> {
+    try {
+      const response = await fetch('/api/notifications/vapid-key');
+      if (response.ok) {
+        const result = await response.json();
+        if (result.data?.publicKey) return result.data.publicKey;
+      }
+    } catch (error) {
+      console.error('Error fetching VAPID public key:', error);
+    }
+    return process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  }
+
+  // Upsert is idempotent, and re-saving restores a subscription the server pruned
+  private async saveSubscription(subscription: PushSubscription): Promise<void> {
+    await fetch('/api/notifications/subscribe', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        subscription: subscription.toJSON(),
+      }),
+    });
+  }
+
   async initialize(): Promise<boolean> {
     if (!('serviceWorker' in navigator) || !('PushManager' in window)) {
       console.warn('Web Push Notifications not supported');
@@ -62,19 +86,21 @@ class WebPushService {
     }
 
     try {
-      if (!this.vapidPublicKey) {
-        console.warn('VAPID public key not found');
-        return false;
-      }
-
       const registration = await navigator.serviceWorker.ready;
       const existingSubscription = await registration.pushManager.getSubscription();
 
       if (existingSubscription) {
         this.subscription = existingSubscription;
+        await this.saveSubscription(existingSubscription);
         return true;
       }
 
+      const vapidPublicKey = await this.getVapidPublicKey();
+      if (!vapidPublicKey) {
+        console.warn('VAPID public key not found');
+        return false;
+      }
+
       // Request permission
       const permission = await Notification.requestPermission();
       if (permission !== 'granted') {
@@ -85,19 +111,13 @@ class WebPushService {
       // Subscribe
       const subscription = await registration.pushManager.subscribe({
         userVisibleOnly: true,
-        applicationServerKey: this.vapidPublicKey,
+        applicationServerKey: vapidPublicKey,
       });
 
       this.subscription = subscription;
 
       // Send subscription to server
-      await fetch('/api/notifications/subscribe', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          subscription: subscription.toJSON(),
-        }),
-      });
+      await this.saveSubscription(subscription);
 
       return true;
     } catch (error) {
@@ -110,8 +130,14 @@ class WebPushService {
     if (!this.subscription) return true;
 
     try {
+      const { endpoint } = this.subscription;
       await this.subscription.unsubscribe();
       this.subscription = null;
+      await fetch('/api/notifications/subscribe', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ endpoint }),
+      });
       return true;
     } catch (error) {
       console.error('Error unsubscribing from push notifications:', error);
@@ -362,13 +388,10 @@ export default function NotificationSystem() {
 
   // Initialize web push notifications
   useEffect(() => {
+    // The subscription outlives the page so pushes arrive while the app is closed
     if (session?.user?.id) {
       webPushService.initialize().then(setIsPushEnabled);
     }
-
-    return () => {
-      webPushService.unsubscribe();
-    };
   }, [session?.user?.id, webPushService]);
 
   return (
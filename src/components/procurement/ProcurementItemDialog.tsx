@@ -0,0 +1,278 @@
+// src/components/procurement/ProcurementItemDialog.tsx - Add or edit a procurement item
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import ContractorDatalist, { SUPPLIER_DATALIST_ID } from '@/components/contractors/ContractorDatalist';
+import {
+  PROCUREMENT_CATEGORIES,
+  PROCUREMENT_CATEGORY_LABELS,
+  PROCUREMENT_STATUSES,
+  PROCUREMENT_STATUS_LABELS,
+  ProcurementCategory,
+  ProcurementItem,
+  ProcurementStatus
+} from '@/lib/types/procurement';
+
+// Radix Select can't hold an empty value
+const NO_ACTIVITY = 'none';
+
+interface SchedulePhaseOption {
+  _id: string;
+  name: string;
+  activities: Array<{ _id: string; title: string }>;
+}
+
+interface ProcurementItemDialogProps {
+  projectId: string;
+  open: boolean;
+  initial: ProcurementItem | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => Promise<void>;
+}
+
+const toDateInput = (value?: string) => value ? value.slice(0, 10) : '';
+
+export default function ProcurementItemDialog({ projectId, open, initial, onOpenChange, onSaved }: ProcurementItemDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [category, setCategory] = useState<ProcurementCategory>('furniture');
+  const [supplier, setSupplier] = useState('');
+  const [quantity, setQuantity] = useState('1');
+  const [unit, setUnit] = useState('');
+  const [unitCost, setUnitCost] = useState('0');
+  const [status, setStatus] = useState<ProcurementStatus>('specified');
+  const [orderDate, setOrderDate] = useState('');
+  const [expectedDelivery, setExpectedDelivery] = useState('');
+  const [actualDelivery, setActualDelivery] = useState('');
+  const [activityId, setActivityId] = useState(NO_ACTIVITY);
+  const [notes, setNotes] = useState('');
+  const [phases, setPhases] = useState<SchedulePhaseOption[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setName(initial?.name || '');
+    setDescription(initial?.description || '');
+    setCategory(initial?.category || 'furniture');
+    setSupplier(initial?.supplier || '');
+    setQuantity(initial ? String(initial.quantity) : '1');
+    setUnit(initial?.unit || '');
+    setUnitCost(initial ? String(initial.unitCost ?? 0) : '0');
+    setStatus(initial?.status || 'specified');
+    setOrderDate(toDateInput(initial?.orderDate));
+    setExpectedDelivery(toDateInput(initial?.expectedDelivery));
+    setActualDelivery(toDateInput(initial?.actualDelivery));
+    setActivityId(initial?.activityId || NO_ACTIVITY);
+    setNotes(initial?.notes || '');
+
+    fetch(`/api/projects/${projectId}/schedule`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setPhases(data.data.phases || []);
+      })
+      .catch(err => console.error('Error fetching schedule activities:', err));
+  }, [open, initial, projectId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const response = await fetch(
+        initial ? `/api/projects/${projectId}/procurement/${initial._id}` : `/api/projects/${projectId}/procurement`,
+        {
+          method: initial ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            name,
+            description,
+            category,
+            supplier,
+            quantity: Number(quantity || 0),
+            unit,
+            unitCost: Number(unitCost || 0),
+            status,
+            orderDate: orderDate || undefined,
+            expectedDelivery: expectedDelivery || undefined,
+            actualDelivery: actualDelivery || undefined,
+            activityId: activityId === NO_ACTIVITY ? undefined : activityId,
+            notes
+          })
+        }
+      );
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast({ title: 'Success', description: data.message });
+      onOpenChange(false);
+      await onSaved();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save item'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const schedulable = phases.filter(phase => phase.activities?.length > 0);
+  // Client approval is recorded by the client, so staff only see it on items already approved
+  const statuses = PROCUREMENT_STATUSES.filter(option => option !== 'client_approved' || initial?.status === 'client_approved');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initial ? `Edit ${initial.name}` : 'Add Procurement Item'}</DialogTitle>
+          <DialogDescription>
+            Link the item to the activity that needs it on site to be warned when its delivery is late.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pi-name">Item *</Label>
+              <Input
+                id="pi-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Pendant lights - dining"
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Category</Label>
+              <Select value={category} onValueChange={(value) => setCategory(value as ProcurementCategory)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROCUREMENT_CATEGORIES.map(option => (
+                    <SelectItem key={option} value={option}>{PROCUREMENT_CATEGORY_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pi-description">Specification</Label>
+            <Textarea
+              id="pi-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+              placeholder="Model, finish, size..."
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
+            <div className="space-y-2 sm:col-span-2">
+              <Label htmlFor="pi-supplier">Supplier</Label>
+              <Input id="pi-supplier" list={SUPPLIER_DATALIST_ID} value={supplier} onChange={(e) => setSupplier(e.target.value)} />
+              <ContractorDatalist kind="supplier" />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pi-quantity">Quantity *</Label>
+              <Input id="pi-quantity" type="number" min="0" step="any" value={quantity} onChange={(e) => setQuantity(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pi-unit">Unit</Label>
+              <Input id="pi-unit" value={unit} onChange={(e) => setUnit(e.target.value)} placeholder="pcs, m²" />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pi-cost">Unit Cost (₦)</Label>
+              <Input id="pi-cost" type="number" min="0" step="0.01" value={unitCost} onChange={(e) => setUnitCost(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={(value) => setStatus(value as ProcurementStatus)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {statuses.map(option => (
+                    <SelectItem key={option} value={option}>{PROCUREMENT_STATUS_LABELS[option]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="pi-order-date">Order Date</Label>
+              <Input id="pi-order-date" type="date" value={orderDate} onChange={(e) => setOrderDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pi-expected">Expected Delivery</Label>
+              <Input id="pi-expected" type="date" value={expectedDelivery} onChange={(e) => setExpectedDelivery(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="pi-delivered">Delivered On</Label>
+              <Input id="pi-delivered" type="date" value={actualDelivery} onChange={(e) => setActualDelivery(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Needed For</Label>
+            <Select value={activityId} onValueChange={setActivityId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Schedule activity" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_ACTIVITY}>Not linked to an activity</SelectItem>
+                {schedulable.map(phase => (
+                  <SelectGroup key={phase._id}>
+                    <SelectLabel>{phase.name}</SelectLabel>
+                    {phase.activities.map(activity => (
+                      <SelectItem key={activity._id} value={activity._id}>{activity.title}</SelectItem>
+                    ))}
+                  </SelectGroup>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="pi-notes">Notes</Label>
+            <Textarea id="pi-notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save Item'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
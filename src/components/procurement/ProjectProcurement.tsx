@@ -0,0 +1,255 @@
+// src/components/procurement/ProjectProcurement.tsx - Procurement tab on the project page
+// Staff track FF&E and materials from specification to installation; the
+// client approves specified items before they are ordered.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, Calendar, Check, Edit, Link2, Package, Plus, Trash2, Truck } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import {
+  PROCUREMENT_CATEGORY_LABELS,
+  PROCUREMENT_STATUSES,
+  PROCUREMENT_STATUS_LABELS,
+  ProcurementItem,
+  ProcurementStatus,
+  ProjectProcurementData
+} from '@/lib/types/procurement';
+import ProcurementItemDialog from './ProcurementItemDialog';
+
+const STATUS_COLORS: Record<ProcurementStatus, string> = {
+  specified: 'bg-gray-100 text-gray-800',
+  client_approved: 'bg-purple-100 text-purple-800',
+  ordered: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-amber-100 text-amber-800',
+  installed: 'bg-green-100 text-green-800'
+};
+
+interface ProjectProcurementProps {
+  projectId: string;
+  canManage?: boolean;
+  canApprove?: boolean;
+}
+
+const formatDay = (value: string) => format(new Date(value), 'MMM d, yyyy');
+
+export default function ProjectProcurement({ projectId, canManage = false, canApprove = false }: ProjectProcurementProps) {
+  const { toast } = useToast();
+  const [data, setData] = useState<ProjectProcurementData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ProcurementStatus | 'all'>('all');
+  const [formDialog, setFormDialog] = useState<{ open: boolean; item: ProcurementItem | null }>({ open: false, item: null });
+
+  const fetchItems = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/procurement`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load procurement items');
+      }
+      setData(result.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching procurement items:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load procurement items');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchItems();
+  }, [fetchItems]);
+
+  const send = async (item: ProcurementItem, method: 'POST' | 'DELETE', path = '') => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/procurement/${item._id}${path}`, { method });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Request failed');
+      }
+      toast({ title: 'Success', description: result.message });
+      await fetchItems();
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Request failed'
+      });
+    }
+  };
+
+  const approve = (item: ProcurementItem) => {
+    if (!confirm(`Approve ${item.name} for order?`)) return;
+    send(item, 'POST', '/approve');
+  };
+
+  const remove = (item: ProcurementItem) => {
+    if (!confirm(`Delete ${item.name}?`)) return;
+    send(item, 'DELETE');
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-red-600">{error}</CardContent>
+      </Card>
+    );
+  }
+
+  if (!data) {
+    return <p className="text-sm text-gray-500">Loading procurement items...</p>;
+  }
+
+  const { summary } = data;
+  const items = filter === 'all' ? data.items : data.items.filter(item => item.status === filter);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold">Procurement</h3>
+          <p className="text-xs sm:text-sm text-gray-500">
+            {summary.totalItems} item{summary.totalItems === 1 ? '' : 's'}
+            {summary.totalCost !== undefined && ` · ${formatCurrency(summary.totalCost)}`}
+            {' · '}{summary.byStatus.installed} installed
+          </p>
+        </div>
+        {canManage && (
+          <Button size="sm" onClick={() => setFormDialog({ open: true, item: null })}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Item
+          </Button>
+        )}
+      </div>
+
+      {summary.lateDeliveries > 0 && (
+        <div className="flex items-center gap-2 rounded-md bg-red-50 px-3 py-2 text-sm text-red-800">
+          <AlertTriangle className="h-4 w-4" />
+          {summary.lateDeliveries} item{summary.lateDeliveries === 1 ? ' is' : 's are'} expected after the activity that needs {summary.lateDeliveries === 1 ? 'it' : 'them'} starts
+        </div>
+      )}
+      {canApprove && summary.awaitingApproval > 0 && (
+        <div className="flex items-center gap-2 rounded-md bg-purple-50 px-3 py-2 text-sm text-purple-800">
+          <Check className="h-4 w-4" />
+          {summary.awaitingApproval} item{summary.awaitingApproval === 1 ? '' : 's'} waiting for your approval
+        </div>
+      )}
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {(['all', ...PROCUREMENT_STATUSES] as const).map(status => (
+          <Button
+            key={status}
+            size="sm"
+            variant={filter === status ? 'default' : 'outline'}
+            onClick={() => setFilter(status)}
+            className="shrink-0"
+          >
+            {status === 'all' ? 'All' : PROCUREMENT_STATUS_LABELS[status]}
+            <span className="ml-1 text-xs opacity-75">{status === 'all' ? summary.totalItems : summary.byStatus[status]}</span>
+          </Button>
+        ))}
+      </div>
+
+      {items.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <Package className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+            <p className="text-sm text-gray-500">
+              {data.items.length === 0 ? 'No items have been specified yet.' : 'No items with this status.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {items.map(item => (
+            <div key={item._id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-medium text-gray-900">{item.name}</span>
+                    <Badge className={STATUS_COLORS[item.status]}>{PROCUREMENT_STATUS_LABELS[item.status]}</Badge>
+                    <Badge variant="outline">{PROCUREMENT_CATEGORY_LABELS[item.category]}</Badge>
+                    {item.deliveryLateDays && (
+                      <Badge className="bg-red-100 text-red-800">
+                        {item.deliveryLateDays} day{item.deliveryLateDays === 1 ? '' : 's'} late
+                      </Badge>
+                    )}
+                  </div>
+                  {item.description && <p className="text-sm text-gray-600 mt-1">{item.description}</p>}
+                </div>
+                <div className="flex shrink-0 items-center">
+                  {canApprove && item.status === 'specified' && (
+                    <Button size="sm" onClick={() => approve(item)}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                  )}
+                  {canManage && (
+                    <>
+                      <Button size="sm" variant="ghost" onClick={() => setFormDialog({ open: true, item })}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="ghost" onClick={() => remove(item)}>
+                        <Trash2 className="h-4 w-4 text-red-500" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                <span>
+                  {item.quantity} {item.unit || 'pcs'}
+                  {item.unitCost !== undefined && ` × ${formatCurrency(item.unitCost)} = ${formatCurrency(item.totalCost || 0)}`}
+                </span>
+                {item.supplier && <span>{item.supplier}</span>}
+                {item.orderDate && (
+                  <span className="flex items-center gap-1">
+                    <Calendar className="h-3 w-3" />
+                    Ordered {formatDay(item.orderDate)}
+                  </span>
+                )}
+                {item.actualDelivery ? (
+                  <span className="flex items-center gap-1">
+                    <Truck className="h-3 w-3" />
+                    Delivered {formatDay(item.actualDelivery)}
+                  </span>
+                ) : item.expectedDelivery && (
+                  <span className={`flex items-center gap-1 ${item.deliveryLateDays ? 'text-red-700' : ''}`}>
+                    <Truck className="h-3 w-3" />
+                    Expected {formatDay(item.expectedDelivery)}
+                  </span>
+                )}
+                {item.activityTitle && (
+                  <span className="flex items-center gap-1">
+                    <Link2 className="h-3 w-3" />
+                    {item.activityTitle}
+                    {item.activityStart && ` (starts ${formatDay(item.activityStart)})`}
+                  </span>
+                )}
+                {item.clientApproval && (
+                  <span>Approved by {item.clientApproval.name} on {formatDay(item.clientApproval.at)}</span>
+                )}
+              </div>
+
+              {item.notes && <p className="text-xs text-gray-600 bg-gray-50 rounded px-2 py-1">{item.notes}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {canManage && (
+        <ProcurementItemDialog
+          projectId={projectId}
+          open={formDialog.open}
+          initial={formDialog.item}
+          onOpenChange={(open) => setFormDialog(current => ({ ...current, open }))}
+          onSaved={fetchItems}
+        />
+      )}
+    </div>
+  );
+}
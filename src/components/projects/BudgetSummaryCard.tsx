@@ -0,0 +1,138 @@
+// src/components/projects/BudgetSummaryCard.tsx - Budget vs actual widget for the project sidebar
+'use client';
+
+import { format } from 'date-fns';
+import { AlertTriangle, DollarSign } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { formatCurrency } from '@/lib/utils';
+import {
+  COST_CATEGORY_LABELS,
+  isProjectBudgetData,
+  ClientBudgetData,
+  PaymentSummary,
+  ProjectBudgetData
+} from '@/lib/types/budget';
+
+interface BudgetSummaryCardProps {
+  budget: ProjectBudgetData | ClientBudgetData | null;
+  loading: boolean;
+  error?: string | null;
+}
+
+function Row({ label, value, className = '' }: { label: string; value: string; className?: string }) {
+  return (
+    <div className="flex items-center justify-between">
+      <span className="text-xs sm:text-sm text-gray-500">{label}</span>
+      <span className={`font-medium text-sm sm:text-base ${className}`}>{value}</span>
+    </div>
+  );
+}
+
+function PaymentRows({ payments }: { payments: PaymentSummary }) {
+  if (payments.scheduled === 0) {
+    return <p className="text-xs text-gray-500">No payment milestones scheduled</p>;
+  }
+
+  return (
+    <>
+      <Row label="Received" value={formatCurrency(payments.received)} className="text-green-700" />
+      <Row label="Outstanding" value={formatCurrency(payments.outstanding)} />
+      {payments.overdueCount > 0 && (
+        <Row label={`Overdue (${payments.overdueCount})`} value={formatCurrency(payments.overdue)} className="text-red-600" />
+      )}
+      {payments.nextDue && (
+        <p className="text-xs text-gray-500">
+          Next: {payments.nextDue.title} · {formatCurrency(payments.nextDue.amount)} due{' '}
+          {format(new Date(payments.nextDue.dueDate), 'MMM d, yyyy')}
+        </p>
+      )}
+    </>
+  );
+}
+
+export default function BudgetSummaryCard({ budget, loading, error }: BudgetSummaryCardProps) {
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base sm:text-lg flex items-center gap-2">
+          <DollarSign className="h-4 w-4 sm:h-5 sm:w-5" />
+          Budget
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : loading || !budget ? (
+          <p className="text-sm text-gray-500">Loading budget...</p>
+        ) : isProjectBudgetData(budget) ? (
+          <>
+            <Row label="Contract Value" value={budget.summary.contractValue ? formatCurrency(budget.summary.contractValue) : 'Not set'} />
+            <Row label="Cost Budget" value={formatCurrency(budget.summary.budgeted)} />
+            <Row label="Committed" value={formatCurrency(budget.summary.committed)} />
+            <Row
+              label="Spent"
+              value={formatCurrency(budget.summary.actual)}
+              className={budget.summary.overBudget ? 'text-red-600' : ''}
+            />
+
+            {budget.summary.budgeted > 0 && (
+              <div>
+                <Progress
+                  value={Math.min(budget.summary.percentSpent, 100)}
+                  className={`h-2 ${budget.summary.overBudget ? '[&>div]:bg-red-500' : ''}`}
+                />
+                <div className="flex items-center justify-between mt-1 text-xs text-gray-500">
+                  <span>{budget.summary.percentSpent}% of budget spent</span>
+                  {budget.summary.overBudget && (
+                    <Badge className="bg-red-100 text-red-800 gap-1">
+                      <AlertTriangle className="h-3 w-3" />
+                      Over budget
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {budget.summary.categories.some(category => category.budgeted > 0 || category.actual > 0) && (
+              <div className="space-y-2 border-t border-gray-100 pt-3">
+                {budget.summary.categories
+                  .filter(category => category.budgeted > 0 || category.actual > 0)
+                  .map(category => {
+                    const percent = category.budgeted > 0
+                      ? Math.round((category.actual / category.budgeted) * 100)
+                      : 100;
+                    return (
+                      <div key={category.category}>
+                        <div className="flex items-center justify-between text-xs">
+                          <span className="text-gray-600">{COST_CATEGORY_LABELS[category.category]}</span>
+                          <span className={category.actual > category.budgeted ? 'text-red-600' : 'text-gray-500'}>
+                            {formatCurrency(category.actual)} / {formatCurrency(category.budgeted)}
+                          </span>
+                        </div>
+                        <Progress
+                          value={Math.min(percent, 100)}
+                          className={`h-1.5 mt-1 ${category.actual > category.budgeted ? '[&>div]:bg-red-500' : ''}`}
+                        />
+                      </div>
+                    );
+                  })}
+              </div>
+            )}
+
+            <div className="space-y-2 border-t border-gray-100 pt-3">
+              <p className="text-xs font-medium uppercase tracking-wide text-gray-500">Client Payments</p>
+              <PaymentRows payments={budget.payments} />
+            </div>
+          </>
+        ) : (
+          <>
+            <Row label="Contract Value" value={budget.contractValue ? formatCurrency(budget.contractValue) : 'Not set'} />
+            <PaymentRows payments={budget.payments} />
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -26,6 +26,7 @@ import {
 } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { useRouter } from 'next/navigation';
+import type { ProjectTemplateSummary } from '@/lib/types/template';
 
 interface User {
   _id: string;
@@ -44,8 +45,12 @@ interface FormData {
   budget: string;
   priority: 'low' | 'medium' | 'high' | 'urgent';
   tags: string;
+  templateId: string;
 }
 
+// Radix Select items can't have an empty value
+const NO_TEMPLATE = 'none';
+
 export default function CreateProjectButton() {
   const { toast } = useToast();
   const router = useRouter();
@@ -54,6 +59,7 @@ export default function CreateProjectButton() {
   const [clients, setClients] = useState<User[]>([]);
   const [managers, setManagers] = useState<User[]>([]);
   const [selectedManagers, setSelectedManagers] = useState<User[]>([]);
+  const [templates, setTemplates] = useState<ProjectTemplateSummary[]>([]);
   const [formData, setFormData] = useState<FormData>({
     title: '',
     description: '',
@@ -63,7 +69,8 @@ export default function CreateProjectButton() {
     endDate: '',
     budget: '',
     priority: 'medium',
-    tags: ''
+    tags: '',
+    templateId: NO_TEMPLATE
   });
 
   // Fetch users when dialog opens
@@ -75,9 +82,10 @@ export default function CreateProjectButton() {
 
   const fetchUsers = async () => {
     try {
-      const [clientsRes, managersRes] = await Promise.all([
+      const [clientsRes, managersRes, templatesRes] = await Promise.all([
         fetch('/api/users?role=client&limit=100'),
-        fetch('/api/users?role=project_manager&limit=100')
+        fetch('/api/users?role=project_manager&limit=100'),
+        fetch('/api/project-templates')
       ]);
 
       if (clientsRes.ok) {
@@ -89,6 +97,11 @@ export default function CreateProjectButton() {
         const managersData = await managersRes.json();
         setManagers(managersData.data?.users || managersData.data || []);
       }
+
+      if (templatesRes.ok) {
+        const templatesData = await templatesRes.json();
+        setTemplates(templatesData.data || []);
+      }
     } catch (error) {
       console.error('Error fetching users:', error);
       toast({
@@ -132,6 +145,16 @@ export default function CreateProjectButton() {
       return;
     }
 
+    const useTemplate = formData.templateId !== NO_TEMPLATE;
+    if (useTemplate && !formData.startDate) {
+      toast({
+        variant: 'destructive',
+        title: 'Validation Error',
+        description: 'Choose a start date to lay out the template schedule',
+      });
+      return;
+    }
+
     try {
       setLoading(true);
 
@@ -144,7 +167,8 @@ export default function CreateProjectButton() {
         endDate: formData.endDate || undefined,
         budget: formData.budget ? Number(formData.budget) : undefined,
         priority: formData.priority,
-        tags: formData.tags ? formData.tags.split(',').map(t => t.trim()) : []
+        tags: formData.tags ? formData.tags.split(',').map(t => t.trim()) : [],
+        templateId: useTemplate ? formData.templateId : undefined
       };
 
       const response = await fetch('/api/projects', {
@@ -177,7 +201,8 @@ export default function CreateProjectButton() {
         endDate: '',
         budget: '',
         priority: 'medium',
-        tags: ''
+        tags: '',
+        templateId: NO_TEMPLATE
       });
       setSelectedManagers([]);
 
@@ -339,6 +364,32 @@ export default function CreateProjectButton() {
             </div>
           </div>
 
+          {/* Template */}
+          <div className="space-y-2">
+            <Label htmlFor="templateId">Project Template</Label>
+            <Select
+              value={formData.templateId}
+              onValueChange={(value) => setFormData(prev => ({ ...prev, templateId: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_TEMPLATE}>Empty schedule</SelectItem>
+                {templates.map((template) => (
+                  <SelectItem key={template._id} value={template._id}>
+                    {template.name} - {template.phaseCount} phases, {template.totalDuration} working days
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {formData.templateId !== NO_TEMPLATE && (
+              <p className="text-sm text-gray-600">
+                Phases, activities and milestones are scheduled from the start date. Leave the end date empty to use the template&apos;s finish date.
+              </p>
+            )}
+          </div>
+
           {/* Budget and Priority */}
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
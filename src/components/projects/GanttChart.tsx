@@ -0,0 +1,507 @@
+// src/components/projects/GanttChart.tsx - Gantt view of Project.siteSchedule
+// Phases and activities as bars with progress fill, dependency arrows, a today
+// line and milestone diamonds. Managers can drag bars to reschedule and drag the
+// right edge to change duration; changes save through the schedule activities API.
+'use client';
+
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import { ChevronDown, ChevronRight, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import type { Activity, Phase } from '@/types/activity';
+
+export interface GanttMilestone {
+  _id?: string;
+  title: string;
+  targetDate?: string;
+  completedDate?: string;
+  status?: string;
+}
+
+interface GanttChartProps {
+  projectId: string;
+  phases: Phase[];
+  milestones?: GanttMilestone[];
+  editable?: boolean;
+  onActivityClick?: (activityId: string) => void;
+  onScheduleChange?: () => void;
+}
+
+type Zoom = 'day' | 'week' | 'month';
+
+// Activities created through /api/projects/[id]/schedule/activities use planned* names
+type GanttActivity = Activity & { plannedStartDate?: string; plannedEndDate?: string };
+
+type GanttRow =
+  | { kind: 'phase'; phase: Phase; start: Date; end: Date }
+  | { kind: 'activity'; phase: Phase; activity: GanttActivity; start: Date; end: Date };
+
+interface DragState {
+  activityId: string;
+  phaseId: string;
+  mode: 'move' | 'resize';
+  originX: number;
+  deltaDays: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_WIDTH: Record<Zoom, number> = { day: 36, week: 14, month: 5 };
+const ZOOM_LEVELS: Zoom[] = ['month', 'week', 'day'];
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 48;
+const LABEL_WIDTH = 240;
+
+const STATUS_COLORS: Record<string, { track: string; fill: string }> = {
+  completed: { track: 'bg-green-200', fill: 'bg-green-500' },
+  in_progress: { track: 'bg-blue-200', fill: 'bg-blue-500' },
+  delayed: { track: 'bg-red-200', fill: 'bg-red-500' },
+  on_hold: { track: 'bg-yellow-200', fill: 'bg-yellow-500' },
+  'to-do': { track: 'bg-gray-200', fill: 'bg-gray-500' }
+};
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+function getActivityRange(activity: GanttActivity): { start: Date; end: Date } | null {
+  const start = activity.startDate || activity.plannedStartDate;
+  const end = activity.endDate || activity.plannedEndDate;
+  if (!start || !end) return null;
+  const startDate = new Date(start);
+  const endDate = new Date(end);
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) return null;
+  return { start: startDate, end: endDate < startDate ? startDate : endDate };
+}
+
+export default function GanttChart({
+  projectId,
+  phases,
+  milestones = [],
+  editable = false,
+  onActivityClick,
+  onScheduleChange
+}: GanttChartProps) {
+  const { toast } = useToast();
+  const [zoom, setZoom] = useState<Zoom>('week');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const [criticalIds, setCriticalIds] = useState<Set<string>>(new Set());
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchCriticalPath = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/schedule/critical-path`, { cache: 'no-store' });
+      if (response.ok) {
+        const data = await response.json();
+        setCriticalIds(new Set(data.data?.criticalPath || []));
+      }
+    } catch (error) {
+      console.error('Error fetching critical path:', error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchCriticalPath();
+  }, [fetchCriticalPath, phases]);
+
+  const dayWidth = DAY_WIDTH[zoom];
+
+  // Build visible rows; phase bars span their activities (or their own dates when empty)
+  const rows = useMemo<GanttRow[]>(() => {
+    const result: GanttRow[] = [];
+    phases.forEach(phase => {
+      const activities = phase.activities
+        .map(activity => ({ activity: activity as GanttActivity, range: getActivityRange(activity as GanttActivity) }))
+        .filter((item): item is { activity: GanttActivity; range: { start: Date; end: Date } } => item.range !== null);
+
+      const phaseStart = activities.length > 0
+        ? new Date(Math.min(...activities.map(item => item.range.start.getTime())))
+        : new Date(phase.startDate);
+      const phaseEnd = activities.length > 0
+        ? new Date(Math.max(...activities.map(item => item.range.end.getTime())))
+        : new Date(phase.endDate);
+
+      if (isNaN(phaseStart.getTime()) || isNaN(phaseEnd.getTime())) return;
+      result.push({ kind: 'phase', phase, start: phaseStart, end: phaseEnd });
+
+      if (collapsed.has(phase._id)) return;
+      activities
+        .sort((a, b) => a.range.start.getTime() - b.range.start.getTime())
+        .forEach(item => {
+          result.push({ kind: 'activity', phase, activity: item.activity, start: item.range.start, end: item.range.end });
+        });
+    });
+    return result;
+  }, [phases, collapsed]);
+
+  const datedMilestones = useMemo(
+    () => milestones.filter(milestone => milestone.targetDate),
+    [milestones]
+  );
+  const milestoneRowOffset = datedMilestones.length > 0 ? 1 : 0;
+
+  const { rangeStart, totalDays } = useMemo(() => {
+    const times = [
+      ...rows.flatMap(row => [row.start.getTime(), row.end.getTime()]),
+      ...datedMilestones.map(milestone => new Date(milestone.targetDate!).getTime()),
+      Date.now()
+    ];
+    const first = startOfDay(new Date(Math.min(...times) - 3 * DAY_MS));
+    const last = startOfDay(new Date(Math.max(...times) + 7 * DAY_MS));
+    return {
+      rangeStart: first,
+      totalDays: Math.ceil((last.getTime() - first.getTime()) / DAY_MS) + 1
+    };
+  }, [rows, datedMilestones]);
+
+  const timelineWidth = totalDays * dayWidth;
+  const x = (date: Date) => ((date.getTime() - rangeStart.getTime()) / DAY_MS) * dayWidth;
+
+  // Dates of a bar while it is being dragged
+  const previewRange = (row: Extract<GanttRow, { kind: 'activity' }>) => {
+    if (!drag || drag.activityId !== row.activity._id) return { start: row.start, end: row.end };
+    const delta = drag.deltaDays * DAY_MS;
+    if (drag.mode === 'move') {
+      return { start: new Date(row.start.getTime() + delta), end: new Date(row.end.getTime() + delta) };
+    }
+    const end = new Date(row.end.getTime() + delta);
+    return { start: row.start, end: end < row.start ? row.start : end };
+  };
+
+  const rowIndex = new Map<string, number>();
+  rows.forEach((row, index) => {
+    rowIndex.set(row.kind === 'phase' ? `phase:${row.phase._id}` : row.activity._id, index + milestoneRowOffset);
+  });
+
+  const saveDates = async (row: Extract<GanttRow, { kind: 'activity' }>, start: Date, end: Date) => {
+    const usesPlannedFields = !row.activity.startDate && !!row.activity.plannedStartDate;
+    const updates = usesPlannedFields
+      ? { plannedStartDate: start.toISOString(), plannedEndDate: end.toISOString() }
+      : { startDate: start.toISOString(), endDate: end.toISOString() };
+
+    try {
+      setSaving(true);
+      const response = await fetch(`/api/projects/${projectId}/schedule/activities`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ activityId: row.activity._id, phaseId: row.phase._id, updates })
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to reschedule activity');
+      }
+
+      const slipDays = data.data?.handover?.slipDays || 0;
+      toast({
+        title: 'Schedule updated',
+        description: slipDays > 0
+          ? `${data.message}. Handover moves ${slipDays} working day${slipDays === 1 ? '' : 's'} later.`
+          : data.message
+      });
+      onScheduleChange?.();
+    } catch (error) {
+      console.error('Error rescheduling activity:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to reschedule activity'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>, row: Extract<GanttRow, { kind: 'activity' }>) => {
+    if (!editable || saving) return;
+    const mode = (event.target as HTMLElement).dataset.handle === 'resize' ? 'resize' : 'move';
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDrag({ activityId: row.activity._id, phaseId: row.phase._id, mode, originX: event.clientX, deltaDays: 0 });
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!drag) return;
+    const deltaDays = Math.round((event.clientX - drag.originX) / dayWidth);
+    if (deltaDays !== drag.deltaDays) setDrag({ ...drag, deltaDays });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>, row: Extract<GanttRow, { kind: 'activity' }>) => {
+    if (!drag) {
+      if (!editable) onActivityClick?.(row.activity._id);
+      return;
+    }
+    const { deltaDays, originX } = drag;
+    const { start, end } = previewRange(row);
+    setDrag(null);
+
+    if (deltaDays !== 0) {
+      saveDates(row, start, end);
+    } else if (Math.abs(event.clientX - originX) < 4) {
+      onActivityClick?.(row.activity._id);
+    }
+  };
+
+  const togglePhase = (phaseId: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(phaseId)) {
+        next.delete(phaseId);
+      } else {
+        next.add(phaseId);
+      }
+      return next;
+    });
+  };
+
+  // Header ticks: months on top, days/weeks below
+  const months: Array<{ label: string; left: number; width: number }> = [];
+  const ticks: Array<{ label: string; left: number; weekend: boolean }> = [];
+  for (let i = 0; i < totalDays; i++) {
+    const day = new Date(rangeStart.getFullYear(), rangeStart.getMonth(), rangeStart.getDate() + i);
+    if (i === 0 || day.getDate() === 1) {
+      months.push({ label: day.toLocaleDateString('en-US', { month: 'short', year: 'numeric' }), left: i * dayWidth, width: 0 });
+    }
+    months[months.length - 1].width += dayWidth;
+
+    if (zoom === 'day') {
+      ticks.push({ label: String(day.getDate()), left: i * dayWidth, weekend: day.getDay() === 0 });
+    } else if (zoom === 'week' && day.getDay() === 1) {
+      ticks.push({ label: `${day.getDate()}/${day.getMonth() + 1}`, left: i * dayWidth, weekend: false });
+    }
+  }
+
+  const todayX = x(new Date());
+  const bodyHeight = (rows.length + milestoneRowOffset) * ROW_HEIGHT;
+
+  // Dependency arrows between bars (activity and phase level)
+  const arrows: Array<{ key: string; path: string; critical: boolean }> = [];
+  const barEdges = (key: string, start: Date, end: Date) => {
+    const index = rowIndex.get(key);
+    if (index === undefined) return null;
+    return { x1: x(start), x2: x(end), y: index * ROW_HEIGHT + ROW_HEIGHT / 2 };
+  };
+  const edgesByKey = new Map<string, { x1: number; x2: number; y: number }>();
+  rows.forEach(row => {
+    const key = row.kind === 'phase' ? `phase:${row.phase._id}` : row.activity._id;
+    const range = row.kind === 'activity' ? previewRange(row) : { start: row.start, end: row.end };
+    const edges = barEdges(key, range.start, range.end);
+    if (edges) edgesByKey.set(key, edges);
+  });
+  rows.forEach(row => {
+    const key = row.kind === 'phase' ? `phase:${row.phase._id}` : row.activity._id;
+    const dependencies = row.kind === 'phase'
+      ? (row.phase.dependencies || []).map(id => `phase:${id}`)
+      : (row.activity.dependencies || []).map(String);
+    const to = edgesByKey.get(key);
+    if (!to) return;
+
+    dependencies.forEach(dependency => {
+      const from = edgesByKey.get(dependency);
+      if (!from) return;
+      const bend = from.x2 + 8;
+      arrows.push({
+        key: `${dependency}->${key}`,
+        path: `M ${from.x2} ${from.y} H ${bend} V ${to.y} H ${to.x1 - 2}`,
+        critical: criticalIds.has(dependency) && criticalIds.has(key)
+      });
+    });
+  });
+
+  if (rows.length === 0) {
+    return (
+      <div className="py-12 text-center text-gray-500">
+        No dated activities to show on the Gantt chart yet.
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Toolbar */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600">
+          <span className="flex items-center gap-1"><span className="h-2.5 w-4 rounded bg-green-500" /> Completed</span>
+          <span className="flex items-center gap-1"><span className="h-2.5 w-4 rounded bg-blue-500" /> In progress</span>
+          <span className="flex items-center gap-1"><span className="h-2.5 w-4 rounded bg-red-500" /> Delayed</span>
+          <span className="flex items-center gap-1"><span className="h-2.5 w-4 rounded border-2 border-red-600" /> Critical path</span>
+          <span className="flex items-center gap-1"><span className="h-2.5 w-2.5 rotate-45 bg-amber-500" /> Milestone</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {editable && (
+            <span className="text-xs text-gray-500 hidden md:inline">
+              Drag a bar to reschedule, drag its right edge to change duration
+            </span>
+          )}
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setZoom(ZOOM_LEVELS[Math.max(0, ZOOM_LEVELS.indexOf(zoom) - 1)])}
+            disabled={zoom === 'month'}
+          >
+            <ZoomOut className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => setZoom(ZOOM_LEVELS[Math.min(ZOOM_LEVELS.length - 1, ZOOM_LEVELS.indexOf(zoom) + 1)])}
+            disabled={zoom === 'day'}
+          >
+            <ZoomIn className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto bg-white">
+        <div className="relative" style={{ width: LABEL_WIDTH + timelineWidth }}>
+          {/* Header */}
+          <div className="flex sticky top-0 z-20 bg-white border-b" style={{ height: HEADER_HEIGHT }}>
+            <div
+              className="sticky left-0 z-30 bg-white border-r px-3 flex items-end pb-2 text-xs font-medium text-gray-500"
+              style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+            >
+              Phase / Activity
+            </div>
+            <div className="relative" style={{ width: timelineWidth }}>
+              {months.map(month => (
+                <div
+                  key={`${month.label}-${month.left}`}
+                  className="absolute top-0 h-1/2 border-l px-1 text-xs font-medium text-gray-700 truncate"
+                  style={{ left: month.left, width: month.width }}
+                >
+                  {month.label}
+                </div>
+              ))}
+              {ticks.map(tick => (
+                <div
+                  key={tick.left}
+                  className="absolute bottom-0 h-1/2 border-l text-[10px] text-gray-500 pl-0.5"
+                  style={{ left: tick.left }}
+                >
+                  {tick.label}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Body */}
+          <div className="relative">
+            {/* Grid shading, today line and arrows sit behind/over the bars */}
+            <div className="absolute top-0 pointer-events-none" style={{ left: LABEL_WIDTH, width: timelineWidth, height: bodyHeight }}>
+              {ticks.filter(tick => tick.weekend).map(tick => (
+                <div key={tick.left} className="absolute top-0 bottom-0 bg-gray-50" style={{ left: tick.left, width: dayWidth }} />
+              ))}
+              <div className="absolute top-0 bottom-0 w-0.5 bg-red-500 z-10" style={{ left: todayX }} title="Today" />
+              <svg className="absolute inset-0 z-10 overflow-visible" width={timelineWidth} height={bodyHeight}>
+                <defs>
+                  <marker id="gantt-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                    <path d="M0,0 L6,3 L0,6 Z" fill="#6b7280" />
+                  </marker>
+                  <marker id="gantt-arrow-critical" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                    <path d="M0,0 L6,3 L0,6 Z" fill="#dc2626" />
+                  </marker>
+                </defs>
+                {arrows.map(arrow => (
+                  <path
+                    key={arrow.key}
+                    d={arrow.path}
+                    fill="none"
+                    stroke={arrow.critical ? '#dc2626' : '#9ca3af'}
+                    strokeWidth={1.25}
+                    markerEnd={`url(#${arrow.critical ? 'gantt-arrow-critical' : 'gantt-arrow'})`}
+                  />
+                ))}
+              </svg>
+            </div>
+
+            {datedMilestones.length > 0 && (
+              <div className="flex border-b" style={{ height: ROW_HEIGHT }}>
+                <div
+                  className="sticky left-0 z-20 bg-white border-r px-3 flex items-center text-sm font-medium text-gray-700"
+                  style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+                >
+                  Milestones
+                </div>
+                <div className="relative" style={{ width: timelineWidth }}>
+                  {datedMilestones.map((milestone, index) => (
+                    <div
+                      key={milestone._id || index}
+                      className={`absolute top-1/2 h-3 w-3 -ml-1.5 -mt-1.5 rotate-45 z-10 ${
+                        milestone.status === 'completed' || milestone.completedDate ? 'bg-green-500' : 'bg-amber-500'
+                      }`}
+                      style={{ left: x(new Date(milestone.targetDate!)) }}
+                      title={`${milestone.title} – ${new Date(milestone.targetDate!).toLocaleDateString()}`}
+                    />
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {rows.map(row => {
+              if (row.kind === 'phase') {
+                const isCollapsed = collapsed.has(row.phase._id);
+                return (
+                  <div key={`phase-${row.phase._id}`} className="flex border-b bg-gray-50/60" style={{ height: ROW_HEIGHT }}>
+                    <button
+                      type="button"
+                      onClick={() => togglePhase(row.phase._id)}
+                      className="sticky left-0 z-20 bg-gray-50 border-r px-2 flex items-center gap-1 text-sm font-semibold text-gray-900 text-left"
+                      style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+                    >
+                      {isCollapsed ? <ChevronRight className="h-4 w-4 shrink-0" /> : <ChevronDown className="h-4 w-4 shrink-0" />}
+                      <span className="truncate">{row.phase.name}</span>
+                    </button>
+                    <div className="relative" style={{ width: timelineWidth }}>
+                      <div
+                        className="absolute top-1/2 -translate-y-1/2 h-3 rounded-sm bg-gray-700/80"
+                        style={{ left: x(row.start), width: Math.max(4, x(row.end) - x(row.start)) }}
+                        title={`${row.phase.name}: ${row.start.toLocaleDateString()} – ${row.end.toLocaleDateString()}`}
+                      >
+                        <div className="h-full rounded-sm bg-gray-900" style={{ width: `${row.phase.progress || 0}%` }} />
+                      </div>
+                    </div>
+                  </div>
+                );
+              }
+
+              const { start, end } = previewRange(row);
+              const colors = STATUS_COLORS[row.activity.status] || STATUS_COLORS['to-do'];
+              const critical = criticalIds.has(row.activity._id);
+              const isDragging = drag?.activityId === row.activity._id;
+
+              return (
+                <div key={row.activity._id} className="flex border-b" style={{ height: ROW_HEIGHT }}>
+                  <div
+                    className="sticky left-0 z-20 bg-white border-r pl-8 pr-2 flex items-center text-sm text-gray-700 cursor-pointer hover:text-blue-600"
+                    style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+                    onClick={() => onActivityClick?.(row.activity._id)}
+                    title={row.activity.title}
+                  >
+                    <span className="truncate">{row.activity.title}</span>
+                  </div>
+                  <div className="relative" style={{ width: timelineWidth }}>
+                    <div
+                      className={`absolute top-1/2 -translate-y-1/2 h-5 rounded ${colors.track} ${
+                        critical ? 'ring-2 ring-red-600' : ''
+                      } ${editable ? 'cursor-grab touch-none' : 'cursor-pointer'} ${isDragging ? 'opacity-80 cursor-grabbing shadow' : ''}`}
+                      style={{ left: x(start), width: Math.max(6, x(end) - x(start)) }}
+                      title={`${row.activity.title}: ${start.toLocaleDateString()} – ${end.toLocaleDateString()}`}
+                      onPointerDown={(event) => handlePointerDown(event, row)}
+                      onPointerMove={handlePointerMove}
+                      onPointerUp={(event) => handlePointerUp(event, row)}
+                    >
+                      <div className={`h-full rounded ${colors.fill}`} style={{ width: `${row.activity.progress || 0}%` }} />
+                      {editable && (
+                        <div
+                          data-handle="resize"
+                          className="absolute right-0 top-0 h-full w-2 cursor-ew-resize rounded-r bg-black/10"
+                        />
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
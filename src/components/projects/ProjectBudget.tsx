@@ -0,0 +1,843 @@
+// src/components/projects/ProjectBudget.tsx - Budget tab: budget lines, costs and client payment milestones
+// Staff manage the cost budget and record commitments and expenses against it;
+// clients only see the payment schedule for their contract.
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, Edit, FileText, Paperclip, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/lib/utils';
+import {
+  COST_CATEGORIES,
+  COST_CATEGORY_LABELS,
+  isProjectBudgetData,
+  BudgetLine,
+  ClientBudgetData,
+  CostCategory,
+  CostEntry,
+  CostKind,
+  PaymentMilestone,
+  ProjectBudgetData
+} from '@/lib/types/budget';
+
+interface ProjectBudgetProps {
+  projectId: string;
+  budget: ProjectBudgetData | ClientBudgetData | null;
+  loading: boolean;
+  error?: string | null;
+  editable?: boolean;
+  onChange: () => Promise<void>;
+}
+
+interface PhaseOption {
+  _id: string;
+  name: string;
+}
+
+// Radix Select items can't have an empty value
+const NO_PHASE = 'none';
+
+const toDateInput = (value?: string) => value ? value.slice(0, 10) : '';
+const today = () => new Date().toISOString().slice(0, 10);
+const formatDate = (value: string) => format(new Date(value), 'MMM d, yyyy');
+
+// Shared request helper: every dialog and delete button reports through a toast
+async function sendBudgetRequest(url: string, method: 'POST' | 'PATCH' | 'DELETE', body?: object) {
+  const response = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined
+  });
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || 'Request failed');
+  }
+  return data;
+}
+
+function CategorySelect({ value, onChange }: { value: CostCategory; onChange: (value: CostCategory) => void }) {
+  return (
+    <Select value={value} onValueChange={(next) => onChange(next as CostCategory)}>
+      <SelectTrigger id="category">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {COST_CATEGORIES.map(category => (
+          <SelectItem key={category} value={category}>{COST_CATEGORY_LABELS[category]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface DialogProps<T> {
+  projectId: string;
+  open: boolean;
+  initial: T | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => Promise<void>;
+}
+
+function BudgetLineDialog({ projectId, open, initial, onOpenChange, onSaved }: DialogProps<BudgetLine>) {
+  const { toast } = useToast();
+  const [category, setCategory] = useState<CostCategory>('structural');
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setCategory(initial?.category || 'structural');
+    setDescription(initial?.description || '');
+    setAmount(initial ? String(initial.amount) : '');
+    setNotes(initial?.notes || '');
+  }, [open, initial]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const url = initial
+        ? `/api/projects/${projectId}/budget/lines/${initial._id}`
+        : `/api/projects/${projectId}/budget/lines`;
+      const data = await sendBudgetRequest(url, initial ? 'PATCH' : 'POST', { category, description, amount, notes });
+      toast({ title: 'Success', description: data.message });
+      onOpenChange(false);
+      await onSaved();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save budget line'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{initial ? 'Edit Budget Line' : 'Add Budget Line'}</DialogTitle>
+          <DialogDescription>Allocate part of the cost budget to a work category.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="category">Category *</Label>
+              <CategorySelect value={category} onChange={setCategory} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="amount">Amount (₦) *</Label>
+              <Input id="amount" type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} required />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="description">Description *</Label>
+            <Input id="description" value={description} onChange={(e) => setDescription(e.target.value)} placeholder="e.g. Kitchen wall and floor tiling" required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="notes">Notes</Label>
+            <Textarea id="notes" value={notes} onChange={(e) => setNotes(e.target.value)} rows={2} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function CostDialog({ projectId, open, initial, onOpenChange, onSaved }: DialogProps<CostEntry>) {
+  const { toast } = useToast();
+  const [kind, setKind] = useState<CostKind>('expense');
+  const [category, setCategory] = useState<CostCategory>('structural');
+  const [description, setDescription] = useState('');
+  const [amount, setAmount] = useState('');
+  const [vendor, setVendor] = useState('');
+  const [reference, setReference] = useState('');
+  const [date, setDate] = useState(today());
+  const [receipt, setReceipt] = useState<{ url: string; key?: string } | null>(null);
+  const [receiptFile, setReceiptFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setKind(initial?.kind || 'expense');
+    setCategory(initial?.category || 'structural');
+    setDescription(initial?.description || '');
+    setAmount(initial ? String(initial.amount) : '');
+    setVendor(initial?.vendor || '');
+    setReference(initial?.reference || '');
+    setDate(toDateInput(initial?.date) || today());
+    setReceipt(initial?.receiptUrl ? { url: initial.receiptUrl, key: initial.receiptKey } : null);
+    setReceiptFile(null);
+  }, [open, initial]);
+
+  const uploadReceipt = async (file: File) => {
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('folder', 'receipts');
+    formData.append('projectId', projectId);
+    const response = await fetch('/api/upload', { method: 'POST', body: formData });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Receipt upload failed');
+    }
+    return { url: data.url as string, key: data.key as string };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const uploaded = receiptFile ? await uploadReceipt(receiptFile) : receipt;
+      const url = initial
+        ? `/api/projects/${projectId}/budget/costs/${initial._id}`
+        : `/api/projects/${projectId}/budget/costs`;
+      const data = await sendBudgetRequest(url, initial ? 'PATCH' : 'POST', {
+        kind,
+        category,
+        description,
+        amount,
+        vendor,
+        reference,
+        date,
+        receiptUrl: uploaded?.url,
+        receiptKey: uploaded?.key
+      });
+      toast({ title: 'Success', description: data.message });
+      onOpenChange(false);
+      await onSaved();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save cost'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initial ? 'Edit Cost' : 'Record Cost'}</DialogTitle>
+          <DialogDescription>
+            Commitments are signed orders and subcontracts; expenses are money already paid out.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="kind">Type *</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as CostKind)}>
+                <SelectTrigger id="kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="expense">Expense</SelectItem>
+                  <SelectItem value="commitment">Commitment</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category">Category *</Label>
+              <CategorySelect value={category} onChange={setCategory} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="description">Description *</Label>
+            <Input id="description" value={description} onChange={(e) => setDescription(e.target.value)} required />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="amount">Amount (₦) *</Label>
+              <Input id="amount" type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="date">Date *</Label>
+              <Input id="date" type="date" value={date} onChange={(e) => setDate(e.target.value)} required />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="vendor">Vendor</Label>
+              <Input id="vendor" value={vendor} onChange={(e) => setVendor(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reference">Invoice / PO No.</Label>
+              <Input id="reference" value={reference} onChange={(e) => setReference(e.target.value)} />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="receipt">Receipt</Label>
+            {receipt && !receiptFile ? (
+              <div className="flex items-center justify-between rounded-md border px-3 py-2 text-sm">
+                <a href={receipt.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-2 text-blue-600 hover:underline">
+                  <Paperclip className="h-4 w-4" />
+                  View receipt
+                </a>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setReceipt(null)}>Remove</Button>
+              </div>
+            ) : (
+              <Input
+                id="receipt"
+                type="file"
+                accept="image/*,application/pdf"
+                onChange={(e) => setReceiptFile(e.target.files?.[0] || null)}
+              />
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PaymentDialog({ projectId, open, initial, onOpenChange, onSaved }: DialogProps<PaymentMilestone>) {
+  const { toast } = useToast();
+  const [phases, setPhases] = useState<PhaseOption[]>([]);
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [phaseId, setPhaseId] = useState(NO_PHASE);
+  const [amount, setAmount] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [status, setStatus] = useState<'pending' | 'paid'>('pending');
+  const [paidAt, setPaidAt] = useState('');
+  const [paidAmount, setPaidAmount] = useState('');
+  const [reference, setReference] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setTitle(initial?.title || '');
+    setDescription(initial?.description || '');
+    setPhaseId(initial?.phaseId || NO_PHASE);
+    setAmount(initial ? String(initial.amount) : '');
+    setDueDate(toDateInput(initial?.dueDate));
+    setStatus(initial?.status || 'pending');
+    setPaidAt(toDateInput(initial?.paidAt));
+    setPaidAmount(initial?.paidAmount !== undefined ? String(initial.paidAmount) : '');
+    setReference(initial?.reference || '');
+
+    fetch(`/api/projects/${projectId}/schedule`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setPhases(data.data.phases || []);
+      })
+      .catch(err => console.error('Error fetching schedule phases:', err));
+  }, [open, initial, projectId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const url = initial
+        ? `/api/projects/${projectId}/budget/payments/${initial._id}`
+        : `/api/projects/${projectId}/budget/payments`;
+      const data = await sendBudgetRequest(url, initial ? 'PATCH' : 'POST', {
+        title,
+        description,
+        phaseId: phaseId === NO_PHASE ? '' : phaseId,
+        amount,
+        dueDate,
+        status,
+        paidAt: status === 'paid' ? paidAt || today() : undefined,
+        paidAmount: status === 'paid' ? paidAmount : undefined,
+        reference
+      });
+      toast({ title: 'Success', description: data.message });
+      onOpenChange(false);
+      await onSaved();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save payment milestone'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initial ? 'Edit Payment Milestone' : 'Add Payment Milestone'}</DialogTitle>
+          <DialogDescription>A tranche the client pays, usually on completion of a phase.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="title">Title *</Label>
+            <Input id="title" value={title} onChange={(e) => setTitle(e.target.value)} placeholder="e.g. Second tranche - 30%" required />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="phase">Schedule Phase</Label>
+            <Select value={phaseId} onValueChange={setPhaseId}>
+              <SelectTrigger id="phase">
+                <SelectValue placeholder="Not tied to a phase" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_PHASE}>Not tied to a phase</SelectItem>
+                {phases.map(phase => (
+                  <SelectItem key={phase._id} value={phase._id}>{phase.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="amount">Amount (₦) *</Label>
+              <Input id="amount" type="number" min="0" step="0.01" value={amount} onChange={(e) => setAmount(e.target.value)} required />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="dueDate">Due Date *</Label>
+              <Input id="dueDate" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} required />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="description">Description</Label>
+            <Textarea id="description" value={description} onChange={(e) => setDescription(e.target.value)} rows={2} />
+          </div>
+          {initial && (
+            <div className="space-y-4 border-t pt-4">
+              <div className="space-y-2">
+                <Label htmlFor="status">Status</Label>
+                <Select value={status} onValueChange={(value) => setStatus(value as 'pending' | 'paid')}>
+                  <SelectTrigger id="status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="pending">Pending</SelectItem>
+                    <SelectItem value="paid">Paid</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {status === 'paid' && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="paidAt">Date Received</Label>
+                    <Input id="paidAt" type="date" value={paidAt} onChange={(e) => setPaidAt(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="paidAmount">Amount Received (₦)</Label>
+                    <Input id="paidAmount" type="number" min="0" step="0.01" value={paidAmount} onChange={(e) => setPaidAmount(e.target.value)} placeholder={amount} />
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="reference">Payment Reference</Label>
+            <Input id="reference" value={reference} onChange={(e) => setReference(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function PaymentSchedule({
+  milestones,
+  editable,
+  onMarkPaid,
+  onEdit,
+  onDelete
+}: {
+  milestones: PaymentMilestone[];
+  editable: boolean;
+  onMarkPaid?: (milestone: PaymentMilestone) => void;
+  onEdit?: (milestone: PaymentMilestone) => void;
+  onDelete?: (milestone: PaymentMilestone) => void;
+}) {
+  if (milestones.length === 0) {
+    return <p className="text-sm text-gray-500">No payment milestones have been scheduled yet.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {milestones.map(milestone => (
+        <div key={milestone._id} className="flex flex-wrap items-start justify-between gap-3 rounded-lg border p-3">
+          <div className="min-w-0">
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="font-medium text-gray-900">{milestone.title}</span>
+              {milestone.status === 'paid' ? (
+                <Badge className="bg-green-100 text-green-800">Paid</Badge>
+              ) : milestone.isOverdue ? (
+                <Badge className="bg-red-100 text-red-800">Overdue</Badge>
+              ) : (
+                <Badge className="bg-yellow-100 text-yellow-800">Pending</Badge>
+              )}
+            </div>
+            <p className="mt-1 text-sm text-gray-600">
+              {milestone.phaseName && <>{milestone.phaseName} · </>}
+              Due {formatDate(milestone.dueDate)}
+              {milestone.status === 'paid' && milestone.paidAt && <> · Received {formatDate(milestone.paidAt)}</>}
+            </p>
+            {milestone.description && <p className="mt-1 text-sm text-gray-500">{milestone.description}</p>}
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="text-right">
+              <p className="font-semibold text-gray-900">{formatCurrency(milestone.amount)}</p>
+              {milestone.status === 'paid' && milestone.paidAmount !== undefined && milestone.paidAmount !== milestone.amount && (
+                <p className="text-xs text-gray-500">{formatCurrency(milestone.paidAmount)} received</p>
+              )}
+            </div>
+            {editable && (
+              <>
+                {milestone.status !== 'paid' && (
+                  <Button variant="outline" size="sm" onClick={() => onMarkPaid?.(milestone)} title="Mark as paid">
+                    <CheckCircle className="h-4 w-4" />
+                  </Button>
+                )}
+                <Button variant="ghost" size="sm" onClick={() => onEdit?.(milestone)} title="Edit">
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => onDelete?.(milestone)} title="Delete">
+                  <Trash2 className="h-4 w-4 text-red-600" />
+                </Button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default function ProjectBudget({ projectId, budget, loading, error, editable = false, onChange }: ProjectBudgetProps) {
+  const { toast } = useToast();
+  const [lineDialog, setLineDialog] = useState<{ open: boolean; line: BudgetLine | null }>({ open: false, line: null });
+  const [costDialog, setCostDialog] = useState<{ open: boolean; cost: CostEntry | null }>({ open: false, cost: null });
+  const [paymentDialog, setPaymentDialog] = useState<{ open: boolean; payment: PaymentMilestone | null }>({ open: false, payment: null });
+
+  const remove = async (url: string, label: string) => {
+    if (!confirm(`Delete ${label}?`)) return;
+    try {
+      const data = await sendBudgetRequest(url, 'DELETE');
+      toast({ title: 'Success', description: data.message });
+      await onChange();
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to delete'
+      });
+    }
+  };
+
+  const markPaid = async (milestone: PaymentMilestone) => {
+    try {
+      const data = await sendBudgetRequest(`/api/projects/${projectId}/budget/payments/${milestone._id}`, 'PATCH', {
+        ...milestone,
+        status: 'paid',
+        paidAt: today(),
+        paidAmount: milestone.amount
+      });
+      toast({ title: 'Success', description: data.message });
+      await onChange();
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to update payment'
+      });
+    }
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-red-600">{error}</CardContent>
+      </Card>
+    );
+  }
+
+  if (loading || !budget) {
+    return <p className="text-sm text-gray-500">Loading budget...</p>;
+  }
+
+  // Clients see the contract value and what they have paid and still owe
+  if (!isProjectBudgetData(budget)) {
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-xs text-gray-500">Contract Value</p>
+              <p className="text-lg font-semibold">{budget.contractValue ? formatCurrency(budget.contractValue) : 'Not set'}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-xs text-gray-500">Paid</p>
+              <p className="text-lg font-semibold text-green-700">{formatCurrency(budget.payments.received)}</p>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="p-4">
+              <p className="text-xs text-gray-500">Outstanding</p>
+              <p className={`text-lg font-semibold ${budget.payments.overdueCount > 0 ? 'text-red-600' : ''}`}>
+                {formatCurrency(budget.payments.outstanding)}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base sm:text-lg">Payment Schedule</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <PaymentSchedule milestones={budget.paymentMilestones} editable={false} />
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { summary } = budget;
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      {/* Budget vs actual by category */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base sm:text-lg">Budget vs Actual</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b text-left text-gray-500">
+                <th className="py-2 pr-4 font-medium">Category</th>
+                <th className="py-2 pr-4 font-medium text-right">Budgeted</th>
+                <th className="py-2 pr-4 font-medium text-right">Committed</th>
+                <th className="py-2 pr-4 font-medium text-right">Actual</th>
+                <th className="py-2 font-medium text-right">Remaining</th>
+              </tr>
+            </thead>
+            <tbody>
+              {summary.categories.map(category => (
+                <tr key={category.category} className="border-b last:border-0">
+                  <td className="py-2 pr-4">{COST_CATEGORY_LABELS[category.category]}</td>
+                  <td className="py-2 pr-4 text-right">{formatCurrency(category.budgeted)}</td>
+                  <td className="py-2 pr-4 text-right">{formatCurrency(category.committed)}</td>
+                  <td className="py-2 pr-4 text-right">{formatCurrency(category.actual)}</td>
+                  <td className={`py-2 text-right ${category.remaining < 0 ? 'text-red-600' : ''}`}>
+                    {formatCurrency(category.remaining)}
+                  </td>
+                </tr>
+              ))}
+              <tr className="border-t-2 font-semibold">
+                <td className="py-2 pr-4">Total</td>
+                <td className="py-2 pr-4 text-right">{formatCurrency(summary.budgeted)}</td>
+                <td className="py-2 pr-4 text-right">{formatCurrency(summary.committed)}</td>
+                <td className="py-2 pr-4 text-right">{formatCurrency(summary.actual)}</td>
+                <td className={`py-2 text-right ${summary.remaining < 0 ? 'text-red-600' : ''}`}>
+                  {formatCurrency(summary.remaining)}
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          {summary.contractValue > 0 && summary.budgeted > summary.contractValue && (
+            <p className="mt-3 text-sm text-orange-600">
+              The cost budget exceeds the contract value of {formatCurrency(summary.contractValue)}.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Budget lines */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base sm:text-lg">Budget Lines</CardTitle>
+          {editable && (
+            <Button size="sm" onClick={() => setLineDialog({ open: true, line: null })}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Line
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {budget.lines.length === 0 ? (
+            <p className="text-sm text-gray-500">No budget lines yet. Add one per category to track spending against it.</p>
+          ) : (
+            <div className="space-y-2">
+              {budget.lines.map(line => (
+                <div key={line._id} className="flex items-center justify-between gap-3 rounded-lg border p-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{line.description}</p>
+                    <p className="text-xs text-gray-500">
+                      {COST_CATEGORY_LABELS[line.category]}
+                      {line.notes && <> · {line.notes}</>}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{formatCurrency(line.amount)}</span>
+                    {editable && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => setLineDialog({ open: true, line })} title="Edit">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => remove(`/api/projects/${projectId}/budget/lines/${line._id}`, `budget line "${line.description}"`)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Commitments and expenses */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="text-base sm:text-lg">Costs</CardTitle>
+          {editable && (
+            <Button size="sm" onClick={() => setCostDialog({ open: true, cost: null })}>
+              <Plus className="h-4 w-4 mr-2" />
+              Record Cost
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {budget.costs.length === 0 ? (
+            <p className="text-sm text-gray-500">No commitments or expenses recorded yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {budget.costs.map(cost => (
+                <div key={cost._id} className="flex flex-wrap items-center justify-between gap-3 rounded-lg border p-3">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge className={cost.kind === 'expense' ? 'bg-blue-100 text-blue-800' : 'bg-purple-100 text-purple-800'}>
+                        {cost.kind === 'expense' ? 'Expense' : 'Commitment'}
+                      </Badge>
+                      <span className="font-medium text-gray-900">{cost.description}</span>
+                    </div>
+                    <p className="mt-1 text-xs text-gray-500">
+                      {COST_CATEGORY_LABELS[cost.category]} · {formatDate(cost.date)}
+                      {cost.vendor && <> · {cost.vendor}</>}
+                      {cost.reference && <> · {cost.reference}</>}
+                      {' '}· by {cost.createdByName}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {cost.receiptUrl && (
+                      <a href={cost.receiptUrl} target="_blank" rel="noopener noreferrer" title="View receipt">
+                        <FileText className="h-4 w-4 text-blue-600" />
+                      </a>
+                    )}
+                    <span className="font-medium">{formatCurrency(cost.amount)}</span>
+                    {editable && (
+                      <>
+                        <Button variant="ghost" size="sm" onClick={() => setCostDialog({ open: true, cost })} title="Edit">
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => remove(`/api/projects/${projectId}/budget/costs/${cost._id}`, `"${cost.description}"`)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4 text-red-600" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Client payment milestones */}
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <div>
+            <CardTitle className="text-base sm:text-lg">Client Payments</CardTitle>
+            <p className="text-sm text-gray-500 mt-1">
+              {formatCurrency(budget.payments.received)} received of {formatCurrency(budget.payments.scheduled)} scheduled
+            </p>
+          </div>
+          {editable && (
+            <Button size="sm" onClick={() => setPaymentDialog({ open: true, payment: null })}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Milestone
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          <PaymentSchedule
+            milestones={budget.paymentMilestones}
+            editable={editable}
+            onMarkPaid={markPaid}
+            onEdit={(payment) => setPaymentDialog({ open: true, payment })}
+            onDelete={(payment) => remove(`/api/projects/${projectId}/budget/payments/${payment._id}`, `payment milestone "${payment.title}"`)}
+          />
+        </CardContent>
+      </Card>
+
+      <BudgetLineDialog
+        projectId={projectId}
+        open={lineDialog.open}
+        initial={lineDialog.line}
+        onOpenChange={(open) => setLineDialog(current => ({ ...current, open }))}
+        onSaved={onChange}
+      />
+      <CostDialog
+        projectId={projectId}
+        open={costDialog.open}
+        initial={costDialog.cost}
+        onOpenChange={(open) => setCostDialog(current => ({ ...current, open }))}
+        onSaved={onChange}
+      />
+      <PaymentDialog
+        projectId={projectId}
+        open={paymentDialog.open}
+        initial={paymentDialog.payment}
+        onOpenChange={(open) => setPaymentDialog(current => ({ ...current, open }))}
+        onSaved={onChange}
+      />
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 'use client';
 
 import { useState } from 'react';
+import { useRouter } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -14,7 +15,6 @@ import {
   User,
   Mail,
   Phone,
-  DollarSign,
   Clock,
   FileText,
   MessageSquare,
@@ -34,6 +34,17 @@ import {
   Plus
 } from 'lucide-react';
 import Link from 'next/link';
+import WorkCalendarSettings from '@/components/projects/WorkCalendarSettings';
+import AuditLogViewer from '@/components/audit/AuditLogViewer';
+import ProjectBudget from '@/components/projects/ProjectBudget';
+import BudgetSummaryCard from '@/components/projects/BudgetSummaryCard';
+import ProjectChangeOrders from '@/components/change-orders/ProjectChangeOrders';
+import ProjectDesigns from '@/components/designs/ProjectDesigns';
+import ProjectSnagList from '@/components/snags/ProjectSnagList';
+import ProjectProcurement from '@/components/procurement/ProjectProcurement';
+import ProjectLabor from '@/components/labor/ProjectLabor';
+import ProjectDelays from '@/components/site-conditions/ProjectDelays';
+import { useProjectBudget } from '@/hooks/useProjectBudget';
 
 // Complete TypeScript interfaces
 interface ProjectFile {
@@ -147,7 +158,9 @@ interface ProjectDetailViewProps {
 }
 
 export default function ProjectDetailView({ project, userRole, userId }: ProjectDetailViewProps) {
+  const router = useRouter();
   const [activeTab, setActiveTab] = useState('overview');
+  const { budget, loading: budgetLoading, error: budgetError, refresh: refreshBudget } = useProjectBudget(project._id);
 
   // Helper functions
   const formatFileSize = (bytes: number): string => {
@@ -233,6 +246,14 @@ export default function ProjectDetailView({ project, userRole, userId }: Project
   const canEdit = userRole === 'super_admin' || 
                  (userRole === 'project_manager' && isProjectManager);
 
+  const isProjectClient = userRole === 'client' && project.client?._id === userId;
+
+  // An approved change order moves the contract value and the schedule
+  const handleChangeOrderApplied = async () => {
+    await refreshBudget();
+    router.refresh();
+  };
+
   const canUploadFiles = userRole === 'super_admin' || 
                         (userRole === 'project_manager' && isProjectManager);
 
@@ -306,11 +327,23 @@ export default function ProjectDetailView({ project, userRole, userId }: Project
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
         <div className="lg:col-span-2 space-y-4 sm:space-y-6">
           <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-            <TabsList className="grid w-full grid-cols-4 h-auto p-1">
+            <TabsList className={`grid w-full grid-cols-3 ${canEdit ? 'sm:grid-cols-12' : 'sm:grid-cols-10'} h-auto p-1`}>
               <TabsTrigger value="overview" className="text-xs sm:text-sm px-2 py-2">Overview</TabsTrigger>
               <TabsTrigger value="schedule" className="text-xs sm:text-sm px-2 py-2">Schedule</TabsTrigger>
               <TabsTrigger value="files" className="text-xs sm:text-sm px-2 py-2">Files</TabsTrigger>
+              <TabsTrigger value="designs" className="text-xs sm:text-sm px-2 py-2">Designs</TabsTrigger>
               <TabsTrigger value="milestones" className="text-xs sm:text-sm px-2 py-2">Milestones</TabsTrigger>
+              <TabsTrigger value="budget" className="text-xs sm:text-sm px-2 py-2">Budget</TabsTrigger>
+              <TabsTrigger value="changes" className="text-xs sm:text-sm px-2 py-2">Changes</TabsTrigger>
+              <TabsTrigger value="procurement" className="text-xs sm:text-sm px-2 py-2">Procurement</TabsTrigger>
+              <TabsTrigger value="snags" className="text-xs sm:text-sm px-2 py-2">Snags</TabsTrigger>
+              {canEdit && (
+                <>
+                  <TabsTrigger value="labor" className="text-xs sm:text-sm px-2 py-2">Labor</TabsTrigger>
+                  <TabsTrigger value="delays" className="text-xs sm:text-sm px-2 py-2">Delays</TabsTrigger>
+                </>
+              )}
+              <TabsTrigger value="history" className="text-xs sm:text-sm px-2 py-2">History</TabsTrigger>
             </TabsList>
 
             {/* Overview Tab */}
@@ -367,6 +400,8 @@ export default function ProjectDetailView({ project, userRole, userId }: Project
                   )}
                 </CardContent>
               </Card>
+
+              <WorkCalendarSettings projectId={project._id} editable={canEdit} />
             </TabsContent>
 
             {/* Schedule Tab */}
@@ -536,6 +571,16 @@ export default function ProjectDetailView({ project, userRole, userId }: Project
               )}
             </TabsContent>
 
+            {/* Designs Tab */}
+            <TabsContent value="designs" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
+              <ProjectDesigns
+                projectId={project._id}
+                editable={canEdit}
+                canDecide={isProjectClient}
+                signerName={isProjectClient ? project.client.name : undefined}
+              />
+            </TabsContent>
+
             {/* Milestones Tab */}
             <TabsContent value="milestones" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
@@ -605,6 +650,73 @@ export default function ProjectDetailView({ project, userRole, userId }: Project
                 </Card>
               )}
             </TabsContent>
+
+            {/* Budget Tab */}
+            <TabsContent value="budget" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
+              <ProjectBudget
+                projectId={project._id}
+                budget={budget}
+                loading={budgetLoading}
+                error={budgetError}
+                editable={canEdit}
+                onChange={refreshBudget}
+              />
+            </TabsContent>
+
+            {/* Change Orders Tab */}
+            <TabsContent value="changes" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
+              <ProjectChangeOrders
+                projectId={project._id}
+                editable={canEdit}
+                canDecide={isProjectClient}
+                signerName={isProjectClient ? project.client.name : undefined}
+                onApplied={handleChangeOrderApplied}
+              />
+            </TabsContent>
+
+            {/* Procurement Tab */}
+            <TabsContent value="procurement" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
+              <ProjectProcurement
+                projectId={project._id}
+                canManage={canEdit}
+                canApprove={isProjectClient}
+              />
+            </TabsContent>
+
+            {/* Snag List Tab */}
+            <TabsContent value="snags" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
+              <div className="flex justify-end sm:hidden">
+                <Button variant="outline" size="sm" asChild>
+                  <Link href={`${getRoleBasePath()}/projects/${project._id}/snags`}>Open full screen</Link>
+                </Button>
+              </div>
+              <ProjectSnagList
+                projectId={project._id}
+                canManage={canEdit}
+                canVerify={isProjectClient}
+                canWaive={userRole === 'super_admin'}
+              />
+            </TabsContent>
+
+            {/* Labor Tab */}
+            {canEdit && (
+              <TabsContent value="labor" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
+                <ProjectLabor projectId={project._id} canPlan={userRole === 'super_admin'} />
+              </TabsContent>
+            )}
+
+            {/* Delays Tab */}
+            {canEdit && (
+              <TabsContent value="delays" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
+                <ProjectDelays projectId={project._id} />
+              </TabsContent>
+            )}
+
+            {/* History Tab */}
+            <TabsContent value="history" className="space-y-4 sm:space-y-6 mt-4 sm:mt-6">
+              <h3 className="text-base sm:text-lg font-semibold">Change History</h3>
+              <AuditLogViewer projectId={project._id} />
+            </TabsContent>
           </Tabs>
         </div>
 
@@ -688,21 +800,8 @@ export default function ProjectDetailView({ project, userRole, userId }: Project
             </CardContent>
           </Card>
 
-          {/* Budget Information */}
-          <Card>
-            <CardHeader className="pb-3">
-              <CardTitle className="text-base sm:text-lg flex items-center gap-2">
-                <DollarSign className="h-4 w-4 sm:h-5 sm:w-5" />
-                Budget Information
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="space-y-3">
-              <div className="flex items-center justify-between">
-                <span className="text-xs sm:text-sm text-gray-500">Total Budget</span>
-                <span className="font-medium text-sm sm:text-base">{formatCurrency(project.budget)}</span>
-              </div>
-            </CardContent>
-          </Card>
+          {/* Budget */}
+          <BudgetSummaryCard budget={budget} loading={budgetLoading} error={budgetError} />
 
           {/* Quick Stats */}
           <Card>
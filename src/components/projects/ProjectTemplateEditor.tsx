@@ -0,0 +1,455 @@
+// src/components/projects/ProjectTemplateEditor.tsx - Edit a project template
+// Phases, activities and milestones with offsets in working days from the
+// project start. Dependencies refer to other phases/activities by key.
+'use client';
+
+import { useState } from 'react';
+import { ChevronDown, Plus, Save, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { MILESTONE_PHASES } from '@/lib/types/milestone';
+import {
+  TEMPLATE_ACTIVITY_CATEGORIES,
+  TEMPLATE_ACTIVITY_PRIORITIES,
+  ProjectTemplateInput,
+  TemplateActivity,
+  TemplateMilestone,
+  TemplatePhase
+} from '@/lib/types/template';
+
+interface ProjectTemplateEditorProps {
+  templateId?: string; // omitted for a new template
+  initial: ProjectTemplateInput;
+  onSaved: () => void;
+  onCancel: () => void;
+}
+
+interface DependencyOption {
+  key: string;
+  label: string;
+}
+
+const MILESTONE_PHASE_LABELS: Record<TemplateMilestone['phase'], string> = {
+  construction: 'Construction',
+  installation: 'Installation',
+  styling: 'Set up & Styling'
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+const newKey = (prefix: string) => `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+export const emptyTemplate = (): ProjectTemplateInput => ({
+  name: '',
+  description: '',
+  phases: [{ key: newKey('phase'), name: '', activities: [], dependencies: [] }],
+  milestones: []
+});
+
+function DependencyPicker({
+  options,
+  selected,
+  onChange
+}: {
+  options: DependencyOption[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button type="button" variant="outline" size="sm" className="w-full justify-between">
+          <span className="truncate">{selected.length ? `${selected.length} selected` : 'None'}</span>
+          <ChevronDown className="h-4 w-4 ml-1 shrink-0" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="max-h-72 overflow-y-auto">
+        {options.length === 0 ? (
+          <p className="px-2 py-1.5 text-sm text-gray-500">Nothing to depend on yet</p>
+        ) : options.map(option => (
+          <DropdownMenuCheckboxItem
+            key={option.key}
+            checked={selected.includes(option.key)}
+            onSelect={(e) => e.preventDefault()}
+            onCheckedChange={(checked) => onChange(
+              checked ? [...selected, option.key] : selected.filter(key => key !== option.key)
+            )}
+          >
+            {option.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
+
+export default function ProjectTemplateEditor({ templateId, initial, onSaved, onCancel }: ProjectTemplateEditorProps) {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<ProjectTemplateInput>(initial);
+  const [saving, setSaving] = useState(false);
+
+  const allActivities = draft.phases.flatMap(phase => phase.activities);
+
+  const updatePhase = (key: string, changes: Partial<TemplatePhase>) => {
+    setDraft(prev => ({
+      ...prev,
+      phases: prev.phases.map(phase => phase.key === key ? { ...phase, ...changes } : phase)
+    }));
+  };
+
+  const removePhase = (key: string) => {
+    setDraft(prev => {
+      const removed = new Set(prev.phases.find(phase => phase.key === key)?.activities.map(a => a.key));
+      return {
+        ...prev,
+        phases: prev.phases
+          .filter(phase => phase.key !== key)
+          .map(phase => ({
+            ...phase,
+            dependencies: phase.dependencies.filter(dep => dep !== key),
+            activities: phase.activities.map(activity => ({
+              ...activity,
+              dependencies: activity.dependencies.filter(dep => !removed.has(dep))
+            }))
+          }))
+      };
+    });
+  };
+
+  const updateActivity = (phaseKey: string, activityKey: string, changes: Partial<TemplateActivity>) => {
+    setDraft(prev => ({
+      ...prev,
+      phases: prev.phases.map(phase => phase.key !== phaseKey ? phase : {
+        ...phase,
+        activities: phase.activities.map(activity => activity.key === activityKey ? { ...activity, ...changes } : activity)
+      })
+    }));
+  };
+
+  const addActivity = (phaseKey: string) => {
+    // Start new activities where the phase's last activity finishes
+    const phase = draft.phases.find(p => p.key === phaseKey);
+    const startOffset = Math.max(0, ...(phase?.activities || []).map(a => a.startOffset + a.duration));
+    const activity: TemplateActivity = {
+      key: newKey('activity'),
+      title: '',
+      category: 'other',
+      priority: 'medium',
+      startOffset,
+      duration: 1,
+      dependencies: []
+    };
+    updatePhase(phaseKey, { activities: [...(phase?.activities || []), activity] });
+  };
+
+  const removeActivity = (phaseKey: string, activityKey: string) => {
+    setDraft(prev => ({
+      ...prev,
+      phases: prev.phases.map(phase => ({
+        ...phase,
+        activities: phase.activities
+          .filter(activity => !(phase.key === phaseKey && activity.key === activityKey))
+          .map(activity => ({
+            ...activity,
+            dependencies: activity.dependencies.filter(dep => dep !== activityKey)
+          }))
+      }))
+    }));
+  };
+
+  const updateMilestone = (index: number, changes: Partial<TemplateMilestone>) => {
+    setDraft(prev => ({
+      ...prev,
+      milestones: prev.milestones.map((milestone, i) => i === index ? { ...milestone, ...changes } : milestone)
+    }));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(templateId ? `/api/project-templates/${templateId}` : '/api/project-templates', {
+        method: templateId ? 'PUT' : 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(draft)
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save template');
+      }
+      toast({ title: 'Success', description: data.message });
+      onSaved();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save template'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>{templateId ? 'Edit Template' : 'New Template'}</CardTitle>
+          <p className="text-sm text-gray-600">
+            Offsets and durations are working days, counted from the project start date on each project&apos;s calendar.
+          </p>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name *</Label>
+            <Input
+              id="template-name"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="e.g. Kitchen refurbishment"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={draft.description || ''}
+              onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+              rows={2}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      {draft.phases.map((phase, phaseIndex) => (
+        <Card key={phase.key}>
+          <CardHeader className="pb-3">
+            <div className="grid grid-cols-1 md:grid-cols-[2fr_2fr_1fr_auto] gap-3 items-end">
+              <div className="space-y-1">
+                <Label>Phase {phaseIndex + 1} *</Label>
+                <Input
+                  value={phase.name}
+                  onChange={(e) => updatePhase(phase.key, { name: e.target.value })}
+                  placeholder="Phase name"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Description</Label>
+                <Input
+                  value={phase.description || ''}
+                  onChange={(e) => updatePhase(phase.key, { description: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>After phases</Label>
+                <DependencyPicker
+                  options={draft.phases
+                    .filter(other => other.key !== phase.key)
+                    .map(other => ({ key: other.key, label: other.name || 'Untitled phase' }))}
+                  selected={phase.dependencies}
+                  onChange={(dependencies) => updatePhase(phase.key, { dependencies })}
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => removePhase(phase.key)}
+                disabled={draft.phases.length === 1}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {phase.activities.length > 0 && (
+              <div className="hidden md:grid grid-cols-[3fr_1.3fr_1.1fr_0.8fr_0.8fr_1.3fr_auto] gap-2 text-xs font-medium text-gray-500">
+                <span>Activity</span>
+                <span>Category</span>
+                <span>Priority</span>
+                <span>Start day</span>
+                <span>Days</span>
+                <span>After activities</span>
+                <span className="w-9" />
+              </div>
+            )}
+            {phase.activities.map(activity => (
+              <div
+                key={activity.key}
+                className="grid grid-cols-2 md:grid-cols-[3fr_1.3fr_1.1fr_0.8fr_0.8fr_1.3fr_auto] gap-2 items-center"
+              >
+                <Input
+                  className="col-span-2 md:col-span-1"
+                  value={activity.title}
+                  onChange={(e) => updateActivity(phase.key, activity.key, { title: e.target.value })}
+                  placeholder="Activity title"
+                />
+                <Select
+                  value={activity.category}
+                  onValueChange={(value: TemplateActivity['category']) => updateActivity(phase.key, activity.key, { category: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEMPLATE_ACTIVITY_CATEGORIES.map(category => (
+                      <SelectItem key={category} value={category}>{capitalize(category)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={activity.priority}
+                  onValueChange={(value: TemplateActivity['priority']) => updateActivity(phase.key, activity.key, { priority: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TEMPLATE_ACTIVITY_PRIORITIES.map(priority => (
+                      <SelectItem key={priority} value={priority}>{capitalize(priority)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={0}
+                  value={activity.startOffset}
+                  onChange={(e) => updateActivity(phase.key, activity.key, { startOffset: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                  aria-label="Start day"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={activity.duration}
+                  onChange={(e) => updateActivity(phase.key, activity.key, { duration: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                  aria-label="Duration in working days"
+                />
+                <DependencyPicker
+                  options={allActivities
+                    .filter(other => other.key !== activity.key)
+                    .map(other => ({ key: other.key, label: other.title || 'Untitled activity' }))}
+                  selected={activity.dependencies}
+                  onChange={(dependencies) => updateActivity(phase.key, activity.key, { dependencies })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeActivity(phase.key, activity.key)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+            <Button type="button" variant="outline" size="sm" onClick={() => addActivity(phase.key)}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Activity
+            </Button>
+          </CardContent>
+        </Card>
+      ))}
+
+      <Button
+        type="button"
+        variant="outline"
+        onClick={() => setDraft({
+          ...draft,
+          phases: [...draft.phases, { key: newKey('phase'), name: '', activities: [], dependencies: [] }]
+        })}
+      >
+        <Plus className="h-4 w-4 mr-2" />
+        Add Phase
+      </Button>
+
+      <Card>
+        <CardHeader className="pb-3">
+          <CardTitle className="text-base">Milestones</CardTitle>
+          <p className="text-sm text-gray-600">Added to the project&apos;s milestone tracker, due the given working day after the start.</p>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {draft.milestones.map((milestone, index) => (
+            <div key={index} className="grid grid-cols-2 md:grid-cols-[2fr_1.3fr_0.8fr_3fr_auto] gap-2 items-center">
+              <Input
+                className="col-span-2 md:col-span-1"
+                value={milestone.title}
+                onChange={(e) => updateMilestone(index, { title: e.target.value })}
+                placeholder="Milestone title"
+              />
+              <Select
+                value={milestone.phase}
+                onValueChange={(value: TemplateMilestone['phase']) => updateMilestone(index, { phase: value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MILESTONE_PHASES.map(phase => (
+                    <SelectItem key={phase} value={phase}>{MILESTONE_PHASE_LABELS[phase]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={0}
+                value={milestone.dayOffset}
+                onChange={(e) => updateMilestone(index, { dayOffset: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                aria-label="Due working day"
+              />
+              <Input
+                value={milestone.description || ''}
+                onChange={(e) => updateMilestone(index, { description: e.target.value })}
+                placeholder="Description"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setDraft({ ...draft, milestones: draft.milestones.filter((_, i) => i !== index) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => setDraft({
+              ...draft,
+              milestones: [...draft.milestones, { title: '', phase: 'construction', dayOffset: 0 }]
+            })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add Milestone
+          </Button>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={saving}>
+          Cancel
+        </Button>
+        <Button type="button" onClick={handleSave} disabled={saving || !draft.name.trim()}>
+          <Save className="h-4 w-4 mr-2" />
+          {saving ? 'Saving...' : 'Save Template'}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+// src/components/projects/ProjectTemplatesManager.tsx - Admin list of project templates
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { LayoutTemplate, Pencil, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import ProjectTemplateEditor, { emptyTemplate } from '@/components/projects/ProjectTemplateEditor';
+import type { ProjectTemplateInput, ProjectTemplateSummary } from '@/lib/types/template';
+
+interface EditorState {
+  templateId?: string;
+  initial: ProjectTemplateInput;
+}
+
+export default function ProjectTemplatesManager() {
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<ProjectTemplateSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editor, setEditor] = useState<EditorState | null>(null);
+
+  const fetchTemplates = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch('/api/project-templates');
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load templates');
+      }
+      setTemplates(data.data);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load templates'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [fetchTemplates]);
+
+  const handleEdit = async (template: ProjectTemplateSummary) => {
+    try {
+      const response = await fetch(`/api/project-templates/${template._id}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load template');
+      }
+      const { name, description, phases, milestones } = data.data;
+      setEditor({ templateId: template._id, initial: { name, description, phases, milestones } });
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load template'
+      });
+    }
+  };
+
+  const handleDelete = async (template: ProjectTemplateSummary) => {
+    if (!confirm(`Delete the template "${template.name}"? Projects created from it are not affected.`)) return;
+    try {
+      const response = await fetch(`/api/project-templates/${template._id}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to delete template');
+      }
+      toast({ title: 'Success', description: data.message });
+      await fetchTemplates();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete template'
+      });
+    }
+  };
+
+  if (editor) {
+    return (
+      <ProjectTemplateEditor
+        templateId={editor.templateId}
+        initial={editor.initial}
+        onSaved={() => {
+          setEditor(null);
+          fetchTemplates();
+        }}
+        onCancel={() => setEditor(null)}
+      />
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Project Templates</h1>
+          <p className="text-gray-600">Phases, activities and milestones that new projects start with</p>
+        </div>
+        <Button onClick={() => setEditor({ initial: emptyTemplate() })}>
+          <Plus className="h-4 w-4 mr-2" />
+          New Template
+        </Button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading templates...</p>
+      ) : templates.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-gray-500">
+            <LayoutTemplate className="h-10 w-10 mx-auto mb-3 text-gray-400" />
+            No templates yet. Create one, or save an existing project&apos;s schedule as a template.
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {templates.map(template => (
+            <Card key={template._id}>
+              <CardHeader className="pb-3">
+                <div className="flex items-start justify-between gap-2">
+                  <CardTitle className="text-lg">{template.name}</CardTitle>
+                  <div className="flex gap-1">
+                    <Button size="sm" variant="ghost" onClick={() => handleEdit(template)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(template)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {template.description && (
+                  <p className="text-sm text-gray-600">{template.description}</p>
+                )}
+              </CardHeader>
+              <CardContent className="flex flex-wrap gap-2">
+                <Badge variant="secondary">{template.phaseCount} phases</Badge>
+                <Badge variant="secondary">{template.activityCount} activities</Badge>
+                <Badge variant="secondary">{template.milestoneCount} milestones</Badge>
+                <Badge variant="outline">{template.totalDuration} working days</Badge>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,350 @@
+// src/components/projects/ScheduleVariance.tsx - Planned-vs-actual variance against a schedule baseline
+// Lists saved baselines, lets managers freeze the current schedule under a name,
+// and shows days slipped overall, per phase and per activity.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { Save, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { ScheduleBaselineSummary, ScheduleVarianceReport } from '@/lib/types/baseline';
+
+interface ScheduleVarianceProps {
+  projectId: string;
+  canManage?: boolean; // save baselines
+  canDelete?: boolean; // delete baselines (admins)
+}
+
+const formatDate = (date?: string) =>
+  date
+    ? new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+    : '—';
+
+function VarianceBadge({ days }: { days: number | null }) {
+  if (days === null) return <span className="text-gray-400">—</span>;
+  if (days === 0) return <Badge variant="outline">On plan</Badge>;
+  return (
+    <Badge className={days > 0 ? 'bg-red-100 text-red-800' : 'bg-green-100 text-green-800'}>
+      {days > 0 ? `+${days}d late` : `${Math.abs(days)}d early`}
+    </Badge>
+  );
+}
+
+export default function ScheduleVariance({ projectId, canManage = false, canDelete = false }: ScheduleVarianceProps) {
+  const { toast } = useToast();
+  const [baselines, setBaselines] = useState<ScheduleBaselineSummary[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [report, setReport] = useState<ScheduleVarianceReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [slippedOnly, setSlippedOnly] = useState(false);
+
+  const fetchBaselines = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/schedule/baselines`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load baselines');
+      }
+      setBaselines(data.data);
+      setSelectedId(current =>
+        data.data.some((b: ScheduleBaselineSummary) => b._id === current) ? current : data.data[0]?._id || ''
+      );
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load baselines'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, toast]);
+
+  const fetchReport = useCallback(async (baselineId: string) => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/schedule/variance?baselineId=${baselineId}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load variance report');
+      }
+      setReport(data.data);
+    } catch (error) {
+      setReport(null);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load variance report'
+      });
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    fetchBaselines();
+  }, [fetchBaselines]);
+
+  useEffect(() => {
+    if (selectedId) {
+      fetchReport(selectedId);
+    } else {
+      setReport(null);
+    }
+  }, [selectedId, fetchReport]);
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/schedule/baselines`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, description })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save baseline');
+      }
+      toast({ title: 'Baseline saved', description: `"${data.data.name}" captured ${data.data.activityCount} activities.` });
+      setName('');
+      setDescription('');
+      setSelectedId(data.data._id);
+      await fetchBaselines();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save baseline'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const baseline = baselines.find(b => b._id === selectedId);
+    if (!baseline || !confirm(`Delete baseline "${baseline.name}"? This cannot be undone.`)) return;
+    try {
+      const response = await fetch(`/api/projects/${projectId}/schedule/baselines/${baseline._id}`, {
+        method: 'DELETE'
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to delete baseline');
+      }
+      toast({ title: 'Baseline deleted', description: data.message });
+      setSelectedId('');
+      await fetchBaselines();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to delete baseline'
+      });
+    }
+  };
+
+  if (loading) {
+    return <p className="text-sm text-gray-500 py-8 text-center">Loading baselines...</p>;
+  }
+
+  const overall = report?.overall;
+  const phaseNames = new Map(report?.phases.map(phase => [phase.phaseId, phase.name]));
+  const activities = (report?.activities || []).filter(activity =>
+    !slippedOnly || (activity.actualFinishVariance ?? activity.finishVariance ?? 0) > 0 || activity.change !== 'unchanged'
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="flex flex-col md:flex-row md:items-center gap-3">
+            <div className="flex-1">
+              {baselines.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No baseline saved yet. {canManage ? 'Save one once the schedule is agreed with the client.' : ''}
+                </p>
+              ) : (
+                <Select value={selectedId} onValueChange={setSelectedId}>
+                  <SelectTrigger className="w-full md:w-80">
+                    <SelectValue placeholder="Select baseline" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {baselines.map(baseline => (
+                      <SelectItem key={baseline._id} value={baseline._id}>
+                        {baseline.name} ({formatDate(baseline.createdAt)})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            {canDelete && selectedId && (
+              <Button variant="outline" size="sm" onClick={handleDelete}>
+                <Trash2 className="h-4 w-4 mr-2" />
+                Delete
+              </Button>
+            )}
+          </div>
+
+          {canManage && (
+            <div className="flex flex-col md:flex-row gap-2">
+              <Input
+                placeholder="Baseline name, e.g. Client-agreed plan"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+              <Input
+                placeholder="Description (optional)"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+              <Button onClick={handleSave} disabled={saving || !name.trim()}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Baseline'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {report && overall && (
+        <>
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-lg font-semibold">
+                {overall.finishVariance === null
+                  ? 'Finish date could not be compared'
+                  : overall.finishVariance > 0
+                    ? `${overall.finishVariance} day${overall.finishVariance === 1 ? '' : 's'} behind the original plan`
+                    : overall.finishVariance < 0
+                      ? `${Math.abs(overall.finishVariance)} day${overall.finishVariance === -1 ? '' : 's'} ahead of the original plan`
+                      : 'On the original plan'}
+              </p>
+              <p className="text-sm text-gray-500 mb-4">
+                Against &quot;{report.baseline.name}&quot;, saved {formatDate(report.baseline.createdAt)} by {report.baseline.createdByName}
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <p className="text-gray-500">Baseline finish</p>
+                  <p className="font-medium">{formatDate(overall.baselineFinish)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Current finish</p>
+                  <p className="font-medium">{formatDate(overall.currentFinish)}</p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Activities slipped</p>
+                  <p className="font-medium">
+                    {overall.activitiesSlipped} (avg {overall.averageSlip}d, worst {overall.worstSlip}d)
+                  </p>
+                </div>
+                <div>
+                  <p className="text-gray-500">Ahead / added / removed</p>
+                  <p className="font-medium">
+                    {overall.activitiesAhead} / {overall.activitiesAdded} / {overall.activitiesRemoved}
+                  </p>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Phases</CardTitle>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4">Phase</th>
+                    <th className="py-2 pr-4">Baseline</th>
+                    <th className="py-2 pr-4">Current</th>
+                    <th className="py-2 pr-4">Start</th>
+                    <th className="py-2 pr-4">Finish</th>
+                    <th className="py-2">Slipped</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.phases.map(phase => (
+                    <tr key={phase.phaseId} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-medium">{phase.name}</td>
+                      <td className="py-2 pr-4">{formatDate(phase.baselineStart)} – {formatDate(phase.baselineEnd)}</td>
+                      <td className="py-2 pr-4">{formatDate(phase.currentStart)} – {formatDate(phase.currentEnd)}</td>
+                      <td className="py-2 pr-4"><VarianceBadge days={phase.startVariance} /></td>
+                      <td className="py-2 pr-4"><VarianceBadge days={phase.finishVariance} /></td>
+                      <td className="py-2">{phase.activitiesSlipped} of {phase.totalActivities}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Activities</CardTitle>
+                <Button variant="outline" size="sm" onClick={() => setSlippedOnly(!slippedOnly)}>
+                  {slippedOnly ? 'Show all' : 'Slipped & changed only'}
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4">Activity</th>
+                    <th className="py-2 pr-4">Baseline finish</th>
+                    <th className="py-2 pr-4">Current finish</th>
+                    <th className="py-2 pr-4">Actual finish</th>
+                    <th className="py-2 pr-4">Planned</th>
+                    <th className="py-2 pr-4">Actual</th>
+                    <th className="py-2">Daily reports</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {activities.map(activity => (
+                    <tr key={activity.activityId} className="border-b last:border-0">
+                      <td className="py-2 pr-4">
+                        <p className="font-medium">{activity.title}</p>
+                        <p className="text-xs text-gray-500">
+                          {phaseNames.get(activity.phaseId)}
+                          {activity.change !== 'unchanged' && (
+                            <Badge variant="outline" className="ml-2 capitalize">{activity.change}</Badge>
+                          )}
+                        </p>
+                      </td>
+                      <td className="py-2 pr-4">{formatDate(activity.baselineEnd)}</td>
+                      <td className="py-2 pr-4">{formatDate(activity.currentEnd)}</td>
+                      <td className="py-2 pr-4">{formatDate(activity.actualFinish)}</td>
+                      <td className="py-2 pr-4"><VarianceBadge days={activity.finishVariance} /></td>
+                      <td className="py-2 pr-4"><VarianceBadge days={activity.actualFinishVariance} /></td>
+                      <td className="py-2"><VarianceBadge days={activity.dailySlip} /></td>
+                    </tr>
+                  ))}
+                  {activities.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="py-6 text-center text-gray-500">No activities slipped against this baseline.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
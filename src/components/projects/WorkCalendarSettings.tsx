@@ -0,0 +1,241 @@
+// src/components/projects/WorkCalendarSettings.tsx - Project working calendar
+// Working weekdays, whether public holidays are observed, and ad-hoc site
+// closures. Durations, rescheduling and days remaining count these working days.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CalendarOff, Plus, Save, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { WEEKDAY_LABELS, type PublicHoliday } from '@/lib/working-calendar';
+
+interface WorkCalendarSettingsProps {
+  projectId: string;
+  editable?: boolean;
+}
+
+interface Closure {
+  date: string;
+  reason: string;
+}
+
+interface CalendarData {
+  workingDays: number[];
+  observePublicHolidays: boolean;
+  closures: Closure[];
+  holidays: PublicHoliday[];
+  summary: string;
+  workingDaysRemaining?: number;
+}
+
+// Monday first, the way site teams read the week
+const WEEK_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'short', day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC'
+  });
+
+export default function WorkCalendarSettings({ projectId, editable = false }: WorkCalendarSettingsProps) {
+  const { toast } = useToast();
+  const [calendar, setCalendar] = useState<CalendarData | null>(null);
+  const [workingDays, setWorkingDays] = useState<number[]>([]);
+  const [observePublicHolidays, setObservePublicHolidays] = useState(true);
+  const [closures, setClosures] = useState<Closure[]>([]);
+  const [newClosure, setNewClosure] = useState<Closure>({ date: '', reason: '' });
+  const [saving, setSaving] = useState(false);
+
+  const fetchCalendar = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/calendar`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load project calendar');
+      }
+      setCalendar(data.data);
+      setWorkingDays(data.data.workingDays);
+      setObservePublicHolidays(data.data.observePublicHolidays);
+      setClosures(data.data.closures);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load project calendar'
+      });
+    }
+  }, [projectId, toast]);
+
+  useEffect(() => {
+    fetchCalendar();
+  }, [fetchCalendar]);
+
+  const toggleDay = (day: number) => {
+    setWorkingDays(current =>
+      current.includes(day) ? current.filter(d => d !== day) : [...current, day].sort((a, b) => a - b)
+    );
+  };
+
+  const addClosure = () => {
+    if (!newClosure.date) return;
+    if (closures.some(closure => closure.date === newClosure.date)) {
+      toast({ variant: 'destructive', title: 'Error', description: 'That day is already a closure' });
+      return;
+    }
+    setClosures([...closures, newClosure].sort((a, b) => a.date.localeCompare(b.date)));
+    setNewClosure({ date: '', reason: '' });
+  };
+
+  const handleSave = async () => {
+    if (workingDays.length === 0) {
+      toast({ variant: 'destructive', title: 'Error', description: 'Select at least one working day' });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/projects/${projectId}/calendar`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ workingDays, observePublicHolidays, closures })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to save project calendar');
+      }
+      toast({ title: 'Calendar saved', description: `Work days: ${data.data.workDays}` });
+      await fetchCalendar();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save project calendar'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (!calendar) return null;
+
+  const today = new Date().toISOString().split('T')[0];
+  const upcomingHolidays = calendar.holidays.filter(holiday => holiday.date >= today).slice(0, 5);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base sm:text-lg">Working Calendar</CardTitle>
+          {calendar.workingDaysRemaining !== undefined && (
+            <Badge variant="outline">{calendar.workingDaysRemaining} working days remaining</Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4 text-sm">
+        <div>
+          <span className="font-medium text-gray-600">Working days:</span>
+          <div className="flex flex-wrap gap-2 mt-2">
+            {WEEK_ORDER.map(day => (
+              <Button
+                key={day}
+                type="button"
+                size="sm"
+                variant={workingDays.includes(day) ? 'default' : 'outline'}
+                disabled={!editable}
+                onClick={() => toggleDay(day)}
+              >
+                {WEEKDAY_LABELS[day]}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <span className="font-medium text-gray-600">Observe public holidays</span>
+            <p className="text-xs text-gray-500">Nigerian public holidays, maintained by administrators</p>
+          </div>
+          <Switch
+            checked={observePublicHolidays}
+            onCheckedChange={setObservePublicHolidays}
+            disabled={!editable}
+          />
+        </div>
+
+        {observePublicHolidays && upcomingHolidays.length > 0 && (
+          <div>
+            <span className="font-medium text-gray-600">Upcoming holidays:</span>
+            <ul className="mt-1 space-y-1">
+              {upcomingHolidays.map(holiday => (
+                <li key={holiday._id} className="flex items-center gap-2 text-gray-700">
+                  <span>{formatDay(holiday.date)}</span>
+                  <span className="text-gray-500">{holiday.name}</span>
+                  {holiday.tentative && <Badge variant="outline" className="text-xs">Tentative</Badge>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div>
+          <span className="font-medium text-gray-600">Site closures:</span>
+          {closures.length === 0 ? (
+            <p className="text-gray-500 mt-1">No site closures</p>
+          ) : (
+            <ul className="mt-1 space-y-1">
+              {closures.map(closure => (
+                <li key={closure.date} className="flex items-center gap-2">
+                  <CalendarOff className="h-4 w-4 text-gray-400" />
+                  <span>{formatDay(closure.date)}</span>
+                  {closure.reason && <span className="text-gray-500">{closure.reason}</span>}
+                  {editable && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setClosures(closures.filter(c => c.date !== closure.date))}
+                    >
+                      <X className="h-3 w-3" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {editable && (
+            <div className="flex flex-col sm:flex-row gap-2 mt-2">
+              <Input
+                type="date"
+                value={newClosure.date}
+                onChange={(e) => setNewClosure({ ...newClosure, date: e.target.value })}
+                className="sm:w-44"
+              />
+              <Input
+                placeholder="Reason, e.g. Estate sanitation"
+                value={newClosure.reason}
+                onChange={(e) => setNewClosure({ ...newClosure, reason: e.target.value })}
+              />
+              <Button type="button" variant="outline" onClick={addClosure} disabled={!newClosure.date}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {editable && (
+          <div className="flex justify-end pt-2 border-t">
+            <Button onClick={handleSave} disabled={saving}>
+              <Save className="h-4 w-4 mr-2" />
+              {saving ? 'Saving...' : 'Save Calendar'}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,239 @@
+// src/components/reports/DailyReportReviewDialog.tsx - Read a daily report with its review thread
+// Reviewers comment on the report or on single activities, then approve it for
+// the client or send it back; authors see the same thread read-only.
+'use client';
+
+import { useState, useEffect } from 'react';
+import { format } from 'date-fns';
+import { CheckCircle, MessageSquare, RotateCcw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { DailyReportReview, DailyReportReviewComment, DailyReportStatus } from '@/lib/types/daily-report';
+import DailyReportStatusBadge from './DailyReportStatusBadge';
+
+// The fields of a /api/daily-reports entry the dialog reads
+export interface ReviewableDailyReport {
+  _id: string;
+  projectTitle: string;
+  date: string;
+  activities: Array<{
+    _id?: string;
+    title: string;
+    description?: string;
+    status: string;
+    contractor?: string;
+  }>;
+  notes?: string;
+  createdBy: string;
+  status: DailyReportStatus;
+  reviewComments: DailyReportReviewComment[];
+}
+
+const formatDateTime = (value: string) => format(new Date(value), 'MMM d, yyyy h:mm a');
+
+interface DailyReportReviewDialogProps {
+  report: ReviewableDailyReport | null;
+  canReview?: boolean;
+  onOpenChange: (open: boolean) => void;
+  onReviewed: (review: DailyReportReview) => Promise<void> | void;
+}
+
+export default function DailyReportReviewDialog({
+  report,
+  canReview = false,
+  onOpenChange,
+  onReviewed
+}: DailyReportReviewDialogProps) {
+  const { toast } = useToast();
+  const [comments, setComments] = useState<DailyReportReviewComment[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [note, setNote] = useState('');
+  const [posting, setPosting] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!report) return;
+    setComments(report.reviewComments);
+    setDrafts({});
+    setNote('');
+  }, [report]);
+
+  const send = async (path: string, body: Record<string, unknown>) => {
+    const response = await fetch(`/api/daily-reports/${report!._id}/${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+    const data = await response.json();
+    if (!response.ok || !data.success) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data as { data: DailyReportReview; message: string };
+  };
+
+  // Comments on the report as a whole are keyed under ''
+  const postComment = async (activityId = '') => {
+    const text = drafts[activityId]?.trim();
+    if (!text) return;
+    setPosting(activityId);
+    try {
+      const { data } = await send('comments', { activityId: activityId || undefined, text });
+      setComments(data.reviewComments);
+      setDrafts(current => ({ ...current, [activityId]: '' }));
+      await onReviewed(data);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to add comment'
+      });
+    } finally {
+      setPosting(null);
+    }
+  };
+
+  const review = async (decision: 'approve' | 'request_changes') => {
+    setSaving(true);
+    try {
+      const { data, message } = await send('review', { decision, comment: note });
+      toast({ title: 'Success', description: message });
+      onOpenChange(false);
+      await onReviewed(data);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to review report'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const commenting = canReview && report?.status !== 'approved';
+  const deciding = canReview && report?.status === 'submitted';
+
+  const thread = (activityId = '') => {
+    const items = comments.filter(comment => (comment.activityId || '') === activityId);
+    return (
+      <>
+        {items.length > 0 && (
+          <ul className="space-y-1 border-l-2 border-gray-200 pl-3">
+            {items.map(comment => (
+              <li key={comment._id} className="text-xs text-gray-700">
+                <span className="font-medium">{comment.byName}</span>
+                <span className="text-gray-400"> · {formatDateTime(comment.createdAt)}</span>
+                <p className="whitespace-pre-line">{comment.text}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+        {commenting && (
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              postComment(activityId);
+            }}
+          >
+            <Input
+              value={drafts[activityId] || ''}
+              onChange={(e) => setDrafts(current => ({ ...current, [activityId]: e.target.value }))}
+              placeholder={activityId ? 'Comment on this activity' : 'Comment on the report'}
+              className="h-8 text-sm"
+            />
+            <Button type="submit" size="sm" variant="outline" disabled={posting === activityId || !drafts[activityId]?.trim()}>
+              <MessageSquare className="h-4 w-4" />
+            </Button>
+          </form>
+        )}
+      </>
+    );
+  };
+
+  return (
+    <Dialog open={report !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        {report && (
+          <>
+            <DialogHeader>
+              <DialogTitle className="flex flex-wrap items-center gap-2">
+                {format(new Date(report.date), 'EEE, MMM d, yyyy')}
+                <DailyReportStatusBadge status={report.status} />
+              </DialogTitle>
+              <DialogDescription>
+                {report.projectTitle} · Prepared by {report.createdBy}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              {report.notes && <p className="text-sm text-gray-700 whitespace-pre-line">{report.notes}</p>}
+              <div className="space-y-2">{thread()}</div>
+
+              <div className="space-y-3">
+                <h4 className="text-sm font-semibold text-gray-900">Activities ({report.activities.length})</h4>
+                {report.activities.map((activity, index) => (
+                  <div key={activity._id || index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-gray-900">{activity.title}</p>
+                        {activity.description && <p className="text-xs text-gray-600">{activity.description}</p>}
+                        {activity.contractor && <p className="text-xs text-gray-500">Contractor: {activity.contractor}</p>}
+                      </div>
+                      <span className="text-xs text-gray-500 capitalize shrink-0">{activity.status.replace('_', ' ')}</span>
+                    </div>
+                    {activity._id && thread(activity._id)}
+                  </div>
+                ))}
+              </div>
+
+              {deciding && (
+                <div className="space-y-2">
+                  <Label htmlFor="daily-report-review-note">Review note (required to request changes)</Label>
+                  <Textarea
+                    id="daily-report-review-note"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    rows={3}
+                  />
+                </div>
+              )}
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+              {deciding && (
+                <>
+                  <Button
+                    type="button"
+                    variant="destructive"
+                    disabled={saving || !note.trim()}
+                    onClick={() => review('request_changes')}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Request Changes
+                  </Button>
+                  <Button type="button" disabled={saving} onClick={() => review('approve')}>
+                    <CheckCircle className="h-4 w-4 mr-2" />
+                    {saving ? 'Saving...' : 'Approve'}
+                  </Button>
+                </>
+              )}
+            </DialogFooter>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,99 @@
+// src/components/reports/DailyReportReviewQueue.tsx - Reports awaiting review across every project
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ClipboardCheck, MessageSquare } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import DailyReportReviewDialog, { ReviewableDailyReport } from './DailyReportReviewDialog';
+
+interface DailyReportReviewQueueProps {
+  onChange?: () => void;
+}
+
+export default function DailyReportReviewQueue({ onChange }: DailyReportReviewQueueProps) {
+  const { toast } = useToast();
+  const [reports, setReports] = useState<ReviewableDailyReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reviewing, setReviewing] = useState<ReviewableDailyReport | null>(null);
+
+  const fetchQueue = useCallback(async () => {
+    try {
+      const response = await fetch('/api/daily-reports?status=submitted&limit=50');
+      const data = await response.json();
+      if (!response.ok || !data.data) {
+        throw new Error(data.error || 'Failed to load the review queue');
+      }
+      setReports(data.data.reports);
+    } catch (error) {
+      console.error('Error fetching review queue:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load the review queue'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    fetchQueue();
+  }, [fetchQueue]);
+
+  const handleReviewed = async () => {
+    await fetchQueue();
+    onChange?.();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ClipboardCheck className="h-5 w-5 text-yellow-600" />
+          Awaiting Review ({reports.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading review queue...</p>
+        ) : reports.length === 0 ? (
+          <p className="text-sm text-gray-500">No reports are waiting for review.</p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {reports.map(report => (
+              <div key={report._id} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 py-3">
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900">
+                    {report.projectTitle} · {format(new Date(report.date), 'EEE, MMM d, yyyy')}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {report.createdBy} · {report.activities.length} activities
+                    {report.reviewComments.length > 0 && (
+                      <span className="inline-flex items-center gap-1 ml-2">
+                        <MessageSquare className="h-3 w-3" />
+                        {report.reviewComments.length}
+                      </span>
+                    )}
+                  </p>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setReviewing(report)}>
+                  Review
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <DailyReportReviewDialog
+        report={reviewing}
+        canReview
+        onOpenChange={(open) => { if (!open) setReviewing(null); }}
+        onReviewed={handleReviewed}
+      />
+    </Card>
+  );
+}
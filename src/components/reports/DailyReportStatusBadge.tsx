@@ -0,0 +1,14 @@
+// src/components/reports/DailyReportStatusBadge.tsx - Where a daily report stands in review
+import { Badge } from '@/components/ui/badge';
+import { DailyReportStatus, DAILY_REPORT_STATUS_LABELS } from '@/lib/types/daily-report';
+
+const STATUS_COLORS: Record<DailyReportStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  submitted: 'bg-yellow-100 text-yellow-800',
+  changes_requested: 'bg-red-100 text-red-800',
+  approved: 'bg-green-100 text-green-800'
+};
+
+export default function DailyReportStatusBadge({ status }: { status: DailyReportStatus }) {
+  return <Badge className={STATUS_COLORS[status]}>{DAILY_REPORT_STATUS_LABELS[status]}</Badge>;
+}
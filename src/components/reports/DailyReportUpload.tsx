@@ -22,6 +22,7 @@ import { Textarea } from '@/components/ui/textarea';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/hooks/use-toast';
+import ContractorDatalist, { CONTRACTOR_DATALIST_ID } from '@/components/contractors/ContractorDatalist';
 
 interface DailyActivity {
   id?: string;
@@ -82,6 +83,8 @@ export default function DailyReportUpload({
 
   // UI state
   const [loading, setLoading] = useState(false);
+  // Set by whichever button submitted the form
+  const saveAsDraft = useRef(false);
   const [uploadProgress, setUploadProgress] = useState(0);
   const [projects, setProjects] = useState<Array<{ _id: string; title: string }>>([]);
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
@@ -243,6 +246,7 @@ export default function DailyReportUpload({
       formData.append('activities', JSON.stringify(reportData.activities));
       formData.append('summary', JSON.stringify(reportData.summary));
       formData.append('notes', reportData.notes || '');
+      formData.append('status', saveAsDraft.current ? 'draft' : 'submitted');
 
       // Add photos
       reportData.photos.forEach((photo, index) => {
@@ -273,7 +277,7 @@ export default function DailyReportUpload({
       if (result.success) {
         toast({
           title: "Success",
-          description: "Daily report uploaded successfully"
+          description: result.data?.message || "Daily report uploaded successfully"
         });
         
         // Reset form
@@ -336,6 +340,7 @@ export default function DailyReportUpload({
         </CardHeader>
         <CardContent>
           <form onSubmit={handleSubmit} className="space-y-6">
+            <ContractorDatalist />
             {/* Project and Date Selection */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div className="space-y-2">
@@ -541,6 +546,7 @@ export default function DailyReportUpload({
                           <div className="space-y-2">
                             <Label>Contractor</Label>
                             <Input
+                              list={CONTRACTOR_DATALIST_ID}
                               value={activity.contractor || ''}
                               onChange={(e) => updateActivity(index, 'contractor', e.target.value)}
                               placeholder="Contractor name"
@@ -550,6 +556,7 @@ export default function DailyReportUpload({
                           <div className="space-y-2">
                             <Label>Supervisor</Label>
                             <Input
+                              list={CONTRACTOR_DATALIST_ID}
                               value={activity.supervisor || ''}
                               onChange={(e) => updateActivity(index, 'supervisor', e.target.value)}
                               placeholder="Supervisor name"
@@ -688,7 +695,16 @@ export default function DailyReportUpload({
                   Cancel
                 </Button>
               )}
-              <Button type="submit" disabled={loading}>
+              <Button
+                type="submit"
+                variant="outline"
+                disabled={loading}
+                onClick={() => { saveAsDraft.current = true; }}
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                Save as Draft
+              </Button>
+              <Button type="submit" disabled={loading} onClick={() => { saveAsDraft.current = false; }}>
                 {loading ? (
                   <>
                     <Loader2 className="h-4 w-4 mr-2 animate-spin" />
@@ -697,7 +713,7 @@ export default function DailyReportUpload({
                 ) : (
                   <>
                     <Save className="h-4 w-4 mr-2" />
-                    Upload Report
+                    Submit for Review
                   </>
                 )}
               </Button>
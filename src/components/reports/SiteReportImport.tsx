@@ -0,0 +1,446 @@
+// src/components/reports/SiteReportImport.tsx - Legacy site progress report importer
+'use client';
+
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import {
+  Upload,
+  FileSpreadsheet,
+  AlertTriangle,
+  CheckCircle,
+  Loader2,
+  Eye,
+  Calendar,
+  Layers
+} from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+
+interface ProjectOption {
+  _id: string;
+  title: string;
+}
+
+interface ImportWarning {
+  row: number;
+  code: string;
+  message: string;
+}
+
+interface ImportPreview {
+  header: Record<string, string | undefined>;
+  headerChanges: Array<{ field: string; current: string; imported: string }>;
+  phases: Array<{
+    phase: string;
+    name: string;
+    startDate: string;
+    endDate: string;
+    activities: Array<{
+      title: string;
+      contractor: string;
+      status: string;
+      category: string;
+      startDate: string;
+      endDate: string;
+    }>;
+  }>;
+  dailyReportReview: { approved: boolean; approvedBy: string | null };
+  days: Array<{ date: string; activities: number; existing: boolean; approved: boolean }>;
+  notes: string[];
+  warnings: ImportWarning[];
+  stats: {
+    rows: number;
+    days: number;
+    phases: number;
+    scheduleActivities: number;
+    warnings: number;
+  };
+}
+
+interface ImportResult {
+  phases: number;
+  scheduleActivities: number;
+  scheduleActivitiesUpdated: number;
+  dailyReportsCreated: number;
+  dailyReportsUpdated: number;
+}
+
+const WARNING_LABELS: Record<string, string> = {
+  date_carried_forward: 'Blank date carried forward',
+  invalid_date: 'Unreadable date',
+  date_out_of_sequence: 'Date out of sequence',
+  status_normalized: 'Status normalised',
+  unknown_status: 'Unknown status',
+  missing_task: 'Row without task',
+  missing_contractor: 'Missing contractor',
+  missing_phase: 'Missing phase banner',
+  unknown_phase: 'Unknown phase banner',
+  image_reference: 'Image caption without link',
+  existing_report: 'Existing daily report'
+};
+
+const HEADER_FIELD_LABELS: Record<string, string> = {
+  projectCoordinator: 'Project Coordinator',
+  siteOfficer: 'Site Officer',
+  workDays: 'Work Days',
+  scopeOfWork: 'Scope of Work',
+  designStyle: 'Design Style'
+};
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+
+export default function SiteReportImport() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [projectId, setProjectId] = useState('');
+  const [file, setFile] = useState<File | null>(null);
+  const [replaceSchedule, setReplaceSchedule] = useState(false);
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [warningFilter, setWarningFilter] = useState('all');
+  const [loading, setLoading] = useState(false);
+
+  const fetchProjects = useCallback(async () => {
+    try {
+      const response = await fetch('/api/projects?limit=100');
+      if (response.ok) {
+        const data = await response.json();
+        setProjects(data.data?.projects || []);
+      }
+    } catch (error) {
+      console.error('Error fetching projects:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  const submit = async (commit: boolean) => {
+    if (!projectId || !file) {
+      toast({
+        variant: 'destructive',
+        title: 'Missing information',
+        description: 'Choose a project and a CSV file first'
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('projectId', projectId);
+      formData.append('commit', String(commit));
+      formData.append('replaceSchedule', String(replaceSchedule));
+
+      const response = await fetch('/api/site-schedule/import', {
+        method: 'POST',
+        body: formData
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Import failed');
+      }
+
+      setPreview(data.data.preview);
+      if (commit) {
+        setResult(data.data.result);
+        toast({
+          title: 'Import complete',
+          description: `${data.data.result.dailyReportsCreated} daily reports created`
+        });
+      } else {
+        setResult(null);
+      }
+    } catch (error) {
+      console.error('Error importing site report:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Import failed'
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const warningCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    preview?.warnings.forEach(warning => {
+      counts[warning.code] = (counts[warning.code] || 0) + 1;
+    });
+    return counts;
+  }, [preview]);
+
+  const visibleWarnings = (preview?.warnings || []).filter(
+    warning => warningFilter === 'all' || warning.code === warningFilter
+  );
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSpreadsheet className="h-5 w-5" />
+            Spreadsheet
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select
+                value={projectId}
+                onValueChange={(value) => {
+                  setProjectId(value);
+                  setPreview(null);
+                  setResult(null);
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a project" />
+                </SelectTrigger>
+                <SelectContent>
+                  {projects.map(project => (
+                    <SelectItem key={project._id} value={project._id}>
+                      {project.title}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Site Progress Report (.csv)</Label>
+              <div className="flex items-center gap-2">
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept=".csv,text/csv"
+                  className="hidden"
+                  onChange={(e) => {
+                    setFile(e.target.files?.[0] || null);
+                    setPreview(null);
+                    setResult(null);
+                  }}
+                />
+                <Button variant="outline" onClick={() => fileInputRef.current?.click()}>
+                  <Upload className="h-4 w-4 mr-2" />
+                  Choose File
+                </Button>
+                <span className="text-sm text-gray-600 truncate">{file?.name || 'No file selected'}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Switch id="replace-schedule" checked={replaceSchedule} onCheckedChange={setReplaceSchedule} />
+            <Label htmlFor="replace-schedule" className="text-sm text-gray-700">
+              Replace the existing site schedule instead of merging into it
+            </Label>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" onClick={() => submit(false)} disabled={loading || !file || !projectId}>
+              {loading ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Eye className="h-4 w-4 mr-2" />}
+              Preview Import
+            </Button>
+            <Button onClick={() => submit(true)} disabled={loading || !preview || !!result}>
+              <CheckCircle className="h-4 w-4 mr-2" />
+              Import {preview ? `${preview.stats.rows} Activities` : ''}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card className="border-l-4 border-l-green-500">
+          <CardContent className="pt-4">
+            <p className="font-medium text-gray-900">Import complete</p>
+            <p className="text-sm text-gray-600 mt-1">
+              {result.phases} phases, {result.scheduleActivities} schedule activities added and{' '}
+              {result.scheduleActivitiesUpdated} updated,{' '}
+              {result.dailyReportsCreated} daily reports created and {result.dailyReportsUpdated} updated.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {preview && (
+        <>
+          {/* Stats */}
+          <div className="grid grid-cols-2 sm:grid-cols-5 gap-3">
+            {[
+              { label: 'Rows', value: preview.stats.rows },
+              { label: 'Days', value: preview.stats.days },
+              { label: 'Phases', value: preview.stats.phases },
+              { label: 'Schedule Activities', value: preview.stats.scheduleActivities },
+              { label: 'Warnings', value: preview.stats.warnings }
+            ].map(stat => (
+              <Card key={stat.label}>
+                <CardContent className="p-3 sm:p-4">
+                  <p className="text-xs sm:text-sm text-gray-600">{stat.label}</p>
+                  <p className="text-xl sm:text-2xl font-bold">{stat.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          {/* Header block */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Project Header</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {preview.headerChanges.length === 0 ? (
+                <p className="text-sm text-gray-600">The project header already matches the spreadsheet.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-4">Field</th>
+                        <th className="py-2 pr-4">Current</th>
+                        <th className="py-2">From spreadsheet</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.headerChanges.map(change => (
+                        <tr key={change.field} className="border-b last:border-0">
+                          <td className="py-2 pr-4 font-medium">{HEADER_FIELD_LABELS[change.field] || change.field}</td>
+                          <td className="py-2 pr-4 text-gray-500">{change.current || '—'}</td>
+                          <td className="py-2">{change.imported}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Phases */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Layers className="h-5 w-5" />
+                Schedule Phases
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {preview.phases.map(phase => (
+                <div key={phase.phase} className="border rounded-lg p-3">
+                  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1">
+                    <p className="font-medium text-gray-900">{phase.name}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatDate(phase.startDate)} – {formatDate(phase.endDate)} · {phase.activities.length} activities
+                    </p>
+                  </div>
+                  <div className="mt-2 flex flex-wrap gap-1.5">
+                    {phase.activities.map(activity => (
+                      <Badge key={activity.title} variant="outline" className="font-normal">
+                        {activity.title}
+                        <span className="ml-1 text-gray-400">({activity.status.replace('_', ' ')})</span>
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Days */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Calendar className="h-5 w-5" />
+                Daily Reports
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm text-gray-600">
+                New daily reports are recorded as approved
+                {preview.dailyReportReview.approvedBy ? ` by ${preview.dailyReportReview.approvedBy}` : ''}, so the
+                client can see them straight away. Days that already have a report keep their current review state.
+              </p>
+              <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-2">
+                {preview.days.map(day => (
+                  <div
+                    key={day.date}
+                    className={`rounded-lg border px-3 py-2 text-sm ${day.existing ? 'border-yellow-300 bg-yellow-50' : ''}`}
+                  >
+                    <p className="font-medium">{formatDate(day.date)}</p>
+                    <p className="text-xs text-gray-500">
+                      {day.activities} activities{day.existing ? ' · updates existing' : ''}
+                      {day.approved ? '' : ' · awaiting review'}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+
+          {/* Warnings */}
+          <Card>
+            <CardHeader>
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-yellow-600" />
+                  Row Warnings ({preview.warnings.length})
+                </CardTitle>
+                <Select value={warningFilter} onValueChange={setWarningFilter}>
+                  <SelectTrigger className="w-full sm:w-64">
+                    <SelectValue placeholder="All warnings" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All warnings</SelectItem>
+                    {Object.entries(warningCounts).map(([code, count]) => (
+                      <SelectItem key={code} value={code}>
+                        {WARNING_LABELS[code] || code} ({count})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {visibleWarnings.length === 0 ? (
+                <p className="text-sm text-gray-600">No warnings.</p>
+              ) : (
+                <div className="max-h-96 overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-white">
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-4 w-16">Row</th>
+                        <th className="py-2 pr-4">Type</th>
+                        <th className="py-2">Detail</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {visibleWarnings.map((warning, index) => (
+                        <tr key={`${warning.row}-${warning.code}-${index}`} className="border-b last:border-0">
+                          <td className="py-2 pr-4 text-gray-500">{warning.row}</td>
+                          <td className="py-2 pr-4 whitespace-nowrap">{WARNING_LABELS[warning.code] || warning.code}</td>
+                          <td className="py-2">{warning.message}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 'use client';
 
 import { useState, useMemo } from 'react';
+import { useSearchParams } from 'next/navigation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -84,9 +85,13 @@ export default function RiskAssessmentClient({
   canEdit 
 }: RiskAssessmentClientProps) {
   const { toast } = useToast();
+  const searchParams = useSearchParams();
   const [risks, setRisks] = useState<Risk[]>(initialRisks);
-  const [selectedRisk, setSelectedRisk] = useState<Risk | null>(null);
-  const [isDetailsOpen, setIsDetailsOpen] = useState(false);
+  // ?risk=<id> opens that risk when arriving from global search
+  const [selectedRisk, setSelectedRisk] = useState<Risk | null>(
+    () => initialRisks.find(item => item._id === searchParams.get('risk')) || null
+  );
+  const [isDetailsOpen, setIsDetailsOpen] = useState(() => selectedRisk !== null);
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [categoryFilter, setCategoryFilter] = useState('all');
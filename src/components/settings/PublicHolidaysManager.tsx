@@ -0,0 +1,192 @@
+// src/components/settings/PublicHolidaysManager.tsx - Admin list of public holidays
+// Nigerian holidays are preloaded per year. Islamic holidays are preloaded as
+// tentative until an admin confirms the date the Federal Government announces.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { ChevronLeft, ChevronRight, Check, Pencil, Plus, Trash2, X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { useToast } from '@/hooks/use-toast';
+import type { PublicHoliday } from '@/lib/working-calendar';
+
+interface HolidayForm {
+  date: string;
+  name: string;
+}
+
+const formatDay = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'short', day: 'numeric', month: 'long', timeZone: 'UTC'
+  });
+
+export default function PublicHolidaysManager() {
+  const { toast } = useToast();
+  const [year, setYear] = useState(new Date().getFullYear());
+  const [holidays, setHolidays] = useState<PublicHoliday[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editForm, setEditForm] = useState<HolidayForm>({ date: '', name: '' });
+  const [newHoliday, setNewHoliday] = useState<HolidayForm>({ date: '', name: '' });
+
+  const fetchHolidays = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch(`/api/holidays?year=${year}`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load holidays');
+      }
+      setHolidays(data.data);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load holidays'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [year, toast]);
+
+  useEffect(() => {
+    fetchHolidays();
+  }, [fetchHolidays]);
+
+  const request = async (url: string, method: string, body?: HolidayForm) => {
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body ? JSON.stringify(body) : undefined
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to update holidays');
+      }
+      toast({ title: 'Success', description: data.message });
+      await fetchHolidays();
+      return true;
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update holidays'
+      });
+      return false;
+    }
+  };
+
+  const handleAdd = async () => {
+    if (await request('/api/holidays', 'POST', newHoliday)) {
+      setNewHoliday({ date: '', name: '' });
+    }
+  };
+
+  const handleUpdate = async (id: string) => {
+    if (await request(`/api/holidays/${id}`, 'PUT', editForm)) {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = async (holiday: PublicHoliday) => {
+    if (!confirm(`Remove ${holiday.name} (${formatDay(holiday.date)})?`)) return;
+    await request(`/api/holidays/${holiday._id}`, 'DELETE');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle>Public Holidays</CardTitle>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setYear(year - 1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="font-medium w-12 text-center">{year}</span>
+            <Button variant="outline" size="sm" onClick={() => setYear(year + 1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-gray-600">
+          Days on which sites observing public holidays don&apos;t work. Confirm tentative dates once they are announced.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading holidays...</p>
+        ) : holidays.length === 0 ? (
+          <p className="text-sm text-gray-500">No public holidays listed for {year}.</p>
+        ) : (
+          <ul className="divide-y">
+            {holidays.map(holiday => (
+              <li key={holiday._id} className="flex items-center gap-3 py-2 text-sm">
+                {editingId === holiday._id ? (
+                  <>
+                    <Input
+                      type="date"
+                      value={editForm.date}
+                      onChange={(e) => setEditForm({ ...editForm, date: e.target.value })}
+                      className="w-44"
+                    />
+                    <Input
+                      value={editForm.name}
+                      onChange={(e) => setEditForm({ ...editForm, name: e.target.value })}
+                    />
+                    <Button size="sm" onClick={() => handleUpdate(holiday._id)}>
+                      <Check className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <span className="w-44 text-gray-700">{formatDay(holiday.date)}</span>
+                    <span className="flex-1 font-medium">{holiday.name}</span>
+                    {holiday.tentative && <Badge variant="outline">Tentative</Badge>}
+                    {holiday.source === 'custom' && <Badge variant="secondary">Added</Badge>}
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        setEditingId(holiday._id);
+                        setEditForm({ date: holiday.date, name: holiday.name });
+                      }}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => handleDelete(holiday)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="flex flex-col sm:flex-row gap-2 pt-4 border-t">
+          <Input
+            type="date"
+            value={newHoliday.date}
+            onChange={(e) => setNewHoliday({ ...newHoliday, date: e.target.value })}
+            className="sm:w-44"
+          />
+          <Input
+            placeholder="Holiday name, e.g. Special public holiday"
+            value={newHoliday.name}
+            onChange={(e) => setNewHoliday({ ...newHoliday, name: e.target.value })}
+          />
+          <Button onClick={handleAdd} disabled={!newHoliday.date || !newHoliday.name.trim()}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Holiday
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -12,7 +12,8 @@ import {
   Eye, 
   EyeOff, 
   Save, 
-  Shield
+  Shield,
+  CalendarDays
 } from 'lucide-react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -20,9 +21,20 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
+import PublicHolidaysManager from '@/components/settings/PublicHolidaysManager';
+import {
+  DEFAULT_NOTIFICATION_ROUTING,
+  DEFAULT_QUIET_HOURS,
+  NOTIFICATION_TYPE_LABELS,
+  NOTIFICATION_TYPES,
+  NotificationRoute,
+  NotificationType,
+  QUIET_HOURS_TIME_PATTERN
+} from '@/lib/types/notification-routing';
 
 // Define validation schemas
 const profileSchema = z.object({
@@ -45,19 +57,42 @@ const passwordSchema = z.object({
   path: ["confirmPassword"],
 });
 
+const routeSchema = z.object({
+  inApp: z.boolean(),
+  email: z.boolean(),
+  push: z.boolean(),
+  digestOnly: z.boolean(),
+});
+
 const notificationSchema = z.object({
-  emailNotifications: z.boolean(),
-  pushNotifications: z.boolean(),
-  projectUpdates: z.boolean(),
-  taskReminders: z.boolean(),
-  messageAlerts: z.boolean(),
+  notificationRouting: z.record(z.string(), routeSchema),
+  quietHours: z.object({
+    enabled: z.boolean(),
+    start: z.string().regex(QUIET_HOURS_TIME_PATTERN, 'Use a time like 22:00'),
+    end: z.string().regex(QUIET_HOURS_TIME_PATTERN, 'Use a time like 07:00'),
+  }),
+  dailyDigest: z.boolean(),
   weeklyReports: z.boolean(),
+  timezone: z.string(),
 });
 
+// Digests and reminders go out by the user's own clock
+const TIMEZONES: string[] = typeof Intl.supportedValuesOf === 'function'
+  ? Intl.supportedValuesOf('timeZone')
+  : ['Africa/Lagos', 'UTC'];
+
 type ProfileFormData = z.infer<typeof profileSchema>;
 type PasswordFormData = z.infer<typeof passwordSchema>;
 type NotificationFormData = z.infer<typeof notificationSchema>;
 
+// Columns of the routing matrix; digest only switches the others off
+const ROUTE_COLUMNS: Array<{ key: keyof NotificationRoute; label: string }> = [
+  { key: 'inApp', label: 'In-app' },
+  { key: 'email', label: 'Email' },
+  { key: 'push', label: 'Push' },
+  { key: 'digestOnly', label: 'Digest only' },
+];
+
 interface SettingsClientProps {
   userId: string;
   userRole: string;
@@ -113,12 +148,11 @@ export default function SettingsClient({ userId, userRole, userName, userEmail }
   const notificationForm = useForm<NotificationFormData>({
     resolver: zodResolver(notificationSchema),
     defaultValues: {
-      emailNotifications: true,
-      pushNotifications: true,
-      projectUpdates: true,
-      taskReminders: true,
-      messageAlerts: true,
+      notificationRouting: DEFAULT_NOTIFICATION_ROUTING,
+      quietHours: DEFAULT_QUIET_HOURS,
+      dailyDigest: false,
       weeklyReports: false,
+      timezone: 'Africa/Lagos',
     }
   });
 
@@ -232,6 +266,14 @@ export default function SettingsClient({ userId, userRole, userName, userEmail }
     }
   };
 
+  const updateRoute = (type: NotificationType, key: keyof NotificationRoute, checked: boolean) => {
+    const routing = notificationForm.getValues('notificationRouting');
+    notificationForm.setValue('notificationRouting', {
+      ...routing,
+      [type]: { ...(routing[type] || DEFAULT_NOTIFICATION_ROUTING[type]), [key]: checked }
+    }, { shouldDirty: true });
+  };
+
   // Handle notification preferences update
   const handleNotificationUpdate = async (data: NotificationFormData) => {
     setSaving(true);
@@ -291,7 +333,7 @@ export default function SettingsClient({ userId, userRole, userName, userEmail }
 
       {/* Settings Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className={`grid w-full ${userRole === 'super_admin' ? 'grid-cols-4' : 'grid-cols-3'}`}>
           <TabsTrigger value="profile" className="flex items-center gap-2">
             <User className="h-4 w-4" />
             Profile
@@ -304,6 +346,12 @@ export default function SettingsClient({ userId, userRole, userName, userEmail }
             <Bell className="h-4 w-4" />
             Notifications
           </TabsTrigger>
+          {userRole === 'super_admin' && (
+            <TabsTrigger value="holidays" className="flex items-center gap-2">
+              <CalendarDays className="h-4 w-4" />
+              Holidays
+            </TabsTrigger>
+          )}
         </TabsList>
 
         {/* Profile Tab */}
@@ -523,58 +571,89 @@ export default function SettingsClient({ userId, userRole, userName, userEmail }
             <CardContent>
               <form onSubmit={notificationForm.handleSubmit(handleNotificationUpdate)} className="space-y-6">
                 <div className="space-y-4">
-                  <div className="flex items-center justify-between">
+                  <div className="space-y-2">
                     <div className="space-y-0.5">
-                      <Label>Email Notifications</Label>
-                      <p className="text-sm text-gray-600">Receive notifications via email</p>
+                      <Label>Where notifications go</Label>
+                      <p className="text-sm text-gray-600">Digest only keeps a notification out of your inbox and adds it to your next digest email</p>
                     </div>
-                    <Switch
-                      checked={notificationForm.watch('emailNotifications')}
-                      onCheckedChange={(checked: boolean) => notificationForm.setValue('emailNotifications', checked)}
-                    />
-                  </div>
-
-                  <div className="flex items-center justify-between">
-                    <div className="space-y-0.5">
-                      <Label>Push Notifications</Label>
-                      <p className="text-sm text-gray-600">Receive push notifications in your browser</p>
+                    <div className="overflow-x-auto rounded-lg border">
+                      <table className="w-full text-sm">
+                        <thead className="bg-gray-50">
+                          <tr>
+                            <th className="px-3 py-2 text-left font-medium text-gray-700">Notification</th>
+                            {ROUTE_COLUMNS.map(column => (
+                              <th key={column.key} className="px-3 py-2 text-center font-medium text-gray-700">{column.label}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {NOTIFICATION_TYPES.map(type => {
+                            const route = notificationForm.watch('notificationRouting')[type] || DEFAULT_NOTIFICATION_ROUTING[type];
+                            return (
+                              <tr key={type} className="border-t">
+                                <td className="px-3 py-2 text-gray-900">{NOTIFICATION_TYPE_LABELS[type]}</td>
+                                {ROUTE_COLUMNS.map(column => (
+                                  <td key={column.key} className="px-3 py-2 text-center">
+                                    <input
+                                      type="checkbox"
+                                      className="h-4 w-4 rounded border-gray-300"
+                                      aria-label={`${NOTIFICATION_TYPE_LABELS[type]}: ${column.label}`}
+                                      checked={route[column.key]}
+                                      disabled={column.key !== 'digestOnly' && route.digestOnly}
+                                      onChange={(event) => updateRoute(type, column.key, event.target.checked)}
+                                    />
+                                  </td>
+                                ))}
+                              </tr>
+                            );
+                          })}
+                        </tbody>
+                      </table>
                     </div>
-                    <Switch
-                      checked={notificationForm.watch('pushNotifications')}
-                      onCheckedChange={(checked: boolean) => notificationForm.setValue('pushNotifications', checked)}
-                    />
                   </div>
 
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
-                      <Label>Project Updates</Label>
-                      <p className="text-sm text-gray-600">Get notified about project status changes</p>
+                      <Label>Quiet Hours</Label>
+                      <p className="text-sm text-gray-600">Hold email and push until quiet hours end; urgent notifications still come through</p>
                     </div>
                     <Switch
-                      checked={notificationForm.watch('projectUpdates')}
-                      onCheckedChange={(checked: boolean) => notificationForm.setValue('projectUpdates', checked)}
+                      checked={notificationForm.watch('quietHours.enabled')}
+                      onCheckedChange={(checked: boolean) => notificationForm.setValue('quietHours.enabled', checked)}
                     />
                   </div>
 
-                  <div className="flex items-center justify-between">
-                    <div className="space-y-0.5">
-                      <Label>Task Reminders</Label>
-                      <p className="text-sm text-gray-600">Receive reminders for upcoming task deadlines</p>
+                  {notificationForm.watch('quietHours.enabled') && (
+                    <div className="grid grid-cols-2 gap-4">
+                      <div className="space-y-2">
+                        <Label htmlFor="quietHoursStart">From</Label>
+                        <Input
+                          id="quietHoursStart"
+                          type="time"
+                          {...notificationForm.register('quietHours.start')}
+                          error={notificationForm.formState.errors.quietHours?.start?.message}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="quietHoursEnd">Until</Label>
+                        <Input
+                          id="quietHoursEnd"
+                          type="time"
+                          {...notificationForm.register('quietHours.end')}
+                          error={notificationForm.formState.errors.quietHours?.end?.message}
+                        />
+                      </div>
                     </div>
-                    <Switch
-                      checked={notificationForm.watch('taskReminders')}
-                      onCheckedChange={(checked: boolean) => notificationForm.setValue('taskReminders', checked)}
-                    />
-                  </div>
+                  )}
 
                   <div className="flex items-center justify-between">
                     <div className="space-y-0.5">
-                      <Label>Message Alerts</Label>
-                      <p className="text-sm text-gray-600">Get notified when you receive new messages</p>
+                      <Label>Daily Digest</Label>
+                      <p className="text-sm text-gray-600">Receive a morning summary email of your projects</p>
                     </div>
                     <Switch
-                      checked={notificationForm.watch('messageAlerts')}
-                      onCheckedChange={(checked: boolean) => notificationForm.setValue('messageAlerts', checked)}
+                      checked={notificationForm.watch('dailyDigest')}
+                      onCheckedChange={(checked: boolean) => notificationForm.setValue('dailyDigest', checked)}
                     />
                   </div>
 
@@ -588,6 +667,29 @@ export default function SettingsClient({ userId, userRole, userName, userEmail }
                       onCheckedChange={(checked: boolean) => notificationForm.setValue('weeklyReports', checked)}
                     />
                   </div>
+
+                  <div className="flex items-center justify-between gap-4">
+                    <div className="space-y-0.5">
+                      <Label>Timezone</Label>
+                      <p className="text-sm text-gray-600">Digests arrive at 8am and reminders show times in this timezone</p>
+                    </div>
+                    <Select
+                      value={notificationForm.watch('timezone')}
+                      onValueChange={(value: string) => notificationForm.setValue('timezone', value)}
+                    >
+                      <SelectTrigger className="w-56">
+                        <SelectValue placeholder="Select timezone" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(TIMEZONES.includes(notificationForm.watch('timezone'))
+                          ? TIMEZONES
+                          : [notificationForm.watch('timezone'), ...TIMEZONES]
+                        ).map(zone => (
+                          <SelectItem key={zone} value={zone}>{zone.replace(/_/g, ' ')}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
 
                 <div className="flex justify-end">
@@ -609,6 +711,13 @@ export default function SettingsClient({ userId, userRole, userName, userEmail }
             </CardContent>
           </Card>
         </TabsContent>
+
+        {/* Public Holidays Tab (admins) */}
+        {userRole === 'super_admin' && (
+          <TabsContent value="holidays">
+            <PublicHolidaysManager />
+          </TabsContent>
+        )}
       </Tabs>
     </div>
   );
@@ -0,0 +1,186 @@
+// src/components/site-conditions/ProjectDelays.tsx - Delays tab on the project page
+// Days lost by cause and by responsible party, with the dated events behind
+// them, as evidence for extension-of-time discussions with the client.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CalendarX } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DELAY_PARTY_LABELS,
+  SITE_CONDITION_LABELS,
+  DelayAttributionReport,
+  DelayTotal
+} from '@/lib/types/site-conditions';
+
+interface ProjectDelaysProps {
+  projectId: string;
+}
+
+const formatDay = (value: string) => format(new Date(`${value}T00:00:00`), 'MMM d, yyyy');
+
+function TotalsTable({ label, rows }: { label: string; rows: Array<DelayTotal & { key: string; name: string }> }) {
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-gray-500 border-b">
+          <th className="py-2 pr-3 font-medium">{label}</th>
+          <th className="py-2 pr-3 font-medium text-right">Site days lost</th>
+          <th className="py-2 pr-3 font-medium text-right">Activity days lost</th>
+          <th className="py-2 font-medium text-right">Events</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(row => (
+          <tr key={row.key} className="border-b last:border-0">
+            <td className="py-2 pr-3">{row.name}</td>
+            <td className="py-2 pr-3 text-right">{row.siteDays}</td>
+            <td className="py-2 pr-3 text-right">{row.activityDays}</td>
+            <td className="py-2 text-right">{row.events}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+export default function ProjectDelays({ projectId }: ProjectDelaysProps) {
+  const [report, setReport] = useState<DelayAttributionReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+
+  const fetchReport = useCallback(async () => {
+    try {
+      const params = new URLSearchParams();
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      const response = await fetch(`/api/projects/${projectId}/delays?${params.toString()}`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load delay report');
+      }
+      setReport(result.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching delay report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load delay report');
+    }
+  }, [projectId, from, to]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-red-600">{error}</CardContent>
+      </Card>
+    );
+  }
+
+  if (!report) {
+    return <p className="text-sm text-gray-500">Loading delay report...</p>;
+  }
+
+  const { totals } = report;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-3">
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold">Delay Attribution</h3>
+          <p className="text-xs sm:text-sm text-gray-500">
+            {totals.siteDays} site day{totals.siteDays === 1 ? '' : 's'} lost · {totals.activityDays} activity day{totals.activityDays === 1 ? '' : 's'} lost
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <div className="space-y-1">
+            <Label htmlFor="delays-from" className="text-xs">From</Label>
+            <Input id="delays-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="w-auto" />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="delays-to" className="text-xs">To</Label>
+            <Input id="delays-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} className="w-auto" />
+          </div>
+        </div>
+      </div>
+
+      {report.uncitedDelays > 0 && (
+        <div className="flex items-center gap-2 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800">
+          <AlertTriangle className="h-4 w-4" />
+          {report.uncitedDelays} delayed or on-hold activit{report.uncitedDelays === 1 ? 'y has' : 'ies have'} no delay cause and {report.uncitedDelays === 1 ? 'is' : 'are'} left out of these totals
+        </div>
+      )}
+
+      {report.events.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <CalendarX className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+            <p className="text-sm text-gray-500">No lost time has been recorded for this period.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500">
+            Site days come from the hours site conditions cost the whole site; activity days are what delayed activities report and can overlap them.
+          </p>
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By Responsible Party</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <TotalsTable
+                  label="Party"
+                  rows={report.byParty.map(row => ({ ...row, key: row.responsibleParty, name: DELAY_PARTY_LABELS[row.responsibleParty] }))}
+                />
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">By Cause</CardTitle>
+              </CardHeader>
+              <CardContent className="overflow-x-auto">
+                <TotalsTable
+                  label="Cause"
+                  rows={report.byCause.map(row => ({ ...row, key: row.cause, name: SITE_CONDITION_LABELS[row.cause] }))}
+                />
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Delay Events ({report.events.length})</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {report.events.map((event, index) => (
+                <div key={`${event.date}-${event.activityId || index}`} className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 border-b last:border-0 pb-2 text-sm">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="text-gray-500">{formatDay(event.date)}</span>
+                      <Badge variant="outline">{SITE_CONDITION_LABELS[event.cause]}</Badge>
+                      <span className="font-medium text-gray-900">
+                        {event.source === 'activity' ? event.activityTitle : 'Site'}
+                      </span>
+                    </div>
+                    {event.description && <p className="text-xs text-gray-600">{event.description}</p>}
+                  </div>
+                  <span className="text-xs text-gray-600 shrink-0">
+                    {event.daysLost} day{event.daysLost === 1 ? '' : 's'} · {DELAY_PARTY_LABELS[event.responsibleParty]}
+                  </span>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,234 @@
+// src/components/site-conditions/SiteConditionsCard.tsx - One day's site conditions
+// Site officers record what cost working time (rain, outages, shortages...)
+// and who it falls to, for the project's delay attribution report.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { CloudRain, Plus, Save, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  DEFAULT_DELAY_PARTY,
+  DELAY_PARTIES,
+  DELAY_PARTY_LABELS,
+  SITE_CONDITION_LABELS,
+  SITE_CONDITION_TYPES,
+  DelayParty,
+  SiteCondition,
+  SiteConditionsDay,
+  SiteConditionType
+} from '@/lib/types/site-conditions';
+
+interface ConditionRow {
+  key: string;
+  _id?: string;
+  type: SiteConditionType;
+  hoursLost: string;
+  responsibleParty: DelayParty;
+  description: string;
+}
+
+let nextRowKey = 0;
+const newRowKey = () => `condition-${nextRowKey++}`;
+
+const toRow = (condition: SiteCondition): ConditionRow => ({
+  key: newRowKey(),
+  _id: condition._id,
+  type: condition.type,
+  hoursLost: String(condition.hoursLost),
+  responsibleParty: condition.responsibleParty,
+  description: condition.description || ''
+});
+
+interface SiteConditionsCardProps {
+  projectId: string;
+  date: string; // YYYY-MM-DD
+}
+
+export default function SiteConditionsCard({ projectId, date }: SiteConditionsCardProps) {
+  const { toast } = useToast();
+  const [rows, setRows] = useState<ConditionRow[]>([]);
+  const [hoursLost, setHoursLost] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const fetchConditions = useCallback(async () => {
+    try {
+      setLoading(true);
+      const response = await fetch(`/api/projects/${projectId}/site-conditions?date=${date}`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load site conditions');
+      }
+      const day: SiteConditionsDay = result.data;
+      setRows(day.conditions.map(toRow));
+      setHoursLost(day.hoursLost);
+    } catch (error) {
+      console.error('Error fetching site conditions:', error);
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to load site conditions'
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId, date, toast]);
+
+  useEffect(() => {
+    fetchConditions();
+  }, [fetchConditions]);
+
+  const updateRow = (key: string, changes: Partial<ConditionRow>) => {
+    setRows(current => current.map(row => row.key === key ? { ...row, ...changes } : row));
+  };
+
+  const addRow = () => {
+    setRows(current => [...current, {
+      key: newRowKey(),
+      type: 'rain',
+      hoursLost: '',
+      responsibleParty: DEFAULT_DELAY_PARTY.rain,
+      description: ''
+    }]);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const conditions = rows.map(({ _id, type, hoursLost, responsibleParty, description }) => ({
+        _id, type, hoursLost, responsibleParty, description
+      }));
+      const response = await fetch(`/api/projects/${projectId}/site-conditions`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ date, conditions })
+      });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to save site conditions');
+      }
+      const day: SiteConditionsDay = result.data;
+      toast({ title: 'Success', description: result.message });
+      setRows(day.conditions.map(toRow));
+      setHoursLost(day.hoursLost);
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save site conditions'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CloudRain className="h-5 w-5" />
+          Site Conditions
+        </CardTitle>
+        {!loading && hoursLost > 0 && (
+          <p className="text-xs sm:text-sm text-gray-500">{hoursLost} working hours lost</p>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading site conditions...</p>
+        ) : (
+          <>
+            {rows.length === 0 && (
+              <p className="text-sm text-gray-500">No conditions affected work on this day.</p>
+            )}
+            {rows.map(row => (
+              <div key={row.key} className="grid grid-cols-2 sm:grid-cols-12 gap-2 items-end border-b pb-3 sm:border-0 sm:pb-0">
+                <div className="sm:col-span-3 space-y-1">
+                  <Label className="text-xs sm:hidden">Condition</Label>
+                  <Select
+                    value={row.type}
+                    onValueChange={(value) => updateRow(row.key, {
+                      type: value as SiteConditionType,
+                      responsibleParty: DEFAULT_DELAY_PARTY[value as SiteConditionType]
+                    })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SITE_CONDITION_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{SITE_CONDITION_LABELS[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="sm:col-span-2 space-y-1">
+                  <Label className="text-xs sm:hidden">Hours lost</Label>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="24"
+                    step="0.5"
+                    value={row.hoursLost}
+                    onChange={(e) => updateRow(row.key, { hoursLost: e.target.value })}
+                    placeholder="Hours lost"
+                  />
+                </div>
+                <div className="sm:col-span-2 space-y-1">
+                  <Label className="text-xs sm:hidden">Responsible</Label>
+                  <Select
+                    value={row.responsibleParty}
+                    onValueChange={(value) => updateRow(row.key, { responsibleParty: value as DelayParty })}
+                  >
+                    <SelectTrigger title="Responsible party">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DELAY_PARTIES.map(party => (
+                        <SelectItem key={party} value={party}>{DELAY_PARTY_LABELS[party]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-2 sm:col-span-4 space-y-1">
+                  <Label className="text-xs sm:hidden">Details</Label>
+                  <Input
+                    value={row.description}
+                    onChange={(e) => updateRow(row.key, { description: e.target.value })}
+                    placeholder={row.type === 'other' ? 'Describe the condition' : 'Details (optional)'}
+                  />
+                </div>
+                <div className="sm:col-span-1 flex justify-end">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="ghost"
+                    onClick={() => setRows(current => current.filter(item => item.key !== row.key))}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-500" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            <div className="flex flex-wrap items-center justify-between gap-2 pt-2">
+              <Button type="button" size="sm" variant="outline" onClick={addRow}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Condition
+              </Button>
+              <Button type="button" size="sm" onClick={handleSave} disabled={saving}>
+                <Save className="h-4 w-4 mr-2" />
+                {saving ? 'Saving...' : 'Save Conditions'}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,280 @@
+// src/components/snags/ProjectSnagList.tsx - Snag list for handover
+// Site staff capture and fix snags, the client adds their own and signs off
+// fixed ones, and administrators can waive a snag that won't be fixed.
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import {
+  AlertTriangle,
+  Calendar,
+  CheckCircle,
+  Edit,
+  HardHat,
+  Plus,
+  Printer,
+  RotateCcw,
+  Trash2,
+  Wrench,
+  XCircle
+} from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { SNAG_STATUSES, SNAG_STATUS_LABELS, ProjectSnagData, Snag, SnagStatus } from '@/lib/types/snag';
+import SnagFormDialog, { PhotoThumbnails } from './SnagFormDialog';
+import SnagStatusDialog from './SnagStatusDialog';
+
+const STATUS_COLORS: Record<SnagStatus, string> = {
+  open: 'bg-red-100 text-red-800',
+  fixed: 'bg-blue-100 text-blue-800',
+  verified: 'bg-green-100 text-green-800',
+  waived: 'bg-gray-100 text-gray-800'
+};
+
+interface ProjectSnagListProps {
+  projectId: string;
+  canManage?: boolean;
+  canVerify?: boolean;
+  canWaive?: boolean;
+}
+
+export default function ProjectSnagList({
+  projectId,
+  canManage = false,
+  canVerify = false,
+  canWaive = false
+}: ProjectSnagListProps) {
+  const { toast } = useToast();
+  const [data, setData] = useState<ProjectSnagData | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<SnagStatus | 'all'>('all');
+  const [formDialog, setFormDialog] = useState<{ open: boolean; snag: Snag | null }>({ open: false, snag: null });
+  const [statusDialog, setStatusDialog] = useState<{ snag: Snag | null; status: SnagStatus }>({ snag: null, status: 'fixed' });
+
+  const fetchSnags = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/snags`);
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Failed to load snags');
+      }
+      setData(result.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching snags:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load snags');
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchSnags();
+  }, [fetchSnags]);
+
+  const remove = async (snag: Snag) => {
+    if (!confirm(`Delete ${snag.number}?`)) return;
+    try {
+      const response = await fetch(`/api/projects/${projectId}/snags/${snag._id}`, { method: 'DELETE' });
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        throw new Error(result.error || 'Request failed');
+      }
+      toast({ title: 'Success', description: result.message });
+      await fetchSnags();
+    } catch (err) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: err instanceof Error ? err.message : 'Failed to delete snag'
+      });
+    }
+  };
+
+  if (error) {
+    return (
+      <Card>
+        <CardContent className="py-8 text-center text-red-600">{error}</CardContent>
+      </Card>
+    );
+  }
+
+  if (!data) {
+    return <p className="text-sm text-gray-500">Loading snags...</p>;
+  }
+
+  const { summary } = data;
+  const snags = filter === 'all' ? data.snags : data.snags.filter(snag => snag.status === filter);
+  const locations = Array.from(new Set(data.snags.map(snag => snag.location)));
+  const visibleLocations = locations.filter(location => snags.some(snag => snag.location === location));
+
+  const statusButton = (snag: Snag, status: SnagStatus, label: string, Icon: typeof CheckCircle) => (
+    <Button size="sm" variant="outline" onClick={() => setStatusDialog({ snag, status })}>
+      <Icon className="h-4 w-4 mr-1" />
+      {label}
+    </Button>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div>
+          <h3 className="text-base sm:text-lg font-semibold">Snag List</h3>
+          <p className="text-xs sm:text-sm text-gray-500">
+            {summary.total} snag{summary.total === 1 ? '' : 's'} · {summary.verified} verified · {summary.waived} waived
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" asChild>
+            <a href={`/api/projects/${projectId}/snags/report`} target="_blank" rel="noopener noreferrer">
+              <Printer className="h-4 w-4 mr-2" />
+              Report
+            </a>
+          </Button>
+          <Button size="sm" className="flex-1 sm:flex-none" onClick={() => setFormDialog({ open: true, snag: null })}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Snag
+          </Button>
+        </div>
+      </div>
+
+      {summary.total > 0 && (
+        <div
+          className={`flex items-center gap-2 rounded-md px-3 py-2 text-sm ${
+            summary.handoverReady ? 'bg-green-50 text-green-800' : 'bg-amber-50 text-amber-800'
+          }`}
+        >
+          {summary.handoverReady ? <CheckCircle className="h-4 w-4" /> : <AlertTriangle className="h-4 w-4" />}
+          {summary.handoverReady
+            ? 'Every snag is verified or waived - ready for handover'
+            : `${summary.open} open and ${summary.fixed} awaiting client sign-off before handover`}
+          {summary.overdue > 0 && <span className="ml-auto text-red-700">{summary.overdue} overdue</span>}
+        </div>
+      )}
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {(['all', ...SNAG_STATUSES] as const).map(status => (
+          <Button
+            key={status}
+            size="sm"
+            variant={filter === status ? 'default' : 'outline'}
+            onClick={() => setFilter(status)}
+            className="shrink-0"
+          >
+            {status === 'all' ? 'All' : SNAG_STATUS_LABELS[status]}
+            <span className="ml-1 text-xs opacity-75">{status === 'all' ? summary.total : summary[status]}</span>
+          </Button>
+        ))}
+      </div>
+
+      {snags.length === 0 ? (
+        <Card>
+          <CardContent className="py-8 text-center">
+            <Wrench className="h-10 w-10 text-gray-300 mx-auto mb-3" />
+            <p className="text-sm text-gray-500">
+              {data.snags.length === 0 ? 'No snags have been recorded yet.' : 'No snags with this status.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        visibleLocations.map(location => (
+          <div key={location} className="space-y-2">
+            <h4 className="text-sm font-semibold text-gray-700">{location}</h4>
+            {snags.filter(snag => snag.location === location).map(snag => {
+              const lastNote = [...snag.history].reverse().find(event => event.note);
+              return (
+                <div key={snag._id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-xs font-mono text-gray-500">{snag.number}</span>
+                        <Badge className={STATUS_COLORS[snag.status]}>{SNAG_STATUS_LABELS[snag.status]}</Badge>
+                        {snag.isOverdue && <Badge className="bg-red-100 text-red-800">Overdue</Badge>}
+                        {snag.raisedByClient && <Badge variant="outline">Client</Badge>}
+                      </div>
+                      <p className="text-sm text-gray-900 mt-1">{snag.description}</p>
+                    </div>
+                    {canManage && (
+                      <div className="flex shrink-0">
+                        <Button size="sm" variant="ghost" onClick={() => setFormDialog({ open: true, snag })}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => remove(snag)}>
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-gray-500">
+                    {snag.contractor && (
+                      <span className="flex items-center gap-1">
+                        <HardHat className="h-3 w-3" />
+                        {snag.contractor}
+                      </span>
+                    )}
+                    {snag.dueDate && (
+                      <span className="flex items-center gap-1">
+                        <Calendar className="h-3 w-3" />
+                        Due {format(new Date(snag.dueDate), 'MMM d, yyyy')}
+                      </span>
+                    )}
+                    <span>Raised by {snag.raisedByName}</span>
+                  </div>
+
+                  {(snag.beforePhotos.length > 0 || snag.afterPhotos.length > 0) && (
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                      {snag.beforePhotos.length > 0 && (
+                        <div>
+                          <p className="text-xs text-gray-500 mb-1">Before</p>
+                          <PhotoThumbnails photos={snag.beforePhotos} />
+                        </div>
+                      )}
+                      {snag.afterPhotos.length > 0 && (
+                        <div>
+                          <p className="text-xs text-gray-500 mb-1">After</p>
+                          <PhotoThumbnails photos={snag.afterPhotos} />
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {lastNote && (
+                    <p className="text-xs text-gray-600 bg-gray-50 rounded px-2 py-1">
+                      {lastNote.byName}: “{lastNote.note}”
+                    </p>
+                  )}
+
+                  <div className="flex flex-wrap gap-2">
+                    {canManage && snag.status === 'open' && statusButton(snag, 'fixed', 'Mark Fixed', Wrench)}
+                    {canVerify && snag.status === 'fixed' && statusButton(snag, 'verified', 'Sign Off', CheckCircle)}
+                    {snag.status === 'fixed' && (canVerify || canManage) && statusButton(snag, 'open', 'Reopen', RotateCcw)}
+                    {canWaive && (snag.status === 'open' || snag.status === 'fixed') && statusButton(snag, 'waived', 'Waive', XCircle)}
+                    {canWaive && snag.status === 'waived' && statusButton(snag, 'open', 'Reinstate', RotateCcw)}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ))
+      )}
+
+      <SnagFormDialog
+        projectId={projectId}
+        open={formDialog.open}
+        initial={formDialog.snag}
+        staff={canManage}
+        locations={locations}
+        onOpenChange={(open) => setFormDialog(current => ({ ...current, open }))}
+        onSaved={fetchSnags}
+      />
+      <SnagStatusDialog
+        projectId={projectId}
+        snag={statusDialog.snag}
+        status={statusDialog.status}
+        onOpenChange={(open) => { if (!open) setStatusDialog(current => ({ ...current, snag: null })); }}
+        onSaved={fetchSnags}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+// src/components/snags/SnagFormDialog.tsx - Capture or edit a snag
+// Built for phones on site: the photo picker opens the rear camera directly.
+'use client';
+
+import { useState, useEffect } from 'react';
+import Image from 'next/image';
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Snag, SnagPhoto } from '@/lib/types/snag';
+
+export async function uploadSnagPhoto(projectId: string, file: File): Promise<SnagPhoto> {
+  const formData = new FormData();
+  formData.append('file', file);
+  formData.append('folder', 'snags');
+  formData.append('projectId', projectId);
+  const response = await fetch('/api/upload', { method: 'POST', body: formData });
+  const data = await response.json();
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `Upload of ${file.name} failed`);
+  }
+  return { url: data.url as string, key: data.key as string };
+}
+
+export function PhotoThumbnails({ photos, onRemove }: { photos: SnagPhoto[]; onRemove?: (photo: SnagPhoto) => void }) {
+  if (photos.length === 0) return null;
+  return (
+    <div className="flex flex-wrap gap-2">
+      {photos.map(photo => (
+        <div key={photo.url} className="relative h-16 w-16">
+          <a href={photo.url} target="_blank" rel="noopener noreferrer" className="relative block h-full w-full overflow-hidden rounded-md border">
+            <Image src={photo.url} alt="Snag photo" fill sizes="64px" className="object-cover" />
+          </a>
+          {onRemove && (
+            <button
+              type="button"
+              onClick={() => onRemove(photo)}
+              className="absolute -top-2 -right-2 rounded-full bg-white border shadow p-0.5"
+              aria-label="Remove photo"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface SnagFormDialogProps {
+  projectId: string;
+  open: boolean;
+  initial: Snag | null;
+  staff: boolean;
+  locations: string[];
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => Promise<void>;
+}
+
+export default function SnagFormDialog({ projectId, open, initial, staff, locations, onOpenChange, onSaved }: SnagFormDialogProps) {
+  const { toast } = useToast();
+  const [location, setLocation] = useState('');
+  const [description, setDescription] = useState('');
+  const [contractor, setContractor] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [beforePhotos, setBeforePhotos] = useState<SnagPhoto[]>([]);
+  const [afterPhotos, setAfterPhotos] = useState<SnagPhoto[]>([]);
+  const [files, setFiles] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setLocation(initial?.location || '');
+    setDescription(initial?.description || '');
+    setContractor(initial?.contractor || '');
+    setDueDate(initial?.dueDate ? initial.dueDate.slice(0, 10) : '');
+    setBeforePhotos(initial?.beforePhotos || []);
+    setAfterPhotos(initial?.afterPhotos || []);
+    setFiles([]);
+  }, [open, initial]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    try {
+      const uploaded = await Promise.all(files.map(file => uploadSnagPhoto(projectId, file)));
+      const response = await fetch(
+        initial ? `/api/projects/${projectId}/snags/${initial._id}` : `/api/projects/${projectId}/snags`,
+        {
+          method: initial ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            location,
+            description,
+            contractor,
+            dueDate,
+            beforePhotos: [...beforePhotos, ...uploaded],
+            afterPhotos
+          })
+        }
+      );
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast({ title: 'Success', description: data.message });
+      onOpenChange(false);
+      await onSaved();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save snag'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{initial ? `Edit ${initial.number}` : 'Add Snag'}</DialogTitle>
+          <DialogDescription>
+            Note the room, what needs fixing and take a photo of it.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="snag-location">Room / Location *</Label>
+            <Input
+              id="snag-location"
+              list="snag-locations"
+              value={location}
+              onChange={(e) => setLocation(e.target.value)}
+              placeholder="e.g. Master bedroom"
+              required
+            />
+            <datalist id="snag-locations">
+              {locations.map(name => <option key={name} value={name} />)}
+            </datalist>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="snag-description">What needs fixing? *</Label>
+            <Textarea
+              id="snag-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              placeholder="e.g. Paint chipped above the door frame"
+              required
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="snag-photos">Photos</Label>
+            <PhotoThumbnails
+              photos={beforePhotos}
+              onRemove={(photo) => setBeforePhotos(current => current.filter(item => item.url !== photo.url))}
+            />
+            <Input
+              id="snag-photos"
+              type="file"
+              accept="image/*"
+              capture="environment"
+              multiple
+              onChange={(e) => setFiles(Array.from(e.target.files || []))}
+            />
+          </div>
+          {staff && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="snag-contractor">Responsible Contractor</Label>
+                  <Input id="snag-contractor" value={contractor} onChange={(e) => setContractor(e.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="snag-due">Due Date</Label>
+                  <Input id="snag-due" type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} />
+                </div>
+              </div>
+              {afterPhotos.length > 0 && (
+                <div className="space-y-2">
+                  <Label>After Photos</Label>
+                  <PhotoThumbnails
+                    photos={afterPhotos}
+                    onRemove={(photo) => setAfterPhotos(current => current.filter(item => item.url !== photo.url))}
+                  />
+                </div>
+              )}
+            </>
+          )}
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,35 @@
+// src/components/snags/SnagListPage.tsx - Full-screen snag list used by the role pages
+// Site officers open this on their phones during snagging walks.
+'use client';
+
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useSession } from 'next-auth/react';
+import { ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import ProjectSnagList from './ProjectSnagList';
+
+export default function SnagListPage({ basePath }: { basePath: '/admin' | '/manager' | '/client' }) {
+  const params = useParams<{ id: string }>();
+  const { data: session } = useSession();
+  const role = session?.user?.role;
+
+  return (
+    <div className="space-y-4 max-w-3xl mx-auto">
+      <Button variant="outline" size="sm" asChild>
+        <Link href={`${basePath}/projects/${params.id}`}>
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back to Project
+        </Link>
+      </Button>
+      {role && (
+        <ProjectSnagList
+          projectId={params.id}
+          canManage={role === 'super_admin' || role === 'project_manager'}
+          canVerify={role === 'client'}
+          canWaive={role === 'super_admin'}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+// src/components/snags/SnagStatusDialog.tsx - Mark fixed, sign off, reopen or waive a snag
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { Snag, SnagStatus } from '@/lib/types/snag';
+import { uploadSnagPhoto } from './SnagFormDialog';
+
+const COPY: Record<SnagStatus, { title: string; description: string; action: string; noteLabel: string }> = {
+  fixed: {
+    title: 'Mark Fixed',
+    description: 'Add a photo of the finished work. The client will be asked to sign it off.',
+    action: 'Mark Fixed',
+    noteLabel: 'Note'
+  },
+  verified: {
+    title: 'Sign Off',
+    description: 'Confirm you have checked this snag and are happy it is fixed.',
+    action: 'Sign Off',
+    noteLabel: 'Comment'
+  },
+  open: {
+    title: 'Reopen',
+    description: 'Send this snag back to the team.',
+    action: 'Reopen',
+    noteLabel: 'What still needs fixing? *'
+  },
+  waived: {
+    title: 'Waive',
+    description: 'A waived snag no longer holds up handover.',
+    action: 'Waive',
+    noteLabel: 'Reason for waiving *'
+  }
+};
+
+interface SnagStatusDialogProps {
+  projectId: string;
+  snag: Snag | null;
+  status: SnagStatus;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => Promise<void>;
+}
+
+export default function SnagStatusDialog({ projectId, snag, status, onOpenChange, onSaved }: SnagStatusDialogProps) {
+  const { toast } = useToast();
+  const [note, setNote] = useState('');
+  const [files, setFiles] = useState<File[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!snag) return;
+    setNote('');
+    setFiles([]);
+  }, [snag, status]);
+
+  const copy = COPY[status];
+  // Reinstating a waived snag needs no explanation; reopening a fix does
+  const noteRequired = status === 'waived' || (status === 'open' && snag?.status === 'fixed');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!snag) return;
+    setSaving(true);
+    try {
+      const afterPhotos = await Promise.all(files.map(file => uploadSnagPhoto(projectId, file)));
+      const response = await fetch(`/api/projects/${projectId}/snags/${snag._id}/status`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status, note, afterPhotos })
+      });
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Request failed');
+      }
+      toast({ title: 'Success', description: data.message });
+      onOpenChange(false);
+      await onSaved();
+    } catch (error) {
+      toast({
+        variant: 'destructive',
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update snag'
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={snag !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>{copy.title} {snag?.number}</DialogTitle>
+          <DialogDescription>{copy.description}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {snag && (
+            <p className="text-sm text-gray-700">
+              <span className="font-medium">{snag.location}:</span> {snag.description}
+            </p>
+          )}
+          {status === 'fixed' && (
+            <div className="space-y-2">
+              <Label htmlFor="snag-after-photos">After Photos</Label>
+              <Input
+                id="snag-after-photos"
+                type="file"
+                accept="image/*"
+                capture="environment"
+                multiple
+                onChange={(e) => setFiles(Array.from(e.target.files || []))}
+              />
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="snag-note">{copy.noteLabel}</Label>
+            <Textarea id="snag-note" value={note} onChange={(e) => setNote(e.target.value)} rows={3} required={noteRequired} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+            <Button
+              type="submit"
+              disabled={saving || (noteRequired && !note.trim())}
+              variant={status === 'waived' || status === 'open' ? 'destructive' : 'default'}
+            >
+              {saving ? 'Saving...' : copy.action}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,6 +4,8 @@
 import React, { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
 import { useSession } from 'next-auth/react';
 import { io, Socket } from 'socket.io-client';
+import type { ChannelMessage } from '@/lib/types/channel';
+import type { ChannelRead, DirectMessageUpdate, DirectMessagesRead } from '@/lib/types/message';
 
 // Derive the socket URL:
 // - In production: NEXT_PUBLIC_SOCKET_URL must be set (e.g. wss://your-domain.com)
@@ -70,9 +72,12 @@ interface UserStatus {
   lastSeen: Date;
 }
 
+// Typing in a project channel carries its projectId, typing in a direct
+// conversation the recipientId (which is always the current user)
 interface TypingUser {
   userId: string;
-  projectId: string;
+  projectId?: string;
+  recipientId?: string;
   isTyping: boolean;
 }
 
@@ -126,6 +131,8 @@ interface SocketContextType {
   // Typing functions
   startTyping: (projectId: string) => void;
   stopTyping: (projectId: string) => void;
+  startDirectTyping: (recipientId: string) => void;
+  stopDirectTyping: (recipientId: string) => void;
   
   // Project update functions - FIXED: Use proper types instead of any
   broadcastProjectUpdate: (projectId: string, update: Omit<ProjectUpdate, 'projectId'>) => void;
@@ -140,6 +147,11 @@ interface SocketContextType {
   onProjectUpdate: (callback: (update: ProjectUpdate) => void) => () => void;
   onTaskUpdate: (callback: (task: TaskUpdate) => void) => () => void;
   onFileUpload: (callback: (file: FileUpload) => void) => () => void;
+  onChannelMessage: (callback: (message: ChannelMessage) => void) => () => void;
+  onChannelMessageUpdated: (callback: (message: ChannelMessage) => void) => () => void;
+  onChannelRead: (callback: (receipt: ChannelRead) => void) => () => void;
+  onDirectMessageUpdated: (callback: (update: DirectMessageUpdate) => void) => () => void;
+  onDirectMessagesRead: (callback: (receipt: DirectMessagesRead) => void) => () => void;
 }
 
 const SocketContext = createContext<SocketContextType | null>(null);
@@ -324,6 +336,16 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
     socket.emit('stop_typing', { projectId });
   }, [socket]);
 
+  const startDirectTyping = useCallback((recipientId: string) => {
+    if (!socket?.connected) return;
+    socket.emit('typing', { recipientId });
+  }, [socket]);
+
+  const stopDirectTyping = useCallback((recipientId: string) => {
+    if (!socket?.connected) return;
+    socket.emit('stop_typing', { recipientId });
+  }, [socket]);
+
   // Broadcast functions - FIXED: Use proper types instead of any
   const broadcastProjectUpdate = useCallback((projectId: string, update: Omit<ProjectUpdate, 'projectId'>) => {
     if (!socket?.connected) return;
@@ -390,6 +412,46 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
     return () => socket.off('new_file', callback);
   }, [socket]);
 
+  // Project channel messages, pushed by the API to the project's room
+  const onChannelMessage = useCallback((callback: (message: ChannelMessage) => void) => {
+    if (!socket) return () => {};
+
+    socket.on('channel_message', callback);
+    return () => socket.off('channel_message', callback);
+  }, [socket]);
+
+  // A channel message was edited or deleted
+  const onChannelMessageUpdated = useCallback((callback: (message: ChannelMessage) => void) => {
+    if (!socket) return () => {};
+
+    socket.on('channel_message_updated', callback);
+    return () => socket.off('channel_message_updated', callback);
+  }, [socket]);
+
+  // A member read the channel up to now
+  const onChannelRead = useCallback((callback: (receipt: ChannelRead) => void) => {
+    if (!socket) return () => {};
+
+    socket.on('channel_read', callback);
+    return () => socket.off('channel_read', callback);
+  }, [socket]);
+
+  // A direct message to or from the user was edited or deleted
+  const onDirectMessageUpdated = useCallback((callback: (update: DirectMessageUpdate) => void) => {
+    if (!socket) return () => {};
+
+    socket.on('message_updated', callback);
+    return () => socket.off('message_updated', callback);
+  }, [socket]);
+
+  // Someone read the direct messages the user sent them
+  const onDirectMessagesRead = useCallback((callback: (receipt: DirectMessagesRead) => void) => {
+    if (!socket) return () => {};
+
+    socket.on('messages_read', callback);
+    return () => socket.off('messages_read', callback);
+  }, [socket]);
+
   const value: SocketContextType = {
     socket,
     isConnected,
@@ -403,6 +465,8 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
     leaveProject,
     startTyping,
     stopTyping,
+    startDirectTyping,
+    stopDirectTyping,
     broadcastProjectUpdate,
     broadcastTaskUpdate,
     broadcastFileUpload,
@@ -412,7 +476,12 @@ export const SocketProvider: React.FC<SocketProviderProps> = ({ children }) => {
     onUserTyping,
     onProjectUpdate,
     onTaskUpdate,
-    onFileUpload
+    onFileUpload,
+    onChannelMessage,
+    onChannelMessageUpdated,
+    onChannelRead,
+    onDirectMessageUpdated,
+    onDirectMessagesRead
   };
 
   return (
@@ -0,0 +1,32 @@
+// src/hooks/useProjectBudget.ts
+import { useState, useEffect, useCallback } from 'react';
+import type { ClientBudgetData, ProjectBudgetData } from '@/lib/types/budget';
+
+export const useProjectBudget = (projectId: string) => {
+  const [budget, setBudget] = useState<ProjectBudgetData | ClientBudgetData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/projects/${projectId}/budget`);
+      const data = await response.json();
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || 'Failed to load budget');
+      }
+      setBudget(data.data);
+      setError(null);
+    } catch (err) {
+      console.error('Error fetching project budget:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load budget');
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { budget, loading, error, refresh };
+};
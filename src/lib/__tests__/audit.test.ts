@@ -0,0 +1,49 @@
+// src/lib/__tests__/audit.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { redactAuditLog, scopeAuditQuery } from '@/lib/audit';
+import type { AuditLog } from '@/lib/types/audit';
+
+describe('scopeAuditQuery', () => {
+  it('leaves staff queries alone', () => {
+    assert.deepEqual(scopeAuditQuery({ action: 'created' }, 'manager'), { action: 'created' });
+    assert.deepEqual(scopeAuditQuery({}, 'admin'), {});
+  });
+
+  it('limits clients to entities they can view', () => {
+    const { entityType } = scopeAuditQuery({}, 'client') as { entityType: { $in: string[] } };
+    for (const hidden of ['cost', 'budget_line', 'labor_log', 'daily_report', 'site_conditions', 'user']) {
+      assert.ok(!entityType.$in.includes(hidden), `${hidden} is hidden from clients`);
+    }
+    for (const shown of ['project', 'activity', 'payment', 'change_order', 'snag']) {
+      assert.ok(entityType.$in.includes(shown), `${shown} is shown to clients`);
+    }
+  });
+
+  it('matches nothing when a client asks for a hidden entity type', () => {
+    assert.deepEqual(scopeAuditQuery({ entityType: 'cost' }, 'client'), { entityType: { $in: [] } });
+    assert.deepEqual(scopeAuditQuery({ entityType: 'snag' }, 'client'), { entityType: { $in: ['snag'] } });
+  });
+});
+
+describe('redactAuditLog', () => {
+  it('drops the IP address and metadata', () => {
+    const log = {
+      _id: '1',
+      action: 'created',
+      entityType: 'payment',
+      actorId: '2',
+      actorName: 'Ada',
+      actorRole: 'project_manager',
+      changes: [],
+      metadata: { amount: 500000 },
+      ipAddress: '10.0.0.1',
+      timestamp: new Date(0).toISOString()
+    } satisfies AuditLog;
+
+    const redacted = redactAuditLog(log);
+    assert.equal(redacted.metadata, undefined);
+    assert.equal(redacted.ipAddress, undefined);
+    assert.equal(redacted.actorName, 'Ada');
+  });
+});
@@ -0,0 +1,106 @@
+// src/lib/__tests__/change-orders.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Db, ObjectId } from 'mongodb';
+import { applyChangeOrder, ChangeOrderProject, nextChangeOrderNumber } from '@/lib/change-orders';
+import type { ChangeOrderDocument } from '@/lib/types/change-order';
+
+// Records the writes applyChangeOrder sends to the projects collection
+function recordingDb() {
+  const writes: unknown[][] = [];
+  const db = {
+    collection: () => ({
+      bulkWrite: async (operations: unknown[]) => {
+        writes.push(operations);
+        return {};
+      }
+    })
+  } as unknown as Db;
+  return { db, writes };
+}
+
+// The subset of pipeline $add/$ifNull the budget update uses, evaluated against a project
+function evaluate(expression: unknown, doc: Record<string, unknown>): unknown {
+  if (typeof expression === 'string' && expression.startsWith('$')) return doc[expression.slice(1)];
+  if (expression && typeof expression === 'object' && !Array.isArray(expression)) {
+    const [[operator, args]] = Object.entries(expression);
+    const values = (args as unknown[]).map(arg => evaluate(arg, doc));
+    if (operator === '$ifNull') return values[0] ?? values[1];
+    if (operator === '$add') return (values as number[]).reduce((sum, value) => sum + value, 0);
+  }
+  return expression;
+}
+
+// A change_orders collection holding `orders`, answering the newest-first lookup
+function ordersDb(orders: Array<{ projectId: ObjectId; number: string; createdAt: Date }>) {
+  return {
+    collection: () => ({
+      find: (filter: { projectId: ObjectId }) => ({
+        sort: () => ({
+          limit: (count: number) => ({
+            toArray: async () => orders
+              .filter(order => order.projectId.equals(filter.projectId))
+              .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+              .slice(0, count)
+          })
+        })
+      })
+    })
+  } as unknown as Db;
+}
+
+const project = (budget: number | null): ChangeOrderProject => ({
+  _id: new ObjectId(),
+  title: 'Lekki duplex',
+  budget: budget as number | undefined,
+  workCalendar: { workingDays: [1, 2, 3, 4, 5], observePublicHolidays: false }
+});
+
+const order = (costDelta: number): ChangeOrderDocument => ({
+  costDelta,
+  scheduleDeltaDays: 0,
+  activities: []
+} as unknown as ChangeOrderDocument);
+
+describe('applyChangeOrder', () => {
+  for (const budget of [null, 2_500_000]) {
+    it(`adds the cost delta to a project whose budget is ${budget}`, async () => {
+      const { db, writes } = recordingDb();
+      const applied = await applyChangeOrder(db, project(budget), order(150_000));
+
+      assert.equal(applied.budgetBefore, budget ?? 0);
+      assert.equal(applied.budgetAfter, (budget ?? 0) + 150_000);
+
+      const [operations] = writes;
+      const budgetUpdate = (operations.at(-1) as { updateOne: { update: unknown } }).updateOne.update;
+      assert.ok(Array.isArray(budgetUpdate), 'budget is updated with a pipeline, not $inc');
+      const [{ $set }] = budgetUpdate as Array<{ $set: { budget: unknown } }>;
+      assert.equal(evaluate($set.budget, { budget }), (budget ?? 0) + 150_000);
+    });
+  }
+});
+
+describe('nextChangeOrderNumber', () => {
+  const projectId = new ObjectId();
+  const created = (day: number) => new Date(Date.UTC(2026, 2, day));
+
+  it('starts at CO-001', async () => {
+    assert.equal(await nextChangeOrderNumber(ordersDb([]), projectId), 'CO-001');
+  });
+
+  it('follows the newest order rather than counting them', async () => {
+    // CO-002 was a draft that got deleted
+    const db = ordersDb([
+      { projectId, number: 'CO-001', createdAt: created(2) },
+      { projectId, number: 'CO-003', createdAt: created(4) }
+    ]);
+
+    assert.equal(await nextChangeOrderNumber(db, projectId), 'CO-004');
+  });
+
+  it('numbers each project separately', async () => {
+    const db = ordersDb([{ projectId: new ObjectId(), number: 'CO-007', createdAt: created(2) }]);
+
+    assert.equal(await nextChangeOrderNumber(db, projectId), 'CO-001');
+  });
+});
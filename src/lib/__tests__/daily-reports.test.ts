@@ -0,0 +1,70 @@
+// src/lib/__tests__/daily-reports.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Db, ObjectId } from 'mongodb';
+import { clientVisibleDailyLogs, DAILY_REPORTS_COLLECTION } from '@/lib/daily-reports';
+
+interface ReportFixture {
+  project: ObjectId;
+  date: Date;
+  status?: string;
+  approved?: boolean;
+}
+
+// Answers find() on the daily reports collection from `reports`, honouring the
+// project, date range and approved filters clientVisibleDailyLogs sends
+function reportsDb(reports: ReportFixture[]) {
+  const queried: string[] = [];
+  const db = {
+    collection: (name: string) => {
+      queried.push(name);
+      return {
+        find: (filter: { project: ObjectId; date: { $gte: Date; $lt: Date }; approved?: boolean }) => ({
+          toArray: async () => reports.filter(report =>
+            report.project.equals(filter.project) &&
+            report.date >= filter.date.$gte && report.date < filter.date.$lt &&
+            (filter.approved === undefined || report.approved === filter.approved)
+          )
+        })
+      };
+    }
+  } as unknown as Db;
+  return { db, queried };
+}
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+describe('clientVisibleDailyLogs', () => {
+  const projectId = new ObjectId();
+  const logs = ['2026-03-02', '2026-03-03', '2026-03-04'].map(date => ({ date: day(date), approved: false }));
+
+  it('keeps the days whose daily report was approved', async () => {
+    const { db, queried } = reportsDb([
+      { project: projectId, date: day('2026-03-02'), status: 'approved', approved: true },
+      { project: projectId, date: day('2026-03-03'), status: 'submitted', approved: false },
+      // Posted mid-morning, while the log is stored at midnight
+      { project: projectId, date: new Date('2026-03-04T09:30:00.000Z'), status: 'approved', approved: true }
+    ]);
+
+    const visible = await clientVisibleDailyLogs(db, projectId, logs);
+
+    assert.deepEqual(visible.map(log => log.date.toISOString().split('T')[0]), ['2026-03-02', '2026-03-04']);
+    assert.deepEqual(queried, [DAILY_REPORTS_COLLECTION]);
+  });
+
+  it('ignores approved reports from other projects', async () => {
+    const { db } = reportsDb([
+      { project: new ObjectId(), date: day('2026-03-02'), status: 'approved', approved: true }
+    ]);
+
+    assert.deepEqual(await clientVisibleDailyLogs(db, projectId, logs), []);
+  });
+
+  it('keeps logs that were approved themselves without looking up reports', async () => {
+    const { db, queried } = reportsDb([]);
+    const imported = logs.map(log => ({ ...log, approved: true }));
+
+    assert.deepEqual(await clientVisibleDailyLogs(db, projectId, imported), imported);
+    assert.deepEqual(queried, []);
+  });
+});
@@ -0,0 +1,104 @@
+// src/lib/__tests__/project-access.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ObjectId } from 'mongodb';
+import {
+  checkProjectPermission,
+  getProjectRelation,
+  relationHasPermission,
+  PROJECT_PERMISSIONS,
+  ProjectPermission,
+  ProjectRelation
+} from '@/lib/project-access';
+
+// The policy as agreed, written out independently of the matrix it checks.
+// Anything not listed here is open to everyone on the project.
+const ADMIN_ONLY: ProjectPermission[] = [
+  'delete_project', 'manage_managers', 'delete_baseline', 'plan_labor',
+  'delete_incident', 'delete_risk', 'waive_snags'
+];
+const CLIENT_ONLY: ProjectPermission[] = [
+  'decide_change_orders', 'approve_designs', 'verify_snags', 'approve_procurement'
+];
+const STAFF: ProjectPermission[] = [
+  'edit_project', 'edit_schedule', 'edit_activity', 'delete_activity', 'view_internal_comments',
+  'manage_milestones', 'manage_calendar', 'manage_baselines', 'submit_report', 'delete_report',
+  'approve_report', 'view_labor', 'log_labor', 'log_site_conditions', 'view_delays',
+  'record_meeting_minutes', 'report_incident', 'manage_incidents', 'manage_risks', 'view_budget',
+  'manage_budget', 'manage_payments', 'manage_change_orders', 'manage_designs', 'manage_snags',
+  'manage_procurement'
+];
+
+function expectedRelations(permission: ProjectPermission): ProjectRelation[] {
+  if (ADMIN_ONLY.includes(permission)) return ['admin'];
+  if (CLIENT_ONLY.includes(permission)) return ['client'];
+  if (STAFF.includes(permission)) return ['admin', 'manager'];
+  return ['admin', 'manager', 'client'];
+}
+
+const managerId = new ObjectId();
+const clientId = new ObjectId();
+const project = { _id: new ObjectId(), client: clientId, managers: [new ObjectId(), managerId] };
+
+const users = {
+  admin: { id: new ObjectId().toString(), role: 'super_admin' },
+  manager: { id: managerId.toString(), role: 'project_manager' },
+  client: { id: clientId.toString(), role: 'client' },
+  otherManager: { id: new ObjectId().toString(), role: 'project_manager' },
+  otherClient: { id: new ObjectId().toString(), role: 'client' }
+};
+
+const permissions = Object.keys(PROJECT_PERMISSIONS) as ProjectPermission[];
+
+describe('getProjectRelation', () => {
+  it('relates each user to the project by role and membership', () => {
+    assert.equal(getProjectRelation(project, users.admin), 'admin');
+    assert.equal(getProjectRelation(project, users.manager), 'manager');
+    assert.equal(getProjectRelation(project, users.client), 'client');
+    assert.equal(getProjectRelation(project, users.otherManager), null);
+    assert.equal(getProjectRelation(project, users.otherClient), null);
+  });
+
+  it('needs the role and the project field to agree', () => {
+    assert.equal(getProjectRelation(project, { id: clientId.toString(), role: 'project_manager' }), null);
+    assert.equal(getProjectRelation(project, { id: managerId.toString(), role: 'client' }), null);
+  });
+
+  it('ignores the legacy single manager field and malformed ids', () => {
+    const legacy = { _id: new ObjectId(), client: null, manager: managerId } as Parameters<typeof getProjectRelation>[0];
+    assert.equal(getProjectRelation(legacy, users.manager), null);
+    assert.equal(getProjectRelation(project, { id: 'not-an-id', role: 'client' }), null);
+  });
+});
+
+describe('project permission matrix', () => {
+  const relations: ProjectRelation[] = ['admin', 'manager', 'client'];
+
+  for (const permission of permissions) {
+    for (const relation of relations) {
+      const allowed = expectedRelations(permission).includes(relation);
+
+      it(`${relation} ${allowed ? 'may' : 'may not'} ${permission}`, () => {
+        assert.equal(relationHasPermission(relation, permission), allowed);
+
+        const denied = checkProjectPermission(project, users[relation], permission);
+        if (allowed) {
+          assert.equal(denied, null);
+        } else {
+          assert.equal(denied?.status, 403);
+          assert.match(denied!.error, /^Only /);
+        }
+      });
+    }
+
+    it(`a user with no relation to the project gets a 404 for ${permission}`, () => {
+      assert.equal(relationHasPermission(null, permission), false);
+      for (const outsider of [users.otherManager, users.otherClient]) {
+        assert.deepEqual(checkProjectPermission(project, outsider, permission), {
+          status: 404,
+          error: 'Project not found or access denied'
+        });
+      }
+    });
+  }
+});
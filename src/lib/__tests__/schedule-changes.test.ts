@@ -0,0 +1,127 @@
+// src/lib/__tests__/schedule-changes.test.ts
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ObjectId } from 'mongodb';
+import { applyScheduleShifts, planScheduleChange, scheduleShiftOperations } from '@/lib/schedule-changes';
+import type { ScheduleActivityInput, SchedulePhaseInput } from '@/lib/scheduling';
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`);
+
+const activity = (id: string, start: string, end: string, dependencies: string[] = []): ScheduleActivityInput => ({
+  _id: id,
+  title: id,
+  startDate: day(start),
+  endDate: day(end),
+  dependencies
+});
+
+const schedule = (...activities: ScheduleActivityInput[]): SchedulePhaseInput[] => [
+  { _id: new ObjectId().toString(), name: 'Construction', activities }
+];
+
+// The same schedule with one activity replaced
+function edit(phases: SchedulePhaseInput[], changed: ScheduleActivityInput): SchedulePhaseInput[] {
+  return phases.map(phase => ({
+    ...phase,
+    activities: phase.activities!.map(item => item._id === changed._id ? changed : item)
+  }));
+}
+
+describe('planScheduleChange', () => {
+  it('moves dependents when an activity finishes later', () => {
+    const before = schedule(
+      activity('screeding', '2026-03-02', '2026-03-04'),
+      activity('tiling', '2026-03-05', '2026-03-09', ['screeding'])
+    );
+    const plan = planScheduleChange(before, edit(before, activity('screeding', '2026-03-02', '2026-03-06')));
+
+    assert.ok(!('error' in plan));
+    assert.deepEqual(plan.shifts.map(shift => [shift.id, shift.start.toISOString(), shift.end.toISOString()]), [
+      ['tiling', day('2026-03-06').toISOString(), day('2026-03-10').toISOString()]
+    ]);
+    assert.equal(plan.shifts[0].previousStart.getTime(), day('2026-03-05').getTime());
+    assert.equal(plan.handover.projectedFinish?.getTime(), day('2026-03-10').getTime());
+  });
+
+  it('moves an activity that gains a predecessor finishing after it starts', () => {
+    const before = schedule(
+      activity('screeding', '2026-03-02', '2026-03-06'),
+      activity('tiling', '2026-03-04', '2026-03-05')
+    );
+    const plan = planScheduleChange(before, edit(before, activity('tiling', '2026-03-04', '2026-03-05', ['screeding'])));
+
+    assert.ok(!('error' in plan));
+    assert.deepEqual(plan.shifts.map(shift => shift.id), ['tiling']);
+    assert.equal(plan.shifts[0].start.getTime(), day('2026-03-06').getTime());
+  });
+
+  it('refuses a dependency that closes a cycle', () => {
+    const before = schedule(
+      activity('screeding', '2026-03-02', '2026-03-04'),
+      activity('tiling', '2026-03-05', '2026-03-09', ['screeding'])
+    );
+    const plan = planScheduleChange(before, edit(before, activity('screeding', '2026-03-02', '2026-03-04', ['tiling'])));
+
+    assert.ok('error' in plan);
+    assert.equal(plan.status, 409);
+    assert.match(plan.error, /^Circular dependency: /);
+  });
+
+  it('refuses a date-only edit to a schedule that is already circular', () => {
+    const before = schedule(
+      activity('screeding', '2026-03-02', '2026-03-04', ['tiling']),
+      activity('tiling', '2026-03-05', '2026-03-09', ['screeding'])
+    );
+    const plan = planScheduleChange(before, edit(before, activity('screeding', '2026-03-02', '2026-03-06', ['tiling'])));
+
+    assert.ok('error' in plan);
+    assert.equal(plan.status, 409);
+  });
+
+  it('leaves the dates of a new activity alone', () => {
+    const before = schedule(activity('screeding', '2026-03-02', '2026-03-06'));
+    const after = [{ ...before[0], activities: [...before[0].activities!, activity('tiling', '2026-03-04', '2026-03-05', ['screeding'])] }];
+
+    const plan = planScheduleChange(before, after);
+
+    assert.ok(!('error' in plan));
+    assert.deepEqual(plan.shifts, []);
+  });
+});
+
+describe('saving schedule shifts', () => {
+  const phaseId = new ObjectId();
+  const tilingId = new ObjectId();
+  const shift = {
+    id: tilingId.toString(),
+    phaseId: phaseId.toString(),
+    title: 'Tiling',
+    previousStart: day('2026-03-05'),
+    previousEnd: day('2026-03-09'),
+    start: day('2026-03-06'),
+    end: day('2026-03-10')
+  };
+
+  it('writes the planned dates of activities created with them', () => {
+    const phases: SchedulePhaseInput[] = [{
+      _id: phaseId,
+      name: 'Construction',
+      activities: [{ _id: tilingId, title: 'Tiling', plannedStartDate: day('2026-03-05'), plannedEndDate: day('2026-03-09') }]
+    }];
+    const projectId = new ObjectId();
+    const [operation] = scheduleShiftOperations(projectId, phases, [shift]);
+
+    assert.ok('updateOne' in operation);
+    const { $set } = operation.updateOne.update as { $set: Record<string, unknown> };
+    assert.deepEqual($set['siteSchedule.phases.$[phase].activities.$[activity].plannedStartDate'], shift.start);
+    assert.deepEqual($set['siteSchedule.phases.$[phase].activities.$[activity].plannedEndDate'], shift.end);
+  });
+
+  it('moves loaded activities in place', () => {
+    const tiling: ScheduleActivityInput = { _id: tilingId, title: 'Tiling', startDate: day('2026-03-05'), endDate: day('2026-03-09') };
+    applyScheduleShifts([{ _id: phaseId, name: 'Construction', activities: [tiling] }], [shift]);
+
+    assert.equal(tiling.startDate, shift.start);
+    assert.equal(tiling.endDate, shift.end);
+  });
+});
@@ -0,0 +1,287 @@
+// src/lib/audit.ts - Persisted audit trail
+// Every entry records who did what to which entity, and for updates a
+// field-level before/after diff. Writing an entry never fails the request.
+import { Db, Filter, ObjectId } from 'mongodb';
+import { connectToDatabase } from '@/lib/db';
+import { logAudit } from '@/lib/logger';
+import { relationHasPermission, ProjectPermission, ProjectRelation } from '@/lib/project-access';
+import {
+  AUDIT_ACTIONS,
+  AUDIT_ENTITY_TYPES,
+  transformAuditLog,
+  AuditAction,
+  AuditChange,
+  AuditEntityType,
+  AuditLog,
+  AuditLogDocument,
+  AuditLogFilters
+} from '@/lib/types/audit';
+
+export const AUDIT_COLLECTION = 'audit_logs';
+
+// Larger values (activity lists, nested objects) are summarised in the diff
+const MAX_VALUE_LENGTH = 300;
+
+// What a project member must be allowed to see to read an entity's history.
+// Daily reports go with approving them, because their history covers drafts
+// and returned reports the client never sees.
+const AUDIT_ENTITY_PERMISSIONS: Record<AuditEntityType, ProjectPermission> = {
+  project: 'view_project',
+  activity: 'view_schedule',
+  daily_report: 'approve_report',
+  labor_log: 'view_labor',
+  site_conditions: 'log_site_conditions',
+  meeting_minutes: 'view_meeting_minutes',
+  incident: 'view_incidents',
+  risk: 'view_risks',
+  budget_line: 'view_budget',
+  cost: 'view_budget',
+  payment: 'view_payments',
+  change_order: 'view_change_orders',
+  design_submission: 'view_designs',
+  snag: 'view_snags',
+  procurement_item: 'view_procurement',
+  contractor: 'edit_project',
+  user: 'edit_project',
+  file: 'view_project'
+};
+
+export interface AuditActor {
+  id: string;
+  name?: string | null;
+  role?: string;
+}
+
+export interface AuditEntry {
+  actor: AuditActor;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string | ObjectId;
+  entityLabel?: string;
+  projectId?: string | ObjectId | null;
+  changes?: AuditChange[];
+  metadata?: Record<string, unknown>;
+  request?: Request;
+}
+
+function toObjectId(value: string | ObjectId | null | undefined): ObjectId | undefined {
+  if (!value) return undefined;
+  if (value instanceof ObjectId) return value;
+  return ObjectId.isValid(value) ? new ObjectId(value) : undefined;
+}
+
+/**
+ * Make a value safe and comparable for storage: dates become ISO strings,
+ * ObjectIds become hex strings, and oversized values a short description
+ */
+export function normalizeAuditValue(value: unknown): unknown {
+  if (value === undefined || value === null) return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (value instanceof ObjectId) return value.toString();
+  if (Array.isArray(value)) {
+    const items = value.map(normalizeAuditValue);
+    return JSON.stringify(items).length > MAX_VALUE_LENGTH ? `${items.length} items` : items;
+  }
+  if (typeof value === 'object') {
+    // Mongoose subdocuments expose toObject(); plain objects are copied
+    const source = typeof (value as { toObject?: unknown }).toObject === 'function'
+      ? (value as { toObject: () => Record<string, unknown> }).toObject()
+      : value as Record<string, unknown>;
+    const normalized = Object.fromEntries(
+      Object.entries(source).map(([key, entry]) => [key, normalizeAuditValue(entry)])
+    );
+    return JSON.stringify(normalized).length > MAX_VALUE_LENGTH ? '(changed)' : normalized;
+  }
+  return value;
+}
+
+/**
+ * Field-level differences between two versions of a record. Only `fields`
+ * are compared when given, otherwise every key of `after` except timestamps.
+ */
+export function diffFields(
+  before: object | null | undefined,
+  after: object,
+  fields?: string[]
+): AuditChange[] {
+  const previous = (before || {}) as Record<string, unknown>;
+  const next = after as Record<string, unknown>;
+  const keys = fields || Object.keys(next).filter(key => !['updatedAt', 'createdAt', '_id'].includes(key));
+
+  return keys.flatMap(field => {
+    const beforeValue = normalizeAuditValue(previous[field]);
+    const afterValue = normalizeAuditValue(next[field]);
+    if (JSON.stringify(beforeValue) === JSON.stringify(afterValue)) return [];
+    return [{ field, before: beforeValue, after: afterValue }];
+  });
+}
+
+/**
+ * Copy `fields` out of a record before it is mutated in place, so the
+ * mutated record can later be diffed against the copy
+ */
+export function snapshotFields(record: object, fields: string[]): Record<string, unknown> {
+  const source = record as Record<string, unknown>;
+  return Object.fromEntries(fields.map(field => [field, normalizeAuditValue(source[field])]));
+}
+
+// A status change is the headline of an update, so it gets its own action
+export function auditUpdateAction(changes: AuditChange[]): AuditAction {
+  return changes.some(change => change.field === 'status') ? 'status_changed' : 'updated';
+}
+
+/**
+ * Persist an audit entry. Updates that changed nothing are skipped, and a
+ * failed write is logged rather than thrown.
+ */
+export async function recordAudit(entry: AuditEntry): Promise<void> {
+  const changes = entry.changes || [];
+  if (entry.action === 'updated' && changes.length === 0) return;
+
+  const document: AuditLogDocument = {
+    action: entry.action,
+    entityType: entry.entityType,
+    entityId: toObjectId(entry.entityId),
+    entityLabel: entry.entityLabel,
+    projectId: toObjectId(entry.projectId),
+    actorId: toObjectId(entry.actor.id),
+    actorName: entry.actor.name || undefined,
+    actorRole: entry.actor.role,
+    changes,
+    metadata: entry.metadata,
+    ipAddress: entry.request?.headers.get('x-forwarded-for') ||
+               entry.request?.headers.get('x-real-ip') ||
+               undefined,
+    timestamp: new Date()
+  };
+
+  try {
+    const { db } = await connectToDatabase();
+    await db.collection<AuditLogDocument>(AUDIT_COLLECTION).insertOne(document);
+    logAudit(`${entry.entityType} ${entry.action}`, entry.actor.id, {
+      entityId: entry.entityId.toString(),
+      fields: changes.map(change => change.field)
+    });
+  } catch (error) {
+    // Non-critical error - log but don't fail the operation
+    console.error('Error recording audit entry:', error);
+  }
+}
+
+/**
+ * Read viewer filters from a query string; unknown values are dropped
+ */
+export function parseAuditFilters(searchParams: URLSearchParams): AuditLogFilters {
+  const entityType = searchParams.get('entityType') as AuditEntityType | null;
+  const action = searchParams.get('action') as AuditAction | null;
+  return {
+    entityType: entityType && AUDIT_ENTITY_TYPES.includes(entityType) ? entityType : undefined,
+    action: action && AUDIT_ACTIONS.includes(action) ? action : undefined,
+    actorId: searchParams.get('actorId') || undefined,
+    projectId: searchParams.get('projectId') || undefined,
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+    search: searchParams.get('search')?.trim() || undefined
+  };
+}
+
+export function buildAuditQuery(filters: AuditLogFilters): Filter<AuditLogDocument> {
+  const query: Filter<AuditLogDocument> = {};
+
+  if (filters.entityType) query.entityType = filters.entityType;
+  if (filters.action) query.action = filters.action;
+  if (filters.actorId && ObjectId.isValid(filters.actorId)) {
+    const actorId = new ObjectId(filters.actorId);
+    query.$or = [{ actorId }, { userId: actorId }];
+  }
+  if (filters.projectId && ObjectId.isValid(filters.projectId)) {
+    query.projectId = new ObjectId(filters.projectId);
+  }
+
+  const from = filters.from ? new Date(filters.from) : null;
+  const to = filters.to ? new Date(filters.to) : null;
+  if ((from && !isNaN(from.getTime())) || (to && !isNaN(to.getTime()))) {
+    query.timestamp = {};
+    if (from && !isNaN(from.getTime())) query.timestamp.$gte = from;
+    if (to && !isNaN(to.getTime())) {
+      // A bare date means "through the end of that day"
+      if (/^\d{4}-\d{2}-\d{2}$/.test(filters.to!)) to.setUTCHours(23, 59, 59, 999);
+      query.timestamp.$lte = to;
+    }
+  }
+
+  if (filters.search) {
+    const pattern = filters.search.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    query.$and = [{
+      $or: [
+        { entityLabel: { $regex: pattern, $options: 'i' } },
+        { actorName: { $regex: pattern, $options: 'i' } },
+        { 'changes.field': { $regex: pattern, $options: 'i' } }
+      ]
+    }];
+  }
+
+  return query;
+}
+
+/**
+ * Narrow a project history query to the entities the member may see. A
+ * requested entity type they may not see matches nothing.
+ */
+export function scopeAuditQuery(
+  query: Filter<AuditLogDocument>,
+  relation: ProjectRelation
+): Filter<AuditLogDocument> {
+  const visible = AUDIT_ENTITY_TYPES.filter(type => relationHasPermission(relation, AUDIT_ENTITY_PERMISSIONS[type]));
+  if (visible.length === AUDIT_ENTITY_TYPES.length) return query;
+
+  const requested = query.entityType as AuditEntityType | undefined;
+  return {
+    ...query,
+    entityType: requested
+      ? { $in: visible.includes(requested) ? [requested] : [] }
+      : { $in: visible }
+  };
+}
+
+/**
+ * An entry as a client sees it: without the actor's IP address or the
+ * internal details (amounts, notes) kept in metadata
+ */
+export function redactAuditLog(log: AuditLog): AuditLog {
+  return { ...log, metadata: undefined, ipAddress: undefined };
+}
+
+/**
+ * One page of audit entries, newest first, with project titles attached
+ */
+export async function findAuditLogs(
+  db: Db,
+  query: Filter<AuditLogDocument>,
+  { page, limit }: { page: number; limit: number }
+): Promise<{ logs: AuditLog[]; total: number }> {
+  const collection = db.collection<AuditLogDocument>(AUDIT_COLLECTION);
+  const [documents, total] = await Promise.all([
+    collection.find(query)
+      .sort({ timestamp: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .toArray(),
+    collection.countDocuments(query)
+  ]);
+
+  const projectIds = Array.from(new Set(
+    documents.flatMap(doc => doc.projectId ? [doc.projectId.toString()] : [])
+  ));
+  const projects = projectIds.length > 0
+    ? await db.collection('projects')
+        .find({ _id: { $in: projectIds.map(id => new ObjectId(id)) } }, { projection: { title: 1 } })
+        .toArray()
+    : [];
+  const projectTitles = new Map(projects.map(project => [project._id.toString(), project.title as string]));
+
+  return {
+    logs: documents.map(doc => transformAuditLog(doc, doc.projectId ? projectTitles.get(doc.projectId.toString()) : undefined)),
+    total
+  };
+}
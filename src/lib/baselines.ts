@@ -0,0 +1,245 @@
+// src/lib/baselines.ts - Schedule baselines and planned-vs-actual variance
+// A baseline freezes every phase's and activity's dates; the variance report
+// compares the live siteSchedule and linked DailyProgress entries against it.
+import { ObjectId } from 'mongodb';
+import { getActivityDates, SchedulePhaseInput } from '@/lib/scheduling';
+import type {
+  ActivityVariance,
+  PhaseVariance,
+  ScheduleBaselineDocument,
+  ScheduleVarianceReport
+} from '@/lib/types/baseline';
+
+export interface BaselinePhaseInput extends SchedulePhaseInput {
+  startDate?: Date | string;
+  endDate?: Date | string;
+}
+
+// One DailyProgress activity, flattened with the date of the report it came from
+export interface DailyActivityRecord {
+  reportDate: Date;
+  linkedActivityId?: ObjectId | string;
+  status: string;
+  plannedDate?: Date;
+  actualDate?: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOT_STARTED = ['to-do', 'pending'];
+
+function dayDiff(later?: Date, earlier?: Date): number | null {
+  if (!later || !earlier) return null;
+  return Math.round((later.getTime() - earlier.getTime()) / DAY_MS);
+}
+
+function toDate(value?: Date | string): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function minDate(dates: Array<Date | undefined>): Date | undefined {
+  const times = dates.filter((d): d is Date => !!d).map(d => d.getTime());
+  return times.length > 0 ? new Date(Math.min(...times)) : undefined;
+}
+
+function maxDate(dates: Array<Date | undefined>): Date | undefined {
+  const times = dates.filter((d): d is Date => !!d).map(d => d.getTime());
+  return times.length > 0 ? new Date(Math.max(...times)) : undefined;
+}
+
+/**
+ * Snapshot the dates of every phase and activity. Phase dates fall back to the
+ * span of their activities; undated activities and empty phases are skipped.
+ */
+export function snapshotSchedule(phases: BaselinePhaseInput[]): Pick<ScheduleBaselineDocument, 'phases' | 'startDate' | 'finishDate'> {
+  const snapshot: ScheduleBaselineDocument['phases'] = [];
+
+  phases.forEach(phase => {
+    const activities = (phase.activities || []).flatMap(activity => {
+      const dates = getActivityDates(activity);
+      if (!dates) return [];
+      return [{
+        activityId: new ObjectId(String(activity._id)),
+        title: activity.title,
+        startDate: dates.start,
+        endDate: dates.end
+      }];
+    });
+
+    const startDate = toDate(phase.startDate) || minDate(activities.map(a => a.startDate));
+    const endDate = toDate(phase.endDate) || maxDate(activities.map(a => a.endDate));
+    if (!startDate || !endDate) return;
+
+    snapshot.push({
+      phaseId: new ObjectId(String(phase._id)),
+      name: phase.name,
+      startDate,
+      endDate,
+      activities
+    });
+  });
+
+  return {
+    phases: snapshot,
+    startDate: minDate(snapshot.map(phase => phase.startDate)),
+    finishDate: maxDate(snapshot.map(phase => phase.endDate))
+  };
+}
+
+interface ActualProgress {
+  actualStart?: Date;
+  actualFinish?: Date;
+  dailySlip: number | null;
+}
+
+function summarizeDailyProgress(records: DailyActivityRecord[]): Map<string, ActualProgress> {
+  const byActivity = new Map<string, ActualProgress>();
+
+  records.forEach(record => {
+    if (!record.linkedActivityId) return;
+    const id = String(record.linkedActivityId);
+    const actual = byActivity.get(id) || { dailySlip: null };
+
+    if (!NOT_STARTED.includes(record.status)) {
+      actual.actualStart = minDate([actual.actualStart, record.reportDate]);
+    }
+    if (record.status === 'completed') {
+      actual.actualFinish = maxDate([actual.actualFinish, record.actualDate || record.reportDate]);
+    }
+
+    const slip = dayDiff(toDate(record.actualDate), toDate(record.plannedDate));
+    if (slip !== null && (actual.dailySlip === null || slip > actual.dailySlip)) {
+      actual.dailySlip = slip;
+    }
+
+    byActivity.set(id, actual);
+  });
+
+  return byActivity;
+}
+
+// Finish slip for counting: what actually happened if it's finished, the plan otherwise
+function effectiveSlip(activity: ActivityVariance): number | null {
+  return activity.actualFinishVariance ?? activity.finishVariance;
+}
+
+/**
+ * Compare the live schedule against a baseline. Every variance is in days,
+ * positive meaning later than the baseline.
+ */
+export function computeScheduleVariance(
+  baseline: ScheduleBaselineDocument,
+  phases: BaselinePhaseInput[],
+  dailyActivities: DailyActivityRecord[]
+): Omit<ScheduleVarianceReport, 'baseline'> {
+  const actuals = summarizeDailyProgress(dailyActivities);
+  const baselineActivities = new Map(
+    baseline.phases.flatMap(phase => phase.activities.map(activity => [
+      activity.activityId.toString(),
+      { ...activity, phaseId: phase.phaseId.toString() }
+    ] as const))
+  );
+
+  const activities: ActivityVariance[] = [];
+  const phaseIds: string[] = baseline.phases.map(phase => phase.phaseId.toString());
+  const phaseNames = new Map(baseline.phases.map(phase => [phase.phaseId.toString(), phase.name]));
+  const seen = new Set<string>();
+
+  phases.forEach(phase => {
+    const phaseId = String(phase._id);
+    if (!phaseNames.has(phaseId)) phaseIds.push(phaseId);
+    phaseNames.set(phaseId, phase.name);
+
+    (phase.activities || []).forEach(activity => {
+      const id = String(activity._id);
+      const dates = getActivityDates(activity);
+      const planned = baselineActivities.get(id);
+      const actual = actuals.get(id);
+      seen.add(id);
+
+      activities.push({
+        activityId: id,
+        phaseId,
+        title: activity.title,
+        status: activity.status,
+        baselineStart: planned?.startDate.toISOString(),
+        baselineEnd: planned?.endDate.toISOString(),
+        currentStart: dates?.start.toISOString(),
+        currentEnd: dates?.end.toISOString(),
+        actualStart: actual?.actualStart?.toISOString(),
+        actualFinish: actual?.actualFinish?.toISOString(),
+        startVariance: dayDiff(dates?.start, planned?.startDate),
+        finishVariance: dayDiff(dates?.end, planned?.endDate),
+        actualFinishVariance: dayDiff(actual?.actualFinish, planned?.endDate),
+        dailySlip: actual?.dailySlip ?? null,
+        change: planned ? 'unchanged' : 'added'
+      });
+    });
+  });
+
+  baselineActivities.forEach((planned, id) => {
+    if (seen.has(id)) return;
+    activities.push({
+      activityId: id,
+      phaseId: planned.phaseId,
+      title: planned.title,
+      baselineStart: planned.startDate.toISOString(),
+      baselineEnd: planned.endDate.toISOString(),
+      startVariance: null,
+      finishVariance: null,
+      actualFinishVariance: null,
+      dailySlip: null,
+      change: 'removed'
+    });
+  });
+
+  const phaseVariances: PhaseVariance[] = phaseIds.map(phaseId => {
+    const planned = baseline.phases.find(phase => phase.phaseId.toString() === phaseId);
+    const current = activities.filter(a => a.phaseId === phaseId && a.change !== 'removed');
+    const currentStart = minDate(current.map(a => toDate(a.actualStart) || toDate(a.currentStart)));
+    const currentEnd = maxDate(current.map(a => toDate(a.actualFinish) || toDate(a.currentEnd)));
+    const compared = activities.filter(a => a.phaseId === phaseId && a.change === 'unchanged');
+
+    return {
+      phaseId,
+      name: phaseNames.get(phaseId) || 'Unknown phase',
+      baselineStart: planned?.startDate.toISOString(),
+      baselineEnd: planned?.endDate.toISOString(),
+      currentStart: currentStart?.toISOString(),
+      currentEnd: currentEnd?.toISOString(),
+      startVariance: dayDiff(currentStart, planned?.startDate),
+      finishVariance: dayDiff(currentEnd, planned?.endDate),
+      activitiesSlipped: compared.filter(a => (effectiveSlip(a) ?? 0) > 0).length,
+      activitiesAhead: compared.filter(a => (effectiveSlip(a) ?? 0) < 0).length,
+      totalActivities: current.length
+    };
+  });
+
+  const compared = activities.filter(a => a.change === 'unchanged');
+  const slips = compared.map(effectiveSlip).filter((slip): slip is number => slip !== null && slip > 0);
+  const currentFinish = maxDate(
+    activities
+      .filter(a => a.change !== 'removed')
+      .map(a => toDate(a.actualFinish) || toDate(a.currentEnd))
+  );
+
+  return {
+    overall: {
+      baselineFinish: baseline.finishDate?.toISOString(),
+      currentFinish: currentFinish?.toISOString(),
+      finishVariance: dayDiff(currentFinish, baseline.finishDate),
+      activitiesSlipped: slips.length,
+      activitiesAhead: compared.filter(a => (effectiveSlip(a) ?? 0) < 0).length,
+      activitiesAdded: activities.filter(a => a.change === 'added').length,
+      activitiesRemoved: activities.filter(a => a.change === 'removed').length,
+      averageSlip: slips.length > 0
+        ? Math.round((slips.reduce((sum, slip) => sum + slip, 0) / slips.length) * 10) / 10
+        : 0,
+      worstSlip: slips.length > 0 ? Math.max(...slips) : 0
+    },
+    phases: phaseVariances,
+    activities,
+    generatedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,309 @@
+// src/lib/budget.ts - Project budget lines, costs and client payment milestones
+// Budget lines allocate the cost budget by category; costs are either
+// commitments (signed orders) or actual expenses. Payment milestones are the
+// tranches the client pays, usually one per schedule phase.
+import { Db, ObjectId } from 'mongodb';
+import {
+  COST_CATEGORIES,
+  transformBudgetLine,
+  transformCostEntry,
+  transformPaymentMilestone,
+  BudgetBurnPoint,
+  BudgetLine,
+  BudgetLineDocument,
+  BudgetSummary,
+  ClientBudgetData,
+  CostCategory,
+  CostEntry,
+  CostEntryDocument,
+  CostKind,
+  PaymentMilestone,
+  PaymentMilestoneDocument,
+  PaymentSummary,
+  ProjectBudgetData
+} from '@/lib/types/budget';
+
+export const BUDGET_LINES_COLLECTION = 'budget_lines';
+export const PROJECT_COSTS_COLLECTION = 'project_costs';
+export const PAYMENT_MILESTONES_COLLECTION = 'payment_milestones';
+
+// The most months a burn chart covers, counting back from the latest
+const MAX_BURN_MONTHS = 24;
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+// Money is stored in naira to two decimal places
+const asAmount = (value: unknown): number | null => {
+  const amount = typeof value === 'string' ? Number(value.replace(/,/g, '')) : Number(value);
+  return Number.isFinite(amount) && amount > 0 ? Math.round(amount * 100) / 100 : null;
+};
+
+const asDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' && !(value instanceof Date)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const asCategory = (value: unknown): CostCategory | null =>
+  COST_CATEGORIES.find(category => category === value) || null;
+
+export type BudgetLineInput = Pick<BudgetLineDocument, 'category' | 'description' | 'amount' | 'notes'>;
+
+export type CostInput = Pick<
+  CostEntryDocument,
+  'kind' | 'category' | 'description' | 'amount' | 'vendor' | 'reference' | 'date' | 'receiptUrl' | 'receiptKey'
+>;
+
+export type PaymentInput = Pick<
+  PaymentMilestoneDocument,
+  'title' | 'description' | 'phaseId' | 'amount' | 'dueDate' | 'status' | 'paidAt' | 'paidAmount' | 'reference'
+>;
+
+export function parseBudgetLineInput(body: unknown): { line: BudgetLineInput } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const category = asCategory(input.category);
+  if (!category) return { error: `Category must be one of: ${COST_CATEGORIES.join(', ')}` };
+
+  const description = asText(input.description);
+  if (!description) return { error: 'Description is required' };
+
+  const amount = asAmount(input.amount);
+  if (amount === null) return { error: 'Amount must be a positive number' };
+
+  return { line: { category, description, amount, notes: asText(input.notes) || undefined } };
+}
+
+export function parseCostInput(body: unknown): { cost: CostInput } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const kind: CostKind | null = input.kind === 'commitment' || input.kind === 'expense' ? input.kind : null;
+  if (!kind) return { error: 'Kind must be commitment or expense' };
+
+  const category = asCategory(input.category);
+  if (!category) return { error: `Category must be one of: ${COST_CATEGORIES.join(', ')}` };
+
+  const description = asText(input.description);
+  if (!description) return { error: 'Description is required' };
+
+  const amount = asAmount(input.amount);
+  if (amount === null) return { error: 'Amount must be a positive number' };
+
+  const date = asDate(input.date);
+  if (!date) return { error: 'A valid date is required' };
+
+  // Receipts come back from /api/upload as https URLs
+  const receiptUrl = asText(input.receiptUrl);
+  if (receiptUrl && !/^https:\/\//.test(receiptUrl)) {
+    return { error: 'Receipt must be uploaded through /api/upload' };
+  }
+
+  return {
+    cost: {
+      kind,
+      category,
+      description,
+      amount,
+      vendor: asText(input.vendor) || undefined,
+      reference: asText(input.reference) || undefined,
+      date,
+      receiptUrl: receiptUrl || undefined,
+      receiptKey: receiptUrl ? asText(input.receiptKey) || undefined : undefined
+    }
+  };
+}
+
+export function parsePaymentInput(body: unknown): { payment: PaymentInput } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const title = asText(input.title);
+  if (!title) return { error: 'Title is required' };
+
+  const amount = asAmount(input.amount);
+  if (amount === null) return { error: 'Amount must be a positive number' };
+
+  const dueDate = asDate(input.dueDate);
+  if (!dueDate) return { error: 'A valid due date is required' };
+
+  const phaseId = asText(input.phaseId);
+  if (phaseId && !ObjectId.isValid(phaseId)) return { error: 'Invalid phase ID' };
+
+  const status = input.status === 'paid' ? 'paid' : 'pending';
+  let paidAt: Date | undefined;
+  let paidAmount: number | undefined;
+  if (status === 'paid') {
+    paidAt = asDate(input.paidAt) || new Date();
+    paidAmount = input.paidAmount === undefined || input.paidAmount === '' ? amount : asAmount(input.paidAmount) ?? undefined;
+    if (paidAmount === undefined) return { error: 'Paid amount must be a positive number' };
+  }
+
+  return {
+    payment: {
+      title,
+      description: asText(input.description) || undefined,
+      phaseId: phaseId ? new ObjectId(phaseId) : undefined,
+      amount,
+      dueDate,
+      status,
+      paidAt,
+      paidAmount,
+      reference: asText(input.reference) || undefined
+    }
+  };
+}
+
+// Projects keep their phases on siteSchedule; payments store the name so it
+// survives the phase being renamed or removed later
+export interface BudgetProjectRecord {
+  _id: ObjectId;
+  budget?: number;
+  siteSchedule?: { phases?: Array<{ _id: ObjectId; name: string }> };
+}
+
+export function findPhaseName(project: BudgetProjectRecord, phaseId: ObjectId | undefined): string | undefined {
+  if (!phaseId) return undefined;
+  return project.siteSchedule?.phases?.find(phase => phase._id.equals(phaseId))?.name;
+}
+
+const sum = (values: number[]): number => Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+
+export function summarizeBudget(
+  contractValue: number,
+  lines: Pick<BudgetLine, 'category' | 'amount'>[],
+  costs: Pick<CostEntry, 'kind' | 'category' | 'amount'>[]
+): BudgetSummary {
+  const categories = COST_CATEGORIES.map(category => {
+    const budgeted = sum(lines.filter(line => line.category === category).map(line => line.amount));
+    const inCategory = costs.filter(cost => cost.category === category);
+    const committed = sum(inCategory.filter(cost => cost.kind === 'commitment').map(cost => cost.amount));
+    const actual = sum(inCategory.filter(cost => cost.kind === 'expense').map(cost => cost.amount));
+    return { category, budgeted, committed, actual, remaining: sum([budgeted, -actual]) };
+  });
+
+  const budgeted = sum(categories.map(category => category.budgeted));
+  const actual = sum(categories.map(category => category.actual));
+
+  return {
+    contractValue,
+    budgeted,
+    committed: sum(categories.map(category => category.committed)),
+    actual,
+    remaining: sum([budgeted, -actual]),
+    percentSpent: budgeted > 0 ? Math.round((actual / budgeted) * 100) : 0,
+    overBudget: budgeted > 0 && actual > budgeted,
+    categories
+  };
+}
+
+export function summarizePayments(milestones: PaymentMilestone[]): PaymentSummary {
+  const pending = milestones.filter(milestone => milestone.status !== 'paid');
+  const overdue = pending.filter(milestone => milestone.isOverdue);
+  const next = [...pending].sort((a, b) => a.dueDate.localeCompare(b.dueDate))[0];
+
+  return {
+    scheduled: sum(milestones.map(milestone => milestone.amount)),
+    received: sum(milestones.map(milestone => milestone.status === 'paid' ? milestone.paidAmount ?? milestone.amount : 0)),
+    outstanding: sum(pending.map(milestone => milestone.amount)),
+    overdue: sum(overdue.map(milestone => milestone.amount)),
+    overdueCount: overdue.length,
+    nextDue: next ? { title: next.title, amount: next.amount, dueDate: next.dueDate } : undefined
+  };
+}
+
+const monthKey = (date: Date): string =>
+  `${date.getUTCFullYear()}-${String(date.getUTCMonth() + 1).padStart(2, '0')}`;
+
+/**
+ * Monthly and cumulative actual spend, one point per calendar month from the
+ * first expense (or `from`) through `to`, against a flat budget line
+ */
+export function computeBudgetBurn(
+  expenses: Array<{ date: Date | string; amount: number }>,
+  budget: number,
+  { from, to = new Date() }: { from?: Date; to?: Date } = {}
+): BudgetBurnPoint[] {
+  const dates = expenses.map(expense => new Date(expense.date));
+  const start = from || (dates.length > 0 ? new Date(Math.min(...dates.map(date => date.getTime()))) : null);
+  if (!start) return [];
+
+  const spentByMonth = new Map<string, number>();
+  expenses.forEach((expense, index) => {
+    const key = monthKey(dates[index]);
+    spentByMonth.set(key, (spentByMonth.get(key) || 0) + expense.amount);
+  });
+
+  const months: string[] = [];
+  const cursor = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), 1));
+  const last = monthKey(to);
+  while (monthKey(cursor) <= last) {
+    months.push(monthKey(cursor));
+    cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+  }
+
+  // Spend before the first charted month still counts towards the cumulative total
+  const visible = months.slice(-MAX_BURN_MONTHS);
+  let cumulative = sum(
+    Array.from(spentByMonth.entries()).filter(([key]) => key < visible[0]).map(([, spent]) => spent)
+  );
+  return visible.map(month => {
+    const spent = sum([spentByMonth.get(month) || 0]);
+    cumulative = sum([cumulative, spent]);
+    return { month, spent, cumulative, budget };
+  });
+}
+
+async function loadPaymentMilestones(db: Db, projectId: ObjectId): Promise<PaymentMilestone[]> {
+  const now = new Date();
+  const documents = await db.collection<PaymentMilestoneDocument>(PAYMENT_MILESTONES_COLLECTION)
+    .find({ projectId })
+    .sort({ dueDate: 1 })
+    .toArray();
+  return documents.map(doc => transformPaymentMilestone(doc, now));
+}
+
+export async function loadProjectBudget(
+  db: Db,
+  project: BudgetProjectRecord
+): Promise<ProjectBudgetData> {
+  const [lineDocs, costDocs, paymentMilestones] = await Promise.all([
+    db.collection<BudgetLineDocument>(BUDGET_LINES_COLLECTION)
+      .find({ projectId: project._id })
+      .sort({ category: 1, createdAt: 1 })
+      .toArray(),
+    db.collection<CostEntryDocument>(PROJECT_COSTS_COLLECTION)
+      .find({ projectId: project._id })
+      .sort({ date: -1, createdAt: -1 })
+      .toArray(),
+    loadPaymentMilestones(db, project._id)
+  ]);
+
+  const creatorIds = Array.from(new Set(costDocs.map(doc => doc.createdBy.toString())));
+  const creators = creatorIds.length > 0
+    ? await db.collection('users')
+        .find({ _id: { $in: creatorIds.map(id => new ObjectId(id)) } }, { projection: { name: 1 } })
+        .toArray()
+    : [];
+  const creatorNames = new Map(creators.map(user => [user._id.toString(), user.name as string]));
+
+  const lines = lineDocs.map(transformBudgetLine);
+  const costs = costDocs.map(doc => transformCostEntry(doc, creatorNames.get(doc.createdBy.toString())));
+  const summary = summarizeBudget(project.budget || 0, lines, costs);
+
+  return {
+    summary,
+    payments: summarizePayments(paymentMilestones),
+    lines,
+    costs,
+    paymentMilestones,
+    burn: computeBudgetBurn(costDocs.filter(doc => doc.kind === 'expense'), summary.budgeted)
+  };
+}
+
+export async function loadClientBudget(
+  db: Db,
+  project: BudgetProjectRecord
+): Promise<ClientBudgetData> {
+  const paymentMilestones = await loadPaymentMilestones(db, project._id);
+  return {
+    contractValue: project.budget || 0,
+    payments: summarizePayments(paymentMilestones),
+    paymentMilestones
+  };
+}
@@ -0,0 +1,252 @@
+// src/lib/change-orders.ts - Change orders: scope changes agreed with the client
+// A manager drafts the change (affected activities, cost and schedule delta),
+// submits it, and the client approves or rejects it. Approval adds the cost
+// delta to Project.budget and shifts the linked activities and their dependents.
+import { Db, ObjectId } from 'mongodb';
+import type { ProjectAccessRecord } from '@/lib/project-access';
+import { dispatchNotifications } from '@/lib/notifications';
+import { buildScheduleGraph, shiftActivities, SchedulePhaseInput } from '@/lib/scheduling';
+import { scheduleShiftOperations } from '@/lib/schedule-changes';
+import { CalendarProject, loadProjectCalendar } from '@/lib/working-calendar';
+import {
+  transformChangeOrder,
+  ChangeOrder,
+  ChangeOrderAttachment,
+  ChangeOrderDocument
+} from '@/lib/types/change-order';
+
+export const CHANGE_ORDERS_COLLECTION = 'change_orders';
+
+// Longest schedule change one order may carry, in working days either way
+const MAX_SCHEDULE_DELTA_DAYS = 365;
+
+export interface ChangeOrderProject extends ProjectAccessRecord, CalendarProject {
+  title: string;
+  budget?: number;
+  siteSchedule?: {
+    phases?: Array<Omit<SchedulePhaseInput, 'activities'> & {
+      _id: ObjectId;
+      activities?: Array<NonNullable<SchedulePhaseInput['activities']>[number] & {
+        _id: ObjectId;
+        startDate?: Date;
+        plannedStartDate?: Date;
+      }>;
+    }>;
+  };
+}
+
+export type ChangeOrderInput = Pick<
+  ChangeOrderDocument,
+  'title' | 'description' | 'reason' | 'activities' | 'costDelta' | 'scheduleDeltaDays' | 'attachments'
+>;
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+/**
+ * Validate a draft. Affected activities must exist in the project's siteSchedule.
+ */
+export function parseChangeOrderInput(
+  body: unknown,
+  project: ChangeOrderProject
+): { order: ChangeOrderInput } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  const title = asText(input.title);
+  if (!title) return { error: 'Title is required' };
+
+  const description = asText(input.description);
+  if (!description) return { error: 'Description is required' };
+
+  const costDelta = Number(input.costDelta ?? 0);
+  if (!Number.isFinite(costDelta)) return { error: 'Cost change must be a number' };
+
+  const scheduleDeltaDays = Number(input.scheduleDeltaDays ?? 0);
+  if (!Number.isInteger(scheduleDeltaDays) || Math.abs(scheduleDeltaDays) > MAX_SCHEDULE_DELTA_DAYS) {
+    return { error: `Schedule change must be a whole number of days between -${MAX_SCHEDULE_DELTA_DAYS} and ${MAX_SCHEDULE_DELTA_DAYS}` };
+  }
+
+  const activityIds = Array.isArray(input.activityIds) ? input.activityIds.map(String) : [];
+  const scheduled = (project.siteSchedule?.phases || []).flatMap(phase =>
+    (phase.activities || []).map(activity => ({ phaseId: phase._id, activity }))
+  );
+  const activities: ChangeOrderInput['activities'] = [];
+  for (const activityId of Array.from(new Set(activityIds))) {
+    const match = scheduled.find(({ activity }) => activity._id.toString() === activityId);
+    if (!match) return { error: 'One or more affected activities are not in this project schedule' };
+    activities.push({ activityId: match.activity._id, phaseId: match.phaseId, title: match.activity.title });
+  }
+  if (scheduleDeltaDays !== 0 && activities.length === 0) {
+    return { error: 'Select the activities a schedule change applies to' };
+  }
+
+  const attachments: ChangeOrderAttachment[] = [];
+  for (const attachment of Array.isArray(input.attachments) ? input.attachments : []) {
+    const { url, key, name } = (attachment ?? {}) as Record<string, unknown>;
+    // Attachments come back from /api/upload as https URLs
+    if (typeof url !== 'string' || !/^https:\/\//.test(url)) {
+      return { error: 'Attachments must be uploaded through /api/upload' };
+    }
+    attachments.push({ url, key: asText(key) || undefined, name: asText(name) || 'Attachment' });
+  }
+
+  return {
+    order: {
+      title,
+      description,
+      reason: asText(input.reason) || undefined,
+      activities,
+      costDelta: Math.round(costDelta * 100) / 100,
+      scheduleDeltaDays,
+      attachments
+    }
+  };
+}
+
+export async function nextChangeOrderNumber(db: Db, projectId: ObjectId): Promise<string> {
+  const latest = await db.collection<ChangeOrderDocument>(CHANGE_ORDERS_COLLECTION)
+    .find({ projectId }, { projection: { number: 1 } })
+    .sort({ createdAt: -1 })
+    .limit(1)
+    .toArray();
+  // Numbers keep counting after a draft is deleted so no two orders share one
+  const last = latest.length > 0 ? parseInt(latest[0].number.replace(/\D/g, ''), 10) || 0 : 0;
+  return `CO-${String(last + 1).padStart(3, '0')}`;
+}
+
+/**
+ * Apply an approved order: add the cost delta to the contract value and
+ * shift the linked activities (and anything that depends on them)
+ */
+export async function applyChangeOrder(
+  db: Db,
+  project: ChangeOrderProject,
+  order: ChangeOrderDocument
+): Promise<NonNullable<ChangeOrderDocument['applied']>> {
+  const budgetBefore = project.budget || 0;
+  const phases = project.siteSchedule?.phases || [];
+
+  const calendar = await loadProjectCalendar(db, project);
+  const shifts = shiftActivities(
+    buildScheduleGraph(phases),
+    order.activities.map(activity => activity.activityId.toString()),
+    order.scheduleDeltaDays,
+    calendar
+  );
+
+  const now = new Date();
+  const operations = scheduleShiftOperations(project._id, phases, shifts, now);
+
+  // Projects created without a budget store it as null, which $inc refuses
+  operations.push({
+    updateOne: {
+      filter: { _id: project._id },
+      update: [{
+        $set: {
+          budget: { $add: [{ $ifNull: ['$budget', 0] }, order.costDelta] },
+          updatedAt: now,
+          ...(shifts.length > 0 ? { 'siteSchedule.lastUpdated': now } : {})
+        }
+      }]
+    }
+  });
+  await db.collection('projects').bulkWrite(operations);
+
+  return {
+    budgetBefore,
+    budgetAfter: Math.round((budgetBefore + order.costDelta) * 100) / 100,
+    shiftedActivities: shifts.map(shift => ({
+      activityId: new ObjectId(shift.id),
+      title: shift.title,
+      previousStart: shift.previousStart,
+      previousEnd: shift.previousEnd,
+      start: shift.start,
+      end: shift.end
+    }))
+  };
+}
+
+/**
+ * Change orders with creator names and project titles attached
+ */
+export async function withChangeOrderNames(db: Db, documents: ChangeOrderDocument[]): Promise<ChangeOrder[]> {
+  const userIds = Array.from(new Set(documents.map(doc => doc.createdBy.toString())));
+  const projectIds = Array.from(new Set(documents.map(doc => doc.projectId.toString())));
+  const [users, projects] = await Promise.all([
+    userIds.length > 0
+      ? db.collection('users')
+          .find({ _id: { $in: userIds.map(id => new ObjectId(id)) } }, { projection: { name: 1 } })
+          .toArray()
+      : [],
+    projectIds.length > 0
+      ? db.collection('projects')
+          .find({ _id: { $in: projectIds.map(id => new ObjectId(id)) } }, { projection: { title: 1 } })
+          .toArray()
+      : []
+  ]);
+  const userNames = new Map(users.map(user => [user._id.toString(), user.name as string]));
+  const projectTitles = new Map(projects.map(project => [project._id.toString(), project.title as string]));
+
+  return documents.map(doc => transformChangeOrder(doc, {
+    createdByName: userNames.get(doc.createdBy.toString()),
+    projectTitle: projectTitles.get(doc.projectId.toString())
+  }));
+}
+
+/**
+ * Tell the client an order is waiting on them, or the managers how the client
+ * decided. A failed notification never fails the request.
+ */
+export async function notifyChangeOrder(
+  db: Db,
+  project: ChangeOrderProject,
+  order: ChangeOrderDocument,
+  event: 'submitted' | 'approved' | 'rejected',
+  senderId: string
+): Promise<void> {
+  const projectId = project._id.toString();
+  const recipients = event === 'submitted'
+    ? (project.client ? [project.client] : [])
+    : project.managers || [];
+  if (recipients.length === 0) return;
+
+  const content = {
+    submitted: {
+      title: 'Change Order Awaiting Approval',
+      message: `${order.number} "${order.title}" on ${project.title} needs your approval`,
+      url: '/client/pending-tasks',
+      category: 'warning'
+    },
+    approved: {
+      title: 'Change Order Approved',
+      message: `The client approved ${order.number} "${order.title}" on ${project.title}`,
+      url: `/manager/projects/${projectId}`,
+      category: 'success'
+    },
+    rejected: {
+      title: 'Change Order Rejected',
+      message: `The client rejected ${order.number} "${order.title}" on ${project.title}`,
+      url: `/manager/projects/${projectId}`,
+      category: 'error'
+    }
+  }[event];
+
+  try {
+    const now = new Date();
+    await dispatchNotifications(db, recipients.map(recipientId => ({
+      recipientId,
+      senderId: new ObjectId(senderId),
+      type: 'project_updated',
+      title: content.title,
+      message: content.message,
+      data: { projectId, changeOrderId: order._id?.toString(), url: content.url },
+      isRead: false,
+      priority: event === 'submitted' ? 'high' : 'medium',
+      category: content.category,
+      actionRequired: event === 'submitted',
+      createdAt: now,
+      updatedAt: now
+    })));
+  } catch (error) {
+    console.error('Error sending change order notification:', error);
+  }
+}
@@ -0,0 +1,497 @@
+// src/lib/contractors.ts - Contractor and supplier directory
+// Activities, daily logs and procurement items keep the contractor/supervisor/
+// supplier name as text, and link it to a directory entry when the name matches
+// one. Matching ignores case, spacing and punctuation and tolerates small typos,
+// so "Ben", "Ben " and "ben." all land on the same person.
+import { Db, ObjectId } from 'mongodb';
+import {
+  ContractorActivityRecord,
+  ContractorDocument,
+  ContractorFile,
+  ContractorIncidentRecord,
+  ContractorKind,
+  ContractorPerformance,
+  ContractorRate,
+  ContractorSupplyRecord
+} from '@/lib/types/contractor';
+import { DAILY_REPORTS_COLLECTION } from '@/lib/daily-reports';
+
+export const CONTRACTORS_COLLECTION = 'contractors';
+
+// Collection the mongoose DailyProgress model (site-schedule daily logs) writes to
+export const DAILY_LOGS_COLLECTION = 'dailyprogresses';
+
+// How alike two normalized names must be (1 = identical) to count as the same entry
+const MATCH_THRESHOLD = 0.85;
+
+export type DirectoryEntry = Pick<ContractorDocument, 'name' | 'aliases'> & { _id: ObjectId };
+
+export type ContractorInput = Pick<
+  ContractorDocument,
+  'name' | 'kind' | 'trade' | 'company' | 'phone' | 'email' | 'rates' | 'documents' | 'aliases' | 'notes' | 'isActive'
+>;
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+/**
+ * Collapse the whitespace in a typed name, for storing
+ */
+export function tidyContractorName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Lower-case, accent-free, punctuation-free form of a name, for comparing
+ */
+export function normalizeContractorName(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export function nameSimilarity(a: string, b: string): number {
+  const left = normalizeContractorName(a);
+  const right = normalizeContractorName(b);
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  return 1 - editDistance(left, right) / Math.max(left.length, right.length);
+}
+
+/**
+ * The directory entry a typed name refers to: an exact match on the name or a
+ * known alias first, otherwise the single closest entry above the threshold.
+ * Returns null when nothing is close enough or two entries are equally close.
+ */
+export function findContractorMatch<T extends DirectoryEntry>(name: string, directory: T[]): T | null {
+  const normalized = normalizeContractorName(name);
+  if (!normalized) return null;
+
+  const exact = directory.find(entry =>
+    [entry.name, ...(entry.aliases || [])].some(candidate => normalizeContractorName(candidate) === normalized)
+  );
+  if (exact) return exact;
+
+  let best: T | null = null;
+  let bestScore = 0;
+  let tied = false;
+  for (const entry of directory) {
+    const score = Math.max(...[entry.name, ...(entry.aliases || [])].map(candidate => nameSimilarity(name, candidate)));
+    if (score > bestScore) {
+      best = entry;
+      bestScore = score;
+      tied = false;
+    } else if (score === bestScore && best && !best._id.equals(entry._id)) {
+      tied = true;
+    }
+  }
+  return best && bestScore >= MATCH_THRESHOLD && !tied ? best : null;
+}
+
+export async function loadContractorDirectory(db: Db, kind?: ContractorKind): Promise<DirectoryEntry[]> {
+  return db.collection<ContractorDocument>(CONTRACTORS_COLLECTION)
+    .find(kind ? { kind } : {}, { projection: { name: 1, aliases: 1 } })
+    .toArray() as Promise<DirectoryEntry[]>;
+}
+
+/**
+ * Name and directory link for one typed name. A name that matches an entry is
+ * stored as the entry's name; anything else is kept as typed, unlinked.
+ */
+export function linkDirectoryName(
+  name: string,
+  directory: DirectoryEntry[]
+): { name: string; id: ObjectId | null } {
+  const tidy = tidyContractorName(name);
+  const match = findContractorMatch(tidy, directory);
+  return match ? { name: match.name, id: match._id } : { name: tidy, id: null };
+}
+
+export interface ContractorLinks {
+  contractor?: string;
+  contractorId?: ObjectId | null;
+  supervisor?: string;
+  supervisorId?: ObjectId | null;
+}
+
+/**
+ * Directory links for the contractor and supervisor of an activity. Only the
+ * fields present in `names` are returned, so the result can be merged into a
+ * partial update.
+ */
+export function linkContractorNames(
+  names: { contractor?: unknown; supervisor?: unknown },
+  directory: DirectoryEntry[]
+): ContractorLinks {
+  const links: ContractorLinks = {};
+  if (names.contractor !== undefined) {
+    const { name, id } = linkDirectoryName(asText(names.contractor), directory);
+    links.contractor = name;
+    links.contractorId = id;
+  }
+  if (names.supervisor !== undefined) {
+    const { name, id } = linkDirectoryName(asText(names.supervisor), directory);
+    links.supervisor = name;
+    links.supervisorId = id;
+  }
+  return links;
+}
+
+/**
+ * linkContractorNames for a single write; the directory is only loaded when
+ * there is a name to link
+ */
+export async function resolveContractorLinks(
+  db: Db,
+  names: { contractor?: unknown; supervisor?: unknown }
+): Promise<ContractorLinks> {
+  if (names.contractor === undefined && names.supervisor === undefined) return {};
+  return linkContractorNames(names, await loadContractorDirectory(db));
+}
+
+function parseRates(value: unknown): ContractorRate[] | { error: string } {
+  const rates: ContractorRate[] = [];
+  for (const rate of Array.isArray(value) ? value : []) {
+    const { description, amount, unit } = (rate ?? {}) as Record<string, unknown>;
+    const label = asText(description);
+    if (!label) continue;
+    const parsed = Number(amount);
+    if (!Number.isFinite(parsed) || parsed < 0) return { error: `Rate "${label}" must be zero or more` };
+    rates.push({ description: label, amount: Math.round(parsed * 100) / 100, unit: asText(unit) || undefined });
+  }
+  return rates;
+}
+
+export function parseContractorInput(body: unknown): { contractor: ContractorInput } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  const name = tidyContractorName(asText(input.name));
+  if (!name) return { error: 'Name is required' };
+
+  const kind = (asText(input.kind) || 'contractor') as ContractorKind;
+  if (kind !== 'contractor' && kind !== 'supplier') return { error: 'Type must be contractor or supplier' };
+
+  const email = asText(input.email);
+  if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return { error: 'Invalid email address' };
+
+  const rates = parseRates(input.rates);
+  if ('error' in rates) return rates;
+
+  const documents: ContractorFile[] = [];
+  for (const file of Array.isArray(input.documents) ? input.documents : []) {
+    const { url, key, name: fileName } = (file ?? {}) as Record<string, unknown>;
+    // Documents come back from /api/upload as https URLs
+    if (typeof url !== 'string' || !/^https:\/\//.test(url)) {
+      return { error: 'Documents must be uploaded through /api/upload' };
+    }
+    documents.push({ url, key: asText(key) || undefined, name: asText(fileName) || 'Document' });
+  }
+
+  const aliases = Array.from(new Set(
+    (Array.isArray(input.aliases) ? input.aliases : [])
+      .map(alias => tidyContractorName(asText(alias)))
+      .filter(alias => alias && normalizeContractorName(alias) !== normalizeContractorName(name))
+  ));
+
+  return {
+    contractor: {
+      name,
+      kind,
+      trade: asText(input.trade) || undefined,
+      company: asText(input.company) || undefined,
+      phone: asText(input.phone) || undefined,
+      email: email || undefined,
+      rates,
+      documents,
+      aliases,
+      notes: asText(input.notes) || undefined,
+      isActive: input.isActive !== false
+    }
+  };
+}
+
+/**
+ * Another entry that a new name would be confused with, if any
+ */
+export async function findConflictingContractor(
+  db: Db,
+  names: string[],
+  excludeId?: ObjectId
+): Promise<DirectoryEntry | null> {
+  const directory = (await loadContractorDirectory(db)).filter(entry => !excludeId || !entry._id.equals(excludeId));
+  const normalized = names.map(normalizeContractorName);
+  return directory.find(entry =>
+    [entry.name, ...(entry.aliases || [])].some(candidate => normalized.includes(normalizeContractorName(candidate)))
+  ) || null;
+}
+
+/**
+ * Keep the names stored on linked records in step with a directory entry:
+ * a new name is written to every activity, log entry, labor log line, incident
+ * and procurement item linked to it, and `null` (the entry was deleted) removes the links and
+ * leaves the names as plain text.
+ */
+export async function syncLinkedRecords(db: Db, contractorId: ObjectId, name: string | null): Promise<void> {
+  const roles = [['contractor', 'contractorId'], ['supervisor', 'supervisorId']] as const;
+
+  await Promise.all([
+    ...roles.map(([field, idField]) => db.collection('projects').updateMany(
+      { [`siteSchedule.phases.activities.${idField}`]: contractorId },
+      name === null
+        ? { $unset: { [`siteSchedule.phases.$[].activities.$[linked].${idField}`]: '' } }
+        : { $set: { [`siteSchedule.phases.$[].activities.$[linked].${field}`]: name } },
+      { arrayFilters: [{ [`linked.${idField}`]: contractorId }] }
+    )),
+    ...[DAILY_LOGS_COLLECTION, DAILY_REPORTS_COLLECTION].flatMap(collection => roles.map(([field, idField]) =>
+      db.collection(collection).updateMany(
+        { [`activities.${idField}`]: contractorId },
+        name === null
+          ? { $unset: { [`activities.$[linked].${idField}`]: '' } }
+          : { $set: { [`activities.$[linked].${field}`]: name } },
+        { arrayFilters: [{ [`linked.${idField}`]: contractorId }] }
+      )
+    )),
+    db.collection(DAILY_LOGS_COLLECTION).updateMany(
+      { 'labor.contractorId': contractorId },
+      name === null
+        ? { $unset: { 'labor.$[linked].contractorId': '' } }
+        : { $set: { 'labor.$[linked].contractor': name } },
+      { arrayFilters: [{ 'linked.contractorId': contractorId }] }
+    ),
+    db.collection('incidents').updateMany(
+      { contractorId },
+      name === null ? { $unset: { contractorId: '' } } : { $set: { contractor: name } }
+    ),
+    db.collection('procurement_items').updateMany(
+      { supplierId: contractorId },
+      name === null ? { $unset: { supplierId: '' } } : { $set: { supplier: name } }
+    )
+  ]);
+}
+
+const utcDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+const finishedOnTime = (actual?: Date, planned?: Date): boolean | undefined =>
+  actual && planned ? utcDay(actual) <= utcDay(planned) : undefined;
+
+const toDate = (value: unknown): Date | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value as string | Date);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+interface ScheduleActivityRecord {
+  _id: ObjectId;
+  title: string;
+  status?: string;
+  contractorId?: ObjectId | null;
+  supervisorId?: ObjectId | null;
+  endDate?: Date;
+  plannedEndDate?: Date;
+  actualEndDate?: Date;
+}
+
+interface DailyActivityRecord {
+  _id?: ObjectId;
+  title: string;
+  status: string;
+  contractorId?: ObjectId | null;
+  endDate?: Date;
+  actualDate?: Date;
+  incidentReport?: string;
+  linkedActivityId?: ObjectId;
+}
+
+interface DailyLogRecord {
+  _id: ObjectId;
+  project: ObjectId;
+  date: Date;
+  activities?: DailyActivityRecord[];
+}
+
+/**
+ * Everything a directory entry has been linked to across all projects:
+ * schedule activities, daily log entries, incidents and procurement items
+ */
+export async function loadContractorPerformance(db: Db, contractorId: ObjectId): Promise<ContractorPerformance> {
+  const [projects, dailyLogs, dailyReports, incidents, supplies] = await Promise.all([
+    db.collection('projects').find(
+      {
+        $or: [
+          { 'siteSchedule.phases.activities.contractorId': contractorId },
+          { 'siteSchedule.phases.activities.supervisorId': contractorId }
+        ]
+      },
+      { projection: { title: 1, 'siteSchedule.phases.activities': 1 } }
+    ).toArray(),
+    db.collection<DailyLogRecord>(DAILY_LOGS_COLLECTION)
+      .find({ 'activities.contractorId': contractorId }, { projection: { project: 1, date: 1, activities: 1 } })
+      .toArray(),
+    db.collection<DailyLogRecord>(DAILY_REPORTS_COLLECTION)
+      .find({ 'activities.contractorId': contractorId }, { projection: { project: 1, date: 1, activities: 1 } })
+      .toArray(),
+    db.collection('incidents')
+      .find({ contractorId }, { projection: { projectId: 1, incidentCode: 1, title: 1, severity: 1, status: 1, dateOccurred: 1 } })
+      .sort({ dateOccurred: -1 })
+      .toArray(),
+    db.collection('procurement_items')
+      .find({ supplierId: contractorId }, { projection: { projectId: 1, name: 1, status: 1, expectedDelivery: 1, actualDelivery: 1 } })
+      .sort({ createdAt: -1 })
+      .toArray()
+  ]);
+
+  // Titles for projects only reached through logs, incidents or supplies
+  const projectTitles = new Map(projects.map(project => [project._id.toString(), project.title as string]));
+  const otherIds = Array.from(new Set([
+    ...dailyLogs.map(log => log.project?.toString()),
+    ...dailyReports.map(report => report.project?.toString()),
+    ...incidents.map(incident => incident.projectId?.toString()),
+    ...supplies.map(item => item.projectId?.toString())
+  ].filter((id): id is string => !!id && !projectTitles.has(id))));
+  if (otherIds.length > 0) {
+    const others = await db.collection('projects')
+      .find({ _id: { $in: otherIds.map(id => new ObjectId(id)) } }, { projection: { title: 1 } })
+      .toArray();
+    others.forEach(project => projectTitles.set(project._id.toString(), project.title as string));
+  }
+  const titleOf = (id?: ObjectId) => (id && projectTitles.get(id.toString())) || 'Unknown project';
+
+  // Daily log entries: delay/on-hold days, site-log incidents, and completion
+  // dates for schedule activities that don't record their own
+  let delayedDays = 0;
+  let onHoldDays = 0;
+  const loggedCompletion = new Map<string, Date>();
+  const dailyTasks: ContractorActivityRecord[] = [];
+  const incidentRecords: ContractorIncidentRecord[] = [];
+
+  for (const log of [...dailyLogs, ...dailyReports]) {
+    for (const activity of log.activities || []) {
+      if (!activity.contractorId?.equals(contractorId)) continue;
+
+      if (activity.status === 'delayed') delayedDays++;
+      if (activity.status === 'on_hold') onHoldDays++;
+
+      if (activity.incidentReport?.trim()) {
+        incidentRecords.push({
+          projectId: log.project.toString(),
+          projectTitle: titleOf(log.project),
+          source: 'site_log',
+          title: activity.incidentReport.trim(),
+          date: log.date.toISOString()
+        });
+      }
+
+      const completedOn = activity.status === 'completed' ? toDate(activity.actualDate) || log.date : undefined;
+      if (activity.linkedActivityId) {
+        const key = activity.linkedActivityId.toString();
+        const previous = loggedCompletion.get(key);
+        if (completedOn && (!previous || completedOn < previous)) loggedCompletion.set(key, completedOn);
+      } else if (activity._id) {
+        // A standalone task on the daily log
+        const plannedEnd = toDate(activity.endDate);
+        dailyTasks.push({
+          projectId: log.project.toString(),
+          projectTitle: titleOf(log.project),
+          activityId: activity._id.toString(),
+          title: activity.title,
+          role: 'contractor',
+          status: activity.status,
+          plannedEnd: plannedEnd?.toISOString(),
+          actualEnd: completedOn?.toISOString(),
+          onTime: finishedOnTime(completedOn, plannedEnd)
+        });
+      }
+    }
+  }
+
+  const scheduled: ContractorActivityRecord[] = projects.flatMap(project =>
+    ((project.siteSchedule?.phases || []) as Array<{ activities?: ScheduleActivityRecord[] }>).flatMap(phase =>
+      (phase.activities || []).flatMap(activity => {
+        const role = activity.contractorId?.equals(contractorId)
+          ? 'contractor' as const
+          : activity.supervisorId?.equals(contractorId) ? 'supervisor' as const : null;
+        if (!role) return [];
+
+        const plannedEnd = toDate(activity.endDate ?? activity.plannedEndDate);
+        const actualEnd = activity.status === 'completed'
+          ? toDate(activity.actualEndDate) || loggedCompletion.get(activity._id.toString())
+          : undefined;
+        return [{
+          projectId: project._id.toString(),
+          projectTitle: project.title as string,
+          activityId: activity._id.toString(),
+          title: activity.title,
+          role,
+          status: activity.status || 'pending',
+          plannedEnd: plannedEnd?.toISOString(),
+          actualEnd: actualEnd?.toISOString(),
+          onTime: finishedOnTime(actualEnd, plannedEnd)
+        }];
+      })
+    )
+  );
+
+  const activities = [...scheduled, ...dailyTasks];
+  // The on-time rate is about the entry's own work, not what they supervised
+  const ownWork = activities.filter(activity => activity.role === 'contractor' && activity.status === 'completed');
+  const timed = ownWork.filter(activity => activity.onTime !== undefined);
+  const completedOnTime = timed.filter(activity => activity.onTime).length;
+
+  incidentRecords.push(...incidents.map(incident => ({
+    projectId: incident.projectId.toString(),
+    projectTitle: titleOf(incident.projectId),
+    source: 'incident' as const,
+    incidentId: incident._id.toString(),
+    code: incident.incidentCode,
+    title: incident.title,
+    severity: incident.severity,
+    status: incident.status,
+    date: new Date(incident.dateOccurred).toISOString()
+  })));
+  incidentRecords.sort((a, b) => b.date.localeCompare(a.date));
+
+  const supplyRecords: ContractorSupplyRecord[] = supplies.map(item => ({
+    projectId: item.projectId.toString(),
+    projectTitle: titleOf(item.projectId),
+    itemId: item._id.toString(),
+    name: item.name,
+    status: item.status,
+    expectedDelivery: item.expectedDelivery?.toISOString(),
+    actualDelivery: item.actualDelivery?.toISOString(),
+    onTime: finishedOnTime(item.actualDelivery, item.expectedDelivery)
+  }));
+
+  return {
+    projects: new Set([
+      ...activities.map(activity => activity.projectId),
+      ...incidentRecords.map(incident => incident.projectId),
+      ...supplyRecords.map(item => item.projectId)
+    ]).size,
+    activities,
+    completed: ownWork.length,
+    completedOnTime,
+    onTimeRate: timed.length > 0 ? Math.round((completedOnTime / timed.length) * 100) : null,
+    delayedDays,
+    onHoldDays,
+    incidents: incidentRecords,
+    supplies: supplyRecords
+  };
+}
@@ -0,0 +1,163 @@
+// src/lib/daily-reports.ts - Review workflow for the daily reports posted through /api/daily-reports
+// draft → submitted → approved, with reviewers able to send a report back
+// (changes_requested) with comments on individual activities. `approved` is
+// kept in step with the status so older readers of the flag keep working.
+import { Db, Filter, ObjectId } from 'mongodb';
+import type { ProjectAccessRecord } from '@/lib/project-access';
+import { dispatchNotifications } from '@/lib/notifications';
+import {
+  transformReviewComment,
+  DailyReportReview,
+  DailyReportReviewCommentDocument,
+  DailyReportStatus
+} from '@/lib/types/daily-report';
+
+export const DAILY_REPORTS_COLLECTION = 'dailyProgress';
+
+export interface DailyReportRecord {
+  _id: ObjectId;
+  project: ObjectId;
+  date: Date;
+  activities?: Array<{ _id?: ObjectId; title: string }>;
+  status?: DailyReportStatus;
+  approved?: boolean;
+  createdBy: ObjectId;
+  submittedAt?: Date;
+  submittedBy?: ObjectId;
+  approvedAt?: Date;
+  approvedBy?: ObjectId;
+  reviewComments?: DailyReportReviewCommentDocument[];
+  updatedAt: Date;
+}
+
+export interface DailyReportProject extends ProjectAccessRecord {
+  title: string;
+}
+
+// How a report is named in the audit trail
+export function dailyReportLabel(date: unknown): string {
+  const day = date instanceof Date ? date.toISOString().split('T')[0] : String(date || '');
+  return `Daily report ${day}`.trim();
+}
+
+/**
+ * Reports written before the workflow have no status: they were posted
+ * straight in, so they count as submitted until approved
+ */
+export function dailyReportStatus(report: Pick<DailyReportRecord, 'status' | 'approved'>): DailyReportStatus {
+  return report.status || (report.approved ? 'approved' : 'submitted');
+}
+
+export function dailyReportStatusFilter(status: DailyReportStatus): Filter<DailyReportRecord> {
+  switch (status) {
+    case 'approved':
+      return { approved: true };
+    case 'submitted':
+      return { $or: [{ status: 'submitted' }, { status: { $exists: false }, approved: { $ne: true } }] };
+    default:
+      return { status };
+  }
+}
+
+export function toDailyReportReview(report: DailyReportRecord): DailyReportReview {
+  return {
+    _id: report._id.toString(),
+    status: dailyReportStatus(report),
+    approved: report.approved || false,
+    reviewComments: (report.reviewComments || []).map(transformReviewComment),
+    submittedAt: report.submittedAt?.toISOString(),
+    approvedAt: report.approvedAt?.toISOString()
+  };
+}
+
+/**
+ * The daily logs a client may see: days whose report passed review, plus logs
+ * that were approved themselves (imported history)
+ */
+export async function clientVisibleDailyLogs<T extends { date: Date; approved?: boolean }>(
+  db: Db,
+  projectId: ObjectId,
+  logs: T[]
+): Promise<T[]> {
+  const pending = logs.filter(log => !log.approved);
+  if (pending.length === 0) return logs;
+
+  // Reports and logs may store different times of day, so match them by day
+  const dayOf = (date: Date) => date.toISOString().split('T')[0];
+  const days = pending.map(log => dayOf(log.date)).sort();
+  const last = new Date(`${days[days.length - 1]}T00:00:00.000Z`);
+  last.setUTCDate(last.getUTCDate() + 1);
+
+  const approved = await db.collection<DailyReportRecord>(DAILY_REPORTS_COLLECTION)
+    .find(
+      {
+        project: projectId,
+        date: { $gte: new Date(`${days[0]}T00:00:00.000Z`), $lt: last },
+        ...dailyReportStatusFilter('approved')
+      },
+      { projection: { date: 1 } }
+    )
+    .toArray();
+  const approvedDays = new Set(approved.map(report => dayOf(report.date)));
+
+  return logs.filter(log => log.approved || approvedDays.has(dayOf(log.date)));
+}
+
+/**
+ * Tell the client and the author a report was approved, or the author that
+ * changes were requested. A failed notification never fails the request.
+ */
+export async function notifyDailyReport(
+  db: Db,
+  project: DailyReportProject,
+  report: DailyReportRecord,
+  event: 'approved' | 'changes_requested',
+  senderId: string
+): Promise<void> {
+  const projectId = project._id.toString();
+  const day = report.date.toISOString().split('T')[0];
+  const messages = event === 'approved'
+    ? [
+        ...(project.client ? [{
+          recipientId: project.client,
+          title: 'New Daily Report',
+          message: `The ${day} site report for ${project.title} is ready to view`,
+          url: '/client/daily-reports'
+        }] : []),
+        {
+          recipientId: report.createdBy,
+          title: 'Daily Report Approved',
+          message: `Your ${day} report for ${project.title} was approved`,
+          url: '/manager/daily-reports'
+        }
+      ]
+    : [{
+        recipientId: report.createdBy,
+        title: 'Daily Report Needs Changes',
+        message: `A reviewer asked for changes to your ${day} report for ${project.title}`,
+        url: '/manager/daily-reports'
+      }];
+
+  const recipients = messages.filter(item => !item.recipientId.equals(senderId));
+  if (recipients.length === 0) return;
+
+  try {
+    const now = new Date();
+    await dispatchNotifications(db, recipients.map(item => ({
+      recipientId: item.recipientId,
+      senderId: new ObjectId(senderId),
+      type: 'project_updated',
+      title: item.title,
+      message: item.message,
+      data: { projectId, dailyReportId: report._id.toString(), url: item.url },
+      isRead: false,
+      priority: event === 'changes_requested' ? 'high' : 'medium',
+      category: event === 'approved' ? 'success' : 'warning',
+      actionRequired: event === 'changes_requested',
+      createdAt: now,
+      updatedAt: now
+    })));
+  } catch (error) {
+    console.error('Error sending daily report notification:', error);
+  }
+}
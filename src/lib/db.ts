@@ -240,6 +240,10 @@ export async function withRetry<T>(
   throw lastError;
 }
 
+// MongoDB allows a single text index per collection; scripts/migrateSearchIndexes.ts
+// replaces older ones that would otherwise make createIndexes fail
+export const SEARCH_TEXT_INDEX = { name: 'search_text', default_language: 'english' } as const;
+
 export async function createIndexes(): Promise<void> {
   try {
     const database = await getDatabase();
@@ -259,7 +263,19 @@ export async function createIndexes(): Promise<void> {
       { key: { startDate: 1 } },
       { key: { endDate: 1 } },
       { key: { createdAt: -1 } },
-      { key: { title: 'text', description: 'text' } },
+      { key: { 'siteSchedule.phases.activities.contractorId': 1 } },
+      { key: { 'siteSchedule.phases.activities.supervisorId': 1 } },
+      {
+        key: {
+          title: 'text',
+          description: 'text',
+          siteAddress: 'text',
+          'siteSchedule.phases.activities.title': 'text',
+          'siteSchedule.phases.activities.notes': 'text',
+          'siteSchedule.phases.activities.comments.content': 'text',
+        },
+        ...SEARCH_TEXT_INDEX,
+      },
     ]);
 
     await database.collection('tasks').createIndexes([
@@ -280,12 +296,37 @@ export async function createIndexes(): Promise<void> {
       { key: { projectId: 1, createdAt: -1 } },
     ]);
 
+    // Project channel pages and their threads
+    await database.collection('messages').createIndexes([
+      { key: { projectId: 1, recipientId: 1, createdAt: -1 } },
+      { key: { replyTo: 1 }, sparse: true },
+    ]);
+
     await database.collection('notifications').createIndexes([
       { key: { recipient: 1 } },
       { key: { isRead: 1 } },
       { key: { type: 1 } },
       { key: { createdAt: -1 } },
       { key: { recipient: 1, isRead: 1 } },
+      { key: { deliverAfter: 1 }, sparse: true },
+      { key: { recipientId: 1, digestOnly: 1, digestedAt: 1 } },
+    ]);
+
+    // Scheduled job history and the reminders/digests jobs have sent
+    await database.collection('job_runs').createIndexes([
+      { key: { startedAt: -1 } },
+      { key: { job: 1, startedAt: -1 } },
+      { key: { status: 1, startedAt: -1 } },
+    ]);
+
+    await database.collection('job_deliveries').createIndexes([
+      { key: { createdAt: 1 } },
+    ]);
+
+    // Web Push subscriptions, one per browser
+    await database.collection('push_subscriptions').createIndexes([
+      { key: { userId: 1 } },
+      { key: { 'subscription.endpoint': 1 } },
     ]);
 
     await database.collection('projectfiles').createIndexes([
@@ -296,6 +337,103 @@ export async function createIndexes(): Promise<void> {
       { key: { uploadedAt: -1 } },
     ]);
 
+    await database.collection('audit_logs').createIndexes([
+      { key: { timestamp: -1 } },
+      { key: { projectId: 1, timestamp: -1 } },
+      { key: { entityType: 1, entityId: 1, timestamp: -1 } },
+      { key: { actorId: 1, timestamp: -1 } },
+    ]);
+
+    await database.collection('budget_lines').createIndexes([
+      { key: { projectId: 1, category: 1 } },
+    ]);
+
+    await database.collection('project_costs').createIndexes([
+      { key: { projectId: 1, date: -1 } },
+      { key: { kind: 1, date: -1 } },
+    ]);
+
+    await database.collection('payment_milestones').createIndexes([
+      { key: { projectId: 1, dueDate: 1 } },
+      { key: { status: 1, dueDate: 1 } },
+    ]);
+
+    await database.collection('change_orders').createIndexes([
+      { key: { projectId: 1, createdAt: -1 } },
+      { key: { status: 1, projectId: 1 } },
+    ]);
+
+    await database.collection('design_submissions').createIndexes([
+      { key: { projectId: 1, createdAt: -1 } },
+      { key: { status: 1, projectId: 1 } },
+    ]);
+
+    await database.collection('files').createIndexes([
+      { key: { parentFileId: 1 } },
+    ]);
+
+    await database.collection('snags').createIndexes([
+      { key: { projectId: 1, status: 1 } },
+      { key: { projectId: 1, createdAt: -1 } },
+    ]);
+
+    await database.collection('procurement_items').createIndexes([
+      { key: { projectId: 1, expectedDelivery: 1 } },
+      { key: { projectId: 1, activityId: 1, status: 1 } },
+      { key: { supplierId: 1 } },
+    ]);
+
+    await database.collection('contractors').createIndexes([
+      { key: { kind: 1, isActive: 1, name: 1 } },
+    ]);
+
+    // Directory links on daily logs (mongoose DailyProgress), daily reports and incidents
+    for (const collection of ['dailyprogresses', 'dailyProgress']) {
+      await database.collection(collection).createIndexes([
+        { key: { 'activities.contractorId': 1 } },
+      ]);
+    }
+
+    await database.collection('incidents').createIndexes([
+      { key: { contractorId: 1 } },
+    ]);
+
+    // Labor log lines linked to the contractor directory
+    await database.collection('dailyprogresses').createIndexes([
+      { key: { 'labor.contractorId': 1 } },
+    ]);
+
+    // Daily report review queue
+    await database.collection('dailyProgress').createIndexes([
+      { key: { status: 1, date: -1 } },
+    ]);
+
+    // Text indexes for global search (src/lib/search.ts), one per collection
+    await database.collection('dailyprogresses').createIndexes([
+      {
+        key: { 'activities.title': 'text', 'activities.comments': 'text', 'activities.clientComments.content': 'text' },
+        ...SEARCH_TEXT_INDEX,
+      },
+    ]);
+    await database.collection('messages').createIndexes([
+      { key: { content: 'text' }, ...SEARCH_TEXT_INDEX },
+    ]);
+    await database.collection('files').createIndexes([
+      { key: { originalName: 'text', description: 'text', tags: 'text' }, ...SEARCH_TEXT_INDEX },
+    ]);
+    await database.collection('incidents').createIndexes([
+      { key: { title: 'text', description: 'text', location: 'text', incidentCode: 'text' }, ...SEARCH_TEXT_INDEX },
+    ]);
+    await database.collection('risks').createIndexes([
+      { key: { riskDescription: 'text', mitigationStrategy: 'text', riskCode: 'text' }, ...SEARCH_TEXT_INDEX },
+    ]);
+
+    // One set of minutes per calendar event
+    await database.collection('meeting_minutes').createIndexes([
+      { key: { eventId: 1 }, unique: true },
+      { key: { projectId: 1, updatedAt: -1 } },
+    ]);
+
     console.log('✅ Database indexes created successfully');
   } catch (indexError: unknown) {
     console.error('❌ Error creating database indexes:', indexError);
@@ -0,0 +1,252 @@
+// src/lib/designs.ts - Design submissions: drawings, layouts and mood boards signed off by the client
+// A manager groups uploaded project files into a submission and sends it to the
+// client, who approves or rejects each file. Rejected files are replaced with a
+// new version (File.parentFileId) and the submission is sent again. Once every
+// file is approved the submission and its files are locked.
+import { Db, ObjectId } from 'mongodb';
+import type { ProjectAccessRecord } from '@/lib/project-access';
+import { dispatchNotifications } from '@/lib/notifications';
+import { escapeCsvCell } from '@/lib/site-report';
+import {
+  transformDesignSubmission,
+  DESIGN_CATEGORIES,
+  DESIGN_CATEGORY_LABELS,
+  DESIGN_STATUS_LABELS,
+  DesignCategory,
+  DesignFileDocument,
+  DesignSubmission,
+  DesignSubmissionDocument
+} from '@/lib/types/design';
+
+export const DESIGNS_COLLECTION = 'design_submissions';
+
+// Most files one submission may carry
+const MAX_DESIGN_FILES = 30;
+
+export interface DesignProject extends ProjectAccessRecord {
+  title: string;
+}
+
+// The fields of a `files` document a submission reads
+export interface DesignSourceFile {
+  _id: ObjectId;
+  projectId: ObjectId;
+  originalName?: string;
+  filename?: string;
+  url: string;
+  mimeType?: string;
+  version?: number;
+  parentFileId?: ObjectId | null;
+}
+
+export interface DesignInput {
+  title: string;
+  description?: string;
+  category: DesignCategory;
+  fileIds: ObjectId[];
+}
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+export function parseDesignInput(body: unknown): { design: DesignInput } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  const title = asText(input.title);
+  if (!title) return { error: 'Title is required' };
+
+  const category = (asText(input.category) || 'other') as DesignCategory;
+  if (!DESIGN_CATEGORIES.includes(category)) return { error: 'Invalid design category' };
+
+  const rawIds = Array.isArray(input.fileIds) ? Array.from(new Set(input.fileIds.map(String))) : [];
+  if (rawIds.length === 0) return { error: 'Add at least one file' };
+  if (rawIds.length > MAX_DESIGN_FILES) return { error: `A submission can hold at most ${MAX_DESIGN_FILES} files` };
+  if (rawIds.some(id => !ObjectId.isValid(id))) return { error: 'Invalid file ID' };
+
+  return {
+    design: {
+      title,
+      description: asText(input.description) || undefined,
+      category,
+      fileIds: rawIds.map(id => new ObjectId(id))
+    }
+  };
+}
+
+/**
+ * Build the submission's file list from project files. A file uploaded as a new
+ * version of one already in the submission takes its place, and the file it
+ * replaces moves to previousVersions. Files left unchanged keep their decision.
+ */
+export async function resolveDesignFiles(
+  db: Db,
+  projectId: ObjectId,
+  fileIds: ObjectId[],
+  current: DesignFileDocument[] = []
+): Promise<{ files: DesignFileDocument[] } | { error: string }> {
+  const sources = await db.collection<DesignSourceFile>('files')
+    .find({ _id: { $in: fileIds }, projectId })
+    .toArray();
+  if (sources.length !== fileIds.length) {
+    return { error: 'One or more files are not in this project' };
+  }
+
+  const files: DesignFileDocument[] = [];
+  for (const fileId of fileIds) {
+    const source = sources.find(file => file._id.equals(fileId))!;
+    const kept = current.find(file => file.fileId.equals(fileId));
+    if (kept) {
+      files.push(kept);
+      continue;
+    }
+
+    const replaced = source.parentFileId
+      ? current.find(file => file.fileId.equals(source.parentFileId!))
+      : undefined;
+    if (replaced?.decision?.status === 'approved') {
+      return { error: `${replaced.name} is already approved and can't be replaced` };
+    }
+
+    files.push({
+      fileId: source._id,
+      version: source.version || 1,
+      name: source.originalName || source.filename || 'Untitled file',
+      url: source.url,
+      mimeType: source.mimeType,
+      previousVersions: replaced
+        ? [...replaced.previousVersions, { fileId: replaced.fileId, version: replaced.version, name: replaced.name, url: replaced.url }]
+        : []
+    });
+  }
+
+  return { files };
+}
+
+/**
+ * Lock an approved submission's files so they can't be deleted or superseded
+ */
+export async function lockDesignFiles(db: Db, design: DesignSubmissionDocument): Promise<void> {
+  await db.collection('files').updateMany(
+    { _id: { $in: design.files.map(file => file.fileId) } },
+    { $set: { locked: true, lockedAt: design.approvedAt || new Date(), designSubmissionId: design._id } }
+  );
+}
+
+/**
+ * Design submissions with creator names and project titles attached
+ */
+export async function withDesignNames(db: Db, documents: DesignSubmissionDocument[]): Promise<DesignSubmission[]> {
+  const userIds = Array.from(new Set(documents.map(doc => doc.createdBy.toString())));
+  const projectIds = Array.from(new Set(documents.map(doc => doc.projectId.toString())));
+  const [users, projects] = await Promise.all([
+    userIds.length > 0
+      ? db.collection('users')
+          .find({ _id: { $in: userIds.map(id => new ObjectId(id)) } }, { projection: { name: 1 } })
+          .toArray()
+      : [],
+    projectIds.length > 0
+      ? db.collection('projects')
+          .find({ _id: { $in: projectIds.map(id => new ObjectId(id)) } }, { projection: { title: 1 } })
+          .toArray()
+      : []
+  ]);
+  const userNames = new Map(users.map(user => [user._id.toString(), user.name as string]));
+  const projectTitles = new Map(projects.map(project => [project._id.toString(), project.title as string]));
+
+  return documents.map(doc => transformDesignSubmission(doc, {
+    createdByName: userNames.get(doc.createdBy.toString()),
+    projectTitle: projectTitles.get(doc.projectId.toString())
+  }));
+}
+
+/**
+ * Tell the client a submission is waiting on them, or the managers how the
+ * client decided. A failed notification never fails the request.
+ */
+export async function notifyDesign(
+  db: Db,
+  project: DesignProject,
+  design: DesignSubmissionDocument,
+  event: 'submitted' | 'approved' | 'changes_requested',
+  senderId: string
+): Promise<void> {
+  const projectId = project._id.toString();
+  const recipients = event === 'submitted'
+    ? (project.client ? [project.client] : [])
+    : project.managers || [];
+  if (recipients.length === 0) return;
+
+  const content = {
+    submitted: {
+      title: 'Designs Awaiting Approval',
+      message: `"${design.title}" on ${project.title} needs your approval`,
+      url: `/client/projects/${projectId}`,
+      category: 'warning'
+    },
+    approved: {
+      title: 'Designs Approved',
+      message: `The client approved "${design.title}" on ${project.title}`,
+      url: `/manager/projects/${projectId}`,
+      category: 'success'
+    },
+    changes_requested: {
+      title: 'Design Changes Requested',
+      message: `The client asked for changes to "${design.title}" on ${project.title}`,
+      url: `/manager/projects/${projectId}`,
+      category: 'error'
+    }
+  }[event];
+
+  try {
+    const now = new Date();
+    await dispatchNotifications(db, recipients.map(recipientId => ({
+      recipientId,
+      senderId: new ObjectId(senderId),
+      type: 'project_updated',
+      title: content.title,
+      message: content.message,
+      data: { projectId, designId: design._id?.toString(), url: content.url },
+      isRead: false,
+      priority: event === 'submitted' ? 'high' : 'medium',
+      category: content.category,
+      actionRequired: event === 'submitted',
+      createdAt: now,
+      updatedAt: now
+    })));
+  } catch (error) {
+    console.error('Error sending design notification:', error);
+  }
+}
+
+export const DESIGN_RECORD_COLUMNS = ['Round', 'File', 'Version', 'Decision', 'Signed By', 'Date (UTC)', 'Comment'];
+
+/**
+ * The approval record as sheet rows: a short header, then every decision the
+ * client signed, oldest first, with the file version it applied to
+ */
+export function buildDesignRecordRows(design: DesignSubmissionDocument, projectTitle: string): string[][] {
+  const timestamp = (date?: Date) => date ? date.toISOString().replace('T', ' ').slice(0, 19) : '';
+  return [
+    ['DESIGN APPROVAL RECORD'],
+    ['Project', projectTitle],
+    ['Submission', design.title],
+    ['Category', DESIGN_CATEGORY_LABELS[design.category]],
+    ['Status', DESIGN_STATUS_LABELS[design.status]],
+    ['Approved', timestamp(design.approvedAt)],
+    ['Generated', timestamp(new Date())],
+    [],
+    DESIGN_RECORD_COLUMNS,
+    ...design.records.map(record => [
+      String(record.round),
+      record.fileName,
+      `v${record.version}`,
+      record.status === 'approved' ? 'Approved' : 'Rejected',
+      record.signedName,
+      timestamp(record.at),
+      record.comment || ''
+    ])
+  ];
+}
+
+export function designRecordCsv(rows: string[][]): string {
+  return rows.map(cells => cells.map(escapeCsvCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -49,6 +49,7 @@ interface EmailTemplateData {
   newMessages?: number;
   filesUploaded?: number;
   tasksCompleted?: number;
+  digestItems?: Array<{ title: string; message: string }>;
   [key: string]: unknown; // Allow additional properties
 }
 
@@ -67,6 +68,13 @@ function getStringValue(value: unknown, fallback: string = ''): string {
   return fallback;
 }
 
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
 // Helper function to safely get number value with fallback
 function getNumberValue(value: unknown, fallback: number = 0): number {
   if (typeof value === 'number') return value;
@@ -197,6 +205,16 @@ const getEmailTemplate = (type: string, data: EmailTemplateData): EmailTemplate
   const newMessages = getNumberValue(data.newMessages, 0);
   const filesUploaded = getNumberValue(data.filesUploaded, 0);
   const tasksCompleted = getNumberValue(data.tasksCompleted, 0);
+  const digestItems = data.digestItems || [];
+  // Notifications the recipient routed to their digest instead of other channels
+  const digestItemsHtml = digestItems.length > 0
+    ? `<p><strong>Notifications:</strong></p><ul>${digestItems
+      .map(item => `<li><strong>${escapeHtml(item.title)}</strong> - ${escapeHtml(item.message)}</li>`)
+      .join('')}</ul>`
+    : '';
+  const digestItemsText = digestItems.length > 0
+    ? `\n\nNotifications:\n${digestItems.map(item => `- ${item.title}: ${item.message}`).join('\n')}`
+    : '';
 
   switch (type) {
     case 'project_update':
@@ -339,6 +357,7 @@ const getEmailTemplate = (type: string, data: EmailTemplateData): EmailTemplate
                 <p><strong>New Messages:</strong> ${newMessages}</p>
                 <p><strong>Files Uploaded:</strong> ${filesUploaded}</p>
               </div>
+              ${digestItemsHtml}
               <a href="${dashboardUrl}" class="button">View Dashboard</a>
               <p>Stay productive and keep your projects on track!</p>
             </div>
@@ -347,7 +366,7 @@ const getEmailTemplate = (type: string, data: EmailTemplateData): EmailTemplate
             </div>
           </div>
         `,
-        text: `Daily Project Digest\n\nHello ${recipientName},\n\nDaily summary:\nProjects: ${projects}\nTasks Due Today: ${tasksDueToday}\nNew Messages: ${newMessages}\nFiles Uploaded: ${filesUploaded}\n\nView dashboard: ${dashboardUrl}`
+        text: `Daily Project Digest\n\nHello ${recipientName},\n\nDaily summary:\nProjects: ${projects}\nTasks Due Today: ${tasksDueToday}\nNew Messages: ${newMessages}\nFiles Uploaded: ${filesUploaded}${digestItemsText}\n\nView dashboard: ${dashboardUrl}`
       };
 
     case 'weekly_digest':
@@ -368,6 +387,7 @@ const getEmailTemplate = (type: string, data: EmailTemplateData): EmailTemplate
                 <p><strong>New Messages:</strong> ${newMessages}</p>
                 <p><strong>Files Uploaded:</strong> ${filesUploaded}</p>
               </div>
+              ${digestItemsHtml}
               <a href="${dashboardUrl}" class="button">View Full Report</a>
               <p>Great work this week! Keep up the momentum.</p>
             </div>
@@ -376,7 +396,7 @@ const getEmailTemplate = (type: string, data: EmailTemplateData): EmailTemplate
             </div>
           </div>
         `,
-        text: `Weekly Project Digest\n\nHello ${recipientName},\n\nWeekly summary:\nProjects: ${projects}\nTasks Completed: ${tasksCompleted}\nNew Messages: ${newMessages}\nFiles Uploaded: ${filesUploaded}\n\nView report: ${dashboardUrl}`
+        text: `Weekly Project Digest\n\nHello ${recipientName},\n\nWeekly summary:\nProjects: ${projects}\nTasks Completed: ${tasksCompleted}\nNew Messages: ${newMessages}\nFiles Uploaded: ${filesUploaded}${digestItemsText}\n\nView report: ${dashboardUrl}`
       };
 
     default:
@@ -580,7 +600,8 @@ export const sendDigestEmail = async (
     const userProjects = await db.collection('projects').find({
       $or: [
         { client: new ObjectId(userId) },
-        { manager: new ObjectId(userId) }
+        { manager: new ObjectId(userId) },
+        { managers: new ObjectId(userId) }
       ]
     }).toArray();
 
@@ -622,6 +643,14 @@ export const sendDigestEmail = async (
       })
     ]);
 
+    const pendingNotifications = await db.collection('notifications')
+      .find(
+        { recipientId: new ObjectId(userId), digestOnly: true, digestedAt: { $exists: false } },
+        { projection: { title: 1, message: 1 } }
+      )
+      .sort({ createdAt: 1 })
+      .toArray();
+
     const digestData: EmailTemplateData = {
       recipientName: user.name,
       period,
@@ -630,18 +659,30 @@ export const sendDigestEmail = async (
       newMessages,
       filesUploaded,
       tasksCompleted,
+      digestItems: pendingNotifications.map(item => ({ title: String(item.title), message: String(item.message) })),
       dashboardUrl: `${process.env.NEXTAUTH_URL}/${user.role === 'super_admin' ? 'admin' : user.role === 'project_manager' ? 'manager' : 'client'}`
     };
 
     const template = getEmailTemplate(`${period}_digest`, digestData);
 
-    return await sendEmail({
+    const sent = await sendEmail({
       to: user.email,
       subject: template.subject,
       html: template.html,
       text: template.text
     });
 
+    // Digest-only notifications count as read once they have been sent
+    if (sent && pendingNotifications.length > 0) {
+      const now = new Date();
+      await db.collection('notifications').updateMany(
+        { _id: { $in: pendingNotifications.map(item => item._id) } },
+        { $set: { digestedAt: now, isRead: true, readAt: now, updatedAt: now } }
+      );
+    }
+
+    return sent;
+
   } catch (error) {
     console.error(`📧 Failed to send ${period} digest email:`, error);
     return false;
@@ -0,0 +1,218 @@
+// src/lib/jobs.ts - Scheduled job runner
+// server.js calls /api/jobs/run every minute and this runs whichever jobs are
+// due. A job is leased in the jobs collection before it runs, so when several
+// instances tick at once only one of them runs it; a lease left behind by a
+// crashed instance simply expires. Every run is kept in job_runs for the admin
+// jobs page.
+import crypto from 'crypto';
+import os from 'os';
+import { Db, Filter, MongoServerError } from 'mongodb';
+import { cleanupExpiredData } from '@/lib/db';
+import { cleanupExpiredResetTokens } from '@/lib/password-reset';
+import { deliverHeldNotifications } from '@/lib/notifications';
+import {
+  JOB_DELIVERIES_COLLECTION,
+  sendCalendarReminders,
+  sendDeadlineReminders,
+  sendDueDigests
+} from '@/lib/scheduled-notifications';
+import {
+  JOB_DESCRIPTIONS,
+  JOB_LABELS,
+  JOB_NAMES,
+  JobDocument,
+  JobName,
+  JobRun,
+  JobRunDocument,
+  JobRunStatus,
+  ScheduledJob,
+  transformJobRun
+} from '@/lib/types/jobs';
+
+export const JOBS_COLLECTION = 'jobs';
+export const JOB_RUNS_COLLECTION = 'job_runs';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Job runs and delivery records older than this are removed by the cleanup job
+const HISTORY_DAYS = 30;
+
+interface JobDefinition {
+  intervalMs: number;
+  // How long a run holds the job before another instance may take it over
+  leaseMs: number;
+  // Does the work and returns a one-line summary; throws to mark the run failed
+  run: (db: Db, now: Date) => Promise<string>;
+}
+
+const JOBS: Record<JobName, JobDefinition> = {
+  calendar_reminders: { intervalMs: MINUTE_MS, leaseMs: 10 * MINUTE_MS, run: sendCalendarReminders },
+  deadline_reminders: { intervalMs: 15 * MINUTE_MS, leaseMs: 15 * MINUTE_MS, run: sendDeadlineReminders },
+  held_notifications: { intervalMs: 5 * MINUTE_MS, leaseMs: 15 * MINUTE_MS, run: deliverHeldNotifications },
+  digests: { intervalMs: 15 * MINUTE_MS, leaseMs: 30 * MINUTE_MS, run: sendDueDigests },
+  cleanup: { intervalMs: DAY_MS, leaseMs: 30 * MINUTE_MS, run: runCleanup }
+};
+
+// Identifies this server process in job locks and run history
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+export interface JobRunResult {
+  job: JobName;
+  status: JobRunStatus;
+  summary?: string;
+  error?: string;
+}
+
+async function runCleanup(db: Db, now: Date): Promise<string> {
+  const cutoff = new Date(now.getTime() - HISTORY_DAYS * DAY_MS);
+
+  await cleanupExpiredData();
+  await cleanupExpiredResetTokens();
+  const [runs, deliveries] = await Promise.all([
+    db.collection<JobRunDocument>(JOB_RUNS_COLLECTION).deleteMany({ startedAt: { $lt: cutoff } }),
+    db.collection(JOB_DELIVERIES_COLLECTION).deleteMany({ createdAt: { $lt: cutoff } })
+  ]);
+
+  return `Removed read notifications, expired reset tokens, ${runs.deletedCount} old job runs and ${deliveries.deletedCount} delivery records`;
+}
+
+/**
+ * Whether a request carries the secret server.js shares with the app. Without
+ * a configured secret the runner endpoint stays closed.
+ */
+export function isSchedulerSecret(provided: string | null): boolean {
+  const secret = process.env.JOBS_SECRET;
+  if (!secret || !provided) return false;
+
+  const expected = Buffer.from(secret);
+  const actual = Buffer.from(provided);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+// Take the lease on a job if it is due and nobody holds it
+async function claimJob(db: Db, name: JobName, now: Date): Promise<boolean> {
+  const jobs = db.collection<JobDocument>(JOBS_COLLECTION);
+
+  // A job seen for the first time is due straight away
+  try {
+    await jobs.updateOne(
+      { _id: name },
+      { $setOnInsert: { nextRunAt: now, consecutiveFailures: 0, createdAt: now, updatedAt: now } },
+      { upsert: true }
+    );
+  } catch (error) {
+    // Another instance inserted it first
+    if (!(error instanceof MongoServerError && error.code === 11000)) throw error;
+  }
+
+  const claimed = await jobs.findOneAndUpdate(
+    {
+      _id: name,
+      nextRunAt: { $lte: now },
+      $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: { $lte: now } }]
+    },
+    { $set: { lockedUntil: new Date(now.getTime() + JOBS[name].leaseMs), lockedBy: INSTANCE_ID, updatedAt: now } }
+  );
+  return !!claimed;
+}
+
+async function runJob(db: Db, name: JobName): Promise<JobRunResult> {
+  const definition = JOBS[name];
+  const runs = db.collection<JobRunDocument>(JOB_RUNS_COLLECTION);
+  const startedAt = new Date();
+  const { insertedId } = await runs.insertOne({ job: name, status: 'running', instance: INSTANCE_ID, startedAt });
+
+  let result: JobRunResult;
+  try {
+    result = { job: name, status: 'succeeded', summary: await definition.run(db, startedAt) };
+  } catch (error) {
+    console.error(`Error running scheduled job ${name}:`, error);
+    result = { job: name, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const finishedAt = new Date();
+  await runs.updateOne({ _id: insertedId }, {
+    $set: {
+      status: result.status,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      ...(result.summary ? { summary: result.summary } : {}),
+      ...(result.error ? { error: result.error } : {})
+    }
+  });
+
+  const succeeded = result.status === 'succeeded';
+  await db.collection<JobDocument>(JOBS_COLLECTION).updateOne({ _id: name, lockedBy: INSTANCE_ID }, {
+    $set: {
+      nextRunAt: new Date(startedAt.getTime() + definition.intervalMs),
+      lastRunAt: startedAt,
+      lastStatus: result.status,
+      updatedAt: finishedAt,
+      ...(succeeded
+        ? { lastSuccessAt: finishedAt, consecutiveFailures: 0 }
+        : { lastFailureAt: finishedAt, lastError: result.error })
+    },
+    ...(succeeded ? {} : { $inc: { consecutiveFailures: 1 } }),
+    $unset: { lockedUntil: '', lockedBy: '' }
+  });
+
+  return result;
+}
+
+/**
+ * Run every job that is due and not already running elsewhere, one after the
+ * other. Failures are recorded against the run rather than thrown.
+ */
+export async function runDueJobs(db: Db): Promise<JobRunResult[]> {
+  const results: JobRunResult[] = [];
+  for (const name of JOB_NAMES) {
+    if (await claimJob(db, name, new Date())) {
+      results.push(await runJob(db, name));
+    }
+  }
+  return results;
+}
+
+export async function loadScheduledJobs(db: Db): Promise<ScheduledJob[]> {
+  const documents = await db.collection<JobDocument>(JOBS_COLLECTION).find({}).toArray();
+  const now = new Date();
+
+  return JOB_NAMES.map(name => {
+    const doc = documents.find(item => item._id === name);
+    return {
+      name,
+      label: JOB_LABELS[name],
+      description: JOB_DESCRIPTIONS[name],
+      intervalMinutes: JOBS[name].intervalMs / MINUTE_MS,
+      nextRunAt: doc?.nextRunAt.toISOString(),
+      lastRunAt: doc?.lastRunAt?.toISOString(),
+      lastStatus: doc?.lastStatus,
+      lastError: doc?.lastError,
+      lastSuccessAt: doc?.lastSuccessAt?.toISOString(),
+      lastFailureAt: doc?.lastFailureAt?.toISOString(),
+      consecutiveFailures: doc?.consecutiveFailures || 0,
+      running: !!doc?.lockedUntil && doc.lockedUntil > now,
+      lockedBy: doc?.lockedUntil && doc.lockedUntil > now ? doc.lockedBy : undefined
+    };
+  });
+}
+
+export async function findJobRuns(
+  db: Db,
+  filters: { job?: JobName; status?: JobRunStatus },
+  { page, limit }: { page: number; limit: number }
+): Promise<{ runs: JobRun[]; total: number }> {
+  const query: Filter<JobRunDocument> = {
+    ...(filters.job ? { job: filters.job } : {}),
+    ...(filters.status ? { status: filters.status } : {})
+  };
+
+  const collection = db.collection<JobRunDocument>(JOB_RUNS_COLLECTION);
+  const [documents, total] = await Promise.all([
+    collection.find(query).sort({ startedAt: -1 }).skip((page - 1) * limit).limit(limit).toArray(),
+    collection.countDocuments(query)
+  ]);
+
+  return { runs: documents.map(transformJobRun), total };
+}
@@ -0,0 +1,407 @@
+// src/lib/labor.ts - Daily labor log: who was on site, for how long, at what rate
+// Each site-schedule daily log (mongoose DailyProgress) carries a `labor` list.
+// Logs roll up into weekly labor-hours per project and per contractor, into
+// labor cost when the project has a cost budget, and into actual manpower per
+// phase for comparison with the plan kept on Project.laborPlan.
+import { Db, ObjectId } from 'mongodb';
+import { BUDGET_LINES_COLLECTION } from '@/lib/budget';
+import {
+  linkDirectoryName,
+  loadContractorDirectory,
+  CONTRACTORS_COLLECTION,
+  DAILY_LOGS_COLLECTION
+} from '@/lib/contractors';
+import type { ProjectAccessRecord } from '@/lib/project-access';
+import { dateKey } from '@/lib/working-calendar';
+import { ActivityPhase, PHASE_ORDER } from '@/types/activity';
+import type { ContractorRate } from '@/lib/types/contractor';
+import {
+  transformLaborEntry,
+  ContractorLabor,
+  LaborDay,
+  LaborEntryDocument,
+  LaborPlanEntry,
+  LaborSummary,
+  LaborWeek,
+  PhaseManpower
+} from '@/lib/types/labor';
+
+// A day rate buys this many hours; shorter days are paid pro rata
+export const STANDARD_DAY_HOURS = 8;
+
+// Most lines one day's log may carry
+const MAX_LABOR_ENTRIES = 200;
+const MAX_HEADCOUNT = 500;
+
+export interface LaborProject extends ProjectAccessRecord {
+  title: string;
+  laborPlan?: LaborPlanEntry[];
+}
+
+export interface LaborLogRecord {
+  _id: ObjectId;
+  project: ObjectId;
+  date: Date;
+  labor?: LaborEntryDocument[];
+  summary?: { crewSize?: number };
+}
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const asNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const round = (value: number, places = 2): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+const asPhase = (value: unknown): ActivityPhase | null =>
+  PHASE_ORDER.find(phase => phase === value) || null;
+
+/**
+ * A log date as the site schedule stores it: UTC midnight of a YYYY-MM-DD day
+ */
+export function parseLogDate(value: unknown): Date | null {
+  const text = asText(value);
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(text)) return null;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+export function parseLaborEntries(body: unknown): { entries: LaborEntryDocument[] } | { error: string } {
+  const input = Array.isArray(body) ? body : [];
+  if (input.length > MAX_LABOR_ENTRIES) return { error: `A day's log can hold at most ${MAX_LABOR_ENTRIES} lines` };
+
+  const entries: LaborEntryDocument[] = [];
+  for (const [index, raw] of input.entries()) {
+    const entry = (raw ?? {}) as Record<string, unknown>;
+    const line = `Line ${index + 1}`;
+
+    const contractor = asText(entry.contractor);
+    const workerName = asText(entry.workerName);
+    if (!contractor && !workerName) return { error: `${line}: enter a contractor or worker name` };
+
+    const headcount = asNumber(entry.headcount) ?? 1;
+    if (!Number.isInteger(headcount) || headcount < 1 || headcount > MAX_HEADCOUNT) {
+      return { error: `${line}: headcount must be a whole number from 1 to ${MAX_HEADCOUNT}` };
+    }
+
+    const hours = asNumber(entry.hours) ?? STANDARD_DAY_HOURS;
+    if (hours <= 0 || hours > 24) return { error: `${line}: hours must be more than 0 and at most 24` };
+
+    const dayRate = asNumber(entry.dayRate);
+    if (dayRate !== null && dayRate < 0) return { error: `${line}: day rate can't be negative` };
+
+    const phase = entry.phase === undefined || entry.phase === '' ? 'construction' : asPhase(entry.phase);
+    if (!phase) return { error: `${line}: invalid phase` };
+
+    entries.push({
+      _id: typeof entry._id === 'string' && ObjectId.isValid(entry._id) ? new ObjectId(entry._id) : new ObjectId(),
+      contractor: contractor || workerName,
+      workerName: workerName || undefined,
+      trade: asText(entry.trade) || undefined,
+      headcount,
+      hours: round(hours),
+      dayRate: dayRate === null ? undefined : round(dayRate),
+      phase,
+      notes: asText(entry.notes) || undefined
+    });
+  }
+
+  return { entries };
+}
+
+// The directory rate that reads as a day rate, e.g. "Day rate" or "Labour (per day)"
+const findDayRate = (rates: ContractorRate[] = []): number | undefined =>
+  rates.find(rate => /\bday\b/i.test(rate.description) || /\bday\b/i.test(rate.unit || ''))?.amount;
+
+/**
+ * Link contractor names to the directory, and take the day rate from the
+ * contractor's directory rates where the log doesn't give one. The rate is
+ * stored on the line so later rate changes don't rewrite past costs.
+ */
+export async function linkLaborEntries(db: Db, entries: LaborEntryDocument[]): Promise<LaborEntryDocument[]> {
+  if (entries.length === 0) return entries;
+
+  const directory = await loadContractorDirectory(db, 'contractor');
+  const linked = entries.map(entry => {
+    const { name, id } = linkDirectoryName(entry.contractor, directory);
+    return { ...entry, contractor: name, contractorId: id };
+  });
+
+  const unpriced = Array.from(new Set(
+    linked.filter(entry => entry.dayRate === undefined && entry.contractorId).map(entry => entry.contractorId!.toString())
+  ));
+  if (unpriced.length === 0) return linked;
+
+  const contractors = await db.collection(CONTRACTORS_COLLECTION)
+    .find({ _id: { $in: unpriced.map(id => new ObjectId(id)) } }, { projection: { rates: 1 } })
+    .toArray();
+  const dayRates = new Map(contractors.map(contractor => [contractor._id.toString(), findDayRate(contractor.rates)]));
+
+  return linked.map(entry => entry.dayRate === undefined && entry.contractorId
+    ? { ...entry, dayRate: dayRates.get(entry.contractorId.toString()) }
+    : entry
+  );
+}
+
+export function parseLaborPlan(body: unknown): { plan: LaborPlanEntry[] } | { error: string } {
+  const input = Array.isArray(body) ? body : [];
+  const plan: LaborPlanEntry[] = [];
+
+  for (const raw of input) {
+    const entry = (raw ?? {}) as Record<string, unknown>;
+    const phase = asPhase(entry.phase);
+    if (!phase) return { error: 'Invalid phase' };
+    if (plan.some(item => item.phase === phase)) return { error: 'Each phase can only be planned once' };
+
+    const plannedWorkerDays = asNumber(entry.plannedWorkerDays);
+    const plannedCrew = asNumber(entry.plannedCrew);
+    if (plannedWorkerDays === null && plannedCrew === null) continue;
+    if ((plannedWorkerDays ?? 0) < 0 || (plannedCrew ?? 0) < 0) return { error: 'Planned manpower can\'t be negative' };
+
+    plan.push({
+      phase,
+      plannedWorkerDays: round(plannedWorkerDays ?? 0, 1),
+      plannedCrew: plannedCrew === null ? undefined : round(plannedCrew, 1)
+    });
+  }
+
+  return { plan };
+}
+
+export function laborEntryHours(entry: Pick<LaborEntryDocument, 'headcount' | 'hours'>): number {
+  return round(entry.headcount * entry.hours);
+}
+
+// Lines without a day rate add nothing to the cost
+export function laborEntryCost(entry: Pick<LaborEntryDocument, 'headcount' | 'hours' | 'dayRate'>): number {
+  return entry.dayRate ? round(entry.headcount * entry.dayRate * (entry.hours / STANDARD_DAY_HOURS)) : 0;
+}
+
+/**
+ * The Monday of the week a date falls in, as YYYY-MM-DD
+ */
+export function laborWeekStart(date: Date | string): string {
+  const day = new Date(`${dateKey(date)}T00:00:00.000Z`);
+  day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  return dateKey(day);
+}
+
+// Labor cost only means something once a project has a cost budget
+export async function projectTracksCosts(db: Db, projectId: ObjectId): Promise<boolean> {
+  return (await db.collection(BUDGET_LINES_COLLECTION).countDocuments({ projectId }, { limit: 1 })) > 0;
+}
+
+type Tally = { hours: number; workerDays: number; cost: number };
+
+const addTo = (tally: Tally, entry: LaborEntryDocument): void => {
+  tally.hours += laborEntryHours(entry);
+  tally.workerDays += entry.headcount;
+  tally.cost += laborEntryCost(entry);
+};
+
+const weeksOf = (weeks: Map<string, Tally>, tracksCosts: boolean): LaborWeek[] =>
+  Array.from(weeks.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([weekStart, tally]) => ({
+      weekStart,
+      hours: round(tally.hours),
+      workerDays: tally.workerDays,
+      cost: tracksCosts ? round(tally.cost) : undefined
+    }));
+
+const tallyWeek = (weeks: Map<string, Tally>, weekStart: string, entry: LaborEntryDocument): void => {
+  const tally = weeks.get(weekStart) || { hours: 0, workerDays: 0, cost: 0 };
+  addTo(tally, entry);
+  weeks.set(weekStart, tally);
+};
+
+/**
+ * Roll daily labor logs up by week, by contractor and by phase. Headcount is
+ * counted in worker-days: each worker on site on a given day is one.
+ */
+export function summarizeLabor(
+  logs: Array<Pick<LaborLogRecord, 'date' | 'labor'>>,
+  plan: LaborPlanEntry[],
+  tracksCosts: boolean
+): LaborSummary {
+  const totals: Tally = { hours: 0, workerDays: 0, cost: 0 };
+  const weeks = new Map<string, Tally>();
+  const contractors = new Map<string, { contractor: string; contractorId?: string; tally: Tally; weeks: Map<string, Tally> }>();
+  const phaseCrews = new Map<ActivityPhase, Map<string, number>>(); // phase -> day -> workers
+  let daysLogged = 0;
+
+  for (const log of logs) {
+    const entries = log.labor || [];
+    if (entries.length === 0) continue;
+    daysLogged++;
+    const day = dateKey(log.date);
+    const weekStart = laborWeekStart(log.date);
+
+    for (const entry of entries) {
+      addTo(totals, entry);
+      tallyWeek(weeks, weekStart, entry);
+
+      const key = entry.contractorId?.toString() || `name:${entry.contractor.toLowerCase()}`;
+      const contractor = contractors.get(key) || {
+        contractor: entry.contractor,
+        contractorId: entry.contractorId?.toString(),
+        tally: { hours: 0, workerDays: 0, cost: 0 },
+        weeks: new Map<string, Tally>()
+      };
+      addTo(contractor.tally, entry);
+      tallyWeek(contractor.weeks, weekStart, entry);
+      contractors.set(key, contractor);
+
+      const crews = phaseCrews.get(entry.phase) || new Map<string, number>();
+      crews.set(day, (crews.get(day) || 0) + entry.headcount);
+      phaseCrews.set(entry.phase, crews);
+    }
+  }
+
+  const phases: PhaseManpower[] = PHASE_ORDER
+    .filter(phase => phaseCrews.has(phase) || plan.some(item => item.phase === phase))
+    .map(phase => {
+      const crews = Array.from(phaseCrews.get(phase)?.values() || []);
+      const planned = plan.find(item => item.phase === phase);
+      const actualWorkerDays = crews.reduce((total, crew) => total + crew, 0);
+      return {
+        phase,
+        plannedWorkerDays: planned?.plannedWorkerDays,
+        plannedCrew: planned?.plannedCrew,
+        actualWorkerDays,
+        daysLogged: crews.length,
+        averageCrew: crews.length > 0 ? round(actualWorkerDays / crews.length, 1) : 0,
+        peakCrew: crews.length > 0 ? Math.max(...crews) : 0,
+        variance: planned ? round(actualWorkerDays - planned.plannedWorkerDays, 1) : undefined
+      };
+    });
+
+  return {
+    tracksCosts,
+    totals: {
+      hours: round(totals.hours),
+      workerDays: totals.workerDays,
+      daysLogged,
+      cost: tracksCosts ? round(totals.cost) : undefined
+    },
+    weeks: weeksOf(weeks, tracksCosts),
+    contractors: Array.from(contractors.values())
+      .map((item): ContractorLabor => ({
+        contractor: item.contractor,
+        contractorId: item.contractorId,
+        hours: round(item.tally.hours),
+        workerDays: item.tally.workerDays,
+        cost: tracksCosts ? round(item.tally.cost) : undefined,
+        weeks: weeksOf(item.weeks, tracksCosts)
+      }))
+      .sort((a, b) => b.hours - a.hours),
+    phases,
+    plan
+  };
+}
+
+export async function loadLaborSummary(
+  db: Db,
+  project: LaborProject,
+  range: { from?: Date; to?: Date } = {}
+): Promise<LaborSummary> {
+  const date: { $gte?: Date; $lte?: Date } = {};
+  if (range.from) date.$gte = range.from;
+  if (range.to) date.$lte = range.to;
+
+  const [logs, tracksCosts] = await Promise.all([
+    db.collection<LaborLogRecord>(DAILY_LOGS_COLLECTION)
+      .find(
+        { project: project._id, 'labor.0': { $exists: true }, ...(range.from || range.to ? { date } : {}) },
+        { projection: { date: 1, labor: 1 } }
+      )
+      .sort({ date: 1 })
+      .toArray(),
+    projectTracksCosts(db, project._id)
+  ]);
+
+  return summarizeLabor(logs, project.laborPlan || [], tracksCosts);
+}
+
+/**
+ * One day's labor log, with the most recent earlier log so a site officer can
+ * start from yesterday's crew
+ */
+export async function loadLaborDay(db: Db, project: LaborProject, date: Date): Promise<LaborDay> {
+  const logs = db.collection<LaborLogRecord>(DAILY_LOGS_COLLECTION);
+  const [log, previous, tracksCosts] = await Promise.all([
+    logs.findOne({ project: project._id, date }, { projection: { labor: 1 } }),
+    logs.findOne(
+      { project: project._id, date: { $lt: date }, 'labor.0': { $exists: true } },
+      { projection: { date: 1, labor: 1 }, sort: { date: -1 } }
+    ),
+    projectTracksCosts(db, project._id)
+  ]);
+
+  const entries = log?.labor || [];
+  return {
+    logId: log?._id.toString(),
+    date: dateKey(date),
+    entries: entries.map(transformLaborEntry),
+    crewSize: entries.reduce((total, entry) => total + entry.headcount, 0),
+    hours: round(entries.reduce((total, entry) => total + laborEntryHours(entry), 0)),
+    cost: tracksCosts ? round(entries.reduce((total, entry) => total + laborEntryCost(entry), 0)) : undefined,
+    previous: previous
+      ? { date: dateKey(previous.date), entries: (previous.labor || []).map(transformLaborEntry) }
+      : undefined
+  };
+}
+
+/**
+ * The fields a daily log starts with when something other than an activity
+ * (labor, site conditions) is the first thing recorded for the day
+ */
+export function emptyDailyLogFields(now: Date) {
+  return {
+    activities: [],
+    'summary.totalActivities': 0,
+    'summary.completed': 0,
+    'summary.inProgress': 0,
+    'summary.pending': 0,
+    'summary.delayed': 0,
+    'summary.onHold': 0,
+    'summary.toDo': 0,
+    approved: false,
+    createdAt: now
+  };
+}
+
+/**
+ * Replace a day's labor log, creating the daily log if nothing was recorded
+ * that day yet. The day's crew size follows the log.
+ */
+export async function saveLaborDay(
+  db: Db,
+  projectId: ObjectId,
+  date: Date,
+  entries: LaborEntryDocument[],
+  userId: string
+): Promise<LaborLogRecord> {
+  const now = new Date();
+  const saved = await db.collection<LaborLogRecord>(DAILY_LOGS_COLLECTION).findOneAndUpdate(
+    { project: projectId, date },
+    {
+      $set: {
+        labor: entries,
+        'summary.crewSize': entries.reduce((total, entry) => total + entry.headcount, 0),
+        laborUpdatedBy: new ObjectId(userId),
+        laborUpdatedAt: now,
+        updatedAt: now
+      },
+      $setOnInsert: emptyDailyLogFields(now)
+    },
+    { upsert: true, returnDocument: 'after' }
+  );
+  return saved!;
+}
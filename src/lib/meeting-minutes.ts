@@ -0,0 +1,382 @@
+// src/lib/meeting-minutes.ts - Meeting minutes and site-visit records
+// A calendar event can carry one record of what happened: who attended, the
+// agenda, notes, decisions and action items. Every action item is tracked as
+// a project task for its owner, and the minutes can be emailed to attendees.
+import { Db, ObjectId } from 'mongodb';
+import { format } from 'date-fns';
+import { getProjectRelation, relationHasPermission, ProjectAccessRecord, ProjectAccessUser } from '@/lib/project-access';
+import {
+  MEETING_RECORD_KIND_LABELS,
+  MEETING_RECORD_KINDS,
+  transformMeetingMinutes,
+  MeetingActionItemDocument,
+  MeetingMinutesDocument,
+  MeetingMinutesView,
+  MeetingPerson,
+  MeetingRecordKind
+} from '@/lib/types/meeting-minutes';
+
+export const MEETING_MINUTES_COLLECTION = 'meeting_minutes';
+
+const MAX_LIST_ITEMS = 50;
+const MAX_ACTION_ITEMS = 50;
+// Action items become task titles, which are capped at 100 characters
+const MAX_ACTION_LENGTH = 100;
+const MAX_NOTES_LENGTH = 10000;
+
+export interface MinutesEvent {
+  _id: ObjectId;
+  title: string;
+  type: string;
+  startDate: Date;
+  endDate: Date;
+  location?: string;
+  projectId?: ObjectId;
+  createdBy: ObjectId;
+  attendees: ObjectId[];
+}
+
+export interface MinutesProject extends ProjectAccessRecord {
+  title: string;
+}
+
+// The task each action item is tracked as, in the `tasks` collection
+interface ActionTaskRecord {
+  _id?: ObjectId;
+  title: string;
+  description: string;
+  projectId: ObjectId;
+  assignedTo?: ObjectId;
+  createdBy: ObjectId;
+  status: 'pending' | 'in_progress' | 'completed' | 'blocked';
+  priority: 'low' | 'medium' | 'high' | 'urgent';
+  deadline?: Date;
+  progress: number;
+  dependencies: ObjectId[];
+  tags: string[];
+  attachments: [];
+  comments: [];
+  meetingEventId: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export type MinutesEventAccess =
+  | { ok: true; event: MinutesEvent; project: MinutesProject | null; canEdit: boolean }
+  | { ok: false; status: 400 | 404; error: string };
+
+export type MeetingMinutesInput = Pick<MeetingMinutesDocument, 'kind' | 'attendees' | 'agenda' | 'notes' | 'decisions' | 'actionItems'>;
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const asDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string') return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// Agenda items and decisions arrive one per line or as an array
+const asLines = (value: unknown): string[] => {
+  const lines = Array.isArray(value) ? value : typeof value === 'string' ? value.split('\n') : [];
+  return lines.map(asText).filter(Boolean);
+};
+
+/**
+ * Load a calendar event and decide what the user may do with its minutes.
+ * The organiser and attendees can always see them, as can anyone on the
+ * event's project; clients can read but never record them. Users who can't
+ * see the event get the same 404 as a missing one.
+ */
+export async function loadMinutesEvent(db: Db, eventId: string, user: ProjectAccessUser): Promise<MinutesEventAccess> {
+  if (!ObjectId.isValid(eventId)) {
+    return { ok: false, status: 400, error: 'Invalid event ID' };
+  }
+
+  const event = await db.collection<MinutesEvent>('calendar_events').findOne({ _id: new ObjectId(eventId) });
+  if (!event) {
+    return { ok: false, status: 404, error: 'Event not found' };
+  }
+
+  const project = event.projectId
+    ? await db.collection<MinutesProject>('projects').findOne(
+        { _id: event.projectId },
+        { projection: { title: 1, client: 1, managers: 1 } }
+      )
+    : null;
+
+  const userId = ObjectId.isValid(user.id) ? new ObjectId(user.id) : null;
+  const involved = !!userId && (event.createdBy.equals(userId) || event.attendees.some(attendee => attendee.equals(userId)));
+  const relation = getProjectRelation(project || {}, user);
+
+  if (!involved && !relationHasPermission(relation, 'view_meeting_minutes')) {
+    return { ok: false, status: 404, error: 'Event not found' };
+  }
+
+  return {
+    ok: true,
+    event,
+    project,
+    canEdit: user.role !== 'client' && (involved || relationHasPermission(relation, 'record_meeting_minutes'))
+  };
+}
+
+/**
+ * The event's attendees and organiser, who can be marked present and own
+ * action items
+ */
+export async function loadMeetingPeople(db: Db, event: MinutesEvent): Promise<Array<MeetingPerson & { email: string }>> {
+  const ids = [...event.attendees, event.createdBy];
+  const users = await db.collection<{ _id: ObjectId; name: string; email: string; role: string }>('users')
+    .find({ _id: { $in: ids } }, { projection: { name: 1, email: 1, role: 1 } })
+    .toArray();
+
+  // Attendees first, in the order they were invited
+  return ids
+    .map(id => users.find(user => user._id.equals(id)))
+    .filter((user, index, list): user is NonNullable<typeof user> =>
+      !!user && list.findIndex(other => other?._id.equals(user._id)) === index)
+    .map(user => ({ _id: user._id.toString(), name: user.name, email: user.email, role: user.role }));
+}
+
+/**
+ * Validate the minutes. Attendance covers the event's invited attendees
+ * (`present` lists who turned up); action items need an owner from the
+ * meeting and a due date, and keep the task they were already tracked as.
+ */
+export function parseMeetingMinutes(
+  body: unknown,
+  event: MinutesEvent,
+  people: MeetingPerson[],
+  previous: MeetingActionItemDocument[] = []
+): { minutes: MeetingMinutesInput } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  const kind = MEETING_RECORD_KINDS.find(item => item === input.kind) as MeetingRecordKind | undefined;
+  if (!kind) return { error: 'Choose whether this is a meeting or a site visit' };
+
+  const present = new Set(Array.isArray(input.present) ? input.present.filter(id => typeof id === 'string') : []);
+  const attendees = event.attendees.flatMap(id => {
+    const person = people.find(item => item._id === id.toString());
+    return person ? [{ userId: id, name: person.name, present: present.has(person._id) }] : [];
+  });
+
+  const agenda = asLines(input.agenda);
+  const decisions = asLines(input.decisions);
+  if (agenda.length > MAX_LIST_ITEMS || decisions.length > MAX_LIST_ITEMS) {
+    return { error: `Agenda and decisions can hold at most ${MAX_LIST_ITEMS} items each` };
+  }
+
+  const notes = asText(input.notes);
+  if (notes.length > MAX_NOTES_LENGTH) return { error: `Notes must be less than ${MAX_NOTES_LENGTH} characters` };
+
+  const rawItems = Array.isArray(input.actionItems) ? input.actionItems : [];
+  if (rawItems.length > MAX_ACTION_ITEMS) return { error: `Minutes can hold at most ${MAX_ACTION_ITEMS} action items` };
+  if (rawItems.length > 0 && !event.projectId) {
+    return { error: 'Link the event to a project before adding action items; they are tracked as project tasks' };
+  }
+
+  const actionItems: MeetingActionItemDocument[] = [];
+  for (const [index, raw] of rawItems.entries()) {
+    const entry = (raw ?? {}) as Record<string, unknown>;
+    const line = `Action item ${index + 1}`;
+
+    const description = asText(entry.description);
+    if (!description) return { error: `${line}: describe the action` };
+    if (description.length > MAX_ACTION_LENGTH) return { error: `${line}: keep it under ${MAX_ACTION_LENGTH} characters` };
+
+    const owner = people.find(person => person._id === entry.ownerId);
+    if (!owner) return { error: `${line}: choose an owner from the meeting's attendees` };
+
+    const dueDate = asDate(entry.dueDate);
+    if (!dueDate) return { error: `${line}: a due date is required` };
+
+    const earlier = typeof entry._id === 'string' && ObjectId.isValid(entry._id)
+      ? previous.find(item => item._id.equals(entry._id as string))
+      : undefined;
+    actionItems.push({
+      _id: earlier?._id || new ObjectId(),
+      description,
+      ownerId: new ObjectId(owner._id),
+      ownerName: owner.name,
+      dueDate,
+      taskId: earlier?.taskId
+    });
+  }
+
+  return { minutes: { kind, attendees, agenda, notes, decisions, actionItems } };
+}
+
+/**
+ * Create a task for each new action item and carry edits to the owner, due
+ * date or wording over to tasks already created. Tasks for action items
+ * dropped from the minutes are left alone, since work may have started.
+ */
+export async function syncActionItemTasks(
+  db: Db,
+  event: MinutesEvent,
+  items: MeetingActionItemDocument[],
+  previous: MeetingActionItemDocument[],
+  createdBy: ObjectId
+): Promise<MeetingActionItemDocument[]> {
+  const tasks = db.collection<ActionTaskRecord>('tasks');
+  const now = new Date();
+  const source = `Action item from "${event.title}" on ${format(event.startDate, 'MMM d, yyyy')}`;
+
+  const synced: MeetingActionItemDocument[] = [];
+  for (const item of items) {
+    if (!item.taskId) {
+      const result = await tasks.insertOne({
+        title: item.description,
+        description: source,
+        projectId: event.projectId!,
+        assignedTo: item.ownerId,
+        createdBy,
+        status: 'pending',
+        priority: 'medium',
+        deadline: item.dueDate,
+        progress: 0,
+        dependencies: [],
+        tags: ['meeting-action'],
+        attachments: [],
+        comments: [],
+        meetingEventId: event._id,
+        createdAt: now,
+        updatedAt: now
+      });
+      synced.push({ ...item, taskId: result.insertedId });
+      continue;
+    }
+
+    const earlier = previous.find(entry => entry._id.equals(item._id));
+    if (earlier && (
+      earlier.description !== item.description ||
+      !earlier.ownerId.equals(item.ownerId) ||
+      earlier.dueDate.getTime() !== item.dueDate.getTime()
+    )) {
+      await tasks.updateOne(
+        { _id: item.taskId },
+        { $set: { title: item.description, assignedTo: item.ownerId, deadline: item.dueDate, updatedAt: now } }
+      );
+    }
+    synced.push(item);
+  }
+
+  return synced;
+}
+
+export async function loadMinutesView(
+  db: Db,
+  access: Extract<MinutesEventAccess, { ok: true }>
+): Promise<MeetingMinutesView> {
+  const { event, project, canEdit } = access;
+  const [people, minutes] = await Promise.all([
+    loadMeetingPeople(db, event),
+    db.collection<MeetingMinutesDocument>(MEETING_MINUTES_COLLECTION).findOne({ eventId: event._id })
+  ]);
+
+  const taskIds = (minutes?.actionItems || []).flatMap(item => item.taskId ? [item.taskId] : []);
+  const tasks = taskIds.length > 0
+    ? await db.collection<{ _id: ObjectId; status: string }>('tasks')
+        .find({ _id: { $in: taskIds } }, { projection: { status: 1 } })
+        .toArray()
+    : [];
+
+  return {
+    event: {
+      _id: event._id.toString(),
+      title: event.title,
+      type: event.type,
+      startDate: event.startDate.toISOString(),
+      endDate: event.endDate.toISOString(),
+      location: event.location,
+      projectId: event.projectId?.toString(),
+      projectTitle: project?.title
+    },
+    // Clients only need names, not colleagues' email addresses
+    people: people.map(({ email, ...person }) => canEdit ? { ...person, email } : person),
+    minutes: minutes ? transformMeetingMinutes(minutes, new Map(tasks.map(task => [task._id.toString(), task.status]))) : null,
+    canEdit
+  };
+}
+
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+/**
+ * The minutes as an email for attendees
+ */
+export function buildMinutesEmail(
+  event: MinutesEvent,
+  project: MinutesProject | null,
+  minutes: MeetingMinutesDocument
+): { subject: string; html: string; text: string } {
+  const heading = MEETING_RECORD_KIND_LABELS[minutes.kind];
+  const when = format(event.startDate, 'EEEE, MMM d, yyyy');
+  const present = minutes.attendees.filter(attendee => attendee.present).map(attendee => attendee.name);
+  const absent = minutes.attendees.filter(attendee => !attendee.present).map(attendee => attendee.name);
+  const actions = minutes.actionItems.map(item =>
+    `${item.description} (${item.ownerName || 'Unassigned'}, due ${format(item.dueDate, 'MMM d, yyyy')})`);
+
+  const sections: Array<{ title: string; items: string[] }> = [
+    { title: 'Present', items: present },
+    { title: 'Apologies', items: absent },
+    { title: 'Agenda', items: minutes.agenda },
+    { title: 'Decisions', items: minutes.decisions },
+    { title: 'Action Items', items: actions }
+  ].filter(section => section.items.length > 0);
+
+  const htmlSections = sections.map(section => `
+              <h3>${section.title}</h3>
+              <ul>${section.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`).join('');
+  const htmlNotes = minutes.notes
+    ? `
+              <h3>Notes</h3>
+              <p style="white-space: pre-wrap;">${escapeHtml(minutes.notes)}</p>`
+    : '';
+
+  const html = `
+        <!DOCTYPE html>
+        <html>
+        <head>
+          <style>
+            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+            .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+            .header { background: #2563eb; color: white; padding: 20px; text-align: center; border-radius: 8px 8px 0 0; }
+            .content { background: #f9fafb; padding: 30px; border-radius: 0 0 8px 8px; }
+            .footer { text-align: center; margin-top: 30px; padding-top: 20px; border-top: 1px solid #e5e7eb; color: #6b7280; font-size: 14px; }
+          </style>
+        </head>
+        <body>
+          <div class="container">
+            <div class="header">
+              <h1>${heading}</h1>
+            </div>
+            <div class="content">
+              <h2>${escapeHtml(event.title)}</h2>
+              <p>${when}${event.location ? ` · ${escapeHtml(event.location)}` : ''}${project ? `<br>${escapeHtml(project.title)}` : ''}</p>${htmlSections}${htmlNotes}
+            </div>
+            <div class="footer">
+              <p>These minutes are also on the project calendar in OliveHaus PPMA.</p>
+              <p>© ${new Date().getFullYear()} OliveHaus PPMA. All rights reserved.</p>
+            </div>
+          </div>
+        </body>
+        </html>
+      `;
+
+  const text = [
+    `${heading}: ${event.title}`,
+    `${when}${event.location ? ` · ${event.location}` : ''}${project ? ` · ${project.title}` : ''}`,
+    ...sections.map(section => `\n${section.title}\n${section.items.map(item => `- ${item}`).join('\n')}`),
+    ...(minutes.notes ? [`\nNotes\n${minutes.notes}`] : [])
+  ].join('\n');
+
+  return {
+    subject: `${heading}: ${event.title} (${format(event.startDate, 'MMM d, yyyy')})`,
+    html,
+    text
+  };
+}
@@ -0,0 +1,142 @@
+// src/lib/messages.ts - Editing, deleting and reading direct messages
+// A sender may edit or delete a message for a short while after sending it.
+// Deleting keeps the document as a "message deleted" placeholder with its
+// content cleared. Both participants' open clients are told about every change
+// through their user_<id> socket rooms.
+import { Db, ObjectId } from 'mongodb';
+import { emitToUsers } from '@/lib/realtime';
+import {
+  DirectMessageUpdate,
+  DirectMessagesRead,
+  MESSAGE_EDIT_WINDOW_MINUTES,
+  isWithinEditWindow
+} from '@/lib/types/message';
+
+export const MAX_MESSAGE_LENGTH = 4000;
+
+export type MessageChangeError = { error: string; status: 400 | 403 | 404 };
+
+interface DirectMessageRecord {
+  _id: ObjectId;
+  senderId: ObjectId;
+  recipientId: ObjectId | null;
+  content: string;
+  isDeleted: boolean;
+  editedAt?: Date;
+  deletedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * The trimmed content of a new or edited message
+ */
+export function parseMessageContent(body: unknown): { content: string } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const content = typeof input.content === 'string' ? input.content.trim() : '';
+  if (!content) return { error: 'Message content is required' };
+  if (content.length > MAX_MESSAGE_LENGTH) {
+    return { error: `Messages can be at most ${MAX_MESSAGE_LENGTH} characters` };
+  }
+  return { content };
+}
+
+/**
+ * Why the user may not edit or delete the message, or null when they may
+ */
+export function checkMessageChange(
+  message: { senderId: ObjectId; isDeleted: boolean; createdAt: Date } | null,
+  userId: string,
+  action: 'edit' | 'delete'
+): MessageChangeError | null {
+  if (!message || message.isDeleted) return { error: 'Message not found', status: 404 };
+  if (message.senderId.toString() !== userId) {
+    return { error: `You can only ${action} your own messages`, status: 403 };
+  }
+  if (!isWithinEditWindow(message.createdAt)) {
+    return {
+      error: `Messages can only be ${action === 'edit' ? 'edited' : 'deleted'} within ${MESSAGE_EDIT_WINDOW_MINUTES} minutes of sending`,
+      status: 403
+    };
+  }
+  return null;
+}
+
+function toUpdate(message: DirectMessageRecord): DirectMessageUpdate {
+  return {
+    _id: message._id.toString(),
+    content: message.isDeleted ? '' : message.content,
+    editedAt: message.editedAt?.toISOString(),
+    isDeleted: message.isDeleted
+  };
+}
+
+function participants(message: DirectMessageRecord): string[] {
+  return [message.senderId, ...(message.recipientId ? [message.recipientId] : [])].map(id => id.toString());
+}
+
+async function findDirectMessage(db: Db, messageId: string): Promise<DirectMessageRecord | null> {
+  if (!ObjectId.isValid(messageId)) return null;
+  // Channel messages have a null recipient and are changed through their project
+  return db.collection<DirectMessageRecord>('messages').findOne({
+    _id: new ObjectId(messageId),
+    recipientId: { $ne: null }
+  });
+}
+
+export async function editDirectMessage(
+  db: Db,
+  messageId: string,
+  userId: string,
+  body: unknown
+): Promise<{ message: DirectMessageUpdate } | MessageChangeError> {
+  const existing = await findDirectMessage(db, messageId);
+  const denied = checkMessageChange(existing, userId, 'edit');
+  if (denied) return denied;
+
+  const parsed = parseMessageContent(body);
+  if ('error' in parsed) return { error: parsed.error, status: 400 };
+  if (parsed.content === existing!.content) return { message: toUpdate(existing!) };
+
+  const now = new Date();
+  const saved = await db.collection<DirectMessageRecord>('messages').findOneAndUpdate(
+    { _id: existing!._id, isDeleted: false },
+    { $set: { content: parsed.content, editedAt: now, updatedAt: now } },
+    { returnDocument: 'after' }
+  );
+  if (!saved) return { error: 'Message not found', status: 404 };
+
+  const message = toUpdate(saved);
+  emitToUsers(participants(saved), 'message_updated', message);
+  return { message };
+}
+
+export async function deleteDirectMessage(
+  db: Db,
+  messageId: string,
+  userId: string
+): Promise<{ message: DirectMessageUpdate } | MessageChangeError> {
+  const existing = await findDirectMessage(db, messageId);
+  const denied = checkMessageChange(existing, userId, 'delete');
+  if (denied) return denied;
+
+  const now = new Date();
+  const saved = await db.collection<DirectMessageRecord>('messages').findOneAndUpdate(
+    { _id: existing!._id, isDeleted: false },
+    { $set: { content: '', isDeleted: true, deletedAt: now, updatedAt: now } },
+    { returnDocument: 'after' }
+  );
+  if (!saved) return { error: 'Message not found', status: 404 };
+
+  const message = toUpdate(saved);
+  emitToUsers(participants(saved), 'message_updated', message);
+  return { message };
+}
+
+/**
+ * Tell a participant that the reader has now seen their messages
+ */
+export function broadcastDirectMessagesRead(senderId: string, readerId: string, readAt: Date): void {
+  const payload: DirectMessagesRead = { readerId, readAt: readAt.toISOString() };
+  emitToUsers([senderId], 'messages_read', payload);
+}
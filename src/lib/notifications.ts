@@ -0,0 +1,120 @@
+// src/lib/notifications.ts - Notification dispatcher
+// Every notification is raised through dispatchNotifications, which applies
+// each recipient's routing matrix from their settings: the notification is
+// stored (and shown in-app unless they routed that type elsewhere), emailed
+// and pushed as they chose, held back until their quiet hours end, or kept
+// for their next digest email.
+import { Db, ObjectId } from 'mongodb';
+import { sendNotificationEmail } from '@/lib/email';
+import { deliverPushNotifications, PushNotificationRecord } from '@/lib/push';
+import { DEFAULT_USER_PREFERENCES, loadUserPreferences, quietHoursEnd, UserPreferences } from '@/lib/user-preferences';
+import { NOTIFICATION_TYPES, NotificationRoute, NotificationType } from '@/lib/types/notification-routing';
+
+export const NOTIFICATIONS_COLLECTION = 'notifications';
+
+type DeliveryChannel = 'email' | 'push';
+
+// Types outside the matrix (older or ad-hoc ones) are shown and pushed, not emailed
+const UNLISTED_TYPE_ROUTE: NotificationRoute = { inApp: true, email: false, push: true, digestOnly: false };
+
+// Routing fields the dispatcher adds to each stored notification
+interface RoutedFields {
+  inApp: boolean;
+  digestOnly?: boolean;
+  heldChannels?: DeliveryChannel[];
+  deliverAfter?: Date;
+}
+
+type StoredNotification = PushNotificationRecord & RoutedFields & { _id: ObjectId };
+
+function routeFor(preferences: UserPreferences, type: string): NotificationRoute {
+  return NOTIFICATION_TYPES.includes(type as NotificationType)
+    ? preferences.notificationRouting[type as NotificationType]
+    : UNLISTED_TYPE_ROUTE;
+}
+
+function emailNotification(notification: PushNotificationRecord): Promise<boolean> {
+  const url = notification.data?.url;
+  return sendNotificationEmail({
+    recipientId: notification.recipientId.toString(),
+    type: 'general',
+    data: {
+      subject: notification.title,
+      message: notification.message,
+      ...(url ? { actionUrl: `${process.env.NEXTAUTH_URL || ''}${url}` } : {})
+    }
+  });
+}
+
+// Email and push never throw, so delivery can run unawaited
+async function deliver(db: Db, emails: PushNotificationRecord[], pushes: PushNotificationRecord[]): Promise<void> {
+  await Promise.all([
+    deliverPushNotifications(db, pushes),
+    ...emails.map(emailNotification)
+  ]);
+}
+
+/**
+ * Store notifications and deliver them on the channels each recipient chose.
+ * Email and push go out in the background so they never hold up the request
+ * that raised them. Urgent notifications ignore quiet hours.
+ */
+export async function dispatchNotifications<T extends PushNotificationRecord>(db: Db, notifications: T[]): Promise<ObjectId[]> {
+  if (notifications.length === 0) return [];
+
+  const now = new Date();
+  const recipientIds = Array.from(new Set(notifications.map(item => item.recipientId.toString())))
+    .map(id => new ObjectId(id));
+  const preferences = await loadUserPreferences(db, recipientIds);
+
+  const routed = notifications.map((notification): { document: T & RoutedFields; channels: DeliveryChannel[] } => {
+    const userPreferences = preferences.get(notification.recipientId.toString()) || DEFAULT_USER_PREFERENCES;
+    const route = routeFor(userPreferences, notification.type);
+
+    if (route.digestOnly) {
+      return { document: { ...notification, inApp: false, digestOnly: true }, channels: [] };
+    }
+
+    const channels = (['email', 'push'] as DeliveryChannel[]).filter(channel => route[channel]);
+    const heldUntil = channels.length > 0 && notification.priority !== 'urgent'
+      ? quietHoursEnd(userPreferences, now)
+      : null;
+
+    return heldUntil
+      ? { document: { ...notification, inApp: route.inApp, heldChannels: channels, deliverAfter: heldUntil }, channels: [] }
+      : { document: { ...notification, inApp: route.inApp }, channels };
+  });
+
+  const result = await db.collection(NOTIFICATIONS_COLLECTION).insertMany(routed.map(item => item.document));
+  const ids = notifications.map((_, index) => result.insertedIds[index]);
+  const stored = routed.map((item, index) => ({ ...item, notification: { ...item.document, _id: ids[index] } }));
+
+  void deliver(
+    db,
+    stored.filter(item => item.channels.includes('email')).map(item => item.notification),
+    stored.filter(item => item.channels.includes('push')).map(item => item.notification)
+  );
+  return ids;
+}
+
+/**
+ * Send the email and push held back during recipients' quiet hours, once
+ * those hours are over. Run by the held_notifications scheduled job.
+ */
+export async function deliverHeldNotifications(db: Db, now: Date): Promise<string> {
+  const collection = db.collection<StoredNotification>(NOTIFICATIONS_COLLECTION);
+  const held = await collection.find({ deliverAfter: { $lte: now }, 'heldChannels.0': { $exists: true } }).toArray();
+  if (held.length === 0) return 'Nothing held';
+
+  // Released before sending, so a run that dies halfway never sends twice
+  await collection.updateMany(
+    { _id: { $in: held.map(item => item._id) } },
+    { $unset: { heldChannels: '', deliverAfter: '' } }
+  );
+
+  const emails = held.filter(item => item.heldChannels?.includes('email'));
+  const pushes = held.filter(item => item.heldChannels?.includes('push'));
+  await deliver(db, emails, pushes);
+
+  return `Released ${held.length} held notification${held.length === 1 ? '' : 's'} (${emails.length} email, ${pushes.length} push)`;
+}
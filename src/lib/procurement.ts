@@ -0,0 +1,341 @@
+// src/lib/procurement.ts - FF&E and materials procurement register
+// Every item the project has to buy, from specification through client
+// approval, ordering, delivery and installation. An item can be linked to the
+// siteSchedule activity that needs it on site; when its expected delivery lands
+// after that activity starts, the project managers are warned.
+import { Db, ObjectId } from 'mongodb';
+import type { ProjectAccessRecord } from '@/lib/project-access';
+import { dispatchNotifications } from '@/lib/notifications';
+import { linkDirectoryName, loadContractorDirectory } from '@/lib/contractors';
+import type { ScheduleActivityInput, SchedulePhaseInput } from '@/lib/scheduling';
+import {
+  deliveryLateDays,
+  transformProcurementItem,
+  PROCUREMENT_CATEGORIES,
+  PROCUREMENT_STATUSES,
+  ProcurementItem,
+  ProcurementItemDocument,
+  ProcurementStatus,
+  ProcurementSummary,
+  ProjectProcurementData
+} from '@/lib/types/procurement';
+
+export const PROCUREMENT_COLLECTION = 'procurement_items';
+
+// Items that are still on their way to site
+const PENDING_DELIVERY: ProcurementStatus[] = ['specified', 'client_approved', 'ordered'];
+
+export interface ProcurementProject extends ProjectAccessRecord {
+  title: string;
+  siteSchedule?: {
+    phases?: Array<Omit<SchedulePhaseInput, 'activities'> & {
+      _id: ObjectId;
+      activities?: Array<ScheduleActivityInput & { _id: ObjectId }>;
+    }>;
+  };
+}
+
+export type ProcurementInput = Pick<
+  ProcurementItemDocument,
+  | 'name' | 'description' | 'category' | 'supplier' | 'supplierId' | 'quantity' | 'unit' | 'unitCost'
+  | 'orderDate' | 'expectedDelivery' | 'actualDelivery' | 'status'
+  | 'activityId' | 'phaseId' | 'activityTitle' | 'notes'
+>;
+
+const DATE_LABELS = {
+  orderDate: 'order date',
+  expectedDelivery: 'expected delivery date',
+  actualDelivery: 'delivery date'
+} as const;
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const asDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' && !(value instanceof Date)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+// The activity's current start; activities added through the schedule API use plannedStartDate
+const activityStartDate = (activity: ScheduleActivityInput): Date | undefined => {
+  const start = activity.startDate ?? activity.plannedStartDate;
+  if (!start) return undefined;
+  const date = new Date(start);
+  return isNaN(date.getTime()) ? undefined : date;
+};
+
+function findActivity(project: ProcurementProject, activityId: string) {
+  for (const phase of project.siteSchedule?.phases || []) {
+    const activity = phase.activities?.find(candidate => candidate._id.toString() === activityId);
+    if (activity) return { phaseId: phase._id, activity };
+  }
+  return null;
+}
+
+/**
+ * Whether staff may move an item between two statuses. Only the client moves
+ * an item to client-approved (through the approve endpoint), and nothing is
+ * ordered before they have, unless the project has no client to ask.
+ */
+export function checkProcurementStatusChange(
+  project: Pick<ProcurementProject, 'client'>,
+  from: ProcurementStatus,
+  to: ProcurementStatus
+): string | null {
+  if (from === to) return null;
+  if (to === 'client_approved') return 'Only the client can approve an item';
+  if (from === 'specified' && to !== 'specified' && project.client) {
+    return 'The client has to approve this item before it is ordered';
+  }
+  return null;
+}
+
+/**
+ * Validate an item. A linked activity must exist in the project's siteSchedule;
+ * its title is kept so the link still reads well if the activity is removed.
+ */
+export function parseProcurementInput(
+  body: unknown,
+  project: ProcurementProject
+): { item: ProcurementInput } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  const name = asText(input.name);
+  if (!name) return { error: 'Item name is required' };
+
+  const category = (asText(input.category) || 'other') as ProcurementInput['category'];
+  if (!PROCUREMENT_CATEGORIES.includes(category)) return { error: 'Invalid category' };
+
+  const status = (asText(input.status) || 'specified') as ProcurementStatus;
+  if (!PROCUREMENT_STATUSES.includes(status)) return { error: 'Invalid status' };
+
+  const quantity = Number(input.quantity ?? 1);
+  if (!Number.isFinite(quantity) || quantity <= 0) return { error: 'Quantity must be greater than zero' };
+
+  const unitCost = Number(input.unitCost ?? 0);
+  if (!Number.isFinite(unitCost) || unitCost < 0) return { error: 'Unit cost must be zero or more' };
+
+  const dates: Partial<Record<keyof typeof DATE_LABELS, Date>> = {};
+  for (const field of Object.keys(DATE_LABELS) as Array<keyof typeof DATE_LABELS>) {
+    if (!input[field]) continue;
+    const parsed = asDate(input[field]);
+    if (!parsed) return { error: `Invalid ${DATE_LABELS[field]}` };
+    dates[field] = parsed;
+  }
+
+  // Record when things happened if the status says they have
+  const reached = PROCUREMENT_STATUSES.indexOf(status);
+  if (reached >= PROCUREMENT_STATUSES.indexOf('ordered') && !dates.orderDate) dates.orderDate = new Date();
+  if (reached >= PROCUREMENT_STATUSES.indexOf('delivered') && !dates.actualDelivery) dates.actualDelivery = new Date();
+
+  let link: Pick<ProcurementInput, 'activityId' | 'phaseId' | 'activityTitle'> = {};
+  const activityId = asText(input.activityId);
+  if (activityId) {
+    const match = findActivity(project, activityId);
+    if (!match) return { error: 'The linked activity is not in this project schedule' };
+    link = { activityId: match.activity._id, phaseId: match.phaseId, activityTitle: match.activity.title };
+  }
+
+  return {
+    item: {
+      name,
+      description: asText(input.description) || undefined,
+      category,
+      supplier: asText(input.supplier) || undefined,
+      quantity,
+      unit: asText(input.unit) || undefined,
+      unitCost: Math.round(unitCost * 100) / 100,
+      ...dates,
+      status,
+      ...link,
+      notes: asText(input.notes) || undefined
+    }
+  };
+}
+
+/**
+ * Link the item's supplier to the supplier directory; a name that matches an
+ * entry is stored as the entry's name
+ */
+export async function linkProcurementSupplier(db: Db, item: ProcurementInput): Promise<ProcurementInput> {
+  if (!item.supplier) return { ...item, supplierId: undefined };
+  const { name, id } = linkDirectoryName(item.supplier, await loadContractorDirectory(db, 'supplier'));
+  return { ...item, supplier: name, supplierId: id || undefined };
+}
+
+export function summarizeProcurement(
+  items: ProjectProcurementData['items'],
+  { includeCosts }: { includeCosts: boolean }
+): ProcurementSummary {
+  const byStatus = Object.fromEntries(PROCUREMENT_STATUSES.map(status => [status, 0])) as Record<ProcurementStatus, number>;
+  items.forEach(item => { byStatus[item.status] += 1; });
+
+  return {
+    totalItems: items.length,
+    totalCost: includeCosts
+      ? Math.round(items.reduce((sum, item) => sum + (item.totalCost || 0), 0) * 100) / 100
+      : undefined,
+    byStatus,
+    awaitingApproval: byStatus.specified,
+    lateDeliveries: items.filter(item => item.deliveryLateDays).length
+  };
+}
+
+/**
+ * Client-safe item with the linked activity's current start, so lateness is
+ * always measured against today's schedule
+ */
+export function toProcurementItem(
+  doc: ProcurementItemDocument,
+  project: ProcurementProject,
+  { includeCosts }: { includeCosts: boolean }
+): ProcurementItem {
+  const match = doc.activityId ? findActivity(project, doc.activityId.toString()) : null;
+  return transformProcurementItem(doc, {
+    includeCosts,
+    activityStart: match ? activityStartDate(match.activity) : undefined
+  });
+}
+
+export async function loadProjectProcurement(
+  db: Db,
+  project: ProcurementProject,
+  { includeCosts }: { includeCosts: boolean }
+): Promise<ProjectProcurementData> {
+  const documents = await db.collection<ProcurementItemDocument>(PROCUREMENT_COLLECTION)
+    .find({ projectId: project._id })
+    .sort({ expectedDelivery: 1, createdAt: 1 })
+    .toArray();
+
+  const items = documents.map(doc => toProcurementItem(doc, project, { includeCosts }));
+
+  return { items, summary: summarizeProcurement(items, { includeCosts }) };
+}
+
+const formatDay = (date: Date): string =>
+  date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+
+/**
+ * Compare every pending item's expected delivery with the start of the
+ * activity it is linked to, and warn the project managers about each new
+ * conflict. A conflict is reported once per delivery/start pair, so it is only
+ * repeated when either date moves and the item is still late. Runs after item,
+ * schedule and change-order updates; a failure is logged, never thrown.
+ */
+export async function checkDeliveryConflicts(db: Db, projectId: ObjectId, senderId: string): Promise<void> {
+  try {
+    const project = await db.collection<ProcurementProject>('projects').findOne(
+      { _id: projectId },
+      { projection: { title: 1, client: 1, managers: 1, siteSchedule: 1 } }
+    );
+    if (!project) return;
+
+    const items = await db.collection<ProcurementItemDocument>(PROCUREMENT_COLLECTION).find({
+      projectId,
+      activityId: { $exists: true },
+      status: { $in: PENDING_DELIVERY }
+    }).toArray();
+
+    const now = new Date();
+    const conflicts: Array<{ item: ProcurementItemDocument; activityStart: Date; lateDays: number }> = [];
+    const resolved: ObjectId[] = [];
+
+    for (const item of items) {
+      const match = findActivity(project, item.activityId!.toString());
+      const activityStart = match ? activityStartDate(match.activity) : undefined;
+      const lateDays = deliveryLateDays(item.expectedDelivery, activityStart);
+
+      if (lateDays === 0) {
+        if (item.deliveryWarning) resolved.push(item._id!);
+        continue;
+      }
+
+      const warned = item.deliveryWarning;
+      if (
+        warned &&
+        warned.expectedDelivery.getTime() === item.expectedDelivery!.getTime() &&
+        warned.activityStart.getTime() === activityStart!.getTime()
+      ) continue;
+
+      conflicts.push({ item, activityStart: activityStart!, lateDays });
+    }
+
+    const collection = db.collection<ProcurementItemDocument>(PROCUREMENT_COLLECTION);
+    if (resolved.length > 0) {
+      await collection.updateMany({ _id: { $in: resolved } }, { $unset: { deliveryWarning: '' as const } });
+    }
+    if (conflicts.length === 0) return;
+
+    await collection.bulkWrite(conflicts.map(({ item, activityStart }) => ({
+      updateOne: {
+        filter: { _id: item._id! },
+        update: {
+          $set: { deliveryWarning: { expectedDelivery: item.expectedDelivery!, activityStart, notifiedAt: now } }
+        }
+      }
+    })));
+
+    const managers = project.managers || [];
+    if (managers.length === 0) return;
+
+    await dispatchNotifications(db, conflicts.flatMap(({ item, activityStart, lateDays }) =>
+      managers.map(recipientId => ({
+        recipientId,
+        senderId: new ObjectId(senderId),
+        type: 'project_updated',
+        title: 'Delivery Conflict',
+        message: `${item.name} on ${project.title} is expected ${formatDay(item.expectedDelivery!)}, ` +
+          `${lateDays} day${lateDays === 1 ? '' : 's'} after "${item.activityTitle}" starts on ${formatDay(activityStart)}`,
+        data: {
+          projectId: projectId.toString(),
+          procurementItemId: item._id!.toString(),
+          activityId: item.activityId!.toString(),
+          url: `/manager/projects/${projectId.toString()}`
+        },
+        isRead: false,
+        priority: 'high',
+        category: 'warning',
+        actionRequired: true,
+        createdAt: now,
+        updatedAt: now
+      }))
+    ));
+  } catch (error) {
+    console.error('Error checking procurement delivery conflicts:', error);
+  }
+}
+
+/**
+ * Tell the managers the client approved an item. A failed notification never
+ * fails the request.
+ */
+export async function notifyProcurementApproved(
+  db: Db,
+  project: ProcurementProject,
+  item: ProcurementItemDocument,
+  senderId: string
+): Promise<void> {
+  const recipients = project.managers || [];
+  if (recipients.length === 0) return;
+
+  const projectId = project._id.toString();
+  try {
+    const now = new Date();
+    await dispatchNotifications(db, recipients.map(recipientId => ({
+      recipientId,
+      senderId: new ObjectId(senderId),
+      type: 'project_updated',
+      title: 'Item Approved for Order',
+      message: `The client approved ${item.name} on ${project.title}`,
+      data: { projectId, procurementItemId: item._id?.toString(), url: `/manager/projects/${projectId}` },
+      isRead: false,
+      priority: 'medium',
+      category: 'success',
+      actionRequired: false,
+      createdAt: now,
+      updatedAt: now
+    })));
+  } catch (error) {
+    console.error('Error sending procurement notification:', error);
+  }
+}
@@ -0,0 +1,295 @@
+// src/lib/project-access.ts - Central project authorization policy
+// Every project-scoped API route asks one question: does this user hold
+// this permission on this project? The answer depends only on how the user
+// relates to the project - administrator, one of its `managers`, or its
+// `client` - and the permission matrix below.
+import { ObjectId } from 'mongodb';
+import { connectToDatabase } from '@/lib/db';
+
+export type ProjectRelation = 'admin' | 'manager' | 'client';
+
+export type ProjectPermission =
+  | 'view_project'
+  | 'edit_project'
+  | 'delete_project'
+  | 'manage_managers'
+  | 'view_schedule'
+  | 'edit_schedule'
+  | 'edit_activity'
+  | 'delete_activity'
+  | 'comment_activity'
+  | 'view_internal_comments'
+  | 'manage_milestones'
+  | 'manage_calendar'
+  | 'manage_baselines'
+  | 'delete_baseline'
+  | 'view_daily_progress'
+  | 'submit_report'
+  | 'delete_report'
+  | 'approve_report'
+  | 'view_labor'
+  | 'log_labor'
+  | 'plan_labor'
+  | 'log_site_conditions'
+  | 'view_delays'
+  | 'view_meeting_minutes'
+  | 'record_meeting_minutes'
+  | 'view_incidents'
+  | 'report_incident'
+  | 'manage_incidents'
+  | 'delete_incident'
+  | 'comment_incident'
+  | 'view_risks'
+  | 'manage_risks'
+  | 'delete_risk'
+  | 'comment_risk'
+  | 'view_budget'
+  | 'manage_budget'
+  | 'view_payments'
+  | 'manage_payments'
+  | 'view_change_orders'
+  | 'manage_change_orders'
+  | 'decide_change_orders'
+  | 'view_designs'
+  | 'manage_designs'
+  | 'approve_designs'
+  | 'comment_designs'
+  | 'view_snags'
+  | 'raise_snags'
+  | 'manage_snags'
+  | 'verify_snags'
+  | 'waive_snags'
+  | 'view_procurement'
+  | 'manage_procurement'
+  | 'approve_procurement'
+  | 'view_history'
+  | 'use_channel';
+
+export interface ProjectAccessUser {
+  id: string;
+  role: string;
+}
+
+// The only project fields the policy reads
+export interface ProjectAccessRecord {
+  _id: ObjectId;
+  client?: ObjectId | null;
+  managers?: ObjectId[];
+}
+
+const EVERYONE: ProjectRelation[] = ['admin', 'manager', 'client'];
+const STAFF: ProjectRelation[] = ['admin', 'manager'];
+const ADMIN_ONLY: ProjectRelation[] = ['admin'];
+const CLIENT_ONLY: ProjectRelation[] = ['client'];
+
+export const PROJECT_PERMISSIONS: Record<ProjectPermission, ProjectRelation[]> = {
+  view_project: EVERYONE,
+  edit_project: STAFF,
+  delete_project: ADMIN_ONLY,
+  manage_managers: ADMIN_ONLY,
+  view_schedule: EVERYONE,
+  edit_schedule: STAFF,
+  edit_activity: STAFF,
+  delete_activity: STAFF,
+  comment_activity: EVERYONE,
+  view_internal_comments: STAFF,
+  manage_milestones: STAFF,
+  manage_calendar: STAFF,
+  manage_baselines: STAFF,
+  delete_baseline: ADMIN_ONLY,
+  view_daily_progress: EVERYONE,
+  submit_report: STAFF,
+  delete_report: STAFF,
+  approve_report: STAFF,
+  view_labor: STAFF,
+  log_labor: STAFF,
+  plan_labor: ADMIN_ONLY,
+  log_site_conditions: STAFF,
+  view_delays: STAFF,
+  view_meeting_minutes: EVERYONE,
+  record_meeting_minutes: STAFF,
+  view_incidents: EVERYONE,
+  report_incident: STAFF,
+  manage_incidents: STAFF,
+  delete_incident: ADMIN_ONLY,
+  comment_incident: EVERYONE,
+  view_risks: EVERYONE,
+  manage_risks: STAFF,
+  delete_risk: ADMIN_ONLY,
+  comment_risk: EVERYONE,
+  view_budget: STAFF,
+  manage_budget: STAFF,
+  view_payments: EVERYONE,
+  manage_payments: STAFF,
+  view_change_orders: EVERYONE,
+  manage_change_orders: STAFF,
+  decide_change_orders: CLIENT_ONLY,
+  view_designs: EVERYONE,
+  manage_designs: STAFF,
+  approve_designs: CLIENT_ONLY,
+  comment_designs: EVERYONE,
+  view_snags: EVERYONE,
+  raise_snags: EVERYONE,
+  manage_snags: STAFF,
+  verify_snags: CLIENT_ONLY,
+  waive_snags: ADMIN_ONLY,
+  view_procurement: EVERYONE,
+  manage_procurement: STAFF,
+  approve_procurement: CLIENT_ONLY,
+  view_history: EVERYONE,
+  use_channel: EVERYONE
+};
+
+// Used to build "Only administrators and project managers can ..." errors
+const PERMISSION_DESCRIPTIONS: Record<ProjectPermission, string> = {
+  view_project: 'view this project',
+  edit_project: 'edit projects',
+  delete_project: 'delete projects',
+  manage_managers: 'change project managers',
+  view_schedule: 'view the schedule',
+  edit_schedule: 'change the schedule',
+  edit_activity: 'update activities',
+  delete_activity: 'delete activities',
+  comment_activity: 'comment on activities',
+  view_internal_comments: 'view internal comments',
+  manage_milestones: 'manage milestones',
+  manage_calendar: 'change the project calendar',
+  manage_baselines: 'save baselines',
+  delete_baseline: 'delete baselines',
+  view_daily_progress: 'view daily progress',
+  submit_report: 'submit daily reports',
+  delete_report: 'delete daily reports',
+  approve_report: 'approve daily reports',
+  view_labor: 'view the labor log',
+  log_labor: 'log site labor',
+  plan_labor: 'plan project manpower',
+  log_site_conditions: 'record site conditions',
+  view_delays: 'view the delay attribution report',
+  view_meeting_minutes: 'view meeting minutes',
+  record_meeting_minutes: 'record meeting minutes',
+  view_incidents: 'view incident reports',
+  report_incident: 'create incident reports',
+  manage_incidents: 'update incident reports',
+  delete_incident: 'delete incident reports',
+  comment_incident: 'comment on incident reports',
+  view_risks: 'view risks',
+  manage_risks: 'manage risks',
+  delete_risk: 'delete risks',
+  comment_risk: 'comment on risks',
+  view_budget: 'view the project budget',
+  manage_budget: 'manage budget lines and costs',
+  view_payments: 'view payment milestones',
+  manage_payments: 'manage payment milestones',
+  view_change_orders: 'view change orders',
+  manage_change_orders: 'draft change orders',
+  decide_change_orders: 'approve or reject change orders',
+  view_designs: 'view design submissions',
+  manage_designs: 'manage design submissions',
+  approve_designs: 'approve or reject designs',
+  comment_designs: 'comment on designs',
+  view_snags: 'view the snag list',
+  raise_snags: 'add snags',
+  manage_snags: 'update snags',
+  verify_snags: 'sign off fixed snags',
+  waive_snags: 'waive snags',
+  view_procurement: 'view the procurement register',
+  manage_procurement: 'manage procurement items',
+  approve_procurement: 'approve procurement items',
+  view_history: 'view project history',
+  use_channel: 'use the project channel'
+};
+
+const RELATION_NAMES: Record<ProjectRelation, string> = {
+  admin: 'administrators',
+  manager: 'project managers',
+  client: 'clients'
+};
+
+/**
+ * How a user relates to a project, or null when they have no access at all.
+ * Project managers must be listed in `managers`; clients must be the `client`.
+ */
+export function getProjectRelation(
+  project: Pick<ProjectAccessRecord, 'client' | 'managers'>,
+  user: ProjectAccessUser
+): ProjectRelation | null {
+  if (user.role === 'super_admin') return 'admin';
+  if (!ObjectId.isValid(user.id)) return null;
+
+  const userId = new ObjectId(user.id);
+  if (user.role === 'project_manager' && project.managers?.some(managerId => managerId.equals(userId))) {
+    return 'manager';
+  }
+  if (user.role === 'client' && project.client?.equals(userId)) {
+    return 'client';
+  }
+  return null;
+}
+
+export function relationHasPermission(relation: ProjectRelation | null, permission: ProjectPermission): boolean {
+  return relation !== null && PROJECT_PERMISSIONS[permission].includes(relation);
+}
+
+export function permissionDeniedMessage(permission: ProjectPermission): string {
+  const allowed = PROJECT_PERMISSIONS[permission].map(relation => RELATION_NAMES[relation]);
+  const who = allowed.length > 1
+    ? `${allowed.slice(0, -1).join(', ')} and ${allowed[allowed.length - 1]}`
+    : allowed[0];
+  return `Only ${who} can ${PERMISSION_DESCRIPTIONS[permission]}`;
+}
+
+export interface ProjectAccessDenial {
+  status: 403 | 404;
+  error: string;
+}
+
+/**
+ * Check one permission against an already-loaded project. Users with no
+ * relation to the project get the same 404 as a missing project, so project
+ * IDs can't be probed; users who can see the project but lack the
+ * permission get a 403. Returns null when access is granted.
+ */
+export function checkProjectPermission(
+  project: Pick<ProjectAccessRecord, 'client' | 'managers'>,
+  user: ProjectAccessUser,
+  permission: ProjectPermission
+): ProjectAccessDenial | null {
+  const relation = getProjectRelation(project, user);
+  if (!relation) {
+    return { status: 404, error: 'Project not found or access denied' };
+  }
+  if (!relationHasPermission(relation, permission)) {
+    return { status: 403, error: permissionDeniedMessage(permission) };
+  }
+  return null;
+}
+
+export type ProjectAccessResult<T extends ProjectAccessRecord> =
+  | { ok: true; project: T; relation: ProjectRelation }
+  | { ok: false; status: 400 | 403 | 404; error: string };
+
+/**
+ * Load a project and check one permission against it
+ */
+export async function authorizeProject<T extends ProjectAccessRecord = ProjectAccessRecord>(
+  projectId: string,
+  user: ProjectAccessUser,
+  permission: ProjectPermission
+): Promise<ProjectAccessResult<T>> {
+  if (!ObjectId.isValid(projectId)) {
+    return { ok: false, status: 400, error: 'Invalid project ID' };
+  }
+
+  const { db } = await connectToDatabase();
+  const project = await db.collection('projects').findOne({ _id: new ObjectId(projectId) }) as T | null;
+  if (!project) {
+    return { ok: false, status: 404, error: 'Project not found or access denied' };
+  }
+
+  const denied = checkProjectPermission(project, user, permission);
+  if (denied) {
+    return { ok: false, ...denied };
+  }
+
+  return { ok: true, project, relation: getProjectRelation(project, user)! };
+}
@@ -0,0 +1,400 @@
+// src/lib/project-channels.ts - Per-project group channels
+// Every project has one channel shared by its client, its managers and the
+// administrators. Channel messages live in the messages collection with a null
+// recipientId. A reply points at the first message of its thread, and naming a
+// member with @ raises a user_mentioned notification for them. Senders edit and
+// delete their messages under the same rules as direct messages; a deleted
+// message stays in its thread as a placeholder.
+import { Db, Filter, ObjectId } from 'mongodb';
+import { dispatchNotifications } from '@/lib/notifications';
+import { MessageChangeError, checkMessageChange, parseMessageContent } from '@/lib/messages';
+import { emitToProject } from '@/lib/realtime';
+import type { ProjectAccessRecord, ProjectAccessUser } from '@/lib/project-access';
+import type { ChannelRead } from '@/lib/types/message';
+import {
+  ChannelMember,
+  ChannelMessage,
+  ChannelMessageDocument,
+  ChannelSummary,
+  ChannelView,
+  transformChannelMessage
+} from '@/lib/types/channel';
+
+export const MESSAGES_COLLECTION = 'messages';
+
+// Threads loaded per page of a channel, each with all of its replies
+const THREADS_PER_PAGE = 30;
+
+export interface ChannelProject extends ProjectAccessRecord {
+  title: string;
+}
+
+export interface ChannelSender extends ProjectAccessUser {
+  name: string;
+}
+
+// Every message in a project's channel
+function channelFilter(projectId: ObjectId): Filter<ChannelMessageDocument> {
+  return { projectId, recipientId: null, isDeleted: false };
+}
+
+// Every message in a project's channel, deleted ones included
+function threadFilter(projectId: ObjectId): Filter<ChannelMessageDocument> {
+  return { projectId, recipientId: null };
+}
+
+function dashboardPath(role: string): string {
+  return role === 'super_admin' ? 'admin' : role === 'project_manager' ? 'manager' : 'client';
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The client, the managers and every active administrator, by name
+ */
+export async function loadChannelMembers(db: Db, project: ChannelProject): Promise<ChannelMember[]> {
+  const projectPeople = [...(project.client ? [project.client] : []), ...(project.managers || [])];
+  const users = await db.collection<{ _id: ObjectId; name: string; role: string }>('users')
+    .find(
+      { $or: [{ _id: { $in: projectPeople } }, { role: 'super_admin' }], isActive: { $ne: false } },
+      { projection: { name: 1, role: 1 } }
+    )
+    .sort({ name: 1 })
+    .toArray();
+
+  return users.map(user => ({ _id: user._id.toString(), name: user.name, role: user.role }));
+}
+
+/**
+ * The members a message mentions. A mention is "@" followed by the member's
+ * full name, as the composer's autocomplete inserts it; where names overlap
+ * ("Ada" and "Ada Obi") the longest one that fits wins.
+ */
+export function findMentions(content: string, members: ChannelMember[], senderId: string): ChannelMember[] {
+  const byLength = [...members].sort((a, b) => b.name.length - a.name.length);
+  const names = byLength.map(member => escapeRegExp(member.name)).join('|');
+  if (!names) return [];
+
+  const mentioned = new Set<string>();
+  for (const match of content.matchAll(new RegExp(`@(${names})(?![\\p{L}\\p{N}])`, 'giu'))) {
+    const member = byLength.find(item => item.name.toLowerCase() === match[1].toLowerCase());
+    if (member && member._id !== senderId) mentioned.add(member._id);
+  }
+  return members.filter(member => mentioned.has(member._id));
+}
+
+/**
+ * The channels a user belongs to, most recently active first, with how many
+ * messages (and mentions) they have not read yet
+ */
+export async function loadProjectChannels(db: Db, user: ProjectAccessUser): Promise<ChannelSummary[]> {
+  const userId = new ObjectId(user.id);
+  const projectFilter = user.role === 'super_admin'
+    ? {}
+    : user.role === 'project_manager' ? { managers: userId } : { client: userId };
+
+  const projects = await db.collection<ChannelProject>('projects')
+    .find(projectFilter, { projection: { title: 1 } })
+    .toArray();
+  if (projects.length === 0) return [];
+
+  const activity = await db.collection<ChannelMessageDocument>(MESSAGES_COLLECTION).aggregate<{
+    _id: ObjectId;
+    lastMessage: string;
+    lastSenderName: string;
+    lastMessageAt: Date;
+    unreadCount: number;
+    unreadMentions: number;
+  }>([
+    { $match: { projectId: { $in: projects.map(project => project._id) }, recipientId: null, isDeleted: false } },
+    { $sort: { createdAt: -1 } },
+    {
+      $addFields: {
+        unread: {
+          $and: [
+            { $ne: ['$senderId', userId] },
+            { $not: [{ $in: [userId, { $ifNull: ['$readBy.userId', []] }] }] }
+          ]
+        }
+      }
+    },
+    {
+      $group: {
+        _id: '$projectId',
+        lastMessage: { $first: '$content' },
+        lastSenderName: { $first: '$senderName' },
+        lastMessageAt: { $first: '$createdAt' },
+        unreadCount: { $sum: { $cond: ['$unread', 1, 0] } },
+        unreadMentions: {
+          $sum: { $cond: [{ $and: ['$unread', { $in: [userId, { $ifNull: ['$mentions', []] }] }] }, 1, 0] }
+        }
+      }
+    }
+  ]).toArray();
+  const byProject = new Map(activity.map(item => [item._id.toString(), item]));
+
+  return projects
+    .map(project => {
+      const latest = byProject.get(project._id.toString());
+      return {
+        projectId: project._id.toString(),
+        projectTitle: project.title,
+        lastMessage: latest?.lastMessage,
+        lastSenderName: latest?.lastSenderName,
+        lastMessageAt: latest?.lastMessageAt.toISOString(),
+        unreadCount: latest?.unreadCount || 0,
+        unreadMentions: latest?.unreadMentions || 0
+      };
+    })
+    .sort((a, b) =>
+      (b.lastMessageAt || '').localeCompare(a.lastMessageAt || '') || a.projectTitle.localeCompare(b.projectTitle)
+    );
+}
+
+/**
+ * A page of the channel: the latest threads before `before` (oldest first),
+ * followed by every reply to them. Deleted messages come back with their
+ * content cleared so the client can show where they were.
+ */
+export async function loadChannelView(db: Db, project: ChannelProject, before?: Date): Promise<ChannelView> {
+  const messages = db.collection<ChannelMessageDocument>(MESSAGES_COLLECTION);
+
+  const [roots, members] = await Promise.all([
+    messages
+      .find({
+        ...threadFilter(project._id),
+        replyTo: { $exists: false },
+        ...(before ? { createdAt: { $lt: before } } : {})
+      })
+      .sort({ createdAt: -1 })
+      .limit(THREADS_PER_PAGE + 1)
+      .toArray(),
+    loadChannelMembers(db, project)
+  ]);
+
+  const hasMore = roots.length > THREADS_PER_PAGE;
+  const threads = roots.slice(0, THREADS_PER_PAGE).reverse();
+  const replies = threads.length > 0
+    ? await messages
+      .find({ ...threadFilter(project._id), replyTo: { $in: threads.map(root => root._id!) } })
+      .sort({ createdAt: 1 })
+      .toArray()
+    : [];
+
+  const replyCounts = new Map<string, number>();
+  replies.forEach(reply => {
+    const rootId = reply.replyTo!.toString();
+    replyCounts.set(rootId, (replyCounts.get(rootId) || 0) + 1);
+  });
+
+  return {
+    projectId: project._id.toString(),
+    projectTitle: project.title,
+    members,
+    messages: [
+      ...threads.map(root => transformChannelMessage(root, replyCounts.get(root._id!.toString()))),
+      ...replies.map(reply => transformChannelMessage(reply))
+    ],
+    hasMore
+  };
+}
+
+async function notifyMentions(
+  db: Db,
+  project: ChannelProject,
+  sender: ChannelSender,
+  mentioned: ChannelMember[],
+  message: ChannelMessage,
+  now: Date
+): Promise<void> {
+  if (mentioned.length === 0) return;
+  const { content } = message;
+
+  try {
+    await dispatchNotifications(db, mentioned.map(member => ({
+      recipientId: new ObjectId(member._id),
+      senderId: new ObjectId(sender.id),
+      type: 'user_mentioned',
+      title: `${sender.name} mentioned you`,
+      message: `In ${project.title}: ${content.length > 140 ? `${content.slice(0, 137)}...` : content}`,
+      data: {
+        projectId: message.projectId,
+        messageId: message._id,
+        url: `/${dashboardPath(member.role)}/messages?channel=${message.projectId}`
+      },
+      isRead: false,
+      priority: 'medium',
+      category: 'info',
+      actionRequired: false,
+      createdAt: now,
+      updatedAt: now
+    })));
+  } catch (error) {
+    console.error('Error sending mention notifications:', error);
+  }
+}
+
+/**
+ * Post a message to a project's channel. Replies always attach to the thread's
+ * first message. The message is pushed live to everyone in the project's
+ * socket room, and each mentioned member is notified.
+ */
+export async function postChannelMessage(
+  db: Db,
+  project: ChannelProject,
+  sender: ChannelSender,
+  body: unknown
+): Promise<{ message: ChannelMessage } | { error: string }> {
+  const parsed = parseMessageContent(body);
+  if ('error' in parsed) return parsed;
+  const { content } = parsed;
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  const messages = db.collection<ChannelMessageDocument>(MESSAGES_COLLECTION);
+
+  let threadId: ObjectId | undefined;
+  if (input.replyTo !== undefined && input.replyTo !== null && input.replyTo !== '') {
+    if (typeof input.replyTo !== 'string' || !ObjectId.isValid(input.replyTo)) {
+      return { error: 'Invalid reply message ID' };
+    }
+    const parent = await messages.findOne({ ...channelFilter(project._id), _id: new ObjectId(input.replyTo) });
+    if (!parent) return { error: 'The message you replied to no longer exists' };
+    threadId = parent.replyTo || parent._id;
+  }
+
+  const members = await loadChannelMembers(db, project);
+  const mentioned = findMentions(content, members, sender.id);
+  const senderId = new ObjectId(sender.id);
+  const now = new Date();
+
+  const document: ChannelMessageDocument = {
+    projectId: project._id,
+    senderId,
+    senderName: sender.name,
+    senderRole: sender.role,
+    recipientId: null,
+    content,
+    messageType: 'text',
+    attachments: [],
+    mentions: mentioned.map(member => new ObjectId(member._id)),
+    ...(threadId ? { replyTo: threadId } : {}),
+    readBy: [{ userId: senderId, readAt: now }],
+    isRead: false,
+    reactions: [],
+    isDeleted: false,
+    createdAt: now,
+    updatedAt: now
+  };
+  const { insertedId } = await messages.insertOne(document);
+  const message = transformChannelMessage({ ...document, _id: insertedId });
+
+  emitToProject(message.projectId, 'channel_message', message);
+
+  await notifyMentions(db, project, sender, mentioned, message, now);
+
+  return { message };
+}
+
+async function findChannelMessage(
+  db: Db,
+  projectId: ObjectId,
+  messageId: string
+): Promise<ChannelMessageDocument | null> {
+  if (!ObjectId.isValid(messageId)) return null;
+  return db.collection<ChannelMessageDocument>(MESSAGES_COLLECTION)
+    .findOne({ ...threadFilter(projectId), _id: new ObjectId(messageId) });
+}
+
+/**
+ * Change the text of the sender's own message. Members the new text mentions
+ * for the first time are notified; the change is pushed to the project's room.
+ */
+export async function editChannelMessage(
+  db: Db,
+  project: ChannelProject,
+  editor: ChannelSender,
+  messageId: string,
+  body: unknown
+): Promise<{ message: ChannelMessage } | MessageChangeError> {
+  const existing = await findChannelMessage(db, project._id, messageId);
+  const denied = checkMessageChange(existing, editor.id, 'edit');
+  if (denied) return denied;
+
+  const parsed = parseMessageContent(body);
+  if ('error' in parsed) return { error: parsed.error, status: 400 };
+  if (parsed.content === existing!.content) return { message: transformChannelMessage(existing!) };
+
+  const members = await loadChannelMembers(db, project);
+  const mentioned = findMentions(parsed.content, members, editor.id);
+  const now = new Date();
+
+  const saved = await db.collection<ChannelMessageDocument>(MESSAGES_COLLECTION).findOneAndUpdate(
+    { _id: existing!._id, isDeleted: false },
+    {
+      $set: {
+        content: parsed.content,
+        mentions: mentioned.map(member => new ObjectId(member._id)),
+        editedAt: now,
+        updatedAt: now
+      }
+    },
+    { returnDocument: 'after' }
+  );
+  if (!saved) return { error: 'Message not found', status: 404 };
+
+  const message = transformChannelMessage(saved);
+  emitToProject(message.projectId, 'channel_message_updated', message);
+
+  const alreadyMentioned = new Set(existing!.mentions.map(id => id.toString()));
+  await notifyMentions(db, project, editor, mentioned.filter(member => !alreadyMentioned.has(member._id)), message, now);
+
+  return { message };
+}
+
+/**
+ * Delete the sender's own message, leaving a placeholder so its thread and
+ * replies stay intact
+ */
+export async function deleteChannelMessage(
+  db: Db,
+  project: ChannelProject,
+  userId: string,
+  messageId: string
+): Promise<{ message: ChannelMessage } | MessageChangeError> {
+  const existing = await findChannelMessage(db, project._id, messageId);
+  const denied = checkMessageChange(existing, userId, 'delete');
+  if (denied) return denied;
+
+  const now = new Date();
+  const saved = await db.collection<ChannelMessageDocument>(MESSAGES_COLLECTION).findOneAndUpdate(
+    { _id: existing!._id, isDeleted: false },
+    { $set: { content: '', mentions: [], isDeleted: true, deletedAt: now, updatedAt: now } },
+    { returnDocument: 'after' }
+  );
+  if (!saved) return { error: 'Message not found', status: 404 };
+
+  const message = transformChannelMessage(saved);
+  emitToProject(message.projectId, 'channel_message_updated', message);
+  return { message };
+}
+
+/**
+ * Mark every message in the channel as read by the user, and let the other
+ * members' open channels update their read receipts
+ */
+export async function markChannelRead(db: Db, projectId: ObjectId, userId: string): Promise<number> {
+  const readerId = new ObjectId(userId);
+  const readAt = new Date();
+  const result = await db.collection<ChannelMessageDocument>(MESSAGES_COLLECTION).updateMany(
+    { ...channelFilter(projectId), senderId: { $ne: readerId }, 'readBy.userId': { $ne: readerId } },
+    { $push: { readBy: { userId: readerId, readAt } } }
+  );
+
+  if (result.modifiedCount > 0) {
+    const receipt: ChannelRead = { projectId: projectId.toString(), userId, readAt: readAt.toISOString() };
+    emitToProject(receipt.projectId, 'channel_read', receipt);
+  }
+  return result.modifiedCount;
+}
@@ -0,0 +1,482 @@
+// src/lib/project-templates.ts - Project templates for siteSchedule phases, activities and milestones
+// Templates store offsets and durations in working days from the project start,
+// so the same template lays out correctly on any project's working calendar.
+import { Db, ObjectId } from 'mongodb';
+import {
+  buildScheduleGraph,
+  describeCycle,
+  findDependencyCycle,
+  getActivityDates,
+  ScheduleActivityInput
+} from '@/lib/scheduling';
+import { addWorkingDays, countWorkingDays, WorkingCalendar } from '@/lib/working-calendar';
+import { MILESTONE_PHASES, type MilestoneDocument } from '@/lib/types/milestone';
+import {
+  TEMPLATE_ACTIVITY_CATEGORIES,
+  TEMPLATE_ACTIVITY_PRIORITIES,
+  ProjectTemplateDocument,
+  ProjectTemplateInput,
+  TemplateActivity,
+  TemplateMilestone,
+  TemplatePhase
+} from '@/lib/types/template';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Keep a template to something a renovation can realistically span
+const MAX_OFFSET_DAYS = 1000;
+
+// Seeded when no templates exist yet; admins can edit or replace it
+export const DEFAULT_PROJECT_TEMPLATE: ProjectTemplateInput = {
+  name: 'OliveHaus Standard Renovation',
+  description: 'Full interior renovation from site preliminaries through to styling and handover',
+  phases: [
+    {
+      key: 'preliminaries',
+      name: 'Site Preliminaries',
+      description: 'Survey, approvals and protecting the site before work starts',
+      dependencies: [],
+      activities: [
+        { key: 'site-survey', title: 'Site survey & measurements', category: 'other', priority: 'high', startOffset: 0, duration: 2, dependencies: [] },
+        { key: 'permits', title: 'Estate approvals & work permits', category: 'other', priority: 'high', startOffset: 0, duration: 3, dependencies: [] },
+        { key: 'site-protection', title: 'Site protection & hoarding', category: 'other', priority: 'medium', startOffset: 2, duration: 1, dependencies: ['site-survey'] }
+      ]
+    },
+    {
+      key: 'demolition',
+      name: 'Demolition & Strip-out',
+      description: 'Removing existing finishes, fittings and partitions',
+      dependencies: ['preliminaries'],
+      activities: [
+        { key: 'strip-out', title: 'Strip-out of existing finishes', category: 'structural', priority: 'medium', startOffset: 3, duration: 4, dependencies: [] },
+        { key: 'demolition-works', title: 'Demolition of partitions', category: 'structural', priority: 'medium', startOffset: 3, duration: 3, dependencies: [] },
+        { key: 'debris-removal', title: 'Debris removal', category: 'other', priority: 'low', startOffset: 7, duration: 1, dependencies: ['strip-out', 'demolition-works'] }
+      ]
+    },
+    {
+      key: 'pop',
+      name: 'POP & Partitions',
+      description: 'New partitions, wall preparation and POP ceilings',
+      dependencies: ['demolition'],
+      activities: [
+        { key: 'partitions', title: 'Drywall partitions & blockwork', category: 'structural', priority: 'high', startOffset: 8, duration: 5, dependencies: [] },
+        { key: 'screeding', title: 'Wall screeding & skimming', category: 'finishing', priority: 'medium', startOffset: 19, duration: 5, dependencies: ['conduits'] },
+        { key: 'pop-ceiling', title: 'POP ceiling & cornices', category: 'finishing', priority: 'medium', startOffset: 19, duration: 6, dependencies: ['cabling', 'pressure-test'] }
+      ]
+    },
+    {
+      key: 'plumbing',
+      name: 'Plumbing Rough-in',
+      description: 'Water supply and waste pipework ahead of closing walls',
+      dependencies: ['demolition'],
+      activities: [
+        { key: 'pipework', title: 'Water supply & waste pipework', category: 'plumbing', priority: 'high', startOffset: 8, duration: 4, dependencies: [] },
+        { key: 'pressure-test', title: 'Pressure testing', category: 'plumbing', priority: 'high', startOffset: 12, duration: 1, dependencies: ['pipework'] }
+      ]
+    },
+    {
+      key: 'electrical',
+      name: 'Electrical Rough-in',
+      description: 'Conduits, back boxes and cabling',
+      dependencies: ['demolition'],
+      activities: [
+        { key: 'conduits', title: 'Conduits & back boxes', category: 'electrical', priority: 'high', startOffset: 13, duration: 3, dependencies: ['partitions'] },
+        { key: 'cabling', title: 'Cabling & distribution board', category: 'electrical', priority: 'high', startOffset: 16, duration: 3, dependencies: ['conduits'] }
+      ]
+    },
+    {
+      key: 'installation',
+      name: 'Installation',
+      description: 'Tiling, joinery, fittings and painting',
+      dependencies: ['pop', 'plumbing', 'electrical'],
+      activities: [
+        { key: 'tiling', title: 'Floor & wall tiling', category: 'finishing', priority: 'high', startOffset: 25, duration: 6, dependencies: [] },
+        { key: 'joinery', title: 'Kitchen & wardrobe installation', category: 'finishing', priority: 'high', startOffset: 31, duration: 5, dependencies: ['tiling'] },
+        { key: 'sanitary', title: 'Sanitary ware & fittings', category: 'plumbing', priority: 'medium', startOffset: 31, duration: 3, dependencies: ['tiling'] },
+        { key: 'electrical-fittings', title: 'Light fittings, sockets & switches', category: 'electrical', priority: 'medium', startOffset: 31, duration: 3, dependencies: ['tiling'] },
+        { key: 'painting', title: 'Painting', category: 'finishing', priority: 'medium', startOffset: 36, duration: 5, dependencies: ['joinery', 'sanitary', 'electrical-fittings'] }
+      ]
+    },
+    {
+      key: 'styling',
+      name: 'Setup & Styling',
+      description: 'Furniture, styling and handover to the client',
+      dependencies: ['installation'],
+      activities: [
+        { key: 'furniture', title: 'Furniture delivery & placement', category: 'finishing', priority: 'high', startOffset: 41, duration: 3, dependencies: [] },
+        { key: 'soft-furnishings', title: 'Soft furnishings & styling', category: 'finishing', priority: 'medium', startOffset: 44, duration: 2, dependencies: ['furniture'] },
+        { key: 'snagging', title: 'Final clean & snagging', category: 'other', priority: 'medium', startOffset: 46, duration: 2, dependencies: ['soft-furnishings'] },
+        { key: 'handover', title: 'Client walkthrough & handover', category: 'other', priority: 'high', startOffset: 48, duration: 1, dependencies: ['snagging'] }
+      ]
+    }
+  ],
+  milestones: [
+    { title: 'Strip-out Complete', description: 'Site cleared and ready for new works', phase: 'construction', dayOffset: 8 },
+    { title: 'Construction Phase', description: 'Complete all structural and foundational construction work', phase: 'construction', dayOffset: 25 },
+    { title: 'Installation Phase', description: 'Install all fixtures, utilities, and essential systems', phase: 'installation', dayOffset: 41 },
+    { title: 'Set up and Styling Phase', description: 'Complete interior design, styling, and final setup', phase: 'styling', dayOffset: 49 }
+  ]
+};
+
+/**
+ * Seed the default template the first time templates are listed
+ */
+export async function ensureDefaultTemplate(db: Db): Promise<void> {
+  const collection = db.collection<ProjectTemplateDocument>('project_templates');
+  if (await collection.countDocuments({}, { limit: 1 }) > 0) return;
+
+  await collection.insertOne({
+    ...DEFAULT_PROJECT_TEMPLATE,
+    createdAt: new Date(),
+    updatedAt: new Date()
+  });
+}
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const asKeys = (value: unknown): string[] =>
+  Array.isArray(value) ? Array.from(new Set(value.map(asText).filter(Boolean))) : [];
+
+const asDays = (value: unknown): number | null => {
+  const days = Number(value);
+  return Number.isInteger(days) && days >= 0 && days <= MAX_OFFSET_DAYS ? days : null;
+};
+
+/**
+ * Validate a template payload from the API, returning the cleaned template or
+ * a readable error. Dependencies must point at keys in the same template and
+ * must not form a cycle.
+ */
+export function parseTemplateInput(body: unknown): { template: ProjectTemplateInput } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+  const name = asText(input.name);
+  if (!name) return { error: 'Template name is required' };
+
+  const rawPhases = Array.isArray(input.phases) ? input.phases as Record<string, unknown>[] : [];
+  if (rawPhases.length === 0) return { error: 'A template needs at least one phase' };
+
+  const phaseKeys = new Set<string>();
+  const activityKeys = new Set<string>();
+  const phases: TemplatePhase[] = [];
+
+  for (const rawPhase of rawPhases) {
+    const phaseName = asText(rawPhase.name);
+    const phaseKey = asText(rawPhase.key);
+    if (!phaseName || !phaseKey) return { error: 'Every phase needs a name and key' };
+    if (phaseKeys.has(phaseKey)) return { error: `Duplicate phase key "${phaseKey}"` };
+    phaseKeys.add(phaseKey);
+
+    const activities: TemplateActivity[] = [];
+    const rawActivities = Array.isArray(rawPhase.activities) ? rawPhase.activities as Record<string, unknown>[] : [];
+    for (const rawActivity of rawActivities) {
+      const title = asText(rawActivity.title);
+      const key = asText(rawActivity.key);
+      if (!title || !key) return { error: `Every activity in ${phaseName} needs a title and key` };
+      if (activityKeys.has(key)) return { error: `Duplicate activity key "${key}"` };
+      activityKeys.add(key);
+
+      const startOffset = asDays(rawActivity.startOffset);
+      const duration = asDays(rawActivity.duration);
+      if (startOffset === null || duration === null || duration < 1) {
+        return { error: `${title}: start offset and duration must be whole working days (duration at least 1)` };
+      }
+
+      const category = TEMPLATE_ACTIVITY_CATEGORIES.find(c => c === rawActivity.category) || 'other';
+      const priority = TEMPLATE_ACTIVITY_PRIORITIES.find(p => p === rawActivity.priority) || 'medium';
+
+      activities.push({
+        key,
+        title,
+        description: asText(rawActivity.description) || undefined,
+        contractor: asText(rawActivity.contractor) || undefined,
+        category,
+        priority,
+        startOffset,
+        duration,
+        dependencies: asKeys(rawActivity.dependencies).filter(dep => dep !== key)
+      });
+    }
+
+    phases.push({
+      key: phaseKey,
+      name: phaseName,
+      description: asText(rawPhase.description) || undefined,
+      activities,
+      dependencies: asKeys(rawPhase.dependencies).filter(dep => dep !== phaseKey)
+    });
+  }
+
+  for (const phase of phases) {
+    const unknownPhase = phase.dependencies.find(dep => !phaseKeys.has(dep));
+    if (unknownPhase) return { error: `${phase.name} depends on an unknown phase "${unknownPhase}"` };
+    for (const activity of phase.activities) {
+      const unknownActivity = activity.dependencies.find(dep => !activityKeys.has(dep));
+      if (unknownActivity) return { error: `${activity.title} depends on an unknown activity "${unknownActivity}"` };
+    }
+  }
+
+  // Reuse the schedule graph for cycle detection, laying activities out on calendar days
+  const epoch = Date.UTC(2000, 0, 1);
+  const nodes = buildScheduleGraph(phases.map(phase => ({
+    _id: phase.key,
+    name: phase.name,
+    dependencies: phase.dependencies,
+    activities: phase.activities.map(activity => ({
+      _id: activity.key,
+      title: activity.title,
+      startDate: new Date(epoch + activity.startOffset * DAY_MS),
+      endDate: new Date(epoch + (activity.startOffset + activity.duration - 1) * DAY_MS),
+      dependencies: activity.dependencies
+    }))
+  })));
+  const cycle = findDependencyCycle(nodes);
+  if (cycle) return { error: `Circular dependency: ${describeCycle(cycle, nodes)}` };
+
+  const milestones: TemplateMilestone[] = [];
+  const rawMilestones = Array.isArray(input.milestones) ? input.milestones as Record<string, unknown>[] : [];
+  for (const rawMilestone of rawMilestones) {
+    const title = asText(rawMilestone.title);
+    const dayOffset = asDays(rawMilestone.dayOffset);
+    const phase = MILESTONE_PHASES.find(p => p === rawMilestone.phase);
+    if (!title || dayOffset === null || !phase) {
+      return { error: 'Every milestone needs a title, a phase and a whole-day offset' };
+    }
+    milestones.push({ title, description: asText(rawMilestone.description) || undefined, phase, dayOffset });
+  }
+
+  return {
+    template: {
+      name,
+      description: asText(input.description) || undefined,
+      phases,
+      milestones
+    }
+  };
+}
+
+// Shapes written into a new project, matching /api/projects/[id]/schedule and /activities
+export interface InstantiatedActivity {
+  _id: ObjectId;
+  title: string;
+  description: string;
+  contractor: string;
+  plannedStartDate: Date;
+  plannedEndDate: Date;
+  status: 'pending';
+  priority: TemplateActivity['priority'];
+  category: TemplateActivity['category'];
+  progress: number;
+  estimatedDuration: number;
+  dependencies: string[];
+  resources: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InstantiatedPhase {
+  _id: ObjectId;
+  name: string;
+  description: string;
+  startDate: Date;
+  endDate: Date;
+  status: 'upcoming';
+  progress: number;
+  activities: InstantiatedActivity[];
+  dependencies: string[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InstantiatedTemplate {
+  siteSchedule: {
+    phases: InstantiatedPhase[];
+    lastUpdated: Date;
+    overallProgress: number;
+    totalActivities: number;
+    completedActivities: number;
+    activeActivities: number;
+    delayedActivities: number;
+  };
+  // Project.milestones, shown on the Gantt
+  projectMilestones: Array<{ title: string; description: string; targetDate: Date; status: 'pending' }>;
+  // Entries for the milestones collection, once the project id is known
+  trackerMilestones: (projectId: ObjectId) => Omit<MilestoneDocument, '_id'>[];
+  finishDate: Date;
+}
+
+/**
+ * Lay a template out from `startDate` on the project's working calendar
+ */
+export function instantiateTemplate(
+  template: ProjectTemplateInput,
+  startDate: Date,
+  calendar: WorkingCalendar
+): InstantiatedTemplate {
+  const now = new Date();
+  const activityIds = new Map<string, ObjectId>();
+  const phaseIds = new Map<string, ObjectId>();
+  template.phases.forEach(phase => {
+    phaseIds.set(phase.key, new ObjectId());
+    phase.activities.forEach(activity => activityIds.set(activity.key, new ObjectId()));
+  });
+
+  let finishDate = addWorkingDays(startDate, 0, calendar);
+
+  const phases: InstantiatedPhase[] = template.phases.map(phase => {
+    const activities: InstantiatedActivity[] = phase.activities.map(activity => {
+      const start = addWorkingDays(startDate, activity.startOffset, calendar);
+      const end = addWorkingDays(start, activity.duration - 1, calendar);
+      if (end > finishDate) finishDate = end;
+
+      return {
+        _id: activityIds.get(activity.key)!,
+        title: activity.title,
+        description: activity.description || '',
+        contractor: activity.contractor || '',
+        plannedStartDate: start,
+        plannedEndDate: end,
+        status: 'pending',
+        priority: activity.priority,
+        category: activity.category,
+        progress: 0,
+        estimatedDuration: activity.duration,
+        dependencies: activity.dependencies.map(key => activityIds.get(key)!.toString()),
+        resources: [],
+        createdAt: now,
+        updatedAt: now
+      };
+    });
+
+    const starts = activities.map(a => a.plannedStartDate.getTime());
+    const ends = activities.map(a => a.plannedEndDate.getTime());
+
+    return {
+      _id: phaseIds.get(phase.key)!,
+      name: phase.name,
+      description: phase.description || '',
+      startDate: starts.length ? new Date(Math.min(...starts)) : startDate,
+      endDate: ends.length ? new Date(Math.max(...ends)) : startDate,
+      status: 'upcoming',
+      progress: 0,
+      activities,
+      dependencies: phase.dependencies.map(key => phaseIds.get(key)!.toString()),
+      createdAt: now,
+      updatedAt: now
+    };
+  });
+
+  const milestoneDates = template.milestones.map(milestone => addWorkingDays(startDate, milestone.dayOffset, calendar));
+  milestoneDates.forEach(date => {
+    if (date > finishDate) finishDate = date;
+  });
+
+  return {
+    siteSchedule: {
+      phases,
+      lastUpdated: now,
+      overallProgress: 0,
+      totalActivities: phases.reduce((sum, phase) => sum + phase.activities.length, 0),
+      completedActivities: 0,
+      activeActivities: 0,
+      delayedActivities: 0
+    },
+    projectMilestones: template.milestones.map((milestone, index) => ({
+      title: milestone.title,
+      description: milestone.description || '',
+      targetDate: milestoneDates[index],
+      status: 'pending'
+    })),
+    trackerMilestones: projectId => template.milestones.map(milestone => ({
+      projectId,
+      phase: milestone.phase,
+      title: milestone.title,
+      description: milestone.description || '',
+      status: 'pending',
+      createdAt: now,
+      updatedAt: now
+    })),
+    finishDate
+  };
+}
+
+// The Project fields a template is captured from
+export interface TemplateSourceProject {
+  startDate?: Date;
+  siteSchedule?: {
+    phases?: Array<{
+      _id: ObjectId | string;
+      name: string;
+      description?: string;
+      dependencies?: Array<ObjectId | string>;
+      activities?: Array<ScheduleActivityInput & {
+        description?: string;
+        contractor?: string;
+        category?: string;
+        priority?: string;
+      }>;
+    }>;
+  };
+  milestones?: Array<{ title?: string; description?: string; targetDate?: Date }>;
+}
+
+/**
+ * Capture an existing project's schedule as a template. Offsets are counted in
+ * the project's working days from its start date; tracker milestones take
+ * their offset from the Gantt milestone with the same title, if any.
+ */
+export function templateFromProject(
+  project: TemplateSourceProject,
+  trackerMilestones: Pick<MilestoneDocument, 'phase' | 'title' | 'description'>[],
+  calendar: WorkingCalendar
+): Omit<ProjectTemplateInput, 'name' | 'description'> {
+  const schedulePhases = project.siteSchedule?.phases || [];
+  const activityDates = schedulePhases.flatMap(phase =>
+    (phase.activities || []).map(activity => getActivityDates(activity)).filter(dates => dates !== null)
+  );
+  const projectStart = project.startDate
+    || (activityDates.length ? new Date(Math.min(...activityDates.map(d => d.start.getTime()))) : new Date());
+
+  const offsetOf = (date: Date) => date <= projectStart ? 0 : Math.max(0, countWorkingDays(projectStart, date, calendar) - 1);
+
+  const phases: TemplatePhase[] = schedulePhases.map(phase => ({
+    key: String(phase._id),
+    name: phase.name,
+    description: phase.description || undefined,
+    dependencies: (phase.dependencies || []).map(String),
+    activities: (phase.activities || []).flatMap(activity => {
+      const dates = getActivityDates(activity);
+      if (!dates) return [];
+      return [{
+        key: String(activity._id),
+        title: activity.title,
+        description: activity.description || undefined,
+        contractor: activity.contractor || undefined,
+        category: TEMPLATE_ACTIVITY_CATEGORIES.find(c => c === activity.category) || 'other',
+        priority: TEMPLATE_ACTIVITY_PRIORITIES.find(p => p === activity.priority) || 'medium',
+        startOffset: offsetOf(dates.start),
+        duration: Math.max(1, countWorkingDays(dates.start, dates.end, calendar)),
+        dependencies: (activity.dependencies || []).map(String)
+      }];
+    })
+  }));
+
+  // Drop dependencies on activities that were left out for having no dates
+  const activityKeys = new Set(phases.flatMap(phase => phase.activities.map(activity => activity.key)));
+  phases.forEach(phase => phase.activities.forEach(activity => {
+    activity.dependencies = activity.dependencies.filter(key => activityKeys.has(key));
+  }));
+
+  const scheduleEnd = Math.max(0, ...phases.flatMap(phase =>
+    phase.activities.map(activity => activity.startOffset + activity.duration)
+  ));
+  const milestones: TemplateMilestone[] = trackerMilestones.map(milestone => {
+    const dated = project.milestones?.find(m => m.title === milestone.title && m.targetDate);
+    return {
+      title: milestone.title,
+      description: milestone.description || undefined,
+      phase: milestone.phase,
+      dayOffset: dated?.targetDate ? offsetOf(new Date(dated.targetDate)) : scheduleEnd
+    };
+  });
+
+  return { phases, milestones };
+}
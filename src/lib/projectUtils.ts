@@ -1,6 +1,7 @@
 // FILE: src/lib/projectUtils.ts - PROJECT UTILITIES FOR PROGRESS & NOTIFICATIONS
 import { connectToDatabase } from '@/lib/db';
 import { ObjectId } from 'mongodb';
+import { dispatchNotifications } from '@/lib/notifications';
 
 interface ProjectDocument {
   _id: ObjectId;
@@ -106,7 +107,7 @@ export async function notifyClientOfTaskCompletion(
       updatedAt: new Date()
     };
 
-    await db.collection('notifications').insertOne(notification);
+    await dispatchNotifications(db, [notification]);
   } catch (error) {
     console.error('Error sending notification:', error);
     // Don't throw - notification failure shouldn't break the main flow
@@ -156,7 +157,7 @@ export async function notifyClientOfProgressUpdate(
         updatedAt: new Date()
       };
 
-      await db.collection('notifications').insertOne(notification);
+      await dispatchNotifications(db, [notification]);
     }
   } catch (error) {
     console.error('Error sending progress notification:', error);
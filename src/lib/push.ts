@@ -0,0 +1,157 @@
+// src/lib/push.ts - Web Push delivery
+// Sends notifications the dispatcher routed to push to every browser their
+// recipient subscribed from. Subscriptions the push service reports as gone
+// are pruned.
+import webpush from 'web-push';
+import { Db, ObjectId } from 'mongodb';
+
+export const PUSH_SUBSCRIPTIONS_COLLECTION = 'push_subscriptions';
+
+const APP_SETTINGS_COLLECTION = 'app_settings';
+const VAPID_SETTING_ID = 'vapid_keys';
+
+// How long the push service holds a message for an offline browser
+const PUSH_TTL_SECONDS = 24 * 60 * 60;
+
+export interface PushSubscriptionRecord {
+  _id: ObjectId;
+  userId: ObjectId;
+  subscription: webpush.PushSubscription;
+  userAgent?: string;
+  lastDeliveredAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// The fields of a notification document push delivery reads
+export interface PushNotificationRecord {
+  _id?: ObjectId;
+  recipientId: ObjectId;
+  type: string;
+  title: string;
+  message: string;
+  data?: { url?: string } & Record<string, unknown>;
+  priority?: string;
+}
+
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+}
+
+let vapidKeys: Promise<VapidKeys> | null = null;
+
+/**
+ * The VAPID key pair push messages are signed with. Keys set in the
+ * environment win; otherwise a pair is generated once and kept in the
+ * database so every server instance signs with the same key.
+ */
+export function getVapidKeys(db: Db): Promise<VapidKeys> {
+  if (!vapidKeys) {
+    vapidKeys = loadVapidKeys(db).catch(error => {
+      vapidKeys = null;
+      throw error;
+    });
+  }
+  return vapidKeys;
+}
+
+async function loadVapidKeys(db: Db): Promise<VapidKeys> {
+  let keys: VapidKeys;
+  const publicKey = process.env.VAPID_PUBLIC_KEY || process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+
+  if (publicKey && privateKey) {
+    keys = { publicKey, privateKey };
+  } else {
+    const settings = db.collection<VapidKeys & { _id: string; createdAt: Date }>(APP_SETTINGS_COLLECTION);
+    // Instances racing here all keep whichever pair was written first
+    await settings.updateOne(
+      { _id: VAPID_SETTING_ID },
+      { $setOnInsert: { ...webpush.generateVAPIDKeys(), createdAt: new Date() } },
+      { upsert: true }
+    );
+    const stored = await settings.findOne({ _id: VAPID_SETTING_ID });
+    if (!stored) throw new Error('VAPID keys could not be stored');
+    keys = { publicKey: stored.publicKey, privateKey: stored.privateKey };
+  }
+
+  webpush.setVapidDetails(
+    process.env.VAPID_SUBJECT || `mailto:${process.env.SMTP_FROM || process.env.SMTP_USER || 'noreply@olivehaus.app'}`,
+    keys.publicKey,
+    keys.privateKey
+  );
+  return keys;
+}
+
+// What public/sw.js shows, and where a click on it leads
+function pushPayload(notification: PushNotificationRecord): string {
+  const notificationId = notification._id?.toString();
+  return JSON.stringify({
+    title: notification.title,
+    message: notification.message,
+    tag: notificationId || notification.type,
+    url: notification.data?.url || '/',
+    requireInteraction: notification.priority === 'urgent',
+    data: { notificationId, type: notification.type }
+  });
+}
+
+/**
+ * Push notifications to their recipients' subscribed browsers. Failures are
+ * logged, never thrown: push is a courtesy on top of the in-app notification.
+ */
+export async function deliverPushNotifications(db: Db, notifications: PushNotificationRecord[]): Promise<void> {
+  try {
+    const recipientIds = Array.from(new Set(notifications.map(item => item.recipientId.toString())))
+      .map(id => new ObjectId(id));
+    if (recipientIds.length === 0) return;
+
+    const [users, subscriptions] = await Promise.all([
+      db.collection<{ _id: ObjectId; isActive?: boolean }>('users')
+        .find({ _id: { $in: recipientIds } }, { projection: { isActive: 1 } })
+        .toArray(),
+      db.collection<PushSubscriptionRecord>(PUSH_SUBSCRIPTIONS_COLLECTION)
+        .find({ userId: { $in: recipientIds } })
+        .toArray()
+    ]);
+    if (subscriptions.length === 0) return;
+
+    await getVapidKeys(db);
+
+    const delivered: ObjectId[] = [];
+    const expired: ObjectId[] = [];
+    await Promise.all(notifications.flatMap(notification => {
+      const user = users.find(item => item._id.equals(notification.recipientId));
+      if (!user || user.isActive === false) return [];
+
+      const payload = pushPayload(notification);
+      const urgency: webpush.Urgency = ['high', 'urgent'].includes(notification.priority || '') ? 'high' : 'normal';
+      return subscriptions
+        .filter(record => record.userId.equals(notification.recipientId))
+        .map(async record => {
+          try {
+            await webpush.sendNotification(record.subscription, payload, { TTL: PUSH_TTL_SECONDS, urgency });
+            delivered.push(record._id);
+          } catch (error) {
+            // 404 and 410 mean the browser unsubscribed or the subscription expired
+            if (error instanceof webpush.WebPushError && (error.statusCode === 404 || error.statusCode === 410)) {
+              expired.push(record._id);
+            } else {
+              console.error('Error sending push notification:', error);
+            }
+          }
+        });
+    }));
+
+    const collection = db.collection<PushSubscriptionRecord>(PUSH_SUBSCRIPTIONS_COLLECTION);
+    if (expired.length > 0) {
+      await collection.deleteMany({ _id: { $in: expired } });
+    }
+    if (delivered.length > 0) {
+      await collection.updateMany({ _id: { $in: delivered } }, { $set: { lastDeliveredAt: new Date() } });
+    }
+  } catch (error) {
+    console.error('Error delivering push notifications:', error);
+  }
+}
@@ -0,0 +1,20 @@
+// src/lib/realtime.ts - Emit Socket.IO events from API routes
+// server.js runs Next.js in the same process and leaves its Socket.IO server
+// on globalThis, so a route can push an event to the project_<id> rooms
+// clients join through server.js, or to the user_<id> room every connection is
+// put in. Under `next dev` without server.js there is no socket server and
+// events are simply dropped.
+import type { Server } from 'socket.io';
+
+function socketServer(): Server | undefined {
+  return (globalThis as { io?: Server }).io;
+}
+
+export function emitToProject(projectId: string, event: string, payload: unknown): void {
+  socketServer()?.to(`project_${projectId}`).emit(event, payload);
+}
+
+export function emitToUsers(userIds: string[], event: string, payload: unknown): void {
+  if (userIds.length === 0) return;
+  socketServer()?.to(userIds.map(userId => `user_${userId}`)).emit(event, payload);
+}
@@ -0,0 +1,151 @@
+// src/lib/schedule-changes.ts - Checking and saving edits to Project.siteSchedule
+// Routes that change activity dates or activity/phase dependencies plan the
+// edit with planScheduleChange before writing anything. An edit that leaves the
+// schedule circular is refused, and activities that have to move because an
+// activity now finishes later (or gained a predecessor) are saved with it.
+import { AnyBulkWriteOperation, ObjectId } from 'mongodb';
+import {
+  buildScheduleGraph,
+  computeCriticalPath,
+  describeCycle,
+  findDependencyCycle,
+  propagateSlip,
+  ActivityShift,
+  ScheduleActivityInput,
+  ScheduleNode,
+  SchedulePhaseInput
+} from '@/lib/scheduling';
+import { WorkingCalendar, workingDaysUntil } from '@/lib/working-calendar';
+
+export interface ScheduleChangePlan {
+  shifts: ActivityShift[];
+  handover: {
+    previousFinish?: Date;
+    projectedFinish?: Date;
+    slipDays: number; // working days the handover moves out
+  };
+}
+
+export type ScheduleChangeError = { error: string; status: 409 };
+
+function projectFinish(nodes: ScheduleNode[]): Date | undefined {
+  if (findDependencyCycle(nodes)) return undefined;
+  return computeCriticalPath(nodes).projectFinish ?? undefined;
+}
+
+/**
+ * Check the schedule as it will be after an edit (`after`) against how it is
+ * now (`before`) and work out which dependents have to move
+ */
+export function planScheduleChange(
+  before: SchedulePhaseInput[],
+  after: SchedulePhaseInput[],
+  calendar?: WorkingCalendar
+): ScheduleChangePlan | ScheduleChangeError {
+  const nodes = buildScheduleGraph(after);
+  const cycle = findDependencyCycle(nodes);
+  if (cycle) {
+    return { error: `Circular dependency: ${describeCycle(cycle, nodes)}`, status: 409 };
+  }
+
+  const previousNodes = buildScheduleGraph(before);
+  const previous = new Map(previousNodes.map(node => [node.id, node]));
+
+  // Push from every activity that finishes later, and from the new
+  // predecessors of activities whose dependencies changed
+  const sources = new Set<string>();
+  nodes.forEach(node => {
+    const old = previous.get(node.id);
+    if (!old) return; // new activities keep the dates they were given
+    if (node.end > old.end) sources.add(node.id);
+    node.predecessors
+      .filter(id => !old.predecessors.includes(id))
+      .forEach(id => sources.add(id));
+  });
+
+  const original = new Map(nodes.map(node => [node.id, node]));
+  const shifts = new Map<string, ActivityShift>();
+  const moved = () => nodes.map(node => {
+    const shift = shifts.get(node.id);
+    return shift ? { ...node, start: shift.start, end: shift.end } : node;
+  });
+
+  sources.forEach(id => {
+    propagateSlip(moved(), id, calendar).forEach(shift => {
+      const node = original.get(shift.id)!;
+      shifts.set(shift.id, { ...shift, previousStart: node.start, previousEnd: node.end });
+    });
+  });
+
+  const previousFinish = projectFinish(previousNodes);
+  const projectedFinish = projectFinish(moved());
+
+  return {
+    shifts: Array.from(shifts.values()),
+    handover: {
+      previousFinish,
+      projectedFinish,
+      slipDays: previousFinish && projectedFinish && calendar
+        ? Math.max(0, workingDaysUntil(projectedFinish, calendar, previousFinish))
+        : 0
+    }
+  };
+}
+
+// Activities keep whichever pair of date fields they were created with
+function dateFields(activity: ScheduleActivityInput): ['startDate', 'endDate'] | ['plannedStartDate', 'plannedEndDate'] {
+  return activity.startDate || !activity.plannedStartDate
+    ? ['startDate', 'endDate']
+    : ['plannedStartDate', 'plannedEndDate'];
+}
+
+function findShiftedActivity(phases: SchedulePhaseInput[], shift: ActivityShift): ScheduleActivityInput | undefined {
+  return phases
+    .find(phase => String(phase._id) === shift.phaseId)
+    ?.activities?.find(activity => String(activity._id) === shift.id);
+}
+
+/**
+ * Move the shifted activities in loaded phases (e.g. a mongoose document) before it is saved
+ */
+export function applyScheduleShifts(phases: SchedulePhaseInput[], shifts: ActivityShift[], now: Date = new Date()): void {
+  shifts.forEach(shift => {
+    const activity = findShiftedActivity(phases, shift);
+    if (!activity) return;
+    const [startField, endField] = dateFields(activity);
+    Object.assign(activity, { [startField]: shift.start, [endField]: shift.end, updatedAt: now });
+  });
+}
+
+/**
+ * bulkWrite operations that move the shifted activities of a project
+ */
+export function scheduleShiftOperations(
+  projectId: ObjectId,
+  phases: SchedulePhaseInput[],
+  shifts: ActivityShift[],
+  now: Date = new Date()
+): AnyBulkWriteOperation[] {
+  return shifts.flatMap(shift => {
+    const activity = findShiftedActivity(phases, shift);
+    if (!activity) return [];
+    const [startField, endField] = dateFields(activity);
+
+    return [{
+      updateOne: {
+        filter: { _id: projectId },
+        update: {
+          $set: {
+            [`siteSchedule.phases.$[phase].activities.$[activity].${startField}`]: shift.start,
+            [`siteSchedule.phases.$[phase].activities.$[activity].${endField}`]: shift.end,
+            'siteSchedule.phases.$[phase].activities.$[activity].updatedAt': now
+          }
+        },
+        arrayFilters: [
+          { 'phase._id': new ObjectId(shift.phaseId) },
+          { 'activity._id': new ObjectId(shift.id) }
+        ]
+      }
+    }];
+  });
+}
@@ -0,0 +1,325 @@
+// src/lib/scheduled-notifications.ts - Reminders and digests raised by scheduled jobs
+// Each reminder or digest is claimed in job_deliveries before it goes out, so
+// a run that overlaps another (or repeats after a crash) never sends it twice.
+import { Db, MongoServerError, ObjectId } from 'mongodb';
+import { dispatchNotifications, NOTIFICATIONS_COLLECTION } from '@/lib/notifications';
+import { sendDigestEmail } from '@/lib/email';
+import { getActivityDates, SchedulePhaseInput } from '@/lib/scheduling';
+import { CalendarProject, loadProjectCalendar, workingDaysUntil, WorkingCalendar } from '@/lib/working-calendar';
+import {
+  DEFAULT_USER_PREFERENCES,
+  loadUserPreferences,
+  localClock,
+  USER_PREFERENCES_COLLECTION,
+  UserPreferences
+} from '@/lib/user-preferences';
+
+export const JOB_DELIVERIES_COLLECTION = 'job_deliveries';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Reminders still go out this long after the event started, then are dropped
+const REMINDER_GRACE_MS = 5 * MINUTE_MS;
+// The longest reminder lead time events are searched for
+const MAX_REMINDER_LEAD_MS = 7 * DAY_MS;
+// Tasks and activities due by the end of the next working day on their
+// project's calendar get a deadline reminder, so a Monday deadline is flagged
+// on the Friday before. Deadlines are looked for this far ahead, which covers
+// weekends, public holidays and site closures.
+const DEADLINE_WORKING_DAYS = 1;
+const DEADLINE_LOOKAHEAD_MS = 21 * DAY_MS;
+// Digests go out from this hour of the recipient's day; weekly ones on Mondays
+const DIGEST_HOUR = 8;
+const WEEKLY_DIGEST_WEEKDAY = 'Mon';
+
+interface CalendarReminderEvent {
+  _id: ObjectId;
+  title: string;
+  startDate: Date;
+  endDate: Date;
+  allDay?: boolean;
+  projectId?: ObjectId;
+  createdBy: ObjectId;
+  attendees?: ObjectId[];
+  priority?: string;
+  reminders: Array<{ type: 'email' | 'notification'; minutesBefore: number }>;
+}
+
+interface DeadlineTask {
+  _id: ObjectId;
+  title: string;
+  deadline: Date;
+  priority?: string;
+  projectId: ObjectId;
+  assignedTo: ObjectId;
+}
+
+interface DeadlineProject extends CalendarProject {
+  _id: ObjectId;
+  title: string;
+  managers?: ObjectId[];
+  siteSchedule?: { phases?: SchedulePhaseInput[] };
+}
+
+interface Recipient {
+  _id: ObjectId;
+  name: string;
+  role: string;
+  preferences: UserPreferences;
+}
+
+/**
+ * Record that a reminder or digest is going out. Returns false when an earlier
+ * run, or another server instance, already claimed it.
+ */
+export async function claimDelivery(db: Db, key: string): Promise<boolean> {
+  try {
+    await db.collection<{ _id: string; createdAt: Date }>(JOB_DELIVERIES_COLLECTION).insertOne({ _id: key, createdAt: new Date() });
+    return true;
+  } catch (error) {
+    if (error instanceof MongoServerError && error.code === 11000) return false;
+    throw error;
+  }
+}
+
+// Active users with their preferences, keyed by id
+async function loadRecipients(db: Db, ids: ObjectId[]): Promise<Map<string, Recipient>> {
+  const uniqueIds = Array.from(new Set(ids.map(id => id.toString()))).map(id => new ObjectId(id));
+  if (uniqueIds.length === 0) return new Map();
+
+  const [users, preferences] = await Promise.all([
+    db.collection<{ _id: ObjectId; name: string; role: string }>('users')
+      .find({ _id: { $in: uniqueIds }, isActive: { $ne: false } }, { projection: { name: 1, role: 1 } })
+      .toArray(),
+    loadUserPreferences(db, uniqueIds)
+  ]);
+
+  return new Map(users.map(user => [user._id.toString(), {
+    ...user,
+    preferences: preferences.get(user._id.toString()) || DEFAULT_USER_PREFERENCES
+  }]));
+}
+
+function dashboardPath(role: string): string {
+  return role === 'super_admin' ? 'admin' : role === 'project_manager' ? 'manager' : 'client';
+}
+
+function formatLocal(date: Date, timeZone: string, withTime: boolean): string {
+  return date.toLocaleString('en-GB', {
+    timeZone,
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    ...(withTime ? { hour: '2-digit', minute: '2-digit' } : {})
+  });
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+/**
+ * Fire the reminders set on calendar events whose time has come, to the
+ * organiser and every attendee. Email and in-app reminders alike go through
+ * the dispatcher, so each person's routing for deadlines decides the channels.
+ */
+export async function sendCalendarReminders(db: Db, now: Date): Promise<string> {
+  const events = await db.collection<CalendarReminderEvent>('calendar_events').find({
+    status: 'scheduled',
+    'reminders.0': { $exists: true },
+    startDate: { $gt: new Date(now.getTime() - REMINDER_GRACE_MS), $lte: new Date(now.getTime() + MAX_REMINDER_LEAD_MS) }
+  }).toArray();
+
+  const due = events.flatMap(event => event.reminders
+    .filter(reminder => event.startDate.getTime() - reminder.minutesBefore * MINUTE_MS <= now.getTime())
+    .map(reminder => ({ event, reminder })));
+  if (due.length === 0) return 'No reminders due';
+
+  const recipients = await loadRecipients(db, due.flatMap(({ event }) => [event.createdBy, ...(event.attendees || [])]));
+  const notifications = [];
+
+  for (const { event, reminder } of due) {
+    // An email and an in-app reminder at the same lead time now raise the same notification
+    const key = `calendar:${event._id.toString()}:${reminder.minutesBefore}:${event.startDate.toISOString()}`;
+    if (!(await claimDelivery(db, key))) continue;
+
+    const people = [event.createdBy, ...(event.attendees || [])]
+      .map(id => recipients.get(id.toString()))
+      .filter((person, index, list): person is Recipient => !!person && list.indexOf(person) === index);
+
+    for (const person of people) {
+      notifications.push({
+        recipientId: person._id,
+        type: 'deadline_approaching',
+        title: `Reminder: ${event.title}`,
+        message: `${event.title} starts ${formatLocal(event.startDate, person.preferences.timezone, !event.allDay)}`,
+        data: {
+          eventId: event._id.toString(),
+          ...(event.projectId ? { projectId: event.projectId.toString() } : {}),
+          url: `/${dashboardPath(person.role)}/calendar`
+        },
+        isRead: false,
+        priority: event.priority || 'medium',
+        category: 'info',
+        actionRequired: false,
+        expiresAt: event.endDate,
+        createdAt: now,
+        updatedAt: now
+      });
+    }
+  }
+
+  await dispatchNotifications(db, notifications);
+  return `Sent ${plural(notifications.length, 'calendar reminder')}`;
+}
+
+/**
+ * Warn about work due within the next day: each open task's assignee, and the
+ * project managers for each unfinished site-schedule activity.
+ */
+export async function sendDeadlineReminders(db: Db, now: Date): Promise<string> {
+  const horizon = new Date(now.getTime() + DEADLINE_LOOKAHEAD_MS);
+  const calendarFields = { workCalendar: 1, workDays: 1, startDate: 1, endDate: 1 };
+
+  const [upcomingTasks, projects] = await Promise.all([
+    db.collection<DeadlineTask>('tasks').find({
+      status: { $ne: 'completed' },
+      assignedTo: { $type: 'objectId' },
+      deadline: { $gt: now, $lte: horizon }
+    }).toArray(),
+    db.collection<DeadlineProject>('projects').find(
+      { status: { $nin: ['completed', 'cancelled'] }, 'siteSchedule.phases.activities.0': { $exists: true } },
+      { projection: { title: 1, managers: 1, 'siteSchedule.phases': 1, ...calendarFields } }
+    ).toArray()
+  ]);
+
+  const taskProjectIds = upcomingTasks.map(task => task.projectId);
+  const taskProjects = taskProjectIds.length > 0
+    ? await db.collection<DeadlineProject>('projects')
+      .find({ _id: { $in: taskProjectIds } }, { projection: { title: 1, ...calendarFields } })
+      .toArray()
+    : [];
+  const projectTitles = new Map(taskProjects.map(project => [project._id.toString(), project.title]));
+
+  // Each project's working calendar, loaded once however many deadlines it
+  // has; a task whose project is gone falls back to the default calendar
+  const calendars = new Map<string, WorkingCalendar>();
+  for (const project of [...projects, ...taskProjects]) {
+    const key = project._id.toString();
+    if (!calendars.has(key)) calendars.set(key, await loadProjectCalendar(db, project));
+  }
+  const defaultCalendar = upcomingTasks.some(task => !calendars.has(task.projectId.toString()))
+    ? await loadProjectCalendar(db, {})
+    : undefined;
+  const isDueSoon = (projectId: ObjectId, deadline: Date): boolean => {
+    const calendar = calendars.get(projectId.toString()) || defaultCalendar;
+    return deadline > now && deadline <= horizon && !!calendar &&
+      workingDaysUntil(deadline, calendar, now) <= DEADLINE_WORKING_DAYS;
+  };
+
+  const tasks = upcomingTasks.filter(task => isDueSoon(task.projectId, task.deadline));
+  const activities = projects.flatMap(project => (project.siteSchedule?.phases || []).flatMap(phase =>
+    (phase.activities || []).flatMap(activity => {
+      const dates = getActivityDates(activity);
+      if (activity.status === 'completed' || !dates || !isDueSoon(project._id, dates.end)) return [];
+      return [{ project, activity, end: dates.end }];
+    })
+  ));
+  if (tasks.length === 0 && activities.length === 0) return 'Nothing due';
+
+  const recipients = await loadRecipients(db, [
+    ...tasks.map(task => task.assignedTo),
+    ...activities.flatMap(({ project }) => project.managers || [])
+  ]);
+  const notifications = [];
+
+  for (const task of tasks) {
+    const person = recipients.get(task.assignedTo.toString());
+    if (!person || !(await claimDelivery(db, `deadline:task:${task._id.toString()}:${task.deadline.toISOString()}`))) continue;
+
+    const projectTitle = projectTitles.get(task.projectId.toString());
+    notifications.push({
+      recipientId: person._id,
+      type: 'deadline_approaching',
+      title: 'Task Due Soon',
+      message: `${task.title}${projectTitle ? ` on ${projectTitle}` : ''} is due ${formatLocal(task.deadline, person.preferences.timezone, true)}`,
+      data: {
+        projectId: task.projectId.toString(),
+        taskId: task._id.toString(),
+        url: person.role === 'client' ? '/client/pending-tasks' : `/${dashboardPath(person.role)}/projects/${task.projectId.toString()}`
+      },
+      isRead: false,
+      priority: task.priority === 'urgent' ? 'urgent' : 'high',
+      category: 'warning',
+      actionRequired: true,
+      createdAt: now,
+      updatedAt: now
+    });
+  }
+
+  for (const { project, activity, end } of activities) {
+    const managers = (project.managers || [])
+      .map(id => recipients.get(id.toString()))
+      .filter((person): person is Recipient => !!person);
+    if (managers.length === 0 || !(await claimDelivery(db, `deadline:activity:${String(activity._id)}:${end.toISOString()}`))) continue;
+
+    managers.forEach(person => notifications.push({
+      recipientId: person._id,
+      type: 'deadline_approaching',
+      title: 'Activity Due Soon',
+      message: `"${activity.title}" on ${project.title} is due to finish ${formatLocal(end, person.preferences.timezone, false)}`,
+      data: {
+        projectId: project._id.toString(),
+        activityId: String(activity._id),
+        url: `/${dashboardPath(person.role)}/projects/${project._id.toString()}`
+      },
+      isRead: false,
+      priority: 'high',
+      category: 'warning',
+      actionRequired: false,
+      createdAt: now,
+      updatedAt: now
+    }));
+  }
+
+  await dispatchNotifications(db, notifications);
+  return `Sent ${plural(notifications.length, 'deadline reminder')} for ${plural(tasks.length, 'task')} and ${plural(activities.length, 'activity')} due`;
+}
+
+/**
+ * Send the daily and weekly digests users opted into, once the recipient's
+ * own clock passes the digest hour. Anyone with digest-only notifications
+ * waiting gets a daily digest for them even without opting in.
+ */
+export async function sendDueDigests(db: Db, now: Date): Promise<string> {
+  const [subscribers, pendingRecipients] = await Promise.all([
+    db.collection<{ userId: ObjectId }>(USER_PREFERENCES_COLLECTION)
+      .find({ $or: [{ dailyDigest: true }, { weeklyReports: true }] }, { projection: { userId: 1 } })
+      .toArray(),
+    db.collection(NOTIFICATIONS_COLLECTION)
+      .distinct('recipientId', { digestOnly: true, digestedAt: { $exists: false } }) as Promise<ObjectId[]>
+  ]);
+  const pending = new Set(pendingRecipients.map(id => id.toString()));
+  const recipients = await loadRecipients(db, [...subscribers.map(item => item.userId), ...pendingRecipients]);
+
+  let sent = 0;
+  let failed = 0;
+  for (const person of recipients.values()) {
+    const clock = localClock(now, person.preferences.timezone);
+    if (clock.hour < DIGEST_HOUR) continue;
+
+    const periods: Array<'daily' | 'weekly'> = [];
+    if (person.preferences.dailyDigest || pending.has(person._id.toString())) periods.push('daily');
+    if (person.preferences.weeklyReports && clock.weekday === WEEKLY_DIGEST_WEEKDAY) periods.push('weekly');
+
+    for (const period of periods) {
+      if (!(await claimDelivery(db, `digest:${period}:${person._id.toString()}:${clock.day}`))) continue;
+      if (await sendDigestEmail(person._id.toString(), period)) sent++;
+      else failed++;
+    }
+  }
+
+  if (failed > 0) {
+    throw new Error(`${plural(failed, 'digest')} could not be sent (${sent} sent)`);
+  }
+  return `Sent ${plural(sent, 'digest')} to ${plural(recipients.size, 'recipient')}`;
+}
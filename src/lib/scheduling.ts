@@ -0,0 +1,380 @@
+// src/lib/scheduling.ts - Critical-path scheduling for Project.siteSchedule
+// Treats siteSchedule phases and activities as one dependency graph:
+// an activity depends on the activities listed in its `dependencies`, and on
+// every activity of any phase listed in its phase's `dependencies`.
+import type { ObjectId } from 'mongodb';
+import {
+  addWorkingDays,
+  countWorkingDays,
+  nextWorkingDay,
+  WorkingCalendar
+} from '@/lib/working-calendar';
+
+type Id = ObjectId | string;
+
+// Activities created through /api/projects/[id]/schedule/activities use the
+// planned* field names, the mongoose schema uses startDate/endDate
+export interface ScheduleActivityInput {
+  _id: Id;
+  title: string;
+  status?: string;
+  startDate?: Date | string;
+  endDate?: Date | string;
+  plannedStartDate?: Date | string;
+  plannedEndDate?: Date | string;
+  dependencies?: Id[];
+}
+
+export interface SchedulePhaseInput {
+  _id: Id;
+  name: string;
+  activities?: ScheduleActivityInput[];
+  dependencies?: Id[];
+}
+
+export interface ScheduleNode {
+  id: string;
+  phaseId: string;
+  title: string;
+  status?: string;
+  start: Date;
+  end: Date;
+  predecessors: string[];
+}
+
+export interface ScheduledActivity extends ScheduleNode {
+  earlyStart: Date;
+  earlyFinish: Date;
+  lateStart: Date;
+  lateFinish: Date;
+  totalFloat: number; // days
+  critical: boolean;
+}
+
+export interface CriticalPathResult {
+  activities: ScheduledActivity[];
+  criticalPath: string[]; // activity ids in start order
+  projectStart: Date | null;
+  projectFinish: Date | null;
+}
+
+export interface ActivityShift {
+  id: string;
+  phaseId: string;
+  title: string;
+  previousStart: Date;
+  previousEnd: Date;
+  start: Date;
+  end: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function getActivityDates(activity: ScheduleActivityInput): { start: Date; end: Date } | null {
+  const start = activity.startDate ?? activity.plannedStartDate;
+  const end = activity.endDate ?? activity.plannedEndDate;
+  if (!start || !end) return null;
+
+  const startDate = new Date(start);
+  const endDate = new Date(end);
+  if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) return null;
+
+  return { start: startDate, end: endDate < startDate ? startDate : endDate };
+}
+
+/**
+ * Flatten phases into graph nodes, expanding phase-level dependencies into
+ * activity predecessors. Activities without dates are left out of the graph.
+ */
+export function buildScheduleGraph(phases: SchedulePhaseInput[]): ScheduleNode[] {
+  const phaseActivityIds = new Map<string, string[]>();
+  phases.forEach(phase => {
+    phaseActivityIds.set(String(phase._id), (phase.activities || []).map(a => String(a._id)));
+  });
+
+  const nodes: ScheduleNode[] = [];
+  phases.forEach(phase => {
+    const phaseId = String(phase._id);
+    const phasePredecessors = (phase.dependencies || [])
+      .map(String)
+      .filter(id => id !== phaseId)
+      .flatMap(id => phaseActivityIds.get(id) || []);
+
+    (phase.activities || []).forEach(activity => {
+      const dates = getActivityDates(activity);
+      if (!dates) return;
+
+      const id = String(activity._id);
+      const predecessors = new Set([
+        ...(activity.dependencies || []).map(String),
+        ...phasePredecessors
+      ]);
+      predecessors.delete(id);
+
+      nodes.push({
+        id,
+        phaseId,
+        title: activity.title,
+        status: activity.status,
+        start: dates.start,
+        end: dates.end,
+        predecessors: Array.from(predecessors)
+      });
+    });
+  });
+
+  // Drop references to activities that no longer exist (or have no dates)
+  const known = new Set(nodes.map(node => node.id));
+  nodes.forEach(node => {
+    node.predecessors = node.predecessors.filter(id => known.has(id));
+  });
+
+  return nodes;
+}
+
+/**
+ * Find a dependency cycle, returning the ids along it (first id repeated at the end)
+ */
+export function findDependencyCycle(nodes: ScheduleNode[]): string[] | null {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    if (state.get(id) === 'done') return null;
+    if (state.get(id) === 'visiting') {
+      return [...stack.slice(stack.indexOf(id)), id];
+    }
+
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const predecessor of byId.get(id)?.predecessors || []) {
+      const cycle = visit(predecessor);
+      if (cycle) return cycle;
+    }
+    stack.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const node of nodes) {
+    const cycle = visit(node.id);
+    if (cycle) return cycle.reverse(); // predecessor -> successor order
+  }
+  return null;
+}
+
+function successorMap(nodes: ScheduleNode[]): Map<string, string[]> {
+  const successors = new Map<string, string[]>();
+  nodes.forEach(node => node.predecessors.forEach(id => {
+    successors.set(id, [...(successors.get(id) || []), node.id]);
+  }));
+  return successors;
+}
+
+// Kahn's algorithm; callers must have rejected cycles first
+function topologicalOrder(nodes: ScheduleNode[]): ScheduleNode[] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const remaining = new Map(nodes.map(node => [node.id, node.predecessors.length]));
+  const successors = successorMap(nodes);
+
+  const queue = nodes
+    .filter(node => node.predecessors.length === 0)
+    .sort((a, b) => a.start.getTime() - b.start.getTime());
+  const order: ScheduleNode[] = [];
+
+  while (queue.length > 0) {
+    const node = queue.shift()!;
+    order.push(node);
+    (successors.get(node.id) || []).forEach(id => {
+      const count = remaining.get(id)! - 1;
+      remaining.set(id, count);
+      if (count === 0) queue.push(byId.get(id)!);
+    });
+  }
+
+  if (order.length !== nodes.length) {
+    throw new Error('Schedule contains a circular dependency');
+  }
+  return order;
+}
+
+/**
+ * Forward/backward pass over the graph. An activity can't start before its
+ * own planned start (start-no-earlier-than) or before all predecessors finish.
+ */
+export function computeCriticalPath(nodes: ScheduleNode[]): CriticalPathResult {
+  if (nodes.length === 0) {
+    return { activities: [], criticalPath: [], projectStart: null, projectFinish: null };
+  }
+
+  const order = topologicalOrder(nodes);
+  const duration = new Map(nodes.map(node => [node.id, node.end.getTime() - node.start.getTime()]));
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+
+  order.forEach(node => {
+    const start = Math.max(
+      node.start.getTime(),
+      ...node.predecessors.map(id => earlyFinish.get(id)!)
+    );
+    earlyStart.set(node.id, start);
+    earlyFinish.set(node.id, start + duration.get(node.id)!);
+  });
+
+  const projectFinish = Math.max(...Array.from(earlyFinish.values()));
+  const successors = successorMap(nodes);
+
+  const lateStart = new Map<string, number>();
+  const lateFinish = new Map<string, number>();
+
+  [...order].reverse().forEach(node => {
+    const next = successors.get(node.id) || [];
+    const finish = next.length > 0
+      ? Math.min(...next.map(id => lateStart.get(id)!))
+      : projectFinish;
+    lateFinish.set(node.id, finish);
+    lateStart.set(node.id, finish - duration.get(node.id)!);
+  });
+
+  const activities: ScheduledActivity[] = order.map(node => {
+    // Round to whole hours so date-only inputs don't produce float noise
+    const floatMs = Math.round((lateStart.get(node.id)! - earlyStart.get(node.id)!) / 3600000) * 3600000;
+    return {
+      ...node,
+      earlyStart: new Date(earlyStart.get(node.id)!),
+      earlyFinish: new Date(earlyFinish.get(node.id)!),
+      lateStart: new Date(lateStart.get(node.id)!),
+      lateFinish: new Date(lateFinish.get(node.id)!),
+      totalFloat: Math.round((floatMs / DAY_MS) * 10) / 10,
+      critical: floatMs <= 0
+    };
+  });
+
+  return {
+    activities,
+    criticalPath: activities
+      .filter(activity => activity.critical)
+      .sort((a, b) => a.earlyStart.getTime() - b.earlyStart.getTime())
+      .map(activity => activity.id),
+    projectStart: new Date(Math.min(...nodes.map(node => node.start.getTime()))),
+    projectFinish: new Date(projectFinish)
+  };
+}
+
+/**
+ * Push dependents of `activityId` forward so none starts before its
+ * predecessors finish. Durations are kept; nothing is ever pulled earlier.
+ * With a calendar, moved activities start on a working day and keep their
+ * length in working days rather than calendar days.
+ */
+export function propagateSlip(nodes: ScheduleNode[], activityId: string, calendar?: WorkingCalendar): ActivityShift[] {
+  const order = topologicalOrder(nodes);
+  const successors = successorMap(nodes);
+
+  // Only the downstream part of the graph may move
+  const affected = new Set<string>();
+  const pending = [...(successors.get(activityId) || [])];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (affected.has(id)) continue;
+    affected.add(id);
+    pending.push(...(successors.get(id) || []));
+  }
+
+  const finish = new Map(nodes.map(node => [node.id, node.end.getTime()]));
+  const shifts: ActivityShift[] = [];
+
+  order.forEach(node => {
+    if (!affected.has(node.id) || node.status === 'completed') return;
+
+    const requiredStart = Math.max(...node.predecessors.map(id => finish.get(id)!));
+    if (requiredStart <= node.start.getTime()) return;
+
+    const delta = requiredStart - node.start.getTime();
+    let start = new Date(node.start.getTime() + delta);
+    let end = new Date(node.end.getTime() + delta);
+
+    if (calendar) {
+      const workingLength = Math.max(0, countWorkingDays(node.start, node.end, calendar) - 1);
+      start = nextWorkingDay(start, calendar);
+      end = addWorkingDays(start, workingLength, calendar);
+    }
+
+    const shift: ActivityShift = {
+      id: node.id,
+      phaseId: node.phaseId,
+      title: node.title,
+      previousStart: node.start,
+      previousEnd: node.end,
+      start,
+      end
+    };
+    finish.set(node.id, shift.end.getTime());
+    shifts.push(shift);
+  });
+
+  return shifts;
+}
+
+/**
+ * Move the given activities `days` later (earlier when negative), keeping
+ * their length, then push their dependents forward as propagateSlip does.
+ * With a calendar the move counts working days. Completed activities stay put.
+ */
+export function shiftActivities(
+  nodes: ScheduleNode[],
+  activityIds: string[],
+  days: number,
+  calendar?: WorkingCalendar
+): ActivityShift[] {
+  if (days === 0) return [];
+
+  const ids = new Set(activityIds);
+  const original = new Map(nodes.map(node => [node.id, node]));
+  const shifts = new Map<string, ActivityShift>();
+
+  nodes.forEach(node => {
+    if (!ids.has(node.id) || node.status === 'completed') return;
+
+    let start = new Date(node.start.getTime() + days * DAY_MS);
+    let end = new Date(node.end.getTime() + days * DAY_MS);
+    if (calendar) {
+      const workingLength = Math.max(0, countWorkingDays(node.start, node.end, calendar) - 1);
+      start = addWorkingDays(node.start, days, calendar);
+      end = addWorkingDays(start, workingLength, calendar);
+    }
+
+    shifts.set(node.id, {
+      id: node.id,
+      phaseId: node.phaseId,
+      title: node.title,
+      previousStart: node.start,
+      previousEnd: node.end,
+      start,
+      end
+    });
+  });
+
+  const moved = () => nodes.map(node => {
+    const shift = shifts.get(node.id);
+    return shift ? { ...node, start: shift.start, end: shift.end } : node;
+  });
+
+  Array.from(shifts.keys()).forEach(id => {
+    propagateSlip(moved(), id, calendar).forEach(slip => {
+      const node = original.get(slip.id)!;
+      shifts.set(slip.id, { ...slip, previousStart: node.start, previousEnd: node.end });
+    });
+  });
+
+  return Array.from(shifts.values());
+}
+
+/**
+ * Describe a cycle with activity titles, e.g. "Tiling → Screeding → Tiling"
+ */
+export function describeCycle(cycle: string[], nodes: ScheduleNode[]): string {
+  const titles = new Map(nodes.map(node => [node.id, node.title]));
+  return cycle.map(id => titles.get(id) || id).join(' → ');
+}
@@ -0,0 +1,365 @@
+// src/lib/search.ts - Global full-text search across project data
+// Each searchable collection has one text index, created with the other indexes
+// by createIndexes (src/lib/db.ts). Results are restricted to the projects the
+// user can access (client, managers, or everything for super_admin) and, for
+// messages, to conversations the user takes part in.
+import { Db, Document, ObjectId } from 'mongodb';
+import { textSearch } from '@/lib/db';
+import DailyProgress from '@/models/DailyProgress';
+
+export type SearchResultType = 'project' | 'activity' | 'daily_report' | 'message' | 'file' | 'incident' | 'risk';
+
+export interface SearchResult {
+  id: string;
+  type: SearchResultType;
+  title: string;
+  snippet?: string;
+  projectId?: string;
+  projectTitle?: string;
+  date?: string;
+  href: string;
+}
+
+export interface SearchResultGroup {
+  type: SearchResultType;
+  label: string;
+  results: SearchResult[];
+}
+
+export const SEARCH_RESULT_TYPES: SearchResultType[] = ['project', 'activity', 'daily_report', 'message', 'file', 'incident', 'risk'];
+
+export const SEARCH_GROUP_LABELS: Record<SearchResultType, string> = {
+  project: 'Projects',
+  activity: 'Schedule Activities',
+  daily_report: 'Daily Reports',
+  message: 'Messages',
+  file: 'Files',
+  incident: 'Incidents',
+  risk: 'Risks'
+};
+
+const DAILY_PROGRESS_COLLECTION = DailyProgress.collection.collectionName;
+
+const SNIPPET_LENGTH = 140;
+
+/**
+ * Lower-cased search words with common English suffixes trimmed, so that
+ * "tiles" finds "tiling" the way the text index's stemming does
+ */
+export function searchTerms(query: string): string[] {
+  return Array.from(new Set(
+    query.toLowerCase()
+      .split(/[^\p{L}\p{N}]+/u)
+      .filter(word => word.length >= 2)
+      .map(word => word.length > 4 ? word.replace(/(ing|ed|es|s)$/, '') : word)
+  ));
+}
+
+export function matchesTerms(text: string | undefined | null, terms: string[]): boolean {
+  if (!text) return false;
+  const lower = text.toLowerCase();
+  return terms.some(term => lower.includes(term));
+}
+
+/**
+ * A short excerpt of `text` around the first matching term
+ */
+export function buildSnippet(text: string | undefined | null, terms: string[]): string | undefined {
+  if (!text) return undefined;
+  const flat = text.replace(/\s+/g, ' ').trim();
+  if (flat.length <= SNIPPET_LENGTH) return flat;
+
+  const lower = flat.toLowerCase();
+  const position = Math.min(...terms.map(term => lower.indexOf(term)).filter(index => index >= 0), flat.length);
+  const start = position === flat.length ? 0 : Math.max(0, position - 40);
+  const excerpt = flat.slice(start, start + SNIPPET_LENGTH);
+  return `${start > 0 ? '…' : ''}${excerpt}${start + SNIPPET_LENGTH < flat.length ? '…' : ''}`;
+}
+
+export interface SearchUser {
+  id: string;
+  role: string;
+}
+
+export interface SearchOptions {
+  types?: SearchResultType[];
+  limit?: number; // per group
+}
+
+interface SearchContext {
+  db: Db;
+  user: SearchUser;
+  terms: string[];
+  query: string;
+  limit: number;
+  baseRoute: string;
+  // null means every project (super_admin)
+  projectIds: ObjectId[] | null;
+  projectTitles: Map<string, string>;
+}
+
+function projectScope(context: SearchContext, field: string): Record<string, unknown> {
+  return context.projectIds ? { [field]: { $in: context.projectIds } } : {};
+}
+
+const toIso = (value: unknown): string | undefined =>
+  value instanceof Date ? value.toISOString() : undefined;
+
+async function searchProjects(context: SearchContext): Promise<{ projects: SearchResult[]; activities: SearchResult[] }> {
+  const { terms, baseRoute } = context;
+  const projects = await textSearch('projects', context.query, {
+    filter: projectScope(context, '_id'),
+    limit: context.limit * 2
+  });
+
+  const projectResults: SearchResult[] = [];
+  const activityResults: SearchResult[] = [];
+
+  for (const project of projects) {
+    const projectId = String(project._id);
+    const activityMatches: SearchResult[] = [];
+
+    for (const phase of project.siteSchedule?.phases || []) {
+      for (const activity of phase.activities || []) {
+        const comments: Document[] = Array.isArray(activity.comments) ? activity.comments : [];
+        const comment = comments.find(c => matchesTerms(c.content, terms));
+        if (!matchesTerms(activity.title, terms) && !matchesTerms(activity.notes, terms) && !comment) continue;
+
+        activityMatches.push({
+          id: String(activity._id),
+          type: 'activity',
+          title: activity.title,
+          snippet: buildSnippet(comment?.content || activity.notes || phase.name, terms),
+          projectId,
+          projectTitle: project.title,
+          date: toIso(activity.plannedStartDate || activity.startDate),
+          href: `${baseRoute}/projects/${projectId}/schedule?activity=${activity._id}`
+        });
+      }
+    }
+
+    // Projects found only through their activities are listed under the activities
+    const projectMatched = matchesTerms(project.title, terms)
+      || matchesTerms(project.description, terms)
+      || matchesTerms(project.siteAddress, terms);
+    if (projectMatched || activityMatches.length === 0) {
+      projectResults.push({
+        id: projectId,
+        type: 'project',
+        title: project.title,
+        snippet: buildSnippet(matchesTerms(project.siteAddress, terms) ? project.siteAddress : project.description, terms),
+        projectId,
+        projectTitle: project.title,
+        href: `${baseRoute}/projects/${projectId}`
+      });
+    }
+    activityResults.push(...activityMatches);
+  }
+
+  return {
+    projects: projectResults.slice(0, context.limit),
+    activities: activityResults.slice(0, context.limit)
+  };
+}
+
+async function searchDailyReports(context: SearchContext): Promise<SearchResult[]> {
+  const { terms, baseRoute } = context;
+  const reports = await textSearch(DAILY_PROGRESS_COLLECTION, context.query, {
+    filter: projectScope(context, 'project'),
+    limit: context.limit
+  });
+
+  return reports.flatMap(report => {
+    const projectId = String(report.project);
+    const date = report.date instanceof Date ? report.date.toISOString().split('T')[0] : undefined;
+    // Clients see every day's activities on their site schedule page
+    const hrefFor = (activityId: string) => context.user.role === 'client'
+      ? `${baseRoute}/site-schedule?activity=${activityId}`
+      : `${baseRoute}/site-schedule/daily?projectId=${projectId}${date ? `&date=${date}` : ''}&activity=${activityId}`;
+
+    return (report.activities || []).flatMap((activity: Document) => {
+      const clientComments: Document[] = activity.clientComments || [];
+      const clientComment = clientComments.find(c => matchesTerms(c.content, terms));
+      if (!matchesTerms(activity.title, terms) && !matchesTerms(activity.comments, terms) && !clientComment) return [];
+
+      return [{
+        id: String(activity._id),
+        type: 'daily_report' as const,
+        title: activity.title,
+        snippet: buildSnippet(clientComment?.content || activity.comments, terms),
+        projectId,
+        projectTitle: context.projectTitles.get(projectId),
+        date: toIso(report.date),
+        href: hrefFor(String(activity._id))
+      }];
+    });
+  }).slice(0, context.limit);
+}
+
+async function searchMessages(context: SearchContext): Promise<SearchResult[]> {
+  const userId = new ObjectId(context.user.id);
+  const messages = await textSearch('messages', context.query, {
+    filter: {
+      isDeleted: { $ne: true },
+      $or: [
+        { senderId: userId },
+        { recipientId: userId },
+        // Project-wide messages
+        { recipientId: null, ...projectScope(context, 'projectId') }
+      ]
+    },
+    limit: context.limit
+  });
+
+  const senderIds = Array.from(new Set(messages.map(message => String(message.senderId))));
+  const senders = await context.db.collection('users')
+    .find({ _id: { $in: senderIds.map(id => new ObjectId(id)) } }, { projection: { name: 1 } })
+    .toArray();
+  const senderNames = new Map(senders.map(sender => [String(sender._id), sender.name as string]));
+
+  return messages.map(message => {
+    const projectId = message.projectId ? String(message.projectId) : undefined;
+    const sentByUser = String(message.senderId) === context.user.id;
+    const participantId = sentByUser ? message.recipientId : message.senderId;
+    return {
+      id: String(message._id),
+      type: 'message',
+      title: sentByUser ? 'You' : senderNames.get(String(message.senderId)) || 'Unknown sender',
+      snippet: buildSnippet(message.content, context.terms),
+      projectId,
+      projectTitle: projectId ? context.projectTitles.get(projectId) : undefined,
+      date: toIso(message.createdAt),
+      href: participantId ? `${context.baseRoute}/messages?with=${participantId}` : `${context.baseRoute}/messages`
+    };
+  });
+}
+
+async function searchFiles(context: SearchContext): Promise<SearchResult[]> {
+  const files = await textSearch('files', context.query, {
+    filter: projectScope(context, 'projectId'),
+    limit: context.limit
+  });
+
+  return files.map(file => {
+    const projectId = file.projectId ? String(file.projectId) : undefined;
+    const matchedTags = (file.tags || []).filter((tag: string) => matchesTerms(tag, context.terms));
+    return {
+      id: String(file._id),
+      type: 'file',
+      title: file.originalName || file.filename,
+      snippet: matchedTags.length ? `Tags: ${matchedTags.join(', ')}` : buildSnippet(file.description, context.terms),
+      projectId,
+      projectTitle: projectId ? context.projectTitles.get(projectId) : undefined,
+      date: toIso(file.createdAt),
+      href: `${context.baseRoute}/files?search=${encodeURIComponent(file.originalName || file.filename)}`
+    };
+  });
+}
+
+// Administrators have no incident/risk register page, so they land on the project
+function registerHref(context: SearchContext, register: 'incidents' | 'risks', projectId: string, id: string): string {
+  if (context.user.role === 'super_admin') return `${context.baseRoute}/projects/${projectId}`;
+  return `${context.baseRoute}/${register}?${register === 'incidents' ? 'incident' : 'risk'}=${id}`;
+}
+
+async function searchIncidents(context: SearchContext): Promise<SearchResult[]> {
+  const incidents = await textSearch('incidents', context.query, {
+    filter: projectScope(context, 'projectId'),
+    limit: context.limit
+  });
+
+  return incidents.map(incident => {
+    const projectId = String(incident.projectId);
+    return {
+      id: String(incident._id),
+      type: 'incident',
+      title: incident.incidentCode ? `${incident.incidentCode}: ${incident.title}` : incident.title,
+      snippet: buildSnippet(incident.description, context.terms),
+      projectId,
+      projectTitle: context.projectTitles.get(projectId),
+      date: toIso(incident.dateOccurred),
+      href: registerHref(context, 'incidents', projectId, String(incident._id))
+    };
+  });
+}
+
+async function searchRisks(context: SearchContext): Promise<SearchResult[]> {
+  const risks = await textSearch('risks', context.query, {
+    filter: projectScope(context, 'projectId'),
+    limit: context.limit
+  });
+
+  return risks.map(risk => {
+    const projectId = String(risk.projectId);
+    const text = matchesTerms(risk.riskDescription, context.terms) ? risk.riskDescription : risk.mitigationStrategy;
+    return {
+      id: String(risk._id),
+      type: 'risk',
+      title: risk.riskCode || 'Risk',
+      snippet: buildSnippet(text, context.terms),
+      projectId,
+      projectTitle: context.projectTitles.get(projectId),
+      date: toIso(risk.createdAt),
+      href: registerHref(context, 'risks', projectId, String(risk._id))
+    };
+  });
+}
+
+/**
+ * Search everything the user can see, grouped by result type. Empty groups are left out.
+ */
+export async function globalSearch(
+  db: Db,
+  user: SearchUser,
+  query: string,
+  options: SearchOptions = {}
+): Promise<SearchResultGroup[]> {
+  const terms = searchTerms(query);
+  if (terms.length === 0) return [];
+
+  const types = new Set(options.types?.length ? options.types : SEARCH_RESULT_TYPES);
+  const baseRoute = user.role === 'super_admin' ? '/admin'
+    : user.role === 'project_manager' ? '/manager' : '/client';
+
+  const projectFilter = user.role === 'super_admin' ? {}
+    : user.role === 'project_manager' ? { managers: new ObjectId(user.id) }
+    : { client: new ObjectId(user.id) };
+  const accessible = await db.collection('projects')
+    .find(projectFilter, { projection: { title: 1 } })
+    .toArray();
+
+  const context: SearchContext = {
+    db,
+    user,
+    terms,
+    query,
+    limit: options.limit ?? 5,
+    baseRoute,
+    projectIds: user.role === 'super_admin' ? null : accessible.map(project => project._id),
+    projectTitles: new Map(accessible.map(project => [String(project._id), project.title as string]))
+  };
+
+  const none = async (): Promise<SearchResult[]> => [];
+  const [projectMatches, dailyReports, messages, files, incidents, risks] = await Promise.all([
+    types.has('project') || types.has('activity') ? searchProjects(context) : { projects: [], activities: [] },
+    types.has('daily_report') ? searchDailyReports(context) : none(),
+    types.has('message') ? searchMessages(context) : none(),
+    types.has('file') ? searchFiles(context) : none(),
+    types.has('incident') ? searchIncidents(context) : none(),
+    types.has('risk') ? searchRisks(context) : none()
+  ]);
+
+  const results: Record<SearchResultType, SearchResult[]> = {
+    project: types.has('project') ? projectMatches.projects : [],
+    activity: types.has('activity') ? projectMatches.activities : [],
+    daily_report: dailyReports,
+    message: messages,
+    file: files,
+    incident: incidents,
+    risk: risks
+  };
+
+  return SEARCH_RESULT_TYPES
+    .filter(type => results[type].length > 0)
+    .map(type => ({ type, label: SEARCH_GROUP_LABELS[type], results: results[type] }));
+}
@@ -0,0 +1,284 @@
+// src/lib/site-conditions.ts - Structured site conditions and delay attribution
+// Each site-schedule daily log carries a `conditions` list (rain, outages,
+// shortages...) with the hours they cost, and delayed or on-hold activities can
+// cite a cause. Both roll up into lost days by cause and by responsible party.
+import { Db, ObjectId } from 'mongodb';
+import { DAILY_LOGS_COLLECTION } from '@/lib/contractors';
+import { emptyDailyLogFields, STANDARD_DAY_HOURS } from '@/lib/labor';
+import { dateKey } from '@/lib/working-calendar';
+import {
+  transformSiteCondition,
+  ActivityDelay,
+  DelayAttributionReport,
+  DelayEvent,
+  DelayParty,
+  DelayTotal,
+  DEFAULT_DELAY_PARTY,
+  DELAY_PARTIES,
+  SiteConditionDocument,
+  SiteConditionsDay,
+  SiteConditionType,
+  SITE_CONDITION_TYPES
+} from '@/lib/types/site-conditions';
+
+// Activity statuses that can cite a delay cause
+export const DELAY_STATUSES = ['delayed', 'on_hold'];
+
+const MAX_CONDITIONS = 20;
+const MAX_DELAY_DAYS = 365;
+
+export interface SiteConditionsLogRecord {
+  _id: ObjectId;
+  project: ObjectId;
+  date: Date;
+  conditions?: SiteConditionDocument[];
+  activities?: Array<{
+    _id?: ObjectId;
+    title: string;
+    status: string;
+    delay?: ActivityDelay;
+  }>;
+}
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const asNumber = (value: unknown): number | null => {
+  if (value === undefined || value === null || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const round = (value: number, places = 2): number => {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+};
+
+const asConditionType = (value: unknown): SiteConditionType | null =>
+  SITE_CONDITION_TYPES.find(type => type === value) || null;
+
+const asParty = (value: unknown): DelayParty | null =>
+  DELAY_PARTIES.find(party => party === value) || null;
+
+export function parseSiteConditions(
+  body: unknown,
+  recorder: { id: string; name?: string | null }
+): { conditions: SiteConditionDocument[] } | { error: string } {
+  const input = Array.isArray(body) ? body : [];
+  if (input.length > MAX_CONDITIONS) return { error: `A day can hold at most ${MAX_CONDITIONS} site conditions` };
+
+  const conditions: SiteConditionDocument[] = [];
+  for (const [index, raw] of input.entries()) {
+    const entry = (raw ?? {}) as Record<string, unknown>;
+    const line = `Condition ${index + 1}`;
+
+    const type = asConditionType(entry.type);
+    if (!type) return { error: `${line}: choose a condition type` };
+
+    const hoursLost = asNumber(entry.hoursLost) ?? 0;
+    if (hoursLost < 0 || hoursLost > 24) return { error: `${line}: hours lost must be from 0 to 24` };
+
+    const party = entry.responsibleParty === undefined || entry.responsibleParty === ''
+      ? DEFAULT_DELAY_PARTY[type]
+      : asParty(entry.responsibleParty);
+    if (!party) return { error: `${line}: invalid responsible party` };
+
+    const description = asText(entry.description);
+    if (type === 'other' && !description) return { error: `${line}: describe the condition` };
+
+    const existing = typeof entry._id === 'string' && ObjectId.isValid(entry._id);
+    conditions.push({
+      _id: existing ? new ObjectId(entry._id as string) : new ObjectId(),
+      type,
+      hoursLost: round(hoursLost),
+      responsibleParty: party,
+      description: description || undefined,
+      recordedBy: new ObjectId(recorder.id),
+      recordedByName: recorder.name || undefined
+    });
+  }
+
+  return { conditions };
+}
+
+/**
+ * The delay a delayed or on-hold activity cites. `null` clears it.
+ */
+export function parseActivityDelay(value: unknown): { delay: ActivityDelay | null } | { error: string } {
+  if (value === null) return { delay: null };
+  const entry = (value ?? {}) as Record<string, unknown>;
+
+  const cause = asConditionType(entry.cause);
+  if (!cause) return { error: 'Choose a delay cause' };
+
+  const party = entry.responsibleParty === undefined || entry.responsibleParty === ''
+    ? DEFAULT_DELAY_PARTY[cause]
+    : asParty(entry.responsibleParty);
+  if (!party) return { error: 'Invalid responsible party' };
+
+  const daysLost = asNumber(entry.daysLost) ?? 0;
+  if (daysLost < 0 || daysLost > MAX_DELAY_DAYS) return { error: `Days lost must be from 0 to ${MAX_DELAY_DAYS}` };
+
+  return {
+    delay: {
+      cause,
+      responsibleParty: party,
+      daysLost: round(daysLost, 1),
+      note: asText(entry.note) || undefined
+    }
+  };
+}
+
+export async function loadSiteConditionsDay(db: Db, projectId: ObjectId, date: Date): Promise<SiteConditionsDay> {
+  const log = await db.collection<SiteConditionsLogRecord>(DAILY_LOGS_COLLECTION)
+    .findOne({ project: projectId, date }, { projection: { conditions: 1 } });
+
+  const conditions = log?.conditions || [];
+  return {
+    logId: log?._id.toString(),
+    date: dateKey(date),
+    conditions: conditions.map(transformSiteCondition),
+    hoursLost: round(conditions.reduce((total, condition) => total + condition.hoursLost, 0))
+  };
+}
+
+/**
+ * Replace a day's site conditions, creating the daily log if nothing was
+ * recorded that day yet
+ */
+export async function saveSiteConditionsDay(
+  db: Db,
+  projectId: ObjectId,
+  date: Date,
+  conditions: SiteConditionDocument[],
+  previous: SiteConditionDocument[]
+): Promise<SiteConditionsLogRecord> {
+  // Unchanged lines keep whoever first recorded them
+  const kept = conditions.map(condition => {
+    const earlier = previous.find(item => item._id.equals(condition._id));
+    return earlier ? { ...condition, recordedBy: earlier.recordedBy, recordedByName: earlier.recordedByName } : condition;
+  });
+
+  const now = new Date();
+  const saved = await db.collection<SiteConditionsLogRecord>(DAILY_LOGS_COLLECTION).findOneAndUpdate(
+    { project: projectId, date },
+    {
+      $set: { conditions: kept, updatedAt: now },
+      $setOnInsert: emptyDailyLogFields(now)
+    },
+    { upsert: true, returnDocument: 'after' }
+  );
+  return saved!;
+}
+
+const emptyTotal = (): DelayTotal => ({ siteDays: 0, activityDays: 0, events: 0 });
+
+const addEvent = (total: DelayTotal, event: DelayEvent): void => {
+  if (event.source === 'site_condition') total.siteDays += event.daysLost;
+  else total.activityDays += event.daysLost;
+  total.events++;
+};
+
+const roundTotal = <T extends DelayTotal>(total: T): T => ({
+  ...total,
+  siteDays: round(total.siteDays),
+  activityDays: round(total.activityDays)
+});
+
+/**
+ * Total the days lost by cause and by responsible party. Hours lost to site
+ * conditions count against a standard working day, and no day loses more
+ * than one day however many conditions it records.
+ */
+export function buildDelayReport(logs: Array<Pick<SiteConditionsLogRecord, 'date' | 'conditions' | 'activities'>>): DelayAttributionReport {
+  const events: DelayEvent[] = [];
+  let uncitedDelays = 0;
+
+  for (const log of logs) {
+    const date = dateKey(log.date);
+    const conditions = log.conditions || [];
+    const hours = conditions.reduce((total, condition) => total + condition.hoursLost, 0);
+    const scale = hours > STANDARD_DAY_HOURS ? STANDARD_DAY_HOURS / hours : 1;
+
+    for (const condition of conditions) {
+      if (condition.hoursLost <= 0) continue;
+      events.push({
+        date,
+        source: 'site_condition',
+        cause: condition.type,
+        responsibleParty: condition.responsibleParty,
+        daysLost: round((condition.hoursLost * scale) / STANDARD_DAY_HOURS),
+        description: condition.description
+      });
+    }
+
+    for (const activity of log.activities || []) {
+      if (activity.delay) {
+        events.push({
+          date,
+          source: 'activity',
+          activityId: activity._id?.toString(),
+          activityTitle: activity.title,
+          cause: activity.delay.cause,
+          responsibleParty: activity.delay.responsibleParty,
+          daysLost: activity.delay.daysLost,
+          description: activity.delay.note
+        });
+      } else if (DELAY_STATUSES.includes(activity.status)) {
+        uncitedDelays++;
+      }
+    }
+  }
+
+  const totals = emptyTotal();
+  const byCause = new Map<SiteConditionType, DelayTotal>();
+  const byParty = new Map<DelayParty, DelayTotal>();
+  for (const event of events) {
+    addEvent(totals, event);
+    const cause = byCause.get(event.cause) || emptyTotal();
+    addEvent(cause, event);
+    byCause.set(event.cause, cause);
+    const party = byParty.get(event.responsibleParty) || emptyTotal();
+    addEvent(party, event);
+    byParty.set(event.responsibleParty, party);
+  }
+
+  return {
+    totals: roundTotal(totals),
+    byCause: SITE_CONDITION_TYPES
+      .filter(cause => byCause.has(cause))
+      .map(cause => roundTotal({ cause, ...byCause.get(cause)! })),
+    byParty: DELAY_PARTIES
+      .filter(party => byParty.has(party))
+      .map(party => roundTotal({ responsibleParty: party, ...byParty.get(party)! })),
+    events,
+    uncitedDelays
+  };
+}
+
+export async function loadDelayReport(
+  db: Db,
+  projectId: ObjectId,
+  range: { from?: Date; to?: Date } = {}
+): Promise<DelayAttributionReport> {
+  const date: { $gte?: Date; $lte?: Date } = {};
+  if (range.from) date.$gte = range.from;
+  if (range.to) date.$lte = range.to;
+
+  const logs = await db.collection<SiteConditionsLogRecord>(DAILY_LOGS_COLLECTION)
+    .find(
+      {
+        project: projectId,
+        $or: [
+          { 'conditions.0': { $exists: true } },
+          { 'activities.delay': { $exists: true } },
+          { 'activities.status': { $in: DELAY_STATUSES } }
+        ],
+        ...(range.from || range.to ? { date } : {})
+      },
+      { projection: { date: 1, conditions: 1, 'activities._id': 1, 'activities.title': 1, 'activities.status': 1, 'activities.delay': 1 } }
+    )
+    .sort({ date: 1 })
+    .toArray();
+
+  return buildDelayReport(logs);
+}
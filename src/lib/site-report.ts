@@ -0,0 +1,666 @@
+// src/lib/site-report.ts - OliveHaus "Site Progress Report" spreadsheet layout
+// Parses the legacy daily-manager spreadsheets (header block, phase banners,
+// WEEK rows and DATE/TASK/CONTRACTOR/... rows) into plain data that the
+// import route can turn into Project.siteSchedule phases and DailyProgress docs,
+// and rebuilds the same layout from DailyProgress docs for the export route.
+import type { IDailyActivity } from '@/models/DailyProgress';
+import type { ActivityCategory, ActivityPhase } from '@/types/activity';
+import { PHASE_ORDER, PHASE_LABELS } from '@/types/activity';
+
+export type DailyActivityStatus = IDailyActivity['status'];
+
+export type SiteReportWarningCode =
+  | 'date_carried_forward'
+  | 'invalid_date'
+  | 'date_out_of_sequence'
+  | 'status_normalized'
+  | 'unknown_status'
+  | 'missing_task'
+  | 'missing_contractor'
+  | 'missing_phase'
+  | 'unknown_phase'
+  | 'image_reference'
+  | 'existing_report';
+
+export interface SiteReportWarning {
+  row: number; // 1-based spreadsheet row
+  code: SiteReportWarningCode;
+  message: string;
+}
+
+export interface SiteReportHeader {
+  clientName?: string;
+  siteAddress?: string;
+  commencementDate?: Date;
+  projectDuration?: string;
+  scopeOfWork?: string;
+  designStyle?: string;
+  endUser?: string;
+  projectCoordinator?: string;
+  projectManager?: string;
+  siteOfficer?: string;
+  workDays?: string;
+}
+
+export interface SiteReportRow {
+  row: number;
+  date: Date;
+  title: string;
+  contractor: string;
+  supervisor?: string;
+  rawStatus: string;
+  status: DailyActivityStatus;
+  comments?: string;
+  images: string[];
+  imageCaption?: string;
+  incidentReport?: string;
+  phase: ActivityPhase;
+  weekNumber?: number;
+  category: ActivityCategory;
+}
+
+export interface SiteReportWeek {
+  row: number;
+  phase: ActivityPhase;
+  weekNumber: number;
+  focus?: string;
+}
+
+export interface ParsedSiteReport {
+  header: SiteReportHeader;
+  rows: SiteReportRow[];
+  weeks: SiteReportWeek[];
+  notes: string[];
+  warnings: SiteReportWarning[];
+}
+
+export interface PlannedScheduleActivity {
+  key: string;
+  title: string;
+  contractor: string;
+  supervisor?: string;
+  status: 'to-do' | 'in_progress' | 'completed' | 'delayed' | 'on_hold';
+  category: ActivityCategory;
+  startDate: Date;
+  endDate: Date;
+  images: string[];
+}
+
+export type SiteReportSheetRowKind = 'title' | 'header' | 'blank' | 'columns' | 'banner' | 'week' | 'activity';
+
+export interface SiteReportSheetRow {
+  kind: SiteReportSheetRowKind;
+  cells: string[];
+}
+
+export interface SiteReportExportHeader {
+  title: string;
+  clientName?: string;
+  siteAddress?: string;
+  commencementDate?: Date;
+  projectDuration?: string;
+  scopeOfWork?: string;
+  designStyle?: string;
+  projectCoordinator?: string;
+  projectManager?: string;
+  siteOfficer?: string;
+  workDays?: string;
+}
+
+export interface SiteReportExportDay {
+  date: Date;
+  activities: Array<Pick<IDailyActivity,
+    'title' | 'description' | 'contractor' | 'supervisor' | 'status' | 'comments' | 'images' | 'incidentReport' | 'phase' | 'weekNumber'
+  >>;
+}
+
+export interface PlannedSchedulePhase {
+  phase: ActivityPhase;
+  name: string;
+  startDate: Date;
+  endDate: Date;
+  activities: PlannedScheduleActivity[];
+}
+
+// Column order of the DATE/TASK/... table
+export const SITE_REPORT_COLUMNS = [
+  'DATE',
+  'TASK',
+  'CONTRACTOR',
+  'TASK STATUS',
+  'COMMENTS',
+  'IMAGES',
+  'INCIDENCE REPORT',
+  'SUPERVISOR'
+] as const;
+
+// Banner text used by the spreadsheet for each OliveHaus phase
+export const SITE_REPORT_PHASE_BANNERS: Record<ActivityPhase, string> = {
+  site_preliminaries: 'SITE PRELIMINARIES & DESIGN PHASE',
+  construction: 'CONSTRUCTION PHASE',
+  installation: 'INSTALLATION PHASE',
+  setup_styling: 'SET UP & STYLING PHASE',
+  post_handover: 'POST-HANDOVER MAINTENANCE PHASE'
+};
+
+const HEADER_LABELS: Record<string, keyof SiteReportHeader> = {
+  clientname: 'clientName',
+  siteaddress: 'siteAddress',
+  projectcommencementdate: 'commencementDate',
+  projectduration: 'projectDuration',
+  scopeofwork: 'scopeOfWork',
+  designstyletheme: 'designStyle',
+  designstyle: 'designStyle',
+  enduser: 'endUser',
+  projectcoodinator: 'projectCoordinator', // spelling used in the original sheets
+  projectcoordinator: 'projectCoordinator',
+  projectmanager: 'projectManager',
+  siteofficer: 'siteOfficer',
+  workdays: 'workDays'
+};
+
+const STATUS_ALIASES: Record<string, DailyActivityStatus> = {
+  completed: 'completed',
+  complete: 'completed',
+  done: 'completed',
+  inprogress: 'in_progress',
+  ongoing: 'in_progress',
+  started: 'in_progress',
+  pending: 'pending',
+  rescheduled: 'pending',
+  delayed: 'delayed',
+  onhold: 'on_hold',
+  hold: 'on_hold',
+  todo: 'to-do',
+  notstarted: 'to-do'
+};
+
+const CATEGORY_KEYWORDS: Array<[ActivityCategory, RegExp]> = [
+  ['electrical', /electric|socket|switch|light|wiring|\btvs?\b|\bac\b|air ?condition/i],
+  ['plumbing', /plumb|pipe|sanitary|shower|\btaps?\b|sink|basin|leak|water|drain/i],
+  ['structural', /demo|evacuat|chisel|masonry|screed|plaster|drywall|\bpop\b|block|dwarf wall|concrete/i],
+  ['finishing', /til(e|ing)|paint|spray|wood|cabinet|install|styling|artwork|clean|signage|door|wallpaper/i]
+];
+
+// Status wording used in the spreadsheet; each reads back through STATUS_ALIASES
+const STATUS_LABELS: Record<DailyActivityStatus, string> = {
+  'to-do': 'To-do',
+  pending: 'Pending',
+  in_progress: 'In-progress',
+  completed: 'Completed',
+  delayed: 'Delayed',
+  on_hold: 'On hold'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Split CSV text into rows of cells (RFC 4180 quoting, CRLF or LF line endings)
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse a dd/mm/yyyy spreadsheet date into a UTC-midnight Date
+ */
+export function parseSiteReportDate(value: string): Date | null {
+  const match = value.trim().match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/);
+  if (!match) return null;
+
+  const day = parseInt(match[1], 10);
+  const month = parseInt(match[2], 10);
+  let year = parseInt(match[3], 10);
+  if (year < 100) year += 2000;
+
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Format a Date the way the spreadsheet writes it (d/m/yyyy)
+ */
+export function formatSiteReportDate(date: Date): string {
+  return `${date.getUTCDate()}/${date.getUTCMonth() + 1}/${date.getUTCFullYear()}`;
+}
+
+function clean(value: string | undefined): string {
+  return (value || '').replace(/\s+/g, ' ').trim();
+}
+
+function isBlank(value: string | undefined): boolean {
+  const cleaned = clean(value).toUpperCase();
+  return cleaned === '' || cleaned === 'N/A';
+}
+
+function normalizeKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, '');
+}
+
+export function normalizeSiteReportStatus(raw: string): DailyActivityStatus | null {
+  return STATUS_ALIASES[normalizeKey(raw)] || null;
+}
+
+export function inferActivityCategory(title: string): ActivityCategory {
+  const match = CATEGORY_KEYWORDS.find(([, pattern]) => pattern.test(title));
+  return match ? match[0] : 'other';
+}
+
+function matchPhaseBanner(text: string): ActivityPhase | null {
+  const upper = text.toUpperCase();
+  if (/PRELIMINAR|DESIGN/.test(upper)) return 'site_preliminaries';
+  if (/STYLING|SET ?UP/.test(upper)) return 'setup_styling';
+  if (/INSTALLATION/.test(upper)) return 'installation';
+  if (/HANDOVER|MAINTENANCE/.test(upper)) return 'post_handover';
+  if (/CONSTRUCTION/.test(upper)) return 'construction';
+  return null;
+}
+
+function isUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+/**
+ * Parse the rows of a Site Progress Report into header fields, activity rows and warnings
+ */
+export function parseSiteReport(rows: string[][]): ParsedSiteReport {
+  const header: SiteReportHeader = {};
+  const parsedRows: SiteReportRow[] = [];
+  const weeks: SiteReportWeek[] = [];
+  const notes: string[] = [];
+  const warnings: SiteReportWarning[] = [];
+
+  let inTable = false;
+  let inNotes = false;
+  let currentPhase: ActivityPhase | null = null;
+  let currentWeek: number | undefined;
+  let currentDate: Date | null = null;
+  let currentDateRow = 0;
+  let daySupervisor: string | undefined;
+
+  rows.forEach((cells, index) => {
+    const rowNumber = index + 1;
+    const first = clean(cells[0]);
+
+    if (!inTable) {
+      if (first.toUpperCase() === 'DATE') {
+        inTable = true;
+        return;
+      }
+
+      const labelMatch = first.match(/^([^:]+):\s*(.*)$/);
+      if (!labelMatch) return;
+
+      const field = HEADER_LABELS[normalizeKey(labelMatch[1])];
+      if (!field) return;
+
+      const value = clean(labelMatch[2]) || clean(cells[1]);
+      if (!value) return;
+
+      if (field === 'commencementDate') {
+        const date = parseSiteReportDate(value);
+        if (date) {
+          header.commencementDate = date;
+        } else {
+          warnings.push({ row: rowNumber, code: 'invalid_date', message: `Commencement date "${value}" is not a dd/mm/yyyy date` });
+        }
+      } else {
+        header[field] = value;
+      }
+      return;
+    }
+
+    if (/^notes:?$/i.test(first)) {
+      inNotes = true;
+      return;
+    }
+
+    if (inNotes) {
+      if (first) notes.push(first);
+      return;
+    }
+
+    const rest = cells.slice(1);
+    if (isBlank(first) && rest.every(isBlank)) {
+      return; // separator row between days
+    }
+
+    // Phase banner: text in the first cell only
+    if (/PHASE/i.test(first) && rest.every(isBlank)) {
+      const phase = matchPhaseBanner(first);
+      if (phase) {
+        currentPhase = phase;
+      } else {
+        warnings.push({ row: rowNumber, code: 'unknown_phase', message: `Unrecognised phase banner "${first}"` });
+      }
+      return;
+    }
+
+    const weekMatch = first.match(/^WEEK\s*(\d+)/i);
+    if (weekMatch) {
+      currentWeek = parseInt(weekMatch[1], 10);
+      weeks.push({
+        row: rowNumber,
+        phase: currentPhase || 'construction',
+        weekNumber: currentWeek,
+        focus: clean(cells[1]) || undefined
+      });
+      return;
+    }
+
+    const title = clean(cells[1]);
+    if (!title) {
+      warnings.push({ row: rowNumber, code: 'missing_task', message: 'Row has no task and was skipped' });
+      return;
+    }
+
+    if (first) {
+      const date = parseSiteReportDate(first);
+      if (date) {
+        if (currentDate && date < currentDate) {
+          warnings.push({
+            row: rowNumber,
+            code: 'date_out_of_sequence',
+            message: `Date ${formatSiteReportDate(date)} is earlier than ${formatSiteReportDate(currentDate)} on row ${currentDateRow}`
+          });
+        }
+        currentDate = date;
+        currentDateRow = rowNumber;
+        daySupervisor = undefined;
+      } else if (currentDate) {
+        warnings.push({
+          row: rowNumber,
+          code: 'invalid_date',
+          message: `Date "${first}" could not be read, using ${formatSiteReportDate(currentDate)} from row ${currentDateRow}`
+        });
+      }
+    } else if (currentDate) {
+      warnings.push({
+        row: rowNumber,
+        code: 'date_carried_forward',
+        message: `Blank date, using ${formatSiteReportDate(currentDate)} from row ${currentDateRow}`
+      });
+    }
+
+    if (!currentDate) {
+      warnings.push({ row: rowNumber, code: 'invalid_date', message: `No date found for "${title}", row skipped` });
+      return;
+    }
+
+    if (!currentPhase) {
+      warnings.push({ row: rowNumber, code: 'missing_phase', message: 'No phase banner above this row, using Construction Phase' });
+      currentPhase = 'construction';
+    }
+
+    const rawStatus = clean(cells[3]);
+    let status = normalizeSiteReportStatus(rawStatus);
+    if (!status) {
+      warnings.push({
+        row: rowNumber,
+        code: 'unknown_status',
+        message: rawStatus ? `Unknown status "${rawStatus}", imported as to-do` : 'Blank status, imported as to-do'
+      });
+      status = 'to-do';
+    } else if (rawStatus.toLowerCase() !== status) {
+      warnings.push({ row: rowNumber, code: 'status_normalized', message: `Status "${rawStatus}" imported as ${status}` });
+    }
+
+    let contractor = clean(cells[2]);
+    if (!contractor) {
+      warnings.push({ row: rowNumber, code: 'missing_contractor', message: `No contractor for "${title}", imported as Unassigned` });
+      contractor = 'Unassigned';
+    }
+
+    const supervisor = clean(cells[7]);
+    if (supervisor) daySupervisor = supervisor;
+
+    const imageCell = clean(cells[5]);
+    const images: string[] = [];
+    let imageCaption: string | undefined;
+    if (!isBlank(imageCell)) {
+      if (isUrl(imageCell)) {
+        images.push(imageCell);
+      } else {
+        imageCaption = imageCell;
+        warnings.push({
+          row: rowNumber,
+          code: 'image_reference',
+          message: `Image "${imageCell}" is a caption without a link and was kept in the description`
+        });
+      }
+    }
+
+    let weekNumber = currentWeek;
+    if (weekNumber === undefined && currentPhase !== 'site_preliminaries' && header.commencementDate) {
+      const elapsed = Math.floor((currentDate.getTime() - header.commencementDate.getTime()) / (7 * DAY_MS));
+      weekNumber = Math.max(1, elapsed + 1);
+    }
+
+    parsedRows.push({
+      row: rowNumber,
+      date: currentDate,
+      title,
+      contractor,
+      supervisor: supervisor || daySupervisor,
+      rawStatus,
+      status,
+      comments: clean(cells[4]) || undefined,
+      images,
+      imageCaption,
+      incidentReport: isBlank(cells[6]) ? undefined : clean(cells[6]),
+      phase: currentPhase,
+      weekNumber,
+      category: inferActivityCategory(title)
+    });
+  });
+
+  return { header, rows: parsedRows, weeks, notes, warnings };
+}
+
+export function scheduleActivityKey(row: Pick<SiteReportRow, 'phase' | 'title'>): string {
+  return `${row.phase}:${row.title.toLowerCase()}`;
+}
+
+function toScheduleStatus(status: DailyActivityStatus): PlannedScheduleActivity['status'] {
+  return status === 'pending' ? 'to-do' : status;
+}
+
+/**
+ * Collapse the day-by-day rows into siteSchedule phases, one activity per distinct task
+ */
+export function buildSchedulePhases(rows: SiteReportRow[]): PlannedSchedulePhase[] {
+  const phases = new Map<ActivityPhase, Map<string, PlannedScheduleActivity>>();
+
+  rows.forEach((row) => {
+    if (!phases.has(row.phase)) phases.set(row.phase, new Map());
+    const activities = phases.get(row.phase)!;
+    const key = scheduleActivityKey(row);
+    const dayEnd = new Date(row.date.getTime() + DAY_MS - 1);
+    const existing = activities.get(key);
+
+    if (!existing) {
+      activities.set(key, {
+        key,
+        title: row.title,
+        contractor: row.contractor,
+        supervisor: row.supervisor,
+        status: toScheduleStatus(row.status),
+        category: row.category,
+        startDate: row.date,
+        endDate: dayEnd,
+        images: [...row.images]
+      });
+      return;
+    }
+
+    if (row.date < existing.startDate) existing.startDate = row.date;
+    if (dayEnd >= existing.endDate) {
+      // The latest day's status wins, but a completion on that day is never undone
+      if (dayEnd > existing.endDate || existing.status !== 'completed') {
+        existing.status = toScheduleStatus(row.status);
+      }
+      existing.endDate = dayEnd;
+    }
+    if (!existing.supervisor && row.supervisor) existing.supervisor = row.supervisor;
+    existing.images.push(...row.images);
+  });
+
+  return PHASE_ORDER
+    .filter(phase => phases.has(phase))
+    .map(phase => {
+      const activities = Array.from(phases.get(phase)!.values())
+        .sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
+
+      return {
+        phase,
+        name: PHASE_LABELS[phase],
+        startDate: new Date(Math.min(...activities.map(a => a.startDate.getTime()))),
+        endDate: new Date(Math.max(...activities.map(a => a.endDate.getTime()))),
+        activities
+      };
+    });
+}
+
+/**
+ * Group activity rows by their report date (ISO yyyy-mm-dd)
+ */
+export function groupRowsByDate(rows: SiteReportRow[]): Map<string, SiteReportRow[]> {
+  const days = new Map<string, SiteReportRow[]>();
+  rows.forEach((row) => {
+    const key = row.date.toISOString().split('T')[0];
+    if (!days.has(key)) days.set(key, []);
+    days.get(key)!.push(row);
+  });
+  return days;
+}
+
+function headerLine(label: string, value?: string): SiteReportSheetRow {
+  return { kind: 'header', cells: [`${label}: ${value || ''}`.trim()] };
+}
+
+/**
+ * Rebuild the Site Progress Report layout (header block, phase banners, WEEK rows,
+ * one row per activity) from daily reports sorted by date
+ */
+export function buildSiteReportSheet(header: SiteReportExportHeader, days: SiteReportExportDay[]): SiteReportSheetRow[] {
+  const sheet: SiteReportSheetRow[] = [
+    { kind: 'title', cells: ['SITE PROGRESS REPORT'] },
+    headerLine('Client name', header.clientName),
+    headerLine('Site Address', header.siteAddress),
+    headerLine('Project commencement date', header.commencementDate ? formatSiteReportDate(header.commencementDate) : ''),
+    headerLine('Project duration', header.projectDuration),
+    headerLine('Scope of work', header.scopeOfWork),
+    headerLine('Design style & theme', header.designStyle),
+    headerLine('Project Coordinator', header.projectCoordinator),
+    headerLine('Project Manager', header.projectManager),
+    headerLine('Site Officer', header.siteOfficer),
+    headerLine('Work days', header.workDays),
+    { kind: 'blank', cells: [] },
+    { kind: 'title', cells: [`${header.title.toUpperCase()}-DAILY PROGRESS REPORT`] },
+    { kind: 'columns', cells: [...SITE_REPORT_COLUMNS] }
+  ];
+
+  let currentPhase: ActivityPhase | undefined;
+  let currentWeek: number | undefined;
+
+  days.forEach((day, dayIndex) => {
+    if (day.activities.length === 0) return;
+    if (dayIndex > 0) sheet.push({ kind: 'blank', cells: [] });
+
+    day.activities.forEach((activity, index) => {
+      if (activity.phase && activity.phase !== currentPhase) {
+        currentPhase = activity.phase;
+        currentWeek = undefined;
+        sheet.push({ kind: 'banner', cells: [SITE_REPORT_PHASE_BANNERS[activity.phase]] });
+      }
+      if (activity.weekNumber && activity.weekNumber !== currentWeek) {
+        currentWeek = activity.weekNumber;
+        sheet.push({ kind: 'week', cells: [`WEEK ${activity.weekNumber}`] });
+      }
+
+      // Imported rows keep unlinked image captions in the description
+      const caption = activity.description?.match(/^Image: (.+)$/)?.[1];
+      const images = activity.images?.length ? activity.images.join(' ') : caption;
+
+      sheet.push({
+        kind: 'activity',
+        cells: [
+          index === 0 || sheet[sheet.length - 1].kind !== 'activity' ? formatSiteReportDate(day.date) : '',
+          activity.title,
+          activity.contractor || '',
+          STATUS_LABELS[activity.status] || activity.status,
+          activity.comments || '',
+          images || 'N/A',
+          activity.incidentReport || 'N/A',
+          activity.supervisor || ''
+        ]
+      });
+    });
+  });
+
+  return sheet;
+}
+
+export function escapeCsvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Serialize sheet rows as CSV, padding every row to the report's column count
+ */
+export function toCsv(rows: SiteReportSheetRow[]): string {
+  return rows
+    .map(row => {
+      const cells = [...row.cells];
+      while (cells.length < SITE_REPORT_COLUMNS.length) cells.push('');
+      return cells.map(escapeCsvCell).join(',');
+    })
+    .join('\r\n') + '\r\n';
+}
@@ -0,0 +1,342 @@
+// src/lib/snags.ts - Snag (punch) list for handover
+// Site staff and the client log defects room by room; staff mark them fixed
+// with an after photo and the client signs them off. A project can't be
+// handed over (status "completed") while any snag is still open or fixed.
+import { Db, ObjectId } from 'mongodb';
+import { deleteFromCloudinary, extractCloudinaryPublicId } from '@/lib/cloudinary';
+import type { ProjectAccessRecord, ProjectPermission } from '@/lib/project-access';
+import { dispatchNotifications } from '@/lib/notifications';
+import {
+  SNAG_STATUS_LABELS,
+  transformSnag,
+  ProjectSnagData,
+  Snag,
+  SnagDocument,
+  SnagPhoto,
+  SnagStatus,
+  SnagSummary
+} from '@/lib/types/snag';
+
+export const SNAGS_COLLECTION = 'snags';
+
+// Most photos one side (before or after) of a snag may carry
+const MAX_PHOTOS = 6;
+
+export interface SnagProject extends ProjectAccessRecord {
+  title: string;
+  siteAddress?: string;
+}
+
+export type SnagInput = Pick<SnagDocument, 'location' | 'description' | 'beforePhotos' | 'afterPhotos' | 'contractor' | 'dueDate'>;
+
+/**
+ * Which permission each status change needs. Anyone who can raise a snag can
+ * reopen a fix they aren't happy with; only the client verifies and only an
+ * administrator waives.
+ */
+export const SNAG_TRANSITIONS: Record<SnagStatus, Partial<Record<SnagStatus, ProjectPermission>>> = {
+  open: { fixed: 'manage_snags', waived: 'waive_snags' },
+  fixed: { verified: 'verify_snags', open: 'raise_snags', waived: 'waive_snags' },
+  verified: {},
+  waived: { open: 'waive_snags' }
+};
+
+// Statuses that still hold up handover
+const OUTSTANDING: SnagStatus[] = ['open', 'fixed'];
+
+const asText = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const asDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' && !(value instanceof Date)) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+export function parseSnagPhotos(value: unknown): SnagPhoto[] | { error: string } {
+  const photos: SnagPhoto[] = [];
+  for (const photo of Array.isArray(value) ? value : []) {
+    const { url, key } = (photo ?? {}) as Record<string, unknown>;
+    // Photos come back from /api/upload as https URLs
+    if (typeof url !== 'string' || !/^https:\/\//.test(url)) {
+      return { error: 'Photos must be uploaded through /api/upload' };
+    }
+    photos.push({ url, key: asText(key) || undefined });
+  }
+  if (photos.length > MAX_PHOTOS) return { error: `A snag can have at most ${MAX_PHOTOS} before and ${MAX_PHOTOS} after photos` };
+  return photos;
+}
+
+/**
+ * Validate a snag. Clients describe the defect; the contractor and due date
+ * are for site staff to set, so `staff: false` ignores them.
+ */
+export function parseSnagInput(
+  body: unknown,
+  { staff }: { staff: boolean }
+): { snag: SnagInput } | { error: string } {
+  const input = (body ?? {}) as Record<string, unknown>;
+
+  const location = asText(input.location);
+  if (!location) return { error: 'Room or location is required' };
+
+  const description = asText(input.description);
+  if (!description) return { error: 'Description is required' };
+
+  const beforePhotos = parseSnagPhotos(input.beforePhotos);
+  if ('error' in beforePhotos) return beforePhotos;
+  const afterPhotos = parseSnagPhotos(staff ? input.afterPhotos : []);
+  if ('error' in afterPhotos) return afterPhotos;
+
+  let dueDate: Date | undefined;
+  if (staff && input.dueDate) {
+    const parsed = asDate(input.dueDate);
+    if (!parsed) return { error: 'Invalid due date' };
+    dueDate = parsed;
+  }
+
+  return {
+    snag: {
+      location,
+      description,
+      beforePhotos,
+      afterPhotos,
+      contractor: staff ? asText(input.contractor) || undefined : undefined,
+      dueDate
+    }
+  };
+}
+
+export async function nextSnagNumber(db: Db, projectId: ObjectId): Promise<string> {
+  const latest = await db.collection<SnagDocument>(SNAGS_COLLECTION)
+    .find({ projectId }, { projection: { number: 1 } })
+    .sort({ createdAt: -1 })
+    .limit(1)
+    .toArray();
+  // Numbers keep counting after deletions so a printed report stays unambiguous
+  const last = latest.length > 0 ? parseInt(latest[0].number.replace(/\D/g, ''), 10) || 0 : 0;
+  return `SN-${String(last + 1).padStart(3, '0')}`;
+}
+
+export function summarizeSnags(snags: Pick<Snag, 'status' | 'isOverdue'>[]): SnagSummary {
+  const count = (status: SnagStatus) => snags.filter(snag => snag.status === status).length;
+  const outstanding = snags.filter(snag => OUTSTANDING.includes(snag.status)).length;
+  return {
+    total: snags.length,
+    open: count('open'),
+    fixed: count('fixed'),
+    verified: count('verified'),
+    waived: count('waived'),
+    overdue: snags.filter(snag => snag.isOverdue).length,
+    outstanding,
+    handoverReady: outstanding === 0
+  };
+}
+
+export async function countOutstandingSnags(db: Db, projectId: ObjectId): Promise<number> {
+  return db.collection<SnagDocument>(SNAGS_COLLECTION).countDocuments({
+    projectId,
+    status: { $in: OUTSTANDING }
+  });
+}
+
+export async function loadProjectSnags(db: Db, projectId: ObjectId): Promise<ProjectSnagData> {
+  const now = new Date();
+  const documents = await db.collection<SnagDocument>(SNAGS_COLLECTION)
+    .find({ projectId })
+    .sort({ location: 1, createdAt: 1 })
+    .toArray();
+  const snags = documents.map(doc => transformSnag(doc, now));
+  return { snags, summary: summarizeSnags(snags) };
+}
+
+/**
+ * Delete photos that are no longer on a snag. A failed deletion only leaves an
+ * orphaned file behind, so it never fails the request.
+ */
+export async function removeSnagPhotos(photos: SnagPhoto[]): Promise<void> {
+  await Promise.all(photos.map(async photo => {
+    const publicId = photo.key ||
+      (photo.url.includes('res.cloudinary.com') ? extractCloudinaryPublicId(photo.url) : null);
+    if (!publicId) return;
+
+    try {
+      await deleteFromCloudinary(publicId, 'image');
+    } catch (err) {
+      console.warn('Cloudinary deletion warning (proceeding with DB update):', err);
+    }
+  }));
+}
+
+/**
+ * Tell the other side about a snag: managers when the client raises or reopens
+ * one, the client when one is ready to sign off. A failed notification never
+ * fails the request.
+ */
+export async function notifySnag(
+  db: Db,
+  project: SnagProject,
+  snag: SnagDocument,
+  event: 'raised' | 'fixed' | 'reopened',
+  senderId: string
+): Promise<void> {
+  const projectId = project._id.toString();
+  const toClient = event === 'fixed';
+  const recipients = toClient
+    ? (project.client ? [project.client] : [])
+    : project.managers || [];
+  if (recipients.length === 0) return;
+
+  const content = {
+    raised: {
+      title: 'New Snag Reported',
+      message: `The client reported ${snag.number} in ${snag.location} on ${project.title}: ${snag.description}`
+    },
+    fixed: {
+      title: 'Snag Ready for Sign-off',
+      message: `${snag.number} in ${snag.location} on ${project.title} has been fixed. Please check it and sign it off.`
+    },
+    reopened: {
+      title: 'Snag Reopened',
+      message: `${snag.number} in ${snag.location} on ${project.title} was reopened`
+    }
+  }[event];
+
+  try {
+    const now = new Date();
+    await dispatchNotifications(db, recipients.map(recipientId => ({
+      recipientId,
+      senderId: new ObjectId(senderId),
+      type: 'project_updated',
+      title: content.title,
+      message: content.message,
+      data: {
+        projectId,
+        snagId: snag._id?.toString(),
+        url: `/${toClient ? 'client' : 'manager'}/projects/${projectId}/snags`
+      },
+      isRead: false,
+      priority: 'medium',
+      category: event === 'reopened' ? 'warning' : 'info',
+      actionRequired: toClient,
+      createdAt: now,
+      updatedAt: now
+    })));
+  } catch (error) {
+    console.error('Error sending snag notification:', error);
+  }
+}
+
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const formatReportDate = (value?: string): string => value
+  ? new Date(value).toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+  : '—';
+
+/**
+ * Printable snag report grouped by room, opened in a new tab and printed (or
+ * saved as PDF) from the browser
+ */
+export function generateSnagReportHtml(
+  project: Pick<SnagProject, 'title' | 'siteAddress'>,
+  { snags, summary }: ProjectSnagData,
+  generatedBy: string
+): string {
+  const locations = Array.from(new Set(snags.map(snag => snag.location)));
+  const photoStrip = (photos: SnagPhoto[]) => photos
+    .map(photo => `<img src="${escapeHtml(photo.url)}" alt="" />`)
+    .join('');
+
+  const sections = locations.map(location => {
+    const rows = snags.filter(snag => snag.location === location).map(snag => {
+      const signOff = [...snag.history].reverse().find(event => event.status === snag.status);
+      return `
+        <tr>
+          <td class="nowrap">${escapeHtml(snag.number)}</td>
+          <td>
+            ${escapeHtml(snag.description)}
+            ${snag.beforePhotos.length > 0 ? `<div class="photos"><span>Before</span>${photoStrip(snag.beforePhotos)}</div>` : ''}
+            ${snag.afterPhotos.length > 0 ? `<div class="photos"><span>After</span>${photoStrip(snag.afterPhotos)}</div>` : ''}
+          </td>
+          <td>${escapeHtml(snag.contractor || '—')}</td>
+          <td class="nowrap">${formatReportDate(snag.dueDate)}</td>
+          <td class="nowrap"><span class="status ${snag.status}">${SNAG_STATUS_LABELS[snag.status]}</span></td>
+          <td>${signOff && (snag.status === 'verified' || snag.status === 'waived')
+            ? `${escapeHtml(signOff.byName)}<br /><small>${formatReportDate(signOff.at)}${signOff.note ? ` — ${escapeHtml(signOff.note)}` : ''}</small>`
+            : ''}</td>
+        </tr>`;
+    }).join('');
+
+    return `
+      <h2>${escapeHtml(location)}</h2>
+      <table>
+        <thead>
+          <tr><th>No.</th><th>Snag</th><th>Contractor</th><th>Due</th><th>Status</th><th>Signed off</th></tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <title>Snag Report - ${escapeHtml(project.title)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; color: #1f2937; margin: 32px; font-size: 13px; }
+    h1 { font-size: 22px; margin: 0 0 4px; }
+    h2 { font-size: 16px; margin: 28px 0 8px; border-bottom: 2px solid #e5e7eb; padding-bottom: 4px; }
+    .meta { color: #6b7280; margin-bottom: 16px; }
+    .summary { display: flex; gap: 12px; flex-wrap: wrap; margin: 16px 0; }
+    .summary div { border: 1px solid #e5e7eb; border-radius: 6px; padding: 8px 12px; }
+    .summary strong { display: block; font-size: 18px; }
+    .ready { padding: 8px 12px; border-radius: 6px; font-weight: bold; }
+    .ready.yes { background: #dcfce7; color: #166534; }
+    .ready.no { background: #fef3c7; color: #92400e; }
+    table { width: 100%; border-collapse: collapse; }
+    th, td { text-align: left; vertical-align: top; padding: 6px 8px; border-bottom: 1px solid #e5e7eb; }
+    th { background: #f9fafb; font-size: 12px; text-transform: uppercase; color: #6b7280; }
+    .nowrap { white-space: nowrap; }
+    .photos { display: flex; align-items: center; gap: 6px; margin-top: 6px; }
+    .photos span { font-size: 11px; color: #6b7280; width: 40px; }
+    .photos img { width: 80px; height: 60px; object-fit: cover; border-radius: 4px; border: 1px solid #e5e7eb; }
+    .status { padding: 2px 8px; border-radius: 999px; font-size: 11px; font-weight: bold; }
+    .status.open { background: #fee2e2; color: #991b1b; }
+    .status.fixed { background: #dbeafe; color: #1e40af; }
+    .status.verified { background: #dcfce7; color: #166534; }
+    .status.waived { background: #f3f4f6; color: #374151; }
+    .print { margin-bottom: 16px; padding: 8px 16px; cursor: pointer; }
+    @media print {
+      body { margin: 0; }
+      .print { display: none; }
+      tr { page-break-inside: avoid; }
+    }
+  </style>
+</head>
+<body>
+  <button class="print" onclick="window.print()">Print</button>
+  <h1>Snag Report</h1>
+  <div class="meta">
+    ${escapeHtml(project.title)}${project.siteAddress ? ` · ${escapeHtml(project.siteAddress)}` : ''}<br />
+    Generated ${formatReportDate(new Date().toISOString())} by ${escapeHtml(generatedBy)}
+  </div>
+  <div class="summary">
+    <div><strong>${summary.total}</strong>Total</div>
+    <div><strong>${summary.open}</strong>Open</div>
+    <div><strong>${summary.fixed}</strong>Awaiting sign-off</div>
+    <div><strong>${summary.verified}</strong>Verified</div>
+    <div><strong>${summary.waived}</strong>Waived</div>
+  </div>
+  <div class="ready ${summary.handoverReady ? 'yes' : 'no'}">
+    ${summary.handoverReady
+      ? 'All snags are verified or waived - ready for handover'
+      : `${summary.outstanding} snag${summary.outstanding === 1 ? '' : 's'} outstanding before handover`}
+  </div>
+  ${sections || '<p>No snags have been recorded.</p>'}
+</body>
+</html>`;
+}
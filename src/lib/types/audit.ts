@@ -0,0 +1,160 @@
+// src/lib/types/audit.ts - Audit Trail Types
+import type { ObjectId } from 'mongodb';
+
+export type AuditEntityType =
+  | 'project'
+  | 'activity'
+  | 'daily_report'
+  | 'labor_log'
+  | 'site_conditions'
+  | 'meeting_minutes'
+  | 'incident'
+  | 'risk'
+  | 'budget_line'
+  | 'cost'
+  | 'payment'
+  | 'change_order'
+  | 'design_submission'
+  | 'snag'
+  | 'procurement_item'
+  | 'contractor'
+  | 'user'
+  | 'file';
+
+export type AuditAction =
+  | 'created'
+  | 'updated'
+  | 'deleted'
+  | 'status_changed'
+  | 'submitted'
+  | 'approved'
+  | 'rejected'
+  | 'role_changed'
+  | 'password_changed';
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface AuditLog {
+  _id: string;
+  action: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: string;
+  entityLabel?: string;
+  projectId?: string;
+  projectTitle?: string;
+  actorId: string;
+  actorName: string;
+  actorRole: string;
+  changes: AuditChange[];
+  metadata?: Record<string, unknown>;
+  ipAddress?: string;
+  timestamp: string;
+}
+
+export interface AuditLogFilters {
+  entityType?: AuditEntityType;
+  action?: AuditAction;
+  actorId?: string;
+  projectId?: string;
+  from?: string;
+  to?: string;
+  search?: string;
+}
+
+export const AUDIT_ENTITY_TYPES: AuditEntityType[] = [
+  'project',
+  'activity',
+  'daily_report',
+  'labor_log',
+  'site_conditions',
+  'meeting_minutes',
+  'incident',
+  'risk',
+  'budget_line',
+  'cost',
+  'payment',
+  'change_order',
+  'design_submission',
+  'snag',
+  'procurement_item',
+  'contractor',
+  'user',
+  'file'
+];
+
+export const AUDIT_ACTIONS: AuditAction[] = [
+  'created',
+  'updated',
+  'deleted',
+  'status_changed',
+  'submitted',
+  'approved',
+  'rejected',
+  'role_changed',
+  'password_changed'
+];
+
+export const AUDIT_ENTITY_LABELS: Record<AuditEntityType, string> = {
+  project: 'Project',
+  activity: 'Activity',
+  daily_report: 'Daily Report',
+  labor_log: 'Labor Log',
+  site_conditions: 'Site Conditions',
+  meeting_minutes: 'Meeting Minutes',
+  incident: 'Incident',
+  risk: 'Risk',
+  budget_line: 'Budget Line',
+  cost: 'Cost',
+  payment: 'Payment',
+  change_order: 'Change Order',
+  design_submission: 'Design Submission',
+  snag: 'Snag',
+  procurement_item: 'Procurement Item',
+  contractor: 'Contractor',
+  user: 'User',
+  file: 'File'
+};
+
+// MongoDB Document Interfaces for Backend
+// Older entries (e.g. password changes) only carry userId/action/timestamp
+export interface AuditLogDocument {
+  _id?: ObjectId;
+  action: AuditAction;
+  entityType?: AuditEntityType;
+  entityId?: ObjectId;
+  entityLabel?: string;
+  projectId?: ObjectId;
+  actorId?: ObjectId;
+  actorName?: string;
+  actorRole?: string;
+  userId?: ObjectId;
+  changes?: AuditChange[];
+  metadata?: Record<string, unknown>;
+  ipAddress?: string;
+  userAgent?: string;
+  timestamp: Date;
+}
+
+// Helper function to transform MongoDB document to client-safe format
+export function transformAuditLog(doc: AuditLogDocument, projectTitle?: string): AuditLog {
+  return {
+    _id: doc._id?.toString() || '',
+    action: doc.action,
+    entityType: doc.entityType,
+    entityId: doc.entityId?.toString(),
+    entityLabel: doc.entityLabel,
+    projectId: doc.projectId?.toString(),
+    projectTitle,
+    actorId: (doc.actorId || doc.userId)?.toString() || '',
+    actorName: doc.actorName || 'Unknown',
+    actorRole: doc.actorRole || '',
+    changes: doc.changes || [],
+    metadata: doc.metadata,
+    ipAddress: doc.ipAddress,
+    timestamp: doc.timestamp.toISOString()
+  };
+}
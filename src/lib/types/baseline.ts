@@ -0,0 +1,144 @@
+// src/lib/types/baseline.ts - Schedule Baseline & Variance Types
+import type { ObjectId } from 'mongodb';
+
+export interface BaselineActivity {
+  activityId: string;
+  title: string;
+  startDate: string;
+  endDate: string;
+}
+
+export interface BaselinePhase {
+  phaseId: string;
+  name: string;
+  startDate: string;
+  endDate: string;
+  activities: BaselineActivity[];
+}
+
+export interface ScheduleBaseline {
+  _id: string;
+  projectId: string;
+  name: string;
+  description?: string;
+  phases: BaselinePhase[];
+  startDate?: string;
+  finishDate?: string;
+  activityCount: number;
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+}
+
+// Baseline without its snapshot, for lists and report headers
+export type ScheduleBaselineSummary = Omit<ScheduleBaseline, 'phases'> & {
+  phaseCount: number;
+};
+
+// Variance values are in days; positive means later than the baseline
+export interface ActivityVariance {
+  activityId: string;
+  phaseId: string;
+  title: string;
+  status?: string;
+  baselineStart?: string;
+  baselineEnd?: string;
+  currentStart?: string;
+  currentEnd?: string;
+  actualStart?: string;
+  actualFinish?: string;
+  startVariance: number | null;
+  finishVariance: number | null;
+  actualFinishVariance: number | null;
+  dailySlip: number | null; // worst DailyProgress actualDate - plannedDate
+  change: 'unchanged' | 'added' | 'removed';
+}
+
+export interface PhaseVariance {
+  phaseId: string;
+  name: string;
+  baselineStart?: string;
+  baselineEnd?: string;
+  currentStart?: string;
+  currentEnd?: string;
+  startVariance: number | null;
+  finishVariance: number | null;
+  activitiesSlipped: number;
+  activitiesAhead: number;
+  totalActivities: number;
+}
+
+export interface ScheduleVarianceReport {
+  baseline: ScheduleBaselineSummary;
+  overall: {
+    baselineFinish?: string;
+    currentFinish?: string;
+    finishVariance: number | null;
+    activitiesSlipped: number;
+    activitiesAhead: number;
+    activitiesAdded: number;
+    activitiesRemoved: number;
+    averageSlip: number;
+    worstSlip: number;
+  };
+  phases: PhaseVariance[];
+  activities: ActivityVariance[];
+  generatedAt: string;
+}
+
+// MongoDB Document Interfaces for Backend
+export interface ScheduleBaselineDocument {
+  _id?: ObjectId;
+  projectId: ObjectId;
+  name: string;
+  description?: string;
+  phases: Array<{
+    phaseId: ObjectId;
+    name: string;
+    startDate: Date;
+    endDate: Date;
+    activities: Array<{
+      activityId: ObjectId;
+      title: string;
+      startDate: Date;
+      endDate: Date;
+    }>;
+  }>;
+  startDate?: Date;
+  finishDate?: Date;
+  createdBy: ObjectId;
+  createdAt: Date;
+}
+
+// Helper function to transform MongoDB document to client-safe format
+export function transformScheduleBaseline(doc: ScheduleBaselineDocument, createdByName?: string): ScheduleBaseline {
+  return {
+    _id: doc._id?.toString() || '',
+    projectId: doc.projectId.toString(),
+    name: doc.name,
+    description: doc.description,
+    phases: doc.phases.map(phase => ({
+      phaseId: phase.phaseId.toString(),
+      name: phase.name,
+      startDate: phase.startDate.toISOString(),
+      endDate: phase.endDate.toISOString(),
+      activities: phase.activities.map(activity => ({
+        activityId: activity.activityId.toString(),
+        title: activity.title,
+        startDate: activity.startDate.toISOString(),
+        endDate: activity.endDate.toISOString()
+      }))
+    })),
+    startDate: doc.startDate?.toISOString(),
+    finishDate: doc.finishDate?.toISOString(),
+    activityCount: doc.phases.reduce((sum, phase) => sum + phase.activities.length, 0),
+    createdBy: doc.createdBy.toString(),
+    createdByName: createdByName || 'Unknown',
+    createdAt: doc.createdAt.toISOString()
+  };
+}
+
+export function summarizeScheduleBaseline(doc: ScheduleBaselineDocument, createdByName?: string): ScheduleBaselineSummary {
+  const { phases, ...summary } = transformScheduleBaseline(doc, createdByName);
+  return { ...summary, phaseCount: phases.length };
+}
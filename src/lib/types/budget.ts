@@ -0,0 +1,226 @@
+// src/lib/types/budget.ts - Project Budget, Cost & Payment Types
+import type { ObjectId } from 'mongodb';
+
+// Cost categories mirror the activity categories so spend lines up with the schedule
+export type CostCategory = 'structural' | 'electrical' | 'plumbing' | 'finishing' | 'other';
+
+// A commitment is money promised (a signed PO or subcontract); an expense is money spent
+export type CostKind = 'commitment' | 'expense';
+
+export type PaymentStatus = 'pending' | 'paid';
+
+export interface BudgetLine {
+  _id: string;
+  projectId: string;
+  category: CostCategory;
+  description: string;
+  amount: number;
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CostEntry {
+  _id: string;
+  projectId: string;
+  kind: CostKind;
+  category: CostCategory;
+  description: string;
+  amount: number;
+  vendor?: string;
+  reference?: string;
+  date: string;
+  receiptUrl?: string;
+  receiptKey?: string;
+  createdBy: string;
+  createdByName: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaymentMilestone {
+  _id: string;
+  projectId: string;
+  title: string;
+  description?: string;
+  phaseId?: string;
+  phaseName?: string;
+  amount: number;
+  dueDate: string;
+  status: PaymentStatus;
+  isOverdue: boolean;
+  paidAt?: string;
+  paidAmount?: number;
+  reference?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CategoryBudget {
+  category: CostCategory;
+  budgeted: number;
+  committed: number;
+  actual: number;
+  remaining: number; // budgeted - actual
+}
+
+export interface BudgetSummary {
+  contractValue: number; // Project.budget - what the client has agreed to pay
+  budgeted: number;
+  committed: number;
+  actual: number;
+  remaining: number;
+  percentSpent: number;
+  overBudget: boolean;
+  categories: CategoryBudget[];
+}
+
+export interface PaymentSummary {
+  scheduled: number;
+  received: number;
+  outstanding: number;
+  overdue: number;
+  overdueCount: number;
+  nextDue?: { title: string; amount: number; dueDate: string };
+}
+
+export interface BudgetBurnPoint {
+  month: string; // yyyy-MM
+  spent: number;
+  cumulative: number;
+  budget: number;
+}
+
+// Full view for administrators and managers
+export interface ProjectBudgetData {
+  summary: BudgetSummary;
+  payments: PaymentSummary;
+  lines: BudgetLine[];
+  costs: CostEntry[];
+  paymentMilestones: PaymentMilestone[];
+  burn: BudgetBurnPoint[];
+}
+
+// Clients only see what they owe and have paid
+export interface ClientBudgetData {
+  contractValue: number;
+  payments: PaymentSummary;
+  paymentMilestones: PaymentMilestone[];
+}
+
+export const COST_CATEGORIES: CostCategory[] = ['structural', 'electrical', 'plumbing', 'finishing', 'other'];
+
+export const COST_CATEGORY_LABELS: Record<CostCategory, string> = {
+  structural: 'Structural',
+  electrical: 'Electrical',
+  plumbing: 'Plumbing',
+  finishing: 'Finishing',
+  other: 'Other'
+};
+
+// MongoDB Document Interfaces for Backend
+export interface BudgetLineDocument {
+  _id?: ObjectId;
+  projectId: ObjectId;
+  category: CostCategory;
+  description: string;
+  amount: number;
+  notes?: string;
+  createdBy: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface CostEntryDocument {
+  _id?: ObjectId;
+  projectId: ObjectId;
+  kind: CostKind;
+  category: CostCategory;
+  description: string;
+  amount: number;
+  vendor?: string;
+  reference?: string;
+  date: Date;
+  receiptUrl?: string;
+  receiptKey?: string;
+  createdBy: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PaymentMilestoneDocument {
+  _id?: ObjectId;
+  projectId: ObjectId;
+  title: string;
+  description?: string;
+  phaseId?: ObjectId;
+  phaseName?: string;
+  amount: number;
+  dueDate: Date;
+  status: PaymentStatus;
+  paidAt?: Date;
+  paidAmount?: number;
+  reference?: string;
+  createdBy: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Helper functions to transform MongoDB documents to client-safe format
+export function transformBudgetLine(doc: BudgetLineDocument): BudgetLine {
+  return {
+    _id: doc._id?.toString() || '',
+    projectId: doc.projectId.toString(),
+    category: doc.category,
+    description: doc.description,
+    amount: doc.amount,
+    notes: doc.notes,
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString()
+  };
+}
+
+export function transformCostEntry(doc: CostEntryDocument, createdByName?: string): CostEntry {
+  return {
+    _id: doc._id?.toString() || '',
+    projectId: doc.projectId.toString(),
+    kind: doc.kind,
+    category: doc.category,
+    description: doc.description,
+    amount: doc.amount,
+    vendor: doc.vendor,
+    reference: doc.reference,
+    date: doc.date.toISOString(),
+    receiptUrl: doc.receiptUrl,
+    receiptKey: doc.receiptKey,
+    createdBy: doc.createdBy.toString(),
+    createdByName: createdByName || 'Unknown',
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString()
+  };
+}
+
+export function transformPaymentMilestone(doc: PaymentMilestoneDocument, now: Date = new Date()): PaymentMilestone {
+  return {
+    _id: doc._id?.toString() || '',
+    projectId: doc.projectId.toString(),
+    title: doc.title,
+    description: doc.description,
+    phaseId: doc.phaseId?.toString(),
+    phaseName: doc.phaseName,
+    amount: doc.amount,
+    dueDate: doc.dueDate.toISOString(),
+    status: doc.status,
+    isOverdue: doc.status !== 'paid' && doc.dueDate < now,
+    paidAt: doc.paidAt?.toISOString(),
+    paidAmount: doc.paidAmount,
+    reference: doc.reference,
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString()
+  };
+}
+
+// The budget endpoint returns the full view to staff and the payment view to clients
+export function isProjectBudgetData(data: ProjectBudgetData | ClientBudgetData): data is ProjectBudgetData {
+  return 'summary' in data;
+}
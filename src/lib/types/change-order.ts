@@ -0,0 +1,166 @@
+// src/lib/types/change-order.ts - Change Order Types
+import type { ObjectId } from 'mongodb';
+
+// Drafted by a manager, decided by the client; only approved orders touch the budget or schedule
+export type ChangeOrderStatus = 'draft' | 'pending_approval' | 'approved' | 'rejected';
+
+export interface ChangeOrderActivity {
+  activityId: string;
+  phaseId: string;
+  title: string;
+}
+
+export interface ChangeOrderAttachment {
+  url: string;
+  key?: string;
+  name: string;
+}
+
+export interface ChangeOrderShift {
+  activityId: string;
+  title: string;
+  previousStart: string;
+  previousEnd: string;
+  start: string;
+  end: string;
+}
+
+export interface ChangeOrderDecision {
+  by: string;
+  name: string; // as typed by the client when deciding
+  at: string;
+  comment?: string;
+}
+
+export interface ChangeOrder {
+  _id: string;
+  projectId: string;
+  projectTitle?: string;
+  number: string; // CO-001
+  title: string;
+  description: string;
+  reason?: string;
+  activities: ChangeOrderActivity[];
+  costDelta: number;
+  scheduleDeltaDays: number;
+  attachments: ChangeOrderAttachment[];
+  status: ChangeOrderStatus;
+  createdBy: string;
+  createdByName: string;
+  submittedAt?: string;
+  decision?: ChangeOrderDecision;
+  applied?: {
+    budgetBefore: number;
+    budgetAfter: number;
+    shiftedActivities: ChangeOrderShift[];
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const CHANGE_ORDER_STATUSES: ChangeOrderStatus[] = ['draft', 'pending_approval', 'approved', 'rejected'];
+
+export const CHANGE_ORDER_STATUS_LABELS: Record<ChangeOrderStatus, string> = {
+  draft: 'Draft',
+  pending_approval: 'Awaiting Client',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+// MongoDB Document Interfaces for Backend
+export interface ChangeOrderActivityDocument {
+  activityId: ObjectId;
+  phaseId: ObjectId;
+  title: string;
+}
+
+export interface ChangeOrderShiftDocument {
+  activityId: ObjectId;
+  title: string;
+  previousStart: Date;
+  previousEnd: Date;
+  start: Date;
+  end: Date;
+}
+
+export interface ChangeOrderDocument {
+  _id?: ObjectId;
+  projectId: ObjectId;
+  number: string;
+  title: string;
+  description: string;
+  reason?: string;
+  activities: ChangeOrderActivityDocument[];
+  costDelta: number;
+  scheduleDeltaDays: number;
+  attachments: ChangeOrderAttachment[];
+  status: ChangeOrderStatus;
+  createdBy: ObjectId;
+  submittedAt?: Date;
+  submittedBy?: ObjectId;
+  decision?: {
+    by: ObjectId;
+    name: string;
+    at: Date;
+    comment?: string;
+  };
+  applied?: {
+    budgetBefore: number;
+    budgetAfter: number;
+    shiftedActivities: ChangeOrderShiftDocument[];
+  };
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Helper functions to transform MongoDB documents to client-safe format
+export function transformChangeOrder(
+  doc: ChangeOrderDocument,
+  names: { createdByName?: string; projectTitle?: string } = {}
+): ChangeOrder {
+  return {
+    _id: doc._id?.toString() || '',
+    projectId: doc.projectId.toString(),
+    projectTitle: names.projectTitle,
+    number: doc.number,
+    title: doc.title,
+    description: doc.description,
+    reason: doc.reason,
+    activities: doc.activities.map(activity => ({
+      activityId: activity.activityId.toString(),
+      phaseId: activity.phaseId.toString(),
+      title: activity.title
+    })),
+    costDelta: doc.costDelta,
+    scheduleDeltaDays: doc.scheduleDeltaDays,
+    attachments: doc.attachments,
+    status: doc.status,
+    createdBy: doc.createdBy.toString(),
+    createdByName: names.createdByName || 'Unknown',
+    submittedAt: doc.submittedAt?.toISOString(),
+    decision: doc.decision
+      ? {
+          by: doc.decision.by.toString(),
+          name: doc.decision.name,
+          at: doc.decision.at.toISOString(),
+          comment: doc.decision.comment
+        }
+      : undefined,
+    applied: doc.applied
+      ? {
+          budgetBefore: doc.applied.budgetBefore,
+          budgetAfter: doc.applied.budgetAfter,
+          shiftedActivities: doc.applied.shiftedActivities.map(shift => ({
+            activityId: shift.activityId.toString(),
+            title: shift.title,
+            previousStart: shift.previousStart.toISOString(),
+            previousEnd: shift.previousEnd.toISOString(),
+            start: shift.start.toISOString(),
+            end: shift.end.toISOString()
+          }))
+        }
+      : undefined,
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString()
+  };
+}
@@ -0,0 +1,97 @@
+// src/lib/types/channel.ts - Project Channel (group messaging) Types
+import type { ObjectId } from 'mongodb';
+
+// Everyone who can read and post in a project's channel
+export interface ChannelMember {
+  _id: string;
+  name: string;
+  role: string;
+}
+
+export interface ChannelMessage {
+  _id: string;
+  projectId: string;
+  senderId: string;
+  senderName: string;
+  senderRole: string;
+  content: string; // empty once deleted
+  mentions: string[];
+  replyTo?: string; // the thread's first message; replies are never nested deeper
+  replyCount: number;
+  readBy: ChannelReceipt[];
+  editedAt?: string;
+  isDeleted: boolean;
+  createdAt: string;
+}
+
+// One member having read a channel message
+export interface ChannelReceipt {
+  userId: string;
+  readAt: string;
+}
+
+// A channel as the messages sidebar lists it
+export interface ChannelSummary {
+  projectId: string;
+  projectTitle: string;
+  lastMessage?: string;
+  lastSenderName?: string;
+  lastMessageAt?: string;
+  unreadCount: number;
+  unreadMentions: number;
+}
+
+// One page of a channel: the latest threads, oldest first, with all their replies
+export interface ChannelView {
+  projectId: string;
+  projectTitle: string;
+  members: ChannelMember[];
+  messages: ChannelMessage[];
+  hasMore: boolean;
+}
+
+// MongoDB Document Interfaces for Backend
+// Channel messages share the messages collection with direct messages; a null
+// recipientId is what marks them as group messages
+export interface ChannelMessageDocument {
+  _id?: ObjectId;
+  projectId: ObjectId;
+  senderId: ObjectId;
+  senderName: string;
+  senderRole: string;
+  recipientId: null;
+  content: string;
+  messageType: 'text';
+  attachments: [];
+  mentions: ObjectId[];
+  replyTo?: ObjectId;
+  readBy: Array<{ userId: ObjectId; readAt: Date }>;
+  isRead: boolean;
+  reactions: [];
+  editedAt?: Date;
+  isDeleted: boolean;
+  deletedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export function transformChannelMessage(doc: ChannelMessageDocument, replyCount: number = 0): ChannelMessage {
+  return {
+    _id: doc._id?.toString() || '',
+    projectId: doc.projectId.toString(),
+    senderId: doc.senderId.toString(),
+    senderName: doc.senderName,
+    senderRole: doc.senderRole,
+    content: doc.isDeleted ? '' : doc.content,
+    mentions: doc.isDeleted ? [] : (doc.mentions || []).map(id => id.toString()),
+    replyTo: doc.replyTo?.toString(),
+    replyCount,
+    readBy: (doc.readBy || []).map(receipt => ({
+      userId: receipt.userId.toString(),
+      readAt: receipt.readAt.toISOString()
+    })),
+    editedAt: doc.editedAt?.toISOString(),
+    isDeleted: doc.isDeleted,
+    createdAt: doc.createdAt.toISOString()
+  };
+}
@@ -0,0 +1,124 @@
+// src/lib/types/contractor.ts - Contractor and Supplier Directory Types
+import type { ObjectId } from 'mongodb';
+
+export type ContractorKind = 'contractor' | 'supplier';
+
+export interface ContractorRate {
+  description: string; // e.g. "Day rate", "Tiling per m²"
+  amount: number;
+  unit?: string;
+}
+
+export interface ContractorFile {
+  url: string;
+  key?: string;
+  name: string;
+}
+
+export interface Contractor {
+  _id: string;
+  name: string;
+  kind: ContractorKind;
+  trade?: string;
+  company?: string;
+  phone?: string;
+  email?: string;
+  rates: ContractorRate[];
+  documents: ContractorFile[];
+  aliases: string[]; // other spellings found on activities, used for matching
+  notes?: string;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ContractorActivityRecord {
+  projectId: string;
+  projectTitle: string;
+  activityId: string;
+  title: string;
+  role: 'contractor' | 'supervisor';
+  status: string;
+  plannedEnd?: string;
+  actualEnd?: string;
+  onTime?: boolean; // only known once completed with a finish date
+}
+
+export interface ContractorIncidentRecord {
+  projectId: string;
+  projectTitle: string;
+  source: 'incident' | 'site_log'; // incident report, or a note on a daily activity
+  incidentId?: string;
+  code?: string;
+  title: string;
+  severity?: string;
+  status?: string;
+  date: string;
+}
+
+export interface ContractorSupplyRecord {
+  projectId: string;
+  projectTitle: string;
+  itemId: string;
+  name: string;
+  status: string;
+  expectedDelivery?: string;
+  actualDelivery?: string;
+  onTime?: boolean;
+}
+
+export interface ContractorPerformance {
+  projects: number;
+  activities: ContractorActivityRecord[];
+  completed: number;
+  completedOnTime: number;
+  onTimeRate: number | null; // % of completed activities with a known finish
+  delayedDays: number; // daily log entries marked delayed
+  onHoldDays: number; // daily log entries marked on hold
+  incidents: ContractorIncidentRecord[];
+  supplies: ContractorSupplyRecord[];
+}
+
+export const CONTRACTOR_KIND_LABELS: Record<ContractorKind, string> = {
+  contractor: 'Contractor',
+  supplier: 'Supplier'
+};
+
+// MongoDB Document Interface for Backend
+export interface ContractorDocument {
+  _id?: ObjectId;
+  name: string;
+  kind: ContractorKind;
+  trade?: string;
+  company?: string;
+  phone?: string;
+  email?: string;
+  rates: ContractorRate[];
+  documents: ContractorFile[];
+  aliases: string[];
+  notes?: string;
+  isActive: boolean;
+  createdBy?: ObjectId; // missing on entries created by the migration script
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Helper function to transform MongoDB document to client-safe format
+export function transformContractor(doc: ContractorDocument): Contractor {
+  return {
+    _id: doc._id?.toString() || '',
+    name: doc.name,
+    kind: doc.kind,
+    trade: doc.trade,
+    company: doc.company,
+    phone: doc.phone,
+    email: doc.email,
+    rates: doc.rates || [],
+    documents: doc.documents || [],
+    aliases: doc.aliases || [],
+    notes: doc.notes,
+    isActive: doc.isActive,
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString()
+  };
+}
@@ -0,0 +1,58 @@
+// src/lib/types/daily-report.ts - Daily Report Review Types
+import type { ObjectId } from 'mongodb';
+
+// Written by a manager, reviewed by staff; clients only ever see approved reports
+export type DailyReportStatus = 'draft' | 'submitted' | 'changes_requested' | 'approved';
+
+export interface DailyReportReviewComment {
+  _id: string;
+  activityId?: string; // omitted for comments on the report as a whole
+  activityTitle?: string;
+  by: string;
+  byName: string;
+  text: string;
+  createdAt: string;
+}
+
+// Where a report stands in review, as returned by the submit/review/comment endpoints
+export interface DailyReportReview {
+  _id: string;
+  status: DailyReportStatus;
+  approved: boolean;
+  reviewComments: DailyReportReviewComment[];
+  submittedAt?: string;
+  approvedAt?: string;
+}
+
+export const DAILY_REPORT_STATUSES: DailyReportStatus[] = ['draft', 'submitted', 'changes_requested', 'approved'];
+
+export const DAILY_REPORT_STATUS_LABELS: Record<DailyReportStatus, string> = {
+  draft: 'Draft',
+  submitted: 'Awaiting Review',
+  changes_requested: 'Changes Requested',
+  approved: 'Approved'
+};
+
+// MongoDB Document Interfaces for Backend
+export interface DailyReportReviewCommentDocument {
+  _id: ObjectId;
+  activityId?: ObjectId;
+  activityTitle?: string;
+  by: ObjectId;
+  byName: string;
+  text: string;
+  createdAt: Date;
+}
+
+// Helper functions to transform MongoDB documents to client-safe format
+export function transformReviewComment(doc: DailyReportReviewCommentDocument): DailyReportReviewComment {
+  return {
+    _id: doc._id.toString(),
+    activityId: doc.activityId?.toString(),
+    activityTitle: doc.activityTitle,
+    by: doc.by.toString(),
+    byName: doc.byName,
+    text: doc.text,
+    createdAt: doc.createdAt.toISOString()
+  };
+}
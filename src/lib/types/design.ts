@@ -0,0 +1,217 @@
+// src/lib/types/design.ts - Design Submission Types
+import type { ObjectId } from 'mongodb';
+
+// Drafted by a manager, reviewed file by file by the client; approved submissions are locked
+export type DesignStatus = 'draft' | 'pending_approval' | 'changes_requested' | 'approved';
+
+export type DesignCategory = 'layout' | 'drawing' | 'material_selection' | 'mood_board' | 'other';
+
+export type DesignFileDecisionStatus = 'approved' | 'rejected';
+
+export interface DesignFileDecision {
+  status: DesignFileDecisionStatus;
+  by: string;
+  name: string; // as typed by the client when deciding
+  at: string;
+  comment?: string;
+}
+
+export interface DesignFileVersion {
+  fileId: string;
+  version: number;
+  name: string;
+  url: string;
+}
+
+export interface DesignComment {
+  _id: string;
+  fileId: string;
+  version: number;
+  by: string;
+  byName: string;
+  text: string;
+  createdAt: string;
+}
+
+export interface DesignFile extends DesignFileVersion {
+  mimeType?: string;
+  decision?: DesignFileDecision;
+  previousVersions: DesignFileVersion[];
+}
+
+// One line of the approval record: a decision on a specific file version
+export interface DesignApprovalRecord {
+  round: number;
+  fileId: string;
+  fileName: string;
+  version: number;
+  status: DesignFileDecisionStatus;
+  by: string;
+  signedName: string;
+  at: string;
+  comment?: string;
+}
+
+export interface DesignSubmission {
+  _id: string;
+  projectId: string;
+  projectTitle?: string;
+  title: string;
+  description?: string;
+  category: DesignCategory;
+  files: DesignFile[];
+  comments: DesignComment[];
+  records: DesignApprovalRecord[];
+  status: DesignStatus;
+  round: number; // times sent to the client
+  createdBy: string;
+  createdByName: string;
+  submittedAt?: string;
+  approvedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export const DESIGN_CATEGORIES: DesignCategory[] = ['layout', 'drawing', 'material_selection', 'mood_board', 'other'];
+
+export const DESIGN_STATUS_LABELS: Record<DesignStatus, string> = {
+  draft: 'Draft',
+  pending_approval: 'Awaiting Client',
+  changes_requested: 'Changes Requested',
+  approved: 'Approved'
+};
+
+export const DESIGN_CATEGORY_LABELS: Record<DesignCategory, string> = {
+  layout: 'Layout',
+  drawing: 'Drawing',
+  material_selection: 'Material Selection',
+  mood_board: 'Mood Board',
+  other: 'Other'
+};
+
+// MongoDB Document Interfaces for Backend
+export interface DesignFileDecisionDocument {
+  status: DesignFileDecisionStatus;
+  by: ObjectId;
+  name: string;
+  at: Date;
+  comment?: string;
+}
+
+export interface DesignFileVersionDocument {
+  fileId: ObjectId;
+  version: number;
+  name: string;
+  url: string;
+}
+
+export interface DesignFileDocument extends DesignFileVersionDocument {
+  mimeType?: string;
+  decision?: DesignFileDecisionDocument;
+  previousVersions: DesignFileVersionDocument[];
+}
+
+export interface DesignCommentDocument {
+  _id: ObjectId;
+  fileId: ObjectId;
+  version: number;
+  by: ObjectId;
+  byName: string;
+  text: string;
+  createdAt: Date;
+}
+
+export interface DesignApprovalRecordDocument {
+  round: number;
+  fileId: ObjectId;
+  fileName: string;
+  version: number;
+  status: DesignFileDecisionStatus;
+  by: ObjectId;
+  signedName: string;
+  at: Date;
+  comment?: string;
+}
+
+export interface DesignSubmissionDocument {
+  _id?: ObjectId;
+  projectId: ObjectId;
+  title: string;
+  description?: string;
+  category: DesignCategory;
+  files: DesignFileDocument[];
+  comments: DesignCommentDocument[];
+  records: DesignApprovalRecordDocument[];
+  status: DesignStatus;
+  round: number;
+  createdBy: ObjectId;
+  submittedAt?: Date;
+  submittedBy?: ObjectId;
+  approvedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const transformVersion = (version: DesignFileVersionDocument): DesignFileVersion => ({
+  fileId: version.fileId.toString(),
+  version: version.version,
+  name: version.name,
+  url: version.url
+});
+
+// Helper functions to transform MongoDB documents to client-safe format
+export function transformDesignSubmission(
+  doc: DesignSubmissionDocument,
+  names: { createdByName?: string; projectTitle?: string } = {}
+): DesignSubmission {
+  return {
+    _id: doc._id?.toString() || '',
+    projectId: doc.projectId.toString(),
+    projectTitle: names.projectTitle,
+    title: doc.title,
+    description: doc.description,
+    category: doc.category,
+    files: doc.files.map(file => ({
+      ...transformVersion(file),
+      mimeType: file.mimeType,
+      decision: file.decision
+        ? {
+            status: file.decision.status,
+            by: file.decision.by.toString(),
+            name: file.decision.name,
+            at: file.decision.at.toISOString(),
+            comment: file.decision.comment
+          }
+        : undefined,
+      previousVersions: file.previousVersions.map(transformVersion)
+    })),
+    comments: doc.comments.map(comment => ({
+      _id: comment._id.toString(),
+      fileId: comment.fileId.toString(),
+      version: comment.version,
+      by: comment.by.toString(),
+      byName: comment.byName,
+      text: comment.text,
+      createdAt: comment.createdAt.toISOString()
+    })),
+    records: doc.records.map(record => ({
+      round: record.round,
+      fileId: record.fileId.toString(),
+      fileName: record.fileName,
+      version: record.version,
+      status: record.status,
+      by: record.by.toString(),
+      signedName: record.signedName,
+      at: record.at.toISOString(),
+      comment: record.comment
+    })),
+    status: doc.status,
+    round: doc.round,
+    createdBy: doc.createdBy.toString(),
+    createdByName: names.createdByName || 'Unknown',
+    submittedAt: doc.submittedAt?.toISOString(),
+    approvedAt: doc.approvedAt?.toISOString(),
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString()
+  };
+}
@@ -9,6 +9,8 @@ export interface IncidentReport {
   category: 'safety' | 'equipment' | 'environmental' | 'security' | 'quality' | 'other';
   severity: 'low' | 'medium' | 'high' | 'critical';
   location?: string;
+  contractor?: string;
+  contractorId?: string;
   dateOccurred: string;
   timeOccurred?: string;
   reportedBy: string;
@@ -46,6 +48,8 @@ export interface IncidentReportDocument {
   category: 'safety' | 'equipment' | 'environmental' | 'security' | 'quality' | 'other';
   severity: 'low' | 'medium' | 'high' | 'critical';
   location?: string;
+  contractor?: string;
+  contractorId?: ObjectId | null;
   dateOccurred: Date;
   timeOccurred?: string;
   reportedBy: ObjectId;
@@ -83,6 +87,8 @@ export function transformIncidentReport(doc: IncidentReportDocument, reportedByN
     category: doc.category,
     severity: doc.severity,
     location: doc.location,
+    contractor: doc.contractor,
+    contractorId: doc.contractorId?.toString(),
     dateOccurred: doc.dateOccurred.toISOString(),
     timeOccurred: doc.timeOccurred,
     reportedBy: doc.reportedBy.toString(),
@@ -0,0 +1,102 @@
+// src/lib/types/jobs.ts - Scheduled Job Types
+import type { ObjectId } from 'mongodb';
+
+export type JobName = 'calendar_reminders' | 'deadline_reminders' | 'held_notifications' | 'digests' | 'cleanup';
+
+export type JobRunStatus = 'running' | 'succeeded' | 'failed';
+
+// A job as the admin jobs page shows it
+export interface ScheduledJob {
+  name: JobName;
+  label: string;
+  description: string;
+  intervalMinutes: number;
+  nextRunAt?: string;
+  lastRunAt?: string;
+  lastStatus?: JobRunStatus;
+  lastError?: string;
+  lastSuccessAt?: string;
+  lastFailureAt?: string;
+  consecutiveFailures: number;
+  running: boolean;
+  lockedBy?: string;
+}
+
+export interface JobRun {
+  _id: string;
+  job: JobName;
+  status: JobRunStatus;
+  instance: string;
+  summary?: string;
+  error?: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+}
+
+export const JOB_NAMES: JobName[] = ['calendar_reminders', 'deadline_reminders', 'held_notifications', 'digests', 'cleanup'];
+
+export const JOB_LABELS: Record<JobName, string> = {
+  calendar_reminders: 'Calendar Reminders',
+  deadline_reminders: 'Deadline Reminders',
+  held_notifications: 'Quiet Hours Release',
+  digests: 'Email Digests',
+  cleanup: 'Cleanup'
+};
+
+export const JOB_DESCRIPTIONS: Record<JobName, string> = {
+  calendar_reminders: 'Fires the reminders set on calendar events',
+  deadline_reminders: 'Warns assignees and project managers of tasks and activities due by the next working day',
+  held_notifications: 'Sends the email and push held back during users\' quiet hours once they end',
+  digests: 'Sends daily and weekly digests in each user\'s own timezone, with any digest-only notifications',
+  cleanup: 'Removes read notifications, expired reset tokens and old job history'
+};
+
+export const JOB_RUN_STATUS_LABELS: Record<JobRunStatus, string> = {
+  running: 'Running',
+  succeeded: 'Succeeded',
+  failed: 'Failed'
+};
+
+// Database document interfaces
+// One per job: its schedule and the lock that keeps instances from running it twice
+export interface JobDocument {
+  _id: JobName;
+  nextRunAt: Date;
+  lockedUntil?: Date;
+  lockedBy?: string;
+  lastRunAt?: Date;
+  lastStatus?: JobRunStatus;
+  lastError?: string;
+  lastSuccessAt?: Date;
+  lastFailureAt?: Date;
+  consecutiveFailures?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface JobRunDocument {
+  _id?: ObjectId;
+  job: JobName;
+  status: JobRunStatus;
+  instance: string;
+  summary?: string;
+  error?: string;
+  startedAt: Date;
+  finishedAt?: Date;
+  durationMs?: number;
+}
+
+export function transformJobRun(doc: JobRunDocument): JobRun {
+  return {
+    _id: doc._id?.toString() || '',
+    job: doc.job,
+    status: doc.status,
+    instance: doc.instance,
+    summary: doc.summary,
+    error: doc.error,
+    startedAt: doc.startedAt.toISOString(),
+    finishedAt: doc.finishedAt?.toISOString(),
+    durationMs: doc.durationMs
+  };
+}
@@ -0,0 +1,106 @@
+// src/lib/types/labor.ts - Daily Labor Log Types
+import type { ObjectId } from 'mongodb';
+import type { ActivityPhase } from '@/types/activity';
+
+// One line of a day's labor log: a single named worker, or a gang of
+// `headcount` workers from the same contractor and trade
+export interface LaborEntry {
+  _id: string;
+  contractor: string;
+  contractorId?: string; // directory entry the contractor name matched
+  workerName?: string;
+  trade?: string;
+  headcount: number;
+  hours: number; // per worker
+  dayRate?: number; // per worker, for a standard day
+  phase: ActivityPhase;
+  notes?: string;
+}
+
+export interface LaborDay {
+  logId?: string;
+  date: string; // YYYY-MM-DD
+  entries: LaborEntry[];
+  crewSize: number;
+  hours: number;
+  cost?: number; // only when the project tracks costs
+  previous?: { date: string; entries: LaborEntry[] }; // most recent earlier log, to copy from
+}
+
+// Planned manpower for one phase, set by an administrator
+export interface LaborPlanEntry {
+  phase: ActivityPhase;
+  plannedWorkerDays: number;
+  plannedCrew?: number; // average workers on site per day
+}
+
+export interface LaborWeek {
+  weekStart: string; // Monday, YYYY-MM-DD
+  hours: number;
+  workerDays: number;
+  cost?: number;
+}
+
+export interface ContractorLabor {
+  contractor: string;
+  contractorId?: string;
+  hours: number;
+  workerDays: number;
+  cost?: number;
+  weeks: LaborWeek[];
+}
+
+export interface PhaseManpower {
+  phase: ActivityPhase;
+  plannedWorkerDays?: number;
+  plannedCrew?: number;
+  actualWorkerDays: number;
+  daysLogged: number;
+  averageCrew: number;
+  peakCrew: number;
+  variance?: number; // actual - planned worker-days
+}
+
+export interface LaborSummary {
+  tracksCosts: boolean;
+  totals: {
+    hours: number;
+    workerDays: number;
+    daysLogged: number;
+    cost?: number;
+  };
+  weeks: LaborWeek[];
+  contractors: ContractorLabor[];
+  phases: PhaseManpower[];
+  plan: LaborPlanEntry[];
+}
+
+// MongoDB Document Interfaces for Backend
+export interface LaborEntryDocument {
+  _id: ObjectId;
+  contractor: string;
+  contractorId?: ObjectId | null;
+  workerName?: string;
+  trade?: string;
+  headcount: number;
+  hours: number;
+  dayRate?: number;
+  phase: ActivityPhase;
+  notes?: string;
+}
+
+// Helper functions to transform MongoDB documents to client-safe format
+export function transformLaborEntry(doc: LaborEntryDocument): LaborEntry {
+  return {
+    _id: doc._id.toString(),
+    contractor: doc.contractor,
+    contractorId: doc.contractorId?.toString(),
+    workerName: doc.workerName,
+    trade: doc.trade,
+    headcount: doc.headcount,
+    hours: doc.hours,
+    dayRate: doc.dayRate,
+    phase: doc.phase,
+    notes: doc.notes
+  };
+}
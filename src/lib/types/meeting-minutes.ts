@@ -0,0 +1,134 @@
+// src/lib/types/meeting-minutes.ts - Meeting Minutes and Site-Visit Record Types
+import type { ObjectId } from 'mongodb';
+
+export type MeetingRecordKind = 'meeting' | 'site_visit';
+
+// An invited attendee of the calendar event and whether they turned up
+export interface MeetingAttendee {
+  userId: string;
+  name: string;
+  present: boolean;
+}
+
+// A follow-up agreed at the meeting; each one is tracked as a project task
+export interface MeetingActionItem {
+  _id: string;
+  description: string;
+  ownerId: string;
+  ownerName?: string;
+  dueDate: string;
+  taskId?: string;
+  taskStatus?: string;
+}
+
+export interface MeetingMinutes {
+  _id: string;
+  eventId: string;
+  projectId?: string;
+  kind: MeetingRecordKind;
+  attendees: MeetingAttendee[];
+  agenda: string[];
+  notes: string;
+  decisions: string[];
+  actionItems: MeetingActionItem[];
+  recordedByName?: string;
+  emailedAt?: string;
+  emailedTo?: number; // how many attendees the last email reached
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Someone who can be marked present or own an action item
+export interface MeetingPerson {
+  _id: string;
+  name: string;
+  email?: string;
+  role?: string;
+}
+
+// What the minutes dialog loads for one calendar event
+export interface MeetingMinutesView {
+  event: {
+    _id: string;
+    title: string;
+    type: string;
+    startDate: string;
+    endDate: string;
+    location?: string;
+    projectId?: string;
+    projectTitle?: string;
+  };
+  people: MeetingPerson[]; // the event's attendees and its organiser
+  minutes: MeetingMinutes | null;
+  canEdit: boolean;
+}
+
+export const MEETING_RECORD_KINDS: MeetingRecordKind[] = ['meeting', 'site_visit'];
+
+export const MEETING_RECORD_KIND_LABELS: Record<MeetingRecordKind, string> = {
+  meeting: 'Meeting Minutes',
+  site_visit: 'Site Visit Report'
+};
+
+// MongoDB Document Interfaces for Backend
+export interface MeetingActionItemDocument {
+  _id: ObjectId;
+  description: string;
+  ownerId: ObjectId;
+  ownerName?: string;
+  dueDate: Date;
+  taskId?: ObjectId;
+}
+
+export interface MeetingMinutesDocument {
+  _id?: ObjectId;
+  eventId: ObjectId;
+  projectId?: ObjectId;
+  kind: MeetingRecordKind;
+  attendees: Array<{ userId: ObjectId; name: string; present: boolean }>;
+  agenda: string[];
+  notes: string;
+  decisions: string[];
+  actionItems: MeetingActionItemDocument[];
+  recordedBy: ObjectId;
+  recordedByName?: string;
+  emailedAt?: Date;
+  emailedTo?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Helper functions to transform MongoDB documents to client-safe format
+export function transformMeetingMinutes(
+  doc: MeetingMinutesDocument,
+  taskStatuses: Map<string, string> = new Map()
+): MeetingMinutes {
+  return {
+    _id: doc._id?.toString() || '',
+    eventId: doc.eventId.toString(),
+    projectId: doc.projectId?.toString(),
+    kind: doc.kind,
+    attendees: doc.attendees.map(attendee => ({
+      userId: attendee.userId.toString(),
+      name: attendee.name,
+      present: attendee.present
+    })),
+    agenda: doc.agenda,
+    notes: doc.notes,
+    decisions: doc.decisions,
+    actionItems: doc.actionItems.map(item => ({
+      _id: item._id.toString(),
+      description: item.description,
+      ownerId: item.ownerId.toString(),
+      ownerName: item.ownerName,
+      dueDate: item.dueDate.toISOString(),
+      taskId: item.taskId?.toString(),
+      taskStatus: item.taskId ? taskStatuses.get(item.taskId.toString()) : undefined
+    })),
+    recordedByName: doc.recordedByName,
+    emailedAt: doc.emailedAt?.toISOString(),
+    emailedTo: doc.emailedTo,
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString()
+  };
+}
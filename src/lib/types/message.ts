@@ -0,0 +1,29 @@
+// src/lib/types/message.ts - Message editing and receipt types shared by direct messages and channels
+
+// How long after sending a message its sender may still edit or delete it
+export const MESSAGE_EDIT_WINDOW_MINUTES = 15;
+
+export function isWithinEditWindow(createdAt: Date | string, now: Date = new Date()): boolean {
+  return now.getTime() - new Date(createdAt).getTime() < MESSAGE_EDIT_WINDOW_MINUTES * 60 * 1000;
+}
+
+// Pushed to both participants when a direct message is edited or deleted
+export interface DirectMessageUpdate {
+  _id: string;
+  content: string; // empty once deleted
+  editedAt?: string;
+  isDeleted: boolean;
+}
+
+// Pushed to the sender when the recipient reads their direct messages
+export interface DirectMessagesRead {
+  readerId: string;
+  readAt: string;
+}
+
+// Pushed to a project's room when a member catches up on its channel
+export interface ChannelRead {
+  projectId: string;
+  userId: string;
+  readAt: string;
+}
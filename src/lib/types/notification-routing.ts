@@ -0,0 +1,88 @@
+// src/lib/types/notification-routing.ts - Per-user Notification Routing Types
+
+export type NotificationType =
+  | 'task_assigned'
+  | 'task_completed'
+  | 'task_updated'
+  | 'project_created'
+  | 'project_updated'
+  | 'project_invitation'
+  | 'milestone_reached'
+  | 'deadline_approaching'
+  | 'message_received'
+  | 'user_mentioned'
+  | 'file_uploaded'
+  | 'comment_added';
+
+// Where one type of notification goes. A digest-only type skips every other
+// channel and is summarised in the user's next digest email instead.
+export interface NotificationRoute {
+  inApp: boolean;
+  email: boolean;
+  push: boolean;
+  digestOnly: boolean;
+}
+
+export type NotificationRouting = Record<NotificationType, NotificationRoute>;
+
+// Email and push wait until quiet hours end; times are HH:mm in the user's timezone
+export interface QuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+}
+
+export const NOTIFICATION_TYPES: NotificationType[] = [
+  'task_assigned',
+  'task_completed',
+  'task_updated',
+  'project_created',
+  'project_updated',
+  'project_invitation',
+  'milestone_reached',
+  'deadline_approaching',
+  'message_received',
+  'user_mentioned',
+  'file_uploaded',
+  'comment_added'
+];
+
+export const NOTIFICATION_TYPE_LABELS: Record<NotificationType, string> = {
+  task_assigned: 'Task assigned to you',
+  task_completed: 'Task completed',
+  task_updated: 'Task updated',
+  project_created: 'New project',
+  project_updated: 'Project updates',
+  project_invitation: 'Project invitation',
+  milestone_reached: 'Milestone reached',
+  deadline_approaching: 'Deadlines and reminders',
+  message_received: 'New message',
+  user_mentioned: 'Mentioned in a message',
+  file_uploaded: 'File uploaded',
+  comment_added: 'New comment'
+};
+
+const IMMEDIATE_EMAIL_TYPES: NotificationType[] = [
+  'task_assigned',
+  'project_created',
+  'project_invitation',
+  'deadline_approaching',
+  'user_mentioned'
+];
+
+export const DEFAULT_NOTIFICATION_ROUTING = Object.fromEntries(
+  NOTIFICATION_TYPES.map(type => [type, {
+    inApp: true,
+    email: IMMEDIATE_EMAIL_TYPES.includes(type),
+    push: true,
+    digestOnly: false
+  }])
+) as NotificationRouting;
+
+export const DEFAULT_QUIET_HOURS: QuietHours = {
+  enabled: false,
+  start: '22:00',
+  end: '07:00'
+};
+
+export const QUIET_HOURS_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
@@ -0,0 +1,162 @@
+// src/lib/types/procurement.ts - FF&E and Materials Procurement Types
+import type { ObjectId } from 'mongodb';
+
+export type ProcurementCategory =
+  | 'furniture'
+  | 'fixtures'
+  | 'lighting'
+  | 'sanitary_ware'
+  | 'tiles'
+  | 'materials'
+  | 'other';
+
+// An item moves left to right; staff can correct it back a step
+export type ProcurementStatus = 'specified' | 'client_approved' | 'ordered' | 'delivered' | 'installed';
+
+export interface ProcurementItem {
+  _id: string;
+  projectId: string;
+  name: string;
+  description?: string;
+  category: ProcurementCategory;
+  supplier?: string;
+  supplierId?: string;
+  quantity: number;
+  unit?: string; // pcs, m², sets...
+  unitCost?: number; // left out for clients
+  totalCost?: number;
+  orderDate?: string;
+  expectedDelivery?: string;
+  actualDelivery?: string;
+  status: ProcurementStatus;
+  activityId?: string;
+  phaseId?: string;
+  activityTitle?: string;
+  activityStart?: string;
+  deliveryLateDays?: number; // expected delivery after the linked activity starts
+  clientApproval?: { name: string; at: string };
+  notes?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ProcurementSummary {
+  totalItems: number;
+  totalCost?: number;
+  byStatus: Record<ProcurementStatus, number>;
+  awaitingApproval: number;
+  lateDeliveries: number;
+}
+
+export interface ProjectProcurementData {
+  items: ProcurementItem[];
+  summary: ProcurementSummary;
+}
+
+export const PROCUREMENT_CATEGORIES: ProcurementCategory[] = [
+  'furniture',
+  'fixtures',
+  'lighting',
+  'sanitary_ware',
+  'tiles',
+  'materials',
+  'other'
+];
+
+export const PROCUREMENT_CATEGORY_LABELS: Record<ProcurementCategory, string> = {
+  furniture: 'Furniture',
+  fixtures: 'Fixtures',
+  lighting: 'Lighting',
+  sanitary_ware: 'Sanitary Ware',
+  tiles: 'Tiles',
+  materials: 'Materials',
+  other: 'Other'
+};
+
+export const PROCUREMENT_STATUSES: ProcurementStatus[] = ['specified', 'client_approved', 'ordered', 'delivered', 'installed'];
+
+export const PROCUREMENT_STATUS_LABELS: Record<ProcurementStatus, string> = {
+  specified: 'Specified',
+  client_approved: 'Client Approved',
+  ordered: 'Ordered',
+  delivered: 'Delivered',
+  installed: 'Installed'
+};
+
+// MongoDB Document Interface for Backend
+export interface ProcurementItemDocument {
+  _id?: ObjectId;
+  projectId: ObjectId;
+  name: string;
+  description?: string;
+  category: ProcurementCategory;
+  supplier?: string;
+  supplierId?: ObjectId; // directory entry the supplier name matched
+  quantity: number;
+  unit?: string;
+  unitCost: number;
+  orderDate?: Date;
+  expectedDelivery?: Date;
+  actualDelivery?: Date;
+  status: ProcurementStatus;
+  activityId?: ObjectId;
+  phaseId?: ObjectId;
+  activityTitle?: string; // kept in case the activity is later removed
+  clientApproval?: { by: ObjectId; name: string; at: Date };
+  // The delivery/start pair managers were last warned about, so a conflict is only reported once
+  deliveryWarning?: { expectedDelivery: Date; activityStart: Date; notifiedAt: Date };
+  notes?: string;
+  createdBy: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const utcDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+
+/**
+ * Whole days an expected delivery lands after the activity that needs it
+ * starts; 0 when it arrives on or before the start day
+ */
+export function deliveryLateDays(expectedDelivery?: Date, activityStart?: Date): number {
+  if (!expectedDelivery || !activityStart) return 0;
+  return Math.max(0, Math.round((utcDay(expectedDelivery) - utcDay(activityStart)) / DAY_MS));
+}
+
+// Helper function to transform MongoDB document to client-safe format
+export function transformProcurementItem(
+  doc: ProcurementItemDocument,
+  { includeCosts, activityStart }: { includeCosts: boolean; activityStart?: Date }
+): ProcurementItem {
+  const pending = doc.status !== 'delivered' && doc.status !== 'installed';
+  const lateDays = pending ? deliveryLateDays(doc.expectedDelivery, activityStart) : 0;
+
+  return {
+    _id: doc._id?.toString() || '',
+    projectId: doc.projectId.toString(),
+    name: doc.name,
+    description: doc.description,
+    category: doc.category,
+    supplier: doc.supplier,
+    supplierId: doc.supplierId?.toString(),
+    quantity: doc.quantity,
+    unit: doc.unit,
+    unitCost: includeCosts ? doc.unitCost : undefined,
+    totalCost: includeCosts ? Math.round(doc.unitCost * doc.quantity * 100) / 100 : undefined,
+    orderDate: doc.orderDate?.toISOString(),
+    expectedDelivery: doc.expectedDelivery?.toISOString(),
+    actualDelivery: doc.actualDelivery?.toISOString(),
+    status: doc.status,
+    activityId: doc.activityId?.toString(),
+    phaseId: doc.phaseId?.toString(),
+    activityTitle: doc.activityTitle,
+    activityStart: activityStart?.toISOString(),
+    deliveryLateDays: lateDays > 0 ? lateDays : undefined,
+    clientApproval: doc.clientApproval
+      ? { name: doc.clientApproval.name, at: doc.clientApproval.at.toISOString() }
+      : undefined,
+    notes: doc.notes,
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString()
+  };
+}
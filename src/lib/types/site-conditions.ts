@@ -0,0 +1,110 @@
+// src/lib/types/site-conditions.ts - Site Condition and Delay Attribution Types
+import type { ObjectId } from 'mongodb';
+
+export type SiteConditionType = 'rain' | 'power_outage' | 'material_shortage' | 'access_issue' | 'other';
+
+// Who carries the time lost, for extension-of-time discussions with the client
+export type DelayParty = 'client' | 'contractor' | 'weather' | 'supplier';
+
+// Something on site that cost working hours on a given day
+export interface SiteCondition {
+  _id: string;
+  type: SiteConditionType;
+  hoursLost: number;
+  responsibleParty: DelayParty;
+  description?: string;
+  recordedByName?: string;
+}
+
+// The cause a delayed or on-hold activity cites
+export interface ActivityDelay {
+  cause: SiteConditionType;
+  responsibleParty: DelayParty;
+  daysLost: number;
+  note?: string;
+}
+
+export interface SiteConditionsDay {
+  logId?: string;
+  date: string; // YYYY-MM-DD
+  conditions: SiteCondition[];
+  hoursLost: number;
+}
+
+export interface DelayEvent {
+  date: string; // YYYY-MM-DD
+  source: 'site_condition' | 'activity';
+  activityId?: string;
+  activityTitle?: string;
+  cause: SiteConditionType;
+  responsibleParty: DelayParty;
+  daysLost: number;
+  description?: string;
+}
+
+// Days lost are kept apart by source: site conditions stop the whole site,
+// activity delays hold up one piece of work and may overlap them
+export interface DelayTotal {
+  siteDays: number;
+  activityDays: number;
+  events: number;
+}
+
+export interface DelayAttributionReport {
+  totals: DelayTotal;
+  byCause: Array<DelayTotal & { cause: SiteConditionType }>;
+  byParty: Array<DelayTotal & { responsibleParty: DelayParty }>;
+  events: DelayEvent[];
+  uncitedDelays: number; // delayed or on-hold activities with no cause given
+}
+
+export const SITE_CONDITION_TYPES: SiteConditionType[] = ['rain', 'power_outage', 'material_shortage', 'access_issue', 'other'];
+
+export const SITE_CONDITION_LABELS: Record<SiteConditionType, string> = {
+  rain: 'Rain',
+  power_outage: 'Power Outage',
+  material_shortage: 'Material Shortage',
+  access_issue: 'Access Issue',
+  other: 'Other'
+};
+
+export const DELAY_PARTIES: DelayParty[] = ['client', 'contractor', 'weather', 'supplier'];
+
+export const DELAY_PARTY_LABELS: Record<DelayParty, string> = {
+  client: 'Client',
+  contractor: 'Contractor',
+  weather: 'Weather',
+  supplier: 'Supplier'
+};
+
+// The party a condition usually falls to; site officers can override it
+export const DEFAULT_DELAY_PARTY: Record<SiteConditionType, DelayParty> = {
+  rain: 'weather',
+  power_outage: 'client',
+  material_shortage: 'supplier',
+  access_issue: 'client',
+  other: 'contractor'
+};
+
+// MongoDB Document Interfaces for Backend
+export interface SiteConditionDocument {
+  _id: ObjectId;
+  type: SiteConditionType;
+  hoursLost: number;
+  responsibleParty: DelayParty;
+  description?: string;
+  recordedBy?: ObjectId;
+  recordedByName?: string;
+}
+
+// Helper functions to transform MongoDB documents to client-safe format
+export function transformSiteCondition(doc: SiteConditionDocument): SiteCondition {
+  return {
+    _id: doc._id.toString(),
+    type: doc.type,
+    hoursLost: doc.hoursLost,
+    responsibleParty: doc.responsibleParty,
+    description: doc.description,
+    recordedByName: doc.recordedByName
+  };
+}
@@ -0,0 +1,120 @@
+// src/lib/types/snag.ts - Snag List (Punch List) Types
+import type { ObjectId } from 'mongodb';
+
+// open -> fixed -> verified by the client; an administrator can waive a snag instead
+export type SnagStatus = 'open' | 'fixed' | 'verified' | 'waived';
+
+export interface SnagPhoto {
+  url: string;
+  key?: string;
+}
+
+export interface SnagEvent {
+  status: SnagStatus;
+  by: string;
+  byName: string;
+  at: string;
+  note?: string;
+}
+
+export interface Snag {
+  _id: string;
+  projectId: string;
+  number: string; // SN-001
+  location: string; // room or area, e.g. "Master bedroom"
+  description: string;
+  beforePhotos: SnagPhoto[];
+  afterPhotos: SnagPhoto[];
+  contractor?: string;
+  dueDate?: string;
+  status: SnagStatus;
+  isOverdue: boolean;
+  raisedBy: string;
+  raisedByName: string;
+  raisedByClient: boolean;
+  history: SnagEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SnagSummary {
+  total: number;
+  open: number;
+  fixed: number;
+  verified: number;
+  waived: number;
+  overdue: number;
+  outstanding: number; // open + fixed; handover waits on these
+  handoverReady: boolean;
+}
+
+export interface ProjectSnagData {
+  snags: Snag[];
+  summary: SnagSummary;
+}
+
+export const SNAG_STATUSES: SnagStatus[] = ['open', 'fixed', 'verified', 'waived'];
+
+export const SNAG_STATUS_LABELS: Record<SnagStatus, string> = {
+  open: 'Open',
+  fixed: 'Fixed',
+  verified: 'Verified',
+  waived: 'Waived'
+};
+
+// MongoDB Document Interfaces for Backend
+export interface SnagEventDocument {
+  status: SnagStatus;
+  by: ObjectId;
+  byName: string;
+  at: Date;
+  note?: string;
+}
+
+export interface SnagDocument {
+  _id?: ObjectId;
+  projectId: ObjectId;
+  number: string;
+  location: string;
+  description: string;
+  beforePhotos: SnagPhoto[];
+  afterPhotos: SnagPhoto[];
+  contractor?: string;
+  dueDate?: Date;
+  status: SnagStatus;
+  raisedBy: ObjectId;
+  raisedByName: string;
+  raisedByClient: boolean;
+  history: SnagEventDocument[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Helper function to transform MongoDB document to client-safe format
+export function transformSnag(doc: SnagDocument, now: Date = new Date()): Snag {
+  return {
+    _id: doc._id?.toString() || '',
+    projectId: doc.projectId.toString(),
+    number: doc.number,
+    location: doc.location,
+    description: doc.description,
+    beforePhotos: doc.beforePhotos || [],
+    afterPhotos: doc.afterPhotos || [],
+    contractor: doc.contractor,
+    dueDate: doc.dueDate?.toISOString(),
+    status: doc.status,
+    isOverdue: doc.status === 'open' && !!doc.dueDate && doc.dueDate < now,
+    raisedBy: doc.raisedBy.toString(),
+    raisedByName: doc.raisedByName,
+    raisedByClient: doc.raisedByClient,
+    history: (doc.history || []).map(event => ({
+      status: event.status,
+      by: event.by.toString(),
+      byName: event.byName,
+      at: event.at.toISOString(),
+      note: event.note
+    })),
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString()
+  };
+}
@@ -0,0 +1,95 @@
+// src/lib/types/template.ts - Project Template Types
+import type { ObjectId } from 'mongodb';
+import type { MilestoneDocument } from './milestone';
+
+export type TemplateActivityCategory = 'structural' | 'electrical' | 'plumbing' | 'finishing' | 'other';
+export type TemplateActivityPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+// Offsets and durations are in working days from the project start date.
+// Keys identify phases and activities within a template for dependencies.
+export interface TemplateActivity {
+  key: string;
+  title: string;
+  description?: string;
+  contractor?: string;
+  category: TemplateActivityCategory;
+  priority: TemplateActivityPriority;
+  startOffset: number;
+  duration: number;
+  dependencies: string[]; // activity keys
+}
+
+export interface TemplatePhase {
+  key: string;
+  name: string;
+  description?: string;
+  activities: TemplateActivity[];
+  dependencies: string[]; // phase keys
+}
+
+// Milestones land in the project's milestone tracker under one of its phases
+export interface TemplateMilestone {
+  title: string;
+  description?: string;
+  phase: MilestoneDocument['phase'];
+  dayOffset: number;
+}
+
+// Used for both API responses and create/update payloads
+export interface ProjectTemplateInput {
+  name: string;
+  description?: string;
+  phases: TemplatePhase[];
+  milestones: TemplateMilestone[];
+}
+
+export interface ProjectTemplate extends ProjectTemplateInput {
+  _id: string;
+  activityCount: number;
+  totalDuration: number; // working days
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type ProjectTemplateSummary = Omit<ProjectTemplate, 'phases' | 'milestones'> & {
+  phaseCount: number;
+  milestoneCount: number;
+};
+
+// MongoDB Document Interfaces for Backend
+export interface ProjectTemplateDocument extends ProjectTemplateInput {
+  _id?: ObjectId;
+  createdBy?: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Helper function to transform MongoDB document to client-safe format
+export function transformProjectTemplate(doc: ProjectTemplateDocument): ProjectTemplate {
+  const activities = doc.phases.flatMap(phase => phase.activities);
+  return {
+    _id: doc._id?.toString() || '',
+    name: doc.name,
+    description: doc.description,
+    phases: doc.phases,
+    milestones: doc.milestones,
+    activityCount: activities.length,
+    totalDuration: Math.max(
+      0,
+      ...activities.map(activity => activity.startOffset + activity.duration),
+      ...doc.milestones.map(milestone => milestone.dayOffset)
+    ),
+    createdBy: doc.createdBy?.toString(),
+    createdAt: doc.createdAt.toISOString(),
+    updatedAt: doc.updatedAt.toISOString()
+  };
+}
+
+export function summarizeProjectTemplate(doc: ProjectTemplateDocument): ProjectTemplateSummary {
+  const { phases, milestones, ...summary } = transformProjectTemplate(doc);
+  return { ...summary, phaseCount: phases.length, milestoneCount: milestones.length };
+}
+
+export const TEMPLATE_ACTIVITY_CATEGORIES: TemplateActivityCategory[] = ['structural', 'electrical', 'plumbing', 'finishing', 'other'];
+export const TEMPLATE_ACTIVITY_PRIORITIES: TemplateActivityPriority[] = ['low', 'medium', 'high', 'urgent'];
@@ -0,0 +1,182 @@
+// src/lib/user-preferences.ts - Notification and display preferences
+// Kept in their own collection by /api/user/preferences and edited on the
+// settings page. Users who never saved any get the defaults.
+import { Db, ObjectId } from 'mongodb';
+import {
+  DEFAULT_NOTIFICATION_ROUTING,
+  DEFAULT_QUIET_HOURS,
+  NOTIFICATION_TYPES,
+  NotificationRoute,
+  NotificationRouting,
+  NotificationType,
+  QUIET_HOURS_TIME_PATTERN,
+  QuietHours
+} from '@/lib/types/notification-routing';
+
+export const USER_PREFERENCES_COLLECTION = 'user_preferences';
+
+export interface UserPreferences {
+  emailNotifications: boolean;
+  pushNotifications: boolean;
+  projectUpdates: boolean;
+  taskReminders: boolean;
+  messageAlerts: boolean;
+  dailyDigest: boolean;
+  weeklyReports: boolean;
+  theme: 'light' | 'dark' | 'system';
+  timezone: string;
+  language: string;
+  dateFormat: string;
+  notificationRouting: NotificationRouting;
+  quietHours: QuietHours;
+}
+
+export const DEFAULT_USER_PREFERENCES: UserPreferences = {
+  emailNotifications: true,
+  pushNotifications: true,
+  projectUpdates: true,
+  taskReminders: true,
+  messageAlerts: true,
+  dailyDigest: false,
+  weeklyReports: false,
+  theme: 'light',
+  timezone: 'Africa/Lagos',
+  language: 'en',
+  dateFormat: 'DD/MM/YYYY',
+  notificationRouting: DEFAULT_NOTIFICATION_ROUTING,
+  quietHours: DEFAULT_QUIET_HOURS
+};
+
+// The switches the settings page had before the routing matrix, and the types each one covered
+const LEGACY_TYPE_TOGGLES: Partial<Record<NotificationType, 'projectUpdates' | 'taskReminders' | 'messageAlerts'>> = {
+  project_created: 'projectUpdates',
+  project_updated: 'projectUpdates',
+  project_invitation: 'projectUpdates',
+  milestone_reached: 'projectUpdates',
+  file_uploaded: 'projectUpdates',
+  comment_added: 'projectUpdates',
+  deadline_approaching: 'taskReminders',
+  message_received: 'messageAlerts',
+  user_mentioned: 'messageAlerts'
+};
+
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The user's calendar day (YYYY-MM-DD), weekday and minutes past midnight at a moment
+export function localClock(date: Date, timeZone: string): { day: string; weekday: string; hour: number; minutes: number } {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+    weekday: 'short'
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parts.find(item => item.type === type)?.value || '';
+  const hour = parseInt(part('hour'), 10);
+
+  return {
+    day: `${part('year')}-${part('month')}-${part('day')}`,
+    weekday: part('weekday'),
+    hour,
+    minutes: hour * 60 + parseInt(part('minute'), 10)
+  };
+}
+
+/**
+ * When the user's quiet hours end, if `now` falls inside them; null when
+ * they are off or already over.
+ */
+export function quietHoursEnd({ quietHours, timezone }: UserPreferences, now: Date): Date | null {
+  if (!quietHours.enabled || quietHours.start === quietHours.end) return null;
+
+  const toMinutes = (time: string) => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  };
+  const start = toMinutes(quietHours.start);
+  const end = toMinutes(quietHours.end);
+  const { minutes } = localClock(now, timezone);
+
+  // Quiet hours usually run overnight, wrapping past midnight
+  const quiet = start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+  if (!quiet) return null;
+  return new Date(now.getTime() + ((end - minutes + 1440) % 1440) * 60 * 1000);
+}
+
+/**
+ * Read a routing matrix from a request body or a stored document. Types or
+ * flags it leaves out keep the value from `fallback`.
+ */
+export function parseNotificationRouting(value: unknown, fallback: NotificationRouting): NotificationRouting {
+  const input = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+
+  return Object.fromEntries(NOTIFICATION_TYPES.map(type => {
+    const route = input[type] && typeof input[type] === 'object' ? input[type] as Record<string, unknown> : {};
+    const flag = (key: keyof NotificationRoute) => typeof route[key] === 'boolean' ? route[key] as boolean : fallback[type][key];
+    return [type, { inApp: flag('inApp'), email: flag('email'), push: flag('push'), digestOnly: flag('digestOnly') }];
+  })) as NotificationRouting;
+}
+
+export function parseQuietHours(value: unknown, fallback: QuietHours): QuietHours {
+  const input = value && typeof value === 'object' ? value as Record<string, unknown> : {};
+  const time = (key: 'start' | 'end') =>
+    typeof input[key] === 'string' && QUIET_HOURS_TIME_PATTERN.test(input[key] as string) ? input[key] as string : fallback[key];
+
+  return {
+    enabled: typeof input.enabled === 'boolean' ? input.enabled : fallback.enabled,
+    start: time('start'),
+    end: time('end')
+  };
+}
+
+// Until a user saves the matrix, their old email/push and per-topic switches decide it
+function legacyRouting(fields: Partial<UserPreferences>): NotificationRouting {
+  return Object.fromEntries(NOTIFICATION_TYPES.map(type => {
+    const route = DEFAULT_NOTIFICATION_ROUTING[type];
+    const toggle = LEGACY_TYPE_TOGGLES[type];
+    const topicOn = !toggle || fields[toggle] !== false;
+    return [type, {
+      ...route,
+      email: route.email && topicOn && fields.emailNotifications !== false,
+      push: route.push && topicOn && fields.pushNotifications !== false
+    }];
+  })) as NotificationRouting;
+}
+
+export function resolveUserPreferences(fields: Partial<UserPreferences>): UserPreferences {
+  const merged: UserPreferences = { ...DEFAULT_USER_PREFERENCES };
+  (Object.keys(DEFAULT_USER_PREFERENCES) as Array<keyof UserPreferences>).forEach(key => {
+    if (fields[key] !== undefined && fields[key] !== null) {
+      (merged as unknown as Record<string, unknown>)[key] = fields[key];
+    }
+  });
+
+  if (!isValidTimezone(merged.timezone)) merged.timezone = DEFAULT_USER_PREFERENCES.timezone;
+  merged.notificationRouting = parseNotificationRouting(fields.notificationRouting, legacyRouting(fields));
+  merged.quietHours = parseQuietHours(fields.quietHours, DEFAULT_QUIET_HOURS);
+  return merged;
+}
+
+// Preferences for each of the users, keyed by user id
+export async function loadUserPreferences(db: Db, userIds: ObjectId[]): Promise<Map<string, UserPreferences>> {
+  const stored = userIds.length > 0
+    ? await db.collection<Partial<UserPreferences> & { userId: ObjectId }>(USER_PREFERENCES_COLLECTION)
+      .find({ userId: { $in: userIds } })
+      .toArray()
+    : [];
+
+  const preferences = new Map<string, UserPreferences>();
+  userIds.forEach(id => preferences.set(id.toString(), DEFAULT_USER_PREFERENCES));
+  stored.forEach(({ userId, ...fields }) => preferences.set(userId.toString(), resolveUserPreferences(fields)));
+  return preferences;
+}
@@ -1,63 +1,11 @@
 // src/lib/utils/milestones.ts - Milestone utility functions
-import { ObjectId } from 'mongodb';
-import type { MilestoneDocument } from '@/lib/types/milestone';
-
-interface DatabaseCollection {
-  insertMany: (docs: Omit<MilestoneDocument, '_id'>[]) => Promise<unknown>;
-}
-
-interface Database {
-  collection: (name: string) => DatabaseCollection;
-}
-
-// Initialize project milestones function (called when project is created)
-export async function initializeProjectMilestones(
-  projectId: string, 
-  db: Database
-): Promise<void> {
-  const milestones: Omit<MilestoneDocument, '_id'>[] = [
-    {
-      projectId: new ObjectId(projectId),
-      phase: 'construction',
-      title: 'Construction Phase',
-      description: 'Complete all structural and foundational construction work',
-      status: 'pending',
-      createdAt: new Date(),
-      updatedAt: new Date()
-    },
-    {
-      projectId: new ObjectId(projectId),
-      phase: 'installation',
-      title: 'Installation Phase', 
-      description: 'Install all fixtures, utilities, and essential systems',
-      status: 'pending',
-      createdAt: new Date(),
-      updatedAt: new Date()
-    },
-    {
-      projectId: new ObjectId(projectId),
-      phase: 'styling',
-      title: 'Set up and Styling Phase',
-      description: 'Complete interior design, styling, and final setup',
-      status: 'pending',
-      createdAt: new Date(),
-      updatedAt: new Date()
-    }
-  ];
-
-  try {
-    await db.collection('milestones').insertMany(milestones);
-    console.log(`Initialized milestones for project ${projectId}`);
-  } catch (error) {
-    console.error('Error initializing project milestones:', error);
-    throw new Error('Failed to initialize project milestones');
-  }
-}
+import { MILESTONE_PHASES, type MilestoneDocument } from '@/lib/types/milestone';
 
 // Helper function to get milestone progress
 export function calculateMilestoneProgress(milestones: MilestoneDocument[]) {
   const completedCount = milestones.filter(m => m.status === 'completed').length;
-  const totalCount = 3; // Always 3 phases
+  // Projects created from a template can track more than one milestone per phase
+  const totalCount = milestones.length || MILESTONE_PHASES.length;
   const percentage = Math.round((completedCount / totalCount) * 100);
   
   return {
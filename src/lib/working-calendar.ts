@@ -0,0 +1,343 @@
+// src/lib/working-calendar.ts - Per-project working-day calendar
+// A project works on a set of weekdays, skips public holidays (Nigerian holidays
+// are preloaded into the public_holidays collection and editable by admins) and
+// any ad-hoc site closures. Dates are compared by UTC calendar day, matching how
+// schedule dates are stored.
+import type { Db, ObjectId } from 'mongodb';
+
+export interface SiteClosure {
+  date: Date;
+  reason: string;
+}
+
+// Stored on Project.workCalendar
+export interface ProjectWorkCalendar {
+  workingDays: number[]; // 0 = Sunday ... 6 = Saturday
+  observePublicHolidays: boolean;
+  closures: SiteClosure[];
+}
+
+export interface PublicHolidayDocument {
+  _id?: ObjectId;
+  date: Date;
+  name: string;
+  source: 'preset' | 'custom';
+  tentative?: boolean; // preset date awaiting the Federal Government's announcement
+  createdBy?: ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface PublicHoliday {
+  _id: string;
+  date: string; // YYYY-MM-DD
+  name: string;
+  source: 'preset' | 'custom';
+  tentative: boolean;
+}
+
+// The Project fields a calendar is built from
+export interface CalendarProject {
+  workCalendar?: Partial<ProjectWorkCalendar>;
+  workDays?: string;
+  startDate?: Date;
+  endDate?: Date;
+}
+
+export interface WorkingCalendar {
+  workingDays: number[];
+  nonWorkingDates: Set<string>; // YYYY-MM-DD
+}
+
+export const DEFAULT_WORKING_DAYS = [1, 2, 3, 4, 5, 6]; // Monday - Saturday
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Give up rather than loop forever on a calendar with no working days
+const MAX_SEARCH_DAYS = 366 * 5;
+
+export function dateKey(date: Date | string): string {
+  return new Date(date).toISOString().split('T')[0];
+}
+
+function startOfUtcDay(date: Date | string): Date {
+  return new Date(`${dateKey(date)}T00:00:00.000Z`);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS);
+}
+
+const DAY_NAMES: Record<string, number> = {
+  sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6
+};
+
+/**
+ * Read the free-text Project.workDays ("Mondays -Saturdays except public Holidays",
+ * "Mon-Fri", "Monday, Wednesday, Friday") into working weekdays.
+ * Falls back to Monday - Saturday when nothing recognisable is found.
+ */
+export function parseWorkDays(text?: string): Pick<ProjectWorkCalendar, 'workingDays' | 'observePublicHolidays'> {
+  const value = (text || '').toLowerCase();
+  const observePublicHolidays = !/including\s+(public\s+)?holidays/.test(value);
+  const days = new Set<number>();
+
+  const dayPattern = '\\b(sun|mon|tue|wed|thu|fri|sat)[a-z]*';
+  const rangePattern = new RegExp(`${dayPattern}\\s*(?:-|–|to|through|till)\\s*${dayPattern}`, 'g');
+  let remaining = value;
+
+  for (const match of value.matchAll(rangePattern)) {
+    const from = DAY_NAMES[match[1]];
+    const to = DAY_NAMES[match[2]];
+    for (let day = from; ; day = (day + 1) % 7) {
+      days.add(day);
+      if (day === to) break;
+    }
+    remaining = remaining.replace(match[0], ' ');
+  }
+
+  for (const match of remaining.matchAll(new RegExp(dayPattern, 'g'))) {
+    days.add(DAY_NAMES[match[1]]);
+  }
+
+  return {
+    workingDays: days.size > 0 ? Array.from(days).sort((a, b) => a - b) : [...DEFAULT_WORKING_DAYS],
+    observePublicHolidays
+  };
+}
+
+/**
+ * Describe working weekdays the way workDays is usually written, e.g. "Mon-Sat"
+ */
+export function describeWorkingDays(workingDays: number[]): string {
+  const sorted = [...new Set(workingDays)].sort((a, b) => a - b);
+  if (sorted.length === 0) return 'No working days';
+  const contiguous = sorted.every((day, index) => index === 0 || day === sorted[index - 1] + 1);
+  return contiguous && sorted.length > 2
+    ? `${WEEKDAY_LABELS[sorted[0]]}-${WEEKDAY_LABELS[sorted[sorted.length - 1]]}`
+    : sorted.map(day => WEEKDAY_LABELS[day]).join(', ');
+}
+
+// Anonymous Gregorian algorithm
+function easterSunday(year: number): Date {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+// Islamic holidays follow the moon sighting and are confirmed by the Federal
+// Government shortly before; these are the expected dates.
+const ISLAMIC_HOLIDAYS: Record<number, Array<[string, string]>> = {
+  2025: [
+    ['2025-03-31', 'Eid-el-Fitr'], ['2025-04-01', 'Eid-el-Fitr Holiday'],
+    ['2025-06-06', 'Eid-el-Kabir'], ['2025-06-09', 'Eid-el-Kabir Holiday'],
+    ['2025-09-05', 'Eid-el-Maulud']
+  ],
+  2026: [
+    ['2026-03-20', 'Eid-el-Fitr'], ['2026-03-23', 'Eid-el-Fitr Holiday'],
+    ['2026-05-27', 'Eid-el-Kabir'], ['2026-05-28', 'Eid-el-Kabir Holiday'],
+    ['2026-08-26', 'Eid-el-Maulud']
+  ],
+  2027: [
+    ['2027-03-10', 'Eid-el-Fitr'], ['2027-03-11', 'Eid-el-Fitr Holiday'],
+    ['2027-05-17', 'Eid-el-Kabir'], ['2027-05-18', 'Eid-el-Kabir Holiday'],
+    ['2027-08-16', 'Eid-el-Maulud']
+  ]
+};
+
+/**
+ * Nigerian public holidays for a year: fixed dates, Easter and, where known,
+ * the expected Islamic holidays (flagged tentative)
+ */
+export function nigerianPublicHolidays(year: number): Array<Pick<PublicHolidayDocument, 'date' | 'name' | 'tentative'>> {
+  const easter = easterSunday(year);
+  const fixed = (month: number, day: number, name: string) => ({
+    date: new Date(Date.UTC(year, month - 1, day)),
+    name,
+    tentative: false
+  });
+
+  return [
+    fixed(1, 1, "New Year's Day"),
+    { date: addDays(easter, -2), name: 'Good Friday', tentative: false },
+    { date: addDays(easter, 1), name: 'Easter Monday', tentative: false },
+    fixed(5, 1, "Workers' Day"),
+    fixed(6, 12, 'Democracy Day'),
+    fixed(10, 1, 'Independence Day'),
+    fixed(12, 25, 'Christmas Day'),
+    fixed(12, 26, 'Boxing Day'),
+    ...(ISLAMIC_HOLIDAYS[year] || []).map(([date, name]) => ({
+      date: new Date(`${date}T00:00:00.000Z`),
+      name,
+      tentative: true
+    }))
+  ].sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Preload the Nigerian holidays for any year that hasn't been seeded yet.
+ * Seeding is recorded per year so admin deletions aren't undone.
+ */
+export async function ensurePublicHolidays(db: Db, years: number[]): Promise<void> {
+  const seeded = await db.collection<{ year: number }>('public_holiday_years')
+    .find({ year: { $in: years } })
+    .toArray();
+  const seededYears = new Set(seeded.map(doc => doc.year));
+
+  for (const year of new Set(years)) {
+    if (seededYears.has(year)) continue;
+
+    // Upsert the marker first so concurrent requests don't both seed
+    const marker = await db.collection('public_holiday_years').updateOne(
+      { year },
+      { $setOnInsert: { year, seededAt: new Date() } },
+      { upsert: true }
+    );
+    if (marker.upsertedCount === 0) continue;
+
+    const now = new Date();
+    const holidays: PublicHolidayDocument[] = nigerianPublicHolidays(year).map(holiday => ({
+      ...holiday,
+      source: 'preset',
+      createdAt: now,
+      updatedAt: now
+    }));
+    await db.collection<PublicHolidayDocument>('public_holidays').insertMany(holidays);
+  }
+}
+
+function yearsBetween(from: Date, to: Date): number[] {
+  const years: number[] = [];
+  for (let year = from.getUTCFullYear(); year <= to.getUTCFullYear(); year++) years.push(year);
+  return years;
+}
+
+/**
+ * Resolve a project's calendar: its workCalendar (or the parsed workDays text
+ * for older projects), public holidays and site closures.
+ */
+export async function loadProjectCalendar(db: Db, project: CalendarProject): Promise<WorkingCalendar> {
+  const parsed = parseWorkDays(project.workDays);
+  const workingDays = project.workCalendar?.workingDays?.length
+    ? project.workCalendar.workingDays
+    : parsed.workingDays;
+  const observePublicHolidays = project.workCalendar?.observePublicHolidays ?? parsed.observePublicHolidays;
+
+  const nonWorkingDates = new Set((project.workCalendar?.closures || []).map(closure => dateKey(closure.date)));
+
+  if (observePublicHolidays) {
+    // Cover the project span plus a year either side of today for forecasts
+    const now = new Date();
+    const from = new Date(Math.min(project.startDate?.getTime() ?? now.getTime(), now.getTime() - 365 * DAY_MS));
+    const to = new Date(Math.max(project.endDate?.getTime() ?? now.getTime(), now.getTime()) + 365 * DAY_MS);
+    const holidays = await loadPublicHolidays(db, from, to);
+    holidays.forEach(holiday => nonWorkingDates.add(dateKey(holiday.date)));
+  }
+
+  return { workingDays, nonWorkingDates };
+}
+
+export async function loadPublicHolidays(db: Db, from: Date, to: Date): Promise<PublicHolidayDocument[]> {
+  await ensurePublicHolidays(db, yearsBetween(from, to));
+  return db.collection<PublicHolidayDocument>('public_holidays')
+    .find({ date: { $gte: startOfUtcDay(from), $lte: to } })
+    .sort({ date: 1 })
+    .toArray();
+}
+
+export function isWorkingDay(date: Date | string, calendar: WorkingCalendar): boolean {
+  const day = new Date(date);
+  return calendar.workingDays.includes(day.getUTCDay()) && !calendar.nonWorkingDates.has(dateKey(day));
+}
+
+/**
+ * The first working day on or after `date`, keeping its time of day
+ */
+export function nextWorkingDay(date: Date, calendar: WorkingCalendar): Date {
+  let current = new Date(date);
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    if (isWorkingDay(current, calendar)) return current;
+    current = addDays(current, 1);
+  }
+  throw new Error('Project calendar has no working days');
+}
+
+/**
+ * The last working day on or before `date`, keeping its time of day
+ */
+export function previousWorkingDay(date: Date, calendar: WorkingCalendar): Date {
+  let current = new Date(date);
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++) {
+    if (isWorkingDay(current, calendar)) return current;
+    current = addDays(current, -1);
+  }
+  throw new Error('Project calendar has no working days');
+}
+
+/**
+ * Working days from `start` to `end`, both inclusive
+ */
+export function countWorkingDays(start: Date | string, end: Date | string, calendar: WorkingCalendar): number {
+  const last = startOfUtcDay(end);
+  let count = 0;
+  for (let day = startOfUtcDay(start); day <= last; day = addDays(day, 1)) {
+    if (isWorkingDay(day, calendar)) count++;
+  }
+  return count;
+}
+
+/**
+ * Move `days` working days on from `start` (snapped to a working day first),
+ * so addWorkingDays(start, countWorkingDays(start, end) - 1) lands on `end`.
+ * Negative `days` move back.
+ */
+export function addWorkingDays(start: Date, days: number, calendar: WorkingCalendar): Date {
+  let current = nextWorkingDay(start, calendar);
+  for (let remaining = days; remaining > 0; remaining--) {
+    current = nextWorkingDay(addDays(current, 1), calendar);
+  }
+  for (let remaining = days; remaining < 0; remaining++) {
+    current = previousWorkingDay(addDays(current, -1), calendar);
+  }
+  return current;
+}
+
+/**
+ * Working days left until `target`, not counting today; negative once it has passed
+ */
+export function workingDaysUntil(target: Date | string, calendar: WorkingCalendar, from: Date = new Date()): number {
+  const today = startOfUtcDay(from);
+  const deadline = startOfUtcDay(target);
+  return deadline >= today
+    ? countWorkingDays(addDays(today, 1), deadline, calendar)
+    : -countWorkingDays(addDays(deadline, 1), today, calendar);
+}
+
+export function transformPublicHoliday(doc: PublicHolidayDocument): PublicHoliday {
+  return {
+    _id: doc._id?.toString() || '',
+    date: dateKey(doc.date),
+    name: doc.name,
+    source: doc.source,
+    tentative: !!doc.tentative
+  };
+}
+
+/**
+ * Rebuild a calendar on the client from the project calendar API response
+ */
+export function toWorkingCalendar(data: { workingDays: number[]; nonWorkingDates: string[] }): WorkingCalendar {
+  return { workingDays: data.workingDays, nonWorkingDates: new Set(data.nonWorkingDates) };
+}
@@ -13,6 +13,13 @@ export interface IClientComment {
   updatedAt?: Date;
 }
 
+export interface IActivityDelay {
+  cause: 'rain' | 'power_outage' | 'material_shortage' | 'access_issue' | 'other';
+  responsibleParty: 'client' | 'contractor' | 'weather' | 'supplier';
+  daysLost: number;
+  note?: string;
+}
+
 // UPDATED: Added linking fields
 export interface IDailyActivity {
   _id?: Types.ObjectId;
@@ -20,6 +27,8 @@ export interface IDailyActivity {
   description?: string;
   contractor: string;
   supervisor?: string;
+  contractorId?: Types.ObjectId | null; // directory entry the contractor name matched
+  supervisorId?: Types.ObjectId | null;
   startDate: Date;
   endDate: Date;
   status: 'to-do' | 'pending' | 'in_progress' | 'completed' | 'delayed' | 'on_hold';
@@ -42,6 +51,9 @@ export interface IDailyActivity {
   linkedPhaseId?: Types.ObjectId;    // References Project.siteSchedule.phases[]._id
   linkedProjectId?: Types.ObjectId;  // References Project._id (redundant but useful for queries)
   syncEnabled?: boolean;              // If true, updates sync to Project.siteSchedule
+
+  // Why a delayed or on-hold activity is held up (see lib/site-conditions)
+  delay?: IActivityDelay;
   
   createdBy?: Types.ObjectId;
   updatedBy?: Types.ObjectId;
@@ -49,6 +61,31 @@ export interface IDailyActivity {
   updatedAt?: Date;
 }
 
+// One line of the day's labor log (see lib/labor)
+export interface ILaborEntry {
+  _id?: Types.ObjectId;
+  contractor: string;
+  contractorId?: Types.ObjectId | null;
+  workerName?: string;
+  trade?: string;
+  headcount: number;
+  hours: number;
+  dayRate?: number;
+  phase: 'site_preliminaries' | 'construction' | 'installation' | 'setup_styling' | 'post_handover';
+  notes?: string;
+}
+
+// Something on site that cost working hours that day
+export interface ISiteCondition {
+  _id?: Types.ObjectId;
+  type: 'rain' | 'power_outage' | 'material_shortage' | 'access_issue' | 'other';
+  hoursLost: number;
+  responsibleParty: 'client' | 'contractor' | 'weather' | 'supplier';
+  description?: string;
+  recordedBy?: Types.ObjectId;
+  recordedByName?: string;
+}
+
 export interface IDailySummary {
   totalActivities: number;
   completed: number;
@@ -64,7 +101,9 @@ export interface IDailyProgress {
   project: Types.ObjectId;
   date: Date;
   activities: IDailyActivity[];
+  labor?: ILaborEntry[];
   summary: IDailySummary;
+  conditions?: ISiteCondition[];
   weatherCondition?: string;
   siteCondition?: string;
   generalNotes?: string;
@@ -109,6 +148,25 @@ const clientCommentSchema = new Schema<IClientComment>({
   updatedAt: Date
 }, { timestamps: false });
 
+const activityDelaySchema = new Schema<IActivityDelay>({
+  cause: {
+    type: String,
+    enum: ['rain', 'power_outage', 'material_shortage', 'access_issue', 'other'],
+    required: true
+  },
+  responsibleParty: {
+    type: String,
+    enum: ['client', 'contractor', 'weather', 'supplier'],
+    required: true
+  },
+  daysLost: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  note: String
+}, { _id: false });
+
 // UPDATED: Daily activity schema with linking fields
 const dailyActivitySchema = new Schema<IDailyActivity>({
   title: {
@@ -128,6 +186,14 @@ const dailyActivitySchema = new Schema<IDailyActivity>({
     type: String,
     required: false
   },
+  contractorId: {
+    type: Schema.Types.ObjectId,
+    required: false
+  },
+  supervisorId: {
+    type: Schema.Types.ObjectId,
+    required: false
+  },
   startDate: {
     type: Date,
     required: true
@@ -198,6 +264,11 @@ const dailyActivitySchema = new Schema<IDailyActivity>({
     type: Boolean,
     default: false // Manual sync by default
   },
+
+  delay: {
+    type: activityDelaySchema,
+    required: false
+  },
   
   createdBy: {
     type: Schema.Types.ObjectId,
@@ -209,6 +280,66 @@ const dailyActivitySchema = new Schema<IDailyActivity>({
   }
 }, { timestamps: true });
 
+const laborEntrySchema = new Schema<ILaborEntry>({
+  contractor: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  contractorId: {
+    type: Schema.Types.ObjectId,
+    required: false
+  },
+  workerName: String,
+  trade: String,
+  headcount: {
+    type: Number,
+    min: 1,
+    default: 1
+  },
+  hours: {
+    type: Number,
+    min: 0,
+    max: 24,
+    required: true
+  },
+  dayRate: {
+    type: Number,
+    min: 0
+  },
+  phase: {
+    type: String,
+    enum: ['site_preliminaries', 'construction', 'installation', 'setup_styling', 'post_handover'],
+    default: 'construction'
+  },
+  notes: String
+});
+
+const siteConditionSchema = new Schema<ISiteCondition>({
+  type: {
+    type: String,
+    enum: ['rain', 'power_outage', 'material_shortage', 'access_issue', 'other'],
+    required: true
+  },
+  hoursLost: {
+    type: Number,
+    min: 0,
+    max: 24,
+    default: 0
+  },
+  responsibleParty: {
+    type: String,
+    enum: ['client', 'contractor', 'weather', 'supplier'],
+    required: true
+  },
+  description: String,
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  recordedByName: String
+});
+
 const dailyProgressSchema = new Schema<IDailyProgressDocument>({
   project: {
     type: Schema.Types.ObjectId,
@@ -220,6 +351,7 @@ const dailyProgressSchema = new Schema<IDailyProgressDocument>({
     required: true
   },
   activities: [dailyActivitySchema],
+  labor: [laborEntrySchema],
   summary: {
     totalActivities: {
       type: Number,
@@ -254,6 +386,7 @@ const dailyProgressSchema = new Schema<IDailyProgressDocument>({
       default: 0
     }
   },
+  conditions: [siteConditionSchema],
   weatherCondition: String,
   siteCondition: String,
   generalNotes: String,
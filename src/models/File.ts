@@ -56,6 +56,16 @@ const fileSchema = new mongoose.Schema({
     ref: 'File',
     default: null
   },
+  // Set when a design submission containing the file is approved
+  locked: {
+    type: Boolean,
+    default: false
+  },
+  lockedAt: Date,
+  designSubmissionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    default: null
+  },
   downloadCount: {
     type: Number,
     default: 0
@@ -83,6 +83,13 @@ const activitySchema = new mongoose.Schema({
   }],
   contractor: String,
   supervisor: String,
+  // Directory entries the names above were matched to (see src/lib/contractors.ts)
+  contractorId: {
+    type: mongoose.Schema.Types.ObjectId
+  },
+  supervisorId: {
+    type: mongoose.Schema.Types.ObjectId
+  },
   estimatedDuration: String,
   actualDuration: String,
   resources: [String],
@@ -166,6 +173,27 @@ const projectSchema = new mongoose.Schema({
   projectCoordinator: { type: String, default: '' },
   siteOfficer: { type: String, default: '' },
   workDays: { type: String, default: '' },
+  // Structured working calendar; workDays stays as the human-readable text.
+  // Unset fields fall back to parsing workDays (see lib/working-calendar).
+  workCalendar: {
+    workingDays: [{ type: Number, min: 0, max: 6 }], // 0 = Sunday
+    observePublicHolidays: Boolean,
+    closures: [{
+      date: { type: Date, required: true },
+      reason: { type: String, default: '' }
+    }]
+  },
+  // Planned manpower per construction phase, compared with the labor logs
+  laborPlan: [{
+    _id: false,
+    phase: {
+      type: String,
+      enum: ['site_preliminaries', 'construction', 'installation', 'setup_styling', 'post_handover'],
+      required: true
+    },
+    plannedWorkerDays: { type: Number, min: 0, default: 0 },
+    plannedCrew: { type: Number, min: 0 }
+  }],
   status: {
     type: String,
     enum: ['planning', 'in_progress', 'on_hold', 'completed', 'cancelled'],